@@ -0,0 +1,79 @@
+import { defineCapability } from '@elizaos/core';
+import type { TwitterIntegration } from './twitter';
+
+/**
+ * Text embeddings, cached in memory and in the agent's database.
+ */
+export interface EmbeddingCapability {
+    /** Embeds at the configured model's size, throws when the model fails */
+    embed(text: string): Promise<Float32Array>;
+}
+
+/**
+ * Metadata stored with a RAG entry. Conversation messages set the fields
+ * below, other entries may add their own.
+ */
+export interface RAGMetadata {
+    type?: string;
+    conversationId?: string;
+    role?: string;
+    timestamp?: number;
+    userId?: string;
+    isBot?: boolean;
+    [key: string]: unknown;
+}
+
+export interface RAGEntry {
+    content: string;
+    metadata: RAGMetadata;
+}
+
+/**
+ * Semantic search over the agent's knowledge.
+ */
+export interface RAGCapability {
+    search(query: string, limit: number): Promise<RAGEntry[]>;
+    /**
+     * Embeds the content when no embedding is given. Content that cannot be
+     * embedded is kept and stored once embedding succeeds.
+     */
+    store(data: { id: string; content: string; metadata: RAGMetadata; embedding?: Buffer }): Promise<void>;
+}
+
+export interface ConversationMessage {
+    id: string;
+    conversation_id: string;
+    role: string;
+    content: string;
+    timestamp: number;
+    user_id: string | null;
+    isBot: boolean;
+    metadata: Record<string, unknown>;
+}
+
+export interface ConversationContext {
+    recentHistory: ConversationMessage[];
+    relevantPast: Array<{
+        role: string;
+        content: string;
+        timestamp: number;
+        userId?: string;
+        isBot: boolean;
+        metadata: RAGMetadata;
+    }>;
+}
+
+/**
+ * Conversation history, stored in the agent's database and indexed for RAG.
+ */
+export interface ConversationCapability {
+    storeMessage(conversationId: string, role: string, content: string, metadata?: Record<string, unknown>): Promise<{ id: string; timestamp: number }>;
+    getHistory(conversationId: string, options?: { limit?: number; before?: number; after?: number; userId?: string }): Promise<ConversationMessage[]>;
+    getContext(conversationId: string, query: string, options?: { userId?: string; timeWindow?: number }): Promise<ConversationContext>;
+    getUserConversations(userId: string, options?: { limit?: number }): Promise<Array<{ id: string; messages: ConversationMessage[] }>>;
+}
+
+export const EMBEDDING = defineCapability<EmbeddingCapability>('agent:embedding');
+export const RAG = defineCapability<RAGCapability>('agent:rag');
+export const CONVERSATION = defineCapability<ConversationCapability>('agent:conversation');
+export const TWITTER = defineCapability<TwitterIntegration>('agent:twitter');
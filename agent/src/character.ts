@@ -36,6 +36,7 @@ export const character: Character = {
         },
         ragKnowledge: true,
         imageSettings: {
+            backend: "pollinations",
             steps: 20,
             width: 1024,
             height: 1024,
@@ -68,29 +69,31 @@ export const character: Character = {
     ],
     knowledge: [
         { path: "../Knowledge/basic_knowledge.txt", shared: true },
-        { path: "../Knowledge/chi-cuv.usfx.txt", shared: true },
-        { path: "../Knowledge/chr-cherokee.usfx.txt", shared: true },
-        { path: "../Knowledge/cze-bkr.zefania.txt", shared: true },
-        { path: "../Knowledge/dut-statenvertaling.zefania.txt", shared: true },
-        { path: "../Knowledge/eng-asv.osis.txt", shared: true },
-        { path: "../Knowledge/eng-bbe.usfx.txt", shared: true },
-        { path: "../Knowledge/eng-darby.osis.txt", shared: true },
-        { path: "../Knowledge/eng-dra.osis.txt", shared: true },
-        { path: "../Knowledge/eng-gb-oeb.osis.txt", shared: true },
-        { path: "../Knowledge/eng-gb-webbe.usfx.txt", shared: true },
-        { path: "../Knowledge/eng-kjv.osis.txt", shared: true },
-        { path: "../Knowledge/eng-us-oeb.osis.txt", shared: true },
-        { path: "../Knowledge/eng-web.usfx.txt", shared: true },
-        { path: "../Knowledge/eng-ylt.osis.txt", shared: true },
-        { path: "../Knowledge/heb-leningrad.usfx.txt", shared: true },
-        { path: "../Knowledge/jpn-kougo.osis.txt", shared: true },
-        { path: "../Knowledge/lat-clementine.usfx.txt", shared: true },
-        { path: "../Knowledge/por-almeida.usfx.txt", shared: true },
-        { path: "../Knowledge/ron-rccv.usfx.txt", shared: true },
-        { path: "../Knowledge/spa-bes.usfx.txt", shared: true },
-        { path: "../Knowledge/spa-pddpt.usfx.txt", shared: true },
-        { path: "../Knowledge/spa-rv1909.usfx.txt", shared: true },
-        { path: "../Knowledge/spa-vbl.usfx.txt", shared: true }
+        // Bible translations, imported verse by verse: download them from
+        // https://github.com/seven1m/open-bibles into agent/Knowledge
+        { path: "../Knowledge/chi-cuv.usfx.xml", shared: true },
+        { path: "../Knowledge/chr-cherokee.usfx.xml", shared: true },
+        { path: "../Knowledge/cze-bkr.zefania.xml", shared: true },
+        { path: "../Knowledge/dut-statenvertaling.zefania.xml", shared: true },
+        { path: "../Knowledge/eng-asv.osis.xml", shared: true },
+        { path: "../Knowledge/eng-bbe.usfx.xml", shared: true },
+        { path: "../Knowledge/eng-darby.osis.xml", shared: true },
+        { path: "../Knowledge/eng-dra.osis.xml", shared: true },
+        { path: "../Knowledge/eng-gb-oeb.osis.xml", shared: true },
+        { path: "../Knowledge/eng-gb-webbe.usfx.xml", shared: true },
+        { path: "../Knowledge/eng-kjv.osis.xml", shared: true },
+        { path: "../Knowledge/eng-us-oeb.osis.xml", shared: true },
+        { path: "../Knowledge/eng-web.usfx.xml", shared: true },
+        { path: "../Knowledge/eng-ylt.osis.xml", shared: true },
+        { path: "../Knowledge/heb-leningrad.usfx.xml", shared: true },
+        { path: "../Knowledge/jpn-kougo.osis.xml", shared: true },
+        { path: "../Knowledge/lat-clementine.usfx.xml", shared: true },
+        { path: "../Knowledge/por-almeida.usfx.xml", shared: true },
+        { path: "../Knowledge/ron-rccv.usfx.xml", shared: true },
+        { path: "../Knowledge/spa-bes.usfx.xml", shared: true },
+        { path: "../Knowledge/spa-pddpt.usfx.xml", shared: true },
+        { path: "../Knowledge/spa-rv1909.usfx.xml", shared: true },
+        { path: "../Knowledge/spa-vbl.usfx.xml", shared: true }
     ],
     topics: [
         "faith",
@@ -167,6 +170,11 @@ export const character: Character = {
         "redemptive",
         "transformative"
     ],
+    moderation: {
+        blocklist: ["explicit", "profane", "blasphem*", "drug", "drugs"],
+        // Scripture that would otherwise match the blocklist (Matthew 12:31)
+        allowlist: ["blasphemy against the Holy Spirit", "blasphemy against the Spirit"]
+    },
     style: {
         post: [
             "Speak with divine wisdom and biblical accuracy",
@@ -0,0 +1,246 @@
+import { type CapabilityLifecycle, type IAgentRuntime, elizaLogger } from '@elizaos/core';
+import type Database from 'better-sqlite3';
+import { type ConversationCapability, type ConversationContext, type ConversationMessage, RAG } from './capabilities';
+
+interface ConversationMessageRow {
+    id: string;
+    conversation_id: string;
+    role: string;
+    content: string;
+    timestamp: number;
+    user_id: string | null;
+    is_bot: number;
+    metadata: string | null;
+}
+
+/**
+ * Conversation history in the `conversations` and `conversation_messages`
+ * tables. Messages are also stored in RAG for semantic search when the RAG
+ * capability is registered.
+ */
+export class ConversationService implements ConversationCapability, CapabilityLifecycle {
+    // Prepared once the tables exist
+    private statements: {
+        getMessages: Database.Statement;
+        getRecentMessages: Database.Statement;
+        getUserMessages: Database.Statement;
+        insertMessage: Database.Statement;
+        updateConversation: Database.Statement;
+    } | null = null;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private db: Database.Database
+    ) {}
+
+    async initialize(): Promise<void> {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS conversations (
+                id TEXT PRIMARY KEY,
+                created_at INTEGER NOT NULL,
+                last_updated INTEGER NOT NULL,
+                metadata TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS conversation_messages (
+                id TEXT PRIMARY KEY,
+                conversation_id TEXT NOT NULL,
+                role TEXT NOT NULL,
+                content TEXT NOT NULL,
+                timestamp INTEGER NOT NULL,
+                user_id TEXT,
+                is_bot BOOLEAN NOT NULL,
+                metadata TEXT,
+                FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id
+            ON conversation_messages(conversation_id);
+
+            CREATE INDEX IF NOT EXISTS idx_conversation_messages_user_id
+            ON conversation_messages(user_id);
+
+            CREATE INDEX IF NOT EXISTS idx_conversation_messages_timestamp
+            ON conversation_messages(timestamp);
+
+            CREATE INDEX IF NOT EXISTS idx_conversation_messages_composite
+            ON conversation_messages(conversation_id, timestamp, user_id);
+        `);
+
+        this.statements = {
+            getMessages: this.db.prepare(`
+                SELECT * FROM conversation_messages
+                WHERE conversation_id = ?
+                ORDER BY timestamp ASC
+                LIMIT ?
+            `),
+            getRecentMessages: this.db.prepare(`
+                SELECT * FROM conversation_messages
+                WHERE conversation_id = ?
+                AND timestamp >= ?
+                ORDER BY timestamp DESC
+                LIMIT ?
+            `),
+            getUserMessages: this.db.prepare(`
+                SELECT * FROM conversation_messages
+                WHERE user_id = ?
+                ORDER BY timestamp DESC
+                LIMIT ?
+            `),
+            insertMessage: this.db.prepare(`
+                INSERT INTO conversation_messages
+                (id, conversation_id, role, content, timestamp, user_id, is_bot, metadata)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `),
+            updateConversation: this.db.prepare(`
+                INSERT OR REPLACE INTO conversations
+                (id, created_at, last_updated, metadata)
+                VALUES (?, COALESCE((SELECT created_at FROM conversations WHERE id = ?), ?), ?, ?)
+            `)
+        };
+    }
+
+    private get prepared() {
+        if (!this.statements) {
+            throw new Error('Conversation service is not initialized');
+        }
+        return this.statements;
+    }
+
+    async storeMessage(conversationId: string, role: string, content: string, metadata: Record<string, unknown> = {}) {
+        try {
+            const timestamp = Date.now();
+            const messageId = `${conversationId}-${timestamp}`;
+            const isBot = role === 'assistant';
+
+            this.prepared.updateConversation.run(
+                conversationId,
+                conversationId,
+                timestamp,
+                timestamp,
+                JSON.stringify(metadata)
+            );
+
+            this.prepared.insertMessage.run(
+                messageId,
+                conversationId,
+                role,
+                content,
+                timestamp,
+                role === 'user' ? conversationId : null,
+                isBot ? 1 : 0,
+                JSON.stringify(metadata)
+            );
+
+            // Also store in RAG for semantic search, failures are non-fatal
+            try {
+                await this.runtime.getCapability(RAG)?.store({
+                    id: messageId,
+                    content,
+                    metadata: {
+                        type: 'conversation',
+                        conversationId,
+                        role,
+                        timestamp,
+                        userId: role === 'user' ? conversationId : undefined,
+                        isBot,
+                        ...metadata
+                    }
+                });
+            } catch (ragError) {
+                elizaLogger.error(`RAG store error (non-fatal): ${ragError}`);
+            }
+
+            return { id: messageId, timestamp };
+        } catch (error) {
+            elizaLogger.error(`Error storing conversation message: ${error}`);
+            throw error;
+        }
+    }
+
+    async getHistory(conversationId: string, options: {
+        limit?: number;
+        before?: number;
+        after?: number;
+        userId?: string;
+    } = {}): Promise<ConversationMessage[]> {
+        try {
+            const { limit = 100, before, after, userId } = options;
+            const messages = this.prepared.getMessages.all(conversationId, limit) as ConversationMessageRow[];
+
+            // Apply filters in memory for better performance
+            return messages
+                .filter(msg => {
+                    if (userId && msg.user_id !== userId) return false;
+                    if (before && msg.timestamp >= before) return false;
+                    if (after && msg.timestamp <= after) return false;
+                    return true;
+                })
+                .map(toConversationMessage);
+        } catch (error) {
+            elizaLogger.error(`Error retrieving conversation history: ${error}`);
+            return [];
+        }
+    }
+
+    async getContext(conversationId: string, query: string, options: {
+        userId?: string;
+        timeWindow?: number;
+    } = {}): Promise<ConversationContext> {
+        try {
+            const { userId, timeWindow } = options;
+            const cutoffTime = timeWindow ? Date.now() - timeWindow : 0;
+            const recentHistory = this.prepared.getRecentMessages.all(conversationId, cutoffTime, 50) as ConversationMessageRow[];
+
+            // Get relevant past conversations from RAG
+            const relevantResults = await this.runtime.getCapability(RAG)?.search(
+                `${query} conversation:${conversationId}${userId ? ` userId:${userId}` : ''}`,
+                20
+            ) ?? [];
+
+            return {
+                recentHistory: recentHistory.map(toConversationMessage),
+                relevantPast: relevantResults.map(result => ({
+                    role: result.metadata.role,
+                    content: result.content,
+                    timestamp: result.metadata.timestamp,
+                    userId: result.metadata.userId,
+                    isBot: result.metadata.isBot,
+                    metadata: result.metadata
+                }))
+            };
+        } catch (error) {
+            elizaLogger.error(`Error getting conversation context: ${error}`);
+            return { recentHistory: [], relevantPast: [] };
+        }
+    }
+
+    async getUserConversations(userId: string, options: { limit?: number } = {}) {
+        try {
+            const { limit = 100 } = options;
+            const messages = this.prepared.getUserMessages.all(userId, limit) as ConversationMessageRow[];
+
+            // Group messages by conversation
+            const conversations = new Map<string, { id: string; messages: ConversationMessage[] }>();
+            for (const msg of messages) {
+                if (!conversations.has(msg.conversation_id)) {
+                    conversations.set(msg.conversation_id, { id: msg.conversation_id, messages: [] });
+                }
+                conversations.get(msg.conversation_id).messages.push(toConversationMessage(msg));
+            }
+
+            return Array.from(conversations.values());
+        } catch (error) {
+            elizaLogger.error(`Error getting user conversations: ${error}`);
+            return [];
+        }
+    }
+}
+
+function toConversationMessage(row: ConversationMessageRow): ConversationMessage {
+    return {
+        ...row,
+        metadata: JSON.parse(row.metadata || '{}'),
+        isBot: Boolean(row.is_bot)
+    };
+}
@@ -1,9 +1,10 @@
 import sqlite3 from 'sqlite3';
+import { createHash } from 'crypto';
 import { open } from 'sqlite';
+import * as sqliteVec from 'sqlite-vec';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { elizaLogger } from '@elizaos/core';
-import { IAgentRuntimeWithRAG } from './twitter';
+import { type AgentRuntime, elizaLogger, getEmbeddingConfig, type EmbeddingConfig } from '@elizaos/core';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,12 +18,70 @@ interface ConversationHistory {
     type: 'tweet' | 'parent_tweet' | 'image_generation';
 }
 
+/**
+ * Metadata filters for RAG search, matched exactly.
+ */
+export interface RAGSearchFilters {
+    username?: string;
+    conversationId?: string;
+    type?: ConversationHistory['type'];
+}
+
+export interface EmbeddingInfo {
+    dim: number;
+    type: string;
+    version: string;
+    provider: string;
+    model: string;
+    checksum: string;
+}
+
+/**
+ * A RAG entry found by search, with its metadata parsed.
+ */
+export interface RAGSearchResult {
+    content: string;
+    metadata: Record<string, unknown>;
+}
+
+interface RAGMatchRow {
+    content: string;
+    metadata: string;
+    distance: number;
+}
+
+/**
+ * A RAG entry embedded with another model or dimension than the current embedding config.
+ */
+export interface StaleRAGEmbedding {
+    rowid: number;
+    id: string;
+    content: string;
+    embeddingDim: number;
+    embeddingProvider: string;
+    embeddingModel: string;
+}
+
+/**
+ * SHA-256 of the embedding's float32 values, to detect corrupted or changed vectors.
+ */
+export function getEmbeddingChecksum(embedding: number[]): string {
+    return createHash('sha256')
+        .update(Buffer.from(new Float32Array(embedding).buffer))
+        .digest('hex');
+}
+
+// How often invalid RAG entries are repaired and the vector index is brought up to date
+const RAG_MAINTENANCE_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+
 export class Database {
     private db: any;
     private isInitialized: boolean = false;
-    private runtime: IAgentRuntimeWithRAG;
+    private runtime: AgentRuntime;
+    private vectorSearchEnabled: boolean = false;
+    private maintenanceInterval: NodeJS.Timeout | null = null;
 
-    constructor(runtime: IAgentRuntimeWithRAG) {
+    constructor(runtime: AgentRuntime) {
         this.runtime = runtime;
     }
 
@@ -40,6 +99,8 @@ export class Database {
             await this.db.run('PRAGMA journal_mode = WAL');
             await this.db.run('PRAGMA busy_timeout = 5000');
 
+            await this.loadVectorExtension();
+
             await this.db.exec(`
                 CREATE TABLE IF NOT EXISTS replied_tweets (
                     tweet_id TEXT PRIMARY KEY,
@@ -88,6 +149,10 @@ export class Database {
 
             await this.checkHealth();
             await this.maintainDatabase();
+
+            await this.runRAGMaintenance();
+            this.maintenanceInterval = setInterval(() => this.runRAGMaintenance(), RAG_MAINTENANCE_INTERVAL);
+
             this.isInitialized = true;
             elizaLogger.info('Database initialized successfully');
         } catch (error) {
@@ -96,6 +161,16 @@ export class Database {
         }
     }
 
+    private async loadVectorExtension(): Promise<void> {
+        try {
+            await this.db.loadExtension(sqliteVec.getLoadablePath());
+            this.vectorSearchEnabled = true;
+            elizaLogger.info('[DB] sqlite-vec extensions loaded successfully');
+        } catch (error) {
+            elizaLogger.error(`[DB] Failed to load sqlite-vec extensions, RAG search will only use conversation history: ${error.message}`);
+        }
+    }
+
     private async migrateEmbeddingsToJSON(): Promise<void> {
         try {
             elizaLogger.info('[DB] Starting embedding migration to JSON format...');
@@ -244,6 +319,9 @@ export class Database {
                 }
             }
 
+            // Rows get new rowids when restored, so the vector index is rebuilt from scratch
+            await this.dropVectorIndexes();
+
             // Drop and recreate tables
             await this.db.exec(`
                 DROP TABLE IF EXISTS replied_tweets;
@@ -370,14 +448,7 @@ export class Database {
         content: string, 
         embedding: number[], 
         metadata: any,
-        embeddingInfo: {
-            dim: number;
-            type: string;
-            version: string;
-            provider: string;
-            model: string;
-            checksum: string;
-        }
+        embeddingInfo: EmbeddingInfo
     ): Promise<void> {
         return this.withTransaction('storeRAGEmbedding', async () => {
             try {
@@ -408,6 +479,9 @@ export class Database {
 
                 elizaLogger.info(`[DB] Storing RAG embedding - ID: ${id}, Content length: ${content.length}, Embedding size: ${embedding.length} values`);
 
+                // Replacing an entry gives it a new rowid, so its old vector has to go
+                const previous = await this.db.get('SELECT rowid, embedding_dim FROM rag_embeddings WHERE id = ?', [id]);
+
                 // Direct insert with error handling
                 try {
                     await this.db.run(
@@ -439,13 +513,15 @@ export class Database {
                 }
 
                 // Verify storage
-                const stored = await this.db.get('SELECT id, length(embedding) as embedding_length FROM rag_embeddings WHERE id = ?', [id]);
+                const stored = await this.db.get('SELECT id, rowid, length(embedding) as embedding_length FROM rag_embeddings WHERE id = ?', [id]);
                 if (!stored) {
                     throw new Error('Failed to verify RAG embedding storage');
                 }
                 if (stored.embedding_length === 0) {
                     throw new Error('Stored embedding is empty');
                 }
+
+                await this.indexRAGEmbedding(id, stored.rowid, embedding, metadata, previous);
             } catch (error) {
                 elizaLogger.error(`[DB] Error storing RAG embedding: ${error.message}`, error);
                 throw error;
@@ -453,6 +529,103 @@ export class Database {
         });
     }
 
+    /**
+     * Counts RAG entries embedded with another model or dimension than the given config.
+     */
+    async countStaleRAGEmbeddings(config: EmbeddingConfig): Promise<number> {
+        const { count } = await this.db.get(
+            'SELECT COUNT(*) as count FROM rag_embeddings WHERE embedding_dim != ? OR embedding_model != ? OR embedding_provider != ?',
+            [config.dimensions, config.model, config.provider]
+        );
+        return count;
+    }
+
+    /**
+     * Returns a batch of RAG entries embedded with another model or dimension than the given
+     * config, in rowid order starting after `afterRowid`.
+     */
+    async getStaleRAGEmbeddings(config: EmbeddingConfig, afterRowid: number, limit: number): Promise<StaleRAGEmbedding[]> {
+        const rows = await this.db.all(
+            `SELECT rowid, id, content, embedding_dim, embedding_provider, embedding_model
+            FROM rag_embeddings
+            WHERE rowid > ?
+            AND (embedding_dim != ? OR embedding_model != ? OR embedding_provider != ?)
+            ORDER BY rowid
+            LIMIT ?`,
+            [afterRowid, config.dimensions, config.model, config.provider, limit]
+        );
+        return rows.map(row => ({
+            rowid: row.rowid,
+            id: row.id,
+            content: row.content,
+            embeddingDim: row.embedding_dim,
+            embeddingProvider: row.embedding_provider,
+            embeddingModel: row.embedding_model
+        }));
+    }
+
+    /**
+     * Replaces the embedding of an existing RAG entry, keeping its content, metadata and
+     * access statistics.
+     */
+    async updateRAGEmbedding(id: string, embedding: number[], embeddingInfo: EmbeddingInfo): Promise<void> {
+        return this.withTransaction('updateRAGEmbedding', async () => {
+            const previous = await this.db.get('SELECT rowid, embedding_dim, metadata FROM rag_embeddings WHERE id = ?', [id]);
+            if (!previous) {
+                throw new Error(`RAG embedding ${id} not found`);
+            }
+
+            await this.db.run(
+                `UPDATE rag_embeddings SET
+                    embedding = ?, embedding_dim = ?, embedding_type = ?, embedding_version = ?,
+                    embedding_provider = ?, embedding_model = ?, embedding_checksum = ?
+                WHERE id = ?`,
+                [
+                    JSON.stringify(embedding),
+                    embedding.length,
+                    embeddingInfo.type,
+                    embeddingInfo.version,
+                    embeddingInfo.provider,
+                    embeddingInfo.model,
+                    embeddingInfo.checksum,
+                    id
+                ]
+            );
+
+            await this.indexRAGEmbedding(id, previous.rowid, embedding, JSON.parse(previous.metadata), previous);
+        });
+    }
+
+    private async indexRAGEmbedding(
+        id: string,
+        rowid: number,
+        embedding: number[],
+        metadata: any,
+        previous?: { rowid: number; embedding_dim: number }
+    ): Promise<void> {
+        if (!this.vectorSearchEnabled) return;
+
+        try {
+            if (previous) {
+                await this.db.run(`DELETE FROM ${await this.ensureVectorTable(previous.embedding_dim)} WHERE rowid = ?`, [previous.rowid]);
+            }
+            const table = await this.ensureVectorTable(embedding.length);
+            await this.db.run(
+                `INSERT INTO ${table} (rowid, embedding, username, conversation_id, type) VALUES (?, ?, ?, ?, ?)`,
+                [
+                    rowid,
+                    JSON.stringify(embedding),
+                    String(metadata.username ?? ''),
+                    String(metadata.conversationId ?? ''),
+                    String(metadata.type ?? '')
+                ]
+            );
+        } catch (indexError) {
+            // The entry is kept; the next maintenance run indexes it
+            elizaLogger.warn(`[DB] Failed to index RAG embedding ${id}: ${indexError.message}`);
+        }
+    }
+
     async getRAGEmbeddings(limit: number = 20): Promise<Array<{ content: string; metadata: any; embedding: Buffer }>> {
         return this.withTransaction('getRAGEmbeddings', async () => {
             try {
@@ -574,6 +747,10 @@ export class Database {
 
     async cleanup(): Promise<void> {
         try {
+            if (this.maintenanceInterval) {
+                clearInterval(this.maintenanceInterval);
+                this.maintenanceInterval = null;
+            }
             if (this.db) {
                 await this.db.close();
                 this.isInitialized = false;
@@ -655,21 +832,175 @@ export class Database {
         }
     }
 
-    async searchRAG(query: string, limit: number, username?: string): Promise<Array<{ content: string; metadata: any }>> {
+    /**
+     * Repairs invalid RAG entries and brings the vector index up to date. Runs on startup
+     * and every RAG_MAINTENANCE_INTERVAL, so searches never pay for it.
+     */
+    async runRAGMaintenance(): Promise<void> {
+        await this.repairRAGEntries();
+        await this.syncVectorIndex();
+
         try {
-            // First repair any invalid entries
-            await this.repairRAGEntries();
+            const stale = await this.countStaleRAGEmbeddings(getEmbeddingConfig());
+            if (stale > 0) {
+                elizaLogger.warn(`[DB] ${stale} RAG embeddings were made with another embedding model and are left out of searches, run \`pnpm reindex-rag\` to re-embed them`);
+            }
+        } catch (error) {
+            elizaLogger.error(`[DB] Error counting stale RAG embeddings: ${error.message}`, error);
+        }
+    }
+
+    /**
+     * Indexes RAG entries missing from the vector index, e.g. ones stored before sqlite-vec
+     * was available, and drops vectors of entries that no longer exist.
+     */
+    async syncVectorIndex(): Promise<void> {
+        if (!this.vectorSearchEnabled) return;
+
+        try {
+            const dimensions: Array<{ embedding_dim: number }> = await this.db.all(
+                'SELECT DISTINCT embedding_dim FROM rag_embeddings WHERE embedding LIKE "[%"'
+            );
+            for (const { embedding_dim: dim } of dimensions) {
+                const table = await this.ensureVectorTable(dim);
+                const { changes } = await this.db.run(
+                    `INSERT INTO ${table} (rowid, embedding, username, conversation_id, type)
+                    SELECT
+                        rowid,
+                        embedding,
+                        COALESCE(CAST(json_extract(metadata, "$.username") AS TEXT), ''),
+                        COALESCE(CAST(json_extract(metadata, "$.conversationId") AS TEXT), ''),
+                        COALESCE(CAST(json_extract(metadata, "$.type") AS TEXT), '')
+                    FROM rag_embeddings
+                    WHERE embedding_dim = ?
+                    AND json_valid(embedding)
+                    AND json_array_length(embedding) = ?
+                    AND rowid NOT IN (SELECT rowid FROM ${table})`,
+                    [dim, dim]
+                );
+                if (changes > 0) {
+                    elizaLogger.info(`[DB] Indexed ${changes} RAG embeddings with ${dim} dimensions`);
+                }
+            }
+
+            for (const table of await this.getVectorTables()) {
+                await this.db.run(`DELETE FROM ${table} WHERE rowid NOT IN (SELECT rowid FROM rag_embeddings)`);
+            }
+        } catch (error) {
+            elizaLogger.error(`[DB] Error syncing RAG vector index: ${error.message}`, error);
+        }
+    }
+
+    /**
+     * Creates the vector index for embeddings of one dimension if needed. Every embedding
+     * model gets its own index, as vectors of different sizes can't be compared.
+     */
+    private async ensureVectorTable(dim: number): Promise<string> {
+        if (!Number.isInteger(dim) || dim <= 0) {
+            throw new Error(`Invalid embedding dimension: ${dim}`);
+        }
+        const table = `rag_vec_${dim}`;
+        await this.db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS ${table} USING vec0(
+                embedding float[${dim}] distance_metric=cosine,
+                username text,
+                conversation_id text,
+                type text
+            )
+        `);
+        return table;
+    }
+
+    private async getVectorTables(): Promise<string[]> {
+        const tables: Array<{ name: string }> = await this.db.all("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'rag_vec_%'");
+        // Skip the shadow tables sqlite-vec keeps for each index
+        return tables.map(table => table.name).filter(name => /^rag_vec_\d+$/.test(name));
+    }
+
+    private async dropVectorIndexes(): Promise<void> {
+        if (!this.vectorSearchEnabled) return;
+
+        for (const table of await this.getVectorTables()) {
+            try {
+                await this.db.run(`DROP TABLE ${table}`);
+            } catch (error) {
+                elizaLogger.warn(`[DB] Could not drop vector index ${table}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Finds the entries nearest to the embedding across the whole corpus, filtered on metadata.
+     */
+    private async searchVectorIndex(
+        embedding: number[],
+        limit: number,
+        filters: RAGSearchFilters
+    ): Promise<Array<RAGSearchResult & { similarity: number }>> {
+        const table = `rag_vec_${embedding.length}`;
+        if (!(await this.getVectorTables()).includes(table)) {
+            elizaLogger.warn(`[RAG] No embeddings stored with ${embedding.length} dimensions`);
+            return [];
+        }
 
-            // Extract username from query if not provided
-            if (!username) {
-                username = query.split('from:')[1]?.split(' ')[0] || '';
+        const predicates = ['embedding MATCH ?', 'k = ?'];
+        const params: Array<string | number> = [JSON.stringify(embedding), limit];
+        const columns: Array<[string, string | undefined]> = [
+            ['username', filters.username],
+            ['conversation_id', filters.conversationId],
+            ['type', filters.type]
+        ];
+        for (const [column, value] of columns) {
+            if (value) {
+                predicates.push(`${column} = ?`);
+                params.push(value);
             }
+        }
+
+        const rows: RAGMatchRow[] = await this.db.all(
+            `
+                WITH matches AS (
+                    SELECT rowid, distance
+                    FROM ${table}
+                    WHERE ${predicates.join(' AND ')}
+                )
+                SELECT re.content, re.metadata, matches.distance
+                FROM matches
+                JOIN rag_embeddings re ON re.rowid = matches.rowid AND re.embedding_dim = ?
+                ORDER BY matches.distance
+            `,
+            [...params, embedding.length]
+        );
+
+        return rows.map(row => {
+            try {
+                return {
+                    content: row.content,
+                    metadata: JSON.parse(row.metadata),
+                    similarity: 1 - row.distance
+                };
+            } catch (error) {
+                elizaLogger.error(`[RAG] Error parsing RAG entry metadata: ${error.message}`);
+                return null;
+            }
+        }).filter(Boolean);
+    }
+
+    /**
+     * Searches the RAG store by similarity to the query, topped up with recent conversation
+     * history. `from:<username>` and `conversation:<id>` in the query are used when the
+     * filters don't name a username or conversation for the history.
+     */
+    async searchRAG(query: string, limit: number, filters: RAGSearchFilters = {}): Promise<RAGSearchResult[]> {
+        const username = filters.username || query.split('from:')[1]?.split(' ')[0] || '';
+        const conversationId = filters.conversationId || query.split('conversation:')[1]?.split(' ')[0] || '';
+
+        try {
             elizaLogger.info(`[RAG] Searching for user: ${username}`);
 
             // Always fetch the last 5 messages from conversation history as supplementary context
-            let recentMessages: Array<{ content: string; metadata: any }> = [];
+            let recentMessages: RAGSearchResult[] = [];
             try {
-                const conversationId = query.split('conversation:')[1]?.split(' ')[0] || '';
                 recentMessages = await this.getConversationHistory(conversationId, username);
                 recentMessages = recentMessages.slice(0, 5); // Limit to last 5 messages
                 elizaLogger.info(`[RAG] Retrieved ${recentMessages.length} recent conversation messages for context`);
@@ -677,6 +1008,11 @@ export class Database {
                 elizaLogger.error(`[RAG] Error retrieving recent conversation history: ${historyError.message}`);
             }
 
+            if (!this.vectorSearchEnabled) {
+                elizaLogger.warn('[RAG] Vector search unavailable, using recent messages');
+                return recentMessages;
+            }
+
             // Generate embedding for the query
             let queryEmbedding: number[];
             try {
@@ -686,100 +1022,33 @@ export class Database {
                     return recentMessages;
                 }
                 elizaLogger.info(`[RAG] Generated embedding with ${queryEmbedding.length} dimensions`);
+
+                // Never compare vectors from different embedding models
+                const { dimensions } = getEmbeddingConfig();
+                if (queryEmbedding.length !== dimensions) {
+                    elizaLogger.warn(`[RAG] Query embedding has ${queryEmbedding.length} dimensions but the embedding config expects ${dimensions}, using recent messages`);
+                    return recentMessages;
+                }
             } catch (error) {
                 elizaLogger.error(`[RAG] Error generating embedding: ${error.message}`);
                 return recentMessages;
             }
 
-            // Get embeddings from database
-            let results;
+            let scoredResults: Array<RAGSearchResult & { similarity: number }>;
             try {
-                elizaLogger.info('[RAG] Querying database for embeddings...');
-
-                // Get embeddings for specific user or all embeddings
-                results = await this.db.all(
-                    username
-                        ? `
-                            SELECT id, content, metadata, embedding
-                            FROM rag_embeddings
-                            WHERE length(embedding) > 0 
-                            AND embedding LIKE "[%"
-                            AND json_extract(metadata, "$.username") = ?
-                            ORDER BY created_at DESC
-                            LIMIT ?
-                        `
-                        : `
-                            SELECT id, content, metadata, embedding
-                            FROM rag_embeddings
-                            WHERE length(embedding) > 0 
-                            AND embedding LIKE "[%"
-                            ORDER BY created_at DESC
-                            LIMIT ?
-                        `,
-                    username ? [username, limit * 2] : [limit * 2]
-                );
-
-                elizaLogger.info(`[RAG] Retrieved ${results.length} embeddings from database`);
-
-                if (results.length === 0) {
-                    elizaLogger.warn('[RAG] No results found, using recent messages');
-                    return recentMessages;
-                }
+                scoredResults = await this.searchVectorIndex(queryEmbedding, limit, { ...filters, username });
+                elizaLogger.info(`[RAG] Retrieved ${scoredResults.length} nearest embeddings from database`);
             } catch (dbError) {
                 elizaLogger.error(`[RAG] Database error: ${dbError.message}`);
                 return recentMessages;
             }
 
-            // Calculate similarity scores
-            const scoredResults = results.map(row => {
-                try {
-                    if (!row.embedding || !row.content || !row.metadata) {
-                        return null;
-                    }
-
-                    const storedEmbedding = JSON.parse(row.embedding);
-                    if (storedEmbedding.length !== queryEmbedding.length) {
-                        elizaLogger.warn(`[RAG] Dimension mismatch: expected ${queryEmbedding.length}, got ${storedEmbedding.length}`);
-                        return null;
-                    }
-
-                    // Calculate cosine similarity
-                    let dotProduct = 0;
-                    let queryMagnitude = 0;
-                    let storedMagnitude = 0;
-
-                    for (let i = 0; i < queryEmbedding.length; i++) {
-                        dotProduct += queryEmbedding[i] * storedEmbedding[i];
-                        queryMagnitude += queryEmbedding[i] * queryEmbedding[i];
-                        storedMagnitude += storedEmbedding[i] * storedEmbedding[i];
-                    }
-
-                    const similarity = dotProduct / (Math.sqrt(queryMagnitude) * Math.sqrt(storedMagnitude));
-                    if (isNaN(similarity) || !isFinite(similarity)) {
-                        return null;
-                    }
-
-                    return {
-                        content: row.content,
-                        metadata: JSON.parse(row.metadata),
-                        similarity
-                    };
-                } catch (error) {
-                    elizaLogger.error(`[RAG] Error processing result: ${error.message}`);
-                    return null;
-                }
-            }).filter(Boolean);
-
             if (scoredResults.length === 0) {
-                elizaLogger.warn('[RAG] No valid results after similarity calculation, using recent messages');
+                elizaLogger.warn('[RAG] No results found, using recent messages');
                 return recentMessages;
             }
 
-            // Sort by similarity and take top results
-            const sortedResults = scoredResults
-                .sort((a, b) => b.similarity - a.similarity)
-                .slice(0, limit)
-                .map(({ content, metadata }) => ({ content, metadata }));
+            const sortedResults = scoredResults.map(({ content, metadata }) => ({ content, metadata }));
 
             // Combine RAG results with recent messages
             const combinedResults = [...sortedResults];
@@ -799,9 +1068,8 @@ export class Database {
 
         } catch (error) {
             elizaLogger.error(`[RAG] Error in searchRAG: ${error.message}`);
-            const conversationId = query.split('conversation:')[1]?.split(' ')[0] || '';
             const fallbackResults = await this.getConversationHistory(conversationId, username);
             return fallbackResults.slice(0, limit);
         }
     }
-}
\ No newline at end of file
+}
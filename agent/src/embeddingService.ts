@@ -0,0 +1,100 @@
+import { type AgentRuntime, type CapabilityLifecycle, elizaLogger, embed, getEmbeddingConfig, stringToUuid } from '@elizaos/core';
+import type Database from 'better-sqlite3';
+import type { EmbeddingCapability } from './capabilities';
+
+const EMBEDDING_CACHE_TTL = 30 * 60 * 1000; // 30 minutes cache TTL
+const MAX_TEXT_LENGTH = 8192;
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 1000; // 1 second
+
+/**
+ * Embeds text with the configured embedding model, caching the results in
+ * memory and in the `embeddings` table. Vectors keep the size the model
+ * produces; failures throw instead of returning a placeholder vector.
+ */
+export class EmbeddingService implements EmbeddingCapability, CapabilityLifecycle {
+    private cache = new Map<string, { embedding: Float32Array; timestamp: number }>();
+
+    constructor(
+        private runtime: AgentRuntime,
+        private db: Database.Database
+    ) {}
+
+    async initialize(): Promise<void> {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS embeddings (
+                id TEXT PRIMARY KEY,
+                text TEXT NOT NULL,
+                embedding BLOB NOT NULL,
+                created_at INTEGER NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_embeddings_text
+            ON embeddings(text);
+        `);
+    }
+
+    async stop(): Promise<void> {
+        this.cache.clear();
+    }
+
+    async embed(text: string): Promise<Float32Array> {
+        // Cached per model, vectors of different models must not mix
+        const config = getEmbeddingConfig();
+        const cacheKey = `${config.provider}:${config.model}:${config.dimensions}:${text}`;
+
+        // Check embedding cache first
+        const cached = this.cache.get(cacheKey);
+        if (cached && Date.now() - cached.timestamp < EMBEDDING_CACHE_TTL) {
+            return cached.embedding;
+        }
+
+        // Check database cache
+        const id = stringToUuid(cacheKey);
+        const cachedEmbedding = this.db
+            .prepare('SELECT embedding FROM embeddings WHERE id = ?')
+            .get(id) as { embedding: Buffer } | undefined;
+        if (cachedEmbedding) {
+            const { buffer, byteOffset, byteLength } = cachedEmbedding.embedding;
+            const embedding = new Float32Array(buffer.slice(byteOffset, byteOffset + byteLength));
+            this.cache.set(cacheKey, { embedding, timestamp: Date.now() });
+            return embedding;
+        }
+
+        // Ensure text is not too long
+        const truncatedText = text.length > MAX_TEXT_LENGTH ? text.substring(0, MAX_TEXT_LENGTH) : text;
+
+        // Add retry logic with exponential backoff
+        let lastError: Error | undefined;
+        for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+            try {
+                const embeddingArray = await embed(this.runtime, truncatedText);
+                if (embeddingArray.length === 0) {
+                    throw new Error('Empty embedding received');
+                }
+
+                const embedding = new Float32Array(embeddingArray);
+                this.cache.set(cacheKey, { embedding, timestamp: Date.now() });
+
+                // Cache in database
+                try {
+                    this.db
+                        .prepare('INSERT OR REPLACE INTO embeddings (id, text, embedding, created_at) VALUES (?, ?, ?, ?)')
+                        .run(id, text, Buffer.from(embedding.buffer), Date.now());
+                } catch (dbError) {
+                    elizaLogger.warn('Failed to cache embedding in database:', dbError);
+                }
+
+                return embedding;
+            } catch (error) {
+                lastError = error;
+                elizaLogger.warn(`Embedding attempt ${attempt + 1} failed: ${error.message}`);
+                if (attempt < MAX_RETRIES - 1) {
+                    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * Math.pow(2, attempt)));
+                }
+            }
+        }
+
+        throw new Error(`Embedding failed after ${MAX_RETRIES} attempts: ${lastError?.message}`);
+    }
+}
@@ -19,7 +19,11 @@ import {
     parseBooleanFromText,
 } from "@elizaos/core";
 import { defaultCharacter } from "./defaultCharacter.ts";
-import { TwitterIntegration, type IAgentRuntimeWithRAG } from "./twitter.ts";
+import { TwitterIntegration } from "./twitter.ts";
+import { CONVERSATION, EMBEDDING, RAG, TWITTER } from "./capabilities.ts";
+import { ConversationService } from "./conversationService.ts";
+import { EmbeddingService } from "./embeddingService.ts";
+import { RAGService } from "./ragService.ts";
 import { twitterPlugin } from "@elizaos/plugin-twitter";
 import { bootstrapPlugin } from "@elizaos/plugin-bootstrap";
 import JSON5 from 'json5';
@@ -650,91 +654,9 @@ export async function createAgent(
         }
     });
 
-    // Create prepared statements for frequently used queries
-    const preparedStatements = {
-        getMessages: database.prepare(`
-            SELECT * FROM conversation_messages 
-            WHERE conversation_id = ? 
-            ORDER BY timestamp ASC
-            LIMIT ?
-        `),
-        getRecentMessages: database.prepare(`
-            SELECT * FROM conversation_messages 
-            WHERE conversation_id = ? 
-            AND timestamp >= ?
-            ORDER BY timestamp DESC
-            LIMIT ?
-        `),
-        getUserMessages: database.prepare(`
-            SELECT * FROM conversation_messages 
-            WHERE user_id = ? 
-            ORDER BY timestamp DESC
-            LIMIT ?
-        `),
-        insertMessage: database.prepare(`
-            INSERT INTO conversation_messages 
-            (id, conversation_id, role, content, timestamp, user_id, is_bot, metadata)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-        `),
-        updateConversation: database.prepare(`
-            INSERT OR REPLACE INTO conversations 
-            (id, created_at, last_updated, metadata)
-            VALUES (?, COALESCE((SELECT created_at FROM conversations WHERE id = ?), ?), ?, ?)
-        `)
-    };
-
     const databaseAdapter = new SqliteDatabaseAdapter(database);
     await databaseAdapter.init();
 
-    // Create tables with proper error handling
-    try {
-        database.exec(`
-            CREATE TABLE IF NOT EXISTS conversations (
-                id TEXT PRIMARY KEY,
-                created_at INTEGER NOT NULL,
-                last_updated INTEGER NOT NULL,
-                metadata TEXT
-            );
-
-            CREATE TABLE IF NOT EXISTS conversation_messages (
-                id TEXT PRIMARY KEY,
-                conversation_id TEXT NOT NULL,
-                role TEXT NOT NULL,
-                content TEXT NOT NULL,
-                timestamp INTEGER NOT NULL,
-                user_id TEXT,
-                is_bot BOOLEAN NOT NULL,
-                metadata TEXT,
-                FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
-            );
-
-            CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id 
-            ON conversation_messages(conversation_id);
-            
-            CREATE INDEX IF NOT EXISTS idx_conversation_messages_user_id 
-            ON conversation_messages(user_id);
-            
-            CREATE INDEX IF NOT EXISTS idx_conversation_messages_timestamp 
-            ON conversation_messages(timestamp);
-
-            CREATE INDEX IF NOT EXISTS idx_conversation_messages_composite 
-            ON conversation_messages(conversation_id, timestamp, user_id);
-
-            CREATE TABLE IF NOT EXISTS embeddings (
-                id TEXT PRIMARY KEY,
-                text TEXT NOT NULL,
-                embedding BLOB NOT NULL,
-                created_at INTEGER NOT NULL
-            );
-
-            CREATE INDEX IF NOT EXISTS idx_embeddings_text 
-            ON embeddings(text);
-        `);
-    } catch (error) {
-        elizaLogger.error('Error creating database tables:', error);
-        throw error;
-    }
-
     // Enable RAG knowledge in character settings if not already enabled
     if (!character.settings) {
         character.settings = {};
@@ -753,385 +675,14 @@ export async function createAgent(
         token,
         modelProvider: character.modelProvider,
         logging: true,
-        databaseAdapter: databaseAdapter
+        databaseAdapter: databaseAdapter,
+        knowledgeRoot
     });
 
-    // Configure RAG system
-    (runtime as any).knowledgeRoot = knowledgeRoot;
-    (runtime as any).ragKnowledgeManager.knowledgeRoot = knowledgeRoot;
-
-    // Initialize caches and constants
-    const ragCache = new Map<string, { data: any; timestamp: number }>();
-    const embeddingCache = new Map<string, { embedding: Float32Array; timestamp: number }>();
-    const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache TTL
-    const EMBEDDING_CACHE_TTL = 30 * 60 * 1000; // 30 minutes cache TTL
-    const MAX_RETRIES = 3;
-    const RETRY_DELAY = 1000; // 1 second
-
-    // Add optimized embedding with better error handling
-    (runtime as any).embed = async (text: string) => {
-        try {
-            // Check embedding cache first
-            const cached = embeddingCache.get(text);
-            if (cached && Date.now() - cached.timestamp < EMBEDDING_CACHE_TTL) {
-                return cached.embedding;
-            }
-
-            // Check database cache
-            const stmt = database.prepare('SELECT embedding FROM embeddings WHERE text = ? ORDER BY created_at DESC LIMIT 1');
-            const cachedEmbedding = stmt.get(text);
-            if (cachedEmbedding) {
-                const embedding = new Float32Array(cachedEmbedding.embedding);
-                embeddingCache.set(text, { embedding, timestamp: Date.now() });
-                return embedding;
-            }
-
-            // Ensure text is not too long
-            const maxLength = 8192;
-            const truncatedText = text.length > maxLength ? text.substring(0, maxLength) : text;
-
-            // Add retry logic with exponential backoff
-            let lastError;
-            for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-                try {
-                    const embeddingArray = await (runtime as any).ragKnowledgeManager.embed(truncatedText);
-                    
-                    if (!Array.isArray(embeddingArray) || embeddingArray.length === 0) {
-                        throw new Error('Invalid embedding array received');
-                    }
-
-                    // Convert to Float32Array and ensure 384 dimensions
-                    let embedding = new Float32Array(embeddingArray);
-                    if (embedding.length !== 384) {
-                        elizaLogger.warn(`[RAG] Converting embedding from ${embedding.length} to 384 dimensions`);
-                        const reducedEmbedding = new Float32Array(384);
-                        const chunkSize = Math.floor(embedding.length / 384);
-                        for (let i = 0; i < 384; i++) {
-                            let sum = 0;
-                            for (let j = 0; j < chunkSize; j++) {
-                                sum += embedding[i * chunkSize + j] || 0;
-                            }
-                            reducedEmbedding[i] = sum / chunkSize;
-                        }
-                        // Normalize the reduced embedding
-                        const magnitude = Math.sqrt(reducedEmbedding.reduce((sum, val) => sum + val * val, 0));
-                        for (let i = 0; i < 384; i++) {
-                            reducedEmbedding[i] /= magnitude;
-                        }
-                        embedding = reducedEmbedding;
-                    }
-                    
-                    // Cache in memory
-                    embeddingCache.set(text, { embedding, timestamp: Date.now() });
-                    
-                    // Cache in database
-                    try {
-                        const insertStmt = database.prepare(
-                            'INSERT INTO embeddings (id, text, embedding, created_at) VALUES (?, ?, ?, ?)'
-                        );
-                        insertStmt.run(
-                            stringToUuid(Date.now().toString()),
-                            text,
-                            Buffer.from(embedding.buffer),
-                            Date.now()
-                        );
-                    } catch (dbError) {
-                        elizaLogger.warn('Failed to cache embedding in database:', dbError);
-                    }
-                    
-                    return embedding;
-                } catch (error) {
-                    lastError = error;
-                    if (attempt < MAX_RETRIES - 1) {
-                        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * Math.pow(2, attempt)));
-                    }
-                }
-            }
-
-            elizaLogger.warn(`Embedding failed after ${MAX_RETRIES} attempts, using zero vector`);
-            return new Float32Array(384).fill(0);
-        } catch (error) {
-            elizaLogger.error(`Embedding error: ${error}`);
-            return new Float32Array(384).fill(0);
-        }
-    };
-
-    // Add conversation history management with database storage
-    (runtime as any).conversation = {
-        // Store a message in conversation history
-        storeMessage: async (conversationId: string, role: string, content: string, metadata: any = {}) => {
-            try {
-                const timestamp = Date.now();
-                const messageId = `${conversationId}-${timestamp}`;
-                const isBot = role === 'assistant';
-
-                // Use prepared statements for faster inserts
-                preparedStatements.updateConversation.run(
-                    conversationId, 
-                    conversationId, 
-                    timestamp, 
-                    timestamp, 
-                    JSON.stringify(metadata)
-                );
-
-                preparedStatements.insertMessage.run(
-                    messageId,
-                    conversationId,
-                    role,
-                    content,
-                    timestamp,
-                    role === 'user' ? conversationId : null,
-                    isBot ? 1 : 0,
-                    JSON.stringify(metadata)
-                );
-
-                // Also store in RAG for semantic search with error handling
-                try {
-                    await (runtime as any).rag.store({
-                        id: messageId,
-                        content: content,
-                        metadata: {
-                            type: 'conversation',
-                            conversationId,
-                            role,
-                            timestamp,
-                            userId: role === 'user' ? conversationId : undefined,
-                            isBot,
-                            ...metadata
-                        }
-                    });
-                } catch (ragError) {
-                    elizaLogger.error(`RAG store error (non-fatal): ${ragError}`);
-                    // Continue execution even if RAG store fails
-                }
-
-                return { id: messageId, timestamp };
-            } catch (error) {
-                elizaLogger.error(`Error storing conversation message: ${error}`);
-                throw error;
-            }
-        },
-
-        // Get conversation history with pagination
-        getHistory: async (conversationId: string, options: { 
-            limit?: number; 
-            before?: number; 
-            after?: number;
-            userId?: string;
-        } = {}) => {
-            try {
-                const { limit = 100, before, after, userId } = options;
-                
-                // Use prepared statement for faster query
-                const messages = preparedStatements.getMessages.all(conversationId, limit);
-                
-                // Apply filters in memory for better performance
-                return messages
-                    .filter(msg => {
-                        if (userId && msg.user_id !== userId) return false;
-                        if (before && msg.timestamp >= before) return false;
-                        if (after && msg.timestamp <= after) return false;
-                        return true;
-                    })
-                    .map(msg => ({
-                        ...msg,
-                        metadata: JSON.parse(msg.metadata || '{}'),
-                        isBot: Boolean(msg.is_bot)
-                    }));
-            } catch (error) {
-                elizaLogger.error(`Error retrieving conversation history: ${error}`);
-                return [];
-            }
-        },
-
-        // Get conversation context with comprehensive history
-        getContext: async (conversationId: string, query: string, options: {
-            userId?: string;
-            timeWindow?: number;
-        } = {}) => {
-            try {
-                const { userId, timeWindow } = options;
-                const cutoffTime = timeWindow ? Date.now() - timeWindow : 0;
-                
-                // Use prepared statement for faster query
-                const recentHistory = preparedStatements.getRecentMessages.all(
-                    conversationId,
-                    cutoffTime,
-                    50
-                );
-
-                // Get relevant past conversations from RAG in parallel
-                const [relevantResults] = await Promise.all([
-                    (runtime as any).rag.search(
-                        `${query} conversation:${conversationId}${userId ? ` userId:${userId}` : ''}`,
-                        20
-                    )
-                ]);
-
-                return {
-                    recentHistory: recentHistory.map(msg => ({
-                        ...msg,
-                        metadata: JSON.parse(msg.metadata || '{}'),
-                        isBot: Boolean(msg.is_bot)
-                    })),
-                    relevantPast: relevantResults.map(result => ({
-                        role: result.metadata.role,
-                        content: result.content,
-                        timestamp: result.metadata.timestamp,
-                        userId: result.metadata.userId,
-                        isBot: result.metadata.isBot,
-                        metadata: result.metadata
-                    }))
-                };
-            } catch (error) {
-                elizaLogger.error(`Error getting conversation context: ${error}`);
-                return { recentHistory: [], relevantPast: [] };
-            }
-        },
-
-        // Get all conversations for a user
-        getUserConversations: async (userId: string, options: {
-            limit?: number;
-            before?: number;
-            after?: number;
-        } = {}) => {
-            try {
-                const { limit = 100 } = options;
-                
-                // Use prepared statement for faster query
-                const messages = preparedStatements.getUserMessages.all(userId, limit);
-                
-                // Group messages by conversation
-                const conversations = new Map();
-                messages.forEach(msg => {
-                    if (!conversations.has(msg.conversation_id)) {
-                        conversations.set(msg.conversation_id, {
-                            id: msg.conversation_id,
-                            messages: []
-                        });
-                    }
-                    conversations.get(msg.conversation_id).messages.push({
-                        ...msg,
-                        metadata: JSON.parse(msg.metadata || '{}'),
-                        isBot: Boolean(msg.is_bot)
-                    });
-                });
-
-                return Array.from(conversations.values());
-            } catch (error) {
-                elizaLogger.error(`Error getting user conversations: ${error}`);
-                return [];
-            }
-        }
-    };
-
-    (runtime as any).rag = {
-        search: async (query: string, limit: number) => {
-            try {
-                // Extract username from query
-                const username = query.split('from:')[1]?.split(' ')[0] || '';
-                elizaLogger.info(`[RAG] Search request for user: ${username}`);
-
-                // Check cache first
-                const cacheKey = `search:${query}:${limit}:${username}`;
-                const cached = ragCache.get(cacheKey);
-                if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-                    elizaLogger.info(`[RAG] Using cached results for user ${username}`);
-                    return cached.data;
-                }
-
-                // Perform search with retries
-                let attempts = 0;
-                const maxAttempts = 3;
-                while (attempts < maxAttempts) {
-                    try {
-                        // Generate embedding for the query
-                        const queryEmbedding = await (runtime as any).embed(query);
-                        
-                        // Search using the knowledge manager
-                        const results = await (runtime as any).ragKnowledgeManager.searchKnowledge({
-                            agentId: runtime.agentId,
-                            embedding: queryEmbedding,
-                            match_threshold: 0.5,
-                            match_count: limit * 2, // Get more results for better reranking
-                            searchText: query,
-                            metadata: {
-                                username: username
-                            }
-                        });
-                        
-                        if (results && results.length > 0) {
-                            // Cache successful results
-                            ragCache.set(cacheKey, { data: results, timestamp: Date.now() });
-                            elizaLogger.info(`[RAG] Search successful for user ${username}, found ${results.length} results`);
-                            return results;
-                        } else {
-                            elizaLogger.warn(`[RAG] No results found for user ${username}`);
-                            return [];
-                        }
-                    } catch (error) {
-                        attempts++;
-                        elizaLogger.error(`[RAG] Search attempt ${attempts} failed: ${error.message}`);
-                        if (attempts === maxAttempts) {
-                            elizaLogger.error(`[RAG] Search failed after ${maxAttempts} attempts:`, error);
-                            return [];
-                        }
-                        await new Promise(resolve => setTimeout(resolve, 1000 * attempts));
-                    }
-                }
-            } catch (error) {
-                elizaLogger.error(`[RAG] Search error: ${error}`);
-                return [];
-            }
-        },
-        store: async (data: { id: string; content: string; metadata: any; embedding: Buffer }) => {
-            try {
-                // Convert Buffer to number array and ensure 384 dimensions
-                let embeddingArray = Array.from(new Float32Array(data.embedding.buffer));
-                if (embeddingArray.length !== 384) {
-                    elizaLogger.warn(`[RAG] Converting embedding from ${embeddingArray.length} to 384 dimensions`);
-                    const reducedEmbedding = new Float32Array(384);
-                    const chunkSize = Math.floor(embeddingArray.length / 384);
-                    for (let i = 0; i < 384; i++) {
-                        let sum = 0;
-                        for (let j = 0; j < chunkSize; j++) {
-                            sum += embeddingArray[i * chunkSize + j] || 0;
-                        }
-                        reducedEmbedding[i] = sum / chunkSize;
-                    }
-                    // Normalize the reduced embedding
-                    const magnitude = Math.sqrt(reducedEmbedding.reduce((sum, val) => sum + val * val, 0));
-                    for (let i = 0; i < 384; i++) {
-                        reducedEmbedding[i] /= magnitude;
-                    }
-                    embeddingArray = Array.from(reducedEmbedding);
-                }
-                
-                // Store using the knowledge manager
-                await (runtime as any).ragKnowledgeManager.createKnowledge({
-                    id: data.id,
-                    agentId: runtime.agentId,
-                    content: {
-                        text: data.content,
-                        metadata: data.metadata
-                    },
-                    embedding: embeddingArray,
-                    createdAt: Date.now()
-                });
-                
-                elizaLogger.info(`[RAG] Successfully stored embedding for id ${data.id}`);
-            } catch (error) {
-                elizaLogger.error(`[RAG] Store error: ${error}`);
-                throw error;
-            }
-        }
-    };
-
-    // Cast runtime to IAgentRuntimeWithRAG after adding rag property
-    const runtimeWithRag = runtime as IAgentRuntimeWithRAG;
-
-    // Use runtimeWithRag for TwitterIntegration
-    const twitterIntegration = new TwitterIntegration(runtimeWithRag);
+    // Registration order is initialization order, conversations store into RAG
+    runtime.registerCapability(EMBEDDING, new EmbeddingService(runtime, database));
+    runtime.registerCapability(RAG, new RAGService(runtime, database));
+    runtime.registerCapability(CONVERSATION, new ConversationService(runtime, database));
 
     return runtime;
 }
@@ -1235,17 +786,7 @@ async function initializeTwitter(runtime: AgentRuntime) {
 
     try {
         elizaLogger.info('Initializing Twitter integration...');
-        // Add RAG interface to runtime
-        (runtime as any).rag = {
-            search: async (query: string, limit: number) => {
-                return await (runtime as any).ragKnowledgeManager.search(query, limit);
-            },
-            store: async (data: { id: string; content: string; metadata: any }) => {
-                return await (runtime as any).ragKnowledgeManager.store(data);
-            }
-        };
-        const runtimeWithRag = runtime as IAgentRuntimeWithRAG;
-        const twitterIntegration = new TwitterIntegration(runtimeWithRag);
+        const twitterIntegration = new TwitterIntegration(runtime);
         await twitterIntegration.initialize();
         
         if (!twitterIntegration.initialized) {
@@ -1300,26 +841,16 @@ async function startAgent(
         if (process.env.TWITTER_USERNAME && process.env.TWITTER_PASSWORD && process.env.TWITTER_EMAIL) {
             try {
                 elizaLogger.info('Initializing Twitter integration...');
-                // Add RAG interface to runtime
-                (runtime as any).rag = {
-                    search: async (query: string, limit: number) => {
-                        return await (runtime as any).ragKnowledgeManager.search(query, limit);
-                    },
-                    store: async (data: { id: string; content: string; metadata: any }) => {
-                        return await (runtime as any).ragKnowledgeManager.store(data);
-                    }
-                };
-                const runtimeWithRag = runtime as IAgentRuntimeWithRAG;
-                twitterIntegration = new TwitterIntegration(runtimeWithRag);
+                twitterIntegration = new TwitterIntegration(runtime);
                 await twitterIntegration.initialize();
                 
-                // Add Twitter integration to runtime for persistence
-                (runtime as any).twitterIntegration = twitterIntegration;
-                
                 // Verify initialization
                 if (!twitterIntegration.initialized) {
                     throw new Error('Twitter integration failed to initialize properly');
                 }
+
+                // Registered once running so the runtime stops it
+                runtime.registerCapability(TWITTER, twitterIntegration);
                 
                 elizaLogger.info('Twitter integration initialized successfully');
             } catch (error) {
@@ -1483,16 +1014,16 @@ A: Knowledge files should be placed in the agent/Knowledge directory for the sys
         if (process.env.TWITTER_USERNAME && process.env.TWITTER_PASSWORD && process.env.TWITTER_EMAIL) {
             try {
                 elizaLogger.info('Initializing Twitter integration...');
-                twitterIntegration = new TwitterIntegration(runtime as IAgentRuntimeWithRAG);
+                twitterIntegration = new TwitterIntegration(runtime);
                 await twitterIntegration.initialize();
                 
-                // Add Twitter integration to runtime for persistence
-                (runtime as any).twitterIntegration = twitterIntegration;
-                
                 // Verify initialization
                 if (!twitterIntegration.initialized) {
                     throw new Error('Twitter integration failed to initialize properly');
                 }
+
+                // Registered once running so the runtime stops it
+                runtime.registerCapability(TWITTER, twitterIntegration);
                 
                 elizaLogger.info('Twitter integration initialized successfully');
             } catch (error) {
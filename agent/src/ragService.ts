@@ -0,0 +1,181 @@
+import { type CapabilityLifecycle, type IAgentRuntime, type UUID, elizaLogger, getEmbeddingConfig } from '@elizaos/core';
+import type Database from 'better-sqlite3';
+import { EMBEDDING, type RAGCapability, type RAGEntry, type RAGMetadata } from './capabilities';
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache TTL
+const MAX_ATTEMPTS = 3;
+// How often entries that could not be embedded are tried again, and how often before giving up
+const MISSING_EMBEDDING_RETRY_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const MAX_EMBEDDING_RETRIES = 20;
+
+/**
+ * RAG search and storage on top of the runtime's knowledge manager, using the
+ * embedding capability. Search results are cached briefly. Entries whose
+ * content cannot be embedded are kept in the `missing_embeddings` table and
+ * stored once embedding succeeds.
+ */
+export class RAGService implements RAGCapability, CapabilityLifecycle {
+    private cache = new Map<string, { data: RAGEntry[]; timestamp: number }>();
+    private retryInterval: NodeJS.Timeout | null = null;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private db: Database.Database
+    ) {}
+
+    async initialize(): Promise<void> {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS missing_embeddings (
+                id TEXT PRIMARY KEY,
+                content TEXT NOT NULL,
+                metadata TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                last_error TEXT,
+                created_at INTEGER NOT NULL,
+                last_attempt INTEGER
+            );
+        `);
+
+        this.retryInterval = setInterval(() => this.retryMissingEmbeddings(), MISSING_EMBEDDING_RETRY_INTERVAL);
+    }
+
+    async stop(): Promise<void> {
+        if (this.retryInterval) {
+            clearInterval(this.retryInterval);
+            this.retryInterval = null;
+        }
+        this.cache.clear();
+    }
+
+    async search(query: string, limit: number): Promise<RAGEntry[]> {
+        try {
+            // Extract username from query
+            const username = query.split('from:')[1]?.split(' ')[0] || '';
+            elizaLogger.info(`[RAG] Search request for user: ${username}`);
+
+            // Check cache first
+            const cacheKey = `search:${query}:${limit}:${username}`;
+            const cached = this.cache.get(cacheKey);
+            if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+                elizaLogger.info(`[RAG] Using cached results for user ${username}`);
+                return cached.data;
+            }
+
+            // Perform search with retries
+            for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+                try {
+                    const queryEmbedding = await this.runtime.requireCapability(EMBEDDING).embed(query);
+
+                    const results = await this.runtime.ragKnowledgeManager.searchKnowledge({
+                        agentId: this.runtime.agentId,
+                        embedding: queryEmbedding,
+                        match_threshold: 0.5,
+                        match_count: limit * 2, // Get more results for better reranking
+                        searchText: query,
+                    });
+
+                    if (results && results.length > 0) {
+                        const entries = results.map(item => ({
+                            content: item.content.text,
+                            metadata: item.content.metadata ?? {}
+                        }));
+                        this.cache.set(cacheKey, { data: entries, timestamp: Date.now() });
+                        elizaLogger.info(`[RAG] Search successful for user ${username}, found ${entries.length} results`);
+                        return entries;
+                    }
+                    elizaLogger.warn(`[RAG] No results found for user ${username}`);
+                    return [];
+                } catch (error) {
+                    elizaLogger.error(`[RAG] Search attempt ${attempt} failed: ${error.message}`);
+                    if (attempt === MAX_ATTEMPTS) {
+                        elizaLogger.error(`[RAG] Search failed after ${MAX_ATTEMPTS} attempts:`, error);
+                        return [];
+                    }
+                    await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+                }
+            }
+            return [];
+        } catch (error) {
+            elizaLogger.error(`[RAG] Search error: ${error}`);
+            return [];
+        }
+    }
+
+    async store(data: { id: string; content: string; metadata: RAGMetadata; embedding?: Buffer }): Promise<void> {
+        let embedding: Float32Array;
+        if (data.embedding) {
+            embedding = new Float32Array(data.embedding.buffer, data.embedding.byteOffset, data.embedding.byteLength / 4);
+            const { dimensions, model } = getEmbeddingConfig();
+            if (embedding.length !== dimensions) {
+                throw new Error(`Embedding for ${data.id} has ${embedding.length} dimensions, ${model} uses ${dimensions}`);
+            }
+        } else {
+            try {
+                embedding = await this.runtime.requireCapability(EMBEDDING).embed(data.content);
+            } catch (error) {
+                this.recordMissingEmbedding(data, error);
+                return;
+            }
+        }
+
+        await this.createKnowledge(data, embedding);
+    }
+
+    /**
+     * Embeds and stores the entries that could not be embedded before.
+     * Entries that keep failing are given up after MAX_EMBEDDING_RETRIES.
+     */
+    async retryMissingEmbeddings(): Promise<void> {
+        const rows = this.db
+            .prepare('SELECT id, content, metadata FROM missing_embeddings WHERE attempts < ? ORDER BY created_at')
+            .all(MAX_EMBEDDING_RETRIES) as Array<{ id: string; content: string; metadata: string }>;
+        if (rows.length === 0) return;
+
+        elizaLogger.info(`[RAG] Retrying ${rows.length} entries with missing embeddings`);
+        const embedding = this.runtime.requireCapability(EMBEDDING);
+        for (const row of rows) {
+            const data = { id: row.id, content: row.content, metadata: JSON.parse(row.metadata) };
+            try {
+                await this.createKnowledge(data, await embedding.embed(row.content));
+                this.db.prepare('DELETE FROM missing_embeddings WHERE id = ?').run(row.id);
+            } catch (error) {
+                this.recordMissingEmbedding(data, error);
+            }
+        }
+    }
+
+    private recordMissingEmbedding(data: { id: string; content: string; metadata: RAGMetadata }, error: Error): void {
+        elizaLogger.warn(`[RAG] Could not embed ${data.id}, it is stored once embedding succeeds: ${error.message}`);
+        const now = Date.now();
+        this.db
+            .prepare(`
+                INSERT INTO missing_embeddings (id, content, metadata, attempts, last_error, created_at, last_attempt)
+                VALUES (?, ?, ?, 1, ?, ?, ?)
+                ON CONFLICT(id) DO UPDATE SET
+                    attempts = attempts + 1,
+                    last_error = excluded.last_error,
+                    last_attempt = excluded.last_attempt
+            `)
+            .run(data.id, data.content, JSON.stringify(data.metadata ?? {}), error.message, now, now);
+    }
+
+    private async createKnowledge(data: { id: string; content: string; metadata: RAGMetadata }, embedding: Float32Array): Promise<void> {
+        try {
+            await this.runtime.ragKnowledgeManager.createKnowledge({
+                id: data.id as UUID,
+                agentId: this.runtime.agentId,
+                content: {
+                    text: data.content,
+                    metadata: data.metadata
+                },
+                embedding,
+                createdAt: Date.now()
+            });
+
+            elizaLogger.info(`[RAG] Successfully stored embedding for id ${data.id}`);
+        } catch (error) {
+            elizaLogger.error(`[RAG] Store error: ${error}`);
+            throw error;
+        }
+    }
+}
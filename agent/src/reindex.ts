@@ -0,0 +1,140 @@
+import {
+    AgentRuntime,
+    CacheManager,
+    MemoryCacheAdapter,
+    elizaLogger,
+    embed,
+    getEmbeddingConfig,
+} from '@elizaos/core';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import yargs from 'yargs';
+import { Database, getEmbeddingChecksum } from './database';
+
+export interface ReindexProgress {
+    /** Stale entries when the run started */
+    total: number;
+    processed: number;
+    reindexed: number;
+    failed: number;
+}
+
+export interface ReindexOptions {
+    batchSize?: number;
+    /** Only count the stale entries */
+    dryRun?: boolean;
+    onProgress?: (progress: ReindexProgress) => void;
+}
+
+/**
+ * Re-embeds the RAG entries whose model or dimension differ from the current embedding config.
+ * Entries are updated one at a time, so a run that is interrupted picks up where it stopped the
+ * next time: entries already re-embedded are no longer stale.
+ */
+export async function reindexRAGEmbeddings(
+    database: Database,
+    embedText: (text: string) => Promise<number[]>,
+    options: ReindexOptions = {}
+): Promise<ReindexProgress> {
+    const { batchSize = 50, dryRun = false, onProgress } = options;
+    const config = getEmbeddingConfig();
+    const progress: ReindexProgress = {
+        total: await database.countStaleRAGEmbeddings(config),
+        processed: 0,
+        reindexed: 0,
+        failed: 0
+    };
+
+    elizaLogger.info(`[Reindex] ${progress.total} RAG embeddings differ from ${config.provider}/${config.model} (${config.dimensions} dimensions)`);
+    if (dryRun || progress.total === 0) {
+        return progress;
+    }
+
+    // Entries that fail stay stale, so the cursor keeps them from being retried within a run
+    let afterRowid = 0;
+    while (true) {
+        const batch = await database.getStaleRAGEmbeddings(config, afterRowid, batchSize);
+        if (batch.length === 0) break;
+
+        for (const entry of batch) {
+            afterRowid = entry.rowid;
+            try {
+                const embedding = await embedText(entry.content);
+                if (embedding.length !== config.dimensions) {
+                    throw new Error(`Got ${embedding.length} dimensions, expected ${config.dimensions}`);
+                }
+
+                await database.updateRAGEmbedding(entry.id, embedding, {
+                    dim: embedding.length,
+                    type: 'float32',
+                    version: '1.0',
+                    provider: config.provider,
+                    model: config.model,
+                    checksum: getEmbeddingChecksum(embedding)
+                });
+                progress.reindexed++;
+            } catch (error) {
+                progress.failed++;
+                elizaLogger.error(`[Reindex] Failed to re-embed ${entry.id} (${entry.embeddingModel}, ${entry.embeddingDim} dimensions): ${error.message}`);
+            }
+            progress.processed++;
+        }
+
+        onProgress?.({ ...progress });
+    }
+
+    return progress;
+}
+
+async function main(): Promise<void> {
+    const argv = yargs(process.argv.slice(2))
+        .option('batch-size', {
+            type: 'number',
+            default: 50,
+            description: 'Number of entries to re-embed per batch',
+        })
+        .option('dry-run', {
+            type: 'boolean',
+            default: false,
+            description: 'Only report how many entries need re-embedding',
+        })
+        .parseSync();
+
+    const { character } = await import('./character.ts');
+    const runtime = new AgentRuntime({
+        character,
+        token: '',
+        modelProvider: character.modelProvider,
+        cacheManager: new CacheManager(new MemoryCacheAdapter()),
+    });
+    const database = new Database(runtime);
+    await database.initialize();
+
+    try {
+        const result = await reindexRAGEmbeddings(
+            database,
+            text => embed(runtime, text),
+            {
+                batchSize: argv['batch-size'],
+                dryRun: argv['dry-run'],
+                onProgress: ({ total, processed, failed }) => {
+                    const percent = Math.round((processed / total) * 100);
+                    elizaLogger.info(`[Reindex] ${processed}/${total} (${percent}%) processed, ${failed} failed`);
+                }
+            }
+        );
+        elizaLogger.info(`[Reindex] Done: ${result.reindexed} re-embedded, ${result.failed} failed, ${result.total - result.processed} skipped`);
+        if (result.failed > 0) {
+            process.exitCode = 1;
+        }
+    } finally {
+        await database.cleanup();
+    }
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main().catch(error => {
+        elizaLogger.error('[Reindex] Re-indexing failed:', error);
+        process.exit(1);
+    });
+}
@@ -1,22 +1,13 @@
-import { type IAgentRuntime, elizaLogger, type Memory, type State, stringToUuid, generateText, ModelClass, composeContext, AgentRuntime, embed } from '@elizaos/core';
+import { type IAgentRuntime, elizaLogger, type Memory, type State, stringToUuid, generateText, ModelClass, composeContext, type AgentRuntime, embed, getEmbeddingConfig, PostCalendar, ProcessedTweetStore, type ProcessedTweetAction, type ContentModerator, createContentModerator, type GeneratedImage, registerTwitterSession, TwitterSessionVault, generateImageData, loadImage, ScriptureVerifier, type ScriptureVerification, ScriptureLibrary, getReplyLanguage, formatReplyLanguage, type ReplyLanguage } from '@elizaos/core';
 import { Scraper, SearchMode, Tweet } from 'agent-twitter-client';
-import { Database } from './database';
+import { Database, getEmbeddingChecksum } from './database';
+import { RAG } from './capabilities';
 
-interface IRAG {
-    search(query: string, limit: number): Promise<Array<{ content: string; metadata: any }>>;
-    store(data: { id: string; content: string; metadata: any; embedding: Buffer }): Promise<void>;
-}
-
-export interface IAgentRuntimeWithRAG extends AgentRuntime {
-    rag: IRAG;
-    generateEmbedding(text: string): Promise<number[]>;
-    cache: {
-        get(key: string): Promise<any>;
-        set(key: string, value: any): Promise<void>;
-    };
-    embeddingProvider?: string;
-    embeddingModel?: string;
-}
+// Twitter's upload limits for images attached to a tweet
+const TWITTER_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+const TWITTER_GIF_MAX_BYTES = 15 * 1024 * 1024;
+// Longest reply, once the Bible quotes in it are corrected
+const MAX_REPLY_LENGTH = 280;
 
 interface TweetIntent {
     shouldGenerateImage: boolean;
@@ -24,50 +15,92 @@ interface TweetIntent {
     isImageEditRequest: boolean;
     prompt?: string;
     reasoning?: string;
+    // None when the tweet isn't in a language the agent replies in
+    language?: ReplyLanguage;
 }
 
 export class TwitterIntegration {
     private scraper: Scraper;
-    private runtime: IAgentRuntimeWithRAG;
+    // Keeps the scraper logged in, with the cookies stored encrypted
+    private session: TwitterSessionVault;
+    private runtime: AgentRuntime;
     private isInitialized: boolean = false;
     private pollInterval: NodeJS.Timeout | null = null;
+    private postCalendarTimeout: NodeJS.Timeout | null = null;
     private isProcessing: boolean = false;
     private isPosting: boolean = false;
     private conversationHistory: Map<string, Array<{ content: string; metadata: any }>> = new Map();
+    // Last image posted in each conversation, by conversation id
     private imageConversations: Map<string, { lastPrompt: string; lastImageUrl: string }> = new Map();
     private database: Database;
+    private processedTweets: ProcessedTweetStore;
+    private moderator: ContentModerator;
+    private scriptureVerifier: ScriptureVerifier;
+    // Tweets being handled or known to be processed, checked before the store to avoid concurrent duplicates
     private processedTweetIds: Set<string> = new Set();
 
     get initialized(): boolean {
         return this.isInitialized;
     }
 
-    constructor(runtime: IAgentRuntimeWithRAG) {
+    /**
+     * @param createScraper Builds the Twitter scraper, e.g. a SimulatedScraper from
+     * @elizaos/client-twitter to run offline
+     */
+    constructor(
+        runtime: AgentRuntime,
+        createScraper: () => Scraper = () => new Scraper()
+    ) {
         this.runtime = runtime;
-        this.scraper = new Scraper();
+        this.scraper = createScraper();
+        this.session = new TwitterSessionVault(runtime, this.scraper, {
+            username: process.env.TWITTER_USERNAME!,
+            password: process.env.TWITTER_PASSWORD!,
+            email: process.env.TWITTER_EMAIL!,
+            twoFactorSecret: process.env.TWITTER_2FA_SECRET
+        });
         this.database = new Database(runtime);
+        this.processedTweets = new ProcessedTweetStore(runtime);
+        this.moderator = createContentModerator(runtime);
+        this.scriptureVerifier = new ScriptureVerifier(runtime, { maxLength: MAX_REPLY_LENGTH });
+    }
+
+    /**
+     * Claims a tweet by marking it processed before replying, so the agent's other
+     * Twitter clients and accounts leave it alone.
+     *
+     * @returns Whether the tweet was claimed, false if it was already handled
+     */
+    private async claimTweet(tweetId: string): Promise<boolean> {
+        if (this.processedTweetIds.has(tweetId)) {
+            return false;
+        }
+        if (await this.processedTweets.has(tweetId, 'REPLIED')) {
+            return false;
+        }
+        return this.processedTweets.mark(tweetId, 'PROCESSED');
     }
 
-    private async isTweetProcessed(tweetId: string): Promise<boolean> {
+    /**
+     * Releases the claim on a tweet that failed to get a reply, to retry it later.
+     */
+    private async releaseTweet(tweetId: string): Promise<void> {
+        this.processedTweetIds.delete(tweetId);
         try {
-            if (this.processedTweetIds.has(tweetId)) {
-                return true;
-            }
-            return await this.database.isTweetReplied(tweetId);
+            await this.processedTweets.unmark(tweetId, 'PROCESSED');
         } catch (error) {
-            elizaLogger.error(`Error checking if tweet ${tweetId} is processed: ${error.message}`, error);
-            return false;
+            elizaLogger.error(`Error releasing tweet ${tweetId}: ${error.message}`, error);
         }
     }
 
-    private async markTweetAsProcessed(tweetId: string): Promise<void> {
+    private async markTweetAsProcessed(tweetId: string, action: ProcessedTweetAction = 'PROCESSED'): Promise<void> {
         let retryCount = 0;
         const MAX_RETRIES = 3;
         while (retryCount < MAX_RETRIES) {
             try {
-                await this.database.markTweetAsReplied(tweetId);
+                await this.processedTweets.mark(tweetId, action);
                 this.processedTweetIds.add(tweetId);
-                elizaLogger.info(`Marked tweet ${tweetId} as processed`);
+                elizaLogger.info(`Marked tweet ${tweetId} as ${action.toLowerCase()}`);
                 return;
             } catch (error) {
                 retryCount++;
@@ -82,13 +115,35 @@ export class TwitterIntegration {
         }
     }
 
+    /**
+     * Copies tweets from the legacy replied_tweets table into the shared processed tweet store,
+     * so the Twitter client of the same agent does not answer them again.
+     */
+    private async migrateRepliedTweets(): Promise<void> {
+        try {
+            const repliedTweets = await this.database.getRecentProcessedTweets(1000);
+            let migrated = 0;
+            for (const tweetId of repliedTweets) {
+                if (await this.processedTweets.mark(tweetId, 'PROCESSED')) {
+                    migrated++;
+                }
+            }
+            if (migrated > 0) {
+                elizaLogger.info(`Migrated ${migrated} replied tweets to the processed tweet store`);
+            }
+        } catch (error) {
+            elizaLogger.error(`Error migrating replied tweets: ${error.message}`, error);
+        }
+    }
+
     async initialize(): Promise<void> {
         if (this.isInitialized) return;
 
         try {
             await this.database.initialize();
-            const recentTweets = await this.database.getRecentProcessedTweets(1000);
-            recentTweets.forEach(tweetId => this.processedTweetIds.add(tweetId));
+            await this.migrateRepliedTweets();
+            const recentTweets = await this.processedTweets.getRecent({ action: ['PROCESSED', 'REPLIED'], limit: 1000 });
+            recentTweets.forEach(record => this.processedTweetIds.add(record.tweetId));
             elizaLogger.info(`Loaded ${recentTweets.length} recently processed tweets`);
 
             const requiredEnvVars = ['TWITTER_USERNAME', 'TWITTER_PASSWORD', 'TWITTER_EMAIL'];
@@ -97,6 +152,7 @@ export class TwitterIntegration {
             }
 
             elizaLogger.info('Attempting to login to Twitter...');
+            registerTwitterSession(this.runtime, this.session);
             let loginSuccess = false;
             let retryCount = 0;
             const MAX_RETRIES = 3;
@@ -105,22 +161,17 @@ export class TwitterIntegration {
             while (!loginSuccess && retryCount < MAX_RETRIES) {
                 try {
                     const timeoutPromise = new Promise((_, reject) => setTimeout(() => reject(new Error('Login timeout')), LOGIN_TIMEOUT));
-                    await Promise.race([
-                        this.scraper.login(
-                            process.env.TWITTER_USERNAME!,
-                            process.env.TWITTER_PASSWORD!,
-                            process.env.TWITTER_EMAIL!,
-                            process.env.TWITTER_2FA_SECRET
-                        ),
-                        timeoutPromise
-                    ]);
-
-                    if (!await this.scraper.isLoggedIn()) throw new Error('Login verification failed');
+                    // Restores the stored session, logging in only when it is gone
+                    await Promise.race([this.session.ensureSession(), timeoutPromise]);
                     loginSuccess = true;
                     elizaLogger.info('Successfully logged in to Twitter');
                 } catch (error) {
                     retryCount++;
                     elizaLogger.error(`Login attempt ${retryCount} failed: ${error.message}`, error);
+                    // The vault pauses logins before the account gets locked
+                    if (this.session.getStatus().state === 'THROTTLED') {
+                        throw new Error(`Twitter login paused: ${error.message}`);
+                    }
                     if (retryCount < MAX_RETRIES) {
                         const backoffTime = 2000 * Math.pow(2, retryCount);
                         await new Promise(resolve => setTimeout(resolve, backoffTime));
@@ -129,6 +180,7 @@ export class TwitterIntegration {
                     }
                 }
             }
+            this.session.startMonitoring();
 
             await this.startPolling();
             await this.startPeriodicPosting();
@@ -269,22 +321,25 @@ export class TwitterIntegration {
         }
     }
 
-    private async generateImage(prompt: string): Promise<Buffer> {
+    private async generateImage(prompt: string): Promise<GeneratedImage> {
+        const { width = 1024, height = 1024 } = this.runtime.character.settings?.imageSettings ?? {};
+        let size = { width, height };
         let retryCount = 0;
         const MAX_RETRIES = 3;
         while (retryCount < MAX_RETRIES) {
             try {
                 elizaLogger.info(`Generating image for prompt: ${prompt}`);
-                const encodedPrompt = encodeURIComponent(prompt);
-                const imageUrl = `https://image.pollinations.ai/prompt/${encodedPrompt}?width=2560&height=2049&nologo=true`;
+                const image = await generateImageData(this.runtime, { prompt, ...size });
 
-                const response = await fetch(imageUrl);
-                if (!response.ok) throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+                const maxBytes = image.mediaType === 'image/gif' ? TWITTER_GIF_MAX_BYTES : TWITTER_IMAGE_MAX_BYTES;
+                if (image.data.length > maxBytes) {
+                    // A smaller image fits under the limit on the next attempt
+                    size = { width: Math.round(size.width / 2), height: Math.round(size.height / 2) };
+                    throw new Error(`Image is ${image.data.length} bytes, over Twitter's ${maxBytes} byte limit`);
+                }
 
-                const arrayBuffer = await response.arrayBuffer();
-                const buffer = Buffer.from(arrayBuffer);
-                elizaLogger.info(`Successfully generated image for prompt: ${prompt}`);
-                return buffer;
+                elizaLogger.info(`Successfully generated ${image.mediaType} image for prompt: ${prompt}`);
+                return image;
             } catch (error) {
                 retryCount++;
                 elizaLogger.error(`Failed to generate image (attempt ${retryCount}/${MAX_RETRIES}): ${error.message}`);
@@ -299,17 +354,15 @@ export class TwitterIntegration {
         throw new Error('Failed to generate image');
     }
 
-    private async postImageTweet(tweetId: string, imageBuffer: Buffer, caption: string): Promise<string> {
+    private async postImageTweet(tweetId: string, image: GeneratedImage, caption: string): Promise<string> {
         let retryCount = 0;
         const MAX_RETRIES = 3;
         while (retryCount < MAX_RETRIES) {
             try {
-                if (!(await this.scraper.isLoggedIn())) {
-                    elizaLogger.warn('Scraper not authenticated, re-initializing...');
-                    await this.initializeScraper();
-                }
+                // Logs in again when the session expired, within the login rate limit
+                await this.session.ensureSession();
 
-                const mediaData = [{ data: imageBuffer, mediaType: 'image/jpeg' }];
+                const mediaData = [{ data: image.data, mediaType: image.mediaType }];
                 const result = await this.scraper.sendTweet(caption, tweetId, mediaData);
                 const body = await result.json();
 
@@ -338,16 +391,14 @@ export class TwitterIntegration {
 
     private async handleImageRequest(tweet: any, prompt: string): Promise<void> {
         try {
-            const cacheKey = `${tweet.conversationId}:${prompt}`;
-            if (this.imageConversations.has(cacheKey)) {
-                const cached = this.imageConversations.get(cacheKey)!;
-                elizaLogger.info(`Using cached image for prompt: ${prompt}`);
-                await this.postImageTweet(tweet.id, Buffer.from(cached.lastImageUrl, 'base64'), "Here's the image you requested");
+            const previous = this.imageConversations.get(tweet.conversationId);
+            if (previous?.lastPrompt === prompt) {
+                elizaLogger.info(`Reposting the conversation's last image for prompt: ${prompt}`);
+                await this.postImageTweet(tweet.id, await loadImage(previous.lastImageUrl), "Here's the image you requested");
                 return;
             }
 
-            const imageBuffer = await this.generateImage(prompt);
-            if (!imageBuffer || imageBuffer.length === 0) throw new Error('Invalid or empty image buffer');
+            const image = await this.generateImage(prompt);
 
             const memory: Memory = {
                 id: stringToUuid(Date.now().toString()),
@@ -399,9 +450,9 @@ export class TwitterIntegration {
             }
 
             const caption = "Here's the image you requested";
-            const imageUrl = await this.postImageTweet(tweet.id, imageBuffer, caption);
+            const imageUrl = await this.postImageTweet(tweet.id, image, caption);
 
-            this.imageConversations.set(cacheKey, { lastPrompt: prompt, lastImageUrl: imageUrl });
+            this.imageConversations.set(tweet.conversationId, { lastPrompt: prompt, lastImageUrl: imageUrl });
             elizaLogger.info(`Successfully generated and shared image for prompt: ${prompt}`);
         } catch (error) {
             elizaLogger.error(`Error handling image request for tweet ${tweet.id}: ${error.message}`);
@@ -418,38 +469,13 @@ export class TwitterIntegration {
         return modificationKeywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
     }
 
-    private isInappropriateContent(text: string): boolean {
-        const inappropriatePatterns = [
-            /\bnsfw\b/i, /\bexplicit\b/i, /\bprofane\b/i, /\bblasphem(y|ous)\b/i,
-            /\bfuck\b/i, /\bshit\b/i, /\bdamn\b/i, /\bhell\b/i, /\bbitch\b/i,
-            /\bass\b/i, /\bporn\b/i, /\bsex\b/i, /\bnude\b/i, /\bdrug\b/i,
-            /\balcohol\b/i, /\bdrunk\b/i, /\bhigh\b/i
-        ];
-
-        const whitelist = ['jesus', 'christ', 'god', 'holy', 'spirit', 'bibl', 'hello', 'help', 'healing', 'heaven'];
-        const lowerText = text.toLowerCase();
-
-        if (whitelist.some(term => lowerText.includes(term))) {
-            elizaLogger.info(`Text whitelisted due to term: ${whitelist.find(term => lowerText.includes(term))}`);
-            return false;
+    private async analyzeTweetIntent(tweet: any, cleanText: string): Promise<TweetIntent> {
+        const language = getReplyLanguage(this.runtime, cleanText);
+        if (!language) {
+            return { shouldGenerateImage: false, shouldReply: false, isImageEditRequest: false, reasoning: 'Not in a language the agent replies in' };
         }
 
-        const isInappropriate = inappropriatePatterns.some(pattern => {
-            const match = pattern.test(lowerText);
-            if (match) elizaLogger.info(`Text flagged as inappropriate due to pattern: ${pattern.source}`);
-            return match;
-        });
-
-        return isInappropriate;
-    }
-
-    private async analyzeTweetIntent(tweet: any, cleanText: string): Promise<TweetIntent> {
         try {
-            if (this.isInappropriateContent(cleanText)) {
-                elizaLogger.info(`Skipping inappropriate content in tweet ${tweet.id}`);
-                return { shouldGenerateImage: false, shouldReply: false, isImageEditRequest: false };
-            }
-
             const state: State = {
                 bio: Array.isArray(this.runtime.character.bio) ? this.runtime.character.bio.join(' ') : this.runtime.character.bio,
                 lore: this.runtime.character.lore.join(' '),
@@ -526,7 +552,7 @@ You must respond with ONLY a JSON object in this exact format, with no additiona
                         if (!prompt) {
                             retryCount++;
                             if (retryCount === MAX_RETRIES) {
-                                return { shouldGenerateImage: false, shouldReply: true, isImageEditRequest: false, reasoning: 'Failed to generate valid image prompt' };
+                                return { shouldGenerateImage: false, shouldReply: true, isImageEditRequest: false, reasoning: 'Failed to generate valid image prompt', language };
                             }
                             continue;
                         }
@@ -535,16 +561,16 @@ You must respond with ONLY a JSON object in this exact format, with no additiona
                         retryCount++;
                         elizaLogger.error(`Failed to build image prompt for tweet ${tweet.id} (attempt ${retryCount}/${MAX_RETRIES}): ${error.message}`);
                         if (retryCount === MAX_RETRIES) {
-                            return { shouldGenerateImage: false, shouldReply: true, isImageEditRequest: false, reasoning: 'Failed to generate valid image prompt' };
+                            return { shouldGenerateImage: false, shouldReply: true, isImageEditRequest: false, reasoning: 'Failed to generate valid image prompt', language };
                         }
                     }
                 }
             }
 
-            return { ...intent, prompt };
+            return { ...intent, prompt, language };
         } catch (error) {
             elizaLogger.error(`Error analyzing tweet intent for tweet ${tweet.id}: ${error.message}`);
-            return { shouldGenerateImage: false, shouldReply: true, isImageEditRequest: false, reasoning: 'Error in intent analysis' };
+            return { shouldGenerateImage: false, shouldReply: true, isImageEditRequest: false, reasoning: 'Error in intent analysis', language };
         }
     }
 
@@ -587,8 +613,8 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
                 modelClass: ModelClass.SMALL
             });
 
-            if (this.isInappropriateContent(promptResult)) {
-                elizaLogger.warn(`Generated inappropriate prompt for tweet ${tweet.id}: ${promptResult}`);
+            const moderation = await this.moderator.check(promptResult, { direction: 'outbound', source: `image-prompt:${tweet.id}` });
+            if (!moderation.allowed) {
                 return null;
             }
 
@@ -659,10 +685,7 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
             const username = process.env.TWITTER_USERNAME!.toLowerCase();
             if (!username) throw new Error('TWITTER_USERNAME environment variable is not set');
 
-            if (!(await this.scraper.isLoggedIn())) {
-                elizaLogger.warn('Scraper not authenticated, re-initializing...');
-                await this.initializeScraper();
-            }
+            await this.session.ensureSession();
 
             const tweetBatch: any[] = [];
             const searchQuery = `@${username}`;
@@ -712,6 +735,7 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
             const processTweet = async (tweet: any) => {
                 const tweetStart = performance.now();
                 elizaLogger.info(`Processing mention: ${tweet.id} from @${tweet.username}: ${tweet.text}`);
+                let claimed = false;
 
                 try {
                     if (this.processedTweetIds.has(tweet.id)) {
@@ -738,67 +762,74 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
                     }
 
                     lastTweetId = tweet.id;
-                    const isProcessed = await this.isTweetProcessed(tweet.id);
-                    if (isProcessed) {
-                        const hasReply = await this.verifyTweetReplied(tweet.id, username);
-                        if (!hasReply) {
-                            elizaLogger.warn(`Tweet ${tweet.id} marked as processed but no reply found, reprocessing`);
-                        } else {
-                            elizaLogger.info(`Skipping already processed tweet ${tweet.id}`);
-                            this.processedTweetIds.add(tweet.id);
-                            return;
-                        }
+                    // Claimed before replying, as the agent's Twitter client may be polling the same mention
+                    if (!(await this.claimTweet(tweet.id))) {
+                        elizaLogger.info(`Skipping already processed tweet ${tweet.id}`);
+                        this.processedTweetIds.add(tweet.id);
+                        return;
                     }
+                    claimed = true;
 
                     this.processedTweetIds.add(tweet.id);
                     const cleanText = tweet.text.replace(/@\w+/g, '').trim();
                     if (!cleanText) {
                         elizaLogger.info(`Skipping empty tweet ${tweet.id}`);
-                        await this.markTweetAsProcessed(tweet.id);
                         return;
                     }
 
-                    if (this.isInappropriateContent(cleanText)) {
-                        elizaLogger.info(`Skipping inappropriate content in tweet ${tweet.id}`);
-                        await this.markTweetAsProcessed(tweet.id);
+                    const moderation = await this.moderator.check(cleanText, { direction: 'inbound', source: `twitter:mention:${tweet.id}` });
+                    if (!moderation.allowed) {
                         return;
                     }
 
                     const intent = await this.analyzeTweetIntent(tweet, cleanText);
+                    if (!intent.language) {
+                        elizaLogger.info(`Skipping tweet ${tweet.id}: ${intent.reasoning}`);
+                        return;
+                    }
                     let success = false;
+                    // Not when moderation blocked the reply
+                    let replied = false;
 
                     if (intent.shouldGenerateImage && intent.prompt) {
                         try {
                             await this.handleImageRequest(tweet, intent.prompt);
                             success = true;
+                            replied = true;
                         } catch (error) {
                             elizaLogger.error(`Failed to generate image for tweet ${tweet.id}: ${error.message}`);
                             const fallbackResponse = await this.generateResponse(tweet, cleanText, { ...intent, shouldGenerateImage: false });
                             if (fallbackResponse) {
-                                await this.replyToTweet(tweet.id, fallbackResponse);
+                                replied = await this.postVerifiedReply(tweet.id, fallbackResponse);
                                 success = true;
                             }
                         }
                     } else {
                         const response = await this.generateResponse(tweet, cleanText, intent);
                         if (response) {
-                            await this.replyToTweet(tweet.id, response);
+                            replied = await this.postVerifiedReply(tweet.id, response);
                             success = true;
                         }
                     }
 
-                    if (success) {
-                        await this.markTweetAsProcessed(tweet.id);
+                    if (success && replied) {
+                        await this.markTweetAsProcessed(tweet.id, 'REPLIED');
                         this.conversationHistory.delete(`from:${tweet.username} conversation:${tweet.conversationId}`);
                         mentionsCount++;
+                    } else if (success) {
+                        // Left claimed as processed, so the blocked reply isn't generated again
+                        elizaLogger.info(`Reply to tweet ${tweet.id} blocked by moderation, not replying`);
                     } else {
-                        elizaLogger.warn(`Failed to process tweet ${tweet.id}, not marking as processed`);
-                        this.processedTweetIds.delete(tweet.id); // Remove from cache to allow retry
+                        elizaLogger.warn(`Failed to process tweet ${tweet.id}, releasing it to retry`);
+                        await this.releaseTweet(tweet.id);
                     }
 
                     elizaLogger.info(`Processed tweet ${tweet.id} in ${(performance.now() - tweetStart).toFixed(2)}ms`);
                 } catch (error) {
                     elizaLogger.error(`Error processing tweet ${tweet.id}: ${error.message}`);
+                    if (claimed) {
+                        await this.releaseTweet(tweet.id);
+                    }
                 }
             };
 
@@ -816,8 +847,8 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
         } catch (error) {
             elizaLogger.error(`Error in pollMentions: ${error.message}`);
             if (error.message?.includes('Unauthorized')) {
-                elizaLogger.error('Authentication error, re-initializing scraper...');
-                await this.initializeScraper();
+                elizaLogger.error('Authentication error, logging in again...');
+                await this.session.refresh();
             } else if (error.message?.includes('429')) {
                 const backoffTime = 15000;
                 elizaLogger.info(`Rate limited, waiting ${backoffTime}ms`);
@@ -829,53 +860,32 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
         }
     }
 
-    private async verifyTweetReplied(tweetId: string, username: string): Promise<boolean> {
-        const MAX_RETRIES = 3;
-        let retryCount = 0;
-        while (retryCount < MAX_RETRIES) {
-            try {
-                const botTweets = await this.scraper.searchTweets(`from:${username} is:reply`, 50, SearchMode.Latest);
-                const tweets = [];
-                for await (const tweet of botTweets) {
-                    tweets.push(tweet);
-                    if (tweets.length >= 50) break;
-                }
-                for (const botTweet of tweets) {
-                    if (botTweet.inReplyToStatusId === tweetId) {
-                        elizaLogger.info(`Found reply to tweet ${tweetId}: ${botTweet.id}`);
-                        return true;
-                    }
-                }
-                return false;
-            } catch (error) {
-                retryCount++;
-                elizaLogger.error(`Error verifying reply for tweet ${tweetId} (attempt ${retryCount}/${MAX_RETRIES}): ${error.message}`);
-                if (retryCount < MAX_RETRIES) {
-                    const backoffTime = 2000 * Math.pow(2, retryCount);
-                    await new Promise(resolve => setTimeout(resolve, backoffTime));
-                } else {
-                    return false;
-                }
-            }
-        }
-        return false;
-    }
-
     async stop(): Promise<void> {
+        this.session.stop();
         if (this.pollInterval) {
             clearInterval(this.pollInterval);
             this.pollInterval = null;
         }
+        if (this.postCalendarTimeout) {
+            clearTimeout(this.postCalendarTimeout);
+            this.postCalendarTimeout = null;
+        }
         await this.database.cleanup();
     }
 
-    async replyToTweet(tweetId: string, content: string): Promise<void> {
+    /**
+     * @returns Whether the reply was posted, or blocked by moderation, and
+     * its ID unless missing from Twitter's response
+     */
+    async replyToTweet(tweetId: string, content: string): Promise<{ posted: boolean; id?: string }> {
         try {
-            if (!(await this.scraper.isLoggedIn())) {
-                elizaLogger.warn('Scraper not authenticated, re-initializing...');
-                await this.initializeScraper();
+            const moderation = await this.moderator.check(content, { direction: 'outbound', source: `twitter:reply:${tweetId}` });
+            if (!moderation.allowed) {
+                return { posted: false };
             }
 
+            await this.session.ensureSession();
+
             const tweet = await this.scraper.getTweet(tweetId);
             if (!tweet) {
                 throw new Error(`Failed to get tweet ${tweetId}`);
@@ -890,6 +900,14 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
             }
 
             elizaLogger.info(`Posted reply to tweet ${tweetId}: ${replyContent}`);
+            // The reply is posted: a response that can't be read only loses its ID
+            try {
+                const body = await result.json();
+                return { posted: true, id: body?.data?.create_tweet?.tweet_results?.result?.rest_id };
+            } catch (error) {
+                elizaLogger.warn(`Could not read the ID of the reply to ${tweetId}: ${error.message}`);
+                return { posted: true };
+            }
         } catch (error) {
             elizaLogger.error(`Error posting reply to ${tweetId}: ${error.message}`);
             throw error;
@@ -898,10 +916,7 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
 
     async postTweet(content: string): Promise<void> {
         try {
-            if (!(await this.scraper.isLoggedIn())) {
-                elizaLogger.warn('Scraper not authenticated, re-initializing...');
-                await this.initializeScraper();
-            }
+            await this.session.ensureSession();
 
             const result = await this.scraper.sendTweet(content);
             
@@ -919,10 +934,7 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
 
     async searchTweets(query: string) {
         try {
-            if (!(await this.scraper.isLoggedIn())) {
-                elizaLogger.warn('Scraper not authenticated, re-initializing...');
-                await this.initializeScraper();
-            }
+            await this.session.ensureSession();
             return await this.scraper.searchTweets(query, 10, SearchMode.Latest);
         } catch (error) {
             elizaLogger.error(`Error searching tweets for query "${query}": ${error.message}`);
@@ -932,10 +944,7 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
 
     async getTimeline() {
         try {
-            if (!(await this.scraper.isLoggedIn())) {
-                elizaLogger.warn('Scraper not authenticated, re-initializing...');
-                await this.initializeScraper();
-            }
+            await this.session.ensureSession();
             return await this.scraper.searchTweets(`from:${process.env.TWITTER_USERNAME!}`, 10, SearchMode.Latest);
         } catch (error) {
             elizaLogger.error(`Error fetching timeline: ${error.message}`);
@@ -943,9 +952,96 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
         }
     }
 
+    private async generatePeriodicTweet(): Promise<string> {
+        const topics = this.runtime.character.topics;
+        const style = this.runtime.character.style.post;
+        const adjectives = this.runtime.character.adjectives;
+
+        const randomTopic = topics[Math.floor(Math.random() * topics.length)];
+        const randomStyle = style[Math.floor(Math.random() * style.length)];
+        const randomAdjective = adjectives[Math.floor(Math.random() * adjectives.length)];
+
+        const state: State = {
+            bio: Array.isArray(this.runtime.character.bio) ? this.runtime.character.bio.join(' ') : this.runtime.character.bio,
+            lore: this.runtime.character.lore.join(' '),
+            messageDirections: this.runtime.character.style.post.join(' '),
+            postDirections: this.runtime.character.style.post.join(' '),
+            roomId: this.runtime.agentId,
+            actors: this.runtime.character.name,
+            recentMessages: `Generate a tweet about ${randomTopic}`,
+            recentMessagesData: []
+        };
+
+        const context = await composeContext({
+            state,
+            template: `You are ${this.runtime.character.name}. Generate a tweet that is ${randomAdjective} about ${randomTopic}}. The tweet should ${randomStyle}}. Keep it under 280 characters. No hashtags or emojis.`
+        });
+
+        return generateText({
+            runtime: this.runtime,
+            context,
+            modelClass: ModelClass.SMALL
+        });
+    }
+
+    private async postTweetWithRetries(tweetContent: string): Promise<void> {
+        const moderation = await this.moderator.check(tweetContent, { direction: 'outbound', source: 'twitter:post' });
+        if (!moderation.allowed) {
+            throw new Error(`Tweet blocked by moderation rule ${moderation.rule}`);
+        }
+
+        const MAX_RETRIES = 3;
+
+        let retryCount = 0;
+        while (retryCount < MAX_RETRIES) {
+            try {
+                await this.postTweet(tweetContent);
+                elizaLogger.info('Successfully posted periodic tweet');
+                return;
+            } catch (error) {
+                retryCount++;
+                elizaLogger.error(`Failed to post periodic tweet (${retryCount}/${MAX_RETRIES}): ${error.message}`);
+                if (retryCount < MAX_RETRIES) {
+                    const backoffTime = 2000 * Math.pow(2, retryCount);
+                    elizaLogger.info(`Retrying in ${backoffTime}ms`);
+                    await new Promise(resolve => setTimeout(resolve, backoffTime));
+                } else {
+                    elizaLogger.error('Failed to post periodic tweet after retries');
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private startCalendarPosting(postCalendar: PostCalendar): void {
+        const CALENDAR_CHECK_INTERVAL = 60000;
+
+        elizaLogger.info(`Starting calendar posting in ${postCalendar.config.timezone || 'UTC'}`);
+
+        const checkCalendar = async () => {
+            try {
+                await postCalendar.tick({
+                    generateDraft: () => this.generatePeriodicTweet(),
+                    publish: (post) => this.postTweetWithRetries(post.text!)
+                });
+            } catch (error) {
+                elizaLogger.error(`Error in calendar posting: ${error.message}`);
+            } finally {
+                this.postCalendarTimeout = setTimeout(checkCalendar, CALENDAR_CHECK_INTERVAL);
+            }
+        };
+
+        checkCalendar();
+    }
+
     private async startPeriodicPosting(): Promise<void> {
+        const postCalendar = PostCalendar.forRuntime(this.runtime, 'twitter');
+        if (postCalendar?.hasSlots()) {
+            this.startCalendarPosting(postCalendar);
+            return;
+        }
+
         const POST_INTERVAL = 900000;
-        const MAX_RETRIES = 3;
 
         elizaLogger.info(`Starting periodic posting every ${POST_INTERVAL / 1000} seconds`);
 
@@ -957,54 +1053,8 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
                 }
 
                 this.isPosting = true;
-                const topics = this.runtime.character.topics;
-                const style = this.runtime.character.style.post;
-                const adjectives = this.runtime.character.adjectives;
-
-                const randomTopic = topics[Math.floor(Math.random() * topics.length)];
-                const randomStyle = style[Math.floor(Math.random() * style.length)];
-                const randomAdjective = adjectives[Math.floor(Math.random() * adjectives.length)];
-
-                const state: State = {
-                    bio: Array.isArray(this.runtime.character.bio) ? this.runtime.character.bio.join(' ') : this.runtime.character.bio,
-                    lore: this.runtime.character.lore.join(' '),
-                    messageDirections: this.runtime.character.style.post.join(' '),
-                    postDirections: this.runtime.character.style.post.join(' '),
-                    roomId: this.runtime.agentId,
-                    actors: this.runtime.character.name,
-                    recentMessages: `Generate a tweet about ${randomTopic}`,
-                    recentMessagesData: []
-                };
-
-                const context = await composeContext({
-                    state,
-                    template: `You are ${this.runtime.character.name}. Generate a tweet that is ${randomAdjective} about ${randomTopic}}. The tweet should ${randomStyle}}. Keep it under 280 characters. No hashtags or emojis.`
-                });
-
-                const tweetContent = await generateText({
-                    runtime: this.runtime,
-                    context,
-                    modelClass: ModelClass.SMALL
-                });
-
-                let retryCount = 0;
-                while (retryCount < MAX_RETRIES) {
-                    try {
-                        await this.postTweet(tweetContent);
-                        elizaLogger.info('Successfully posted periodic tweet');
-                        break;
-                    } catch (error) {
-                        retryCount++;
-                        elizaLogger.error(`Failed to post periodic tweet (${retryCount}/${MAX_RETRIES}): ${error.message}`);
-                        if (retryCount < MAX_RETRIES) {
-                            const backoffTime = 2000 * Math.pow(2, retryCount);
-                            elizaLogger.info(`Retrying in ${backoffTime}ms`);
-                            await new Promise(resolve => setTimeout(resolve, backoffTime));
-                        } else {
-                            elizaLogger.error('Failed to post periodic tweet after retries');
-                        }
-                    }
-                }
+                const tweetContent = await this.generatePeriodicTweet();
+                await this.postTweetWithRetries(tweetContent);
             } catch (error) {
                 elizaLogger.error(`Error in periodic posting: ${error.message}`);
             } finally {
@@ -1033,7 +1083,25 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
         }
     }
 
-    private async generateResponse(tweet: Tweet, cleanText: string, intent: TweetIntent): Promise<string | null> {
+    /**
+     * Posts a reply, keeping the verification of its Bible quotes with it.
+     *
+     * @returns Whether it was posted, not blocked by moderation
+     */
+    private async postVerifiedReply(tweetId: string, response: ScriptureVerification): Promise<boolean> {
+        const reply = await this.replyToTweet(tweetId, response.text);
+        if (reply.id) {
+            await this.scriptureVerifier.record(reply.id, response, `twitter:reply:${tweetId}`);
+        }
+        return reply.posted;
+    }
+
+    /**
+     * Generates a reply in the tweet's language, quoting verses of a
+     * translation in it, with its Bible quotes verified against the verses
+     * and generated again while misquoted
+     */
+    private async generateResponse(tweet: Tweet, cleanText: string, intent: TweetIntent): Promise<ScriptureVerification | null> {
         try {
             if (intent.shouldGenerateImage) {
                 await this.handleImageRequest(tweet, intent.prompt!);
@@ -1053,11 +1121,14 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
                     recentMessagesData: []
                 };
 
-                return await generateText({
-                    runtime: this.runtime,
-                    context: composeContext({
-                        state,
-                        template: `You are ${this.runtime.character.name}. Respond to this tweet from @${tweet.username}: "${cleanText}" using one of these formats:
+                const { language } = intent;
+                const verses = language
+                    ? await new ScriptureLibrary(this.runtime).search(cleanText, { language: language.language })
+                    : [];
+
+                const prompt = composeContext({
+                    state,
+                    template: `You are ${this.runtime.character.name}. Respond to this tweet from @${tweet.username}: "${cleanText}" using one of these formats:
 1. A relevant Scripture quote
 2. A paraphrased biblical truth
 3. A Christlike question
@@ -1066,10 +1137,18 @@ Return a clear, descriptive sentence (e.g., "A serene biblical scene of a shephe
 Previous conversation context:
 ${context}
 
-Keep the response under 280 characters. No hashtags or emojis. Ensure the reply maintains conversational flow and is relevant to the user's tweet and their previous interactions.`
-                    }),
-                    modelClass: ModelClass.SMALL
+${verses.length > 0 ? `Verses you may quote, word for word:\n${verses.join('\n')}\n\n` : ''}Keep the response under 280 characters. No hashtags or emojis. Ensure the reply maintains conversational flow and is relevant to the user's tweet and their previous interactions.${language ? ` ${formatReplyLanguage(language)}` : ''}`
                 });
+
+                // Swaps in the verbatim text of a translation in the reply's language
+                const scriptureVerifier = new ScriptureVerifier(this.runtime, { maxLength: MAX_REPLY_LENGTH, language: language?.language });
+                return await scriptureVerifier.generate((feedback) =>
+                    generateText({
+                        runtime: this.runtime,
+                        context: feedback ? `${prompt}\n\n${feedback}` : prompt,
+                        modelClass: ModelClass.SMALL
+                    })
+                );
             }
             return null;
         } catch (error) {
@@ -1078,20 +1157,6 @@ Keep the response under 280 characters. No hashtags or emojis. Ensure the reply
         }
     }
 
-    private async initializeScraper(): Promise<void> {
-        try {
-            const username = process.env.TWITTER_USERNAME!;
-            const password = process.env.TWITTER_PASSWORD!;
-            const email = process.env.TWITTER_EMAIL!;
-            this.scraper = new Scraper();
-            await this.scraper.login(username, password, email);
-            elizaLogger.info('Successfully re-initialized Twitter scraper');
-        } catch (error) {
-            elizaLogger.error(`Failed to re-initialize Twitter scraper: ${error.message}`);
-            throw error;
-        }
-    }
-
     private async storeInRAG(content: string, metadata: any): Promise<void> {
         try {
             elizaLogger.info(`[RAG] Generating embedding for content: ${content.slice(0, 100)}...`);
@@ -1117,14 +1182,15 @@ Keep the response under 280 characters. No hashtags or emojis. Ensure the reply
             const id = stringToUuid(Date.now().toString());
             elizaLogger.info(`[RAG] Storing in RAG with ID: ${id}`);
             
-            // Get embedding info from runtime
+            // Recorded so entries from another embedding model can be found and re-embedded
+            const embeddingConfig = getEmbeddingConfig();
             const embeddingInfo = {
                 dim: float32Embedding.length,
                 type: 'float32',
                 version: '1.0',
-                provider: this.runtime.embeddingProvider || 'default',
-                model: this.runtime.embeddingModel || 'default',
-                checksum: this.generateEmbeddingChecksum(Array.from(float32Embedding))
+                provider: embeddingConfig.provider,
+                model: embeddingConfig.model,
+                checksum: getEmbeddingChecksum(Array.from(float32Embedding))
             };
             
             await this.database.storeRAGEmbedding(
@@ -1158,30 +1224,12 @@ Keep the response under 280 characters. No hashtags or emojis. Ensure the reply
         }
     }
 
-    private generateEmbeddingChecksum(embedding: number[]): string {
-        // Simple checksum generation - you might want to use a more robust method
-        const sum = embedding.reduce((acc, val) => acc + val, 0);
-        return Buffer.from(sum.toString()).toString('base64');
-    }
-
     private async searchRAG(query: string, limit: number): Promise<Array<{ content: string; metadata: any }>> {
         let retryCount = 0;
         const MAX_RETRIES = 3;
         while (retryCount < MAX_RETRIES) {
             try {
-                elizaLogger.info(`[RAG] Generating embedding for search query: ${query}`);
-                const embedding = await embed(this.runtime, query);
-                
-                if (!embedding || !Array.isArray(embedding) || embedding.length === 0) {
-                    throw new Error('Failed to generate valid embedding');
-                }
-
-                elizaLogger.info(`[RAG] Converting embedding to Float32Array...`);
-                const float32Embedding = new Float32Array(embedding);
-                elizaLogger.info(`[RAG] Float32Array size: ${float32Embedding.length} elements`);
-                elizaLogger.info(`[RAG] First few values: ${Array.from(float32Embedding.slice(0, 5)).join(', ')}...`);
-
-                const results = await this.runtime.rag.search(query, limit);
+                const results = await this.runtime.requireCapability(RAG).search(query, limit);
                 elizaLogger.info(`[RAG] Search successful for query: ${query}`);
                 return results;
             } catch (error) {
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ApprovalQueueItem, ContentModerator, IAgentRuntime, UUID } from '@elizaos/core';
+import {
+    addPendingTweet,
+    createApprovalProvider,
+    getPendingTweets,
+    handlePendingTweet,
+    registerApprovalProvider,
+    PENDING_TWEET_EXPIRY_MS,
+    type ApprovalProvider,
+    type PendingTweetApprovalStatus,
+} from '../src/approval';
+import type { ClientBase } from '../src/base';
+
+function createFakeProvider(statuses: Record<string, PendingTweetApprovalStatus>): ApprovalProvider {
+    return {
+        name: 'FAKE',
+        submit: vi.fn(async () => 'task-1'),
+        checkStatus: vi.fn(async (taskId: string) => statuses[taskId] ?? 'PENDING'),
+        cancel: vi.fn(async () => {}),
+    };
+}
+
+describe('Twitter Approval Providers', () => {
+    let mockRuntime: IAgentRuntime;
+    let cache: Map<string, unknown>;
+
+    beforeEach(() => {
+        cache = new Map();
+        mockRuntime = {
+            agentId: '00000000-0000-0000-0000-000000000000',
+            actions: [],
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); }),
+                delete: vi.fn(async (key: string) => { cache.delete(key); }),
+            },
+            ensureRoomExists: vi.fn(),
+            ensureParticipantInRoom: vi.fn(),
+            messageManager: { createMemory: vi.fn() },
+            getSetting: vi.fn(() => null),
+        } as unknown as IAgentRuntime;
+    });
+
+    const pendingTweet = (taskId: string, timestamp = Date.now()) => ({
+        tweetTextForPosting: `tweet for ${taskId}`,
+        roomId: '11111111-1111-1111-1111-111111111111' as UUID,
+        rawTweetContent: `tweet for ${taskId}`,
+        taskId,
+        timestamp,
+    });
+
+    it('should build a registered provider by case-insensitive name', () => {
+        const provider = createFakeProvider({});
+        registerApprovalProvider('local_file', () => provider);
+
+        const created = createApprovalProvider('LOCAL_FILE', {
+            runtime: mockRuntime,
+            client: {} as ClientBase,
+        });
+        expect(created).toBe(provider);
+    });
+
+    it('should return null when a built-in provider is not configured', () => {
+        // Raiinmaker needs the VERIFY_GENERATION_CONTENT action, Discord needs credentials
+        const context = { runtime: mockRuntime, client: {} as ClientBase };
+        expect(createApprovalProvider('RAIINMAKER', context)).toBeNull();
+        expect(createApprovalProvider('DISCORD', context)).toBeNull();
+    });
+
+    it('should post approved tweets and drop rejected ones', async () => {
+        await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('approved'));
+        await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('rejected'));
+        await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('waiting'));
+
+        const provider = createFakeProvider({ approved: 'APPROVED', rejected: 'REJECTED' });
+        const postTweet = vi.fn(async () => {});
+
+        await handlePendingTweet(mockRuntime, 'testuser', provider, postTweet);
+
+        expect(postTweet).toHaveBeenCalledTimes(1);
+        expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'approved' }));
+        const remaining = await getPendingTweets(mockRuntime, 'testuser');
+        expect(remaining.map((tweet) => tweet.taskId)).toEqual(['waiting']);
+    });
+
+    it('should cancel expired tweets without checking their status', async () => {
+        await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('old', Date.now() - PENDING_TWEET_EXPIRY_MS - 1));
+
+        const provider = createFakeProvider({ old: 'APPROVED' });
+        const postTweet = vi.fn(async () => {});
+
+        await handlePendingTweet(mockRuntime, 'testuser', provider, postTweet);
+
+        expect(provider.cancel).toHaveBeenCalledWith('old');
+        expect(provider.checkStatus).not.toHaveBeenCalled();
+        expect(postTweet).not.toHaveBeenCalled();
+        expect(await getPendingTweets(mockRuntime, 'testuser')).toEqual([]);
+    });
+
+    describe('with an approval queue database adapter', () => {
+        let approvals: Map<string, ApprovalQueueItem>;
+
+        beforeEach(() => {
+            approvals = new Map();
+            (mockRuntime as any).databaseAdapter = {
+                createApproval: vi.fn(async (approval: ApprovalQueueItem) => {
+                    approvals.set(approval.id, approval);
+                }),
+                getApprovals: vi.fn(async ({ status }: { status: string[] }) =>
+                    Array.from(approvals.values()).filter((approval) => status.includes(approval.status))
+                ),
+                updateApprovalStatus: vi.fn(async ({ id, status }: { id: string; status: ApprovalQueueItem['status'] }) => {
+                    approvals.set(id, { ...approvals.get(id)!, status });
+                }),
+            };
+        });
+
+        it('should store pending tweets in the queue and keep resolved ones', async () => {
+            await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('rejected'));
+
+            const [stored] = Array.from(approvals.values());
+            expect(stored).toMatchObject({ source: 'twitter', account: 'testuser', provider: 'FAKE', status: 'PENDING' });
+            expect(cache.size).toBe(0);
+
+            await handlePendingTweet(mockRuntime, 'testuser', createFakeProvider({ rejected: 'REJECTED' }), vi.fn());
+
+            expect(approvals.get(stored.id)?.status).toBe('REJECTED');
+            expect(await getPendingTweets(mockRuntime, 'testuser')).toEqual([]);
+        });
+
+        it('should post reviewer-approved tweets with their edited text', async () => {
+            await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('reviewed'));
+            const [stored] = Array.from(approvals.values());
+            approvals.set(stored.id, { ...stored, text: 'edited tweet', status: 'APPROVED' });
+
+            const provider = createFakeProvider({});
+            const postTweet = vi.fn(async () => {});
+
+            await handlePendingTweet(mockRuntime, 'testuser', provider, postTweet);
+
+            expect(provider.checkStatus).not.toHaveBeenCalled();
+            expect(provider.cancel).toHaveBeenCalledWith('reviewed');
+            expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({ tweetTextForPosting: 'edited tweet' }));
+            expect(approvals.get(stored.id)?.status).toBe('POSTED');
+        });
+
+        it('should keep approved tweets that fail to post for the next check', async () => {
+            await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('approved'));
+            const [stored] = Array.from(approvals.values());
+
+            const provider = createFakeProvider({ approved: 'APPROVED' });
+            const postTweet = vi.fn(async () => {
+                throw new Error('Rate limit exceeded');
+            });
+            await handlePendingTweet(mockRuntime, 'testuser', provider, postTweet);
+
+            expect(postTweet).toHaveBeenCalledTimes(1);
+            expect(approvals.get(stored.id)?.status).toBe('PENDING');
+
+            postTweet.mockResolvedValueOnce(undefined);
+            await handlePendingTweet(mockRuntime, 'testuser', provider, postTweet);
+            expect(approvals.get(stored.id)?.status).toBe('POSTED');
+        });
+
+        it('should fail the check when a posted tweet cannot be marked posted', async () => {
+            await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('approved'));
+            const db = (mockRuntime as any).databaseAdapter;
+            db.updateApprovalStatus.mockRejectedValueOnce(new Error('database is locked'));
+
+            const postTweet = vi.fn(async () => {});
+            await expect(
+                handlePendingTweet(mockRuntime, 'testuser', createFakeProvider({ approved: 'APPROVED' }), postTweet)
+            ).rejects.toThrow('database is locked');
+            expect(postTweet).toHaveBeenCalledTimes(1);
+        });
+
+        it('should check the edited text of approved tweets before posting it', async () => {
+            await addPendingTweet(mockRuntime, 'testuser', 'FAKE', pendingTweet('reviewed'));
+            const [stored] = Array.from(approvals.values());
+            approvals.set(stored.id, { ...stored, text: 'buy cheap followers', status: 'APPROVED' });
+
+            const moderator = {
+                check: vi.fn(async (text: string) => ({ allowed: !text.includes('followers') })),
+            } as unknown as ContentModerator;
+            const postTweet = vi.fn(async () => {});
+            await handlePendingTweet(mockRuntime, 'testuser', createFakeProvider({}), postTweet, moderator);
+
+            expect(moderator.check).toHaveBeenCalledWith('buy cheap followers', expect.objectContaining({ direction: 'outbound' }));
+            expect(postTweet).not.toHaveBeenCalled();
+            expect(approvals.get(stored.id)?.status).toBe('REJECTED');
+        });
+
+        it('should only build the queue provider when the adapter supports it', () => {
+            const context = { runtime: mockRuntime, client: {} as ClientBase };
+            expect(createApprovalProvider('QUEUE', context)?.name).toBe('QUEUE');
+
+            (mockRuntime as any).databaseAdapter = {};
+            expect(createApprovalProvider('QUEUE', context)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { IAgentRuntime, TwitterSearchEngagementConfig } from '@elizaos/core';
+import { SearchMode, type Scraper, type Tweet } from 'agent-twitter-client';
+import { ClientBase } from '../src/base';
+import type { TwitterConfig } from '../src/environment';
+import { getTweetLanguage, SearchEngagementEngine } from '../src/engagement';
+import { TwitterScenario } from '../src/simulator';
+
+const HOUR = 60 * 60 * 1000;
+const VOCABULARY = ['grace', 'faith', 'psalms', 'football', 'pizza'];
+
+// Word counts over a small vocabulary, so similarity follows shared topic words
+function fakeEmbedding(text: string): number[] {
+    const words = text.toLowerCase().match(/\w+/g) ?? [];
+    return VOCABULARY.map((term) => words.filter((word) => word === term).length + 0.01);
+}
+
+describe('SearchEngagementEngine', () => {
+    let scenario: TwitterScenario;
+    let cache: Map<string, unknown>;
+    let runtime: IAgentRuntime;
+    let client: ClientBase;
+
+    function engine(config: TwitterSearchEngagementConfig = {}) {
+        return new SearchEngagementEngine(client, runtime, config);
+    }
+
+    async function search(query: string) {
+        const result = client.fetchSearchTweets(query, 20, SearchMode.Latest);
+        await vi.runAllTimersAsync();
+        return (await result).tweets;
+    }
+
+    async function candidates(query: string, config: TwitterSearchEngagementConfig = {}) {
+        const result = engine(config).findCandidates(query, await search(query), scenario.twitter.now());
+        await vi.runAllTimersAsync();
+        return (await result).map(({ tweet }) => tweet.username);
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+
+        scenario = new TwitterScenario({ startTime: Date.UTC(2024, 0, 1) })
+            .account('agent', { name: 'Agent' })
+            .account('alice', { name: 'Alice' })
+            .account('bob', { name: 'Bob' })
+            .account('carol', { name: 'Carol' })
+            .follow('bob', 'alice')
+            .follow('carol', 'alice');
+
+        cache = new Map();
+        runtime = {
+            agentId: '00000000-0000-0000-0000-000000000000',
+            character: {
+                name: 'Agent',
+                topics: ['grace', 'faith'],
+                style: { all: [], post: [] }
+            },
+            getSetting: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) =>
+                    key.startsWith('embedding:')
+                        ? fakeEmbedding(key.split(':').slice(4).join(':'))
+                        : cache.get(key)
+                ),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); }),
+                delete: vi.fn(async (key: string) => { cache.delete(key); }),
+            },
+        } as unknown as IAgentRuntime;
+
+        ClientBase._twitterClients.agent = scenario.scraper('agent') as unknown as Scraper;
+        client = new ClientBase(runtime, {
+            TWITTER_USERNAME: 'agent',
+            TWITTER_TARGET_USERS: [],
+            MAX_TWEET_LENGTH: 280,
+            TWITTER_DRY_RUN: false,
+        } as unknown as TwitterConfig);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should prefer the language Twitter tagged a tweet with', () => {
+        const tweet = (text: string, language?: string) => ({ text, language }) as Tweet;
+
+        expect(getTweetLanguage(tweet('grace', 'pt'))).toBe('pt');
+        expect(getTweetLanguage(tweet('la gracia de Dios es para todos', 'und'))).toBe('spa');
+        expect(getTweetLanguage(tweet('a prayer for a friend'))).toBe('eng');
+    });
+
+    it('should rotate through saved queries, falling back to topics', () => {
+        const saved = engine({ queries: ['grace -filter:links', 'psalms'] });
+        expect([saved.nextQuery(), saved.nextQuery(), saved.nextQuery()]).toEqual([
+            'grace -filter:links', 'psalms', 'grace -filter:links'
+        ]);
+        expect(engine().nextQuery()).toBe('grace');
+    });
+
+    it('should support search operators in saved queries', async () => {
+        scenario
+            .tweet('alice', 'grace and faith for you', { as: 'liked' })
+            .tweet('bob', 'grace is in this link https://example.com')
+            .tweet('carol', 'grace and pizza tonight');
+        scenario.twitter.like('bob', scenario.id('liked'));
+
+        expect((await search('grace -filter:links lang:en')).map((t) => t.username))
+            .toEqual(['carol', 'alice']);
+        expect((await search('grace min_faves:1')).map((t) => t.username)).toEqual(['alice']);
+        expect((await search('grace -pizza filter:links')).map((t) => t.username)).toEqual(['bob']);
+    });
+
+    it('should skip own, old, foreign-language and already replied tweets', async () => {
+        scenario
+            .tweet('bob', 'grace from yesterday is the best', { as: 'old' })
+            .after(30 * HOUR)
+            .tweet('agent', 'grace for all of you')
+            .tweet('alice', 'grace: la gracia de Dios es para todos')
+            .tweet('carol', 'grace is what I need', { as: 'replied' });
+        await client.processedTweets.mark(scenario.id('replied'), 'REPLIED');
+
+        expect(await candidates('grace')).toEqual([]);
+        expect(await candidates('grace', { languages: ['en', 'es'], maxAgeHours: 48 }))
+            .toEqual(['alice', 'bob']);
+    });
+
+    it('should filter authors by follower count and cooldown, then favour them', async () => {
+        scenario
+            .tweet('alice', 'grace is for the many')
+            .tweet('bob', 'grace is for the few');
+
+        expect(await candidates('grace', { minFollowers: 1 })).toEqual(['alice']);
+        expect(await candidates('grace', { maxFollowers: 1 })).toEqual(['bob']);
+
+        const [bobTweet] = await search('from:bob');
+        await engine().recordReply(bobTweet, scenario.twitter.now());
+
+        expect(await candidates('grace')).toEqual(['alice']);
+        scenario.twitter.advance(25 * HOUR);
+        expect(await candidates('grace', { maxAgeHours: 48 })).toEqual(['bob', 'alice']);
+    });
+
+    it('should rank tweets by topic similarity and recency', async () => {
+        scenario
+            .tweet('alice', 'grace and faith carry the day')
+            .after(HOUR)
+            .tweet('bob', 'grace that football match was wild')
+            .after(HOUR)
+            .tweet('carol', 'grace and pizza for dinner');
+
+        expect(await candidates('grace')).toEqual(['alice', 'carol', 'bob']);
+        expect(await candidates('grace', { maxCandidates: 1 })).toEqual(['alice']);
+        expect(await candidates('grace', { weights: { similarity: 0, recency: 1 } }))
+            .toEqual(['carol', 'bob', 'alice']);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { validateTwitterConfig } from '../src/environment';
+import { validateTwitterAccountConfigs, validateTwitterConfig } from '../src/environment';
 import type { IAgentRuntime } from '@elizaos/core';
 
 describe('Twitter Environment Configuration', () => {
@@ -131,4 +131,48 @@ describe('Twitter Environment Configuration', () => {
         expect(config.POST_INTERVAL_MIN).toBe(90);
         expect(config.POST_INTERVAL_MAX).toBe(180);
     });
+
+    it('should configure each account of the character with its own credentials', async () => {
+        const multiAccountRuntime = {
+            ...mockRuntime,
+            env: {
+                ...mockRuntime.env,
+                TWITTER_PASSWORD_SUPPORT: 'supportpassword',
+                TWITTER_EMAIL_SUPPORT: 'support@example.com',
+            },
+            character: {
+                twitterAccounts: [
+                    { username: 'testuser123' },
+                    { username: 'support', settings: { TWITTER_SEARCH_ENABLE: 'true' } },
+                ],
+            },
+            getSetting: function (key: string) {
+                return this.env[key] || null;
+            }
+        } as unknown as IAgentRuntime;
+
+        const [main, support] = await validateTwitterAccountConfigs(multiAccountRuntime);
+        expect(main).toMatchObject({
+            TWITTER_USERNAME: 'testuser123',
+            TWITTER_PASSWORD: 'hashedpassword',
+            TWITTER_SEARCH_ENABLE: false,
+        });
+        expect(support).toMatchObject({
+            TWITTER_USERNAME: 'support',
+            TWITTER_PASSWORD: 'supportpassword',
+            TWITTER_EMAIL: 'support@example.com',
+            TWITTER_SEARCH_ENABLE: true,
+            POST_INTERVAL_MIN: 90,
+        });
+
+        // The shared password belongs to testuser123 only
+        delete multiAccountRuntime.env.TWITTER_PASSWORD_SUPPORT;
+        await expect(validateTwitterAccountConfigs(multiAccountRuntime))
+            .rejects.toThrow('configuration of @support validation failed');
+    });
+
+    it('should fall back to the single account without account blocks', async () => {
+        const configs = await validateTwitterAccountConfigs({ ...mockRuntime, character: {} } as IAgentRuntime);
+        expect(configs.map((config) => config.TWITTER_USERNAME)).toEqual(['testuser123']);
+    });
 });
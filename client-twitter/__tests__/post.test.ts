@@ -3,6 +3,7 @@ import { TwitterPostClient } from '../src/post';
 import { ClientBase } from '../src/base';
 import type { IAgentRuntime } from '@elizaos/core';
 import type { TwitterConfig } from '../src/environment';
+import type { ApprovalProvider } from '../src/approval';
 
 describe('Twitter Post Client', () => {
     let mockRuntime: IAgentRuntime;
@@ -69,6 +70,19 @@ describe('Twitter Post Client', () => {
         expect(postClient['isDryRun']).toBe(true);
     });
 
+    it('should stop checking pending tweets when stopped', async () => {
+        vi.useFakeTimers();
+        const postClient = new TwitterPostClient(baseClient, mockRuntime);
+        postClient['approvalProvider'] = { name: 'FAKE' } as ApprovalProvider;
+
+        postClient['runPendingTweetCheckLoop']();
+        expect(vi.getTimerCount()).toBe(1);
+
+        await postClient.stop();
+        expect(vi.getTimerCount()).toBe(0);
+        vi.useRealTimers();
+    });
+
     it('should keep tweets under max length when already valid', () => {
         const postClient = new TwitterPostClient(baseClient, mockRuntime);
         const validTweet = 'This is a valid tweet';
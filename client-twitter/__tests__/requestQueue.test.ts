@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestPriority, RequestQueue } from '../src/requestQueue';
+
+function rateLimitError(resetAt?: number): Error {
+    const headers = new Headers();
+    if (resetAt !== undefined) {
+        headers.set('x-rate-limit-limit', '50');
+        headers.set('x-rate-limit-remaining', '0');
+        headers.set('x-rate-limit-reset', String(Math.floor(resetAt / 1000)));
+    }
+    return Object.assign(new Error('Response status: 429'), {
+        response: new Response(null, { status: 429, headers })
+    });
+}
+
+describe('RequestQueue', () => {
+    let queue: RequestQueue;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+        queue = new RequestQueue({ minDelayMs: 100, maxDelayMs: 100, maxRetries: 2 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should run higher priority requests first', async () => {
+        const order: string[] = [];
+        const run = (name: string) => async () => {
+            order.push(name);
+        };
+
+        const requests = [
+            queue.add(run('first'), { priority: RequestPriority.Low }),
+            queue.add(run('like'), { priority: RequestPriority.Low }),
+            queue.add(run('post')),
+            queue.add(run('reply'), { priority: RequestPriority.High })
+        ];
+        await vi.runAllTimersAsync();
+        await Promise.all(requests);
+
+        // The first request starts before the others are queued
+        expect(order).toEqual(['first', 'reply', 'post', 'like']);
+    });
+
+    it('should reject a request once it runs out of retries', async () => {
+        const request = vi.fn().mockRejectedValue(new Error('Server error'));
+
+        const result = queue.add(request).catch((error) => error);
+        await vi.runAllTimersAsync();
+
+        expect((await result).message).toBe('Server error');
+        expect(request).toHaveBeenCalledTimes(3);
+        expect(queue.getMetrics()).toMatchObject({
+            depth: 0,
+            failed: 1,
+            retried: 2
+        });
+    });
+
+    it('should pause a rate limited endpoint until its reset', async () => {
+        const resetAt = Date.now() + 5 * 60 * 1000;
+        const times: Record<string, number[]> = { search: [], like: [] };
+        const search = vi.fn()
+            .mockImplementationOnce(async () => {
+                times.search.push(Date.now());
+                throw rateLimitError(resetAt);
+            })
+            .mockImplementation(async () => {
+                times.search.push(Date.now());
+                return 'tweets';
+            });
+
+        const searched = queue.add(search, { endpoint: 'fetchSearchTweets' });
+        const liked = queue.add(async () => {
+            times.like.push(Date.now());
+        }, { priority: RequestPriority.Low, endpoint: 'likeTweet' });
+
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        // The like goes ahead while search waits for its limit to reset
+        expect(times.like).toHaveLength(1);
+        expect(times.search).toHaveLength(1);
+        expect(queue.getMetrics().endpoints.fetchSearchTweets).toMatchObject({
+            rateLimited: 1,
+            remaining: 0,
+            capacity: 50,
+            resetAt
+        });
+
+        await vi.runAllTimersAsync();
+        expect(await searched).toBe('tweets');
+        await liked;
+        expect(times.search[1]).toBeGreaterThanOrEqual(resetAt);
+    });
+
+    it('should report depth and wait times', async () => {
+        const requests = [
+            queue.add(async () => 'a'),
+            queue.add(async () => 'b', { priority: RequestPriority.Low }),
+            queue.add(async () => 'c', { priority: RequestPriority.High })
+        ];
+
+        expect(queue.getMetrics()).toMatchObject({
+            depth: 2,
+            depthByPriority: { high: 1, normal: 0, low: 1 }
+        });
+
+        await vi.runAllTimersAsync();
+        await Promise.all(requests);
+
+        const metrics = queue.getMetrics();
+        expect(metrics).toMatchObject({ depth: 0, processed: 3, failed: 0 });
+        expect(metrics.maxWaitMs).toBe(200);
+        expect(metrics.endpoints.default.requests).toBe(3);
+    });
+});
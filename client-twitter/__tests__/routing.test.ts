@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { IAgentRuntime, Memory, TwitterAccountConfig, UUID } from '@elizaos/core';
+import type { Scraper, Tweet } from 'agent-twitter-client';
+import { ClientBase } from '../src/base';
+import type { TwitterConfig } from '../src/environment';
+import { TwitterInteractionClient } from '../src/interactions';
+import { TwitterAccountRouter } from '../src/routing';
+import { TwitterScenario } from '../src/simulator';
+
+const ACCOUNTS: TwitterAccountConfig[] = [
+    { username: 'brand', routing: { default: true } },
+    { username: 'support', routing: { keywords: ['refund', 'broken'], fromUsers: ['@carol'] } },
+];
+
+function tweet(username: string, text: string): Tweet {
+    return { id: '1', username, text, mentions: [] } as unknown as Tweet;
+}
+
+describe('TwitterAccountRouter', () => {
+    const router = new TwitterAccountRouter(ACCOUNTS);
+
+    it('should route by rules, then mentions, then to the default account', () => {
+        expect(router.route(tweet('alice', '@brand my order is broken'))).toBe('support');
+        expect(router.route(tweet('carol', '@brand love the new look'))).toBe('support');
+        expect(router.route(tweet('alice', '@support @brand love the new look'))).toBe('support');
+        expect(router.route(tweet('alice', '@brand love the new look'))).toBe('brand');
+        expect(router.route(tweet('alice', 'brand things are unbreakable'))).toBe('brand');
+        expect(new TwitterAccountRouter([{ username: 'brand' }]).route(tweet('alice', 'hello'))).toBeNull();
+    });
+
+    it('should recognize the agent\'s own accounts', () => {
+        expect(router.isOwnAccount('Support')).toBe(true);
+        expect(router.isOwnAccount('alice')).toBe(false);
+        expect(router.isOwnAccount(undefined)).toBe(false);
+    });
+});
+
+describe('Multi-account interactions', () => {
+    let scenario: TwitterScenario;
+    let runtime: IAgentRuntime;
+    let router: TwitterAccountRouter;
+
+    // Runs a call through the request queue and reply pacing delays without waiting for them
+    async function settle<T>(promise: Promise<T>): Promise<T> {
+        await vi.runAllTimersAsync();
+        return promise;
+    }
+
+    function account(username: string) {
+        ClientBase._twitterClients[username] = scenario.scraper(username) as unknown as Scraper;
+        const client = new ClientBase(runtime, {
+            TWITTER_USERNAME: username,
+            TWITTER_TARGET_USERS: [],
+            MAX_TWEET_LENGTH: 280,
+            TWITTER_DRY_RUN: false,
+        } as unknown as TwitterConfig);
+        client.profile = {
+            id: scenario.twitter.getAccount(username).userId,
+            username,
+            screenName: username,
+            bio: '',
+            nicknames: [],
+        };
+        const interactions = new TwitterInteractionClient(client, runtime, router);
+        const handleTweet = vi.spyOn(interactions as any, 'handleTweet').mockResolvedValue(undefined);
+        return { interactions, handleTweet };
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+
+        scenario = new TwitterScenario()
+            .account('brand', { name: 'Brand' })
+            .account('support', { name: 'Support' })
+            .account('alice', { name: 'Alice' });
+
+        const memories = new Map<string, Memory>();
+        const cache = new Map<string, unknown>();
+        runtime = {
+            agentId: '00000000-0000-0000-0000-000000000000',
+            character: { style: { all: [], post: [] } },
+            getSetting: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); }),
+                delete: vi.fn(async (key: string) => { cache.delete(key); }),
+            },
+            messageManager: {
+                getMemoryById: vi.fn(async (id: UUID) => memories.get(id) ?? null),
+                createMemory: vi.fn(async (memory: Memory) => { memories.set(memory.id!, memory); }),
+            },
+            ensureConnection: vi.fn(),
+        } as unknown as IAgentRuntime;
+
+        router = new TwitterAccountRouter(ACCOUNTS);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should hand mentions over to the routed account and reply once', async () => {
+        scenario
+            .mention('alice', 'brand', 'my order is broken', { as: 'complaint' })
+            .mention('alice', 'brand', 'love the new look', { as: 'praise' })
+            .mention('support', 'brand', 'handing this to you', { as: 'internal' });
+
+        const brand = account('brand');
+        const support = account('support');
+
+        await settle(brand.interactions.handleTwitterInteractions());
+        await settle(support.interactions.handleTwitterInteractions());
+
+        const handled = (spy: typeof brand.handleTweet) =>
+            spy.mock.calls.map(([{ tweet }]: any) => tweet.id);
+        expect(handled(brand.handleTweet)).toEqual([scenario.id('praise')]);
+        expect(handled(support.handleTweet)).toEqual([scenario.id('complaint')]);
+    });
+
+    it('should handle mentions it could not hand over itself', async () => {
+        scenario.mention('alice', 'brand', 'my order is broken', { as: 'complaint' });
+
+        // The support account never started, so nothing takes the tweet
+        const brand = account('brand');
+        await settle(brand.interactions.handleTwitterInteractions());
+
+        expect(brand.handleTweet).toHaveBeenCalledWith(
+            expect.objectContaining({ tweet: expect.objectContaining({ id: scenario.id('complaint') }) })
+        );
+    });
+});
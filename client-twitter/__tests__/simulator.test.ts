@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ProcessedTweetStore, type ApprovalQueueItem, type IAgentRuntime, type Memory, type UUID } from '@elizaos/core';
+import { SearchMode, type Scraper } from 'agent-twitter-client';
+import { ClientBase } from '../src/base';
+import type { TwitterConfig } from '../src/environment';
+import { TwitterInteractionClient } from '../src/interactions';
+import { TwitterPostClient } from '../src/post';
+import { sendTweet } from '../src/utils';
+import { addPendingTweet, handlePendingTweet, type ApprovalProvider } from '../src/approval';
+import { SimulatedScraper, TwitterScenario } from '../src/simulator';
+
+// Runs a call through the request queue and reply pacing delays without waiting for them
+async function settle<T>(promise: Promise<T>): Promise<T> {
+    await vi.runAllTimersAsync();
+    return promise;
+}
+
+describe('Twitter Simulator', () => {
+    let scenario: TwitterScenario;
+    let memories: Map<string, Memory>;
+    let mockRuntime: IAgentRuntime;
+    let client: ClientBase;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+
+        scenario = new TwitterScenario()
+            .account('agent', { name: 'Agent' })
+            .account('alice', { name: 'Alice' })
+            .account('bob', { name: 'Bob' });
+
+        memories = new Map();
+        const cache = new Map<string, unknown>();
+        mockRuntime = {
+            agentId: '00000000-0000-0000-0000-000000000000',
+            character: {
+                style: {
+                    all: ['Test style 1'],
+                    post: ['Post style 1']
+                }
+            },
+            getSetting: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); }),
+                delete: vi.fn(async (key: string) => { cache.delete(key); }),
+            },
+            messageManager: {
+                getMemoryById: vi.fn(async (id: UUID) => memories.get(id) ?? null),
+                createMemory: vi.fn(async (memory: Memory) => { memories.set(memory.id!, memory); }),
+            },
+            ensureConnection: vi.fn(),
+            ensureRoomExists: vi.fn(),
+            ensureParticipantInRoom: vi.fn(),
+        } as unknown as IAgentRuntime;
+
+        ClientBase._twitterClients.agent = scenario.scraper('agent') as unknown as Scraper;
+        client = new ClientBase(mockRuntime, {
+            TWITTER_USERNAME: 'agent',
+            TWITTER_TARGET_USERS: [],
+            MAX_TWEET_LENGTH: 280,
+            TWITTER_DRY_RUN: false,
+        } as unknown as TwitterConfig);
+        client.profile = {
+            id: scenario.twitter.getAccount('agent').userId,
+            username: 'agent',
+            screenName: 'Agent',
+            bio: '',
+            nicknames: [],
+        };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should thread scripted replies and resolve labels', () => {
+        scenario
+            .tweet('alice', 'gm everyone', { as: 'root' })
+            .after(60_000)
+            .reply('bob', 'root', 'gm alice', { as: 'reply' })
+            .quote('agent', 'reply', 'so wholesome', { as: 'quote' });
+
+        const root = scenario.get('root')!;
+        const reply = scenario.get('reply')!;
+
+        expect(reply.inReplyToStatusId).toBe(root.id);
+        expect(reply.conversationId).toBe(root.id);
+        expect(reply.createdAt - root.createdAt).toBe(60_000);
+        expect(scenario.get('quote')?.quotedStatusId).toBe(reply.id);
+        expect(() => scenario.tweet('alice', 'again', { as: 'root' })).toThrow();
+    });
+
+    it('should serve timelines in the shape the client parses', async () => {
+        scenario
+            .follow('agent', 'alice')
+            .tweet('alice', 'look at this', {
+                media: [{ data: Buffer.from('image'), mediaType: 'image/png' }]
+            })
+            .tweet('bob', 'not followed');
+
+        const following = await client.fetchHomeTimeline(10, true);
+        const home = await client.fetchHomeTimeline(10);
+
+        expect(following).toHaveLength(1);
+        expect(following[0]).toMatchObject({ username: 'alice', name: 'Alice', text: 'look at this' });
+        expect(following[0].photos).toHaveLength(1);
+        expect(home.map((tweet) => tweet.username)).toEqual(['bob', 'alice']);
+    });
+
+    it('should reply to mentions in their thread and not handle them twice', async () => {
+        scenario
+            .tweet('alice', 'what should I build?', { as: 'root' })
+            .reply('bob', 'root', '@agent any ideas?', { as: 'question' });
+
+        const interactions = new TwitterInteractionClient(client, mockRuntime);
+        const handleTweet = vi
+            .spyOn(interactions as any, 'handleTweet')
+            .mockImplementation(async ({ tweet, message }: any) => {
+                const replies = await sendTweet(client, { text: '@bob a simulator' }, message.roomId, 'agent', tweet.id);
+                for (const reply of replies) {
+                    await mockRuntime.messageManager.createMemory(reply);
+                }
+            });
+
+        await settle(interactions.handleTwitterInteractions());
+        await settle(interactions.handleTwitterInteractions());
+
+        expect(handleTweet).toHaveBeenCalledTimes(1);
+        const [answer] = scenario.twitter.getReplies(scenario.id('question'));
+        expect(answer).toMatchObject({
+            text: '@bob a simulator',
+            conversationId: scenario.id('root'),
+            userId: client.profile.id,
+        });
+
+        scenario.mention('alice', 'agent', 'and me?', { as: 'followUp' });
+        await settle(interactions.handleTwitterInteractions());
+
+        expect(handleTweet).toHaveBeenCalledTimes(2);
+        expect(handleTweet).toHaveBeenLastCalledWith(
+            expect.objectContaining({ tweet: expect.objectContaining({ id: scenario.id('followUp') }) })
+        );
+    });
+
+    it('should skip mentions another client of the agent already replied to', async () => {
+        scenario
+            .mention('alice', 'agent', 'first question', { as: 'first' })
+            .mention('bob', 'agent', 'second question', { as: 'second' });
+        // e.g. the agent's own Twitter integration answered the first one
+        await new ProcessedTweetStore(mockRuntime).mark(scenario.id('first'), 'REPLIED');
+
+        const interactions = new TwitterInteractionClient(client, mockRuntime);
+        const handleTweet = vi.spyOn(interactions as any, 'handleTweet').mockResolvedValue(undefined);
+
+        await settle(interactions.handleTwitterInteractions());
+
+        expect(handleTweet).toHaveBeenCalledTimes(1);
+        expect(handleTweet).toHaveBeenCalledWith(
+            expect.objectContaining({ tweet: expect.objectContaining({ id: scenario.id('second') }) })
+        );
+        expect(await client.processedTweets.getActions(scenario.id('second'))).toEqual(['PROCESSED']);
+    });
+
+    it('should release mentions it failed to reply to for another client to retry', async () => {
+        scenario.mention('alice', 'agent', 'are you there?', { as: 'question' });
+
+        const interactions = new TwitterInteractionClient(client, mockRuntime);
+        vi.spyOn(interactions as any, 'handleTweet').mockRejectedValue(new Error('Rate limit exceeded'));
+
+        await settle(interactions.handleTwitterInteractions());
+
+        expect(await client.processedTweets.getActions(scenario.id('question'))).toEqual([]);
+        expect(await new ProcessedTweetStore(mockRuntime).mark(scenario.id('question'), 'PROCESSED')).toBe(true);
+    });
+
+    it('should ignore blocked mentions and not send blocked replies', async () => {
+        scenario.mention('alice', 'agent', 'send n00dz pls', { as: 'spam' });
+        mockRuntime.character.moderation = { blocklist: ['noodz'] };
+        const { profile, twitterConfig } = client;
+        client = new ClientBase(mockRuntime, twitterConfig);
+        client.profile = profile;
+
+        const interactions = new TwitterInteractionClient(client, mockRuntime);
+        const tweet = await client.getTweet(scenario.id('spam'));
+        const decision = await (interactions as any).handleTweet({
+            tweet,
+            message: { content: { text: tweet.text } },
+            thread: [tweet],
+        });
+        expect(decision).toEqual({ text: '', action: 'IGNORE' });
+
+        const replies = await settle(sendTweet(client, { text: 'here are my n.o.o.d.z' }, mockRuntime.agentId, 'agent', tweet.id));
+        expect(replies).toEqual([]);
+        expect(scenario.twitter.getReplies(scenario.id('spam'))).toEqual([]);
+    });
+
+    it('should keep the part of a reply thread sent before a chunk failed', async () => {
+        scenario.mention('alice', 'agent', 'tell me everything', { as: 'question' });
+
+        const scraper = client.twitterClient;
+        const send = scraper.sendTweet.bind(scraper);
+        vi.spyOn(scraper, 'sendTweet')
+            .mockImplementationOnce(send)
+            .mockRejectedValue(new Error('Rate limit exceeded'));
+
+        const text = `${'first part '.repeat(20).trim()}\n\n${'second part '.repeat(20).trim()}`;
+        const replies = await settle(sendTweet(client, { text }, mockRuntime.agentId, 'agent', scenario.id('question')));
+
+        expect(replies).toHaveLength(1);
+        expect(scenario.twitter.getReplies(scenario.id('question'))).toHaveLength(1);
+    });
+
+    it('should fail rate-limited calls until the limit is used up', async () => {
+        scenario.mention('alice', 'agent', 'hello').rateLimit('fetchSearchTweets');
+
+        const scraper = new SimulatedScraper(scenario.twitter, 'agent');
+        await expect(scraper.fetchSearchTweets('@agent', 10, SearchMode.Latest)).rejects.toThrow('Rate limit exceeded');
+
+        // The request queue retries after the limit resets
+        scenario.rateLimit('fetchSearchTweets');
+        const retried = await settle(client.fetchSearchTweets('@agent', 10, SearchMode.Latest));
+        expect(retried.tweets).toHaveLength(1);
+
+        // ...and gives up after three retries
+        scenario.rateLimit('fetchSearchTweets', 4);
+        const limited = await settle(client.fetchSearchTweets('@agent', 10, SearchMode.Latest));
+        expect(limited.tweets).toEqual([]);
+        expect(client.requestQueue.getMetrics()).toMatchObject({ failed: 1, rateLimited: 5 });
+    });
+
+    it('should report tweets that failed to send as not posted', async () => {
+        const postClient = new TwitterPostClient(client, mockRuntime);
+        const roomId = '11111111-1111-1111-1111-111111111111' as UUID;
+
+        // The request queue gives up after three retries
+        scenario.rateLimit('sendTweet', 4);
+        const failed = expect(postClient['publishTweet']('hello world', roomId, 'hello world')).rejects.toThrow('Rate limit exceeded');
+        await vi.runAllTimersAsync();
+        await failed;
+        expect(scenario.twitter.getTweets()).toEqual([]);
+
+        await expect(settle(postClient['publishTweet']('hello again', roomId, 'hello again'))).resolves.toBe('POSTED');
+        expect(scenario.twitter.getTweets()).toHaveLength(1);
+    });
+
+    it('should post reviewer-approved tweets from the approval queue', async () => {
+        const approvals = new Map<string, ApprovalQueueItem>();
+        (mockRuntime as any).databaseAdapter = {
+            createApproval: vi.fn(async (approval: ApprovalQueueItem) => {
+                approvals.set(approval.id, approval);
+            }),
+            getApprovals: vi.fn(async ({ status }: { status: string[] }) =>
+                Array.from(approvals.values()).filter((approval) => status.includes(approval.status))
+            ),
+            updateApprovalStatus: vi.fn(async ({ id, status }: { id: string; status: ApprovalQueueItem['status'] }) => {
+                approvals.set(id, { ...approvals.get(id)!, status });
+            }),
+        };
+        const provider: ApprovalProvider = {
+            name: 'FAKE',
+            submit: vi.fn(async () => 'task-1'),
+            checkStatus: vi.fn(async () => 'PENDING' as const),
+            cancel: vi.fn(async () => {}),
+        };
+        const postTweet = async ({ tweetTextForPosting }: { tweetTextForPosting: string }) => {
+            await client.twitterClient.sendTweet(tweetTextForPosting);
+        };
+
+        await addPendingTweet(mockRuntime, 'agent', 'FAKE', {
+            tweetTextForPosting: 'first draft',
+            roomId: '11111111-1111-1111-1111-111111111111' as UUID,
+            rawTweetContent: 'first draft',
+            taskId: 'task-1',
+            timestamp: Date.now(),
+        });
+
+        await handlePendingTweet(mockRuntime, 'agent', provider, postTweet);
+        expect(scenario.twitter.getTweets()).toHaveLength(0);
+
+        const [stored] = Array.from(approvals.values());
+        approvals.set(stored.id, { ...stored, text: 'edited by a reviewer', status: 'APPROVED' });
+        await handlePendingTweet(mockRuntime, 'agent', provider, postTweet);
+
+        const [posted] = scenario.twitter.getTweets();
+        expect(posted).toMatchObject({ text: 'edited by a reviewer', userId: client.profile.id });
+        expect(approvals.get(stored.id)?.status).toBe('POSTED');
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createContentModerator, stringToUuid, type IAgentRuntime } from '@elizaos/core';
+import type { ClientBase } from '../src/base';
+import { SpaceModerator } from '../src/spaceModeration';
+
+describe('SpaceModerator', () => {
+    let runtime: IAgentRuntime;
+    let client: ClientBase;
+    let rooms: Record<string, string[]>;
+    let relationships: Record<string, string>;
+
+    beforeEach(() => {
+        rooms = {};
+        relationships = {};
+        runtime = {
+            agentId: '00000000-0000-0000-0000-000000000000',
+            databaseAdapter: {
+                getRoomsForParticipants: vi.fn(async (userIds: string[]) =>
+                    userIds.flatMap((userId) => rooms[userId] ?? [])
+                ),
+                getRelationship: vi.fn(async ({ userB }: { userB: string }) =>
+                    relationships[userB] ? { status: relationships[userB] } : null
+                ),
+            },
+        } as unknown as IAgentRuntime;
+        client = {
+            moderator: createContentModerator(runtime, { blocklist: ['scam*'] }),
+        } as unknown as ClientBase;
+    });
+
+    it('should vet speakers against the handle lists', async () => {
+        const moderator = new SpaceModerator(runtime, client, {
+            allowlist: ['@Friend'],
+            blocklist: ['troll'],
+            allowlistOnly: true,
+        });
+        moderator.startSpace('space-1');
+
+        expect(await moderator.vetSpeaker({ userId: '1', username: 'friend' })).toMatchObject({ allowed: true, rule: 'allowlist' });
+        expect(await moderator.vetSpeaker({ userId: '2', username: 'Troll' })).toMatchObject({ allowed: false, rule: 'blocklist' });
+        expect(await moderator.vetSpeaker({ userId: '3', username: 'stranger' })).toMatchObject({ allowed: false, rule: 'allowlist' });
+        expect(moderator.isBlocked('tw-2', 'troll')).toBe(true);
+    });
+
+    it('should vet speakers against their history with the agent', async () => {
+        const moderator = new SpaceModerator(runtime, client, {
+            vetting: { minInteractions: 2 },
+        });
+        moderator.startSpace('space-1');
+        rooms[stringToUuid('10')] = ['room-a'];
+        rooms[stringToUuid('twitter-user-10')] = ['room-b'];
+        rooms[stringToUuid('11')] = ['room-a'];
+        relationships[stringToUuid('12')] = 'BLOCKED';
+        rooms[stringToUuid('12')] = ['room-a', 'room-b'];
+
+        expect(await moderator.vetSpeaker({ userId: '10', username: 'regular' })).toMatchObject({ allowed: true });
+        expect(await moderator.vetSpeaker({ userId: '11', username: 'newcomer' })).toMatchObject({
+            allowed: false,
+            rule: 'history',
+            reason: '1 of 2 conversations with the agent',
+        });
+        expect(await moderator.vetSpeaker({ userId: '12', username: 'blocked' })).toMatchObject({
+            allowed: false,
+            rule: 'relationship',
+        });
+    });
+
+    it('should mute, then remove, speakers saying blocked content', async () => {
+        vi.useFakeTimers();
+        const moderator = new SpaceModerator(runtime, client, { muteDurationMs: 60_000 });
+        moderator.startSpace('space-1');
+        await moderator.vetSpeaker({ userId: '20', username: 'spammer' });
+
+        expect(await moderator.checkSpeech('tw-20', 'hello everyone')).toBe('allowed');
+        expect(await moderator.checkSpeech('tw-20', 'join my scam today')).toBe('muted');
+        expect(moderator.isMuted('tw-20')).toBe(true);
+
+        vi.advanceTimersByTime(60_000);
+        expect(moderator.isMuted('tw-20')).toBe(false);
+        expect(await moderator.checkSpeech('tw-20', 'scammers welcome')).toBe('removed');
+        expect(moderator.isBlocked('20')).toBe(true);
+        expect((await moderator.vetSpeaker({ userId: '20', username: 'spammer' })).allowed).toBe(false);
+
+        expect(moderator.getEvents(3).map(({ action, rule, username }) => ({ action, rule, username }))).toEqual([
+            { action: 'rejected', rule: 'removed', username: 'spammer' },
+            { action: 'removed', rule: 'blocklist:scam*', username: 'spammer' },
+            { action: 'muted', rule: 'blocklist:scam*', username: 'spammer' },
+        ]);
+        expect(moderator.getEvents()[1]).toMatchObject({ spaceId: 'space-1', text: 'scammers welcome' });
+
+        // A new Space starts afresh, keeping the log
+        moderator.startSpace('space-2');
+        expect(moderator.isBlocked('20')).toBe(false);
+        expect(moderator.getEvents()).toHaveLength(4);
+        vi.useRealTimers();
+    });
+});
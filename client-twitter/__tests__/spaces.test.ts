@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateText, type IAgentRuntime, type Memory } from '@elizaos/core';
+import type { Scraper } from 'agent-twitter-client';
+import { ClientBase } from '../src/base';
+import type { TwitterConfig } from '../src/environment';
+import { TwitterPostClient } from '../src/post';
+import { formatRecapThread, SpaceTranscript } from '../src/spaceTranscript';
+import { TwitterScenario } from '../src/simulator';
+
+vi.mock('@elizaos/core', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@elizaos/core')>()),
+    generateText: vi.fn(),
+}));
+
+describe('Twitter Spaces transcripts', () => {
+    let scenario: TwitterScenario;
+    let runtime: IAgentRuntime;
+    let client: ClientBase;
+    let memories: Memory[];
+
+    beforeEach(() => {
+        scenario = new TwitterScenario()
+            .account('agent', { name: 'Agent' })
+            .account('alice', { name: 'Alice' });
+
+        memories = [];
+        runtime = {
+            agentId: '00000000-0000-0000-0000-000000000000',
+            character: { name: 'Agent', style: { all: [], post: [] } },
+            getSetting: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async () => undefined),
+                set: vi.fn(async () => {}),
+            },
+            messageManager: {
+                createMemory: vi.fn(async (memory: Memory) => { memories.push(memory); }),
+            },
+            ensureConnection: vi.fn(),
+            ensureRoomExists: vi.fn(),
+            ensureParticipantInRoom: vi.fn(),
+        } as unknown as IAgentRuntime;
+
+        ClientBase._twitterClients.agent = scenario.scraper('agent') as unknown as Scraper;
+        client = new ClientBase(runtime, {
+            TWITTER_USERNAME: 'agent',
+            TWITTER_TARGET_USERS: [],
+            MAX_TWEET_LENGTH: 280,
+            TWITTER_DRY_RUN: false,
+        } as unknown as TwitterConfig);
+        client.profile = {
+            id: scenario.twitter.getAccount('agent').userId,
+            username: 'agent',
+            screenName: 'Agent',
+            bio: '',
+            nicknames: [],
+        };
+    });
+
+    function transcript() {
+        return new SpaceTranscript(
+            runtime,
+            client,
+            'space-1',
+            'Building in public',
+            'https://x.com/i/spaces/space-1',
+            Date.parse('2025-01-01T12:00:00Z')
+        );
+    }
+
+    it('should attribute and timestamp what each speaker said, and store it', async () => {
+        const space = transcript();
+        const alice = scenario.twitter.getAccount('alice').userId;
+        space.addSpeaker(alice, 'alice');
+
+        await space.add(client.profile.id, 'Welcome everyone!', Date.parse('2025-01-01T12:00:05Z'));
+        await space.add(`tw-${alice}`, 'Glad to be here.', Date.parse('2025-01-01T13:02:10Z'));
+        await space.add('12345', '  ', Date.parse('2025-01-01T13:03:00Z'));
+
+        expect(space.format()).toBe(
+            '[00:00:05] @agent: Welcome everyone!\n[01:02:10] @alice: Glad to be here.'
+        );
+        expect(memories.map(({ userId, roomId, content }) => ({ userId, roomId, ...content }))).toEqual([
+            expect.objectContaining({ userId: runtime.agentId, roomId: space.roomId, text: 'Welcome everyone!', username: 'agent', offsetMs: 5_000 }),
+            expect.objectContaining({ roomId: space.roomId, text: 'Glad to be here.', username: 'alice', spaceId: 'space-1' }),
+        ]);
+        expect(memories[1].userId).not.toBe(runtime.agentId);
+    });
+
+    it('should summarize the Space and store the recap', async () => {
+        const space = transcript();
+        expect(await space.summarize()).toBeNull();
+
+        await space.add(client.profile.id, 'Today we ship the new parser.');
+        vi.mocked(generateText).mockResolvedValueOnce(
+            '```json\n{ "summary": "The new parser ships today.", "highlights": ["@agent: ship it", "", 3] }\n```'
+        );
+
+        const recap = await space.summarize();
+
+        expect(recap).toEqual({ summary: 'The new parser ships today.', highlights: ['@agent: ship it'] });
+        expect(memories.at(-1)?.content).toMatchObject({
+            text: 'The new parser ships today.',
+            highlights: ['@agent: ship it'],
+            url: 'https://x.com/i/spaces/space-1',
+        });
+    });
+
+    it('should format a recap thread within the tweet length', () => {
+        const thread = formatRecapThread(
+            'Building in public',
+            { summary: 'We talked about parsers. '.repeat(20), highlights: ['@alice: ship early'] },
+            'https://x.com/i/spaces/space-1',
+            280
+        );
+
+        expect(thread).toHaveLength(2);
+        expect(thread[0].startsWith('Recap of "Building in public": We talked about parsers.')).toBe(true);
+        expect(thread[0].endsWith('\n\nhttps://x.com/i/spaces/space-1')).toBe(true);
+        expect(thread.every((tweet) => tweet.length <= 280)).toBe(true);
+    });
+
+    it('should post a recap as a thread', async () => {
+        const post = new TwitterPostClient(client, runtime);
+
+        const tweets = await post.postThread(['Recap of the Space', '@alice: ship early']);
+
+        expect(tweets.map((tweet) => tweet.text)).toEqual(['Recap of the Space', '@alice: ship early']);
+        expect(scenario.twitter.getTweet(tweets[1].id)?.inReplyToStatusId).toBe(tweets[0].id);
+    });
+});
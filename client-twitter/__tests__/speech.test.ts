@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { IAgentRuntime } from '@elizaos/core';
+import type { ClientBase } from '../src/base';
+import { decodeWav, encodeWav, resamplePcm } from '../src/plugins/speech';
+import {
+    ScriptedSpeechRecognizer,
+    SimulatedSpaceAudio,
+    ToneSpeechSynthesizer,
+    tone,
+} from '../src/simulator';
+
+describe('Speech audio helpers', () => {
+    it('should round-trip PCM through WAV', () => {
+        const samples = tone(480, 16000);
+        const { samples: decoded, sampleRate } = decodeWav(encodeWav(samples, 16000));
+
+        expect(sampleRate).toBe(16000);
+        expect(Array.from(decoded)).toEqual(Array.from(samples));
+        expect(() => decodeWav(new Uint8Array(44))).toThrow('Not a WAV file');
+    });
+
+    it('should resample PCM', () => {
+        const samples = Int16Array.from([0, 100, 200, 300]);
+
+        expect(Array.from(resamplePcm(samples, 16000, 32000))).toEqual([0, 50, 100, 150, 200, 250, 300, 300]);
+        expect(Array.from(resamplePcm(samples, 16000, 8000))).toEqual([0, 200]);
+        expect(resamplePcm(samples, 16000, 16000)).toBe(samples);
+    });
+});
+
+describe('Twitter Spaces turn-taking', () => {
+    let recognizer: ScriptedSpeechRecognizer;
+    let synthesizer: ToneSpeechSynthesizer;
+    let space: SimulatedSpaceAudio;
+    let handleUserMessage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        recognizer = new ScriptedSpeechRecognizer(['hey agent, what are you building?', 'wait, hold on']);
+        synthesizer = new ToneSpeechSynthesizer(200);
+        space = new SimulatedSpaceAudio({
+            runtime: {} as IAgentRuntime,
+            client: {} as ClientBase,
+            recognizer,
+            synthesizer,
+        });
+        handleUserMessage = vi
+            .spyOn(space.plugin as any, 'handleUserMessage')
+            .mockResolvedValue('a parser for scripture references') as any;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should answer once the speaker goes silent', async () => {
+        space.feed('tw-alice', tone(8000, 16000), 16000);
+        space.feed('tw-alice', new Int16Array(4800)); // silence is ignored
+
+        await vi.advanceTimersByTimeAsync(900);
+        expect(recognizer.heard).toHaveLength(0);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(recognizer.heard).toHaveLength(1);
+        expect(recognizer.heard[0].sampleRate).toBe(48000);
+        expect(recognizer.heard[0].samples.length).toBe(24000);
+        expect(handleUserMessage).toHaveBeenCalledWith('hey agent, what are you building?', 'tw-alice');
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(synthesizer.said).toEqual(['a parser for scripture references']);
+        expect(space.spokenMs).toBe(1000);
+    });
+
+    it('should stop speaking when interrupted', async () => {
+        handleUserMessage.mockResolvedValueOnce('one two three four five six seven eight nine ten');
+        space.feed('tw-alice', tone(24000));
+        await vi.advanceTimersByTimeAsync(1000 + 300);
+        expect(space.spokenMs).toBeGreaterThan(0);
+
+        // Long enough to barge in
+        space.feed('tw-bob', tone(480 * 60));
+        const spokenWhenInterrupted = space.spokenMs;
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(space.spokenMs).toBeLessThan(spokenWhenInterrupted + 100);
+        expect(recognizer.heard).toHaveLength(2);
+        expect(handleUserMessage).toHaveBeenLastCalledWith('wait, hold on', 'tw-bob');
+    });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { IAgentRuntime, TwitterSpaceTurnTakingOptions } from '@elizaos/core';
+import type { ClientBase } from '../src/base';
+import { rmsLevel, TurnTakingController, type Utterance } from '../src/plugins/turnTaking';
+import {
+    ScriptedSpeechRecognizer,
+    SimulatedSpaceAudio,
+    ToneSpeechSynthesizer,
+    tone,
+} from '../src/simulator';
+
+const FRAME = 480; // 10ms at 48kHz
+
+/**
+ * Drives a controller with synthetic audio, one 10ms frame at a time.
+ */
+function conversation(options: TwitterSpaceTurnTakingOptions = {}) {
+    const turns: Utterance[] = [];
+    const bargeIns: string[] = [];
+    let finishTurn: () => void = () => {};
+    const controller = new TurnTakingController(
+        {
+            onTurn: async (utterance) => {
+                turns.push(utterance);
+                await new Promise<void>((resolve) => {
+                    finishTurn = resolve;
+                });
+            },
+            onBargeIn: (userId) => bargeIns.push(userId),
+        },
+        options
+    );
+    let now = 0;
+
+    // Feeds `ms` of audio at `amplitude` from a speaker, ticking as it goes
+    const talk = (userId: string, ms: number, amplitude = 8192) => {
+        for (let i = 0; i < ms / 10; i++) {
+            controller.onAudio(userId, new Int16Array(FRAME).fill(amplitude), 48000, now);
+            now += 10;
+            controller.tick(now);
+        }
+    };
+    const wait = (ms: number) => {
+        for (let i = 0; i < ms / 10; i++) {
+            now += 10;
+            controller.tick(now);
+        }
+    };
+    const answer = async () => {
+        finishTurn();
+        await new Promise((resolve) => setImmediate(resolve));
+        controller.tick(now);
+    };
+
+    return { controller, turns, bargeIns, talk, wait, answer };
+}
+
+describe('TurnTakingController', () => {
+    it('should measure the RMS level of PCM', () => {
+        expect(rmsLevel(new Int16Array(0))).toBe(0);
+        expect(rmsLevel(new Int16Array(10).fill(16384))).toBe(0.5);
+    });
+
+    it('should end a turn after silence, leaving the trailing silence out', () => {
+        const { controller, turns, talk, wait } = conversation();
+
+        talk('tw-alice', 500);
+        expect(controller.state).toBe('LISTENING');
+        talk('tw-alice', 900, 0);
+        expect(turns).toHaveLength(0);
+
+        wait(100);
+        expect(turns).toHaveLength(1);
+        expect(turns[0]).toMatchObject({ userId: 'tw-alice', startedAt: 0, bargeIn: false });
+        expect(turns[0].samples.length).toBe(500 * 48);
+        expect(controller.state).toBe('RESPONDING');
+    });
+
+    it('should apply voice detection settings per speaker', () => {
+        const { turns, talk, wait } = conversation({
+            vad: { minSpeechMs: 200 },
+            speakers: { bob: { threshold: 0.3, silenceMs: 500 } },
+        });
+
+        talk('tw-alice', 100); // too short
+        talk('tw-bob', 1000, 4096); // too quiet for bob
+        wait(1000);
+        expect(turns).toHaveLength(0);
+
+        talk('tw-bob', 300, 16384);
+        wait(500);
+        expect(turns.map(({ userId }) => userId)).toEqual(['tw-bob']);
+    });
+
+    it('should wait for speakers to finish before answering', () => {
+        const { turns, talk, wait } = conversation();
+
+        talk('tw-alice', 500);
+        talk('tw-bob', 800);
+        expect(turns).toHaveLength(0);
+
+        wait(1000);
+        expect(turns.map(({ userId }) => userId)).toEqual(['tw-alice']);
+    });
+
+    it('should let a speaker barge in while the agent speaks', () => {
+        const { controller, bargeIns, talk } = conversation({ bargeInMs: 300 });
+        controller.setAgentSpeaking(true);
+
+        talk('tw-alice', 200);
+        expect(bargeIns).toEqual([]);
+        talk('tw-alice', 200);
+        expect(bargeIns).toEqual(['tw-alice']);
+        expect(controller.state).toBe('SPEAKING');
+    });
+
+    it('should keep one speaker from monopolizing the agent', async () => {
+        const { controller, turns, bargeIns, talk, wait, answer } = conversation({
+            maxTurnsPerSpeaker: 1,
+        });
+
+        talk('tw-alice', 500);
+        wait(1000);
+        expect(turns.map(({ userId }) => userId)).toEqual(['tw-alice']);
+
+        // Alice has had her share: Bob goes first, though he finished later
+        talk('tw-alice', 500);
+        wait(1000);
+        talk('tw-bob', 500);
+        wait(1000);
+        await answer();
+        expect(turns.map(({ userId }) => userId)).toEqual(['tw-alice', 'tw-bob']);
+
+        // And she can't talk over the agent
+        controller.setAgentSpeaking(true);
+        talk('tw-alice', 1000);
+        expect(bargeIns).toEqual([]);
+        controller.setAgentSpeaking(false);
+        wait(1000);
+
+        await answer();
+        expect(turns.map(({ userId }) => userId)).toEqual(['tw-alice', 'tw-bob', 'tw-alice']);
+        expect(controller.getPending()).toEqual([]);
+    });
+});
+
+describe('Twitter Spaces barge-in', () => {
+    let recognizer: ScriptedSpeechRecognizer;
+    let synthesizer: ToneSpeechSynthesizer;
+
+    function simulate(options: TwitterSpaceTurnTakingOptions = {}) {
+        const space = new SimulatedSpaceAudio({
+            runtime: {} as IAgentRuntime,
+            client: { profile: { id: 'agent' } } as ClientBase,
+            recognizer,
+            synthesizer,
+            turnTaking: options,
+        });
+        vi.spyOn(space.plugin as any, 'handleUserMessage').mockResolvedValueOnce(
+            'We parse references. Then we check quotes. Then we answer.'
+        );
+        return space;
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        recognizer = new ScriptedSpeechRecognizer(['what does it do?']);
+        synthesizer = new ToneSpeechSynthesizer(200);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should resume an interrupted answer when there is nothing to reply to', async () => {
+        const space = simulate();
+        space.feed('tw-alice', tone(24000));
+        await vi.advanceTimersByTimeAsync(1000 + 1000);
+        expect(synthesizer.said.at(-1)).toBe('Then we check quotes.');
+
+        // A "mhm" the recognizer makes nothing of
+        space.feed('tw-bob', tone(480 * 60));
+        await vi.advanceTimersByTimeAsync(1000 + 3000);
+
+        expect(recognizer.heard).toHaveLength(2);
+        expect(synthesizer.said).toEqual([
+            'We parse references.',
+            'Then we check quotes.',
+            'Then we check quotes.',
+            'Then we answer.',
+        ]);
+    });
+
+    it('should cut the agent off at its maximum talk time', async () => {
+        const space = simulate({ maxAgentTalkMs: 1000 });
+        space.feed('tw-alice', tone(24000));
+        await vi.advanceTimersByTimeAsync(1000 + 5000);
+
+        expect(space.spokenMs).toBe(1000);
+        expect(synthesizer.said).toEqual(['We parse references.', 'Then we check quotes.']);
+    });
+});
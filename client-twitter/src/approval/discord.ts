@@ -0,0 +1,235 @@
+import { elizaLogger } from "@elizaos/core";
+import {
+    Client,
+    Events,
+    GatewayIntentBits,
+    TextChannel,
+    Partials,
+} from "discord.js";
+import type { ClientBase } from "../base.ts";
+import type {
+    ApprovalProvider,
+    ApprovalProviderFactory,
+    ApprovalSubmission,
+    PendingTweetApprovalStatus,
+} from "./types.ts";
+
+/**
+ * Posts each tweet as an embed in a Discord channel and reads the
+ * 👍 / ❌ reactions on it as the approval decision.
+ */
+export class DiscordApprovalProvider implements ApprovalProvider {
+    readonly name = "DISCORD";
+    private discordClientForApproval: Client | null = null;
+
+    constructor(
+        private client: ClientBase,
+        private token: string,
+        private discordApprovalChannelId: string
+    ) {
+        this.setupDiscordClient();
+    }
+
+    private setupDiscordClient() {
+        try {
+            // Create Discord client
+            this.discordClientForApproval = new Client({
+                intents: [
+                    GatewayIntentBits.Guilds,
+                    GatewayIntentBits.GuildMessages,
+                    GatewayIntentBits.MessageContent,
+                    GatewayIntentBits.GuildMessageReactions,
+                ],
+                partials: [Partials.Channel, Partials.Message, Partials.Reaction],
+            });
+
+            this.discordClientForApproval.once(
+                Events.ClientReady,
+                (readyClient) => {
+                    elizaLogger.log(
+                        `Discord bot is ready as ${readyClient.user.tag}!`
+                    );
+
+                    // Generate invite link with required permissions
+                    const invite = `https://discord.com/api/oauth2/authorize?client_id=${readyClient.user.id}&permissions=274877991936&scope=bot`;
+                    // 274877991936 includes permissions for:
+                    // - Send Messages
+                    // - Read Messages/View Channels
+                    // - Read Message History
+
+                    elizaLogger.log(
+                        `Use this link to properly invite the Twitter Post Approval Discord bot: ${invite}`
+                    );
+                }
+            );
+
+            // Login to Discord with error handling
+            this.discordClientForApproval.login(this.token).catch((error) => {
+                elizaLogger.error("Error logging in to Discord:", error);
+                this.discordClientForApproval = null;
+            });
+        } catch (error) {
+            elizaLogger.error("Exception setting up Discord client:", error);
+            this.discordClientForApproval = null;
+        }
+    }
+
+    private async fetchApprovalChannel(): Promise<TextChannel> {
+        if (!this.discordClientForApproval) {
+            throw new Error("Discord client not initialized for approval");
+        }
+
+        const channel = await this.discordClientForApproval.channels.fetch(
+            this.discordApprovalChannelId
+        );
+
+        if (!channel || !(channel instanceof TextChannel)) {
+            throw new Error(
+                `Invalid Discord channel: ${this.discordApprovalChannelId}`
+            );
+        }
+
+        return channel;
+    }
+
+    /**
+     * Sends a tweet for verification through the Discord approval system
+     *
+     * @returns The Discord message ID or null if sending failed
+     */
+    async submit({
+        tweetTextForPosting,
+    }: ApprovalSubmission): Promise<string | null> {
+        elizaLogger.log(
+            `Sending tweet for Discord approval: "${tweetTextForPosting.substring(0, 50)}${tweetTextForPosting.length > 50 ? "..." : ""}"`
+        );
+
+        // Create embed for Discord message
+        const embed = {
+            title: "New Tweet Pending Approval",
+            description: tweetTextForPosting,
+            fields: [
+                {
+                    name: "Character",
+                    value: this.client.profile.username,
+                    inline: true,
+                },
+                {
+                    name: "Length",
+                    value: tweetTextForPosting.length.toString(),
+                    inline: true,
+                },
+            ],
+            footer: {
+                text: "React with 👍 to approve or ❌ to reject. This will expire after 24 hours if no response received.",
+            },
+            timestamp: new Date().toISOString(),
+            color: 0x1da1f2, // Twitter blue color
+        };
+
+        try {
+            const channel = await this.fetchApprovalChannel();
+
+            // Send the approval message
+            const message = await channel.send({ embeds: [embed] });
+
+            // Add the approval reactions for easy clicking
+            await message.react("👍");
+            await message.react("❌");
+
+            elizaLogger.success(
+                `Successfully sent tweet for Discord approval with message ID: ${message.id}`
+            );
+            return message.id;
+        } catch (error) {
+            elizaLogger.error("Error sending Discord approval message:", error);
+            return null;
+        }
+    }
+
+    async checkStatus(
+        discordMessageId: string
+    ): Promise<PendingTweetApprovalStatus> {
+        try {
+            const channel = await this.fetchApprovalChannel();
+
+            // Fetch the original message and its replies
+            const message = await channel.messages.fetch(discordMessageId);
+
+            // Look for thumbs up reaction ('👍')
+            const thumbsUpReaction = message.reactions.cache.find(
+                (reaction) => reaction.emoji.name === "👍"
+            );
+
+            // Look for reject reaction ('❌')
+            const rejectReaction = message.reactions.cache.find(
+                (reaction) => reaction.emoji.name === "❌"
+            );
+
+            // More than one reaction means a human reacted besides the bot
+            if (rejectReaction && rejectReaction.count > 1) {
+                elizaLogger.log("Tweet rejected via Discord reaction");
+                return "REJECTED";
+            }
+
+            if (thumbsUpReaction && thumbsUpReaction.count > 1) {
+                elizaLogger.log("Tweet approved via Discord reaction");
+                return "APPROVED";
+            }
+
+            return "PENDING";
+        } catch (error) {
+            elizaLogger.error(`Error checking approval status: ${error}`);
+            return "PENDING";
+        }
+    }
+
+    /**
+     * Removes the approval message so reviewers can no longer act on it.
+     */
+    async cancel(discordMessageId: string): Promise<void> {
+        try {
+            const channel = await this.fetchApprovalChannel();
+            const message = await channel.messages.fetch(discordMessageId);
+            await message.delete();
+        } catch (error) {
+            elizaLogger.error(
+                `Error removing Discord approval message ${discordMessageId}:`,
+                error
+            );
+        }
+    }
+
+    async stop(): Promise<void> {
+        if (this.discordClientForApproval) {
+            elizaLogger.log("Disconnecting Discord client");
+            await this.discordClientForApproval.destroy();
+            this.discordClientForApproval = null;
+        }
+    }
+}
+
+export const createDiscordApprovalProvider: ApprovalProviderFactory = ({
+    runtime,
+    client,
+}) => {
+    const discordToken = runtime.getSetting(
+        "TWITTER_APPROVAL_DISCORD_BOT_TOKEN"
+    );
+    const channelId = runtime.getSetting("TWITTER_APPROVAL_DISCORD_CHANNEL_ID");
+
+    if (!discordToken || !channelId) {
+        elizaLogger.warn(
+            "Twitter approval is set to use Discord but credentials are missing"
+        );
+        return null;
+    }
+
+    const provider = new DiscordApprovalProvider(
+        client,
+        discordToken,
+        channelId
+    );
+    elizaLogger.log("Discord approval client initialized");
+    return provider;
+};
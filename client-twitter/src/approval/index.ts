@@ -0,0 +1,6 @@
+export * from "./types.ts";
+export * from "./pendingTweets.ts";
+export * from "./registry.ts";
+export { DiscordApprovalProvider } from "./discord.ts";
+export { RaiinmakerApprovalProvider } from "./raiinmaker.ts";
+export { QueueApprovalProvider } from "./queue.ts";
@@ -0,0 +1,318 @@
+import {
+    type ApprovalQueueItem,
+    type ApprovalStatus,
+    type ContentModerator,
+    elizaLogger,
+    type IAgentRuntime,
+    isDatabaseApprovalAdapter,
+    stringToUuid,
+    type UUID,
+} from "@elizaos/core";
+import { v4 as uuidv4 } from "uuid";
+import type {
+    ApprovalProvider,
+    PendingTweet,
+    PendingTweetApprovalStatus,
+} from "./types.ts";
+
+// Pending tweets are dropped if no decision arrives within 24 hours
+export const PENDING_TWEET_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// Source name used for tweets in the shared approval queue
+export const APPROVAL_QUEUE_SOURCE = "twitter";
+
+function getPendingTweetsKey(twitterUsername: string): string {
+    return `twitter/${twitterUsername}/pendingTweets`;
+}
+
+function toPendingTweet(approval: ApprovalQueueItem): PendingTweet {
+    return {
+        tweetTextForPosting: approval.text,
+        roomId: approval.roomId,
+        rawTweetContent: approval.rawText,
+        taskId: approval.taskId,
+        timestamp: approval.createdAt,
+        approvalId: approval.id,
+        status: approval.status as PendingTweetApprovalStatus,
+    };
+}
+
+/**
+ * Returns the tweets that still need to be acted on. When the database adapter
+ * provides an approval queue this includes tweets a reviewer has approved
+ * there but which have not been posted yet; otherwise tweets are read from
+ * the runtime cache.
+ */
+export async function getPendingTweets(
+    runtime: IAgentRuntime,
+    twitterUsername: string
+): Promise<PendingTweet[]> {
+    if (isDatabaseApprovalAdapter(runtime.databaseAdapter)) {
+        const approvals = await runtime.databaseAdapter.getApprovals({
+            agentId: runtime.agentId,
+            source: APPROVAL_QUEUE_SOURCE,
+            account: twitterUsername,
+            status: ["PENDING", "APPROVED"],
+        });
+        return approvals.map(toPendingTweet);
+    }
+
+    return (
+        (await runtime.cacheManager.get<PendingTweet[]>(
+            getPendingTweetsKey(twitterUsername)
+        )) || []
+    );
+}
+
+export async function addPendingTweet(
+    runtime: IAgentRuntime,
+    twitterUsername: string,
+    providerName: string,
+    pendingTweet: PendingTweet
+): Promise<void> {
+    if (isDatabaseApprovalAdapter(runtime.databaseAdapter)) {
+        await runtime.databaseAdapter.createApproval({
+            id: (pendingTweet.approvalId ?? uuidv4()) as UUID,
+            agentId: runtime.agentId,
+            source: APPROVAL_QUEUE_SOURCE,
+            account: twitterUsername,
+            provider: providerName,
+            taskId: pendingTweet.taskId,
+            roomId: pendingTweet.roomId,
+            text: pendingTweet.tweetTextForPosting,
+            rawText: pendingTweet.rawTweetContent,
+            status: "PENDING",
+            createdAt: pendingTweet.timestamp,
+            updatedAt: pendingTweet.timestamp,
+        });
+        return;
+    }
+
+    const currentPendingTweets = await getPendingTweets(
+        runtime,
+        twitterUsername
+    );
+    currentPendingTweets.push(pendingTweet);
+    await runtime.cacheManager.set(
+        getPendingTweetsKey(twitterUsername),
+        currentPendingTweets
+    );
+}
+
+/**
+ * Removes a processed tweet from the pending set. Approval queue entries are
+ * kept for auditing and marked with their final status instead. Throws if the
+ * tweet is still pending, as a posted tweet would be posted again.
+ *
+ * @param resolution The final status of the tweet
+ */
+export async function cleanupPendingTweet(
+    runtime: IAgentRuntime,
+    twitterUsername: string,
+    pendingTweet: PendingTweet,
+    resolution: ApprovalStatus
+): Promise<void> {
+    const { taskId } = pendingTweet;
+
+    if (
+        pendingTweet.approvalId &&
+        isDatabaseApprovalAdapter(runtime.databaseAdapter)
+    ) {
+        await runtime.databaseAdapter.updateApprovalStatus({
+            id: pendingTweet.approvalId,
+            status: resolution,
+        });
+        elizaLogger.debug(
+            `Marked approval ${pendingTweet.approvalId} as ${resolution}`
+        );
+    } else {
+        const pendingTweetsKey = getPendingTweetsKey(twitterUsername);
+        const currentPendingTweets = await getPendingTweets(
+            runtime,
+            twitterUsername
+        );
+
+        // Remove the specific tweet
+        const updatedPendingTweets = currentPendingTweets.filter(
+            (tweet) => tweet.taskId !== taskId
+        );
+
+        if (updatedPendingTweets.length === 0) {
+            await runtime.cacheManager.delete(pendingTweetsKey);
+            elizaLogger.debug(
+                "All pending tweets processed, clearing cache"
+            );
+        } else {
+            await runtime.cacheManager.set(
+                pendingTweetsKey,
+                updatedPendingTweets
+            );
+            elizaLogger.debug(
+                `Updated pending tweets cache, ${updatedPendingTweets.length} tweets remaining`
+            );
+        }
+    }
+
+    // Create a consistent room ID for tweet verification tracking
+    const roomId = stringToUuid("twitter_verification_room");
+
+    // Ensure the room exists before creating a memory
+    try {
+        await runtime.ensureRoomExists(roomId);
+        await runtime.ensureParticipantInRoom(runtime.agentId, roomId);
+
+        // Add a memory to track the resolution of this verification
+        await runtime.messageManager.createMemory({
+            id: stringToUuid(`tweet-verification-cleanup-${Date.now()}`),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            content: {
+                text: `Verification task ${taskId} processed and removed from pending queue`,
+                metadata: {
+                    taskType: "tweetVerificationCleanup",
+                    taskId: taskId,
+                    resolution,
+                    timestamp: Date.now(),
+                },
+            },
+            roomId: roomId,
+            createdAt: Date.now(),
+        });
+    } catch (roomError) {
+        // The task is still considered cleaned up even if the tracking memory can't be saved
+        elizaLogger.error(
+            "Error creating verification tracking memory:",
+            roomError
+        );
+    }
+}
+
+/**
+ * Handles pending tweets by checking their status with the approval provider,
+ * posting approved tweets and dropping rejected or expired ones. Tweets a
+ * reviewer already approved through the approval queue are posted without
+ * asking the provider, and the provider's task is withdrawn. Approved tweets
+ * that fail to post stay pending and are retried on the next check. Throws if
+ * a resolved tweet can't be taken off the pending tweets.
+ *
+ * @param postTweet Called with each approved tweet, throwing if it wasn't posted
+ * @param moderator Checks approved tweets again before they are posted, as
+ * reviewers may edit them; blocked tweets are marked rejected
+ */
+export async function handlePendingTweet(
+    runtime: IAgentRuntime,
+    twitterUsername: string,
+    provider: ApprovalProvider,
+    postTweet: (pendingTweet: PendingTweet) => Promise<unknown>,
+    moderator?: ContentModerator
+): Promise<void> {
+    elizaLogger.log(
+        `Checking pending tweets using ${provider.name} verification...`
+    );
+
+    const pendingTweets = await getPendingTweets(runtime, twitterUsername);
+
+    if (pendingTweets.length === 0) {
+        elizaLogger.log("No pending tweets to check");
+        return;
+    }
+
+    elizaLogger.log(`Found ${pendingTweets.length} pending tweets to check`);
+
+    for (const pendingTweet of pendingTweets) {
+        const approvedInQueue = pendingTweet.status === "APPROVED";
+        const isExpired =
+            !approvedInQueue &&
+            Date.now() - pendingTweet.timestamp > PENDING_TWEET_EXPIRY_MS;
+
+        if (isExpired) {
+            elizaLogger.warn(
+                `Pending tweet with task ID ${pendingTweet.taskId} expired after 24 hours`
+            );
+            await cancelProviderTask(provider, pendingTweet.taskId);
+            await cleanupPendingTweet(
+                runtime,
+                twitterUsername,
+                pendingTweet,
+                "EXPIRED"
+            );
+            continue;
+        }
+
+        let approvalStatus: PendingTweetApprovalStatus;
+        if (approvedInQueue) {
+            approvalStatus = "APPROVED";
+            await cancelProviderTask(provider, pendingTweet.taskId);
+        } else {
+            approvalStatus = await provider.checkStatus(pendingTweet.taskId);
+        }
+        elizaLogger.log(
+            `Approval status for task ${pendingTweet.taskId}: ${approvalStatus}`
+        );
+
+        if (approvalStatus === "APPROVED") {
+            elizaLogger.log(
+                `Tweet with task ID ${pendingTweet.taskId} approved, posting now...`
+            );
+
+            // The reviewer may have edited the text since it was checked
+            const moderation = await moderator?.check(
+                pendingTweet.tweetTextForPosting,
+                { direction: "outbound", source: "twitter:post" }
+            );
+            if (moderation && !moderation.allowed) {
+                await cleanupPendingTweet(
+                    runtime,
+                    twitterUsername,
+                    pendingTweet,
+                    "REJECTED"
+                );
+                continue;
+            }
+
+            try {
+                await postTweet(pendingTweet);
+                elizaLogger.success("Successfully posted verified tweet");
+            } catch (error) {
+                // Left as it is, so the tweet is posted on the next check
+                elizaLogger.error(
+                    `Error posting approved tweet with task ID ${pendingTweet.taskId}, retrying on the next check:`,
+                    error
+                );
+                continue;
+            }
+
+            await cleanupPendingTweet(
+                runtime,
+                twitterUsername,
+                pendingTweet,
+                "POSTED"
+            );
+        } else if (approvalStatus === "REJECTED") {
+            elizaLogger.warn(
+                `Tweet with task ID ${pendingTweet.taskId} rejected by ${provider.name} verification`
+            );
+            await cleanupPendingTweet(
+                runtime,
+                twitterUsername,
+                pendingTweet,
+                "REJECTED"
+            );
+        } else {
+            elizaLogger.log(
+                `Tweet with task ID ${pendingTweet.taskId} still pending verification`
+            );
+        }
+    }
+}
+
+async function cancelProviderTask(
+    provider: ApprovalProvider,
+    taskId: string
+): Promise<void> {
+    try {
+        await provider.cancel(taskId);
+    } catch (error) {
+        elizaLogger.error(`Error cancelling task ${taskId}:`, error);
+    }
+}
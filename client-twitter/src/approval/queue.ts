@@ -0,0 +1,41 @@
+import { elizaLogger, isDatabaseApprovalAdapter } from "@elizaos/core";
+import { v4 as uuidv4 } from "uuid";
+import type {
+    ApprovalProvider,
+    ApprovalProviderFactory,
+    PendingTweetApprovalStatus,
+} from "./types.ts";
+
+/**
+ * Leaves the decision entirely to reviewers working through the approval
+ * queue (e.g. the client-direct REST routes or the web client). Approvals and
+ * rejections are read from the queue, so the provider itself never decides.
+ */
+export class QueueApprovalProvider implements ApprovalProvider {
+    readonly name = "QUEUE";
+
+    async submit(): Promise<string | null> {
+        return uuidv4();
+    }
+
+    async checkStatus(): Promise<PendingTweetApprovalStatus> {
+        return "PENDING";
+    }
+
+    async cancel(taskId: string): Promise<void> {
+        elizaLogger.debug(`Approval queue task ${taskId} withdrawn`);
+    }
+}
+
+export const createQueueApprovalProvider: ApprovalProviderFactory = ({
+    runtime,
+}) => {
+    if (!isDatabaseApprovalAdapter(runtime.databaseAdapter)) {
+        elizaLogger.warn(
+            "Twitter approval is set to use the approval queue but the database adapter does not support it"
+        );
+        return null;
+    }
+
+    return new QueueApprovalProvider();
+};
@@ -0,0 +1,258 @@
+import {
+    elizaLogger,
+    type IAgentRuntime,
+    type Memory,
+    stringToUuid,
+    type UUID,
+} from "@elizaos/core";
+import { v4 as uuidv4 } from "uuid";
+import type {
+    ApprovalProvider,
+    ApprovalProviderFactory,
+    ApprovalSubmission,
+    PendingTweetApprovalStatus,
+} from "./types.ts";
+
+// What the VERIFY_GENERATION_CONTENT action answers with, the task ID either
+// on its own or in the text
+interface VerificationTaskResponse {
+    taskId?: string;
+    text?: string;
+}
+
+// What the CHECK_VERIFICATION_STATUS action answers with
+interface VerificationStatusResponse {
+    status?: unknown;
+    answer?: unknown;
+}
+
+/**
+ * Sends tweets to the Raiinmaker crowd-verification network through the
+ * VERIFY_GENERATION_CONTENT / CHECK_VERIFICATION_STATUS plugin actions.
+ */
+export class RaiinmakerApprovalProvider implements ApprovalProvider {
+    readonly name = "RAIINMAKER";
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private twitterUsername: string
+    ) {}
+
+    /**
+     * Sends a tweet for verification through the Raiinmaker system
+     *
+     * @returns The task ID of the verification task or null if creation failed
+     */
+    async submit({
+        tweetTextForPosting,
+        roomId,
+    }: ApprovalSubmission): Promise<string | null> {
+        try {
+            elizaLogger.log(
+                `Sending tweet for Raiinmaker verification: "${tweetTextForPosting.substring(0, 50)}${tweetTextForPosting.length > 50 ? "..." : ""}"`
+            );
+
+            const verificationRoomId = await this.ensureVerificationRoom(roomId);
+            if (!verificationRoomId) {
+                return null;
+            }
+
+            // Create a memory object for the action
+            let verificationResult: VerificationTaskResponse | null = null;
+            const actionMemory: Memory = {
+                id: uuidv4() as UUID,
+                userId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId: verificationRoomId,
+                content: {
+                    type: "text",
+                    text: `Verify this content: "${tweetTextForPosting}"`,
+                    action: "VERIFY_GENERATION_CONTENT",
+                    options: {
+                        content: tweetTextForPosting,
+                        name: `Tweet Verification from @${this.twitterUsername}`,
+                        consensusVotes: 3,
+                        question:
+                            "Is this content appropriate for posting on Twitter?",
+                        roomId: verificationRoomId.toString(),
+                    },
+                },
+            };
+
+            await this.runtime.processActions(
+                actionMemory,
+                [actionMemory],
+                undefined,
+                async (result) => {
+                    if (result) {
+                        verificationResult = result;
+                    }
+                    return [actionMemory];
+                }
+            );
+
+            // Extract taskId from verificationResult.text if it's not at the top level
+            let taskId: string | null = null;
+
+            if (verificationResult?.taskId) {
+                taskId = verificationResult.taskId;
+            } else if (verificationResult?.text) {
+                const taskIdMatch = verificationResult.text.match(
+                    /Task ID: ([a-f0-9-]{36})/i
+                );
+                if (taskIdMatch?.[1]) {
+                    taskId = taskIdMatch[1];
+                }
+            }
+
+            if (!taskId) {
+                elizaLogger.error(
+                    "Failed to create verification task: Invalid response from Raiinmaker plugin"
+                );
+                return null;
+            }
+
+            elizaLogger.log(
+                `Successfully created verification task with ID: ${taskId}`
+            );
+            return taskId;
+        } catch (error) {
+            elizaLogger.error(
+                "Error sending tweet for Raiinmaker verification:",
+                error
+            );
+            return null;
+        }
+    }
+
+    /**
+     * Makes sure the room the verification action runs in exists, falling
+     * back to a shared verification room if the tweet's own room can't be created.
+     */
+    private async ensureVerificationRoom(roomId: UUID): Promise<UUID | null> {
+        try {
+            await this.runtime.ensureRoomExists(roomId);
+            await this.runtime.ensureParticipantInRoom(
+                this.runtime.agentId,
+                roomId
+            );
+            return roomId;
+        } catch (roomError) {
+            elizaLogger.error(
+                "Failed to create original room for tweet verification:",
+                roomError
+            );
+        }
+
+        const fallbackRoomId = stringToUuid("twitter_verification_room");
+        try {
+            await this.runtime.ensureRoomExists(fallbackRoomId);
+            await this.runtime.ensureParticipantInRoom(
+                this.runtime.agentId,
+                fallbackRoomId
+            );
+            return fallbackRoomId;
+        } catch (fallbackError) {
+            elizaLogger.error(
+                "Failed to create fallback room for tweet verification:",
+                fallbackError
+            );
+            return null;
+        }
+    }
+
+    /**
+     * Checks the verification status of a task in the Raiinmaker system
+     */
+    async checkStatus(taskId: string): Promise<PendingTweetApprovalStatus> {
+        elizaLogger.log(`Checking verification status for task ID: ${taskId}`);
+
+        try {
+            let verificationStatus: VerificationStatusResponse | null = null;
+
+            const checkActionMemory: Memory = {
+                id: uuidv4() as UUID,
+                userId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId: stringToUuid("verification_status_check"),
+                content: {
+                    type: "text",
+                    text: `Check verification status for task: "${taskId}"`,
+                    action: "CHECK_VERIFICATION_STATUS",
+                    options: { taskId },
+                },
+            };
+
+            await this.runtime.processActions(
+                checkActionMemory,
+                [checkActionMemory],
+                undefined,
+                async (result) => {
+                    verificationStatus = result as VerificationStatusResponse;
+                    return [checkActionMemory];
+                }
+            );
+
+            if (!verificationStatus) {
+                return "PENDING";
+            }
+
+            const status =
+                typeof verificationStatus.status === "string"
+                    ? verificationStatus.status.toLowerCase()
+                    : null;
+
+            const answer =
+                typeof verificationStatus.answer === "string"
+                    ? verificationStatus.answer.toLowerCase()
+                    : null;
+
+            if (status === "completed") {
+                return answer === "true" || answer === "yes"
+                    ? "APPROVED"
+                    : "REJECTED";
+            }
+
+            return "PENDING";
+        } catch (error) {
+            if ((error as { status?: number })?.status === 404) {
+                return "REJECTED";
+            }
+            elizaLogger.error(
+                `Error checking verification status for task ${taskId}:`,
+                error
+            );
+            return "PENDING";
+        }
+    }
+
+    /**
+     * The Raiinmaker plugin has no cancel action; expired tasks simply stop being polled.
+     */
+    async cancel(taskId: string): Promise<void> {
+        elizaLogger.debug(
+            `No longer tracking Raiinmaker verification task ${taskId}`
+        );
+    }
+}
+
+export const createRaiinmakerApprovalProvider: ApprovalProviderFactory = ({
+    runtime,
+    client,
+}) => {
+    const raiinmakerEnabled = runtime.actions.some(
+        (action) => action.name === "VERIFY_GENERATION_CONTENT"
+    );
+
+    if (!raiinmakerEnabled) {
+        elizaLogger.warn(
+            "Twitter approval is set to use Raiinmaker but the plugin is not available"
+        );
+        return null;
+    }
+
+    return new RaiinmakerApprovalProvider(
+        runtime,
+        client.twitterConfig.TWITTER_USERNAME
+    );
+};
@@ -0,0 +1,52 @@
+import { elizaLogger } from "@elizaos/core";
+import { createDiscordApprovalProvider } from "./discord.ts";
+import { createQueueApprovalProvider } from "./queue.ts";
+import { createRaiinmakerApprovalProvider } from "./raiinmaker.ts";
+import type {
+    ApprovalProvider,
+    ApprovalProviderContext,
+    ApprovalProviderFactory,
+} from "./types.ts";
+
+export const DEFAULT_APPROVAL_PROVIDER = "RAIINMAKER";
+
+const approvalProviderFactories = new Map<string, ApprovalProviderFactory>();
+
+/**
+ * Registers a provider under the name used in TWITTER_APPROVAL_PROVIDER.
+ * Names are case-insensitive; registering an existing name replaces it.
+ */
+export function registerApprovalProvider(
+    name: string,
+    factory: ApprovalProviderFactory
+): void {
+    approvalProviderFactories.set(name.toUpperCase(), factory);
+}
+
+export function getRegisteredApprovalProviders(): string[] {
+    return Array.from(approvalProviderFactories.keys());
+}
+
+/**
+ * Builds the provider registered under `name`. Unknown names fall back to
+ * the default provider. Returns null if the provider is not usable.
+ */
+export function createApprovalProvider(
+    name: string,
+    context: ApprovalProviderContext
+): ApprovalProvider | null {
+    let factory = approvalProviderFactories.get(name.toUpperCase());
+
+    if (!factory) {
+        elizaLogger.warn(
+            `Unknown approval provider "${name}", defaulting to ${DEFAULT_APPROVAL_PROVIDER}`
+        );
+        factory = approvalProviderFactories.get(DEFAULT_APPROVAL_PROVIDER);
+    }
+
+    return factory ? factory(context) : null;
+}
+
+registerApprovalProvider("RAIINMAKER", createRaiinmakerApprovalProvider);
+registerApprovalProvider("DISCORD", createDiscordApprovalProvider);
+registerApprovalProvider("QUEUE", createQueueApprovalProvider);
@@ -0,0 +1,74 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import type { ClientBase } from "../base.ts";
+
+/**
+ * A generated tweet that is waiting on an approval provider before it is posted.
+ */
+export interface PendingTweet {
+    tweetTextForPosting: string;
+    roomId: UUID;
+    rawTweetContent: string;
+    taskId: string;
+    timestamp: number;
+    /** ID of the approval queue entry, when the database adapter keeps one */
+    approvalId?: UUID;
+    /** Decision recorded by a reviewer through the approval queue */
+    status?: PendingTweetApprovalStatus;
+}
+
+export type PendingTweetApprovalStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+/**
+ * The tweet handed to a provider on submission. The provider answers with
+ * the task ID it will later be asked about.
+ */
+export type ApprovalSubmission = Pick<
+    PendingTweet,
+    "tweetTextForPosting" | "roomId" | "rawTweetContent"
+>;
+
+/**
+ * Everything a provider needs to talk to the agent and the Twitter account
+ * it is approving tweets for.
+ */
+export interface ApprovalProviderContext {
+    runtime: IAgentRuntime;
+    client: ClientBase;
+}
+
+/**
+ * An external (or local) system that decides whether generated tweets may be posted.
+ */
+export interface ApprovalProvider {
+    readonly name: string;
+
+    /**
+     * Sends a tweet for approval.
+     *
+     * @returns The task ID to poll with, or null if the submission failed
+     */
+    submit(tweet: ApprovalSubmission): Promise<string | null>;
+
+    /**
+     * Returns the current decision for a previously submitted task.
+     */
+    checkStatus(taskId: string): Promise<PendingTweetApprovalStatus>;
+
+    /**
+     * Withdraws a task that will no longer be acted on (e.g. it expired).
+     */
+    cancel(taskId: string): Promise<void>;
+
+    /**
+     * Releases any connections held by the provider.
+     */
+    stop?(): Promise<void>;
+}
+
+/**
+ * Builds a provider for the given context, or returns null when the provider
+ * is not usable (missing credentials, missing plugin, ...).
+ */
+export type ApprovalProviderFactory = (
+    context: ApprovalProviderContext
+) => ApprovalProvider | null;
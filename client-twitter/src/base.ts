@@ -9,6 +9,11 @@ import {
     elizaLogger,
     stringToUuid,
     ActionTimelineType,
+    type ContentModerator,
+    createContentModerator,
+    ProcessedTweetStore,
+    registerTwitterSession,
+    TwitterSessionVault,
 } from "@elizaos/core";
 import {
     type QueryTweetsResponse,
@@ -18,6 +23,7 @@ import {
 } from "agent-twitter-client";
 import { EventEmitter } from "events";
 import type { TwitterConfig } from "./environment.ts";
+import { RequestPriority, RequestQueue } from "./requestQueue.ts";
 
 export function extractAnswer(text: string): string {
     const startIndex = text.indexOf("Answer: ") + 8;
@@ -33,56 +39,6 @@ type TwitterProfile = {
     nicknames: string[];
 };
 
-class RequestQueue {
-    private queue: (() => Promise<any>)[] = [];
-    private processing = false;
-
-    async add<T>(request: () => Promise<T>): Promise<T> {
-        return new Promise((resolve, reject) => {
-            this.queue.push(async () => {
-                try {
-                    const result = await request();
-                    resolve(result);
-                } catch (error) {
-                    reject(error);
-                }
-            });
-            this.processQueue();
-        });
-    }
-
-    private async processQueue(): Promise<void> {
-        if (this.processing || this.queue.length === 0) {
-            return;
-        }
-        this.processing = true;
-
-        while (this.queue.length > 0) {
-            const request = this.queue.shift()!;
-            try {
-                await request();
-            } catch (error) {
-                console.error("Error processing request:", error);
-                this.queue.unshift(request);
-                await this.exponentialBackoff(this.queue.length);
-            }
-            await this.randomDelay();
-        }
-
-        this.processing = false;
-    }
-
-    private async exponentialBackoff(retryCount: number): Promise<void> {
-        const delay = Math.pow(2, retryCount) * 1000;
-        await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-
-    private async randomDelay(): Promise<void> {
-        const delay = Math.floor(Math.random() * 2000) + 1500;
-        await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-}
-
 export class ClientBase extends EventEmitter {
     static _twitterClients: { [accountIdentifier: string]: Scraper } = {};
     twitterClient: Scraper;
@@ -90,10 +46,15 @@ export class ClientBase extends EventEmitter {
     twitterConfig: TwitterConfig;
     directions: string;
     lastCheckedTweetId: bigint | null = null;
+    // Tweets this agent already acted on, shared with its other Twitter clients
+    processedTweets: ProcessedTweetStore;
+    moderator: ContentModerator;
     imageDescriptionService: IImageDescriptionService;
     temperature = 0.5;
 
     requestQueue: RequestQueue = new RequestQueue();
+    // Keeps the account logged in, set up by init()
+    session: TwitterSessionVault | null = null;
 
     profile: TwitterProfile | null;
 
@@ -121,8 +82,9 @@ export class ClientBase extends EventEmitter {
             return cachedTweet;
         }
 
-        const tweet = await this.requestQueue.add(() =>
-            this.twitterClient.getTweet(tweetId)
+        const tweet = await this.requestQueue.add(
+            () => this.twitterClient.getTweet(tweetId),
+            { endpoint: "getTweet" }
         );
 
         await this.cacheTweet(tweet);
@@ -235,6 +197,8 @@ export class ClientBase extends EventEmitter {
         super();
         this.runtime = runtime;
         this.twitterConfig = twitterConfig;
+        this.processedTweets = new ProcessedTweetStore(runtime);
+        this.moderator = createContentModerator(runtime);
         const username = twitterConfig.TWITTER_USERNAME;
         if (ClientBase._twitterClients[username]) {
             this.twitterClient = ClientBase._twitterClients[username];
@@ -261,51 +225,38 @@ export class ClientBase extends EventEmitter {
             throw new Error("Twitter username not configured");
         }
 
-        const authToken = this.runtime.getSetting("TWITTER_COOKIES_AUTH_TOKEN");
-        const ct0 = this.runtime.getSetting("TWITTER_COOKIES_CT0");
-        const guestId = this.runtime.getSetting("TWITTER_COOKIES_GUEST_ID");
-
-        const createTwitterCookies = (authToken: string, ct0: string, guestId: string) => 
-        authToken && ct0 && guestId
-            ? [
-                { key: 'auth_token', value: authToken, domain: '.twitter.com' },
-                { key: 'ct0', value: ct0, domain: '.twitter.com' },
-                { key: 'guest_id', value: guestId, domain: '.twitter.com' },
-            ]
-            : null;
-
-        const cachedCookies = await this.getCachedCookies(username) || createTwitterCookies(authToken, ct0, guestId);
-
-        if (cachedCookies) {
-            elizaLogger.info("Using cached cookies");
-            await this.setCookiesFromArray(cachedCookies);
-        }
+        const authToken = this.twitterConfig.TWITTER_COOKIES_AUTH_TOKEN;
+        const ct0 = this.twitterConfig.TWITTER_COOKIES_CT0;
+        const guestId = this.twitterConfig.TWITTER_COOKIES_GUEST_ID;
+
+        this.session = new TwitterSessionVault(
+            this.runtime,
+            this.twitterClient,
+            {
+                username,
+                password,
+                email,
+                twoFactorSecret: twitter2faSecret,
+            },
+            {
+                initialCookies:
+                    authToken && ct0 && guestId
+                        ? [
+                              { key: "auth_token", value: authToken, domain: ".twitter.com" },
+                              { key: "ct0", value: ct0, domain: ".twitter.com" },
+                              { key: "guest_id", value: guestId, domain: ".twitter.com" },
+                          ]
+                        : undefined,
+            }
+        );
+        registerTwitterSession(this.runtime, this.session);
 
         elizaLogger.log("Waiting for Twitter login");
         while (retries > 0) {
             try {
-                if (await this.twitterClient.isLoggedIn()) {
-                    // cookies are valid, no login required
-                    elizaLogger.info("Successfully logged in.");
-                    break;
-                } else {
-                    await this.twitterClient.login(
-                        username,
-                        password,
-                        email,
-                        twitter2faSecret
-                    );
-                    if (await this.twitterClient.isLoggedIn()) {
-                        // fresh login, store new cookies
-                        elizaLogger.info("Successfully logged in.");
-                        elizaLogger.info("Caching cookies");
-                        await this.cacheCookies(
-                            username,
-                            await this.twitterClient.getCookies()
-                        );
-                        break;
-                    }
-                }
+                await this.session.ensureSession();
+                elizaLogger.info("Successfully logged in.");
+                break;
             } catch (error) {
                 elizaLogger.error(`Login attempt failed: ${error.message}`);
             }
@@ -315,6 +266,12 @@ export class ClientBase extends EventEmitter {
                 `Failed to login to Twitter. Retrying... (${retries} attempts left)`
             );
 
+            // The vault pauses logins before the account gets locked
+            if (this.session.getStatus().state === "THROTTLED") {
+                throw new Error(
+                    `Twitter login paused: ${this.session.getStatus().lastError ?? "too many login attempts"}`
+                );
+            }
             if (retries === 0) {
                 elizaLogger.error(
                     "Max retries reached. Exiting login process."
@@ -324,6 +281,8 @@ export class ClientBase extends EventEmitter {
 
             await new Promise((resolve) => setTimeout(resolve, 2000));
         }
+        this.session.startMonitoring();
+
         // Initialize Twitter profile
         this.profile = await this.fetchProfile(username);
 
@@ -425,7 +384,8 @@ export class ClientBase extends EventEmitter {
                                 cursor
                             ),
                             timeoutPromise,
-                        ])
+                        ]),
+                    { endpoint: "fetchSearchTweets" }
                 );
                 return (result ?? { tweets: [] }) as QueryTweetsResponse;
             } catch (error) {
@@ -677,18 +637,6 @@ export class ClientBase extends EventEmitter {
         await this.cacheMentions(mentionsAndInteractions.tweets);
     }
 
-    async setCookiesFromArray(cookiesArray: any[]) {
-        const cookieStrings = cookiesArray.map(
-            (cookie) =>
-                `${cookie.key}=${cookie.value}; Domain=${cookie.domain}; Path=${cookie.path}; ${
-                    cookie.secure ? "Secure" : ""
-                }; ${cookie.httpOnly ? "HttpOnly" : ""}; SameSite=${
-                    cookie.sameSite || "Lax"
-                }`
-        );
-        await this.twitterClient.setCookies(cookieStrings);
-    }
-
     async saveRequestMessage(message: Memory, state: State) {
         if (message.content.text) {
             const recentMessage = await this.runtime.messageManager.getMemories(
@@ -760,19 +708,6 @@ export class ClientBase extends EventEmitter {
         );
     }
 
-    async getCachedCookies(username: string) {
-        return await this.runtime.cacheManager.get<any[]>(
-            `twitter/${username}/cookies`
-        );
-    }
-
-    async cacheCookies(username: string, cookies: any[]) {
-        await this.runtime.cacheManager.set(
-            `twitter/${username}/cookies`,
-            cookies
-        );
-    }
-
     async fetchProfile(username: string): Promise<TwitterProfile> {
         try {
             const profile = await this.requestQueue.add(async () => {
@@ -791,7 +726,7 @@ export class ClientBase extends EventEmitter {
                     nicknames:
                         this.runtime.character.twitterProfile?.nicknames || [],
                 } satisfies TwitterProfile;
-            });
+            }, { priority: RequestPriority.High, endpoint: "getProfile" });
 
             return profile;
         } catch (error) {
@@ -1,9 +1,15 @@
 import { type Client, elizaLogger, type IAgentRuntime, type Plugin } from "@elizaos/core";
 import { ClientBase } from "./base.ts";
-import { validateTwitterConfig, type TwitterConfig } from "./environment.ts";
+import {
+    validateTwitterAccountConfigs,
+    type TwitterConfig,
+} from "./environment.ts";
 import { TwitterInteractionClient } from "./interactions.ts";
 import { TwitterPostClient } from "./post.ts";
+import type { RequestQueueMetrics } from "./requestQueue.ts";
+import { TwitterAccountRouter } from "./routing.ts";
 import { TwitterSearchClient } from "./search.ts";
+import type { SpaceModerationEvent } from "./spaceModeration.ts";
 import { TwitterSpaceClient } from "./spaces.ts";
 
 /**
@@ -21,7 +27,11 @@ class TwitterManager {
     interaction: TwitterInteractionClient;
     space?: TwitterSpaceClient;
 
-    constructor(runtime: IAgentRuntime, twitterConfig: TwitterConfig) {
+    constructor(
+        runtime: IAgentRuntime,
+        twitterConfig: TwitterConfig,
+        router?: TwitterAccountRouter
+    ) {
         // Pass twitterConfig to the base client
         this.client = new ClientBase(runtime, twitterConfig);
 
@@ -39,48 +49,142 @@ class TwitterManager {
         }
 
         // Mentions and interactions
-        this.interaction = new TwitterInteractionClient(this.client, runtime);
+        this.interaction = new TwitterInteractionClient(
+            this.client,
+            runtime,
+            router
+        );
 
         // Optional Spaces logic (enabled if TWITTER_SPACES_ENABLE is true)
         if (twitterConfig.TWITTER_SPACES_ENABLE) {
-            this.space = new TwitterSpaceClient(this.client, runtime);
+            this.space = new TwitterSpaceClient(
+                this.client,
+                runtime,
+                this.post
+            );
         }
     }
 
+    /**
+     * Queue depth, wait times and per-endpoint rate limits of the account's
+     * Twitter requests.
+     */
+    getRequestQueueMetrics(): RequestQueueMetrics & { username: string } {
+        return {
+            username: this.client.twitterConfig.TWITTER_USERNAME,
+            ...this.client.requestQueue.getMetrics(),
+        };
+    }
+
+    /**
+     * Moderation events of the account's Spaces, most recent first.
+     */
+    getSpaceModerationEvents(
+        limit?: number
+    ): Array<SpaceModerationEvent & { account: string }> {
+        return (this.space?.getModerationEvents(limit) ?? []).map((event) => ({
+            account: this.client.twitterConfig.TWITTER_USERNAME,
+            ...event,
+        }));
+    }
+
     async stop() {
+        this.client.session?.stop();
         elizaLogger.warn("Twitter client does not support stopping yet");
     }
 }
 
-export const TwitterClientInterface: Client = {
-    name: 'twitter',
-    async start(runtime: IAgentRuntime) {
-        const twitterConfig: TwitterConfig =
-            await validateTwitterConfig(runtime);
+/**
+ * The Twitter accounts of an agent, each run by its own manager with its own
+ * login, cookies and request queue. Mentions are routed between them when
+ * there are several.
+ */
+class TwitterAccounts {
+    managers: TwitterManager[];
+
+    constructor(runtime: IAgentRuntime, twitterConfigs: TwitterConfig[]) {
+        const router =
+            twitterConfigs.length > 1
+                ? new TwitterAccountRouter(runtime.character.twitterAccounts)
+                : undefined;
+        this.managers = twitterConfigs.map(
+            (twitterConfig) => new TwitterManager(runtime, twitterConfig, router)
+        );
+    }
 
-        elizaLogger.log("Twitter client started");
+    /**
+     * The manager of an account, by username.
+     */
+    getManager(username: string): TwitterManager | undefined {
+        return this.managers.find(
+            (manager) =>
+                manager.client.twitterConfig.TWITTER_USERNAME.toLowerCase() ===
+                username.toLowerCase()
+        );
+    }
 
-        const manager = new TwitterManager(runtime, twitterConfig);
+    /**
+     * Request queue metrics of each account.
+     */
+    getRequestQueueMetrics(): Array<RequestQueueMetrics & { username: string }> {
+        return this.managers.map((manager) => manager.getRequestQueueMetrics());
+    }
 
-        // Initialize login/session
-        await manager.client.init();
+    /**
+     * Spaces moderation events of all accounts, most recent first.
+     */
+    getSpaceModerationEvents(
+        limit?: number
+    ): Array<SpaceModerationEvent & { account: string }> {
+        return this.managers
+            .flatMap((manager) => manager.getSpaceModerationEvents(limit))
+            .sort((a, b) => b.at - a.at)
+            .slice(0, limit);
+    }
 
-        // Start the posting loop
-        await manager.post.start();
+    async start() {
+        for (const manager of this.managers) {
+            const username = manager.client.twitterConfig.TWITTER_USERNAME;
+            elizaLogger.log(`Starting Twitter account @${username}`);
 
-        // Start the search logic if it exists
-        if (manager.search) {
-            await manager.search.start();
-        }
+            // Initialize login/session
+            await manager.client.init();
 
-        // Start interactions (mentions, replies)
-        await manager.interaction.start();
+            // Start the posting loop
+            await manager.post.start();
 
-        // If Spaces are enabled, start the periodic check
-        if (manager.space) {
-            manager.space.startPeriodicSpaceCheck();
+            // Start the search logic if it exists
+            if (manager.search) {
+                await manager.search.start();
+            }
+
+            // Start interactions (mentions, replies)
+            await manager.interaction.start();
+
+            // If Spaces are enabled, start the periodic check
+            if (manager.space) {
+                manager.space.startPeriodicSpaceCheck();
+            }
+        }
+    }
+
+    async stop() {
+        for (const manager of this.managers) {
+            await manager.stop();
         }
+    }
+}
+
+export const TwitterClientInterface: Client = {
+    name: 'twitter',
+    async start(runtime: IAgentRuntime) {
+        const twitterConfigs = await validateTwitterAccountConfigs(runtime);
+
+        elizaLogger.log("Twitter client started");
+
+        const accounts = new TwitterAccounts(runtime, twitterConfigs);
+        await accounts.start();
 
-        return manager;
+        return accounts;
     },
-};
\ No newline at end of file
+};
@@ -0,0 +1,303 @@
+import {
+    cosineSimilarity,
+    detectLanguage,
+    elizaLogger,
+    embed,
+    type IAgentRuntime,
+    isSameLanguage,
+    type TwitterSearchEngagementConfig,
+} from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import type { ClientBase } from "./base.ts";
+import { RequestPriority } from "./requestQueue.ts";
+
+const HOUR = 60 * 60 * 1000;
+// Follower counts change slowly, so profiles are looked up once a day
+const FOLLOWER_COUNT_TTL = 24 * HOUR;
+// Authors with this many earlier replies get the full interaction score
+const MAX_COUNTED_INTERACTIONS = 5;
+
+export interface EngagementScores {
+    recency: number;
+    similarity: number;
+    interactions: number;
+}
+
+export interface EngagementCandidate {
+    tweet: Tweet;
+    /** Weighted sum of the scores */
+    score: number;
+    scores: EngagementScores;
+}
+
+interface AuthorEngagement {
+    replies: number;
+    lastRepliedAt: number;
+}
+
+function getAuthorKey(authorId: string): string {
+    return `twitter/search/authors/${authorId}`;
+}
+
+function getFollowerCountKey(username: string): string {
+    return `twitter/search/followers/${username.toLowerCase()}`;
+}
+
+// Codes Twitter tags tweets with when it can't tell their language
+const UNDETERMINED_LANGUAGES = new Set(["und", "zxx", "qam", "qct", "qht", "qme", "qst"]);
+
+/**
+ * The language Twitter tagged a tweet with, or else the one guessed from its
+ * text with `detectLanguage`.
+ *
+ * @returns An ISO 639 code, or null when neither tells
+ */
+export function getTweetLanguage(tweet: Tweet): string | null {
+    // Parsed from the tweet's `lang` in base.ts
+    const tagged = (tweet as Tweet & { language?: string }).language?.toLowerCase();
+    if (tagged && !UNDETERMINED_LANGUAGES.has(tagged)) {
+        return tagged;
+    }
+    return detectLanguage(tweet.text ?? "")?.language ?? null;
+}
+
+/**
+ * Picks the tweets the search client replies to, following the character's
+ * `twitterSearch` config. Saved queries run in turn; the tweets they find are
+ * filtered by author, language and age, then scored by recency, similarity to
+ * the query and the character's topics, and earlier replies to the author.
+ *
+ * Replies per author are kept in the runtime cache, so cooldowns survive
+ * restarts.
+ */
+export class SearchEngagementEngine {
+    private nextQueryIndex = 0;
+    // Embeddings of the query and topics, by query
+    private topicEmbeddings = new Map<string, number[]>();
+
+    constructor(
+        private client: ClientBase,
+        private runtime: IAgentRuntime,
+        private config: TwitterSearchEngagementConfig = runtime.character
+            .twitterSearch ?? {}
+    ) {}
+
+    get queries(): string[] {
+        return this.config.queries?.length
+            ? this.config.queries
+            : (this.runtime.character.topics ?? []);
+    }
+
+    /**
+     * Returns the saved queries in turn, undefined when there are none.
+     */
+    nextQuery(): string | undefined {
+        const queries = this.queries;
+        if (queries.length === 0) {
+            return undefined;
+        }
+        const query = queries[this.nextQueryIndex % queries.length];
+        this.nextQueryIndex++;
+        return query;
+    }
+
+    /**
+     * Filters the tweets found for a query and returns the best-scored ones,
+     * best first.
+     */
+    async findCandidates(
+        query: string,
+        tweets: Tweet[],
+        now = Date.now()
+    ): Promise<EngagementCandidate[]> {
+        const candidates: EngagementCandidate[] = [];
+        for (const tweet of tweets) {
+            const skipReason = await this.getSkipReason(tweet, now);
+            if (skipReason) {
+                elizaLogger.debug(
+                    `[Search] Skipping tweet ${tweet.id} by @${tweet.username}: ${skipReason}`
+                );
+                continue;
+            }
+            candidates.push(await this.score(query, tweet, now));
+        }
+
+        return candidates
+            .sort((a, b) => b.score - a.score)
+            .slice(0, this.config.maxCandidates ?? 5);
+    }
+
+    /**
+     * Records a reply to the tweet's author, starting its cooldown.
+     */
+    async recordReply(tweet: Tweet, now = Date.now()): Promise<void> {
+        const authorId = tweet.userId ?? tweet.username;
+        if (!authorId) {
+            return;
+        }
+        const previous = await this.getAuthorEngagement(authorId);
+        await this.runtime.cacheManager.set<AuthorEngagement>(
+            getAuthorKey(authorId),
+            { replies: (previous?.replies ?? 0) + 1, lastRepliedAt: now }
+        );
+    }
+
+    private async getSkipReason(
+        tweet: Tweet,
+        now: number
+    ): Promise<string | null> {
+        const ownUsername = this.client.twitterConfig.TWITTER_USERNAME;
+
+        if (!tweet.id || !tweet.text) {
+            return "no text";
+        }
+        if (tweet.username === ownUsername) {
+            return "own tweet";
+        }
+        if (tweet.isRetweet) {
+            return "retweet";
+        }
+        if (tweet.thread?.some((t) => t.username === ownUsername)) {
+            return "already in the thread";
+        }
+        if (await this.client.processedTweets.has(tweet.id, "REPLIED")) {
+            return "already replied";
+        }
+
+        const maxAge = (this.config.maxAgeHours ?? 24) * HOUR;
+        if (tweet.timestamp && now - tweet.timestamp * 1000 > maxAge) {
+            return "too old";
+        }
+
+        // Tweets without a recognizable language are left to the model
+        const language = getTweetLanguage(tweet);
+        const languages = this.config.languages ?? ["en"];
+        if (
+            language &&
+            !languages.some((code) => isSameLanguage(code, language))
+        ) {
+            return `written in ${language}`;
+        }
+
+        const authorId = tweet.userId ?? tweet.username;
+        const engagement = authorId
+            ? await this.getAuthorEngagement(authorId)
+            : undefined;
+        const cooldown = (this.config.authorCooldownHours ?? 24) * HOUR;
+        if (engagement && now - engagement.lastRepliedAt < cooldown) {
+            return "author replied to recently";
+        }
+
+        const { minFollowers, maxFollowers } = this.config;
+        if (
+            tweet.username &&
+            (minFollowers !== undefined || maxFollowers !== undefined)
+        ) {
+            const followers = await this.getFollowerCount(tweet.username, now);
+            if (
+                followers !== null &&
+                (followers < (minFollowers ?? 0) ||
+                    followers > (maxFollowers ?? Number.POSITIVE_INFINITY))
+            ) {
+                return `${followers} followers`;
+            }
+        }
+
+        return null;
+    }
+
+    private async score(
+        query: string,
+        tweet: Tweet,
+        now: number
+    ): Promise<EngagementCandidate> {
+        const maxAge = (this.config.maxAgeHours ?? 24) * HOUR;
+        const age = tweet.timestamp ? now - tweet.timestamp * 1000 : maxAge;
+        const authorId = tweet.userId ?? tweet.username;
+        const engagement = authorId
+            ? await this.getAuthorEngagement(authorId)
+            : undefined;
+
+        const scores: EngagementScores = {
+            recency: Math.max(0, 1 - age / maxAge),
+            similarity: await this.getTopicSimilarity(query, tweet.text ?? ""),
+            interactions:
+                Math.min(engagement?.replies ?? 0, MAX_COUNTED_INTERACTIONS) /
+                MAX_COUNTED_INTERACTIONS,
+        };
+
+        const weights = this.config.weights ?? {};
+        const score =
+            (weights.recency ?? 1) * scores.recency +
+            (weights.similarity ?? 2) * scores.similarity +
+            (weights.interactions ?? 0.5) * scores.interactions;
+
+        return { tweet, score, scores };
+    }
+
+    /**
+     * Similarity of a tweet to the query and the character's topics, 0 when
+     * embedding fails.
+     */
+    private async getTopicSimilarity(
+        query: string,
+        text: string
+    ): Promise<number> {
+        try {
+            let topicEmbedding = this.topicEmbeddings.get(query);
+            if (!topicEmbedding) {
+                const topics = [query, ...(this.runtime.character.topics ?? [])];
+                topicEmbedding = await embed(this.runtime, topics.join(", "));
+                this.topicEmbeddings.set(query, topicEmbedding);
+            }
+            const tweetEmbedding = await embed(this.runtime, text);
+            return Math.max(0, cosineSimilarity(topicEmbedding, tweetEmbedding));
+        } catch (error) {
+            elizaLogger.warn(
+                `[Search] Could not compare tweet with topics: ${error.message}`
+            );
+            return 0;
+        }
+    }
+
+    private async getAuthorEngagement(
+        authorId: string
+    ): Promise<AuthorEngagement | undefined> {
+        return this.runtime.cacheManager.get<AuthorEngagement>(
+            getAuthorKey(authorId)
+        );
+    }
+
+    /**
+     * Follower count of an author, null when the profile cannot be fetched.
+     */
+    private async getFollowerCount(
+        username: string,
+        now: number
+    ): Promise<number | null> {
+        const key = getFollowerCountKey(username);
+        const cached = await this.runtime.cacheManager.get<number>(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        try {
+            const profile = await this.client.requestQueue.add(
+                () => this.client.twitterClient.getProfile(username),
+                { priority: RequestPriority.Low, endpoint: "getProfile" }
+            );
+            const followers = profile.followersCount ?? null;
+            if (followers !== null) {
+                await this.runtime.cacheManager.set(key, followers, {
+                    expires: now + FOLLOWER_COUNT_TTL,
+                });
+            }
+            return followers;
+        } catch (error) {
+            elizaLogger.warn(
+                `[Search] Could not fetch the profile of @${username}: ${error.message}`
+            );
+            return null;
+        }
+    }
+}
@@ -2,6 +2,7 @@ import {
     parseBooleanFromText,
     type IAgentRuntime,
     ActionTimelineType,
+    type TwitterAccountConfig,
 } from "@elizaos/core";
 import { z, ZodError } from "zod";
 
@@ -73,9 +74,17 @@ export const twitterEnvSchema = z.object({
     POST_IMMEDIATELY: z.boolean(),
     TWITTER_SPACES_ENABLE: z.boolean().default(false),
     MAX_ACTIONS_PROCESSING: z.number().int(),
+    TWITTER_ACTION_MIN_CONFIDENCE: z.number().min(0).max(1).default(0.8),
+    TWITTER_DAILY_LIKE_LIMIT: z.number().int().default(100),
+    TWITTER_DAILY_RETWEET_LIMIT: z.number().int().default(20),
+    TWITTER_DAILY_QUOTE_LIMIT: z.number().int().default(10),
+    TWITTER_DAILY_REPLY_LIMIT: z.number().int().default(30),
     ACTION_TIMELINE_TYPE: z
         .nativeEnum(ActionTimelineType)
         .default(ActionTimelineType.ForYou),
+    TWITTER_COOKIES_AUTH_TOKEN: z.string().optional(),
+    TWITTER_COOKIES_CT0: z.string().optional(),
+    TWITTER_COOKIES_GUEST_ID: z.string().optional(),
 });
 
 export type TwitterConfig = z.infer<typeof twitterEnvSchema>;
@@ -103,9 +112,65 @@ function safeParseInt(
     return isNaN(parsed) ? defaultValue : Math.max(1, parsed);
 }
 
+function safeParseFloat(
+    value: string | undefined | null,
+    defaultValue: number
+): number {
+    if (!value) return defaultValue;
+    const parsed = Number.parseFloat(value);
+    return Number.isNaN(parsed) ? defaultValue : parsed;
+}
+
+// Settings identifying an account, which are not shared between accounts
+const ACCOUNT_SETTINGS = new Set([
+    "TWITTER_PASSWORD",
+    "TWITTER_EMAIL",
+    "TWITTER_2FA_SECRET",
+    "TWITTER_COOKIES_AUTH_TOKEN",
+    "TWITTER_COOKIES_CT0",
+    "TWITTER_COOKIES_GUEST_ID",
+]);
+
+/**
+ * Reads a Twitter setting of an account: from its config block, then the
+ * agent's `<KEY>_<USERNAME>` setting, then the shared setting. Without an
+ * account, only the shared setting is read.
+ */
+function getTwitterSetting(
+    runtime: IAgentRuntime,
+    key: string,
+    account?: TwitterAccountConfig
+): string | undefined {
+    const shared = runtime.getSetting(key) || process.env[key];
+    if (!account) {
+        return shared;
+    }
+    if (key === "TWITTER_USERNAME") {
+        return account.username;
+    }
+
+    const suffixed = `${key}_${account.username.toUpperCase()}`;
+    const own =
+        account.settings?.[key] ||
+        runtime.getSetting(suffixed) ||
+        process.env[suffixed];
+    if (own) {
+        return own;
+    }
+
+    // Credentials of the shared setting only belong to the account it names
+    const sharedUsername =
+        runtime.getSetting("TWITTER_USERNAME") || process.env.TWITTER_USERNAME;
+    return ACCOUNT_SETTINGS.has(key) &&
+        sharedUsername?.toLowerCase() !== account.username.toLowerCase()
+        ? undefined
+        : shared;
+}
+
 /**
  * Validates or constructs a TwitterConfig object using zod,
  * taking values from the IAgentRuntime or process.env as needed.
+ * With an account, its own settings come first.
  */
 // This also is organized to serve as a point of documentation for the client
 // most of the inputs from the framework (env/character)
@@ -113,125 +178,121 @@ function safeParseInt(
 // we also do a lot of typing/parsing here
 // so we can do it once and only once per character
 export async function validateTwitterConfig(
-    runtime: IAgentRuntime
+    runtime: IAgentRuntime,
+    account?: TwitterAccountConfig
 ): Promise<TwitterConfig> {
+    const getSetting = (key: string) =>
+        getTwitterSetting(runtime, key, account);
+
     try {
         const twitterConfig = {
             TWITTER_DRY_RUN:
-                parseBooleanFromText(
-                    runtime.getSetting("TWITTER_DRY_RUN") ||
-                        process.env.TWITTER_DRY_RUN
-                ) ?? false, // parseBooleanFromText return null if "", map "" to false
+                parseBooleanFromText(getSetting("TWITTER_DRY_RUN")) ?? false, // parseBooleanFromText return null if "", map "" to false
 
-            TWITTER_USERNAME:
-                runtime.getSetting("TWITTER_USERNAME") ||
-                process.env.TWITTER_USERNAME,
+            TWITTER_USERNAME: getSetting("TWITTER_USERNAME"),
 
-            TWITTER_PASSWORD:
-                runtime.getSetting("TWITTER_PASSWORD") ||
-                process.env.TWITTER_PASSWORD,
+            TWITTER_PASSWORD: getSetting("TWITTER_PASSWORD"),
 
-            TWITTER_EMAIL:
-                runtime.getSetting("TWITTER_EMAIL") ||
-                process.env.TWITTER_EMAIL,
+            TWITTER_EMAIL: getSetting("TWITTER_EMAIL"),
 
             // number as string?
             MAX_TWEET_LENGTH: safeParseInt(
-                runtime.getSetting("MAX_TWEET_LENGTH") ||
-                    process.env.MAX_TWEET_LENGTH,
+                getSetting("MAX_TWEET_LENGTH"),
                 DEFAULT_MAX_TWEET_LENGTH
             ),
 
             TWITTER_SEARCH_ENABLE:
-                parseBooleanFromText(
-                    runtime.getSetting("TWITTER_SEARCH_ENABLE") ||
-                        process.env.TWITTER_SEARCH_ENABLE
-                ) ?? false,
+                parseBooleanFromText(getSetting("TWITTER_SEARCH_ENABLE")) ?? false,
 
             // string passthru
-            TWITTER_2FA_SECRET:
-                runtime.getSetting("TWITTER_2FA_SECRET") ||
-                process.env.TWITTER_2FA_SECRET ||
-                "",
+            TWITTER_2FA_SECRET: getSetting("TWITTER_2FA_SECRET") || "",
 
             // int
             TWITTER_RETRY_LIMIT: safeParseInt(
-                runtime.getSetting("TWITTER_RETRY_LIMIT") ||
-                    process.env.TWITTER_RETRY_LIMIT,
+                getSetting("TWITTER_RETRY_LIMIT"),
                 5
             ),
 
             // int in seconds
             TWITTER_POLL_INTERVAL: safeParseInt(
-                runtime.getSetting("TWITTER_POLL_INTERVAL") ||
-                    process.env.TWITTER_POLL_INTERVAL,
+                getSetting("TWITTER_POLL_INTERVAL"),
                 120 // 2m
             ),
 
             // comma separated string
             TWITTER_TARGET_USERS: parseTargetUsers(
-                runtime.getSetting("TWITTER_TARGET_USERS") ||
-                    process.env.TWITTER_TARGET_USERS
+                getSetting("TWITTER_TARGET_USERS")
             ),
 
             // bool
             ENABLE_TWITTER_POST_GENERATION:
-                parseBooleanFromText(
-                    runtime.getSetting("ENABLE_TWITTER_POST_GENERATION") ||
-                        process.env.ENABLE_TWITTER_POST_GENERATION
-                ) ?? true,
+                parseBooleanFromText(getSetting("ENABLE_TWITTER_POST_GENERATION")) ?? true,
 
 
             // int in minutes
             POST_INTERVAL_MIN: safeParseInt(
-                runtime.getSetting("POST_INTERVAL_MIN") ||
-                    process.env.POST_INTERVAL_MIN,
+                getSetting("POST_INTERVAL_MIN"),
                 90 // 1.5 hours
             ),
 
             // int in minutes
             POST_INTERVAL_MAX: safeParseInt(
-                runtime.getSetting("POST_INTERVAL_MAX") ||
-                    process.env.POST_INTERVAL_MAX,
+                getSetting("POST_INTERVAL_MAX"),
                 180 // 3 hours
             ),
 
             // bool
             ENABLE_ACTION_PROCESSING:
-                parseBooleanFromText(
-                    runtime.getSetting("ENABLE_ACTION_PROCESSING") ||
-                        process.env.ENABLE_ACTION_PROCESSING
-                ) ?? false,
+                parseBooleanFromText(getSetting("ENABLE_ACTION_PROCESSING")) ?? false,
 
             // init in minutes (min 1m)
             ACTION_INTERVAL: safeParseInt(
-                runtime.getSetting("ACTION_INTERVAL") ||
-                    process.env.ACTION_INTERVAL,
+                getSetting("ACTION_INTERVAL"),
                 5 // 5 minutes
             ),
 
             // bool
             POST_IMMEDIATELY:
-                parseBooleanFromText(
-                    runtime.getSetting("POST_IMMEDIATELY") ||
-                        process.env.POST_IMMEDIATELY
-                ) ?? false,
+                parseBooleanFromText(getSetting("POST_IMMEDIATELY")) ?? false,
 
             TWITTER_SPACES_ENABLE:
-                parseBooleanFromText(
-                    runtime.getSetting("TWITTER_SPACES_ENABLE") ||
-                        process.env.TWITTER_SPACES_ENABLE
-                ) ?? false,
+                parseBooleanFromText(getSetting("TWITTER_SPACES_ENABLE")) ?? false,
 
             MAX_ACTIONS_PROCESSING: safeParseInt(
-                runtime.getSetting("MAX_ACTIONS_PROCESSING") ||
-                    process.env.MAX_ACTIONS_PROCESSING,
+                getSetting("MAX_ACTIONS_PROCESSING"),
                 1
             ),
 
-            ACTION_TIMELINE_TYPE:
-                runtime.getSetting("ACTION_TIMELINE_TYPE") ||
-                process.env.ACTION_TIMELINE_TYPE,
+            // confidence from 0 to 1 a timeline action needs to be taken
+            TWITTER_ACTION_MIN_CONFIDENCE: safeParseFloat(
+                getSetting("TWITTER_ACTION_MIN_CONFIDENCE"),
+                0.8
+            ),
+
+            // timeline actions taken per 24 hours
+            TWITTER_DAILY_LIKE_LIMIT: safeParseInt(
+                getSetting("TWITTER_DAILY_LIKE_LIMIT"),
+                100
+            ),
+            TWITTER_DAILY_RETWEET_LIMIT: safeParseInt(
+                getSetting("TWITTER_DAILY_RETWEET_LIMIT"),
+                20
+            ),
+            TWITTER_DAILY_QUOTE_LIMIT: safeParseInt(
+                getSetting("TWITTER_DAILY_QUOTE_LIMIT"),
+                10
+            ),
+            TWITTER_DAILY_REPLY_LIMIT: safeParseInt(
+                getSetting("TWITTER_DAILY_REPLY_LIMIT"),
+                30
+            ),
+
+            ACTION_TIMELINE_TYPE: getSetting("ACTION_TIMELINE_TYPE"),
+
+            // cookies of a logged in session, used instead of logging in
+            TWITTER_COOKIES_AUTH_TOKEN: getSetting("TWITTER_COOKIES_AUTH_TOKEN"),
+            TWITTER_COOKIES_CT0: getSetting("TWITTER_COOKIES_CT0"),
+            TWITTER_COOKIES_GUEST_ID: getSetting("TWITTER_COOKIES_GUEST_ID"),
         };
 
         return twitterEnvSchema.parse(twitterConfig);
@@ -241,9 +302,34 @@ export async function validateTwitterConfig(
                 .map((err) => `${err.path.join(".")}: ${err.message}`)
                 .join("\n");
             throw new Error(
-                `X/Twitter configuration validation failed:\n${errorMessages}`
+                `X/Twitter configuration${account ? ` of @${account.username}` : ""} validation failed:\n${errorMessages}`
             );
         }
         throw error;
     }
 }
+
+/**
+ * Validates the config of each Twitter account of the agent: those in the
+ * character's `twitterAccounts`, or else the one in TWITTER_USERNAME.
+ */
+export async function validateTwitterAccountConfigs(
+    runtime: IAgentRuntime
+): Promise<TwitterConfig[]> {
+    const accounts = runtime.character.twitterAccounts ?? [];
+    if (accounts.length === 0) {
+        return [await validateTwitterConfig(runtime)];
+    }
+
+    const usernames = new Set<string>();
+    for (const { username } of accounts) {
+        if (usernames.has(username.toLowerCase())) {
+            throw new Error(`X/Twitter account @${username} is configured twice`);
+        }
+        usernames.add(username.toLowerCase());
+    }
+
+    return Promise.all(
+        accounts.map((account) => validateTwitterConfig(runtime, account))
+    );
+}
@@ -1,5 +1,49 @@
 import { TwitterClientInterface } from "./client";
 
+export {
+    registerApprovalProvider,
+    type ApprovalProvider,
+    type ApprovalProviderContext,
+    type ApprovalProviderFactory,
+    type PendingTweet,
+    type PendingTweetApprovalStatus,
+} from "./approval/index.ts";
+export {
+    RequestPriority,
+    RequestQueue,
+    type EndpointLimit,
+    type EndpointMetrics,
+    type RequestOptions,
+    type RequestQueueMetrics,
+    type RequestQueueOptions,
+} from "./requestQueue.ts";
+export {
+    decodeWav,
+    ElevenLabsSpeechSynthesizer,
+    encodeWav,
+    PiperSpeechSynthesizer,
+    TranscriptionServiceRecognizer,
+    type ElevenLabsSpeechOptions,
+    type PiperSpeechOptions,
+    type SpeechRecognizer,
+    type SpeechSynthesizer,
+} from "./plugins/speech.ts";
+export type {
+    SpaceModerationAction,
+    SpaceModerationEvent,
+} from "./spaceModeration.ts";
+export {
+    ScriptedSpeechRecognizer,
+    SimulatedScraper,
+    SimulatedSpaceAudio,
+    SimulatedTwitter,
+    ToneSpeechSynthesizer,
+    TwitterScenario,
+    type ScenarioTweetOptions,
+    type SimulatedAccount,
+    type SimulatedTweet,
+} from "./simulator/index.ts";
+
 const twitterPlugin = {
     name: "twitter",
     description: "Twitter client",
@@ -15,9 +15,13 @@ import {
     elizaLogger,
     getEmbeddingZeroVector,
     type IImageDescriptionService,
-    ServiceType
+    ServiceType,
+    ScriptureLibrary,
+    formatReplyLanguage,
+    getReplyLanguage,
 } from "@elizaos/core";
 import type { ClientBase } from "./base.ts";
+import type { TwitterAccountRouter } from "./routing.ts";
 import { buildConversationThread, sendTweet, wait } from "./utils.ts";
 
 export const twitterMessageHandlerTemplate =
@@ -51,7 +55,9 @@ Here is the descriptions of images in the Current post.
 Thread of Tweets You Are Replying To:
 {{formattedConversation}}
 
-# INSTRUCTIONS: Generate a post in the voice, style and perspective of {{agentName}} (@{{twitterUserName}}). You MUST include an action if the current post text includes a prompt that is similar to one of the available actions mentioned here:
+{{scriptureVerses}}
+
+# INSTRUCTIONS: Generate a post in the voice, style and perspective of {{agentName}} (@{{twitterUserName}}). {{replyLanguage}} You MUST include an action if the current post text includes a prompt that is similar to one of the available actions mentioned here:
 {{actionNames}}
 {{actions}}
 
@@ -97,10 +103,17 @@ export class TwitterInteractionClient {
     client: ClientBase;
     runtime: IAgentRuntime;
     private isDryRun: boolean;
-    constructor(client: ClientBase, runtime: IAgentRuntime) {
+    constructor(
+        client: ClientBase,
+        runtime: IAgentRuntime,
+        private router?: TwitterAccountRouter
+    ) {
         this.client = client;
         this.runtime = runtime;
         this.isDryRun = this.client.twitterConfig.TWITTER_DRY_RUN;
+        router?.register(this.client.twitterConfig.TWITTER_USERNAME, (tweet) =>
+            this.processTweet(tweet)
+        );
     }
 
     async start() {
@@ -235,62 +248,9 @@ export class TwitterInteractionClient {
                     !this.client.lastCheckedTweetId ||
                     BigInt(tweet.id) > this.client.lastCheckedTweetId
                 ) {
-                    // Generate the tweetId UUID the same way it's done in handleTweet
-                    const tweetId = stringToUuid(
-                        tweet.id + "-" + this.runtime.agentId
-                    );
-
-                    // Check if we've already processed this tweet
-                    const existingResponse =
-                        await this.runtime.messageManager.getMemoryById(
-                            tweetId
-                        );
-
-                    if (existingResponse) {
-                        elizaLogger.log(
-                            `Already responded to tweet ${tweet.id}, skipping`
-                        );
-                        continue;
+                    if (!(await this.handOverRoutedTweet(tweet))) {
+                        await this.processTweet(tweet);
                     }
-                    elizaLogger.log("New Tweet found", tweet.permanentUrl);
-
-                    const roomId = stringToUuid(
-                        tweet.conversationId + "-" + this.runtime.agentId
-                    );
-
-                    const userIdUUID =
-                        tweet.userId === this.client.profile.id
-                            ? this.runtime.agentId
-                            : stringToUuid(tweet.userId!);
-
-                    await this.runtime.ensureConnection(
-                        userIdUUID,
-                        roomId,
-                        tweet.username,
-                        tweet.name,
-                        "twitter"
-                    );
-
-                    const thread = await buildConversationThread(
-                        tweet,
-                        this.client
-                    );
-
-                    const message = {
-                        content: { 
-                            text: tweet.text,
-                            imageUrls: tweet.photos?.map(photo => photo.url) || []
-                        },
-                        agentId: this.runtime.agentId,
-                        userId: userIdUUID,
-                        roomId,
-                    };
-
-                    await this.handleTweet({
-                        tweet,
-                        message,
-                        thread,
-                    });
 
                     // Update the last checked tweet ID after processing each tweet
                     this.client.lastCheckedTweetId = BigInt(tweet.id);
@@ -306,6 +266,130 @@ export class TwitterInteractionClient {
         }
     }
 
+    /**
+     * Replies to a tweet unless this agent already handled it, marking it
+     * processed first for the agent's other clients and accounts.
+     */
+    private async processTweet(tweet: Tweet): Promise<void> {
+        // Generate the tweetId UUID the same way it's done in handleTweet
+        const tweetId = stringToUuid(tweet.id + "-" + this.runtime.agentId);
+
+        // Check if we've already processed this tweet
+        const existingResponse =
+            await this.runtime.messageManager.getMemoryById(tweetId);
+
+        if (existingResponse) {
+            elizaLogger.log(
+                `Already responded to tweet ${tweet.id}, skipping`
+            );
+            return;
+        }
+
+        // Another Twitter client or account of this agent may be handling
+        // it, so it is claimed before replying
+        if (
+            (await this.client.processedTweets.has(tweet.id, "REPLIED")) ||
+            !(await this.client.processedTweets.mark(tweet.id, "PROCESSED"))
+        ) {
+            elizaLogger.log(
+                `Tweet ${tweet.id} already processed, skipping`
+            );
+            return;
+        }
+        elizaLogger.log("New Tweet found", tweet.permanentUrl);
+
+        try {
+            await this.replyToTweet(tweet);
+        } catch (error) {
+            elizaLogger.error(`Error replying to tweet ${tweet.id}:`, error);
+            // Released for the agent's other clients and accounts to retry
+            await this.client.processedTweets.unmark(tweet.id, "PROCESSED");
+        }
+    }
+
+    private async replyToTweet(tweet: Tweet): Promise<void> {
+        const roomId = stringToUuid(
+            tweet.conversationId + "-" + this.runtime.agentId
+        );
+
+        const userIdUUID =
+            tweet.userId === this.client.profile.id
+                ? this.runtime.agentId
+                : stringToUuid(tweet.userId!);
+
+        await this.runtime.ensureConnection(
+            userIdUUID,
+            roomId,
+            tweet.username,
+            tweet.name,
+            "twitter"
+        );
+
+        const thread = await buildConversationThread(
+            tweet,
+            this.client
+        );
+
+        const message = {
+            content: { 
+                text: tweet.text,
+                imageUrls: tweet.photos?.map(photo => photo.url) || []
+            },
+            agentId: this.runtime.agentId,
+            userId: userIdUUID,
+            roomId,
+        };
+
+        await this.handleTweet({
+            tweet,
+            message,
+            thread,
+        });
+    }
+
+    /**
+     * Hands the tweet over to the account it is routed to, when the agent
+     * runs several accounts and that is another one. Tweets by the agent's
+     * other accounts are dropped. Tweets that can't be handed over are left
+     * to this account.
+     *
+     * @returns Whether this account should leave the tweet alone
+     */
+    private async handOverRoutedTweet(tweet: Tweet): Promise<boolean> {
+        if (!this.router) {
+            return false;
+        }
+        if (
+            tweet.userId !== this.client.profile.id &&
+            this.router.isOwnAccount(tweet.username)
+        ) {
+            elizaLogger.log(
+                `Tweet ${tweet.id} is by the agent's account @${tweet.username}, skipping`
+            );
+            return true;
+        }
+
+        const account = this.router.route(tweet);
+        if (
+            !account ||
+            account.toLowerCase() === this.client.profile.username.toLowerCase()
+        ) {
+            return false;
+        }
+
+        elizaLogger.log(`Tweet ${tweet.id} is routed to @${account}`);
+        try {
+            await this.router.handOver(account, tweet);
+        } catch (error) {
+            elizaLogger.error(
+                `Error handing tweet ${tweet.id} over to @${account}, handling it here:`,
+                error
+            );
+            return false;
+        }
+        return true;
+    }
+
     private async handleTweet({
         tweet,
         message,
@@ -326,6 +410,23 @@ export class TwitterInteractionClient {
             return { text: "", action: "IGNORE" };
         }
 
+        const moderation = await this.client.moderator.check(tweet.text, {
+            direction: "inbound",
+            source: `twitter:mention:${tweet.id}`,
+        });
+        if (!moderation.allowed) {
+            return { text: "", action: "IGNORE" };
+        }
+
+        const replyLanguage = getReplyLanguage(this.runtime, tweet.text);
+        if (!replyLanguage) {
+            elizaLogger.log(
+                "Skipping Tweet in a language the agent doesn't reply in",
+                tweet.id
+            );
+            return { text: "", action: "IGNORE" };
+        }
+
         elizaLogger.log("Processing Tweet: ", tweet.id);
         const formatTweet = (tweet: Tweet) => {
             return `  ID: ${tweet.id}
@@ -363,7 +464,10 @@ export class TwitterInteractionClient {
     elizaLogger.error("Error Occured during describing image: ", error);
 }
 
-
+        // Verses of a translation in the reply's language, to quote from
+        const scriptureVerses = await new ScriptureLibrary(
+            this.runtime
+        ).search(tweet.text, { language: replyLanguage.language });
 
 
         let state = await this.runtime.composeState(message, {
@@ -371,6 +475,11 @@ export class TwitterInteractionClient {
             twitterUserName: this.client.twitterConfig.TWITTER_USERNAME,
             currentPost,
             formattedConversation,
+            replyLanguage: formatReplyLanguage(replyLanguage),
+            scriptureVerses:
+                scriptureVerses.length > 0
+                    ? `# Verses you may quote, word for word:\n${scriptureVerses.join("\n")}`
+                    : "",
             imageDescriptions: imageDescriptionsArray.length > 0
             ? `\nImages in Tweet:\n${imageDescriptionsArray.map((desc, i) =>
               `Image ${i + 1}: Title: ${desc.title}\nDescription: ${desc.description}`).join("\n\n")}`:""
@@ -537,6 +646,14 @@ export class TwitterInteractionClient {
                     responseMessages[responseMessages.length - 1]?.content
                         ?.tweetId;
 
+                    if (!shouldSuppressInitialMessage) {
+                        await this.client.processedTweets.mark(
+                            tweet.id,
+                            "REPLIED",
+                            responseTweetId as string | undefined
+                        );
+                    }
+
                     await this.runtime.processActions(
                         message,
                         responseMessages,
@@ -555,6 +672,7 @@ export class TwitterInteractionClient {
                     await wait();
                 } catch (error) {
                     elizaLogger.error(`Error sending response tweet: ${error}`);
+                    throw error;
                 }
             }
         }
@@ -1,6 +1,5 @@
 // src/plugins/SttTtsPlugin.ts
 
-import { spawn } from "child_process";
 import {
     type ITranscriptionService,
     elizaLogger,
@@ -15,6 +14,7 @@ import {
     type Plugin,
     type UUID,
     type State,
+    type TwitterSpaceTurnTakingOptions,
     composeRandomUser,
     generateShouldRespond,
 } from "@elizaos/core";
@@ -28,36 +28,65 @@ import {
     twitterVoiceHandlerTemplate,
     twitterShouldRespondTemplate,
 } from "./templates";
-
-interface PluginConfig {
+import {
+    ElevenLabsSpeechSynthesizer,
+    JANUS_SAMPLE_RATE,
+    resamplePcm,
+    type SpeechRecognizer,
+    type SpeechSynthesizer,
+    TranscriptionServiceRecognizer,
+} from "./speech";
+import { TurnTakingController, type Utterance } from "./turnTaking";
+
+export interface PluginConfig {
     runtime: IAgentRuntime;
     client: ClientBase;
     spaceId: string;
+    synthesizer?: SpeechSynthesizer; // TTS engine, ElevenLabs with elevenLabsApiKey if not given
+    recognizer?: SpeechRecognizer; // STT engine, the transcriptionService if not given
     elevenLabsApiKey?: string; // for TTS
     sttLanguage?: string; // e.g. "en" for Whisper
-    silenceThreshold?: number; // amplitude threshold for ignoring silence
+    turnTaking?: TwitterSpaceTurnTakingOptions; // VAD, barge-in, talk time and fairness
     voiceId?: string; // specify which ElevenLabs voice to use
     elevenLabsModel?: string; // e.g. "eleven_monolingual_v1"
     chatContext?: Array<{
         role: "system" | "user" | "assistant";
         content: string;
     }>;
-    transcriptionService: ITranscriptionService;
+    transcriptionService?: ITranscriptionService;
+    // what a speaker, or the agent, said and when they started
+    onTranscript?: (userId: string, text: string, startedAt: number) => void;
+    // false for what a speaker said that the agent must ignore, e.g. blocked content
+    moderate?: (userId: string, text: string) => Promise<boolean>;
+    // speakers whose audio is ignored
+    isMuted?: (userId: string) => boolean;
+}
+
+// How often speakers' silence is checked for the end of their turn
+const TURN_TICK_MS = 50;
+
+interface SpeechRequest {
+    sentences: string[];
+    done: () => void;
 }
 
-const VOLUME_WINDOW_SIZE = 100;
-const SPEAKING_THRESHOLD = 0.05;
-const SILENCE_DETECTION_THRESHOLD_MS = 1000; // 1-second silence threshold
+function splitSentences(text: string): string[] {
+    const sentences = (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [])
+        .map((sentence) => sentence.trim())
+        .filter(Boolean);
+    return sentences.length > 0 ? sentences : [text];
+}
 
 /**
- * MVP plugin for speech-to-text (OpenAI) + conversation + TTS (ElevenLabs)
+ * MVP plugin for speech-to-text + conversation + text-to-speech
  * Approach:
- *   - Collect each speaker's unmuted PCM in a memory buffer (only if above silence threshold)
- *   - On speaker mute -> flush STT -> GPT -> TTS -> push to Janus
+ *   - Speakers' PCM goes through the turn-taking controller's voice activity detection
+ *   - On the end of a turn -> STT -> GPT -> TTS -> stream PCM to Janus, sentence by sentence
+ *   - A speaker talking over the agent stops it; when there's nothing to answer, it resumes
  */
 export class SttTtsPlugin implements Plugin {
     name = "SttTtsPlugin";
-    description = "Speech-to-text (OpenAI) + conversation + TTS (ElevenLabs)";
+    description = "Speech-to-text + conversation + text-to-speech";
     private runtime: IAgentRuntime;
     private client: ClientBase;
     private spaceId: string;
@@ -65,36 +94,31 @@ export class SttTtsPlugin implements Plugin {
     private space?: Space;
     private janus?: JanusClient;
 
-    private elevenLabsApiKey?: string;
+    private synthesizer?: SpeechSynthesizer;
+    private recognizer?: SpeechRecognizer;
 
-    private voiceId = "21m00Tcm4TlvDq8ikWAM";
-    private elevenLabsModel = "eleven_monolingual_v1";
     private chatContext: Array<{
         role: "system" | "user" | "assistant";
         content: string;
     }> = [];
 
-    private transcriptionService: ITranscriptionService;
-
-    /**
-     * userId => arrayOfChunks (PCM Int16)
-     */
-    private pcmBuffers = new Map<string, Int16Array[]>();
+    private onTranscript?: PluginConfig["onTranscript"];
+    private moderate?: PluginConfig["moderate"];
+    private isMuted?: PluginConfig["isMuted"];
 
-    /**
-     * For ignoring near-silence frames (if amplitude < threshold)
-     */
-    private silenceThreshold = 50;
+    private turns: TurnTakingController;
+    private turnTicker: NodeJS.Timeout | null = null;
 
     // TTS queue for sequentially speaking
-    private ttsQueue: string[] = [];
+    private ttsQueue: SpeechRequest[] = [];
     private isSpeaking = false;
-    private isProcessingAudio = false;
-
-    private userSpeakingTimer: NodeJS.Timeout | null = null;
-    private volumeBuffers: Map<string, number[]>;
     private ttsAbortController: AbortController | null = null;
 
+    /**
+     * Sentences the agent didn't get to say when interrupted
+     */
+    private interruptedSentences: string[] = [];
+
     onAttach(_space: Space) {
         elizaLogger.log("[SttTtsPlugin] onAttach => space was attached");
     }
@@ -113,280 +137,212 @@ export class SttTtsPlugin implements Plugin {
         this.runtime = config?.runtime;
         this.client = config?.client;
         this.spaceId = config?.spaceId;
-        this.elevenLabsApiKey = config?.elevenLabsApiKey;
-        this.transcriptionService = config.transcriptionService;
-        if (typeof config?.silenceThreshold === "number") {
-            this.silenceThreshold = config.silenceThreshold;
-        }
-        if (config?.voiceId) {
-            this.voiceId = config.voiceId;
-        }
-        if (config?.elevenLabsModel) {
-            this.elevenLabsModel = config.elevenLabsModel;
-        }
+        this.synthesizer =
+            config?.synthesizer ??
+            (config?.elevenLabsApiKey
+                ? new ElevenLabsSpeechSynthesizer({
+                      apiKey: config.elevenLabsApiKey,
+                      voiceId: config.voiceId,
+                      model: config.elevenLabsModel,
+                  })
+                : undefined);
+        this.recognizer =
+            config?.recognizer ??
+            (config?.transcriptionService
+                ? new TranscriptionServiceRecognizer(
+                      config.transcriptionService,
+                  )
+                : undefined);
+        this.onTranscript = config?.onTranscript;
+        this.moderate = config?.moderate;
+        this.isMuted = config?.isMuted;
         if (config?.chatContext) {
             this.chatContext = config.chatContext;
         }
 
-        this.volumeBuffers = new Map<string, number[]>();
+        this.turns = new TurnTakingController(
+            {
+                onTurn: (utterance) => this.handleTurn(utterance),
+                onBargeIn: (userId) => this.interrupt(userId),
+            },
+            config?.turnTaking,
+        );
+        this.turnTicker = setInterval(
+            () => this.turns.tick(Date.now()),
+            TURN_TICK_MS,
+        );
     }
 
     /**
      * Called whenever we receive PCM from a speaker
      */
     onAudioData(data: AudioDataWithUser): void {
-        if (this.isProcessingAudio) {
+        if (this.isMuted?.(data.userId)) {
             return;
         }
-        let maxVal = 0;
-        for (let i = 0; i < data.samples.length; i++) {
-            const val = Math.abs(data.samples[i]);
-            if (val > maxVal) maxVal = val;
-        }
-        if (maxVal < this.silenceThreshold) {
-            return;
-        }
-
-        if (this.userSpeakingTimer) {
-            clearTimeout(this.userSpeakingTimer);
-        }
-
-        let arr = this.pcmBuffers.get(data.userId);
-        if (!arr) {
-            arr = [];
-            this.pcmBuffers.set(data.userId, arr);
-        }
-        arr.push(data.samples);
-
-        if (!this.isSpeaking) {
-            this.userSpeakingTimer = setTimeout(() => {
-                elizaLogger.log(
-                    "[SttTtsPlugin] start processing audio for user =>",
-                    data.userId,
-                );
-                this.userSpeakingTimer = null;
-                this.processAudio(data.userId).catch((err) =>
-                    elizaLogger.error(
-                        "[SttTtsPlugin] handleSilence error =>",
-                        err,
-                    ),
-                );
-            }, SILENCE_DETECTION_THRESHOLD_MS);
-        } else {
-            // check interruption
-            let volumeBuffer = this.volumeBuffers.get(data.userId);
-            if (!volumeBuffer) {
-                volumeBuffer = [];
-                this.volumeBuffers.set(data.userId, volumeBuffer);
-            }
-            const samples = new Int16Array(
-                data.samples.buffer,
-                data.samples.byteOffset,
-                data.samples.length / 2,
-            );
-            const maxAmplitude = Math.max(...samples.map(Math.abs)) / 32768;
-            volumeBuffer.push(maxAmplitude);
-
-            if (volumeBuffer.length > VOLUME_WINDOW_SIZE) {
-                volumeBuffer.shift();
-            }
-            const avgVolume =
-                volumeBuffer.reduce((sum, v) => sum + v, 0) /
-                VOLUME_WINDOW_SIZE;
-
-            if (avgVolume > SPEAKING_THRESHOLD) {
-                volumeBuffer.length = 0;
-                if (this.ttsAbortController) {
-                    this.ttsAbortController.abort();
-                    this.isSpeaking = false;
-                    elizaLogger.log("[SttTtsPlugin] TTS playback interrupted");
-                }
-            }
-        }
-    }
-
-    // /src/sttTtsPlugin.ts
-    private async convertPcmToWavInMemory(
-        pcmData: Int16Array,
-        sampleRate: number,
-    ): Promise<ArrayBuffer> {
-        // number of channels
-        const numChannels = 1;
-        // byte rate = (sampleRate * numChannels * bitsPerSample/8)
-        const byteRate = sampleRate * numChannels * 2;
-        const blockAlign = numChannels * 2;
-        // data chunk size = pcmData.length * (bitsPerSample/8)
-        const dataSize = pcmData.length * 2;
-
-        // WAV header is 44 bytes
-        const buffer = new ArrayBuffer(44 + dataSize);
-        const view = new DataView(buffer);
-
-        // RIFF chunk descriptor
-        this.writeString(view, 0, "RIFF");
-        view.setUint32(4, 36 + dataSize, true); // file size - 8
-        this.writeString(view, 8, "WAVE");
-
-        // fmt sub-chunk
-        this.writeString(view, 12, "fmt ");
-        view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-        view.setUint16(20, 1, true); // AudioFormat (1 = PCM)
-        view.setUint16(22, numChannels, true); // NumChannels
-        view.setUint32(24, sampleRate, true); // SampleRate
-        view.setUint32(28, byteRate, true); // ByteRate
-        view.setUint16(32, blockAlign, true); // BlockAlign
-        view.setUint16(34, 16, true); // BitsPerSample (16)
-
-        // data sub-chunk
-        this.writeString(view, 36, "data");
-        view.setUint32(40, dataSize, true);
-
-        // Write PCM samples
-        let offset = 44;
-        for (let i = 0; i < pcmData.length; i++, offset += 2) {
-            view.setInt16(offset, pcmData[i], true);
-        }
-
-        return buffer;
-    }
-
-    private writeString(view: DataView, offset: number, text: string) {
-        for (let i = 0; i < text.length; i++) {
-            view.setUint8(offset + i, text.charCodeAt(i));
-        }
+        this.turns.onAudio(
+            data.userId,
+            data.samples,
+            data.sampleRate,
+            Date.now(),
+        );
     }
 
     /**
-     * On speaker silence => flush STT => GPT => TTS => push to Janus
+     * On the end of a speaker's turn => STT => GPT => TTS => push to Janus.
+     * When a speaker interrupted the agent with nothing to answer, e.g. a
+     * "mhm", the agent picks up where it stopped.
      */
-    private async processAudio(userId: string): Promise<void> {
-        if (this.isProcessingAudio) {
-            return;
-        }
-        this.isProcessingAudio = true;
+    private async handleTurn(utterance: Utterance): Promise<void> {
+        const { userId } = utterance;
+        const interrupted = utterance.bargeIn ? this.interruptedSentences : [];
+        this.interruptedSentences = [];
         try {
             elizaLogger.log(
                 "[SttTtsPlugin] Starting audio processing for user:",
                 userId,
             );
-            const chunks = this.pcmBuffers.get(userId) || [];
-            this.pcmBuffers.clear();
-
-            if (!chunks.length) {
-                elizaLogger.warn(
-                    "[SttTtsPlugin] No audio chunks for user =>",
-                    userId,
-                );
+            if (!this.recognizer) {
+                elizaLogger.warn("[SttTtsPlugin] No speech recognizer");
                 return;
             }
-            elizaLogger.log(
-                `[SttTtsPlugin] Flushing STT buffer for user=${userId}, chunks=${chunks.length}`,
+            const sttText = await this.recognizer.transcribe(
+                utterance.samples,
+                utterance.sampleRate,
             );
-
-            const totalLen = chunks.reduce((acc, c) => acc + c.length, 0);
-            const merged = new Int16Array(totalLen);
-            let offset = 0;
-            for (const c of chunks) {
-                merged.set(c, offset);
-                offset += c.length;
-            }
-
-            // Convert PCM to WAV for STT
-            const wavBuffer = await this.convertPcmToWavInMemory(merged, 48000);
-
-            // Whisper STT
-            const sttText =
-                await this.transcriptionService.transcribe(wavBuffer);
-
             elizaLogger.log(
-                `[SttTtsPlugin] Transcription result: "${sttText}"`,
+                `[SttTtsPlugin] STT => user=${userId}, text="${sttText}"`,
             );
 
-            if (!sttText || !sttText.trim()) {
-                elizaLogger.warn(
-                    "[SttTtsPlugin] No speech recognized for user =>",
-                    userId,
-                );
-                return;
+            let replyText = "";
+            if (
+                sttText?.trim() &&
+                (!this.moderate || (await this.moderate(userId, sttText)))
+            ) {
+                this.onTranscript?.(userId, sttText, utterance.startedAt);
+                replyText = await this.handleUserMessage(sttText, userId);
             }
-            elizaLogger.log(
-                `[SttTtsPlugin] STT => user=${userId}, text="${sttText}"`,
-            );
 
-            // Get response
-            const replyText = await this.handleUserMessage(sttText, userId);
-            if (!replyText || !replyText.length || !replyText.trim()) {
+            if (replyText?.trim()) {
+                elizaLogger.log(
+                    `[SttTtsPlugin] user=${userId}, reply="${replyText}"`,
+                );
+                this.onTranscript?.(
+                    this.client.profile.id,
+                    replyText,
+                    Date.now(),
+                );
+                await this.speak(splitSentences(replyText));
+            } else if (interrupted.length > 0) {
+                elizaLogger.log(
+                    `[SttTtsPlugin] Nothing to answer ${userId}, resuming`,
+                );
+                await this.speak(interrupted);
+            } else {
                 elizaLogger.warn(
                     "[SttTtsPlugin] No replyText for user =>",
                     userId,
                 );
-                return;
             }
-            elizaLogger.log(
-                `[SttTtsPlugin] user=${userId}, reply="${replyText}"`,
-            );
-            this.isProcessingAudio = false;
-            this.volumeBuffers.clear();
-            // Use the standard speak method with queue
-            await this.speakText(replyText);
         } catch (error) {
             elizaLogger.error("[SttTtsPlugin] processAudio error =>", error);
-        } finally {
-            this.isProcessingAudio = false;
         }
     }
 
+    /**
+     * Stops the agent's speech for a speaker talking over it
+     */
+    private interrupt(userId: string): void {
+        if (!this.ttsAbortController) return;
+        elizaLogger.log(
+            `[SttTtsPlugin] TTS playback interrupted by user=${userId}`,
+        );
+        this.ttsAbortController.abort();
+    }
+
     /**
      * Public method to queue a TTS request
      */
     public async speakText(text: string): Promise<void> {
-        this.ttsQueue.push(text);
-        if (!this.isSpeaking) {
-            this.isSpeaking = true;
-            this.processTtsQueue().catch((err) => {
-                elizaLogger.error(
-                    "[SttTtsPlugin] processTtsQueue error =>",
-                    err,
-                );
-            });
-        }
+        this.onTranscript?.(this.client.profile.id, text, Date.now());
+        // Returns once queued, without waiting for playback
+        this.speak(splitSentences(text));
     }
 
     /**
-     * Process TTS requests one by one
+     * Queues sentences to say, resolving once said or interrupted
      */
-    private async processTtsQueue(): Promise<void> {
-        while (this.ttsQueue.length > 0) {
-            const text = this.ttsQueue.shift();
-            if (!text) continue;
-
-            this.ttsAbortController = new AbortController();
-            const { signal } = this.ttsAbortController;
-
-            try {
-                const ttsAudio = await this.elevenLabsTts(text);
-                const pcm = await this.convertMp3ToPcm(ttsAudio, 48000);
-                if (signal.aborted) {
-                    elizaLogger.log(
-                        "[SttTtsPlugin] TTS interrupted before streaming",
+    private speak(sentences: string[]): Promise<void> {
+        return new Promise((resolve) => {
+            this.ttsQueue.push({ sentences, done: resolve });
+            if (!this.isSpeaking) {
+                this.isSpeaking = true;
+                this.processTtsQueue().catch((err) => {
+                    elizaLogger.error(
+                        "[SttTtsPlugin] processTtsQueue error =>",
+                        err,
                     );
-                    return;
+                });
+            }
+        });
+    }
+
+    /**
+     * Process TTS requests one by one, each within the agent's talk time
+     */
+    private async processTtsQueue(): Promise<void> {
+        this.turns.setAgentSpeaking(true);
+        const maxSamples =
+            (this.turns.maxAgentTalkMs / 1000) * JANUS_SAMPLE_RATE;
+        try {
+            while (this.ttsQueue.length > 0) {
+                const request = this.ttsQueue.shift();
+                this.ttsAbortController = new AbortController();
+                const { signal } = this.ttsAbortController;
+
+                let spoken = 0;
+                let sentence = 0;
+                try {
+                    for (; sentence < request.sentences.length; sentence++) {
+                        if (spoken >= maxSamples) {
+                            elizaLogger.log(
+                                "[SttTtsPlugin] Talk time is up, skipping the rest",
+                            );
+                            break;
+                        }
+                        spoken += await this.streamSpeech(
+                            request.sentences[sentence],
+                            signal,
+                            maxSamples - spoken,
+                        );
+                        if (signal.aborted) break;
+                    }
+                } catch (err) {
+                    if (!signal.aborted) {
+                        elizaLogger.error(
+                            "[SttTtsPlugin] TTS streaming error =>",
+                            err,
+                        );
+                    }
+                } finally {
+                    this.ttsAbortController = null;
+                    request.done();
                 }
-                await this.streamToJanus(pcm, 48000);
+
                 if (signal.aborted) {
-                    elizaLogger.log(
-                        "[SttTtsPlugin] TTS interrupted after streaming",
-                    );
-                    return;
+                    // The interrupted sentence is said again in full
+                    this.interruptedSentences =
+                        request.sentences.slice(sentence);
+                    for (const dropped of this.ttsQueue) {
+                        dropped.done();
+                    }
+                    this.ttsQueue = [];
                 }
-            } catch (err) {
-                elizaLogger.error("[SttTtsPlugin] TTS streaming error =>", err);
-            } finally {
-                // Clean up the AbortController
-                this.ttsAbortController = null;
             }
+        } finally {
+            this.isSpeaking = false;
+            this.turns.setAgentSpeaking(false);
         }
-        this.isSpeaking = false;
     }
 
     /**
@@ -614,78 +570,52 @@ export class SttTtsPlugin implements Plugin {
     }
 
     /**
-     * ElevenLabs TTS => returns MP3 Buffer
+     * Synthesizes speech and streams it to Janus as it comes in, resampled to
+     * the Space's rate, so playback starts before synthesis ends
      */
-    private async elevenLabsTts(text: string): Promise<Buffer> {
-        if (!this.elevenLabsApiKey) {
-            throw new Error("[SttTtsPlugin] No ElevenLabs API key");
+    private async streamSpeech(
+        text: string,
+        signal: AbortSignal,
+        maxSamples: number,
+    ): Promise<number> {
+        if (!this.synthesizer) {
+            throw new Error("[SttTtsPlugin] No speech synthesizer");
         }
-        const url = `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}`;
-        const resp = await fetch(url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "xi-api-key": this.elevenLabsApiKey,
-            },
-            body: JSON.stringify({
-                text,
-                model_id: this.elevenLabsModel,
-                voice_settings: { stability: 0.4, similarity_boost: 0.8 },
-            }),
-        });
-        if (!resp.ok) {
-            const errText = await resp.text();
-            throw new Error(
-                `[SttTtsPlugin] ElevenLabs TTS error => ${resp.status} ${errText}`,
+        const frameSize = Math.floor(JANUS_SAMPLE_RATE * 0.01);
+
+        // Samples short of a whole frame, sent with the next chunk
+        let pending = new Int16Array(0);
+        let streamed = 0;
+        for await (const chunk of this.synthesizer.synthesize(text, signal)) {
+            if (signal.aborted) return streamed;
+            const samples = resamplePcm(
+                chunk,
+                this.synthesizer.sampleRate,
+                JANUS_SAMPLE_RATE,
             );
+            const merged = new Int16Array(pending.length + samples.length);
+            merged.set(pending);
+            merged.set(samples, pending.length);
+            const whole = merged.length - (merged.length % frameSize);
+            const allowed = Math.min(whole, maxSamples - streamed);
+            await this.streamToJanus(
+                merged.subarray(0, allowed),
+                JANUS_SAMPLE_RATE,
+            );
+            streamed += allowed;
+            if (allowed < whole) {
+                elizaLogger.log("[SttTtsPlugin] Talk time is up, cutting off");
+                return streamed;
+            }
+            pending = merged.slice(whole);
         }
-        const arrayBuf = await resp.arrayBuffer();
-        return Buffer.from(arrayBuf);
-    }
-
-    /**
-     * Convert MP3 => PCM via ffmpeg
-     */
-    private convertMp3ToPcm(
-        mp3Buf: Buffer,
-        outRate: number,
-    ): Promise<Int16Array> {
-        return new Promise((resolve, reject) => {
-            const ff = spawn("ffmpeg", [
-                "-i",
-                "pipe:0",
-                "-f",
-                "s16le",
-                "-ar",
-                outRate.toString(),
-                "-ac",
-                "1",
-                "pipe:1",
-            ]);
-            let raw = Buffer.alloc(0);
-
-            ff.stdout.on("data", (chunk: Buffer) => {
-                raw = Buffer.concat([raw, chunk]);
-            });
-            ff.stderr.on("data", () => {
-                // ignoring ffmpeg logs
-            });
-            ff.on("close", (code) => {
-                if (code !== 0) {
-                    reject(new Error(`ffmpeg error code=${code}`));
-                    return;
-                }
-                const samples = new Int16Array(
-                    raw.buffer,
-                    raw.byteOffset,
-                    raw.byteLength / 2,
-                );
-                resolve(samples);
-            });
-
-            ff.stdin.write(mp3Buf);
-            ff.stdin.end();
-        });
+        if (pending.length > 0 && !signal.aborted && streamed < maxSamples) {
+            const last = new Int16Array(frameSize);
+            last.set(pending);
+            await this.streamToJanus(last, JANUS_SAMPLE_RATE);
+            streamed += frameSize;
+        }
+        return streamed;
     }
 
     /**
@@ -738,10 +668,16 @@ export class SttTtsPlugin implements Plugin {
 
     cleanup(): void {
         elizaLogger.log("[SttTtsPlugin] cleanup => releasing resources");
-        this.pcmBuffers.clear();
-        this.userSpeakingTimer = null;
+        if (this.turnTicker) {
+            clearInterval(this.turnTicker);
+            this.turnTicker = null;
+        }
+        this.ttsAbortController?.abort();
+        for (const request of this.ttsQueue) {
+            request.done();
+        }
         this.ttsQueue = [];
-        this.isSpeaking = false;
-        this.volumeBuffers.clear();
+        this.interruptedSentences = [];
+        this.turns?.reset();
     }
 }
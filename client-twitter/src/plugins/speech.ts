@@ -0,0 +1,340 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import { elizaLogger, type ITranscriptionService } from "@elizaos/core";
+
+// The rate Janus sends and receives Space audio at
+export const JANUS_SAMPLE_RATE = 48000;
+
+export const DEFAULT_ELEVENLABS_VOICE_ID = "Xb7hH8MSUJpSbSDYk0k2";
+export const DEFAULT_ELEVENLABS_MODEL = "eleven_monolingual_v1";
+
+// Rate of the PCM requested from ElevenLabs, one of the formats it streams
+const ELEVENLABS_SAMPLE_RATE = 24000;
+
+// Rate of Piper's medium and high quality voices, used when the voice's config can't be read
+const DEFAULT_PIPER_SAMPLE_RATE = 22050;
+
+/**
+ * Turns text into speech for Twitter Spaces.
+ */
+export interface SpeechSynthesizer {
+    readonly name: string;
+
+    /** Rate of the synthesized PCM */
+    readonly sampleRate: number;
+
+    /**
+     * Streams the speech of a text as 16-bit mono PCM, chunk by chunk, so
+     * playback can start before synthesis ends. Stops when the signal aborts.
+     */
+    synthesize(text: string, signal?: AbortSignal): AsyncIterable<Int16Array>;
+}
+
+/**
+ * Turns what a Space speaker said into text.
+ */
+export interface SpeechRecognizer {
+    readonly name: string;
+
+    /**
+     * @param samples 16-bit mono PCM
+     * @returns The text, empty when no speech was recognized
+     */
+    transcribe(samples: Int16Array, sampleRate: number): Promise<string>;
+}
+
+/**
+ * Collects bytes into 16-bit samples, keeping an odd trailing byte for the
+ * next chunk.
+ */
+class PcmDecoder {
+    private carry: Uint8Array | null = null;
+
+    decode(bytes: Uint8Array): Int16Array {
+        let data = bytes;
+        if (this.carry) {
+            data = new Uint8Array(this.carry.length + bytes.length);
+            data.set(this.carry);
+            data.set(bytes, this.carry.length);
+            this.carry = null;
+        }
+        const usable = data.length - (data.length % 2);
+        if (usable < data.length) {
+            this.carry = data.slice(usable);
+        }
+        // Copies, as Int16Array needs an aligned offset
+        const samples = new Int16Array(usable / 2);
+        new Uint8Array(samples.buffer).set(data.subarray(0, usable));
+        return samples;
+    }
+}
+
+/**
+ * Linear resampling of 16-bit mono PCM.
+ */
+export function resamplePcm(
+    samples: Int16Array,
+    fromRate: number,
+    toRate: number
+): Int16Array {
+    if (fromRate === toRate || samples.length === 0) {
+        return samples;
+    }
+    const length = Math.round((samples.length * toRate) / fromRate);
+    const resampled = new Int16Array(length);
+    const step = fromRate / toRate;
+    for (let i = 0; i < length; i++) {
+        const position = i * step;
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, samples.length - 1);
+        const fraction = position - index;
+        resampled[i] = Math.round(
+            samples[index] * (1 - fraction) + samples[next] * fraction
+        );
+    }
+    return resampled;
+}
+
+/**
+ * Wraps 16-bit mono PCM in a WAV file.
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): ArrayBuffer {
+    const dataSize = samples.length * 2;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) {
+            view.setUint8(offset + i, text.charCodeAt(i));
+        }
+    };
+
+    // RIFF chunk descriptor
+    writeString(0, "RIFF");
+    view.setUint32(4, 36 + dataSize, true); // file size - 8
+    writeString(8, "WAVE");
+
+    // fmt sub-chunk
+    writeString(12, "fmt ");
+    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+    view.setUint16(20, 1, true); // AudioFormat (1 = PCM)
+    view.setUint16(22, 1, true); // NumChannels
+    view.setUint32(24, sampleRate, true); // SampleRate
+    view.setUint32(28, sampleRate * 2, true); // ByteRate
+    view.setUint16(32, 2, true); // BlockAlign
+    view.setUint16(34, 16, true); // BitsPerSample
+
+    // data sub-chunk
+    writeString(36, "data");
+    view.setUint32(40, dataSize, true);
+    for (let i = 0; i < samples.length; i++) {
+        view.setInt16(44 + i * 2, samples[i], true);
+    }
+    return buffer;
+}
+
+/**
+ * Reads the samples of a 16-bit PCM WAV file, mixing stereo down to mono.
+ */
+export function decodeWav(wav: ArrayBuffer | Uint8Array): {
+    samples: Int16Array;
+    sampleRate: number;
+} {
+    const bytes = wav instanceof Uint8Array ? wav : new Uint8Array(wav);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const readString = (offset: number) =>
+        Array.from(bytes.subarray(offset, offset + 4), (byte) =>
+            String.fromCharCode(byte)
+        ).join("");
+    if (readString(0) !== "RIFF" || readString(8) !== "WAVE") {
+        throw new Error("Not a WAV file");
+    }
+
+    let channels = 1;
+    let sampleRate = 0;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const chunkId = readString(offset);
+        const size = view.getUint32(offset + 4, true);
+        if (chunkId === "fmt ") {
+            if (view.getUint16(offset + 8, true) !== 1) {
+                throw new Error("Only PCM WAV files are supported");
+            }
+            channels = view.getUint16(offset + 10, true);
+            sampleRate = view.getUint32(offset + 12, true);
+            if (view.getUint16(offset + 22, true) !== 16) {
+                throw new Error("Only 16-bit WAV files are supported");
+            }
+        } else if (chunkId === "data") {
+            const frames = Math.floor(
+                Math.min(size, bytes.length - offset - 8) / (2 * channels)
+            );
+            const samples = new Int16Array(frames);
+            for (let i = 0; i < frames; i++) {
+                let sum = 0;
+                for (let channel = 0; channel < channels; channel++) {
+                    sum += view.getInt16(
+                        offset + 8 + (i * channels + channel) * 2,
+                        true
+                    );
+                }
+                samples[i] = Math.round(sum / channels);
+            }
+            return { samples, sampleRate };
+        }
+        offset += 8 + size + (size % 2);
+    }
+    throw new Error("WAV file has no data");
+}
+
+export interface ElevenLabsSpeechOptions {
+    apiKey: string;
+    voiceId?: string;
+    model?: string;
+}
+
+/**
+ * ElevenLabs text-to-speech, streamed as raw PCM.
+ */
+export class ElevenLabsSpeechSynthesizer implements SpeechSynthesizer {
+    readonly name = "elevenlabs";
+    readonly sampleRate = ELEVENLABS_SAMPLE_RATE;
+    private voiceId: string;
+    private model: string;
+
+    constructor(private options: ElevenLabsSpeechOptions) {
+        this.voiceId = options.voiceId || DEFAULT_ELEVENLABS_VOICE_ID;
+        this.model = options.model || DEFAULT_ELEVENLABS_MODEL;
+    }
+
+    async *synthesize(
+        text: string,
+        signal?: AbortSignal
+    ): AsyncIterable<Int16Array> {
+        const url = `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}/stream?output_format=pcm_${this.sampleRate}`;
+        const resp = await fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "xi-api-key": this.options.apiKey,
+            },
+            body: JSON.stringify({
+                text,
+                model_id: this.model,
+                voice_settings: { stability: 0.4, similarity_boost: 0.8 },
+            }),
+            signal,
+        });
+        if (!resp.ok || !resp.body) {
+            const errText = await resp.text();
+            throw new Error(
+                `ElevenLabs TTS error => ${resp.status} ${errText}`
+            );
+        }
+
+        const decoder = new PcmDecoder();
+        const reader = resp.body.getReader();
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                yield decoder.decode(value);
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+}
+
+export interface PiperSpeechOptions {
+    /** Path to the voice model (.onnx) */
+    model: string;
+    /** Path to the piper binary. Defaults to "piper" on the PATH */
+    binary?: string;
+    /** Read from the voice's .onnx.json config when not given */
+    sampleRate?: number;
+}
+
+/**
+ * Local, offline text-to-speech with Piper (https://github.com/rhasspy/piper),
+ * streaming the raw PCM it writes.
+ */
+export class PiperSpeechSynthesizer implements SpeechSynthesizer {
+    readonly name = "piper";
+    readonly sampleRate: number;
+
+    constructor(private options: PiperSpeechOptions) {
+        this.sampleRate =
+            options.sampleRate ?? readPiperSampleRate(options.model);
+    }
+
+    async *synthesize(
+        text: string,
+        signal?: AbortSignal
+    ): AsyncIterable<Int16Array> {
+        const piper = spawn(this.options.binary || "piper", [
+            "--model",
+            this.options.model,
+            "--output_raw",
+        ]);
+        const onAbort = () => piper.kill();
+        signal?.addEventListener("abort", onAbort);
+
+        let stderr = "";
+        piper.stderr.on("data", (chunk: Buffer) => {
+            stderr += chunk.toString();
+        });
+        const exited = new Promise<number | null>((resolve, reject) => {
+            piper.on("error", reject);
+            piper.on("close", resolve);
+        });
+        // Reported once the output is read, instead of as an unhandled rejection
+        exited.catch(() => {});
+
+        piper.stdin.end(`${text.replace(/\s+/g, " ")}\n`);
+
+        const decoder = new PcmDecoder();
+        try {
+            for await (const chunk of piper.stdout) {
+                yield decoder.decode(chunk as Buffer);
+            }
+            const code = await exited;
+            if (code !== 0 && !signal?.aborted) {
+                throw new Error(`piper exited with code ${code}: ${stderr}`);
+            }
+        } finally {
+            signal?.removeEventListener("abort", onAbort);
+            if (piper.exitCode === null) {
+                piper.kill();
+            }
+        }
+    }
+}
+
+function readPiperSampleRate(model: string): number {
+    try {
+        const config = JSON.parse(fs.readFileSync(`${model}.json`, "utf8"));
+        return config.audio?.sample_rate ?? DEFAULT_PIPER_SAMPLE_RATE;
+    } catch {
+        elizaLogger.warn(
+            `[Speech] Could not read the sample rate of ${model}, assuming ${DEFAULT_PIPER_SAMPLE_RATE}`
+        );
+        return DEFAULT_PIPER_SAMPLE_RATE;
+    }
+}
+
+/**
+ * Speech recognition through the agent's transcription service, which can be
+ * a local Whisper or a remote API depending on the agent's plugins.
+ */
+export class TranscriptionServiceRecognizer implements SpeechRecognizer {
+    readonly name = "transcription-service";
+
+    constructor(private service: ITranscriptionService) {}
+
+    async transcribe(samples: Int16Array, sampleRate: number): Promise<string> {
+        return (
+            (await this.service.transcribe(encodeWav(samples, sampleRate))) ??
+            ""
+        );
+    }
+}
@@ -88,3 +88,17 @@ export const twitterVoiceHandlerTemplate =
 
     # Instructions: Write the next message for {{agentName}}. Include an optional action if appropriate. {{actionNames}}
     ` + messageCompletionFooter;
+
+export const twitterSpaceSummaryTemplate = `# Task: Recap a Twitter Space hosted by {{agentName}} (@{{twitterUserName}}).
+
+Title: {{spaceTitle}}
+
+# Transcript, with the time into the Space and who spoke:
+{{transcript}}
+
+# INSTRUCTIONS: Summarize what was discussed in 2 to 4 sentences, and pick up to {{maxHighlights}} highlights: the most notable points, each with who made it. Only use what is in the transcript.
+
+Response format should be formatted in a JSON block like this:
+\`\`\`json
+{ "summary": "<string>", "highlights": ["<string>", "<string>"] }
+\`\`\``;
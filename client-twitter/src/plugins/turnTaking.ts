@@ -0,0 +1,274 @@
+import {
+    elizaLogger,
+    type TwitterSpaceTurnTakingOptions,
+    type TwitterSpaceVadOptions,
+} from "@elizaos/core";
+
+const DEFAULT_VAD: Required<TwitterSpaceVadOptions> = {
+    threshold: 0.02,
+    minSpeechMs: 300,
+    silenceMs: 1000,
+};
+
+/**
+ * IDLE: nobody talks. LISTENING: speakers talk, the agent waits for them to
+ * finish. RESPONDING: the agent works on an answer. SPEAKING: the agent talks.
+ */
+export type TurnState = "IDLE" | "LISTENING" | "RESPONDING" | "SPEAKING";
+
+/**
+ * A speaker's turn: what they said until they went silent.
+ */
+export interface Utterance {
+    userId: string;
+    samples: Int16Array;
+    sampleRate: number;
+    startedAt: number;
+    endedAt: number;
+    /** Whether the speaker talked over the agent */
+    bargeIn: boolean;
+}
+
+export interface TurnTakingHandlers {
+    /** Answers a turn. No other turn is answered until it settles */
+    onTurn(utterance: Utterance): Promise<void>;
+    /** A speaker talks over the agent, which should stop and listen */
+    onBargeIn(userId: string): void;
+}
+
+interface SpeakerActivity {
+    frames: Int16Array[];
+    // Frames up to the last voiced one, so trailing silence is left out
+    voicedFrames: number;
+    sampleRate: number;
+    startedAt: number;
+    lastVoiceAt: number;
+    voicedMs: number;
+    bargeIn: boolean;
+}
+
+/**
+ * RMS level of 16-bit PCM, from 0 to 1.
+ */
+export function rmsLevel(samples: Int16Array): number {
+    if (samples.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / samples.length) / 32768;
+}
+
+function concat(chunks: Int16Array[]): Int16Array {
+    const merged = new Int16Array(
+        chunks.reduce((total, chunk) => total + chunk.length, 0)
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+        merged.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return merged;
+}
+
+/**
+ * Decides when the agent answers whom in a Space voice conversation. Each
+ * speaker's audio goes through voice activity detection; a turn ends after
+ * `silenceMs` of silence, and is answered once nobody else is talking. A
+ * speaker talking over the agent for `bargeInMs` interrupts it. Speakers
+ * answered `maxTurnsPerSpeaker` times within the fairness window go after
+ * the others, can't interrupt, and don't hold the agent back by talking.
+ *
+ * Time is passed in, so the controller can be driven by synthetic audio.
+ * `tick()` must be called regularly to end turns on silence.
+ */
+export class TurnTakingController {
+    readonly maxAgentTalkMs: number;
+    private vad: Required<TwitterSpaceVadOptions>;
+    private speakerVad: Record<string, TwitterSpaceVadOptions>;
+    private bargeInMs: number;
+    private maxTurnsPerSpeaker: number;
+    private fairnessWindowMs: number;
+
+    private activity = new Map<string, SpeakerActivity>();
+    private pending: Utterance[] = [];
+    // userId => when their turns were answered
+    private answered = new Map<string, number[]>();
+    private responding = false;
+    private agentSpeaking = false;
+
+    constructor(
+        private handlers: TurnTakingHandlers,
+        options: TwitterSpaceTurnTakingOptions = {}
+    ) {
+        this.vad = { ...DEFAULT_VAD, ...options.vad };
+        this.speakerVad = options.speakers ?? {};
+        this.bargeInMs = options.bargeInMs ?? 500;
+        this.maxAgentTalkMs = options.maxAgentTalkMs ?? 30_000;
+        this.maxTurnsPerSpeaker = options.maxTurnsPerSpeaker ?? 3;
+        this.fairnessWindowMs = options.fairnessWindowMs ?? 5 * 60_000;
+    }
+
+    get state(): TurnState {
+        if (this.agentSpeaking) return "SPEAKING";
+        if (this.responding) return "RESPONDING";
+        if (this.activity.size > 0) return "LISTENING";
+        return "IDLE";
+    }
+
+    /**
+     * Tells whether the agent's voice is playing, for barge-in.
+     */
+    setAgentSpeaking(speaking: boolean): void {
+        this.agentSpeaking = speaking;
+    }
+
+    /**
+     * Feeds a frame of a speaker's audio.
+     */
+    onAudio(
+        userId: string,
+        samples: Int16Array,
+        sampleRate: number,
+        now: number
+    ): void {
+        const voiced = rmsLevel(samples) > this.getVad(userId).threshold;
+        let activity = this.activity.get(userId);
+        if (!activity) {
+            if (!voiced) return;
+            activity = {
+                frames: [],
+                voicedFrames: 0,
+                sampleRate,
+                startedAt: now,
+                lastVoiceAt: now,
+                voicedMs: 0,
+                bargeIn: false,
+            };
+            this.activity.set(userId, activity);
+        }
+
+        activity.frames.push(samples);
+        if (!voiced) return;
+        activity.voicedFrames = activity.frames.length;
+        activity.voicedMs += (samples.length / sampleRate) * 1000;
+        activity.lastVoiceAt = now;
+
+        if (
+            this.agentSpeaking &&
+            !activity.bargeIn &&
+            activity.voicedMs >= this.bargeInMs &&
+            this.isWithinFairShare(userId, now)
+        ) {
+            activity.bargeIn = true;
+            this.handlers.onBargeIn(userId);
+        }
+    }
+
+    /**
+     * Ends the turns of speakers gone silent, and answers the next one when
+     * the agent is free.
+     */
+    tick(now: number): void {
+        for (const [userId, activity] of Array.from(this.activity)) {
+            const vad = this.getVad(userId);
+            if (now - activity.lastVoiceAt < vad.silenceMs) continue;
+            this.activity.delete(userId);
+            if (activity.voicedMs < vad.minSpeechMs) continue;
+            this.enqueue({
+                userId,
+                samples: concat(activity.frames.slice(0, activity.voicedFrames)),
+                sampleRate: activity.sampleRate,
+                startedAt: activity.startedAt,
+                endedAt: activity.lastVoiceAt,
+                bargeIn: activity.bargeIn,
+            });
+        }
+        this.dispatch(now);
+    }
+
+    /**
+     * Turns waiting to be answered.
+     */
+    getPending(): Utterance[] {
+        return [...this.pending];
+    }
+
+    reset(): void {
+        this.activity.clear();
+        this.pending = [];
+        this.answered.clear();
+        this.agentSpeaking = false;
+    }
+
+    private getVad(userId: string): Required<TwitterSpaceVadOptions> {
+        return {
+            ...this.vad,
+            ...(this.speakerVad[userId] ??
+                this.speakerVad[userId.replace(/^tw-/, "")]),
+        };
+    }
+
+    // A speaker's turns waiting together are answered as one
+    private enqueue(utterance: Utterance): void {
+        const waiting = this.pending.find(
+            ({ userId }) => userId === utterance.userId
+        );
+        if (!waiting) {
+            this.pending.push(utterance);
+            return;
+        }
+        waiting.samples = concat([waiting.samples, utterance.samples]);
+        waiting.endedAt = utterance.endedAt;
+        waiting.bargeIn ||= utterance.bargeIn;
+    }
+
+    private dispatch(now: number): void {
+        if (this.responding || this.agentSpeaking || this.pending.length === 0) {
+            return;
+        }
+        for (const userId of Array.from(this.activity.keys())) {
+            if (this.isWithinFairShare(userId, now)) {
+                return;
+            }
+        }
+
+        const [next] = [...this.pending].sort(
+            (a, b) =>
+                Number(!this.isWithinFairShare(a.userId, now)) -
+                    Number(!this.isWithinFairShare(b.userId, now)) ||
+                this.countTurns(a.userId, now) -
+                    this.countTurns(b.userId, now) ||
+                a.endedAt - b.endedAt
+        );
+        this.pending.splice(this.pending.indexOf(next), 1);
+        this.answered.set(next.userId, [
+            ...this.getTurns(next.userId, now),
+            now,
+        ]);
+
+        this.responding = true;
+        this.handlers
+            .onTurn(next)
+            .catch((error) =>
+                elizaLogger.error("[TurnTaking] Error answering turn =>", error)
+            )
+            .finally(() => {
+                this.responding = false;
+            });
+    }
+
+    private getTurns(userId: string, now: number): number[] {
+        return (this.answered.get(userId) ?? []).filter(
+            (at) => now - at < this.fairnessWindowMs
+        );
+    }
+
+    private countTurns(userId: string, now: number): number {
+        return this.getTurns(userId, now).length;
+    }
+
+    private isWithinFairShare(userId: string, now: number): boolean {
+        return this.countTurns(userId, now) < this.maxTurnsPerSpeaker;
+    }
+}
@@ -12,30 +12,40 @@ import {
     parseJSONObjectFromText,
     extractAttributes,
     cleanJsonResponse,
+    PostCalendar,
+    type ProcessedTweetAction,
+    type TweetActionDecision,
+    type TweetActionOutcome,
+    type TweetActionType,
+    TweetDecisionLog,
+    ScriptureVerifier,
+    type ScriptureVerification,
 } from "@elizaos/core";
 import { elizaLogger } from "@elizaos/core";
 import type { ClientBase } from "./base.ts";
-import { postActionResponseFooter } from "@elizaos/core";
-import { generateTweetActions } from "@elizaos/core";
+import { tweetActionDecisionsFooter } from "@elizaos/core";
+import { generateTweetActionDecisions } from "@elizaos/core";
 import { type IImageDescriptionService, ServiceType } from "@elizaos/core";
 import { buildConversationThread, fetchMediaData } from "./utils.ts";
 import { twitterMessageHandlerTemplate } from "./interactions.ts";
 import { DEFAULT_MAX_TWEET_LENGTH } from "./environment.ts";
 import {
-    Client,
-    Events,
-    GatewayIntentBits,
-    TextChannel,
-    Partials,
-} from "discord.js";
+    addPendingTweet,
+    type ApprovalProvider,
+    createApprovalProvider,
+    DEFAULT_APPROVAL_PROVIDER,
+    handlePendingTweet,
+} from "./approval/index.ts";
 import type { State } from "@elizaos/core";
 import type { ActionResponse } from "@elizaos/core";
 import { MediaData } from "./types.ts";
-import { v4 as uuidv4 } from 'uuid';
-import type { Memory } from "@elizaos/core";
+import { RequestPriority } from "./requestQueue.ts";
 
 const MAX_TIMELINES_TO_FETCH = 15;
 
+// How often the posting calendar is checked for due and undrafted posts
+const POST_CALENDAR_CHECK_INTERVAL = 60 * 1000;
+
 const twitterPostTemplate = `
 # Areas of Expertise
 {{knowledge}}
@@ -72,27 +82,25 @@ Guidelines:
   - Political/controversial unless central to character
   - Promotional/marketing unless directly relevant
 
-Actions (respond only with tags):
-[LIKE] - Perfect topic match AND aligns with character (9.8/10)
-[RETWEET] - Exceptional content that embodies character's expertise (9.5/10)
-[QUOTE] - Can add substantial domain expertise (9.5/10)
-[REPLY] - Can contribute meaningful, expert-level insight (9.5/10)
+Actions:
+LIKE - Perfect topic match AND aligns with character
+RETWEET - Exceptional content that embodies character's expertise
+QUOTE - Can add substantial domain expertise
+REPLY - Can contribute meaningful, expert-level insight
 
 Tweet:
 {{currentTweet}}
 
-# Respond with qualifying action tags only. Default to NO action unless extremely confident of relevance.` +
-    postActionResponseFooter;
-
-interface PendingTweet {
-    tweetTextForPosting: string;
-    roomId: UUID;
-    rawTweetContent: string;
-    taskId: string;
-    timestamp: number;
-}
+# Give a low confidence to actions that don't clearly qualify. Default to NO action unless extremely confident of relevance.
+` + tweetActionDecisionsFooter;
 
-type PendingTweetApprovalStatus = "PENDING" | "APPROVED" | "REJECTED";
+// What each action is called in the executed actions of a tweet
+const EXECUTED_ACTION_NAMES: Record<TweetActionType, string> = {
+    LIKE: "like",
+    RETWEET: "retweet",
+    QUOTE: "quote",
+    REPLY: "reply",
+};
 
 export class TwitterPostClient {
     client: ClientBase;
@@ -102,12 +110,15 @@ export class TwitterPostClient {
     private lastProcessTime = 0;
     private stopProcessingActions = false;
     private isDryRun: boolean;
-    private discordClientForApproval: Client;
     private approvalRequired = false;
-    private discordApprovalChannelId: string;
     private approvalCheckInterval: number;
-    private raiinmakerService: any | null = null;
-    private approvalProvider: string;
+    private approvalProviderName: string;
+    private approvalProvider: ApprovalProvider | null = null;
+    private pendingTweetCheckInterval: NodeJS.Timeout | null = null;
+    private postCalendar: PostCalendar | null = null;
+    private postCalendarTimeout: NodeJS.Timeout | null = null;
+    private decisionLog: TweetDecisionLog;
+    private scriptureVerifier: ScriptureVerifier;
 
     constructor(client: ClientBase, runtime: IAgentRuntime) {
         elizaLogger.debug("🔍 TwitterPostClient constructor start");
@@ -115,12 +126,16 @@ export class TwitterPostClient {
         this.runtime = runtime;
         this.twitterUsername = this.client.twitterConfig.TWITTER_USERNAME;
         this.isDryRun = this.client.twitterConfig.TWITTER_DRY_RUN;
+        this.decisionLog = new TweetDecisionLog(runtime);
+        this.scriptureVerifier = new ScriptureVerifier(runtime, {
+            maxLength: this.client.twitterConfig.MAX_TWEET_LENGTH,
+        });
         // Explicit debug for approval provider
         const rawApprovalProvider = process.env.TWITTER_APPROVAL_PROVIDER;
         elizaLogger.debug(`🔍 Raw approval provider from settings: "${rawApprovalProvider}"`);
         
-        this.approvalProvider = rawApprovalProvider || "RAIINMAKER";
-        elizaLogger.debug(`🔍 Final approval provider set to: "${this.approvalProvider}"`);
+        this.approvalProviderName = rawApprovalProvider || DEFAULT_APPROVAL_PROVIDER;
+        elizaLogger.debug(`🔍 Final approval provider set to: "${this.approvalProviderName}"`);
         
         // Log configuration on initialization
         elizaLogger.log("Twitter Client Configuration:");
@@ -130,9 +145,10 @@ export class TwitterPostClient {
         elizaLogger.log(`- Post Interval: ${this.client.twitterConfig.POST_INTERVAL_MIN}-${this.client.twitterConfig.POST_INTERVAL_MAX} minutes`);
         elizaLogger.log(`- Action Processing: ${this.client.twitterConfig.ENABLE_ACTION_PROCESSING ? "enabled" : "disabled"}`);
         elizaLogger.log(`- Action Interval: ${this.client.twitterConfig.ACTION_INTERVAL} minutes`);
+        elizaLogger.log(`- Action Min Confidence: ${this.client.twitterConfig.TWITTER_ACTION_MIN_CONFIDENCE}`);
         elizaLogger.log(`- Post Immediately: ${this.client.twitterConfig.POST_IMMEDIATELY ? "enabled" : "disabled"}`);
         elizaLogger.log(`- Search Enabled: ${this.client.twitterConfig.TWITTER_SEARCH_ENABLE ? "enabled" : "disabled"}`);
-        elizaLogger.log(`- Approval Provider: ${this.approvalProvider}`);
+        elizaLogger.log(`- Approval Provider: ${this.approvalProviderName}`);
     
         const targetUsers = this.client.twitterConfig.TWITTER_TARGET_USERS;
         if (targetUsers) {
@@ -146,551 +162,39 @@ export class TwitterPostClient {
         // Initialize verification system
         const approvalEnabledSetting = this.runtime.getSetting("TWITTER_APPROVAL_ENABLED");
         elizaLogger.debug(`🔍 TWITTER_APPROVAL_ENABLED setting: "${approvalEnabledSetting}"`);
-        
+
         const approvalRequired: boolean = approvalEnabledSetting?.toLowerCase() === "true";
-        elizaLogger.debug(`🔍 Approval required: ${approvalRequired}`);
-        
+
         if (approvalRequired) {
-            elizaLogger.debug(`🔍 Setting this.approvalRequired = true`);
-            this.approvalRequired = true;
-            
             // Parse interval setting with fallback to 5 minutes (300000ms)
             const approvalCheckIntervalSetting = this.runtime.getSetting("TWITTER_APPROVAL_CHECK_INTERVAL");
-            const APPROVAL_CHECK_INTERVAL = approvalCheckIntervalSetting 
+            this.approvalCheckInterval = approvalCheckIntervalSetting
                 ? Number.parseInt(approvalCheckIntervalSetting) * 1000  // Convert seconds to milliseconds
                 : 5 * 60 * 1000; // 5 minutes default
-            
-            this.approvalCheckInterval = APPROVAL_CHECK_INTERVAL;
-            elizaLogger.log(`Twitter approval enabled using ${this.approvalProvider} verification with ${this.approvalCheckInterval/1000}s check interval`);
-
-            elizaLogger.debug(`🔍 Checking provider - current provider: "${this.approvalProvider}"`);
-            
-            // Initialize only what's needed based on the provider
-            if (this.approvalProvider === "RAIINMAKER") {
-                elizaLogger.debug(`🔍 Entering Raiinmaker setup branch`);
-                // Check if Raiinmaker plugin is available
-                const raiinmakerEnabled = this.runtime.actions.some(
-                    action => action.name === "VERIFY_GENERATION_CONTENT"
-                );
-                
-                elizaLogger.debug(`🔍 Raiinmaker plugin available: ${raiinmakerEnabled}`);
-                
-                if (!raiinmakerEnabled) {
-                    elizaLogger.warn("Twitter approval is set to use Raiinmaker but the plugin is not available");
-                    elizaLogger.debug(`🔍 Setting this.approvalRequired = false due to missing Raiinmaker plugin`);
-                    this.approvalRequired = false;
-                } else {
-                    // Skip Discord setup completely for Raiinmaker provider
-                    elizaLogger.debug(`🔍 Skipping Discord setup for Raiinmaker provider`);
-                    this.discordApprovalChannelId = "";
-                    this.discordClientForApproval = null;
-                }
-            } else if (this.approvalProvider === "DISCORD") {
-                elizaLogger.debug(`🔍 Entering Discord setup branch`);
-                // Initialize Discord client
-                const discordToken = this.runtime.getSetting("TWITTER_APPROVAL_DISCORD_BOT_TOKEN");
-                const channelId = this.runtime.getSetting("TWITTER_APPROVAL_DISCORD_CHANNEL_ID");
-                
-                
-                if (!discordToken || !channelId) {
-                    elizaLogger.warn("Twitter approval is set to use Discord but credentials are missing");
-                    elizaLogger.debug(`🔍 Setting this.approvalRequired = false due to missing Discord credentials`);
-                    this.approvalRequired = false;
-                } else {
-                    elizaLogger.debug(`🔍 Setting Discord approval channel ID and initializing Discord client`);
-                    this.discordApprovalChannelId = channelId;
-                    elizaLogger.debug(`🔍 About to call setupDiscordClient()`);
-                    this.setupDiscordClient();
-                    elizaLogger.log("Discord approval client initialized");
-                }
-                
-                // Skip Raiinmaker setup for Discord provider
-                elizaLogger.debug(`🔍 Skipping Raiinmaker setup for Discord provider`);
-                this.raiinmakerService = null;
-            } else {
-                elizaLogger.debug(`🔍 Unknown approval provider: "${this.approvalProvider}"`);
-            }
-        } else {
-            elizaLogger.debug(`🔍 Twitter approval disabled by configuration`);
-        }
-        
-        elizaLogger.debug(`🔍 TwitterPostClient constructor complete. Final approval provider: "${this.approvalProvider}", approval required: ${this.approvalRequired}`);
-    }
 
-    private setupDiscordClient() {
-        try {
-            // Check if required environment variables are set
-            const token = this.runtime.getSetting("TWITTER_APPROVAL_DISCORD_BOT_TOKEN");
-            this.discordApprovalChannelId = this.runtime.getSetting("TWITTER_APPROVAL_DISCORD_CHANNEL_ID");
-            
-            if (!token || !this.discordApprovalChannelId) {
-                elizaLogger.error("Missing required Discord environment variables for Twitter approval");
-                this.discordClientForApproval = null;
-                return;
-            }
-            
-            // Create Discord client
-            this.discordClientForApproval = new Client({
-                intents: [
-                    GatewayIntentBits.Guilds,
-                    GatewayIntentBits.GuildMessages,
-                    GatewayIntentBits.MessageContent,
-                    GatewayIntentBits.GuildMessageReactions,
-                ],
-                partials: [Partials.Channel, Partials.Message, Partials.Reaction],
-            });
-            
-            this.discordClientForApproval.once(
-                Events.ClientReady,
-                (readyClient) => {
-                    elizaLogger.log(
-                        `Discord bot is ready as ${readyClient.user.tag}!`
-                    );
-                    
-                    // Generate invite link with required permissions
-                    const invite = `https://discord.com/api/oauth2/authorize?client_id=${readyClient.user.id}&permissions=274877991936&scope=bot`;
-                    // 274877991936 includes permissions for:
-                    // - Send Messages
-                    // - Read Messages/View Channels
-                    // - Read Message History
-
-                    elizaLogger.log(
-                        `Use this link to properly invite the Twitter Post Approval Discord bot: ${invite}`
-                    );
-                }
-            );
-            
-            // Login to Discord with error handling
-            this.discordClientForApproval.login(token).catch(error => {
-                elizaLogger.error("Error logging in to Discord:", error);
-                this.discordClientForApproval = null;
+            // Providers return null when they are not usable (missing plugin or credentials)
+            this.approvalProvider = createApprovalProvider(this.approvalProviderName, {
+                runtime: this.runtime,
+                client: this.client,
             });
-        } catch (error) {
-            elizaLogger.error("Exception setting up Discord client:", error);
-            this.discordClientForApproval = null;
-        }
-    }
-
-    /**
-     * Sends a tweet for verification through the Raiinmaker system
-     * 
-     * @param tweetTextForPosting The tweet text to be verified
-     * @param roomId The ID of the room associated with this tweet
-     * @param rawTweetContent The raw content before processing
-     * @returns The task ID of the verification task or null if creation failed
-     */
-    private async sendForRaiinmakerVerification(
-        tweetTextForPosting: string,
-        roomId: UUID,
-        rawTweetContent: string
-    ): Promise<string | null> {
-        try {
-            // First, explicitly check the provider and ensure Discord client is null for safety
-            if (this.approvalProvider === "RAIINMAKER") {
-                this.discordClientForApproval = null;
-            }
-            
-            elizaLogger.log(`Sending tweet for Raiinmaker verification: "${tweetTextForPosting.substring(0, 50)}${tweetTextForPosting.length > 50 ? '...' : ''}"`);
-            
-            // Create a fallback room ID that's stable and reusable
-            const verificationRoomId = stringToUuid("twitter_verification_room");
-            
-            // Try to use the provided room ID first
-            try {
-                await this.runtime.ensureRoomExists(roomId);
-                await this.runtime.ensureParticipantInRoom(this.runtime.agentId, roomId);
-            } catch (roomError) {
-                elizaLogger.error("Failed to create original room for tweet verification:", roomError);
-                
-                // Use the fallback room ID instead
-                try {
-                    await this.runtime.ensureRoomExists(verificationRoomId);
-                    await this.runtime.ensureParticipantInRoom(this.runtime.agentId, verificationRoomId);
-                    // Update roomId to the fallback one that we know exists
-                    roomId = verificationRoomId;
-                } catch (fallbackError) {
-                    elizaLogger.error("Failed to create fallback room for tweet verification:", fallbackError);
-                    // If we can't create a room at all, we shouldn't proceed with verification
-                    return null;
-                }
-            }
-            
-            // Create a verification task using the Raiinmaker plugin
-            const verificationOptions = {
-                subject: tweetTextForPosting,
-                name: `Tweet Verification from @${this.twitterUsername}`,
-                consensusVotes: 3,
-                question: "Is this content appropriate for posting on Twitter?",
-                roomId: roomId.toString() // Pass the roomId to the action
-            };
-            
-            try {
-                // Create a memory object for the action
-                let verificationResult: any = null;
-                const actionMemory: Memory = {
-                    id: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
-                    userId: this.runtime.agentId,
-                    agentId: this.runtime.agentId,
-                    roomId: roomId,
-                    content: {
-                        type: 'text',
-                        text: `Verify this content: "${tweetTextForPosting}"`,  // Include in text with quotes
-                        action: 'VERIFY_GENERATION_CONTENT',
-                        options: {
-                            content: tweetTextForPosting,  // Also include in options
-                            name: `Tweet Verification from @${this.twitterUsername}`,
-                            consensusVotes: 3,
-                            question: "Is this content appropriate for posting on Twitter?",
-                            roomId: roomId.toString()
-                        }
-                    }
-                };
+            this.approvalRequired = this.approvalProvider !== null;
 
-                // Process the action using runtime.processActions
-                await this.runtime.processActions(
-                    actionMemory,
-                    [actionMemory],
-                    undefined,
-                    async (result) => {
-                        if (result) {
-                            verificationResult = result;
-                        }
-                        return [actionMemory];
-                    }
-                );
-                
-                // Extract taskId from verificationResult.text if it's not at the top level
-                let taskId: string | null = null;
-                
-                if (verificationResult?.taskId) {
-                    // If it's available at the top level, use that
-                    taskId = verificationResult.taskId;
-                } else if (verificationResult?.text) {
-                    // Try to extract taskId from the text field using regex
-                    const taskIdMatch = verificationResult.text.match(/Task ID: ([a-f0-9-]{36})/i);
-                    if (taskIdMatch && taskIdMatch[1]) {
-                        taskId = taskIdMatch[1];
-                    }
-                }
-                
-                if (!taskId) {
-                    elizaLogger.error("Failed to create verification task: Invalid response from Raiinmaker plugin");
-                    
-                    // Fallback: If verification fails but we have configured the system to post directly,
-                    // skip verification and post immediately
-                    if (this.client.twitterConfig.POST_IMMEDIATELY) {
-                        elizaLogger.warn("Verification failed, but POST_IMMEDIATELY is enabled - posting tweet directly");
-                        
-                        // Post the tweet directly
-                        await this.postTweet(
-                            this.runtime,
-                            this.client,
-                            tweetTextForPosting,
-                            roomId,
-                            rawTweetContent,
-                            this.twitterUsername
-                        );
-                        
-                        return "direct-posted"; // Special return value to indicate we posted directly
-                    }
-                    
-                    return null;
-                }
-                
-                elizaLogger.log(`Successfully created verification task with ID: ${taskId}`);
-                
-                // Store the pending tweet with the taskId
-                const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweets`;
-                const currentPendingTweets = (await this.runtime.cacheManager.get<PendingTweet[]>(pendingTweetsKey)) || [];
-                
-                // Add new pending tweet with Raiinmaker taskId
-                currentPendingTweets.push({
-                    tweetTextForPosting,
-                    roomId,
-                    rawTweetContent,
-                    taskId: taskId,
-                    timestamp: Date.now()
-                });
-                
-                // Store updated array
-                await this.runtime.cacheManager.set(pendingTweetsKey, currentPendingTweets);
-                
-                return taskId;
-            } catch (actionError) {
-                elizaLogger.error("Error executing VERIFY_GENERATION_CONTENT action:", actionError);
-                
-                // Fallback: If verification fails but we have configured the system to post directly,
-                // skip verification and post immediately
-                if (this.client.twitterConfig.POST_IMMEDIATELY) {
-                    elizaLogger.warn("Verification failed, but POST_IMMEDIATELY is enabled - posting tweet directly");
-                    
-                    // Post the tweet directly
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent,
-                        this.twitterUsername
-                    );
-                    
-                    return "direct-posted"; // Special return value to indicate we posted directly
-                }
-                
-                return null;
-            }
-        } catch (error) {
-            elizaLogger.error("Error sending tweet for Raiinmaker verification:", error);
-            
-            // Fallback: If verification completely fails but we have configured the system to post directly,
-            // skip verification and post immediately
-            if (this.client.twitterConfig.POST_IMMEDIATELY) {
-                elizaLogger.warn("Verification process failed, but POST_IMMEDIATELY is enabled - posting tweet directly");
-                
-                try {
-                    // Post the tweet directly
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent,
-                        this.twitterUsername
-                    );
-                    
-                    return "direct-posted"; // Special return value to indicate we posted directly
-                } catch (postError) {
-                    elizaLogger.error("Failed to post tweet in fallback mode:", postError);
-                    return null;
-                }
+            if (this.approvalRequired) {
+                elizaLogger.log(`Twitter approval enabled using ${this.approvalProvider.name} verification with ${this.approvalCheckInterval/1000}s check interval`);
             }
-            
-            return null;
+        } else {
+            elizaLogger.debug(`🔍 Twitter approval disabled by configuration`);
         }
-    }
-    
-    
-    /**
-     * Checks the verification status of a task in the Raiinmaker system
-     * 
-     * @param taskId The ID of the verification task
-     * @returns The approval status of the task
-     */
-    private async checkRaiinmakerVerificationStatus(taskId: string): Promise<PendingTweetApprovalStatus> {
-        try {
-            if (this.approvalProvider !== "RAIINMAKER") {
-                return "PENDING";
-            }
-            
-            elizaLogger.log(`Checking verification status for task ID: ${taskId}`);
-            
-            try {
-                let verificationStatus: any = null;
-                
-                const checkActionMemory: Memory = {
-                    id: uuidv4() as `${string}-${string}-${string}-${string}-${string}`,
-                    userId: this.runtime.agentId,
-                    agentId: this.runtime.agentId,
-                    roomId: stringToUuid("verification_status_check"),
-                    content: {
-                        type: 'text',
-                        text: `Check verification status for task: "${taskId}"`,
-                        action: 'CHECK_VERIFICATION_STATUS',
-                        options: { taskId }
-                    }
-                };
 
-                await this.runtime.processActions(
-                    checkActionMemory,
-                    [checkActionMemory],
-                    undefined,
-                    async (result) => {
-                        verificationStatus = result;
-                        return [checkActionMemory];
-                    }
-                );
-                
-                if (!verificationStatus) {
-                    return "PENDING";
-                }
-                
-                // Parse the task status
-                const status = typeof verificationStatus.status === 'string' 
-                    ? verificationStatus.status.toLowerCase() 
-                    : null;
-                    
-                const answer = typeof verificationStatus.answer === 'string'
-                    ? verificationStatus.answer.toLowerCase()
-                    : null;
-                
-                // Check for completed and approved
-                if (status === 'completed') {
-                    if (answer === 'true' || answer === 'yes') {
-                        return "APPROVED";
-                    } else {
-                        return "REJECTED";
-                    }
-                }
-                
-                return "PENDING";
-                
-            } catch (error: any) {
-                if (error?.status === 404) {
-                    return "REJECTED";
-                }
-                throw error;
-            }
-        } catch (error) {
-            elizaLogger.error(`Error checking verification status for task ${taskId}:`, error);
-            return "PENDING";
+        const postCalendar = PostCalendar.forRuntime(this.runtime, "twitter");
+        if (postCalendar?.hasSlots()) {
+            this.postCalendar = postCalendar;
+            elizaLogger.log(`- Posting Calendar: ${postCalendar.config.timezone || "UTC"}, ${postCalendar.draftsAhead} drafts ahead`);
+        } else if (this.runtime.character.postingCalendar) {
+            elizaLogger.warn("Posting calendar is configured but the database adapter can't store scheduled posts, using random post intervals");
         }
-    }
 
-    /**
-     * Sends a tweet for verification through the Discord approval system
-     * 
-     * @param tweetTextForPosting The tweet text to be verified
-     * @param roomId The ID of the room associated with this tweet
-     * @param rawTweetContent The raw content before processing
-     * @returns The message ID or null if sending failed
-     */
-    private async sendForDiscordApproval(
-        tweetTextForPosting: string,
-        roomId: UUID,
-        rawTweetContent: string
-    ): Promise<string | null> {
-        try {
-            elizaLogger.log(`Sending tweet for Discord approval: "${tweetTextForPosting.substring(0, 50)}${tweetTextForPosting.length > 50 ? '...' : ''}"`);
-            
-            // Check if Discord client is initialized
-            if (!this.discordClientForApproval || !this.discordApprovalChannelId) {
-                elizaLogger.error("Discord client or channel ID not configured for approval");
-                
-                // If Discord approval fails but POST_IMMEDIATELY is enabled, post directly
-                if (this.client.twitterConfig.POST_IMMEDIATELY) {
-                    elizaLogger.warn("Discord approval failed, but POST_IMMEDIATELY is enabled - posting tweet directly");
-                    
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent,
-                        this.twitterUsername
-                    );
-                    
-                    return "direct-posted";
-                }
-                
-                return null;
-            }
-            
-            // Create embed for Discord message
-            const embed = {
-                title: "New Tweet Pending Approval",
-                description: tweetTextForPosting,
-                fields: [
-                    {
-                        name: "Character",
-                        value: this.client.profile.username,
-                        inline: true,
-                    },
-                    {
-                        name: "Length",
-                        value: tweetTextForPosting.length.toString(),
-                        inline: true,
-                    },
-                ],
-                footer: {
-                    text: "React with 👍 to approve or ❌ to reject. This will expire after 24 hours if no response received.",
-                },
-                timestamp: new Date().toISOString(),
-                color: 0x1DA1F2, // Twitter blue color
-            };
-            
-            // Fetch the channel
-            try {
-                const channel = await this.discordClientForApproval.channels.fetch(this.discordApprovalChannelId);
-                
-                if (!channel || !(channel instanceof TextChannel)) {
-                    throw new Error(`Invalid Discord channel: ${this.discordApprovalChannelId}`);
-                }
-                
-                // Send the approval message
-                const message = await channel.send({ embeds: [embed] });
-                
-                // Add the approval reactions for easy clicking
-                await message.react('👍');
-                await message.react('❌');
-                
-                // Store the pending tweet
-                const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweets`;
-                const currentPendingTweets = (await this.runtime.cacheManager.get<PendingTweet[]>(pendingTweetsKey)) || [];
-                
-                // Add new pending tweet
-                currentPendingTweets.push({
-                    tweetTextForPosting,
-                    roomId,
-                    rawTweetContent,
-                    taskId: message.id, // Use Discord message ID as task ID
-                    timestamp: Date.now()
-                });
-                
-                // Store updated array
-                await this.runtime.cacheManager.set(pendingTweetsKey, currentPendingTweets);
-                
-                elizaLogger.success(`Successfully sent tweet for Discord approval with message ID: ${message.id}`);
-                return message.id;
-                
-            } catch (error) {
-                elizaLogger.error("Error sending Discord approval message:", error);
-                
-                // If Discord approval fails but POST_IMMEDIATELY is enabled, post directly
-                if (this.client.twitterConfig.POST_IMMEDIATELY) {
-                    elizaLogger.warn("Discord approval failed, but POST_IMMEDIATELY is enabled - posting tweet directly");
-                    
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent,
-                        this.twitterUsername
-                    );
-                    
-                    return "direct-posted";
-                }
-                
-                return null;
-            }
-        } catch (error) {
-            elizaLogger.error("Error in Discord approval process:", error);
-            
-            // If verification completely fails but we have configured the system to post directly,
-            // skip verification and post immediately
-            if (this.client.twitterConfig.POST_IMMEDIATELY) {
-                elizaLogger.warn("Discord approval process failed, but POST_IMMEDIATELY is enabled - posting tweet directly");
-                
-                try {
-                    // Post the tweet directly
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent,
-                        this.twitterUsername
-                    );
-                    
-                    return "direct-posted"; // Special return value to indicate we posted directly
-                } catch (postError) {
-                    elizaLogger.error("Failed to post tweet in fallback mode:", postError);
-                    return null;
-                }
-            }
-            
-            return null;
-        }
+        elizaLogger.debug(`🔍 TwitterPostClient constructor complete. Final approval provider: "${this.approvalProviderName}", approval required: ${this.approvalRequired}`);
     }
 
     /**
@@ -698,12 +202,6 @@ export class TwitterPostClient {
      */
     async start() {
         try {
-            // Force Discord client to null for RAIINMAKER provider
-            if (this.approvalProvider?.toUpperCase() === "RAIINMAKER") {
-                elizaLogger.debug(`🔍 Explicitly ensuring Discord client is null for RAIINMAKER provider during start()`);
-                this.discordClientForApproval = null;
-            }
-            
             if (!this.client.profile) {
                 await this.client.init();
             }
@@ -765,8 +263,13 @@ export class TwitterPostClient {
             }
 
             if (this.client.twitterConfig.ENABLE_TWITTER_POST_GENERATION) {
-                generateNewTweetLoop();
-                elizaLogger.log("Tweet generation loop started");
+                if (this.postCalendar) {
+                    this.runPostCalendarLoop();
+                    elizaLogger.log("Posting calendar loop started");
+                } else {
+                    generateNewTweetLoop();
+                    elizaLogger.log("Tweet generation loop started");
+                }
             }
 
             if (this.client.twitterConfig.ENABLE_ACTION_PROCESSING) {
@@ -780,7 +283,7 @@ export class TwitterPostClient {
 
             // Start the pending tweet check loop if approval is required
             if (this.approvalRequired) {
-                await this.startVerificationPolling();
+                this.runPendingTweetCheckLoop();
             }
         } catch (error) {
             elizaLogger.error("Error starting Twitter client:", error);
@@ -788,9 +291,68 @@ export class TwitterPostClient {
     }
 
     private runPendingTweetCheckLoop() {
-        setInterval(async () => {
-            await this.handlePendingTweet();
+        this.pendingTweetCheckInterval = setInterval(async () => {
+            try {
+                await handlePendingTweet(
+                    this.runtime,
+                    this.client.profile.username,
+                    this.approvalProvider,
+                    (pendingTweet) =>
+                        this.postTweet(
+                            this.runtime,
+                            this.client,
+                            pendingTweet.tweetTextForPosting,
+                            pendingTweet.roomId,
+                            pendingTweet.rawTweetContent,
+                            this.twitterUsername
+                        ),
+                    this.client.moderator
+                );
+            } catch (error) {
+                elizaLogger.error("Error in tweet verification check loop:", error);
+            }
         }, this.approvalCheckInterval);
+
+        elizaLogger.log(`Started ${this.approvalProvider.name} verification check loop`);
+    }
+
+    /**
+     * Publishes the posts of the character's posting calendar at their slots,
+     * drafting upcoming posts ahead of time.
+     */
+    private runPostCalendarLoop() {
+        const roomId = this.getGenerateRoomId();
+
+        const postCalendarLoop = async () => {
+            try {
+                await this.postCalendar.tick({
+                    generateDraft: async () => {
+                        const draft = await this.generateTweetDraft(roomId);
+                        return draft.tweetTextForPosting || null;
+                    },
+                    publish: async (post) => {
+                        const status = await this.publishTweet(
+                            post.text,
+                            roomId,
+                            post.text
+                        );
+                        if (!status) {
+                            throw new Error("Tweet was blocked or not posted in a dry run");
+                        }
+                        return status;
+                    },
+                });
+            } catch (error) {
+                elizaLogger.error("Error in posting calendar loop:", error);
+            }
+
+            this.postCalendarTimeout = setTimeout(
+                postCalendarLoop,
+                POST_CALENDAR_CHECK_INTERVAL
+            );
+        };
+
+        postCalendarLoop();
     }
 
     createTweetObject(
@@ -873,7 +435,8 @@ export class TwitterPostClient {
                         content,
                         tweetId,
                         mediaData
-                    )
+                    ),
+                { endpoint: "sendNoteTweet" }
             );
 
             if (noteTweetResult.errors && noteTweetResult.errors.length > 0) {
@@ -909,7 +472,8 @@ export class TwitterPostClient {
                         content,
                         tweetId,
                         mediaData
-                    )
+                    ),
+                { endpoint: "sendTweet" }
             );
             const body = await standardTweetResult.json();
             if (!body?.data?.create_tweet?.tweet_results?.result) {
@@ -923,6 +487,11 @@ export class TwitterPostClient {
         }
     }
 
+    /**
+     * Posts a tweet and records it, throwing if it wasn't posted.
+     *
+     * @returns The posted tweet
+     */
     async postTweet(
         runtime: IAgentRuntime,
         client: ClientBase,
@@ -953,6 +522,10 @@ export class TwitterPostClient {
                 );
             }
 
+            if (!result) {
+                throw new Error("Twitter did not return the posted tweet");
+            }
+
             const tweet = this.createTweetObject(
                 result,
                 client,
@@ -966,35 +539,124 @@ export class TwitterPostClient {
                 roomId,
                 rawTweetContent
             );
+            return tweet;
         } catch (error) {
             elizaLogger.error("Error sending tweet:", error);
+            throw error;
         }
     }
 
     /**
-     * Sends a tweet for verification through the configured provider
+     * Posts tweets as a thread, each replying to the one before. Nothing is
+     * posted in dry runs, when a tweet is blocked by moderation, or when posts
+     * need approval, which only covers single tweets.
+     *
+     * @returns The posted tweets
+     */
+    async postThread(texts: string[]): Promise<Tweet[]> {
+        for (const text of texts) {
+            const moderation = await this.client.moderator.check(text, {
+                direction: "outbound",
+                source: "twitter:post",
+            });
+            if (!moderation.allowed) {
+                return [];
+            }
+        }
+
+        if (this.isDryRun) {
+            elizaLogger.info(
+                `Dry run: would have posted thread:\n${texts.join("\n---\n")}`
+            );
+            return [];
+        }
+        if (this.approvalRequired) {
+            elizaLogger.warn(
+                "Threads can't be sent for approval, not posting thread"
+            );
+            return [];
+        }
+
+        const roomId = this.getGenerateRoomId();
+        const tweets: Tweet[] = [];
+        for (const text of texts) {
+            const result = await this.sendStandardTweet(
+                this.client,
+                text,
+                tweets[tweets.length - 1]?.id
+            );
+            if (!result) {
+                break;
+            }
+            const tweet = this.createTweetObject(
+                result,
+                this.client,
+                this.twitterUsername
+            );
+            await this.processAndCacheTweet(
+                this.runtime,
+                this.client,
+                tweet,
+                roomId,
+                text
+            );
+            tweets.push(tweet);
+        }
+        return tweets;
+    }
+
+    /**
+     * Sends a tweet for verification through the configured provider and records
+     * it as pending. If submission fails and POST_IMMEDIATELY is enabled, the
+     * tweet is posted directly instead.
+     *
+     * @returns The provider's task ID, "direct-posted", or null if the tweet was dropped
      */
     private async sendForVerification(
         tweetTextForPosting: string,
         roomId: UUID,
         rawTweetContent: string
     ): Promise<string | null> {
-        // Force provider to uppercase for consistent comparison
-        const provider = this.approvalProvider.toUpperCase();
-        
-        // Add explicit safety measure - if we're using RAIINMAKER, nullify Discord
-        if (provider === "RAIINMAKER") {
-            this.discordClientForApproval = null;
-            return this.sendForRaiinmakerVerification(tweetTextForPosting, roomId, rawTweetContent);
-        } else if (provider === "DISCORD") {
-            // Only attempt Discord if it's explicitly selected
-            return this.sendForDiscordApproval(tweetTextForPosting, roomId, rawTweetContent);
-        } else {
-            // For any other provider, default to Raiinmaker for safety
-            elizaLogger.warn(`Unknown provider "${this.approvalProvider}", defaulting to Raiinmaker`);
-            this.discordClientForApproval = null;
-            return this.sendForRaiinmakerVerification(tweetTextForPosting, roomId, rawTweetContent);
+        let taskId: string | null = null;
+        try {
+            taskId = await this.approvalProvider.submit({
+                tweetTextForPosting,
+                roomId,
+                rawTweetContent,
+            });
+        } catch (error) {
+            elizaLogger.error(`Error sending tweet for ${this.approvalProvider.name} verification:`, error);
+        }
+
+        if (taskId) {
+            await addPendingTweet(this.runtime, this.client.profile.username, this.approvalProvider.name, {
+                tweetTextForPosting,
+                roomId,
+                rawTweetContent,
+                taskId,
+                timestamp: Date.now(),
+            });
+            return taskId;
+        }
+
+        // Fallback: If verification fails but we have configured the system to post directly,
+        // skip verification and post immediately
+        if (this.client.twitterConfig.POST_IMMEDIATELY) {
+            elizaLogger.warn(`${this.approvalProvider.name} verification failed, but POST_IMMEDIATELY is enabled - posting tweet directly`);
+
+            await this.postTweet(
+                this.runtime,
+                this.client,
+                tweetTextForPosting,
+                roomId,
+                rawTweetContent,
+                this.twitterUsername
+            );
+
+            return "direct-posted"; // Special return value to indicate we posted directly
         }
+
+        return null;
     }
 
     /**
@@ -1004,175 +666,232 @@ export class TwitterPostClient {
         elizaLogger.log("Generating new tweet");
 
         try {
-            const roomId = stringToUuid(
-                "twitter_generate_room-" + this.client.profile.username
-            );
-            await this.runtime.ensureUserExists(
-                this.runtime.agentId,
-                this.client.profile.username,
-                this.runtime.character.name,
-                "twitter"
-            );
+            const roomId = this.getGenerateRoomId();
+            const { tweetTextForPosting, rawTweetContent, mediaData } =
+                await this.generateTweetDraft(roomId);
 
-            const topics = this.runtime.character.topics.join(", ");
-            const maxTweetLength = this.client.twitterConfig.MAX_TWEET_LENGTH;
-            const state = await this.runtime.composeState(
-                {
-                    userId: this.runtime.agentId,
-                    roomId: roomId,
-                    agentId: this.runtime.agentId,
-                    content: {
-                        text: topics || "",
-                        action: "TWEET",
-                    },
-                },
-                {
-                    twitterUserName: this.client.profile.username,
-                    maxTweetLength,
-                }
+            await this.publishTweet(
+                tweetTextForPosting,
+                roomId,
+                rawTweetContent,
+                mediaData
             );
+        } catch (error) {
+            elizaLogger.error("Error generating new tweet:", error);
+        }
+    }
 
-            const context = composeContext({
-                state,
-                template:
-                    this.runtime.character.templates?.twitterPostTemplate ||
-                    twitterPostTemplate,
-            });
+    private getGenerateRoomId(): UUID {
+        return stringToUuid(
+            "twitter_generate_room-" + this.client.profile.username
+        );
+    }
 
-            const response = await generateText({
-                runtime: this.runtime,
-                context,
-                modelClass: ModelClass.SMALL,
-            });
+    /**
+     * Generates the text (and any media) of a new tweet without posting it
+     */
+    private async generateTweetDraft(roomId: UUID): Promise<{
+        tweetTextForPosting: string;
+        rawTweetContent: string;
+        mediaData: MediaData[] | null;
+    }> {
+        await this.runtime.ensureUserExists(
+            this.runtime.agentId,
+            this.client.profile.username,
+            this.runtime.character.name,
+            "twitter"
+        );
 
-            const rawTweetContent = cleanJsonResponse(response);
+        const topics = this.runtime.character.topics.join(", ");
+        const maxTweetLength = this.client.twitterConfig.MAX_TWEET_LENGTH;
+        const state = await this.runtime.composeState(
+            {
+                userId: this.runtime.agentId,
+                roomId: roomId,
+                agentId: this.runtime.agentId,
+                content: {
+                    text: topics || "",
+                    action: "TWEET",
+                },
+            },
+            {
+                twitterUserName: this.client.profile.username,
+                maxTweetLength,
+            }
+        );
 
-            // First attempt to clean content
-            let tweetTextForPosting = null;
-            let mediaData = null;
+        const context = composeContext({
+            state,
+            template:
+                this.runtime.character.templates?.twitterPostTemplate ||
+                twitterPostTemplate,
+        });
 
-            // Try parsing as JSON first
-            const parsedResponse = parseJSONObjectFromText(rawTweetContent);
-            if (parsedResponse?.text) {
-                tweetTextForPosting = parsedResponse.text;
-            } else {
-                // If not JSON, use the raw text directly
-                tweetTextForPosting = rawTweetContent.trim();
-            }
+        const response = await generateText({
+            runtime: this.runtime,
+            context,
+            modelClass: ModelClass.SMALL,
+        });
 
-            if (
-                parsedResponse?.attachments &&
-                parsedResponse?.attachments.length > 0
-            ) {
-                mediaData = await fetchMediaData(parsedResponse.attachments);
-            }
+        const rawTweetContent = cleanJsonResponse(response);
 
-            // Try extracting text attribute
-            if (!tweetTextForPosting) {
-                const parsingText = extractAttributes(rawTweetContent, [
-                    "text",
-                ]).text;
-                if (parsingText) {
-                    tweetTextForPosting = truncateToCompleteSentence(
-                        extractAttributes(rawTweetContent, ["text"]).text,
-                        this.client.twitterConfig.MAX_TWEET_LENGTH
-                    );
-                }
-            }
+        // First attempt to clean content
+        let tweetTextForPosting = null;
+        let mediaData = null;
 
-            // Use the raw text
-            if (!tweetTextForPosting) {
-                tweetTextForPosting = rawTweetContent;
-            }
+        // Try parsing as JSON first
+        const parsedResponse = parseJSONObjectFromText(rawTweetContent);
+        if (parsedResponse?.text) {
+            tweetTextForPosting = parsedResponse.text;
+        } else {
+            // If not JSON, use the raw text directly
+            tweetTextForPosting = rawTweetContent.trim();
+        }
 
-            // Truncate the content to the maximum tweet length specified in the environment settings, ensuring the truncation respects sentence boundaries.
-            if (maxTweetLength) {
+        if (
+            parsedResponse?.attachments &&
+            parsedResponse?.attachments.length > 0
+        ) {
+            mediaData = await fetchMediaData(parsedResponse.attachments);
+        }
+
+        // Try extracting text attribute
+        if (!tweetTextForPosting) {
+            const parsingText = extractAttributes(rawTweetContent, [
+                "text",
+            ]).text;
+            if (parsingText) {
                 tweetTextForPosting = truncateToCompleteSentence(
-                    tweetTextForPosting,
-                    maxTweetLength
+                    extractAttributes(rawTweetContent, ["text"]).text,
+                    this.client.twitterConfig.MAX_TWEET_LENGTH
                 );
             }
+        }
 
-            const removeQuotes = (str: string) =>
-                str.replace(/^['"](.*)['"]$/, "$1");
-
-            const fixNewLines = (str: string) => str.replaceAll(/\\n/g, "\n\n"); //ensures double spaces
+        // Use the raw text
+        if (!tweetTextForPosting) {
+            tweetTextForPosting = rawTweetContent;
+        }
 
-            // Final cleaning
-            tweetTextForPosting = removeQuotes(
-                fixNewLines(tweetTextForPosting)
+        // Truncate the content to the maximum tweet length specified in the environment settings, ensuring the truncation respects sentence boundaries.
+        if (maxTweetLength) {
+            tweetTextForPosting = truncateToCompleteSentence(
+                tweetTextForPosting,
+                maxTweetLength
             );
+        }
 
-            if (this.isDryRun) {
-                elizaLogger.info(
-                    `Dry run: would have posted tweet: ${tweetTextForPosting}`
-                );
-                return;
-            }
+        const removeQuotes = (str: string) =>
+            str.replace(/^['"](.*)['"]$/, "$1");
 
-            try {
-                if (this.approvalRequired) {
-                    // Send for verification using the configured provider
-                    elizaLogger.log(`Sending Tweet for ${this.approvalProvider} verification:\n ${tweetTextForPosting}`);
-                    
-                    const taskId = await this.sendForVerification(
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent
-                    );
-                    
-                    if (taskId === "direct-posted") {
-                        elizaLogger.log("Tweet was posted directly due to verification fallback");
-                    } else if (taskId) {
-                        elizaLogger.log(`Tweet sent for verification with task ID: ${taskId}`);
-                    } else {
-                        elizaLogger.error("Failed to send tweet for verification");
-                    }
-                } else {
-                    elizaLogger.log(
-                        `Posting new tweet directly (no approval required):\n ${tweetTextForPosting}`
-                    );
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        tweetTextForPosting,
-                        roomId,
-                        rawTweetContent,
-                        this.twitterUsername,
-                        mediaData
-                    );
-                }
-            } catch (error) {
-                elizaLogger.error("Error sending tweet:", error);
+        const fixNewLines = (str: string) => str.replaceAll(/\\n/g, "\n\n"); //ensures double spaces
+
+        // Final cleaning
+        tweetTextForPosting = removeQuotes(
+            fixNewLines(tweetTextForPosting)
+        );
+
+        return { tweetTextForPosting, rawTweetContent, mediaData };
+    }
+
+    /**
+     * Sends a generated tweet for verification if required, or posts it directly
+     *
+     * @returns "POSTED", "PENDING_APPROVAL" once sent for verification, or null
+     * if the tweet was blocked by moderation or not posted in a dry run
+     * @throws If the tweet couldn't be sent
+     */
+    private async publishTweet(
+        tweetTextForPosting: string,
+        roomId: UUID,
+        rawTweetContent: string,
+        mediaData?: MediaData[] | null
+    ): Promise<"POSTED" | "PENDING_APPROVAL" | null> {
+        const moderation = await this.client.moderator.check(
+            tweetTextForPosting,
+            { direction: "outbound", source: "twitter:post" }
+        );
+        if (!moderation.allowed) {
+            return null;
+        }
+
+        if (this.isDryRun) {
+            elizaLogger.info(
+                `Dry run: would have posted tweet: ${tweetTextForPosting}`
+            );
+            return null;
+        }
+
+        if (this.approvalRequired) {
+            // Send for verification using the configured provider
+            elizaLogger.log(`Sending Tweet for ${this.approvalProvider.name} verification:\n ${tweetTextForPosting}`);
+
+            const taskId = await this.sendForVerification(
+                tweetTextForPosting,
+                roomId,
+                rawTweetContent
+            );
+
+            if (taskId === "direct-posted") {
+                elizaLogger.log("Tweet was posted directly due to verification fallback");
+                return "POSTED";
             }
-        } catch (error) {
-            elizaLogger.error("Error generating new tweet:", error);
+            if (!taskId) {
+                throw new Error("Failed to send tweet for verification");
+            }
+            elizaLogger.log(`Tweet sent for verification with task ID: ${taskId}`);
+            return "PENDING_APPROVAL";
         }
+
+        elizaLogger.log(
+            `Posting new tweet directly (no approval required):\n ${tweetTextForPosting}`
+        );
+        await this.postTweet(
+            this.runtime,
+            this.client,
+            tweetTextForPosting,
+            roomId,
+            rawTweetContent,
+            this.twitterUsername,
+            mediaData
+        );
+        return "POSTED";
     }
 
+    /**
+     * Generates the text of a reply or quote tweet, with its Bible quotes
+     * verified against the verses, generating it again while misquoted
+     */
     private async generateTweetContent(
         tweetState: any,
         options?: {
             template?: TemplateType;
             context?: string;
         }
-    ): Promise<string> {
-        const context = composeContext({
-            state: tweetState,
-            template:
-                options?.template ||
-                this.runtime.character.templates?.twitterPostTemplate ||
-                twitterPostTemplate,
-        });
+    ): Promise<ScriptureVerification | null> {
+        const context =
+            options?.context ||
+            composeContext({
+                state: tweetState,
+                template:
+                    options?.template ||
+                    this.runtime.character.templates?.twitterPostTemplate ||
+                    twitterPostTemplate,
+            });
 
-        const response = await generateText({
-            runtime: this.runtime,
-            context: options?.context || context,
-            modelClass: ModelClass.SMALL,
-        });
+        return this.scriptureVerifier.generate(async (feedback) => {
+            const response = await generateText({
+                runtime: this.runtime,
+                context: feedback ? `${context}\n\n${feedback}` : context,
+                modelClass: ModelClass.SMALL,
+            });
 
-        elizaLogger.log("generate tweet content response:\n" + response);
+            elizaLogger.log("generate tweet content response:\n" + response);
+            return this.parseTweetContent(response);
+        });
+    }
 
+    private parseTweetContent(response: string): string {
         // First clean up any markdown and newlines
         const cleanedResponse = cleanJsonResponse(response);
 
@@ -1290,21 +1009,46 @@ export class TwitterPostClient {
                             twitterActionTemplate,
                     });
 
-                    const actionResponse = await generateTweetActions({
+                    const decisions = await generateTweetActionDecisions({
                         runtime: this.runtime,
                         context: actionContext,
                         modelClass: ModelClass.SMALL,
                     });
 
-                    if (!actionResponse) {
+                    if (!decisions) {
                         elizaLogger.log(
                             `No valid actions generated for tweet ${tweet.id}`
                         );
+                        await this.recordDecisions(
+                            tweet,
+                            [],
+                            "No valid action decisions generated"
+                        );
                         continue;
                     }
+
+                    const minConfidence =
+                        this.client.twitterConfig.TWITTER_ACTION_MIN_CONFIDENCE;
+                    for (const decision of decisions) {
+                        if (decision.confidence < minConfidence) {
+                            decision.outcome = "BELOW_CONFIDENCE";
+                        }
+                    }
+                    const isChosen = (action: TweetActionType) =>
+                        decisions.some(
+                            (decision) =>
+                                decision.action === action &&
+                                !decision.outcome
+                        );
                     processedTimelines.push({
                         tweet: tweet,
-                        actionResponse: actionResponse,
+                        actionResponse: {
+                            like: isChosen("LIKE"),
+                            retweet: isChosen("RETWEET"),
+                            quote: isChosen("QUOTE"),
+                            reply: isChosen("REPLY"),
+                        },
+                        decisions,
                         tweetState: tweetState,
                         roomId: roomId,
                     });
@@ -1342,9 +1086,15 @@ export class TwitterPostClient {
             };
             // Sort the timeline based on the action decision score,
             // then slice the results according to the environment variable to limit the number of actions per cycle.
-            const sortedTimelines = sortProcessedTimeline(
-                processedTimelines
-            ).slice(0, maxActionsProcessing);
+            const sortedTimelines = sortProcessedTimeline(processedTimelines);
+            for (const { tweet, decisions } of sortedTimelines.splice(
+                maxActionsProcessing
+            )) {
+                for (const decision of decisions) {
+                    decision.outcome ??= "DEFERRED";
+                }
+                await this.recordDecisions(tweet, decisions);
+            }
 
             return this.processTimelineActions(sortedTimelines); // Return results array to indicate completion
         } catch (error) {
@@ -1367,6 +1117,7 @@ export class TwitterPostClient {
         timelines: {
             tweet: Tweet;
             actionResponse: ActionResponse;
+            decisions: TweetActionDecision[];
             tweetState: State;
             roomId: UUID;
         }[]
@@ -1374,16 +1125,50 @@ export class TwitterPostClient {
         {
             tweetId: string;
             actionResponse: ActionResponse;
+            decisions: TweetActionDecision[];
             executedActions: string[];
         }[]
     > {
         const results = [];
+        // Actions taken over the last 24 hours, for the daily caps
+        const takenActions = await this.decisionLog.countTaken(
+            this.twitterUsername
+        );
         for (const timeline of timelines) {
-            const { actionResponse, tweetState, roomId, tweet } = timeline;
+            const { actionResponse, decisions, tweetState, roomId, tweet } =
+                timeline;
             try {
                 const executedActions: string[] = [];
+                // Actions taken earlier, possibly by another Twitter client of this agent
+                const recordedActions =
+                    await this.client.processedTweets.getActions(tweet.id);
+                const canTake = (
+                    action: TweetActionType,
+                    processedAction: ProcessedTweetAction
+                ) => {
+                    const decision = decisions.find(
+                        (decision) => decision.action === action
+                    );
+                    if (!decision || decision.outcome) return false;
+                    if (recordedActions.includes(processedAction)) {
+                        elizaLogger.log(
+                            `Tweet ${tweet.id} already ${processedAction.toLowerCase()}, skipping`
+                        );
+                        decision.outcome = "ALREADY_TAKEN";
+                        return false;
+                    }
+                    if (takenActions[action] >= this.getDailyLimit(action)) {
+                        elizaLogger.log(
+                            `Daily ${action.toLowerCase()} limit reached, skipping tweet ${tweet.id}`
+                        );
+                        decision.outcome = "DAILY_CAP";
+                        return false;
+                    }
+                    return true;
+                };
+
                 // Execute actions
-                if (actionResponse.like) {
+                if (actionResponse.like && canTake("LIKE", "LIKED")) {
                     if (this.isDryRun) {
                         elizaLogger.info(
                             `Dry run: would have liked tweet ${tweet.id}`
@@ -1391,7 +1176,20 @@ export class TwitterPostClient {
                         executedActions.push("like (dry run)");
                     } else {
                         try {
-                            await this.client.twitterClient.likeTweet(tweet.id);
+                            await this.client.requestQueue.add(
+                                () =>
+                                    this.client.twitterClient.likeTweet(
+                                        tweet.id
+                                    ),
+                                {
+                                    priority: RequestPriority.Low,
+                                    endpoint: "likeTweet",
+                                }
+                            );
+                            await this.client.processedTweets.mark(
+                                tweet.id,
+                                "LIKED"
+                            );
                             executedActions.push("like");
                             elizaLogger.log(`Liked tweet ${tweet.id}`);
                         } catch (error) {
@@ -1403,7 +1201,7 @@ export class TwitterPostClient {
                     }
                 }
 
-                if (actionResponse.retweet) {
+                if (actionResponse.retweet && canTake("RETWEET", "RETWEETED")) {
                     if (this.isDryRun) {
                         elizaLogger.info(
                             `Dry run: would have retweeted tweet ${tweet.id}`
@@ -1411,7 +1209,20 @@ export class TwitterPostClient {
                         executedActions.push("retweet (dry run)");
                     } else {
                         try {
-                            await this.client.twitterClient.retweet(tweet.id);
+                            await this.client.requestQueue.add(
+                                () =>
+                                    this.client.twitterClient.retweet(
+                                        tweet.id
+                                    ),
+                                {
+                                    priority: RequestPriority.Low,
+                                    endpoint: "retweet",
+                                }
+                            );
+                            await this.client.processedTweets.mark(
+                                tweet.id,
+                                "RETWEETED"
+                            );
                             executedActions.push("retweet");
                             elizaLogger.log(`Retweeted tweet ${tweet.id}`);
                         } catch (error) {
@@ -1423,147 +1234,16 @@ export class TwitterPostClient {
                     }
                 }
 
-                if (actionResponse.quote) {
+                if (actionResponse.quote && canTake("QUOTE", "QUOTED")) {
                     try {
-                        // Build conversation thread for context
-                        const thread = await buildConversationThread(
+                        const outcome = await this.handleQuoteTweet(
                             tweet,
-                            this.client
-                        );
-                        const formattedConversation = thread
-                            .map(
-                                (t) =>
-                                    `@${t.username} (${new Date(
-                                        t.timestamp * 1000
-                                    ).toLocaleString()}): ${t.text}`
-                            )
-                            .join("\n\n");
-
-                        // Generate image descriptions if present
-                        const imageDescriptions = [];
-                        if (tweet.photos?.length > 0) {
-                            elizaLogger.log(
-                                "Processing images in tweet for context"
-                            );
-                            for (const photo of tweet.photos) {
-                                const description = await this.runtime
-                                    .getService<IImageDescriptionService>(
-                                        ServiceType.IMAGE_DESCRIPTION
-                                    )
-                                    .describeImage(photo.url);
-                                imageDescriptions.push(description);
-                            }
-                        }
-
-                        // Handle quoted tweet if present
-                        let quotedContent = "";
-                        if (tweet.quotedStatusId) {
-                            try {
-                                const quotedTweet =
-                                    await this.client.twitterClient.getTweet(
-                                        tweet.quotedStatusId
-                                    );
-                                if (quotedTweet) {
-                                    quotedContent = `\nQuoted Tweet from @${quotedTweet.username}:\n${quotedTweet.text}`;
-                                }
-                            } catch (error) {
-                                elizaLogger.error(
-                                    "Error fetching quoted tweet:",
-                                    error
-                                );
-                            }
-                        }
-
-                        // Compose rich state with all context
-                        const enrichedState = await this.runtime.composeState(
-                            {
-                                userId: this.runtime.agentId,
-                                roomId: stringToUuid(
-                                    tweet.conversationId +
-                                        "-" +
-                                        this.runtime.agentId
-                                ),
-                                agentId: this.runtime.agentId,
-                                content: {
-                                    text: tweet.text,
-                                    action: "QUOTE",
-                                },
-                            },
-                            {
-                                twitterUserName: this.twitterUsername,
-                                currentPost: `From @${tweet.username}: ${tweet.text}`,
-                                formattedConversation,
-                                imageContext:
-                                    imageDescriptions.length > 0
-                                        ? `\nImages in Tweet:\n${imageDescriptions
-                                              .map(
-                                                  (desc, i) =>
-                                                      `Image ${i + 1}: ${desc}`
-                                              )
-                                              .join("\n")}`
-                                        : "",
-                                quotedContent,
-                            }
-                        );
-
-                        const quoteContent = await this.generateTweetContent(
-                            enrichedState,
-                            {
-                                template:
-                                    this.runtime.character.templates
-                                        ?.twitterMessageHandlerTemplate ||
-                                    twitterMessageHandlerTemplate,
-                            }
-                        );
-
-                        if (!quoteContent) {
-                            elizaLogger.error(
-                                "Failed to generate valid quote tweet content"
-                            );
-                            return;
-                        }
-
-                        elizaLogger.log(
-                            "Generated quote tweet content:",
-                            quoteContent
+                            executedActions
                         );
-                        // Check for dry run mode
-                        if (this.isDryRun) {
-                            elizaLogger.info(
-                                `Dry run: A quote tweet for tweet ID ${tweet.id} would have been posted with the following content: "${quoteContent}".`
-                            );
-                            executedActions.push("quote (dry run)");
-                        } else {
-                            // Send the tweet through request queue
-                            const result = await this.client.requestQueue.add(
-                                async () =>
-                                    await this.client.twitterClient.sendQuoteTweet(
-                                        quoteContent,
-                                        tweet.id
-                                    )
-                            );
-
-                            const body = await result.json();
-
-                            if (
-                                body?.data?.create_tweet?.tweet_results?.result
-                            ) {
-                                elizaLogger.log(
-                                    "Successfully posted quote tweet"
-                                );
-                                executedActions.push("quote");
-
-                                // Cache generation context for debugging
-                                await this.runtime.cacheManager.set(
-                                    `twitter/quote_generation_${tweet.id}.txt`,
-                                    `Context:\n${enrichedState}\n\nGenerated Quote:\n${quoteContent}`
-                                );
-                            } else {
-                                elizaLogger.error(
-                                    "Quote tweet creation failed:",
-                                    body
-                                );
-                            }
+                        if (outcome) {
+                            decisions.find(
+                                (decision) => decision.action === "QUOTE"
+                            ).outcome = outcome;
                         }
                     } catch (error) {
                         elizaLogger.error(
@@ -1573,7 +1253,7 @@ export class TwitterPostClient {
                     }
                 }
 
-                if (actionResponse.reply) {
+                if (actionResponse.reply && canTake("REPLY", "REPLIED")) {
                     try {
                         await this.handleTextOnlyReply(
                             tweet,
@@ -1619,9 +1299,25 @@ export class TwitterPostClient {
                     });
                 }
 
+                for (const decision of decisions) {
+                    if (decision.outcome) continue;
+                    const name = EXECUTED_ACTION_NAMES[decision.action];
+                    if (executedActions.includes(name)) {
+                        decision.outcome = "TAKEN";
+                    } else if (executedActions.includes(`${name} (dry run)`)) {
+                        decision.outcome = "DRY_RUN";
+                    } else {
+                        decision.outcome = "FAILED";
+                        continue;
+                    }
+                    takenActions[decision.action]++;
+                }
+                await this.recordDecisions(tweet, decisions);
+
                 results.push({
                     tweetId: tweet.id,
                     actionResponse: actionResponse,
+                    decisions,
                     executedActions,
                 });
             } catch (error) {
@@ -1633,6 +1329,234 @@ export class TwitterPostClient {
         return results;
     }
 
+    private getDailyLimit(action: TweetActionType): number {
+        const config = this.client.twitterConfig;
+        switch (action) {
+            case "LIKE":
+                return config.TWITTER_DAILY_LIKE_LIMIT;
+            case "RETWEET":
+                return config.TWITTER_DAILY_RETWEET_LIMIT;
+            case "QUOTE":
+                return config.TWITTER_DAILY_QUOTE_LIMIT;
+            case "REPLY":
+                return config.TWITTER_DAILY_REPLY_LIMIT;
+        }
+    }
+
+    /**
+     * Records what was decided on a tweet and what came of it, "no action"
+     * included, for auditing.
+     */
+    private async recordDecisions(
+        tweet: Tweet,
+        decisions: TweetActionDecision[],
+        error?: string
+    ): Promise<void> {
+        const createdAt = Date.now();
+        try {
+            await this.decisionLog.record({
+                id: stringToUuid(
+                    `${tweet.id}-${this.twitterUsername}-${createdAt}`
+                ),
+                agentId: this.runtime.agentId,
+                account: this.twitterUsername,
+                tweetId: tweet.id,
+                authorUsername: tweet.username,
+                text: tweet.text,
+                decisions,
+                error,
+                createdAt,
+            });
+        } catch (error) {
+            elizaLogger.error(
+                `Error recording action decisions on tweet ${tweet.id}:`,
+                error
+            );
+        }
+    }
+
+    /**
+     * Quotes a tweet with generated text. If isDryRun is true, only logs what
+     * would have been posted.
+     *
+     * @returns Why the quote wasn't posted, when it was given up on before
+     * sending it
+     */
+    private async handleQuoteTweet(
+        tweet: Tweet,
+        executedActions: string[]
+    ): Promise<TweetActionOutcome | undefined> {
+        // Build conversation thread for context
+        const thread = await buildConversationThread(
+            tweet,
+            this.client
+        );
+        const formattedConversation = thread
+            .map(
+                (t) =>
+                    `@${t.username} (${new Date(
+                        t.timestamp * 1000
+                    ).toLocaleString()}): ${t.text}`
+            )
+            .join("\n\n");
+
+        // Generate image descriptions if present
+        const imageDescriptions = [];
+        if (tweet.photos?.length > 0) {
+            elizaLogger.log(
+                "Processing images in tweet for context"
+            );
+            for (const photo of tweet.photos) {
+                const description = await this.runtime
+                    .getService<IImageDescriptionService>(
+                        ServiceType.IMAGE_DESCRIPTION
+                    )
+                    .describeImage(photo.url);
+                imageDescriptions.push(description);
+            }
+        }
+
+        // Handle quoted tweet if present
+        let quotedContent = "";
+        if (tweet.quotedStatusId) {
+            try {
+                const quotedTweet =
+                    await this.client.twitterClient.getTweet(
+                        tweet.quotedStatusId
+                    );
+                if (quotedTweet) {
+                    quotedContent = `\nQuoted Tweet from @${quotedTweet.username}:\n${quotedTweet.text}`;
+                }
+            } catch (error) {
+                elizaLogger.error(
+                    "Error fetching quoted tweet:",
+                    error
+                );
+            }
+        }
+
+        // Compose rich state with all context
+        const enrichedState = await this.runtime.composeState(
+            {
+                userId: this.runtime.agentId,
+                roomId: stringToUuid(
+                    tweet.conversationId +
+                        "-" +
+                        this.runtime.agentId
+                ),
+                agentId: this.runtime.agentId,
+                content: {
+                    text: tweet.text,
+                    action: "QUOTE",
+                },
+            },
+            {
+                twitterUserName: this.twitterUsername,
+                currentPost: `From @${tweet.username}: ${tweet.text}`,
+                formattedConversation,
+                imageContext:
+                    imageDescriptions.length > 0
+                        ? `\nImages in Tweet:\n${imageDescriptions
+                              .map(
+                                  (desc, i) =>
+                                      `Image ${i + 1}: ${desc}`
+                              )
+                              .join("\n")}`
+                        : "",
+                quotedContent,
+            }
+        );
+
+        const quote = await this.generateTweetContent(
+            enrichedState,
+            {
+                template:
+                    this.runtime.character.templates
+                        ?.twitterMessageHandlerTemplate ||
+                    twitterMessageHandlerTemplate,
+            }
+        );
+        const quoteContent = quote?.text;
+
+        if (!quoteContent) {
+            elizaLogger.error(
+                "Failed to generate valid quote tweet content"
+            );
+            return "FAILED";
+        }
+
+        const moderation = await this.client.moderator.check(
+            quoteContent,
+            {
+                direction: "outbound",
+                source: `twitter:quote:${tweet.id}`,
+            }
+        );
+        if (!moderation.allowed) {
+            return "BLOCKED";
+        }
+
+        elizaLogger.log(
+            "Generated quote tweet content:",
+            quoteContent
+        );
+        // Check for dry run mode
+        if (this.isDryRun) {
+            elizaLogger.info(
+                `Dry run: A quote tweet for tweet ID ${tweet.id} would have been posted with the following content: "${quoteContent}".`
+            );
+            executedActions.push("quote (dry run)");
+        } else {
+            // Send the tweet through request queue
+            const result = await this.client.requestQueue.add(
+                async () =>
+                    await this.client.twitterClient.sendQuoteTweet(
+                        quoteContent,
+                        tweet.id
+                    ),
+                {
+                    priority: RequestPriority.Low,
+                    endpoint: "sendQuoteTweet",
+                }
+            );
+
+            const body = await result.json();
+
+            if (
+                body?.data?.create_tweet?.tweet_results?.result
+            ) {
+                elizaLogger.log(
+                    "Successfully posted quote tweet"
+                );
+                const quoteId =
+                    body.data.create_tweet.tweet_results.result
+                        .rest_id;
+                await this.client.processedTweets.mark(
+                    tweet.id,
+                    "QUOTED",
+                    quoteId
+                );
+                await this.scriptureVerifier.record(
+                    quoteId,
+                    quote,
+                    `twitter:quote:${tweet.id}`
+                );
+                executedActions.push("quote");
+
+                // Cache generation context for debugging
+                await this.runtime.cacheManager.set(
+                    `twitter/quote_generation_${tweet.id}.txt`,
+                    `Context:\n${enrichedState}\n\nGenerated Quote:\n${quoteContent}`
+                );
+            } else {
+                elizaLogger.error(
+                    "Quote tweet creation failed:",
+                    body
+                );
+            }
+        }
+    }
+
     /**
      * Handles text-only replies to tweets. If isDryRun is true, only logs what would
      * have been replied without making API calls.
@@ -1709,18 +1633,27 @@ export class TwitterPostClient {
             );
 
             // Generate and clean the reply content
-            const replyText = await this.generateTweetContent(enrichedState, {
+            const reply = await this.generateTweetContent(enrichedState, {
                 template:
                     this.runtime.character.templates
                         ?.twitterMessageHandlerTemplate ||
                     twitterMessageHandlerTemplate,
             });
+            const replyText = reply?.text;
 
             if (!replyText) {
                 elizaLogger.error("Failed to generate valid reply content");
                 return;
             }
 
+            const moderation = await this.client.moderator.check(replyText, {
+                direction: "outbound",
+                source: `twitter:reply:${tweet.id}`,
+            });
+            if (!moderation.allowed) {
+                return;
+            }
+
             if (this.isDryRun) {
                 elizaLogger.info(
                     `Dry run: reply to tweet ${tweet.id} would have been: ${replyText}`
@@ -1747,6 +1680,16 @@ export class TwitterPostClient {
 
             if (result) {
                 elizaLogger.log("Successfully posted reply tweet");
+                await this.client.processedTweets.mark(
+                    tweet.id,
+                    "REPLIED",
+                    result.rest_id
+                );
+                await this.scriptureVerifier.record(
+                    result.rest_id,
+                    reply,
+                    `twitter:reply:${tweet.id}`
+                );
                 executedActions.push("reply");
 
                 // Cache generation context for debugging
@@ -1767,244 +1710,21 @@ export class TwitterPostClient {
      */
     async stop() {
         this.stopProcessingActions = true;
-        
-        // Disconnect Discord client if it was initialized
-        if (this.discordClientForApproval) {
-            elizaLogger.log("Disconnecting Discord client");
-            this.discordClientForApproval.destroy();
-        }
-        
-        elizaLogger.log("Twitter post client stopped");
-    }
 
-    private async checkVerificationStatus(taskId: string): Promise<PendingTweetApprovalStatus> {
-        if (this.approvalProvider === "DISCORD") {
-            return this.checkApprovalStatus(taskId);
-        } else if (this.approvalProvider === "RAIINMAKER") {
-            return this.checkRaiinmakerVerificationStatus(taskId);
-        } else {
-            elizaLogger.warn(`Unknown provider "${this.approvalProvider}", defaulting to PENDING status`);
-            return "PENDING";
+        if (this.postCalendarTimeout) {
+            clearTimeout(this.postCalendarTimeout);
+            this.postCalendarTimeout = null;
         }
-    }
-
-    private async checkApprovalStatus(
-        discordMessageId: string
-    ): Promise<PendingTweetApprovalStatus> {
-        try {
-            // Guard to prevent Discord checks when not using Discord provider
-            if (this.approvalProvider !== "DISCORD") {
-                return "PENDING";
-            }
-            
-            // Fetch message and its replies from Discord
-            if (!this.discordClientForApproval) {
-                elizaLogger.error("Discord client not initialized for approval check");
-                return "PENDING";
-            }
-            
-            const channel = await this.discordClientForApproval.channels.fetch(
-                this.discordApprovalChannelId
-            );
 
-            if (!(channel instanceof TextChannel)) {
-                elizaLogger.error("Invalid approval channel");
-                return "PENDING";
-            }
-
-            // Fetch the original message and its replies
-            const message = await channel.messages.fetch(discordMessageId);
-
-            // Look for thumbs up reaction ('👍')
-            const thumbsUpReaction = message.reactions.cache.find(
-                (reaction) => reaction.emoji.name === "👍"
-            );
-
-            // Look for reject reaction ('❌')
-            const rejectReaction = message.reactions.cache.find(
-                (reaction) => reaction.emoji.name === "❌"
-            );
-
-            // Check if the reaction exists and has reactions
-            if (rejectReaction) {
-                const reactionCount = rejectReaction.count;
-                if (reactionCount > 1) { // More than just the bot's reaction
-                    elizaLogger.log(`Tweet rejected via Discord reaction`);
-                    return "REJECTED";
-                }
-            }
-
-            // Check thumbs up for approval
-            if (thumbsUpReaction) {
-                const reactionCount = thumbsUpReaction.count;
-                if (reactionCount > 1) { // More than just the bot's reaction
-                    elizaLogger.log(`Tweet approved via Discord reaction`);
-                    return "APPROVED";
-                }
-            }
-
-            // If we reach here, no valid approval or rejection found
-            return "PENDING";
-        } catch (error) {
-            elizaLogger.error(`Error checking approval status: ${error}`);
-            return "PENDING";
+        if (this.pendingTweetCheckInterval) {
+            clearInterval(this.pendingTweetCheckInterval);
+            this.pendingTweetCheckInterval = null;
         }
-    }
 
-    /**
-     * Cleans up a pending tweet from the cache
-     * 
-     * @param taskId The ID of the verification task to clean up
-     */
-    private async cleanupPendingTweet(taskId: string) {
-        try {
-            const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweets`;
-            const currentPendingTweets = (await this.runtime.cacheManager.get<PendingTweet[]>(pendingTweetsKey)) || [];
-    
-            // Remove the specific tweet
-            const updatedPendingTweets = currentPendingTweets.filter(
-                (tweet) => tweet.taskId !== taskId
-            );
-    
-            if (updatedPendingTweets.length === 0) {
-                await this.runtime.cacheManager.delete(pendingTweetsKey);
-                elizaLogger.debug("All pending tweets processed, clearing cache");
-            } else {
-                await this.runtime.cacheManager.set(pendingTweetsKey, updatedPendingTweets);
-                elizaLogger.debug(`Updated pending tweets cache, ${updatedPendingTweets.length} tweets remaining`);
-            }
-            
-            // Create a consistent room ID for tweet verification tracking
-            const roomId = stringToUuid("twitter_verification_room");
-            
-            // Ensure the room exists before creating a memory
-            try {
-                await this.runtime.ensureRoomExists(roomId);
-                await this.runtime.ensureParticipantInRoom(this.runtime.agentId, roomId);
-                
-                // Add a memory to track the resolution of this verification
-                await this.runtime.messageManager.createMemory({
-                    id: stringToUuid(`tweet-verification-cleanup-${Date.now()}`),
-                    userId: this.runtime.agentId,
-                    agentId: this.runtime.agentId,
-                    content: {
-                        text: `Verification task ${taskId} processed and removed from pending queue`,
-                        metadata: {
-                            taskType: "tweetVerificationCleanup",
-                            taskId: taskId,
-                            timestamp: Date.now()
-                        }
-                    },
-                    roomId: roomId,
-                    createdAt: Date.now()
-                });
-            } catch (roomError) {
-                // If we can't create the room or memory, just log it but don't fail
-                elizaLogger.error("Error creating verification tracking memory:", roomError);
-                // Don't rethrow - we should still consider the task cleaned up even if we can't save a memory
-            }
-        } catch (error) {
-            // Log the error but don't let it crash the process
-            elizaLogger.error("Error cleaning up pending tweet:", error);
+        if (this.approvalProvider?.stop) {
+            await this.approvalProvider.stop();
         }
-    }
 
-     /**
-     * Handles pending tweets by checking their verification status and processing them accordingly
-     */
-     private async handlePendingTweet() {
-        elizaLogger.log(`Checking pending tweets using ${this.approvalProvider} verification...`);
-        elizaLogger.debug(`🔍 handlePendingTweet called with approval provider: "${this.approvalProvider}"`);
-        
-        // Additional safeguard to prevent Discord initialization for RAIINMAKER
-        if (this.approvalProvider.toUpperCase() === "RAIINMAKER") {
-            elizaLogger.debug(`🔍 Explicitly ensuring Discord client is null for RAIINMAKER provider`);
-            this.discordClientForApproval = null;
-        }
-        
-        const pendingTweetsKey = `twitter/${this.client.profile.username}/pendingTweets`;
-        const pendingTweets = (await this.runtime.cacheManager.get<PendingTweet[]>(pendingTweetsKey)) || [];
-    
-        if (pendingTweets.length === 0) {
-            elizaLogger.log("No pending tweets to check");
-            return;
-        }
-    
-        elizaLogger.log(`Found ${pendingTweets.length} pending tweets to check`);
-        elizaLogger.debug(`🔍 Processing ${pendingTweets.length} pending tweets`);
-        
-        for (const pendingTweet of pendingTweets) {
-            elizaLogger.log(`Processing pending tweet with taskId: ${pendingTweet.taskId}`);
-            elizaLogger.debug(`🔍 Checking tweet with taskId: ${pendingTweet.taskId}`);
-            
-            // Check if tweet is older than 24 hours
-            const isExpired = Date.now() - pendingTweet.timestamp > 24 * 60 * 60 * 1000;
-    
-            if (isExpired) {
-                elizaLogger.warn(`Pending tweet with task ID ${pendingTweet.taskId} expired after 24 hours`);
-                elizaLogger.debug(`🔍 Tweet expired, cleaning up`);
-                await this.cleanupPendingTweet(pendingTweet.taskId);
-                continue;
-            }
-    
-            // Check approval status using the configured provider
-            elizaLogger.log(`Checking verification status for task: ${pendingTweet.taskId}`);
-            elizaLogger.debug(`🔍 About to call checkVerificationStatus for task: ${pendingTweet.taskId}`);
-            const approvalStatus = await this.checkVerificationStatus(pendingTweet.taskId);
-            elizaLogger.log(`Approval status for task ${pendingTweet.taskId}: ${approvalStatus}`);
-            elizaLogger.debug(`🔍 Received approval status: ${approvalStatus}`);
-    
-            if (approvalStatus === "APPROVED") {
-                elizaLogger.log(`Tweet with task ID ${pendingTweet.taskId} approved, posting now...`);
-                elizaLogger.debug(`🔍 Tweet approved, proceeding to post`);
-                
-                try {
-                    await this.postTweet(
-                        this.runtime,
-                        this.client,
-                        pendingTweet.tweetTextForPosting,
-                        pendingTweet.roomId,
-                        pendingTweet.rawTweetContent,
-                        this.twitterUsername
-                    );
-                    
-                    elizaLogger.success(`Successfully posted verified tweet`);
-                } catch (error) {
-                    elizaLogger.error(`Error posting approved tweet:`, error);
-                }
-    
-                await this.cleanupPendingTweet(pendingTweet.taskId);
-                
-            } else if (approvalStatus === "REJECTED") {
-                elizaLogger.warn(`Tweet with task ID ${pendingTweet.taskId} rejected by ${this.approvalProvider} verification`);
-                elizaLogger.debug(`🔍 Tweet rejected, cleaning up`);
-                await this.cleanupPendingTweet(pendingTweet.taskId);
-            } else {
-                elizaLogger.log(`Tweet with task ID ${pendingTweet.taskId} still pending verification`);
-                elizaLogger.debug(`🔍 Tweet still pending verification`);
-            }
-        }
-    }
-    
-    private async startVerificationPolling() {
-        try {
-            // Set up the regular interval check
-            setInterval(async () => {
-                try {
-                    // Extra safeguard to ensure Discord is null for RAIINMAKER on each check
-                    if (this.approvalProvider.toUpperCase() === "RAIINMAKER") {
-                        this.discordClientForApproval = null;
-                    }
-                    
-                    await this.handlePendingTweet();
-                } catch (error) {
-                    elizaLogger.error("Error in tweet verification check loop:", error);
-                }
-            }, 5 * 60 * 1000); // Check every 5 minutes
-            
-            elizaLogger.log(`Started ${this.approvalProvider} verification check loop`);
-        } catch (error) {
-            elizaLogger.error("Error starting verification polling:", error);
-        }
+        elizaLogger.log("Twitter post client stopped");
     }
 }
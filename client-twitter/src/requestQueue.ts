@@ -0,0 +1,423 @@
+import { elizaLogger } from "@elizaos/core";
+
+export enum RequestPriority {
+    High = "high",
+    Normal = "normal",
+    Low = "low",
+}
+
+const PRIORITY_ORDER = [
+    RequestPriority.High,
+    RequestPriority.Normal,
+    RequestPriority.Low,
+];
+
+// Bucket for requests that don't name an endpoint
+const DEFAULT_ENDPOINT = "default";
+
+export interface RequestOptions {
+    /** Defaults to normal */
+    priority?: RequestPriority;
+    /** Rate-limit bucket the request counts against, usually the scraper method */
+    endpoint?: string;
+}
+
+/**
+ * A known rate limit: `capacity` requests per `windowMs`.
+ */
+export interface EndpointLimit {
+    capacity: number;
+    windowMs: number;
+}
+
+export interface RequestQueueOptions {
+    /** Random pause between requests, to look less like a bot */
+    minDelayMs?: number;
+    maxDelayMs?: number;
+    /** Retries after the first attempt before the request is rejected */
+    maxRetries?: number;
+    /** Backoff before retrying a failed request, doubled on each attempt */
+    baseBackoffMs?: number;
+    maxBackoffMs?: number;
+    /** Wait after a rate-limit error that doesn't say when the limit resets, doubled while it repeats */
+    rateLimitBackoffMs?: number;
+    /** Limits known in advance; others are learned from rate-limit responses */
+    limits?: Record<string, EndpointLimit>;
+}
+
+export interface EndpointMetrics {
+    requests: number;
+    failures: number;
+    rateLimited: number;
+    /** Requests left until `resetAt`, when known */
+    remaining?: number;
+    capacity?: number;
+    resetAt?: number;
+}
+
+export interface RequestQueueMetrics {
+    depth: number;
+    depthByPriority: Record<RequestPriority, number>;
+    /** Requests that completed successfully */
+    processed: number;
+    /** Requests rejected after running out of retries */
+    failed: number;
+    retried: number;
+    rateLimited: number;
+    /** Time from queueing to the start of the last attempt */
+    averageWaitMs: number;
+    maxWaitMs: number;
+    endpoints: Record<string, EndpointMetrics>;
+}
+
+interface QueuedRequest {
+    run: () => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+    priority: RequestPriority;
+    endpoint: string;
+    attempts: number;
+    enqueuedAt: number;
+    /** Earliest time of the next attempt, set by retry backoff */
+    notBefore: number;
+}
+
+interface RateLimitInfo {
+    limit?: number;
+    remaining?: number;
+    /** Epoch milliseconds */
+    resetAt?: number;
+}
+
+/**
+ * Reads the `x-rate-limit-*` headers from a response, or from the response
+ * attached to an error thrown by the scraper.
+ */
+function getRateLimitInfo(source: unknown): RateLimitInfo {
+    const response =
+        source instanceof Response
+            ? source
+            : (source as { response?: unknown } | null)?.response;
+    if (!(response instanceof Response)) {
+        return {};
+    }
+
+    const header = (name: string) => {
+        const value = Number.parseInt(response.headers.get(name) ?? "", 10);
+        return Number.isNaN(value) ? undefined : value;
+    };
+    const reset = header("x-rate-limit-reset");
+    return {
+        limit: header("x-rate-limit-limit"),
+        remaining: header("x-rate-limit-remaining"),
+        resetAt: reset === undefined ? undefined : reset * 1000,
+    };
+}
+
+function isRateLimitError(error: unknown): boolean {
+    const { response, message } = (error ?? {}) as {
+        response?: { status?: number };
+        message?: string;
+    };
+    return (
+        response?.status === 429 ||
+        /\b429\b|rate limit/i.test(String(message ?? ""))
+    );
+}
+
+/**
+ * Tracks how many requests an endpoint has left in its current window.
+ * Endpoints without a known limit are unlimited until a rate-limit response
+ * tells otherwise.
+ */
+class EndpointBucket {
+    capacity?: number;
+    remaining?: number;
+    resetAt?: number;
+    requests = 0;
+    failures = 0;
+    rateLimited = 0;
+    consecutiveRateLimits = 0;
+
+    constructor(private readonly windowMs?: number, capacity?: number) {
+        this.capacity = capacity;
+        this.remaining = capacity;
+    }
+
+    /**
+     * Milliseconds until the endpoint accepts another request.
+     */
+    getWait(now: number): number {
+        this.refill(now);
+        if (this.remaining === undefined || this.remaining > 0) {
+            return 0;
+        }
+        return Math.max(0, (this.resetAt ?? now) - now);
+    }
+
+    take(now: number): void {
+        this.refill(now);
+        this.requests++;
+        if (this.remaining !== undefined) {
+            this.remaining = Math.max(0, this.remaining - 1);
+        }
+        if (this.windowMs && this.resetAt === undefined) {
+            this.resetAt = now + this.windowMs;
+        }
+    }
+
+    learn(info: RateLimitInfo): void {
+        if (info.limit !== undefined) this.capacity = info.limit;
+        if (info.remaining !== undefined) this.remaining = info.remaining;
+        if (info.resetAt !== undefined) this.resetAt = info.resetAt;
+    }
+
+    exhaust(resetAt: number): void {
+        this.remaining = 0;
+        this.resetAt = resetAt;
+    }
+
+    toMetrics(): EndpointMetrics {
+        return {
+            requests: this.requests,
+            failures: this.failures,
+            rateLimited: this.rateLimited,
+            remaining: this.remaining,
+            capacity: this.capacity,
+            resetAt: this.resetAt,
+        };
+    }
+
+    private refill(now: number): void {
+        if (this.resetAt === undefined || now < this.resetAt) {
+            return;
+        }
+        this.remaining = this.capacity;
+        this.resetAt = undefined;
+    }
+}
+
+/**
+ * Queues Twitter requests so they run one at a time, highest priority first.
+ * Each endpoint has a bucket that learns its limits from rate-limit responses;
+ * requests to an exhausted endpoint wait for the reset while others go ahead.
+ * Failed requests are retried with backoff and rejected once out of retries.
+ */
+export class RequestQueue {
+    private queue: QueuedRequest[] = [];
+    private processing = false;
+    private buckets = new Map<string, EndpointBucket>();
+    private wake: (() => void) | null = null;
+    private processed = 0;
+    private failed = 0;
+    private retried = 0;
+    private rateLimited = 0;
+    private totalWaitMs = 0;
+    private maxWaitMs = 0;
+    private readonly options: Required<RequestQueueOptions>;
+
+    constructor(options: RequestQueueOptions = {}) {
+        this.options = {
+            minDelayMs: 1500,
+            maxDelayMs: 3500,
+            maxRetries: 3,
+            baseBackoffMs: 1000,
+            maxBackoffMs: 15 * 60 * 1000,
+            rateLimitBackoffMs: 60 * 1000,
+            limits: {},
+            ...options,
+        };
+    }
+
+    async add<T>(
+        request: () => Promise<T>,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const now = Date.now();
+            this.queue.push({
+                run: request,
+                resolve: resolve as (value: unknown) => void,
+                reject,
+                priority: options.priority ?? RequestPriority.Normal,
+                endpoint: options.endpoint ?? DEFAULT_ENDPOINT,
+                attempts: 0,
+                enqueuedAt: now,
+                notBefore: now,
+            });
+            this.wake?.();
+            this.processQueue();
+        });
+    }
+
+    getMetrics(): RequestQueueMetrics {
+        const depthByPriority = Object.fromEntries(
+            PRIORITY_ORDER.map((priority) => [
+                priority,
+                this.queue.filter((request) => request.priority === priority)
+                    .length,
+            ])
+        ) as Record<RequestPriority, number>;
+        const attempts = this.processed + this.failed + this.retried;
+
+        return {
+            depth: this.queue.length,
+            depthByPriority,
+            processed: this.processed,
+            failed: this.failed,
+            retried: this.retried,
+            rateLimited: this.rateLimited,
+            averageWaitMs: attempts ? this.totalWaitMs / attempts : 0,
+            maxWaitMs: this.maxWaitMs,
+            endpoints: Object.fromEntries(
+                Array.from(this.buckets.entries()).map(([endpoint, bucket]) => [
+                    endpoint,
+                    bucket.toMetrics(),
+                ])
+            ),
+        };
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+
+        while (this.queue.length > 0) {
+            const { request, waitMs } = this.takeNext(Date.now());
+            if (!request) {
+                await this.sleep(waitMs);
+                continue;
+            }
+
+            await this.execute(request);
+            await this.randomDelay();
+        }
+
+        this.processing = false;
+    }
+
+    /**
+     * Removes the first request, by priority, that may run now. Otherwise
+     * returns how long until one may.
+     */
+    private takeNext(now: number): {
+        request?: QueuedRequest;
+        waitMs: number;
+    } {
+        let waitMs = Number.POSITIVE_INFINITY;
+
+        for (const priority of PRIORITY_ORDER) {
+            for (const request of this.queue) {
+                if (request.priority !== priority) continue;
+
+                const wait = Math.max(
+                    request.notBefore - now,
+                    this.getBucket(request.endpoint).getWait(now)
+                );
+                if (wait <= 0) {
+                    this.queue.splice(this.queue.indexOf(request), 1);
+                    return { request, waitMs: 0 };
+                }
+                waitMs = Math.min(waitMs, wait);
+            }
+        }
+
+        return { waitMs };
+    }
+
+    private async execute(request: QueuedRequest): Promise<void> {
+        const now = Date.now();
+        const bucket = this.getBucket(request.endpoint);
+        bucket.take(now);
+        request.attempts++;
+
+        const waitMs = now - request.enqueuedAt;
+        this.totalWaitMs += waitMs;
+        this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+
+        try {
+            const result = await request.run();
+            bucket.learn(getRateLimitInfo(result));
+            bucket.consecutiveRateLimits = 0;
+            this.processed++;
+            request.resolve(result);
+        } catch (error) {
+            bucket.failures++;
+            const info = getRateLimitInfo(error);
+            bucket.learn(info);
+
+            if (isRateLimitError(error)) {
+                this.rateLimited++;
+                bucket.rateLimited++;
+                bucket.consecutiveRateLimits++;
+                const resetAt =
+                    info.resetAt ??
+                    Date.now() +
+                        this.getBackoff(
+                            this.options.rateLimitBackoffMs,
+                            bucket.consecutiveRateLimits
+                        );
+                bucket.exhaust(resetAt);
+                elizaLogger.warn(
+                    `Twitter rate limit hit on ${request.endpoint}, pausing it until ${new Date(resetAt).toISOString()}`
+                );
+            }
+
+            if (request.attempts > this.options.maxRetries) {
+                this.failed++;
+                elizaLogger.error(
+                    `Twitter request to ${request.endpoint} failed after ${request.attempts} attempts:`,
+                    error
+                );
+                request.reject(error);
+                return;
+            }
+
+            this.retried++;
+            request.notBefore =
+                Date.now() +
+                this.getBackoff(this.options.baseBackoffMs, request.attempts);
+            request.enqueuedAt = Date.now();
+            // Back at the head, so the retry keeps its place among equal priorities
+            this.queue.unshift(request);
+        }
+    }
+
+    private getBucket(endpoint: string): EndpointBucket {
+        let bucket = this.buckets.get(endpoint);
+        if (!bucket) {
+            const limit = this.options.limits[endpoint];
+            bucket = new EndpointBucket(limit?.windowMs, limit?.capacity);
+            this.buckets.set(endpoint, bucket);
+        }
+        return bucket;
+    }
+
+    private getBackoff(baseMs: number, attempt: number): number {
+        return Math.min(baseMs * 2 ** (attempt - 1), this.options.maxBackoffMs);
+    }
+
+    /**
+     * Waits, waking up early when a request is added.
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const done = () => {
+                clearTimeout(timeout);
+                this.wake = null;
+                resolve();
+            };
+            const timeout = setTimeout(done, ms);
+            this.wake = done;
+        });
+    }
+
+    private async randomDelay(): Promise<void> {
+        const { minDelayMs, maxDelayMs } = this.options;
+        const delay =
+            Math.floor(Math.random() * (maxDelayMs - minDelayMs)) + minDelayMs;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+}
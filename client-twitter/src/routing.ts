@@ -0,0 +1,101 @@
+import type { TwitterAccountConfig } from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+
+/**
+ * Handles a mention routed to an account by another of the agent's accounts.
+ */
+export type RoutedTweetHandler = (tweet: Tweet) => Promise<void>;
+
+/**
+ * Decides which of the agent's Twitter accounts replies to a mention, so a
+ * mention seen by several accounts gets one reply, from the right account.
+ * Each account's interaction client registers a handler, through which other
+ * accounts hand over the mentions routed to it.
+ */
+export class TwitterAccountRouter {
+    private handlers = new Map<string, RoutedTweetHandler>();
+
+    constructor(private accounts: TwitterAccountConfig[]) {}
+
+    register(username: string, handler: RoutedTweetHandler): void {
+        this.handlers.set(username.toLowerCase(), handler);
+    }
+
+    /**
+     * Whether the user is one of the agent's accounts.
+     */
+    isOwnAccount(username: string | undefined): boolean {
+        return (
+            !!username &&
+            this.accounts.some(
+                (account) =>
+                    account.username.toLowerCase() === username.toLowerCase()
+            )
+        );
+    }
+
+    /**
+     * The username of the account that should reply to the tweet: the first
+     * whose rules match, else the first one the tweet mentions, else the
+     * default account. Null when none applies.
+     */
+    route(tweet: Tweet): string | null {
+        const text = tweet.text?.toLowerCase() ?? "";
+        const author = tweet.username?.toLowerCase();
+
+        const matched = this.accounts.find(({ routing }) => {
+            if (
+                author &&
+                routing?.fromUsers?.some(
+                    (user) => user.replace(/^@/, "").toLowerCase() === author
+                )
+            ) {
+                return true;
+            }
+            return routing?.keywords?.some((keyword) =>
+                new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`).test(
+                    text
+                )
+            );
+        });
+        if (matched) {
+            return matched.username;
+        }
+
+        // In the order the tweet mentions them
+        const mentioned = [
+            ...(text.match(/@\w+/g) ?? []).map((mention) => mention.slice(1)),
+            ...(tweet.mentions ?? []).map(({ username }) =>
+                username?.toLowerCase()
+            ),
+        ];
+        const addressed = mentioned.find((username) =>
+            this.isOwnAccount(username)
+        );
+        if (addressed) {
+            return this.accounts.find(
+                (account) => account.username.toLowerCase() === addressed
+            ).username;
+        }
+
+        return (
+            this.accounts.find(({ routing }) => routing?.default)?.username ??
+            null
+        );
+    }
+
+    /**
+     * Hands a tweet over to the account it is routed to.
+     */
+    async handOver(username: string, tweet: Tweet): Promise<void> {
+        const handler = this.handlers.get(username.toLowerCase());
+        if (!handler) {
+            throw new Error(`No Twitter account @${username} to hand over to`);
+        }
+        await handler(tweet);
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
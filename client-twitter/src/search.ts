@@ -13,7 +13,9 @@ import {
 } from "@elizaos/core";
 import { stringToUuid } from "@elizaos/core";
 import type { ClientBase } from "./base.ts";
+import { SearchEngagementEngine } from "./engagement.ts";
 import { buildConversationThread, sendTweet, wait } from "./utils.ts";
+import { RequestPriority } from "./requestQueue.ts";
 
 const twitterSearchTemplate =
     `{{timeline}}
@@ -42,16 +44,31 @@ Your response should not contain any questions. Brief, concise statements only.
 
 ` + messageCompletionFooter;
 
+const twitterSearchSelectionTemplate = `# About {{agentName}}:
+{{bio}}
+{{topics}}
+
+# Tweets found by searching for "{{searchTerm}}", best scored first:
+
+{{candidates}}
+
+# Task: Which tweet is the most interesting and relevant for {{agentName}} to reply to?
+Notes:
+  - Prefer tweets that don't have a lot of hashtags, links, URLs or images
+  - Prefer tweets where there is an easy exchange of ideas to have with the user
+  - ONLY respond with the ID of the tweet`;
+
 export class TwitterSearchClient {
     client: ClientBase;
     runtime: IAgentRuntime;
     twitterUsername: string;
-    private respondedTweets: Set<string> = new Set();
+    private engagement: SearchEngagementEngine;
 
     constructor(client: ClientBase, runtime: IAgentRuntime) {
         this.client = client;
         this.runtime = runtime;
         this.twitterUsername = this.client.twitterConfig.TWITTER_USERNAME;
+        this.engagement = new SearchEngagementEngine(client, runtime);
     }
 
     async start() {
@@ -73,17 +90,17 @@ export class TwitterSearchClient {
     private async engageWithSearchTerms() {
         elizaLogger.log("Engaging with search terms");
         try {
-            const searchTerm = [...this.runtime.character.topics][
-                Math.floor(Math.random() * this.runtime.character.topics.length)
-            ];
+            const searchTerm = this.engagement.nextQuery();
+            if (!searchTerm) {
+                elizaLogger.log("No search queries or topics to search for");
+                return;
+            }
 
             elizaLogger.log("Fetching search tweets");
-            // TODO: we wait 5 seconds here to avoid getting rate limited on startup, but we should queue
-            await new Promise((resolve) => setTimeout(resolve, 5000));
             const recentTweets = await this.client.fetchSearchTweets(
                 searchTerm,
                 20,
-                SearchMode.Top
+                SearchMode.Latest
             );
             elizaLogger.log("Search tweets fetched");
 
@@ -99,12 +116,12 @@ export class TwitterSearchClient {
                     })
                     .join("\n");
 
-            // randomly slice .tweets down to 20
-            const slicedTweets = recentTweets.tweets
-                .sort(() => Math.random() - 0.5)
-                .slice(0, 20);
+            const candidates = await this.engagement.findCandidates(
+                searchTerm,
+                recentTweets.tweets
+            );
 
-            if (slicedTweets.length === 0) {
+            if (candidates.length === 0) {
                 elizaLogger.log(
                     "No valid tweets found for the search term",
                     searchTerm
@@ -112,61 +129,52 @@ export class TwitterSearchClient {
                 return;
             }
 
-            const prompt = `
-  Here are some tweets related to the search term "${searchTerm}":
-
-  ${[...slicedTweets, ...homeTimeline]
-      .filter((tweet) => {
-          // ignore tweets where any of the thread tweets contain a tweet by the bot
-          const thread = tweet.thread;
-          const botTweet = thread.find(
-              (t) => t.username === this.twitterUsername
-          );
-          return !botTweet;
-      })
-      .map(
-          (tweet) => `
-    ID: ${tweet.id}${tweet.inReplyToStatusId ? ` In reply to: ${tweet.inReplyToStatusId}` : ""}
-    From: ${tweet.name} (@${tweet.username})
-    Text: ${tweet.text}
-  `
-      )
-      .join("\n")}
-
-  Which tweet is the most interesting and relevant for Ruby to reply to? Please provide only the ID of the tweet in your response.
-  Notes:
-    - Respond to English tweets only
-    - Respond to tweets that don't have a lot of hashtags, links, URLs or images
-    - Respond to tweets that are not retweets
-    - Respond to tweets where there is an easy exchange of ideas to have with the user
-    - ONLY respond with the ID of the tweet`;
+            const selectionState = await this.runtime.composeState(
+                {
+                    userId: this.runtime.agentId,
+                    roomId: stringToUuid(
+                        `twitter_search_room-${this.client.profile.username}`
+                    ),
+                    agentId: this.runtime.agentId,
+                    content: { text: searchTerm },
+                },
+                {
+                    searchTerm,
+                    candidates: candidates
+                        .map(
+                            ({ tweet, score }) => `ID: ${tweet.id}${tweet.inReplyToStatusId ? ` In reply to: ${tweet.inReplyToStatusId}` : ""}
+From: ${tweet.name} (@${tweet.username})
+Score: ${score.toFixed(2)}
+Text: ${tweet.text}`
+                        )
+                        .join("\n\n"),
+                }
+            );
 
             const mostInterestingTweetResponse = await generateText({
                 runtime: this.runtime,
-                context: prompt,
+                context: composeContext({
+                    state: selectionState,
+                    template:
+                        this.runtime.character.templates
+                            ?.twitterSearchSelectionTemplate ||
+                        twitterSearchSelectionTemplate,
+                }),
                 modelClass: ModelClass.SMALL,
             });
 
+            // Candidates are already filtered, so the best scored one is a
+            // fine reply when the model's answer matches none of them
             const tweetId = mostInterestingTweetResponse.trim();
-            const selectedTweet = slicedTweets.find(
-                (tweet) =>
-                    tweet.id.toString().includes(tweetId) ||
-                    tweetId.includes(tweet.id.toString())
-            );
-
-            if (!selectedTweet) {
-                elizaLogger.warn("No matching tweet found for the selected ID");
-                elizaLogger.log("Selected tweet ID:", tweetId);
-                return;
-            }
+            const selectedTweet =
+                candidates.find(
+                    ({ tweet }) =>
+                        tweet.id.toString().includes(tweetId) ||
+                        tweetId.includes(tweet.id.toString())
+                )?.tweet ?? candidates[0].tweet;
 
             elizaLogger.log("Selected tweet to reply to:", selectedTweet?.text);
 
-            if (selectedTweet.username === this.twitterUsername) {
-                elizaLogger.log("Skipping tweet from bot itself");
-                return;
-            }
-
             const conversationId = selectedTweet.conversationId;
             const roomId = stringToUuid(
                 conversationId + "-" + this.runtime.agentId
@@ -219,8 +227,9 @@ export class TwitterSearchClient {
 
             let tweetBackground = "";
             if (selectedTweet.isRetweet) {
-                const originalTweet = await this.client.requestQueue.add(() =>
-                    this.client.twitterClient.getTweet(selectedTweet.id)
+                const originalTweet = await this.client.requestQueue.add(
+                    () => this.client.twitterClient.getTweet(selectedTweet.id),
+                    { priority: RequestPriority.Low, endpoint: "getTweet" }
                 );
                 tweetBackground = `Retweeting @${originalTweet.username}: ${originalTweet.text}`;
             }
@@ -290,6 +299,12 @@ export class TwitterSearchClient {
                 };
 
                 const responseMessages = await callback(responseContent);
+                await this.client.processedTweets.mark(
+                    selectedTweet.id,
+                    "REPLIED",
+                    responseMessages[responseMessages.length - 1]?.content
+                        ?.tweetId as string | undefined
+                );
 
                 state = await this.runtime.updateRecentMessageState(state);
 
@@ -311,7 +326,7 @@ export class TwitterSearchClient {
                     callback
                 );
 
-                this.respondedTweets.add(selectedTweet.id);
+                await this.engagement.recordReply(selectedTweet);
                 const responseInfo = `Context:\n\n${context}\n\nSelected Post: ${selectedTweet.id} - ${selectedTweet.username}: ${selectedTweet.text}\nAgent's Output:\n${response.text}`;
 
                 await this.runtime.cacheManager.set(
@@ -0,0 +1,4 @@
+export * from "./twitter.ts";
+export * from "./scraper.ts";
+export * from "./scenario.ts";
+export * from "./space.ts";
@@ -0,0 +1,167 @@
+import { SimulatedScraper } from "./scraper.ts";
+import {
+    SimulatedTwitter,
+    type SimulatedTweet,
+    type SimulatedTwitterOptions,
+} from "./twitter.ts";
+
+export interface ScenarioTweetOptions {
+    /** Label to refer to the tweet later, e.g. in `inReplyTo` or {@link TwitterScenario.id} */
+    as?: string;
+    /** Label or ID of the tweet being replied to */
+    inReplyTo?: string;
+    media?: { data: Buffer; mediaType: string }[];
+}
+
+/**
+ * Scripts what happens on a {@link SimulatedTwitter}, e.g. for tests:
+ *
+ *     const scenario = new TwitterScenario()
+ *         .account("agent")
+ *         .account("alice")
+ *         .mention("alice", "agent", "what do you think?", { as: "question" })
+ *         .after(60_000)
+ *         .reply("alice", "question", "hello?");
+ *
+ * Tweets can be given labels with `as`, and referred to by label wherever a
+ * tweet ID is expected.
+ */
+export class TwitterScenario {
+    readonly twitter: SimulatedTwitter;
+    private labels = new Map<string, string>();
+
+    constructor(twitter?: SimulatedTwitter | SimulatedTwitterOptions) {
+        this.twitter =
+            twitter instanceof SimulatedTwitter
+                ? twitter
+                : new SimulatedTwitter(twitter);
+    }
+
+    account(
+        username: string,
+        profile?: { name?: string; biography?: string; password?: string }
+    ): this {
+        this.twitter.addAccount(username, profile);
+        return this;
+    }
+
+    follow(follower: string, followee: string): this {
+        this.twitter.follow(follower, followee);
+        return this;
+    }
+
+    tweet(
+        username: string,
+        text: string,
+        options: ScenarioTweetOptions = {}
+    ): this {
+        this.post(username, text, options);
+        return this;
+    }
+
+    /**
+     * Tweets at `target`, prefixing the text with its handle.
+     */
+    mention(
+        username: string,
+        target: string,
+        text: string,
+        options: ScenarioTweetOptions = {}
+    ): this {
+        this.post(username, `@${target} ${text}`, options);
+        return this;
+    }
+
+    reply(
+        username: string,
+        inReplyTo: string,
+        text: string,
+        options: Omit<ScenarioTweetOptions, "inReplyTo"> = {}
+    ): this {
+        this.post(username, text, { ...options, inReplyTo });
+        return this;
+    }
+
+    quote(
+        username: string,
+        quoted: string,
+        text: string,
+        options: Omit<ScenarioTweetOptions, "inReplyTo"> = {}
+    ): this {
+        const tweet = this.twitter.createTweet({
+            username,
+            text,
+            quotedStatusId: this.id(quoted),
+            media: options.media,
+        });
+        this.label(tweet, options.as);
+        return this;
+    }
+
+    like(username: string, tweet: string): this {
+        this.twitter.like(username, this.id(tweet));
+        return this;
+    }
+
+    retweet(username: string, tweet: string): this {
+        this.twitter.retweet(username, this.id(tweet));
+        return this;
+    }
+
+    /**
+     * Moves the simulated clock forward before the next step.
+     */
+    after(ms: number): this {
+        this.twitter.advance(ms);
+        return this;
+    }
+
+    /**
+     * Makes the next `times` calls of a scraper method fail with a rate-limit error.
+     */
+    rateLimit(method: keyof SimulatedScraper, times = 1): this {
+        this.twitter.rateLimit(method, times);
+        return this;
+    }
+
+    /**
+     * Resolves a label to its tweet ID. Unknown labels are taken to be IDs.
+     */
+    id(labelOrId: string): string {
+        return this.labels.get(labelOrId) ?? labelOrId;
+    }
+
+    /**
+     * Gets a tweet by label or ID.
+     */
+    get(labelOrId: string): SimulatedTweet | undefined {
+        return this.twitter.getTweet(this.id(labelOrId));
+    }
+
+    /**
+     * Creates a scraper acting as the given account, already logged in.
+     */
+    scraper(username: string): SimulatedScraper {
+        return new SimulatedScraper(this.twitter, username);
+    }
+
+    private post(username: string, text: string, options: ScenarioTweetOptions) {
+        const tweet = this.twitter.createTweet({
+            username,
+            text,
+            inReplyToStatusId: options.inReplyTo
+                ? this.id(options.inReplyTo)
+                : undefined,
+            media: options.media,
+        });
+        this.label(tweet, options.as);
+    }
+
+    private label(tweet: SimulatedTweet, label?: string) {
+        if (!label) return;
+        if (this.labels.has(label)) {
+            throw new Error(`Scenario label "${label}" is already used`);
+        }
+        this.labels.set(label, tweet.id);
+    }
+}
@@ -0,0 +1,287 @@
+import {
+    SearchMode,
+    type Profile,
+    type QueryTweetsResponse,
+    type Tweet,
+} from "agent-twitter-client";
+import type { SimulatedTwitter, SimulatedTweet } from "./twitter.ts";
+
+type MediaData = { data: Buffer; mediaType: string }[];
+
+// The fields of a tough-cookie cookie the session vault keeps
+interface SimulatedCookie {
+    key: string;
+    value: string;
+    domain: string;
+    path: string;
+}
+
+interface NoteTweetResponse {
+    data: {
+        notetweet_create: {
+            tweet_results: { result: Record<string, unknown> };
+        };
+    };
+}
+
+const AUTH_COOKIE = "auth_token";
+
+/**
+ * Stands in for the `Scraper` of agent-twitter-client, serving the methods
+ * the client calls from a {@link SimulatedTwitter} instead of the network.
+ * Every call can be made to fail with {@link SimulatedTwitter.rateLimit}.
+ */
+export class SimulatedScraper {
+    private username: string | null;
+
+    /**
+     * @param username Account to start logged in as, if any
+     */
+    constructor(
+        private readonly twitter: SimulatedTwitter,
+        username?: string
+    ) {
+        this.username = username ? twitter.getAccount(username).username : null;
+    }
+
+    async login(username: string, password?: string): Promise<void> {
+        this.twitter.checkRateLimit("login");
+        const account = this.twitter.getAccount(username);
+        if (account.password && account.password !== password) {
+            throw new Error(`Invalid password for @${username}`);
+        }
+        this.username = account.username;
+    }
+
+    async logout(): Promise<void> {
+        this.username = null;
+    }
+
+    async isLoggedIn(): Promise<boolean> {
+        return this.username !== null;
+    }
+
+    async me(): Promise<Profile | undefined> {
+        return this.username
+            ? this.twitter.toProfile(this.twitter.getAccount(this.username))
+            : undefined;
+    }
+
+    async getCookies(): Promise<SimulatedCookie[]> {
+        if (!this.username) return [];
+        return [
+            {
+                key: AUTH_COOKIE,
+                value: this.username,
+                domain: ".twitter.com",
+                path: "/",
+            },
+        ];
+    }
+
+    /**
+     * Restores the session of a previous {@link getCookies} call.
+     */
+    async setCookies(cookies: (string | { key: string; value: string })[]) {
+        for (const cookie of cookies) {
+            const [key, value] =
+                typeof cookie === "string"
+                    ? cookie.split(";")[0].split("=")
+                    : [cookie.key, cookie.value];
+            if (key?.trim() === AUTH_COOKIE && this.twitter.findAccount(value)) {
+                this.username = this.twitter.getAccount(value).username;
+            }
+        }
+    }
+
+    async clearCookies(): Promise<void> {
+        this.username = null;
+    }
+
+    async getProfile(username: string): Promise<Profile> {
+        this.twitter.checkRateLimit("getProfile");
+        return this.twitter.toProfile(this.twitter.getAccount(username));
+    }
+
+    async getTweet(id: string): Promise<Tweet | null> {
+        this.twitter.checkRateLimit("getTweet");
+        const tweet = this.twitter.getTweet(id);
+        return tweet ? this.twitter.toTweet(tweet) : null;
+    }
+
+    async getUserTweets(
+        userId: string,
+        maxTweets = 200
+    ): Promise<{ tweets: Tweet[]; next?: string }> {
+        this.twitter.checkRateLimit("getUserTweets");
+        const tweets = this.twitter
+            .getTweets()
+            .filter((tweet) => tweet.userId === userId)
+            .slice(0, maxTweets)
+            .map((tweet) => this.twitter.toTweet(tweet));
+        return { tweets };
+    }
+
+    async fetchHomeTimeline(count: number, seenTweetIds: string[]) {
+        this.twitter.checkRateLimit("fetchHomeTimeline");
+        return this.getTimeline(count, seenTweetIds, false);
+    }
+
+    async fetchFollowingTimeline(count: number, seenTweetIds: string[]) {
+        this.twitter.checkRateLimit("fetchFollowingTimeline");
+        return this.getTimeline(count, seenTweetIds, true);
+    }
+
+    async fetchSearchTweets(
+        query: string,
+        maxTweets: number,
+        searchMode: SearchMode
+    ): Promise<QueryTweetsResponse> {
+        this.twitter.checkRateLimit("fetchSearchTweets");
+        const tweets = this.twitter
+            .search(query, searchMode)
+            .slice(0, maxTweets)
+            .map((tweet) => this.twitter.toTweet(tweet));
+        return { tweets };
+    }
+
+    async *searchTweets(
+        query: string,
+        maxTweets: number,
+        searchMode: SearchMode = SearchMode.Top
+    ): AsyncGenerator<Tweet, void> {
+        this.twitter.checkRateLimit("searchTweets");
+        for (const tweet of this.twitter
+            .search(query, searchMode)
+            .slice(0, maxTweets)) {
+            yield this.twitter.toTweet(tweet);
+        }
+    }
+
+    async sendTweet(
+        text: string,
+        replyToTweetId?: string,
+        mediaData?: MediaData
+    ): Promise<Response> {
+        this.twitter.checkRateLimit("sendTweet");
+        const tweet = this.createTweet(text, { replyToTweetId, mediaData });
+        return this.toResponse("create_tweet", tweet);
+    }
+
+    async sendLongTweet(
+        text: string,
+        replyToTweetId?: string,
+        mediaData?: MediaData
+    ): Promise<Response> {
+        this.twitter.checkRateLimit("sendLongTweet");
+        const tweet = this.createTweet(text, {
+            replyToTweetId,
+            mediaData,
+            isNoteTweet: true,
+        });
+        return this.toResponse("notetweet_create", tweet);
+    }
+
+    async sendNoteTweet(
+        text: string,
+        replyToTweetId?: string,
+        mediaData?: MediaData
+    ): Promise<NoteTweetResponse> {
+        this.twitter.checkRateLimit("sendNoteTweet");
+        const tweet = this.createTweet(text, {
+            replyToTweetId,
+            mediaData,
+            isNoteTweet: true,
+        });
+        return {
+            data: {
+                notetweet_create: {
+                    tweet_results: { result: this.twitter.toRawTweet(tweet) },
+                },
+            },
+        };
+    }
+
+    async sendQuoteTweet(
+        text: string,
+        quotedTweetId: string,
+        options?: { mediaData: MediaData }
+    ): Promise<Response> {
+        this.twitter.checkRateLimit("sendQuoteTweet");
+        const tweet = this.createTweet(text, {
+            quotedTweetId,
+            mediaData: options?.mediaData,
+        });
+        return this.toResponse("create_tweet", tweet);
+    }
+
+    async likeTweet(tweetId: string): Promise<void> {
+        this.twitter.checkRateLimit("likeTweet");
+        this.twitter.like(this.requireLogin(), tweetId);
+    }
+
+    async retweet(tweetId: string): Promise<void> {
+        this.twitter.checkRateLimit("retweet");
+        this.twitter.retweet(this.requireLogin(), tweetId);
+    }
+
+    async getAudioSpaceById(id: string): Promise<never> {
+        throw new Error(`Spaces are not simulated (requested space ${id})`);
+    }
+
+    private getTimeline(
+        count: number,
+        seenTweetIds: string[],
+        followingOnly: boolean
+    ) {
+        return this.twitter
+            .getTimeline(this.requireLogin(), followingOnly)
+            .filter((tweet) => !seenTweetIds.includes(tweet.id))
+            .slice(0, count)
+            .map((tweet) => this.twitter.toRawTweet(tweet));
+    }
+
+    private createTweet(
+        text: string,
+        options: {
+            replyToTweetId?: string;
+            quotedTweetId?: string;
+            mediaData?: MediaData;
+            isNoteTweet?: boolean;
+        }
+    ): SimulatedTweet {
+        return this.twitter.createTweet({
+            username: this.requireLogin(),
+            text,
+            inReplyToStatusId: options.replyToTweetId || undefined,
+            quotedStatusId: options.quotedTweetId,
+            media: options.mediaData ?? undefined,
+            isNoteTweet: options.isNoteTweet,
+        });
+    }
+
+    private toResponse(
+        operation: "create_tweet" | "notetweet_create",
+        tweet: SimulatedTweet
+    ): Response {
+        return new Response(
+            JSON.stringify({
+                data: {
+                    [operation]: {
+                        tweet_results: {
+                            result: this.twitter.toRawTweet(tweet),
+                        },
+                    },
+                },
+            }),
+            { headers: { "content-type": "application/json" } }
+        );
+    }
+
+    private requireLogin(): string {
+        if (!this.username) {
+            throw new Error("Not logged in to the simulated Twitter");
+        }
+        return this.username;
+    }
+}
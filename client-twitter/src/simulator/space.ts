@@ -0,0 +1,124 @@
+import type { Space } from "agent-twitter-client";
+import {
+    type PluginConfig,
+    SttTtsPlugin,
+} from "../plugins/SttTtsSpacesPlugin.ts";
+import {
+    JANUS_SAMPLE_RATE,
+    resamplePcm,
+    type SpeechRecognizer,
+    type SpeechSynthesizer,
+} from "../plugins/speech.ts";
+
+// Janus delivers and takes audio in 10ms frames
+const FRAME_SIZE = JANUS_SAMPLE_RATE / 100;
+
+/**
+ * A speech recognizer that returns scripted texts in turn, and records the
+ * audio it was given.
+ */
+export class ScriptedSpeechRecognizer implements SpeechRecognizer {
+    readonly name = "scripted";
+    readonly heard: { samples: Int16Array; sampleRate: number }[] = [];
+
+    constructor(private texts: string[]) {}
+
+    async transcribe(samples: Int16Array, sampleRate: number): Promise<string> {
+        this.heard.push({ samples, sampleRate });
+        return this.texts.shift() ?? "";
+    }
+}
+
+/**
+ * A speech synthesizer that "speaks" a tone for `msPerWord` per word, and
+ * records the texts it was given.
+ */
+export class ToneSpeechSynthesizer implements SpeechSynthesizer {
+    readonly name = "tone";
+    readonly sampleRate = 16000;
+    readonly said: string[] = [];
+
+    constructor(private msPerWord = 200) {}
+
+    async *synthesize(text: string): AsyncIterable<Int16Array> {
+        this.said.push(text);
+        for (const _word of text.split(/\s+/).filter(Boolean)) {
+            yield tone((this.msPerWord * this.sampleRate) / 1000, this.sampleRate);
+        }
+    }
+}
+
+/**
+ * A sine tone at half volume, as loud speech for the plugin's voice detection.
+ */
+export function tone(
+    length: number,
+    sampleRate = JANUS_SAMPLE_RATE,
+    frequency = 220
+): Int16Array {
+    const samples = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+        samples[i] = Math.round(
+            16384 * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+        );
+    }
+    return samples;
+}
+
+/**
+ * Runs the Spaces STT/TTS plugin against recorded audio, without a live
+ * Space: speakers' PCM is fed in 10ms frames like Janus delivers it, and the
+ * audio the agent answers with is collected. Timing goes through the
+ * plugin's timers, so tests drive it with fake timers.
+ */
+export class SimulatedSpaceAudio {
+    readonly plugin = new SttTtsPlugin();
+    /** Frames the agent pushed to the Space */
+    readonly spoken: Int16Array[] = [];
+
+    constructor(config: Omit<PluginConfig, "spaceId"> & { spaceId?: string }) {
+        const janusClient = {
+            pushLocalAudio: (samples: Int16Array) => {
+                this.spoken.push(samples);
+            },
+        };
+        this.plugin.init({
+            space: { janusClient } as unknown as Space,
+            pluginConfig: { spaceId: "simulated-space", ...config },
+        });
+    }
+
+    /**
+     * Feeds what a speaker said, resampled to the Space's rate.
+     */
+    feed(
+        userId: string,
+        samples: Int16Array,
+        sampleRate = JANUS_SAMPLE_RATE
+    ): void {
+        const audio = resamplePcm(samples, sampleRate, JANUS_SAMPLE_RATE);
+        for (let offset = 0; offset < audio.length; offset += FRAME_SIZE) {
+            const frame = new Int16Array(FRAME_SIZE);
+            frame.set(audio.subarray(offset, offset + FRAME_SIZE));
+            this.plugin.onAudioData({
+                userId,
+                samples: frame,
+                sampleRate: JANUS_SAMPLE_RATE,
+                bitsPerSample: 16,
+                channelCount: 1,
+                numberOfFrames: FRAME_SIZE,
+            });
+        }
+    }
+
+    /**
+     * How long the agent has spoken, in ms.
+     */
+    get spokenMs(): number {
+        return (
+            (this.spoken.reduce((total, frame) => total + frame.length, 0) *
+                1000) /
+            JANUS_SAMPLE_RATE
+        );
+    }
+}
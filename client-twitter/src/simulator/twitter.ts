@@ -0,0 +1,417 @@
+import { SearchMode, type Profile, type Tweet } from "agent-twitter-client";
+
+/**
+ * An account on the simulated Twitter.
+ */
+export interface SimulatedAccount {
+    userId: string;
+    username: string;
+    name: string;
+    biography: string;
+    password?: string;
+    following: Set<string>;
+}
+
+export interface SimulatedMedia {
+    id: string;
+    mediaType: string;
+    size: number;
+}
+
+/**
+ * A tweet as stored by the simulator.
+ */
+export interface SimulatedTweet {
+    id: string;
+    userId: string;
+    text: string;
+    createdAt: number;
+    conversationId: string;
+    inReplyToStatusId?: string;
+    quotedStatusId?: string;
+    isNoteTweet: boolean;
+    media: SimulatedMedia[];
+    likedBy: Set<string>;
+    retweetedBy: Set<string>;
+}
+
+export interface SimulatedTwitterOptions {
+    /** Initial time of the simulated clock. Defaults to now */
+    startTime?: number;
+}
+
+// Tweet IDs are increasing numeric strings, like snowflakes, so ID comparisons keep working
+const FIRST_TWEET_ID = 1_000_000;
+
+/**
+ * An in-memory Twitter: accounts, tweets, follows, likes, retweets and media,
+ * with a clock that only moves when told to and scriptable rate limits.
+ * Each account talks to it through a {@link SimulatedScraper}.
+ */
+export class SimulatedTwitter {
+    private accounts = new Map<string, SimulatedAccount>();
+    private tweets = new Map<string, SimulatedTweet>();
+    private rateLimits = new Map<string, number>();
+    private nextTweetId = FIRST_TWEET_ID;
+    private nextMediaId = 1;
+    private clock: number;
+
+    constructor(options: SimulatedTwitterOptions = {}) {
+        this.clock = options.startTime ?? Date.now();
+    }
+
+    now(): number {
+        return this.clock;
+    }
+
+    /**
+     * Moves the simulated clock forward.
+     */
+    advance(ms: number): void {
+        this.clock += ms;
+    }
+
+    addAccount(
+        username: string,
+        profile: { name?: string; biography?: string; password?: string } = {}
+    ): SimulatedAccount {
+        const existing = this.findAccount(username);
+        if (existing) return existing;
+
+        const account: SimulatedAccount = {
+            userId: String(this.accounts.size + 1),
+            username,
+            name: profile.name ?? username,
+            biography: profile.biography ?? "",
+            password: profile.password,
+            following: new Set(),
+        };
+        this.accounts.set(username.toLowerCase(), account);
+        return account;
+    }
+
+    findAccount(username: string): SimulatedAccount | undefined {
+        return this.accounts.get(username.replace(/^@/, "").toLowerCase());
+    }
+
+    getAccount(username: string): SimulatedAccount {
+        const account = this.findAccount(username);
+        if (!account) {
+            throw new Error(`Simulated account @${username} does not exist`);
+        }
+        return account;
+    }
+
+    getAccountById(userId: string): SimulatedAccount | undefined {
+        return Array.from(this.accounts.values()).find(
+            (account) => account.userId === userId
+        );
+    }
+
+    follow(follower: string, followee: string): void {
+        this.getAccount(follower).following.add(this.getAccount(followee).userId);
+    }
+
+    createTweet(params: {
+        username: string;
+        text: string;
+        inReplyToStatusId?: string;
+        quotedStatusId?: string;
+        media?: { data: Buffer; mediaType: string }[];
+        isNoteTweet?: boolean;
+    }): SimulatedTweet {
+        const account = this.getAccount(params.username);
+        const parent = params.inReplyToStatusId
+            ? this.getTweet(params.inReplyToStatusId)
+            : undefined;
+        if (params.inReplyToStatusId && !parent) {
+            throw new Error(
+                `Cannot reply to missing tweet ${params.inReplyToStatusId}`
+            );
+        }
+        if (params.quotedStatusId && !this.getTweet(params.quotedStatusId)) {
+            throw new Error(`Cannot quote missing tweet ${params.quotedStatusId}`);
+        }
+
+        const id = String(this.nextTweetId++);
+        const tweet: SimulatedTweet = {
+            id,
+            userId: account.userId,
+            text: params.text,
+            createdAt: this.clock,
+            conversationId: parent?.conversationId ?? id,
+            inReplyToStatusId: params.inReplyToStatusId,
+            quotedStatusId: params.quotedStatusId,
+            isNoteTweet: params.isNoteTweet ?? false,
+            media: (params.media ?? []).map((media) => ({
+                id: String(this.nextMediaId++),
+                mediaType: media.mediaType,
+                size: media.data.length,
+            })),
+            likedBy: new Set(),
+            retweetedBy: new Set(),
+        };
+        this.tweets.set(id, tweet);
+        return tweet;
+    }
+
+    getTweet(id: string): SimulatedTweet | undefined {
+        return this.tweets.get(id);
+    }
+
+    /**
+     * All tweets, newest first.
+     */
+    getTweets(): SimulatedTweet[] {
+        return Array.from(this.tweets.values()).reverse();
+    }
+
+    getReplies(tweetId: string): SimulatedTweet[] {
+        return this.getTweets()
+            .filter((tweet) => tweet.inReplyToStatusId === tweetId)
+            .reverse();
+    }
+
+    like(username: string, tweetId: string): void {
+        this.requireTweet(tweetId).likedBy.add(this.getAccount(username).userId);
+    }
+
+    retweet(username: string, tweetId: string): void {
+        this.requireTweet(tweetId).retweetedBy.add(
+            this.getAccount(username).userId
+        );
+    }
+
+    /**
+     * Searches tweets. Supports `from:user`, `to:user`, `@user`,
+     * `min_faves:N`, `min_retweets:N`, `filter:links|media|replies` and plain
+     * terms, all of which must match; a leading `-` negates a term. `lang:`
+     * is ignored, the simulator does not know languages.
+     */
+    search(query: string, mode: SearchMode = SearchMode.Latest): SimulatedTweet[] {
+        const terms = query
+            .toLowerCase()
+            .split(/\s+/)
+            .filter((term) => term && !/^-?lang:/.test(term));
+
+        const matches = this.getTweets().filter((tweet) =>
+            terms.every((term) =>
+                term.startsWith("-") && term.length > 1
+                    ? !this.matchesSearchTerm(tweet, term.slice(1))
+                    : this.matchesSearchTerm(tweet, term)
+            )
+        );
+
+        if (mode === SearchMode.Top) {
+            matches.sort((a, b) => b.likedBy.size - a.likedBy.size);
+        }
+        return matches;
+    }
+
+    private matchesSearchTerm(tweet: SimulatedTweet, term: string): boolean {
+        const text = tweet.text.toLowerCase();
+        const [operator, value] = term.split(":", 2);
+
+        switch (value === undefined ? "" : operator) {
+            case "from":
+                return (
+                    this.getAccountById(tweet.userId)?.username.toLowerCase() ===
+                    value
+                );
+            case "to": {
+                const parent = tweet.inReplyToStatusId
+                    ? this.getTweet(tweet.inReplyToStatusId)
+                    : undefined;
+                const parentAuthor = parent
+                    ? this.getAccountById(parent.userId)
+                    : undefined;
+                return (
+                    parentAuthor?.username.toLowerCase() === value ||
+                    text.includes(`@${value}`)
+                );
+            }
+            case "min_faves":
+                return tweet.likedBy.size >= Number(value);
+            case "min_retweets":
+                return tweet.retweetedBy.size >= Number(value);
+            case "filter":
+                if (value === "links") return /https?:\/\//.test(text);
+                if (value === "media") return tweet.media.length > 0;
+                if (value === "replies") return !!tweet.inReplyToStatusId;
+                return true;
+            default:
+                return text.includes(term);
+        }
+    }
+
+    /**
+     * Home timeline of an account: tweets of followed accounts, or of
+     * everyone else when `followingOnly` is false, newest first.
+     */
+    getTimeline(username: string, followingOnly: boolean): SimulatedTweet[] {
+        const account = this.getAccount(username);
+        return this.getTweets().filter((tweet) =>
+            followingOnly
+                ? account.following.has(tweet.userId)
+                : tweet.userId !== account.userId
+        );
+    }
+
+    /**
+     * Makes the next `times` calls of a scraper method fail with a rate-limit error.
+     */
+    rateLimit(method: string, times = 1): void {
+        this.rateLimits.set(method, (this.rateLimits.get(method) ?? 0) + times);
+    }
+
+    /**
+     * Throws if a rate limit is scripted for the method, consuming it.
+     */
+    checkRateLimit(method: string): void {
+        const remaining = this.rateLimits.get(method) ?? 0;
+        if (remaining > 0) {
+            this.rateLimits.set(method, remaining - 1);
+            throw new Error(
+                'Response status: 429 | {"errors":[{"code":88,"message":"Rate limit exceeded."}]}'
+            );
+        }
+    }
+
+    toProfile(account: SimulatedAccount): Profile {
+        const followers = Array.from(this.accounts.values()).filter((other) =>
+            other.following.has(account.userId)
+        ).length;
+
+        return {
+            userId: account.userId,
+            username: account.username,
+            name: account.name,
+            biography: account.biography,
+            location: "",
+            followersCount: followers,
+            followingCount: account.following.size,
+            tweetsCount: this.getTweets().filter(
+                (tweet) => tweet.userId === account.userId
+            ).length,
+        };
+    }
+
+    /**
+     * Converts a tweet to the parsed form returned by the scraper's tweet getters.
+     */
+    toTweet(tweet: SimulatedTweet): Tweet {
+        const author = this.getAccountById(tweet.userId);
+        const quoted = tweet.quotedStatusId
+            ? this.getTweet(tweet.quotedStatusId)
+            : undefined;
+
+        return {
+            id: tweet.id,
+            conversationId: tweet.conversationId,
+            inReplyToStatusId: tweet.inReplyToStatusId,
+            isReply: Boolean(tweet.inReplyToStatusId),
+            isQuoted: Boolean(tweet.quotedStatusId),
+            quotedStatusId: tweet.quotedStatusId,
+            quotedStatus: quoted ? this.toTweet(quoted) : undefined,
+            text: tweet.text,
+            userId: tweet.userId,
+            username: author?.username,
+            name: author?.name,
+            permanentUrl: `https://x.com/${author?.username}/status/${tweet.id}`,
+            timestamp: Math.floor(tweet.createdAt / 1000),
+            timeParsed: new Date(tweet.createdAt),
+            likes: tweet.likedBy.size,
+            retweets: tweet.retweetedBy.size,
+            replies: this.getReplies(tweet.id).length,
+            hashtags: tweet.text.match(/#\w+/g)?.map((tag) => tag.slice(1)) ?? [],
+            mentions: this.getMentions(tweet.text),
+            photos: tweet.media
+                .filter((media) => media.mediaType.startsWith("image/"))
+                .map((media) => ({
+                    id: media.id,
+                    url: this.getMediaUrl(media),
+                    alt_text: undefined,
+                })),
+            videos: tweet.media
+                .filter((media) => media.mediaType.startsWith("video/"))
+                .map((media) => ({
+                    id: media.id,
+                    preview: this.getMediaUrl(media),
+                    url: this.getMediaUrl(media),
+                })),
+            urls: [],
+            thread: [],
+        };
+    }
+
+    /**
+     * Converts a tweet to the raw GraphQL result returned by timelines and
+     * tweet creation endpoints.
+     */
+    toRawTweet(tweet: SimulatedTweet): Record<string, unknown> {
+        const author = this.getAccountById(tweet.userId);
+
+        return {
+            __typename: "Tweet",
+            rest_id: tweet.id,
+            core: {
+                user_results: {
+                    result: {
+                        rest_id: tweet.userId,
+                        legacy: {
+                            screen_name: author?.username,
+                            name: author?.name,
+                        },
+                    },
+                },
+            },
+            legacy: {
+                full_text: tweet.text,
+                created_at: new Date(tweet.createdAt).toUTCString(),
+                conversation_id_str: tweet.conversationId,
+                in_reply_to_status_id_str: tweet.inReplyToStatusId,
+                quoted_status_id_str: tweet.quotedStatusId,
+                is_quote_status: Boolean(tweet.quotedStatusId),
+                user_id_str: tweet.userId,
+                favorite_count: tweet.likedBy.size,
+                retweet_count: tweet.retweetedBy.size,
+                reply_count: this.getReplies(tweet.id).length,
+                entities: {
+                    hashtags: [],
+                    urls: [],
+                    user_mentions: this.getMentions(tweet.text),
+                    media: tweet.media.map((media) => ({
+                        id_str: media.id,
+                        type: media.mediaType.startsWith("video/")
+                            ? "video"
+                            : "photo",
+                        media_url_https: this.getMediaUrl(media),
+                    })),
+                },
+            },
+        };
+    }
+
+    private getMentions(text: string): Tweet["mentions"] {
+        return (text.match(/@\w+/g) ?? []).map((handle) => {
+            const account = this.findAccount(handle);
+            return {
+                id: account?.userId,
+                username: handle.slice(1),
+                name: account?.name,
+            };
+        });
+    }
+
+    private getMediaUrl(media: SimulatedMedia): string {
+        return `https://simulated.twimg.com/media/${media.id}`;
+    }
+
+    private requireTweet(tweetId: string): SimulatedTweet {
+        const tweet = this.getTweet(tweetId);
+        if (!tweet) {
+            throw new Error(`Simulated tweet ${tweetId} does not exist`);
+        }
+        return tweet;
+    }
+}
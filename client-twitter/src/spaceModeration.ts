@@ -0,0 +1,321 @@
+import {
+    elizaLogger,
+    getRelationship,
+    type IAgentRuntime,
+    type ModerationDecision,
+    type Relationship,
+    stringToUuid,
+    type TwitterSpaceModerationOptions,
+} from "@elizaos/core";
+import type { ClientBase } from "./base.ts";
+
+// Events kept for the moderation log, oldest dropped first
+const MAX_MODERATION_EVENTS = 500;
+
+export type SpaceModerationAction =
+    | "approved"
+    | "rejected"
+    | "muted"
+    | "removed";
+
+export interface SpaceModerationEvent {
+    at: number;
+    spaceId: string;
+    /** Twitter user ID of the speaker */
+    userId: string;
+    username?: string;
+    action: SpaceModerationAction;
+    /** What decided it, e.g. "blocklist", "history" or "blocklist:nsfw" */
+    rule: string;
+    reason?: string;
+    /** The transcript that got the speaker muted or removed */
+    text?: string;
+}
+
+/**
+ * What happens to a speaker after saying something: nothing, they're muted
+ * for a while, or they're removed from the stage.
+ */
+export type SpaceSpeechVerdict = "allowed" | "muted" | "removed";
+
+/**
+ * Twitter user IDs come with or without the "tw-" prefix of Janus audio.
+ */
+function normalizeUserId(userId: string): string {
+    return userId.replace(/^tw-/, "");
+}
+
+function normalizeHandle(handle: string): string {
+    return handle.trim().replace(/^@/, "").toLowerCase();
+}
+
+/**
+ * Decides who speaks in the agent's Spaces. Speaker requests are checked
+ * against the handle lists, then vetted against the requester's history with
+ * the agent: conversations they had with it, and their relationship. What
+ * speakers say goes through the character's content moderation; a speaker
+ * saying blocked content is muted, which the agent can only do by not
+ * listening to them, and removed once they reach `maxStrikes`.
+ *
+ * Every decision is kept in an event log, across Spaces.
+ */
+export class SpaceModerator {
+    private spaceId = "";
+    private allowlist: Set<string>;
+    private blocklist: Set<string>;
+    private events: SpaceModerationEvent[] = [];
+
+    // State of the current Space, by Twitter user ID
+    private usernames = new Map<string, string>();
+    private strikes = new Map<string, number>();
+    private mutedUntil = new Map<string, number>();
+    private removed = new Set<string>();
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private client: ClientBase,
+        private options: TwitterSpaceModerationOptions = {}
+    ) {
+        this.allowlist = new Set((options.allowlist ?? []).map(normalizeHandle));
+        this.blocklist = new Set((options.blocklist ?? []).map(normalizeHandle));
+    }
+
+    /**
+     * Starts moderating a new Space, forgetting who was muted or removed.
+     */
+    startSpace(spaceId: string): void {
+        this.spaceId = spaceId;
+        this.usernames.clear();
+        this.strikes.clear();
+        this.mutedUntil.clear();
+        this.removed.clear();
+    }
+
+    /**
+     * Decides whether a speaker request is accepted.
+     */
+    async vetSpeaker(request: {
+        userId: string;
+        username: string;
+    }): Promise<ModerationDecision> {
+        const userId = normalizeUserId(request.userId);
+        this.usernames.set(userId, request.username);
+
+        const decision = await this.getSpeakerDecision(
+            userId,
+            request.username
+        );
+        this.record({
+            userId,
+            action: decision.allowed ? "approved" : "rejected",
+            rule: decision.rule ?? "vetting",
+            reason: decision.reason,
+        });
+        return decision;
+    }
+
+    /**
+     * Whether a speaker on stage must be removed, being blocklisted or
+     * removed before in this Space.
+     */
+    isBlocked(userId: string, username?: string): boolean {
+        return (
+            this.removed.has(normalizeUserId(userId)) ||
+            (!!username && this.blocklist.has(normalizeHandle(username)))
+        );
+    }
+
+    isMuted(userId: string, now = Date.now()): boolean {
+        return (this.mutedUntil.get(normalizeUserId(userId)) ?? 0) > now;
+    }
+
+    /**
+     * Runs what a speaker said through content moderation, muting them when
+     * it is blocked, or removing them on their last strike.
+     */
+    async checkSpeech(
+        speakerId: string,
+        text: string
+    ): Promise<SpaceSpeechVerdict> {
+        const userId = normalizeUserId(speakerId);
+        if (this.removed.has(userId)) {
+            return "removed";
+        }
+        if (this.isMuted(userId)) {
+            return "muted";
+        }
+        if (this.options.autoMute === false) {
+            return "allowed";
+        }
+
+        const decision = await this.client.moderator.check(text, {
+            direction: "inbound",
+            source: "twitter:space",
+        });
+        if (decision.allowed) {
+            return "allowed";
+        }
+
+        const strikes = (this.strikes.get(userId) ?? 0) + 1;
+        this.strikes.set(userId, strikes);
+        const maxStrikes = this.options.maxStrikes ?? 2;
+        const verdict = strikes >= maxStrikes ? "removed" : "muted";
+        if (verdict === "removed") {
+            this.removed.add(userId);
+            this.mutedUntil.delete(userId);
+        } else {
+            this.mutedUntil.set(
+                userId,
+                Date.now() + (this.options.muteDurationMs ?? 2 * 60_000)
+            );
+        }
+        this.record({
+            userId,
+            action: verdict,
+            rule: decision.rule ?? "moderation",
+            reason: `${decision.reason ? `${decision.reason}, ` : ""}strike ${strikes} of ${maxStrikes}`,
+            text,
+        });
+        return verdict;
+    }
+
+    /**
+     * Records the removal of a speaker decided outside of the moderator,
+     * e.g. a blocklisted speaker found on stage. Removals already recorded
+     * are ignored.
+     */
+    recordRemoval(speakerId: string, rule: string, username?: string): void {
+        const userId = normalizeUserId(speakerId);
+        if (this.removed.has(userId)) return;
+        if (username) {
+            this.usernames.set(userId, username);
+        }
+        this.removed.add(userId);
+        this.record({ userId, action: "removed", rule });
+    }
+
+    /**
+     * Moderation events, most recent first.
+     */
+    getEvents(limit = MAX_MODERATION_EVENTS): SpaceModerationEvent[] {
+        return this.events.slice(-limit).reverse();
+    }
+
+    private async getSpeakerDecision(
+        userId: string,
+        username: string
+    ): Promise<ModerationDecision> {
+        const handle = normalizeHandle(username);
+        if (this.blocklist.has(handle)) {
+            return { allowed: false, rule: "blocklist" };
+        }
+        if (this.removed.has(userId)) {
+            return {
+                allowed: false,
+                rule: "removed",
+                reason: "Removed from this Space before",
+            };
+        }
+        if (this.allowlist.has(handle)) {
+            return { allowed: true, rule: "allowlist" };
+        }
+        if (this.options.allowlistOnly) {
+            return {
+                allowed: false,
+                rule: "allowlist",
+                reason: "Not on the allowlist",
+            };
+        }
+
+        const vetting = this.options.vetting ?? {};
+        const relationship = await this.getRelationship(userId);
+        const blockedStatuses = vetting.blockedStatuses ?? ["BLOCKED"];
+        if (relationship && blockedStatuses.includes(relationship.status)) {
+            return {
+                allowed: false,
+                rule: "relationship",
+                reason: `Relationship is ${relationship.status}`,
+            };
+        }
+        if (vetting.requireRelationship && !relationship) {
+            return {
+                allowed: false,
+                rule: "relationship",
+                reason: "No relationship with the agent",
+            };
+        }
+
+        const minInteractions = vetting.minInteractions ?? 0;
+        if (minInteractions > 0) {
+            const interactions = await this.countInteractions(userId);
+            if (interactions < minInteractions) {
+                return {
+                    allowed: false,
+                    rule: "history",
+                    reason: `${interactions} of ${minInteractions} conversations with the agent`,
+                };
+            }
+        }
+        return { allowed: true, rule: "vetting" };
+    }
+
+    // Speakers are known by their tweets' user ID, or from earlier Spaces
+    private getUserUuids(userId: string) {
+        return [stringToUuid(userId), stringToUuid(`twitter-user-${userId}`)];
+    }
+
+    private async getRelationship(
+        userId: string
+    ): Promise<Relationship | null> {
+        try {
+            for (const userB of this.getUserUuids(userId)) {
+                const relationship = await getRelationship({
+                    runtime: this.runtime,
+                    userA: this.runtime.agentId,
+                    userB,
+                });
+                if (relationship) return relationship;
+            }
+        } catch (error) {
+            elizaLogger.error(
+                `[SpaceModeration] Error reading the relationship with ${userId} =>`,
+                error
+            );
+        }
+        return null;
+    }
+
+    private async countInteractions(userId: string): Promise<number> {
+        try {
+            const rooms =
+                await this.runtime.databaseAdapter.getRoomsForParticipants(
+                    this.getUserUuids(userId)
+                );
+            return rooms.length;
+        } catch (error) {
+            elizaLogger.error(
+                `[SpaceModeration] Error reading the history of ${userId} =>`,
+                error
+            );
+            return 0;
+        }
+    }
+
+    private record(
+        event: Omit<SpaceModerationEvent, "at" | "spaceId" | "username">
+    ): void {
+        const username = this.usernames.get(event.userId);
+        this.events.push({
+            at: Date.now(),
+            spaceId: this.spaceId,
+            username,
+            ...event,
+        });
+        if (this.events.length > MAX_MODERATION_EVENTS) {
+            this.events.shift();
+        }
+        elizaLogger.log(
+            `[SpaceModeration] ${event.action} @${username ?? event.userId} by ${event.rule}${event.reason ? `: ${event.reason}` : ""}`
+        );
+    }
+}
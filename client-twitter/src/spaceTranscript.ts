@@ -0,0 +1,251 @@
+import {
+    composeContext,
+    elizaLogger,
+    generateText,
+    getEmbeddingZeroVector,
+    type IAgentRuntime,
+    ModelClass,
+    parseJSONObjectFromText,
+    type State,
+    stringToUuid,
+    truncateToCompleteSentence,
+    type UUID,
+} from "@elizaos/core";
+import type { ClientBase } from "./base.ts";
+import { twitterSpaceSummaryTemplate } from "./plugins/templates.ts";
+
+const MAX_HIGHLIGHTS = 3;
+
+export interface SpaceTranscriptSegment {
+    userId: string;
+    username: string;
+    text: string;
+    /** When the speaker started talking */
+    timestamp: number;
+    /** Time into the Space */
+    offsetMs: number;
+}
+
+export interface SpaceRecap {
+    summary: string;
+    highlights: string[];
+}
+
+/**
+ * Twitter user IDs come with or without the "tw-" prefix of Janus audio.
+ */
+function normalizeUserId(userId: string): string {
+    return userId.replace(/^tw-/, "");
+}
+
+function formatOffset(offsetMs: number): string {
+    const seconds = Math.max(0, Math.floor(offsetMs / 1000));
+    return [
+        Math.floor(seconds / 3600),
+        Math.floor(seconds / 60) % 60,
+        seconds % 60,
+    ]
+        .map((part) => String(part).padStart(2, "0"))
+        .join(":");
+}
+
+/**
+ * The transcript of a Twitter Space: what each speaker said, and when. Each
+ * segment is stored as a memory in the Space's room as it comes in, so the
+ * transcript survives a crash, and the recap once the Space is summarized.
+ */
+export class SpaceTranscript {
+    readonly roomId: UUID;
+    private segments: SpaceTranscriptSegment[] = [];
+    private usernames = new Map<string, string>();
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private client: ClientBase,
+        readonly spaceId: string,
+        readonly title: string,
+        readonly url: string,
+        readonly startedAt: number = Date.now()
+    ) {
+        this.roomId = stringToUuid(`twitter_space-${spaceId}`);
+        this.addSpeaker(client.profile.id, client.profile.username);
+    }
+
+    /**
+     * Names a speaker, for the segments of their user ID.
+     */
+    addSpeaker(userId: string, username: string): void {
+        this.usernames.set(normalizeUserId(userId), username);
+    }
+
+    getSegments(): SpaceTranscriptSegment[] {
+        return [...this.segments];
+    }
+
+    /**
+     * Records what a speaker said, starting at `timestamp`.
+     */
+    async add(
+        userId: string,
+        text: string,
+        timestamp: number = Date.now()
+    ): Promise<SpaceTranscriptSegment | null> {
+        if (!text.trim()) {
+            return null;
+        }
+        const id = normalizeUserId(userId);
+        const segment: SpaceTranscriptSegment = {
+            userId: id,
+            username: this.usernames.get(id) ?? id,
+            text: text.trim(),
+            timestamp,
+            offsetMs: timestamp - this.startedAt,
+        };
+        const index = this.segments.push(segment) - 1;
+
+        try {
+            const speakerId = this.isAgent(segment)
+                ? this.runtime.agentId
+                : stringToUuid(`twitter-user-${id}`);
+            await this.runtime.ensureConnection(
+                speakerId,
+                this.roomId,
+                segment.username,
+                segment.username,
+                "twitter"
+            );
+            await this.runtime.messageManager.createMemory({
+                id: stringToUuid(`${this.roomId}-transcript-${index}`),
+                agentId: this.runtime.agentId,
+                userId: speakerId,
+                roomId: this.roomId,
+                content: {
+                    text: segment.text,
+                    source: "twitter",
+                    spaceId: this.spaceId,
+                    username: segment.username,
+                    offsetMs: segment.offsetMs,
+                },
+                embedding: getEmbeddingZeroVector(),
+                createdAt: timestamp,
+            });
+        } catch (error) {
+            elizaLogger.error(
+                "[SpaceTranscript] Error storing transcript segment =>",
+                error
+            );
+        }
+        return segment;
+    }
+
+    /**
+     * The transcript as text, one "[hh:mm:ss] @username: text" line per
+     * segment.
+     */
+    format(): string {
+        return this.segments
+            .map(
+                ({ offsetMs, username, text }) =>
+                    `[${formatOffset(offsetMs)}] @${username}: ${text}`
+            )
+            .join("\n");
+    }
+
+    /**
+     * Generates a summary and highlights of the Space, and stores them as a
+     * memory in its room.
+     *
+     * @returns The recap, or null when nothing was said or no recap could be
+     * generated
+     */
+    async summarize(): Promise<SpaceRecap | null> {
+        if (this.segments.length === 0) {
+            return null;
+        }
+
+        const context = composeContext({
+            state: {
+                agentName: this.runtime.character.name,
+                twitterUserName: this.client.profile.username,
+                spaceTitle: this.title,
+                transcript: this.format(),
+                maxHighlights: MAX_HIGHLIGHTS,
+            } as unknown as State,
+            template:
+                this.runtime.character.templates?.twitterSpaceSummaryTemplate ||
+                twitterSpaceSummaryTemplate,
+        });
+        const response = await generateText({
+            runtime: this.runtime,
+            context,
+            modelClass: ModelClass.LARGE,
+        });
+
+        const parsed = parseJSONObjectFromText(response);
+        const summary =
+            typeof parsed?.summary === "string" ? parsed.summary.trim() : "";
+        if (!summary) {
+            elizaLogger.warn(
+                `[SpaceTranscript] No summary generated for Space ${this.spaceId}`
+            );
+            return null;
+        }
+        const recap: SpaceRecap = {
+            summary,
+            highlights: (Array.isArray(parsed.highlights)
+                ? parsed.highlights
+                : []
+            )
+                .filter(
+                    (highlight: unknown): highlight is string =>
+                        typeof highlight === "string" && !!highlight.trim()
+                )
+                .map((highlight: string) => highlight.trim())
+                .slice(0, MAX_HIGHLIGHTS),
+        };
+
+        await this.runtime.messageManager.createMemory({
+            id: stringToUuid(`${this.roomId}-recap`),
+            agentId: this.runtime.agentId,
+            userId: this.runtime.agentId,
+            roomId: this.roomId,
+            content: {
+                text: recap.summary,
+                source: "twitter",
+                spaceId: this.spaceId,
+                highlights: recap.highlights,
+                url: this.url,
+            },
+            embedding: getEmbeddingZeroVector(),
+            createdAt: Date.now(),
+        });
+        return recap;
+    }
+
+    private isAgent(segment: SpaceTranscriptSegment): boolean {
+        return segment.userId === normalizeUserId(this.client.profile.id);
+    }
+}
+
+/**
+ * The tweets of a thread recapping a Space: the summary with a link to the
+ * Space, then a tweet per highlight.
+ */
+export function formatRecapThread(
+    title: string,
+    recap: SpaceRecap,
+    url: string,
+    maxTweetLength: number
+): string[] {
+    const link = `\n\n${url}`;
+    const intro = truncateToCompleteSentence(
+        `Recap of "${title}": ${recap.summary}`,
+        maxTweetLength - link.length
+    );
+    return [
+        intro + link,
+        ...recap.highlights.map((highlight) =>
+            truncateToCompleteSentence(highlight, maxTweetLength)
+        ),
+    ];
+}
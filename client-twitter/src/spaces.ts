@@ -9,6 +9,12 @@ import {
     type TwitterSpaceDecisionOptions,
 } from "@elizaos/core";
 import type { ClientBase } from "./base.ts";
+import type { TwitterPostClient } from "./post.ts";
+import {
+    type SpaceModerationEvent,
+    SpaceModerator,
+} from "./spaceModeration.ts";
+import { formatRecapThread, SpaceTranscript } from "./spaceTranscript.ts";
 import {
     type Scraper,
     Space,
@@ -18,6 +24,12 @@ import {
     type SpeakerRequest,
 } from "agent-twitter-client";
 import { SttTtsPlugin } from "./plugins/SttTtsSpacesPlugin.ts";
+import {
+    DEFAULT_ELEVENLABS_VOICE_ID,
+    ElevenLabsSpeechSynthesizer,
+    PiperSpeechSynthesizer,
+    type SpeechSynthesizer,
+} from "./plugins/speech.ts";
 
 interface CurrentSpeakerState {
     userId: string;
@@ -26,6 +38,12 @@ interface CurrentSpeakerState {
     startTime: number;
 }
 
+// A speaker as listed in the participants of an audio space
+interface SpaceParticipant {
+    user_id: string;
+    twitter_screen_name?: string;
+}
+
 /**
  * Generate short filler text via GPT
  */
@@ -127,6 +145,9 @@ export class TwitterSpaceClient {
     private checkInterval?: NodeJS.Timeout;
     private lastSpaceEndedAt?: number;
     private sttTtsPlugin?: SttTtsPlugin;
+    private transcript?: SpaceTranscript;
+    private postClient?: TwitterPostClient;
+    private moderator: SpaceModerator;
 
     /**
      * We now store an array of active speakers, not just 1
@@ -136,10 +157,15 @@ export class TwitterSpaceClient {
 
     private decisionOptions: TwitterSpaceDecisionOptions;
 
-    constructor(client: ClientBase, runtime: IAgentRuntime) {
+    constructor(
+        client: ClientBase,
+        runtime: IAgentRuntime,
+        postClient?: TwitterPostClient
+    ) {
         this.client = client;
         this.scraper = client.twitterClient;
         this.runtime = runtime;
+        this.postClient = postClient;
 
         const charSpaces = runtime.character.twitterSpaces || {};
         this.decisionOptions = {
@@ -154,13 +180,23 @@ export class TwitterSpaceClient {
             enableIdleMonitor: charSpaces.enableIdleMonitor !== false,
             enableSttTts: charSpaces.enableSttTts !== false,
             enableRecording: charSpaces.enableRecording !== false,
+            enableTranscript: charSpaces.enableTranscript !== false,
+            postRecap: charSpaces.postRecap ?? false,
+            speechSynthesizer: charSpaces.speechSynthesizer ?? "elevenlabs",
             voiceId:
                 charSpaces.voiceId ||
-                runtime.character.settings.voice.model ||
-                "Xb7hH8MSUJpSbSDYk0k2",
+                runtime.character.settings?.voice?.model ||
+                DEFAULT_ELEVENLABS_VOICE_ID,
             sttLanguage: charSpaces.sttLanguage || "en",
             speakerMaxDurationMs: charSpaces.speakerMaxDurationMs ?? 4 * 60_000,
+            turnTaking: charSpaces.turnTaking,
+            moderation: charSpaces.moderation,
         };
+        this.moderator = new SpaceModerator(
+            runtime,
+            client,
+            this.decisionOptions.moderation
+        );
     }
 
     /**
@@ -288,13 +324,27 @@ export class TwitterSpaceClient {
             // Reset states
             this.activeSpeakers = [];
             this.speakerQueue = [];
-
-            // Retrieve keys
-            const elevenLabsKey =
-                this.runtime.getSetting("ELEVENLABS_XI_API_KEY") || "";
+            this.transcript = undefined;
 
             const broadcastInfo = await this.currentSpace.initialize(config);
             this.spaceId = broadcastInfo.room_id;
+            this.moderator.startSpace(this.spaceId);
+            const spaceUrl = broadcastInfo.share_url.replace(
+                "broadcasts",
+                "spaces"
+            );
+
+            if (this.decisionOptions.enableTranscript) {
+                this.transcript = new SpaceTranscript(
+                    this.runtime,
+                    this.client,
+                    this.spaceId,
+                    config.title ?? "",
+                    spaceUrl,
+                    this.startedAt
+                );
+            }
+
             // Plugins
             if (this.decisionOptions.enableRecording) {
                 elizaLogger.log("[Space] Using RecordToDiskPlugin");
@@ -309,13 +359,19 @@ export class TwitterSpaceClient {
                     runtime: this.runtime,
                     client: this.client,
                     spaceId: this.spaceId,
-                    elevenLabsApiKey: elevenLabsKey,
-                    voiceId: this.decisionOptions.voiceId,
+                    synthesizer: this.createSpeechSynthesizer(),
                     sttLanguage: this.decisionOptions.sttLanguage,
+                    turnTaking: this.decisionOptions.turnTaking,
                     transcriptionService:
                         this.client.runtime.getService<ITranscriptionService>(
                             ServiceType.TRANSCRIPTION
                         ),
+                    onTranscript: (userId, text, startedAt) => {
+                        this.transcript?.add(userId, text, startedAt);
+                    },
+                    moderate: (userId, text) =>
+                        this.moderateSpeech(userId, text),
+                    isMuted: (userId) => this.moderator.isMuted(userId),
                 });
             }
 
@@ -330,14 +386,8 @@ export class TwitterSpaceClient {
             }
 
             this.isSpaceRunning = true;
-            await this.scraper.sendTweet(
-                broadcastInfo.share_url.replace("broadcasts", "spaces")
-            );
+            await this.scraper.sendTweet(spaceUrl);
 
-            const spaceUrl = broadcastInfo.share_url.replace(
-                "broadcasts",
-                "spaces"
-            );
             elizaLogger.log(`[Space] Space started => ${spaceUrl}`);
 
             // Greet
@@ -393,6 +443,39 @@ export class TwitterSpaceClient {
         }
     }
 
+    /**
+     * The configured text-to-speech engine, undefined when its settings are
+     * missing
+     */
+    private createSpeechSynthesizer(): SpeechSynthesizer | undefined {
+        if (this.decisionOptions.speechSynthesizer === "piper") {
+            const model = this.runtime.getSetting("PIPER_MODEL_PATH");
+            if (!model) {
+                elizaLogger.warn(
+                    "[Space] PIPER_MODEL_PATH is not set, the agent can't speak"
+                );
+                return undefined;
+            }
+            return new PiperSpeechSynthesizer({
+                model,
+                binary: this.runtime.getSetting("PIPER_PATH") || undefined,
+            });
+        }
+
+        const apiKey = this.runtime.getSetting("ELEVENLABS_XI_API_KEY");
+        if (!apiKey) {
+            elizaLogger.warn(
+                "[Space] ELEVENLABS_XI_API_KEY is not set, the agent can't speak"
+            );
+            return undefined;
+        }
+        return new ElevenLabsSpeechSynthesizer({
+            apiKey,
+            voiceId: this.decisionOptions.voiceId,
+            model: this.runtime.getSetting("ELEVENLABS_MODEL_ID") || undefined,
+        });
+    }
+
     /**
      * Periodic management: check durations, remove extras, maybe accept new from queue
      */
@@ -406,6 +489,9 @@ export class TwitterSpaceClient {
             const numSpeakers = participants.speakers?.length || 0;
             const totalListeners = participants.listeners?.length || 0;
 
+            // 0) Remove speakers the moderation doesn't allow on stage
+            await this.removeBlockedSpeakers(participants.speakers ?? []);
+
             // 1) Remove any speaker who exceeded speakerMaxDurationMs
             const maxDur = this.decisionOptions.speakerMaxDurationMs ?? 240_000;
             const now = Date.now();
@@ -490,6 +576,9 @@ export class TwitterSpaceClient {
     private async handleSpeakerRequest(req: SpeakerRequest) {
         if (!this.spaceId || !this.currentSpace) return;
 
+        const vetting = await this.moderator.vetSpeaker(req);
+        if (!vetting.allowed) return;
+
         const audioSpace = await this.scraper.getAudioSpaceById(this.spaceId);
         const janusSpeakers = audioSpace?.participants?.speakers || [];
 
@@ -514,6 +603,7 @@ export class TwitterSpaceClient {
         if (!this.currentSpace) return;
         try {
             await this.currentSpace.approveSpeaker(req.userId, req.sessionUUID);
+            this.transcript?.addSpeaker(req.userId, req.username);
             this.activeSpeakers.push({
                 userId: req.userId,
                 sessionUUID: req.sessionUUID,
@@ -568,8 +658,59 @@ export class TwitterSpaceClient {
         }
     }
 
+    /**
+     * Checks what a speaker said, removing them from the stage on their last
+     * strike. Returns whether the agent may answer it.
+     */
+    private async moderateSpeech(
+        speakerId: string,
+        text: string
+    ): Promise<boolean> {
+        const verdict = await this.moderator.checkSpeech(speakerId, text);
+        if (verdict === "removed") {
+            const userId = speakerId.replace(/^tw-/, "");
+            await this.removeSpeaker(userId);
+            this.activeSpeakers = this.activeSpeakers.filter(
+                (speaker) => speaker.userId !== userId
+            );
+        }
+        return verdict === "allowed";
+    }
+
+    /**
+     * Removes blocklisted speakers, and speakers removed before who made it
+     * back on stage
+     */
+    private async removeBlockedSpeakers(speakers: SpaceParticipant[]) {
+        for (const sp of speakers) {
+            if (!this.moderator.isBlocked(sp.user_id, sp.twitter_screen_name)) {
+                continue;
+            }
+            elizaLogger.log(
+                `[Space] Removing blocked speaker => userId=${sp.user_id}`
+            );
+            this.moderator.recordRemoval(
+                sp.user_id,
+                "blocklist",
+                sp.twitter_screen_name
+            );
+            await this.removeSpeaker(sp.user_id);
+            this.activeSpeakers = this.activeSpeakers.filter(
+                (speaker) => speaker.userId !== sp.user_id
+            );
+        }
+    }
+
+    /**
+     * Speaker vetting, mutes and removals, most recent first.
+     */
+    public getModerationEvents(limit?: number): SpaceModerationEvent[] {
+        return this.moderator.getEvents(limit);
+    }
+
     public async stopSpace() {
         if (!this.currentSpace || !this.isSpaceRunning) return;
+        const transcript = this.transcript;
         try {
             elizaLogger.log("[Space] Stopping the current Space...");
             await this.currentSpace.stop();
@@ -583,6 +724,46 @@ export class TwitterSpaceClient {
             this.lastSpaceEndedAt = Date.now();
             this.activeSpeakers = [];
             this.speakerQueue = [];
+            this.transcript = undefined;
+        }
+
+        if (transcript) {
+            await this.recapSpace(transcript);
+        }
+    }
+
+    /**
+     * Summarizes the Space that ended, and posts a thread recapping it when
+     * `postRecap` is set.
+     */
+    private async recapSpace(transcript: SpaceTranscript) {
+        try {
+            const recap = await transcript.summarize();
+            if (!recap) return;
+            elizaLogger.log(`[Space] Recap => ${recap.summary}`);
+
+            if (!this.decisionOptions.postRecap) return;
+            if (!this.postClient) {
+                elizaLogger.warn(
+                    "[Space] No post client to post the recap thread with"
+                );
+                return;
+            }
+            const tweets = await this.postClient.postThread(
+                formatRecapThread(
+                    transcript.title,
+                    recap,
+                    transcript.url,
+                    this.client.twitterConfig.MAX_TWEET_LENGTH
+                )
+            );
+            if (tweets.length > 0) {
+                elizaLogger.log(
+                    `[Space] Recap thread posted => ${tweets[0].permanentUrl}`
+                );
+            }
+        } catch (error) {
+            elizaLogger.error("[Space] Error recapping Space =>", error);
         }
     }
 }
@@ -8,6 +8,7 @@ import type { Media } from "@elizaos/core";
 import fs from "fs";
 import path from "path";
 import { MediaData } from "./types";
+import { RequestPriority } from "./requestQueue";
 
 export const wait = (minTime = 1000, maxTime = 3000) => {
     const waitTime =
@@ -203,6 +204,14 @@ export async function sendTweet(
     twitterUsername: string,
     inReplyTo: string
 ): Promise<Memory[]> {
+    const moderation = await client.moderator.check(content.text, {
+        direction: "outbound",
+        source: `twitter:reply:${inReplyTo}`,
+    });
+    if (!moderation.allowed) {
+        return [];
+    }
+
     const maxTweetLength = client.twitterConfig.MAX_TWEET_LENGTH;
     const isLongTweet = maxTweetLength > 280;
 
@@ -219,19 +228,37 @@ export async function sendTweet(
 
         const cleanChunk = deduplicateMentions(chunk.trim())
 
-        const result = await client.requestQueue.add(async () =>
-            isLongTweet
-                ? client.twitterClient.sendLongTweet(
-                      cleanChunk,
-                      previousTweetId,
-                      mediaData
-                  )
-                : client.twitterClient.sendTweet(
-                      cleanChunk,
-                      previousTweetId,
-                      mediaData
-                  )
-        );
+        let result: Response;
+        try {
+            result = await client.requestQueue.add(async () =>
+                isLongTweet
+                    ? client.twitterClient.sendLongTweet(
+                          cleanChunk,
+                          previousTweetId,
+                          mediaData
+                      )
+                    : client.twitterClient.sendTweet(
+                          cleanChunk,
+                          previousTweetId,
+                          mediaData
+                      ),
+                {
+                    priority: RequestPriority.High,
+                    endpoint: isLongTweet ? "sendLongTweet" : "sendTweet",
+                }
+            );
+        } catch (error) {
+            if (sentTweets.length === 0) {
+                throw error;
+            }
+            // The chunks already out stand as the reply: retrying it would
+            // post them again
+            elizaLogger.error(
+                `Error sending tweet chunk, keeping the ${sentTweets.length} sent:`,
+                error
+            );
+            break;
+        }
 
         const body = await result.json();
         const tweetResult = isLongTweet
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ApprovalEdit, ApprovalQueueItem } from "@elizaos/core";
+import { Check, Pencil, X } from "lucide-react";
+import PageTitle from "@/components/page-title";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Card,
+    CardContent,
+    CardFooter,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api";
+import { moment } from "@/lib/utils";
+
+type ApprovalWithEdits = ApprovalQueueItem & { edits: ApprovalEdit[] };
+
+function ApprovalCard({
+    agentId,
+    approval,
+}: {
+    agentId: string;
+    approval: ApprovalWithEdits;
+}) {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const [text, setText] = useState(approval.text);
+
+    const isPending = approval.status === "PENDING";
+    const isEdited = text.trim() !== approval.text;
+
+    const mutation = useMutation({
+        mutationKey: ["approval", approval.id],
+        mutationFn: async (decision: "edit" | "approve" | "reject") => {
+            // Save the reviewer's edits first so the approved text is the one posted
+            if (decision !== "reject" && isEdited) {
+                await apiClient.editContent(agentId, approval.id, text.trim());
+            }
+            if (decision === "approve") {
+                await apiClient.approveContent(agentId, approval.id);
+            } else if (decision === "reject") {
+                await apiClient.rejectContent(agentId, approval.id);
+            }
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["approvals", agentId],
+            });
+        },
+        onError: (e) => {
+            toast({
+                variant: "destructive",
+                title: "Unable to update approval",
+                description: e.message,
+            });
+        },
+    });
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <Badge variant={isPending ? "default" : "outline"}>
+                        {approval.status}
+                    </Badge>
+                    <span className="text-muted-foreground text-sm font-normal">
+                        {approval.source} · @{approval.account} ·{" "}
+                        {moment(approval.createdAt).format("LLL")}
+                    </span>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isPending ? (
+                    <Textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        className="min-h-[120px] select-text"
+                    />
+                ) : (
+                    <p className="whitespace-pre-wrap">{approval.text}</p>
+                )}
+                {approval.edits.length > 0 ? (
+                    <div className="space-y-2">
+                        <div className="text-sm font-medium">Edit history</div>
+                        {approval.edits.map((edit) => (
+                            <div
+                                key={edit.id}
+                                className="rounded-md bg-muted p-2 text-sm space-y-1"
+                            >
+                                <div className="text-muted-foreground">
+                                    {moment(edit.createdAt).format("LLL")}
+                                    {edit.editor ? ` by ${edit.editor}` : ""}
+                                </div>
+                                <div className="line-through text-muted-foreground whitespace-pre-wrap">
+                                    {edit.previousText}
+                                </div>
+                                <div className="whitespace-pre-wrap">
+                                    {edit.text}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : null}
+            </CardContent>
+            {isPending ? (
+                <CardFooter className="flex items-center gap-2">
+                    <Button
+                        variant="outline"
+                        disabled={!isEdited || !text.trim() || mutation.isPending}
+                        onClick={() => mutation.mutate("edit")}
+                    >
+                        <Pencil /> Save edit
+                    </Button>
+                    <Button
+                        disabled={!text.trim() || mutation.isPending}
+                        onClick={() => mutation.mutate("approve")}
+                    >
+                        <Check /> Approve
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        disabled={mutation.isPending}
+                        onClick={() => mutation.mutate("reject")}
+                    >
+                        <X /> Reject
+                    </Button>
+                </CardFooter>
+            ) : null}
+        </Card>
+    );
+}
+
+export default function ApprovalQueue({
+    agentId,
+    approvals,
+}: {
+    agentId: string;
+    approvals: ApprovalWithEdits[];
+}) {
+    return (
+        <div className="p-4 space-y-4">
+            <PageTitle
+                title="Approvals"
+                subtitle="Review, edit and approve content before your agent publishes it."
+            />
+            {approvals.length === 0 ? (
+                <div className="text-muted-foreground">
+                    Nothing is waiting for approval.
+                </div>
+            ) : null}
+            {approvals.map((approval) => (
+                <ApprovalCard
+                    key={`${approval.id}-${approval.updatedAt}`}
+                    agentId={agentId}
+                    approval={approval}
+                />
+            ))}
+        </div>
+    );
+}
@@ -1,4 +1,10 @@
-import type { UUID, Character } from "@elizaos/core";
+import type {
+    UUID,
+    Character,
+    ApprovalEdit,
+    ApprovalQueueItem,
+    ApprovalStatus,
+} from "@elizaos/core";
 
 const BASE_URL =
     import.meta.env.VITE_SERVER_BASE_URL ||
@@ -56,7 +62,8 @@ const fetcher = async ({
             let errorMessage = "An error occurred.";
             try {
                 const errorObj = JSON.parse(errorText);
-                errorMessage = errorObj.message || errorMessage;
+                errorMessage =
+                    errorObj.message || errorObj.error || errorMessage;
             } catch {
                 errorMessage = errorText || errorMessage;
             }
@@ -112,4 +119,31 @@ export const apiClient = {
             body: formData,
         });
     },
+    getApprovals: (
+        agentId: string,
+        status?: ApprovalStatus
+    ): Promise<{
+        approvals: (ApprovalQueueItem & { edits: ApprovalEdit[] })[];
+    }> =>
+        fetcher({
+            url: `/agents/${agentId}/approvals${status ? `?status=${status}` : ""}`,
+        }),
+    approveContent: (agentId: string, approvalId: string) =>
+        fetcher({
+            url: `/agents/${agentId}/approvals/${approvalId}/approve`,
+            method: "POST",
+            body: {},
+        }),
+    rejectContent: (agentId: string, approvalId: string) =>
+        fetcher({
+            url: `/agents/${agentId}/approvals/${approvalId}/reject`,
+            method: "POST",
+            body: {},
+        }),
+    editContent: (agentId: string, approvalId: string, text: string) =>
+        fetcher({
+            url: `/agents/${agentId}/approvals/${approvalId}/edit`,
+            method: "POST",
+            body: { text },
+        }),
 };
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api";
+import ApprovalQueue from "@/components/approval-queue";
+import { useParams } from "react-router";
+import type { UUID } from "@elizaos/core";
+
+export default function ApprovalsRoute() {
+    const { agentId } = useParams<{ agentId: UUID }>();
+
+    const query = useQuery({
+        queryKey: ["approvals", agentId],
+        queryFn: () => apiClient.getApprovals(agentId ?? ""),
+        refetchInterval: 10_000,
+        enabled: Boolean(agentId),
+    });
+
+    if (!agentId) return <div>No data.</div>;
+
+    const approvals = query?.data?.approvals;
+
+    if (!approvals) return null;
+
+    return <ApprovalQueue agentId={agentId} approvals={approvals} />;
+}
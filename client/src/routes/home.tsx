@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { Cog } from "lucide-react";
+import { ClipboardCheck, Cog } from "lucide-react";
 import PageTitle from "@/components/page-title";
 import { Button } from "@/components/ui/button";
 import {
@@ -52,6 +52,11 @@ export default function Home() {
                                         Chat
                                     </Button>
                                 </NavLink>
+                                <NavLink to={`/approvals/${agent.id}`}>
+                                    <Button size="icon" variant="outline">
+                                        <ClipboardCheck />
+                                    </Button>
+                                </NavLink>
                                 <NavLink
                                     to={`/settings/${agent.id}`}
                                     key={agent.id}
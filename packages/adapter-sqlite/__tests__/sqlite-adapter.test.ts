@@ -156,13 +156,281 @@ describe('SqliteDatabaseAdapter', () => {
         });
     });
 
+    describe('getApprovals', () => {
+        it('should filter by account and multiple statuses', async () => {
+            const allMock = vi.fn().mockReturnValueOnce([
+                { id: 'approval-1', text: 'hello', reviewer: null }
+            ]);
+            mockDb.prepare.mockReturnValueOnce({ all: allMock });
+
+            const result = await adapter.getApprovals({
+                agentId: 'agent-1' as UUID,
+                source: 'twitter',
+                account: 'testuser',
+                status: ['PENDING', 'APPROVED'],
+                limit: 10
+            });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM approval_queue WHERE agentId = ? AND source = ? AND account = ? AND status IN (?, ?) ORDER BY createdAt DESC LIMIT ?'
+            );
+            expect(allMock).toHaveBeenCalledWith('agent-1', 'twitter', 'testuser', 'PENDING', 'APPROVED', 10);
+            expect(result).toEqual([{ id: 'approval-1', text: 'hello', reviewer: undefined }]);
+        });
+    });
+
+    describe('updateApprovalStatus', () => {
+        it('should only update items still in the expected status', async () => {
+            const runMock = vi.fn().mockReturnValue({ changes: 0 });
+            mockDb.prepare.mockReturnValue({ run: runMock });
+
+            const updated = await adapter.updateApprovalStatus({
+                id: 'approval-1' as UUID,
+                status: 'APPROVED',
+                reviewer: 'alice',
+                expectedStatus: 'PENDING'
+            });
+
+            expect(updated).toBe(false);
+            expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining('WHERE id = ? AND status = ?'));
+            expect(runMock).toHaveBeenCalledWith('APPROVED', 'alice', expect.any(Number), 'approval-1', 'PENDING');
+        });
+    });
+
+    describe('updateApprovalText', () => {
+        it('should record the previous text in the edit history', async () => {
+            const runMock = vi.fn();
+            mockDb.prepare
+                .mockReturnValueOnce({
+                    get: vi.fn().mockReturnValueOnce({ id: 'approval-1', text: 'original' })
+                })
+                .mockReturnValue({ run: runMock });
+            mockDb.transaction = vi.fn((fn: () => void) => fn);
+
+            const edit = await adapter.updateApprovalText({
+                id: 'approval-1' as UUID,
+                text: 'edited',
+                editor: 'reviewer'
+            });
+
+            expect(edit).toMatchObject({
+                approvalId: 'approval-1',
+                previousText: 'original',
+                text: 'edited',
+                editor: 'reviewer'
+            });
+            expect(runMock).toHaveBeenCalledWith(edit.id, 'approval-1', 'original', 'edited', 'reviewer', edit.createdAt);
+            expect(runMock).toHaveBeenCalledWith('edited', edit.createdAt, 'approval-1');
+        });
+
+        it('should throw when the approval does not exist', async () => {
+            mockDb.prepare.mockReturnValueOnce({
+                get: vi.fn().mockReturnValueOnce(undefined)
+            });
+
+            await expect(
+                adapter.updateApprovalText({ id: 'missing' as UUID, text: 'edited' })
+            ).rejects.toThrow('Approval missing not found');
+        });
+    });
+
+    describe('getScheduledPosts', () => {
+        it('should filter by time range and map stored flags', async () => {
+            const allMock = vi.fn().mockReturnValueOnce([
+                { id: 'post-1', scheduledFor: 1000, text: null, pinned: 1 }
+            ]);
+            mockDb.prepare.mockReturnValueOnce({ all: allMock });
+
+            const result = await adapter.getScheduledPosts({
+                agentId: 'agent-1' as UUID,
+                source: 'twitter',
+                status: 'SCHEDULED',
+                from: 500,
+                to: 2000
+            });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM scheduled_posts WHERE agentId = ? AND source = ? AND status IN (?) AND scheduledFor >= ? AND scheduledFor <= ? ORDER BY scheduledFor ASC'
+            );
+            expect(allMock).toHaveBeenCalledWith('agent-1', 'twitter', 'SCHEDULED', 500, 2000);
+            expect(result).toEqual([{ id: 'post-1', scheduledFor: 1000, text: undefined, pinned: true }]);
+        });
+    });
+
+    describe('addProcessedTweet', () => {
+        it('should report whether the action was newly recorded', async () => {
+            const runMock = vi.fn()
+                .mockReturnValueOnce({ changes: 1 })
+                .mockReturnValueOnce({ changes: 0 });
+            mockDb.prepare.mockReturnValue({ run: runMock });
+
+            const record = {
+                agentId: 'agent-1' as UUID,
+                tweetId: '12345',
+                action: 'REPLIED' as const,
+                resultTweetId: '12346',
+                createdAt: 1000
+            };
+
+            expect(await adapter.addProcessedTweet(record)).toBe(true);
+            expect(await adapter.addProcessedTweet(record)).toBe(false);
+            expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT OR IGNORE INTO processed_tweets'));
+            expect(runMock).toHaveBeenCalledWith('agent-1', '12345', 'REPLIED', '12346', 1000);
+        });
+    });
+
+    describe('getProcessedTweets', () => {
+        it('should filter by tweet and actions', async () => {
+            const allMock = vi.fn().mockReturnValueOnce([
+                { agentId: 'agent-1', tweetId: '12345', action: 'LIKED', resultTweetId: null, createdAt: 1000 }
+            ]);
+            mockDb.prepare.mockReturnValueOnce({ all: allMock });
+
+            const result = await adapter.getProcessedTweets({
+                agentId: 'agent-1' as UUID,
+                tweetId: '12345',
+                action: ['LIKED', 'RETWEETED']
+            });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM processed_tweets WHERE agentId = ? AND tweetId = ? AND action IN (?, ?) ORDER BY createdAt DESC'
+            );
+            expect(allMock).toHaveBeenCalledWith('agent-1', '12345', 'LIKED', 'RETWEETED');
+            expect(result).toEqual([
+                { agentId: 'agent-1', tweetId: '12345', action: 'LIKED', resultTweetId: undefined, createdAt: 1000 }
+            ]);
+        });
+    });
+
+    describe('getTweetDecisions', () => {
+        it('should filter by account and time, and parse the decisions', async () => {
+            const decisions = [{ action: 'LIKE', confidence: 0.9, rationale: 'On topic', outcome: 'TAKEN' }];
+            const allMock = vi.fn().mockReturnValueOnce([
+                {
+                    id: 'decision-1',
+                    agentId: 'agent-1',
+                    account: 'agent',
+                    tweetId: '12345',
+                    authorUsername: 'alice',
+                    text: null,
+                    decisions: JSON.stringify(decisions),
+                    error: null,
+                    createdAt: 1000
+                }
+            ]);
+            mockDb.prepare.mockReturnValueOnce({ all: allMock });
+
+            const result = await adapter.getTweetDecisions({
+                agentId: 'agent-1' as UUID,
+                account: 'agent',
+                since: 500,
+                limit: 10
+            });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM tweet_decisions WHERE agentId = ? AND account = ? AND createdAt >= ? ORDER BY createdAt DESC LIMIT ?'
+            );
+            expect(allMock).toHaveBeenCalledWith('agent-1', 'agent', 500, 10);
+            expect(result).toEqual([
+                expect.objectContaining({ tweetId: '12345', authorUsername: 'alice', text: undefined, error: undefined, decisions })
+            ]);
+        });
+    });
+
+    describe('getScriptureVerses', () => {
+        it('should select a verse range of a chapter', async () => {
+            const verses = [
+                { translation: 'eng-asv', language: 'eng', book: 'John', chapter: 3, verse: 16, text: 'For God so loved the world' }
+            ];
+            const allMock = vi.fn().mockReturnValueOnce(verses);
+            mockDb.prepare.mockReturnValueOnce({ all: allMock });
+
+            const result = await adapter.getScriptureVerses({
+                language: 'eng',
+                book: 'John',
+                chapter: 3,
+                verseStart: 16,
+                verseEnd: 17
+            });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM scripture_verses WHERE book = ? AND chapter = ? AND language = ? AND verse >= ? AND verse <= ? ORDER BY translation, verse'
+            );
+            expect(allMock).toHaveBeenCalledWith('John', 3, 'eng', 16, 17);
+            expect(result).toEqual(verses);
+        });
+    });
+
+    describe('getScriptureVerification', () => {
+        it('should parse the checks of the verification of a tweet', async () => {
+            const checks = [{ status: 'VERIFIED', reference: 'John 11:35', osisRef: 'John.11.35' }];
+            const getMock = vi.fn().mockReturnValueOnce({
+                agentId: 'agent-1',
+                tweetId: '12345',
+                source: 'twitter:post',
+                outcome: 'PASSED',
+                draft: '"Jesus wept." John 11:35',
+                text: '"Jesus wept." John 11:35',
+                checks: JSON.stringify(checks),
+                feedback: null,
+                attempts: null,
+                createdAt: 1000
+            });
+            mockDb.prepare.mockReturnValueOnce({ get: getMock });
+
+            const result = await adapter.getScriptureVerification({ agentId: 'agent-1' as UUID, tweetId: '12345' });
+
+            expect(getMock).toHaveBeenCalledWith('agent-1', '12345');
+            expect(result).toEqual(expect.objectContaining({ outcome: 'PASSED', checks, feedback: undefined, attempts: undefined }));
+        });
+    });
+
+    describe('createMemory', () => {
+        it('should store memories that failed to embed without an embedding', async () => {
+            const runMock = vi.fn();
+            mockDb.prepare.mockReturnValueOnce({ run: runMock });
+
+            await adapter.createMemory({
+                id: 'memory-1' as UUID,
+                userId: 'user-1' as UUID,
+                agentId: 'agent-1' as UUID,
+                roomId: 'room-1' as UUID,
+                content: { text: 'hello' },
+                createdAt: 1
+            }, 'messages');
+
+            expect(runMock).toHaveBeenCalledWith(
+                'memory-1', 'messages', '{"text":"hello"}', null, 'user-1', 'room-1', 'agent-1', 1, 1
+            );
+        });
+    });
+
     describe('init and close', () => {
         it('should initialize the database with tables', async () => {
+            mockDb.prepare.mockReturnValueOnce({
+                all: vi.fn().mockReturnValueOnce([{ name: 'embedding', notnull: 0 }])
+            });
+
             await adapter.init();
-            expect(mockDb.exec).toHaveBeenCalled();
+            expect(mockDb.exec).toHaveBeenCalledTimes(1);
             expect(load).toHaveBeenCalledWith(mockDb);
         });
 
+        it('should let memories of older databases have no embedding', async () => {
+            mockDb.transaction = vi.fn((fn: () => void) => fn);
+            mockDb.prepare.mockReturnValueOnce({
+                all: vi.fn().mockReturnValueOnce([{ name: 'embedding', notnull: 1 }])
+            });
+
+            await adapter.init();
+
+            expect(mockDb.transaction).toHaveBeenCalled();
+            const statements = mockDb.exec.mock.calls.map(([sql]: [string]) => sql).join('\n');
+            expect(statements).toContain('ALTER TABLE "memories" RENAME TO "memories_old"');
+            expect(statements).toContain('INSERT INTO "memories"');
+            expect(statements).toContain('DROP TABLE "memories_old"');
+        });
+
         it('should close the database connection', async () => {
             await adapter.close();
             expect(mockDb.close).toHaveBeenCalled();
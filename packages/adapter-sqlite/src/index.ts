@@ -7,10 +7,19 @@ export * from "./sqlite_vec.ts";
 import {
     DatabaseAdapter,
     elizaLogger,
+    type IDatabaseApprovalAdapter,
     type IDatabaseCacheAdapter,
+    type IDatabaseProcessedTweetAdapter,
+    type IDatabaseScheduledPostAdapter,
+    type IDatabaseScriptureAdapter,
+    type IDatabaseScriptureVerificationAdapter,
+    type IDatabaseTweetDecisionAdapter,
 } from "@elizaos/core";
 import type {
     Account,
+    ApprovalEdit,
+    ApprovalQueueItem,
+    ApprovalStatus,
     Actor,
     GoalStatus,
     Participant,
@@ -23,6 +32,14 @@ import type {
     Adapter,
     IAgentRuntime,
     Plugin,
+    ScheduledPost,
+    ScheduledPostStatus,
+    ProcessedTweet,
+    ProcessedTweetAction,
+    TweetDecisionRecord,
+    ScriptureTranslation,
+    ScriptureVerificationRecord,
+    ScriptureVerse,
 } from "@elizaos/core";
 import type { Database as BetterSqlite3Database } from "better-sqlite3";
 import { v4 } from "uuid";
@@ -31,9 +48,40 @@ import { sqliteTables } from "./sqliteTables.ts";
 
 import Database from "better-sqlite3";
 
+type ScheduledPostRow = Omit<ScheduledPost, "pinned" | "text"> & {
+    text: string | null;
+    pinned: number;
+};
+
+type TweetDecisionRow = Omit<
+    TweetDecisionRecord,
+    "decisions" | "authorUsername" | "text" | "error"
+> & {
+    decisions: string;
+    authorUsername: string | null;
+    text: string | null;
+    error: string | null;
+};
+
+type ScriptureVerificationRow = Omit<
+    ScriptureVerificationRecord,
+    "checks" | "feedback" | "attempts"
+> & {
+    checks: string;
+    feedback: string | null;
+    attempts: number | null;
+};
+
 export class SqliteDatabaseAdapter
     extends DatabaseAdapter<BetterSqlite3Database>
-    implements IDatabaseCacheAdapter
+    implements
+        IDatabaseCacheAdapter,
+        IDatabaseApprovalAdapter,
+        IDatabaseScheduledPostAdapter,
+        IDatabaseProcessedTweetAdapter,
+        IDatabaseTweetDecisionAdapter,
+        IDatabaseScriptureAdapter,
+        IDatabaseScriptureVerificationAdapter
 {
     async getRoom(roomId: UUID): Promise<UUID | null> {
         const sql = "SELECT id FROM rooms WHERE id = ?";
@@ -91,6 +139,39 @@ export class SqliteDatabaseAdapter
 
     async init() {
         this.db.exec(sqliteTables);
+        this.allowMissingEmbeddings();
+    }
+
+    /**
+     * Lets memories of databases created before they could be stored
+     * without an embedding have none. SQLite can't drop the NOT NULL of a
+     * column, so the table is copied.
+     */
+    private allowMissingEmbeddings() {
+        const columns = this.db
+            .prepare('PRAGMA table_info("memories")')
+            .all() as { name: string; notnull: number }[];
+        if (
+            !columns.some(
+                (column) => column.name === "embedding" && column.notnull
+            )
+        ) {
+            return;
+        }
+
+        this.db.transaction(() => {
+            this.db.exec(`
+                ALTER TABLE "memories" RENAME TO "memories_old";
+                DROP INDEX IF EXISTS "memories_id_key";
+            `);
+            this.db.exec(sqliteTables);
+            this.db.exec(`
+                INSERT INTO "memories" (id, type, createdAt, content, embedding, userId, roomId, agentId, \`unique\`)
+                SELECT id, type, createdAt, content, embedding, userId, roomId, agentId, \`unique\`
+                FROM "memories_old";
+                DROP TABLE "memories_old";
+            `);
+        })();
     }
 
     async close() {
@@ -266,11 +347,11 @@ export class SqliteDatabaseAdapter
         const content = JSON.stringify(memory.content);
         const createdAt = memory.createdAt ?? Date.now();
 
-        let embeddingValue: Float32Array = new Float32Array(384);
-        // If embedding is not available, we just load an array with a length of 384
-        if (memory?.embedding && memory?.embedding?.length > 0) {
-            embeddingValue = new Float32Array(memory.embedding);
-        }
+        // Memories that failed to embed are stored without an embedding,
+        // left out of searches until they are embedded again
+        const embeddingValue = memory.embedding?.length
+            ? new Float32Array(memory.embedding)
+            : null;
 
         // Insert the memory with the appropriate 'unique' value
         const sql = `INSERT OR REPLACE INTO memories (id, type, content, embedding, userId, roomId, agentId, \`unique\`, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
@@ -308,7 +389,8 @@ export class SqliteDatabaseAdapter
         let sql = `
             SELECT *, vec_distance_L2(embedding, ?) AS similarity
             FROM memories
-            WHERE type = ?
+            WHERE embedding IS NOT NULL
+            AND type = ?
             AND roomId = ?`;
 
         if (params.unique) {
@@ -406,7 +488,8 @@ export class SqliteDatabaseAdapter
                         '$.' || ? || '.' || ?
                     ) as content_text
                 FROM memories
-                WHERE type = ?
+                WHERE embedding IS NOT NULL
+                AND type = ?
                 AND json_extract(
                     json(content),
                     '$.' || ? || '.' || ?
@@ -767,6 +850,528 @@ export class SqliteDatabaseAdapter
         }
     }
 
+    async createApproval(approval: ApprovalQueueItem): Promise<void> {
+        const sql = `INSERT INTO approval_queue (id, agentId, source, account, provider, taskId, roomId, text, rawText, status, reviewer, createdAt, updatedAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        this.db
+            .prepare(sql)
+            .run(
+                approval.id,
+                approval.agentId,
+                approval.source,
+                approval.account,
+                approval.provider,
+                approval.taskId,
+                approval.roomId,
+                approval.text,
+                approval.rawText,
+                approval.status,
+                approval.reviewer ?? null,
+                approval.createdAt,
+                approval.updatedAt
+            );
+    }
+
+    async getApprovalById(id: UUID): Promise<ApprovalQueueItem | null> {
+        const sql = "SELECT * FROM approval_queue WHERE id = ?";
+        const approval = this.db.prepare(sql).get(id) as
+            | ApprovalQueueItem
+            | undefined;
+        return approval ? this.mapApprovalRow(approval) : null;
+    }
+
+    async getApprovals(params: {
+        agentId: UUID;
+        source?: string;
+        account?: string;
+        status?: ApprovalStatus | ApprovalStatus[];
+        limit?: number;
+    }): Promise<ApprovalQueueItem[]> {
+        let sql = "SELECT * FROM approval_queue WHERE agentId = ?";
+        const queryParams: any[] = [params.agentId];
+
+        if (params.source) {
+            sql += " AND source = ?";
+            queryParams.push(params.source);
+        }
+
+        if (params.account) {
+            sql += " AND account = ?";
+            queryParams.push(params.account);
+        }
+
+        if (params.status) {
+            const statuses = Array.isArray(params.status)
+                ? params.status
+                : [params.status];
+            sql += ` AND status IN (${statuses.map(() => "?").join(", ")})`;
+            queryParams.push(...statuses);
+        }
+
+        sql += " ORDER BY createdAt DESC";
+
+        if (params.limit) {
+            sql += " LIMIT ?";
+            queryParams.push(params.limit);
+        }
+
+        const rows = this.db
+            .prepare(sql)
+            .all(...queryParams) as ApprovalQueueItem[];
+        return rows.map((row) => this.mapApprovalRow(row));
+    }
+
+    async updateApprovalStatus(params: {
+        id: UUID;
+        status: ApprovalStatus;
+        reviewer?: string;
+        expectedStatus?: ApprovalStatus;
+    }): Promise<boolean> {
+        let sql =
+            "UPDATE approval_queue SET status = ?, reviewer = COALESCE(?, reviewer), updatedAt = ? WHERE id = ?";
+        const queryParams: any[] = [
+            params.status,
+            params.reviewer ?? null,
+            Date.now(),
+            params.id,
+        ];
+
+        if (params.expectedStatus) {
+            sql += " AND status = ?";
+            queryParams.push(params.expectedStatus);
+        }
+
+        const result = this.db.prepare(sql).run(...queryParams);
+        return result.changes > 0;
+    }
+
+    async updateApprovalText(params: {
+        id: UUID;
+        text: string;
+        editor?: string;
+    }): Promise<ApprovalEdit> {
+        const approval = await this.getApprovalById(params.id);
+        if (!approval) {
+            throw new Error(`Approval ${params.id} not found`);
+        }
+
+        const edit: ApprovalEdit = {
+            id: v4() as UUID,
+            approvalId: params.id,
+            previousText: approval.text,
+            text: params.text,
+            editor: params.editor,
+            createdAt: Date.now(),
+        };
+
+        this.db.transaction(() => {
+            this.db
+                .prepare(
+                    "INSERT INTO approval_edits (id, approvalId, previousText, text, editor, createdAt) VALUES (?, ?, ?, ?, ?, ?)"
+                )
+                .run(
+                    edit.id,
+                    edit.approvalId,
+                    edit.previousText,
+                    edit.text,
+                    edit.editor ?? null,
+                    edit.createdAt
+                );
+            this.db
+                .prepare(
+                    "UPDATE approval_queue SET text = ?, updatedAt = ? WHERE id = ?"
+                )
+                .run(edit.text, edit.createdAt, edit.approvalId);
+        })();
+
+        return edit;
+    }
+
+    async getApprovalEdits(approvalId: UUID): Promise<ApprovalEdit[]> {
+        const sql =
+            "SELECT * FROM approval_edits WHERE approvalId = ? ORDER BY createdAt ASC";
+        const rows = this.db.prepare(sql).all(approvalId) as ApprovalEdit[];
+        return rows.map((row) => ({
+            ...row,
+            editor: row.editor ?? undefined,
+        }));
+    }
+
+    private mapApprovalRow(row: ApprovalQueueItem): ApprovalQueueItem {
+        return {
+            ...row,
+            reviewer: row.reviewer ?? undefined,
+        };
+    }
+
+    async createScheduledPost(post: ScheduledPost): Promise<void> {
+        const sql = `INSERT INTO scheduled_posts (id, agentId, source, scheduledFor, text, pinned, status, createdAt, updatedAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        this.db
+            .prepare(sql)
+            .run(
+                post.id,
+                post.agentId,
+                post.source,
+                post.scheduledFor,
+                post.text ?? null,
+                post.pinned ? 1 : 0,
+                post.status,
+                post.createdAt,
+                post.updatedAt
+            );
+    }
+
+    async getScheduledPostById(id: UUID): Promise<ScheduledPost | null> {
+        const sql = "SELECT * FROM scheduled_posts WHERE id = ?";
+        const post = this.db.prepare(sql).get(id) as
+            | ScheduledPostRow
+            | undefined;
+        return post ? this.mapScheduledPostRow(post) : null;
+    }
+
+    async getScheduledPosts(params: {
+        agentId: UUID;
+        source?: string;
+        status?: ScheduledPostStatus | ScheduledPostStatus[];
+        from?: number;
+        to?: number;
+        limit?: number;
+    }): Promise<ScheduledPost[]> {
+        let sql = "SELECT * FROM scheduled_posts WHERE agentId = ?";
+        const queryParams: any[] = [params.agentId];
+
+        if (params.source) {
+            sql += " AND source = ?";
+            queryParams.push(params.source);
+        }
+
+        if (params.status) {
+            const statuses = Array.isArray(params.status)
+                ? params.status
+                : [params.status];
+            sql += ` AND status IN (${statuses.map(() => "?").join(", ")})`;
+            queryParams.push(...statuses);
+        }
+
+        if (params.from !== undefined) {
+            sql += " AND scheduledFor >= ?";
+            queryParams.push(params.from);
+        }
+
+        if (params.to !== undefined) {
+            sql += " AND scheduledFor <= ?";
+            queryParams.push(params.to);
+        }
+
+        sql += " ORDER BY scheduledFor ASC";
+
+        if (params.limit) {
+            sql += " LIMIT ?";
+            queryParams.push(params.limit);
+        }
+
+        const rows = this.db
+            .prepare(sql)
+            .all(...queryParams) as ScheduledPostRow[];
+        return rows.map((row) => this.mapScheduledPostRow(row));
+    }
+
+    async updateScheduledPost(params: {
+        id: UUID;
+        scheduledFor?: number;
+        text?: string;
+        pinned?: boolean;
+        status?: ScheduledPostStatus;
+    }): Promise<void> {
+        const sql = `UPDATE scheduled_posts SET
+            scheduledFor = COALESCE(?, scheduledFor),
+            text = COALESCE(?, text),
+            pinned = COALESCE(?, pinned),
+            status = COALESCE(?, status),
+            updatedAt = ?
+            WHERE id = ?`;
+        this.db
+            .prepare(sql)
+            .run(
+                params.scheduledFor ?? null,
+                params.text ?? null,
+                params.pinned === undefined ? null : params.pinned ? 1 : 0,
+                params.status ?? null,
+                Date.now(),
+                params.id
+            );
+    }
+
+    private mapScheduledPostRow(row: ScheduledPostRow): ScheduledPost {
+        return {
+            ...row,
+            text: row.text ?? undefined,
+            pinned: Boolean(row.pinned),
+        };
+    }
+
+    async addProcessedTweet(record: ProcessedTweet): Promise<boolean> {
+        const sql = `INSERT OR IGNORE INTO processed_tweets (agentId, tweetId, action, resultTweetId, createdAt)
+            VALUES (?, ?, ?, ?, ?)`;
+        const result = this.db
+            .prepare(sql)
+            .run(
+                record.agentId,
+                record.tweetId,
+                record.action,
+                record.resultTweetId ?? null,
+                record.createdAt
+            );
+        return result.changes > 0;
+    }
+
+    async getProcessedTweets(params: {
+        agentId: UUID;
+        tweetId?: string;
+        action?: ProcessedTweetAction | ProcessedTweetAction[];
+        limit?: number;
+    }): Promise<ProcessedTweet[]> {
+        let sql = "SELECT * FROM processed_tweets WHERE agentId = ?";
+        const queryParams: any[] = [params.agentId];
+
+        if (params.tweetId) {
+            sql += " AND tweetId = ?";
+            queryParams.push(params.tweetId);
+        }
+
+        if (params.action) {
+            const actions = Array.isArray(params.action)
+                ? params.action
+                : [params.action];
+            sql += ` AND action IN (${actions.map(() => "?").join(", ")})`;
+            queryParams.push(...actions);
+        }
+
+        sql += " ORDER BY createdAt DESC";
+
+        if (params.limit) {
+            sql += " LIMIT ?";
+            queryParams.push(params.limit);
+        }
+
+        const rows = this.db
+            .prepare(sql)
+            .all(...queryParams) as ProcessedTweet[];
+        return rows.map((row) => ({
+            ...row,
+            resultTweetId: row.resultTweetId ?? undefined,
+        }));
+    }
+
+    async removeProcessedTweet(params: {
+        agentId: UUID;
+        tweetId: string;
+        action: ProcessedTweetAction;
+    }): Promise<void> {
+        const sql =
+            "DELETE FROM processed_tweets WHERE agentId = ? AND tweetId = ? AND action = ?";
+        this.db
+            .prepare(sql)
+            .run(params.agentId, params.tweetId, params.action);
+    }
+
+    async addTweetDecision(record: TweetDecisionRecord): Promise<void> {
+        const sql = `INSERT INTO tweet_decisions (id, agentId, account, tweetId, authorUsername, text, decisions, error, createdAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        this.db
+            .prepare(sql)
+            .run(
+                record.id,
+                record.agentId,
+                record.account,
+                record.tweetId,
+                record.authorUsername ?? null,
+                record.text ?? null,
+                JSON.stringify(record.decisions),
+                record.error ?? null,
+                record.createdAt
+            );
+    }
+
+    async getTweetDecisions(params: {
+        agentId: UUID;
+        account?: string;
+        tweetId?: string;
+        since?: number;
+        limit?: number;
+    }): Promise<TweetDecisionRecord[]> {
+        let sql = "SELECT * FROM tweet_decisions WHERE agentId = ?";
+        const queryParams: any[] = [params.agentId];
+
+        if (params.account) {
+            sql += " AND account = ?";
+            queryParams.push(params.account);
+        }
+
+        if (params.tweetId) {
+            sql += " AND tweetId = ?";
+            queryParams.push(params.tweetId);
+        }
+
+        if (params.since) {
+            sql += " AND createdAt >= ?";
+            queryParams.push(params.since);
+        }
+
+        sql += " ORDER BY createdAt DESC";
+
+        if (params.limit) {
+            sql += " LIMIT ?";
+            queryParams.push(params.limit);
+        }
+
+        const rows = this.db
+            .prepare(sql)
+            .all(...queryParams) as TweetDecisionRow[];
+        return rows.map((row) => ({
+            ...row,
+            decisions: JSON.parse(row.decisions),
+            authorUsername: row.authorUsername ?? undefined,
+            text: row.text ?? undefined,
+            error: row.error ?? undefined,
+        }));
+    }
+
+    async saveScriptureTranslation(
+        translation: ScriptureTranslation,
+        verses: ScriptureVerse[]
+    ): Promise<void> {
+        const insertVerse = this.db.prepare(
+            `INSERT OR REPLACE INTO scripture_verses (translation, language, book, chapter, verse, text)
+            VALUES (?, ?, ?, ?, ?, ?)`
+        );
+        this.db.transaction(() => {
+            this.db
+                .prepare("DELETE FROM scripture_verses WHERE translation = ?")
+                .run(translation.id);
+            this.db
+                .prepare(
+                    `INSERT OR REPLACE INTO scripture_translations (id, name, language, format, source, checksum, verseCount, importedAt)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+                )
+                .run(
+                    translation.id,
+                    translation.name,
+                    translation.language,
+                    translation.format,
+                    translation.source ?? null,
+                    translation.checksum ?? null,
+                    translation.verseCount,
+                    translation.importedAt
+                );
+            for (const verse of verses) {
+                insertVerse.run(
+                    translation.id,
+                    verse.language,
+                    verse.book,
+                    verse.chapter,
+                    verse.verse,
+                    verse.text
+                );
+            }
+        })();
+    }
+
+    async getScriptureTranslations(): Promise<ScriptureTranslation[]> {
+        const rows = this.db
+            .prepare("SELECT * FROM scripture_translations ORDER BY id")
+            .all() as (ScriptureTranslation & {
+            source: string | null;
+            checksum: string | null;
+        })[];
+        return rows.map((row) => ({
+            ...row,
+            source: row.source ?? undefined,
+            checksum: row.checksum ?? undefined,
+        }));
+    }
+
+    async getScriptureVerses(params: {
+        translation?: string;
+        language?: string;
+        book: string;
+        chapter: number;
+        verseStart?: number;
+        verseEnd?: number;
+    }): Promise<ScriptureVerse[]> {
+        let sql =
+            "SELECT * FROM scripture_verses WHERE book = ? AND chapter = ?";
+        const queryParams: any[] = [params.book, params.chapter];
+
+        if (params.translation) {
+            sql += " AND translation = ?";
+            queryParams.push(params.translation);
+        }
+
+        if (params.language) {
+            sql += " AND language = ?";
+            queryParams.push(params.language);
+        }
+
+        if (params.verseStart) {
+            sql += " AND verse >= ?";
+            queryParams.push(params.verseStart);
+        }
+
+        if (params.verseEnd) {
+            sql += " AND verse <= ?";
+            queryParams.push(params.verseEnd);
+        }
+
+        sql += " ORDER BY translation, verse";
+
+        return this.db.prepare(sql).all(...queryParams) as ScriptureVerse[];
+    }
+
+    async addScriptureVerification(
+        record: ScriptureVerificationRecord
+    ): Promise<void> {
+        const sql = `INSERT OR REPLACE INTO scripture_verifications (agentId, tweetId, source, outcome, draft, text, checks, feedback, attempts, createdAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        this.db
+            .prepare(sql)
+            .run(
+                record.agentId,
+                record.tweetId,
+                record.source,
+                record.outcome,
+                record.draft,
+                record.text,
+                JSON.stringify(record.checks),
+                record.feedback ?? null,
+                record.attempts ?? null,
+                record.createdAt
+            );
+    }
+
+    async getScriptureVerification(params: {
+        agentId: UUID;
+        tweetId: string;
+    }): Promise<ScriptureVerificationRecord | null> {
+        const sql =
+            "SELECT * FROM scripture_verifications WHERE agentId = ? AND tweetId = ?";
+        const row = this.db
+            .prepare(sql)
+            .get(params.agentId, params.tweetId) as
+            | ScriptureVerificationRow
+            | undefined;
+        if (!row) {
+            return null;
+        }
+        return {
+            ...row,
+            checks: JSON.parse(row.checks),
+            feedback: row.feedback ?? undefined,
+            attempts: row.attempts ?? undefined,
+        };
+    }
+
     async getKnowledge(params: {
         id?: UUID;
         agentId: UUID;
@@ -19,7 +19,7 @@ CREATE TABLE IF NOT EXISTS "memories" (
     "type" TEXT NOT NULL,
     "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     "content" TEXT NOT NULL,
-    "embedding" BLOB NOT NULL, -- TODO: EMBEDDING ARRAY, CONVERT TO BEST FORMAT FOR SQLITE-VSS (JSON?)
+    "embedding" BLOB, -- NULL until the memory is embedded. TODO: EMBEDDING ARRAY, CONVERT TO BEST FORMAT FOR SQLITE-VSS (JSON?)
     "userId" TEXT,
     "roomId" TEXT,
     "agentId" TEXT,
@@ -108,6 +108,114 @@ CREATE TABLE IF NOT EXISTS "knowledge" (
     CHECK((isShared = 1 AND agentId IS NULL) OR (isShared = 0 AND agentId IS NOT NULL))
 );
 
+-- Table: approval_queue
+CREATE TABLE IF NOT EXISTS "approval_queue" (
+    "id" TEXT PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "roomId" TEXT,
+    "text" TEXT NOT NULL,
+    "rawText" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reviewer" TEXT,
+    "createdAt" INTEGER NOT NULL,
+    "updatedAt" INTEGER NOT NULL,
+    FOREIGN KEY ("agentId") REFERENCES "accounts"("id")
+);
+
+-- Table: approval_edits
+CREATE TABLE IF NOT EXISTS "approval_edits" (
+    "id" TEXT PRIMARY KEY,
+    "approvalId" TEXT NOT NULL,
+    "previousText" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "editor" TEXT,
+    "createdAt" INTEGER NOT NULL,
+    FOREIGN KEY ("approvalId") REFERENCES "approval_queue"("id") ON DELETE CASCADE
+);
+
+-- Table: scheduled_posts
+CREATE TABLE IF NOT EXISTS "scheduled_posts" (
+    "id" TEXT PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "scheduledFor" INTEGER NOT NULL,
+    "text" TEXT,
+    "pinned" INTEGER DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "createdAt" INTEGER NOT NULL,
+    "updatedAt" INTEGER NOT NULL,
+    FOREIGN KEY ("agentId") REFERENCES "accounts"("id")
+);
+
+-- Table: processed_tweets
+CREATE TABLE IF NOT EXISTS "processed_tweets" (
+    "agentId" TEXT NOT NULL,
+    "tweetId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "resultTweetId" TEXT,
+    "createdAt" INTEGER NOT NULL,
+    PRIMARY KEY ("agentId", "tweetId", "action"),
+    FOREIGN KEY ("agentId") REFERENCES "accounts"("id")
+);
+
+-- Table: tweet_decisions
+CREATE TABLE IF NOT EXISTS "tweet_decisions" (
+    "id" TEXT PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "tweetId" TEXT NOT NULL,
+    "authorUsername" TEXT,
+    "text" TEXT,
+    "decisions" TEXT NOT NULL DEFAULT '[]' CHECK(json_valid("decisions")),
+    "error" TEXT,
+    "createdAt" INTEGER NOT NULL,
+    FOREIGN KEY ("agentId") REFERENCES "accounts"("id")
+);
+
+-- Table: scripture_translations
+CREATE TABLE IF NOT EXISTS "scripture_translations" (
+    "id" TEXT PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "source" TEXT,
+    "checksum" TEXT,
+    "verseCount" INTEGER NOT NULL,
+    "importedAt" INTEGER NOT NULL
+);
+
+-- Table: scripture_verses
+CREATE TABLE IF NOT EXISTS "scripture_verses" (
+    "translation" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "book" TEXT NOT NULL,
+    "chapter" INTEGER NOT NULL,
+    "verse" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    PRIMARY KEY ("translation", "book", "chapter", "verse"),
+    FOREIGN KEY ("translation") REFERENCES "scripture_translations"("id")
+);
+
+-- Table: scripture_verifications
+CREATE TABLE IF NOT EXISTS "scripture_verifications" (
+    "agentId" TEXT NOT NULL,
+    "tweetId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "draft" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "checks" TEXT NOT NULL DEFAULT '[]' CHECK(json_valid("checks")),
+    "feedback" TEXT,
+    "attempts" INTEGER,
+    "createdAt" INTEGER NOT NULL,
+    PRIMARY KEY ("agentId", "tweetId"),
+    FOREIGN KEY ("agentId") REFERENCES "accounts"("id")
+);
+
 -- Index: relationships_id_key
 CREATE UNIQUE INDEX IF NOT EXISTS "relationships_id_key" ON "relationships" ("id");
 
@@ -127,4 +235,22 @@ CREATE INDEX IF NOT EXISTS "knowledge_content_key" ON "knowledge"
 CREATE INDEX IF NOT EXISTS "knowledge_created_key" ON "knowledge" ("agentId", "createdAt");
 CREATE INDEX IF NOT EXISTS "knowledge_shared_key" ON "knowledge" ("isShared");
 
+-- Index: approval_queue
+CREATE INDEX IF NOT EXISTS "approval_queue_agent_status_key" ON "approval_queue" ("agentId", "status");
+CREATE INDEX IF NOT EXISTS "approval_queue_account_key" ON "approval_queue" ("agentId", "source", "account");
+CREATE INDEX IF NOT EXISTS "approval_edits_approval_key" ON "approval_edits" ("approvalId", "createdAt");
+
+-- Index: scheduled_posts
+CREATE INDEX IF NOT EXISTS "scheduled_posts_agent_key" ON "scheduled_posts" ("agentId", "source", "scheduledFor");
+
+-- Index: processed_tweets
+CREATE INDEX IF NOT EXISTS "processed_tweets_agent_key" ON "processed_tweets" ("agentId", "createdAt");
+
+-- Index: tweet_decisions
+CREATE INDEX IF NOT EXISTS "tweet_decisions_agent_key" ON "tweet_decisions" ("agentId", "account", "createdAt");
+CREATE INDEX IF NOT EXISTS "tweet_decisions_tweet_key" ON "tweet_decisions" ("agentId", "tweetId");
+
+-- Index: scripture_verses
+CREATE INDEX IF NOT EXISTS "scripture_verses_language_key" ON "scripture_verses" ("language", "book", "chapter", "verse");
+
 COMMIT;`;
\ No newline at end of file
@@ -237,6 +237,28 @@ pluginsCmd
   })
 
 
+const ragCmd = new Command()
+  .name('rag')
+  .description('manage the agent\'s RAG store')
+
+ragCmd
+  .command('reindex')
+  .description('re-embed RAG entries made with another embedding model or dimension')
+  .option('-b, --batch-size <size>', 'entries to re-embed per batch', '50')
+  .option('--dry-run', 'only report how many entries need re-embedding')
+  .action(async (opts) => {
+    const elizaOSroot = pathUtil.resolve(__dirname, '../..')
+    const args = ['--batch-size', String(Number.parseInt(opts.batchSize, 10) || 50)]
+    if (opts.dryRun) args.push('--dry-run')
+    try {
+      execSync('pnpm --filter "@elizaos/agent" reindex-rag ' + args.join(' '), { cwd: elizaOSroot, stdio: 'inherit' })
+    } catch {
+      console.error('Re-indexing failed')
+      process.exitCode = 1
+    }
+  })
+
 program.addCommand(pluginsCmd)
+program.addCommand(ragCmd)
 
 program.parse(process.argv)
@@ -7,12 +7,19 @@ import fs from "fs";
 
 import {
     type AgentRuntime,
+    type ApprovalQueueItem,
+    type ApprovalStatus,
     elizaLogger,
+    type IDatabaseApprovalAdapter,
+    isDatabaseApprovalAdapter,
+    PostCalendar,
     getEnvVariable,
     type UUID,
     validateCharacterConfig,
     ServiceType,
     type Character,
+    TWITTER_SESSIONS,
+    TweetDecisionLog,
 } from "@elizaos/core";
 
 // import type { TeeLogQuery, TeeLogService } from "@elizaos/plugin-tee-log";
@@ -51,6 +58,165 @@ function validateUUIDParams(
     return { agentId };
 }
 
+/**
+ * Reads an optional query parameter that must be a non-negative integer,
+ * answering with an error and returning null if it isn't one.
+ */
+function parseIntegerQuery(
+    value: unknown,
+    name: string,
+    res: express.Response
+): number | undefined | null {
+    if (value === undefined || value === "") {
+        return undefined;
+    }
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        res.status(400).json({
+            error: `Invalid ${name}. Expected a non-negative integer`,
+        });
+        return null;
+    }
+    return number;
+}
+
+const APPROVAL_STATUSES: ApprovalStatus[] = [
+    "PENDING",
+    "APPROVED",
+    "REJECTED",
+    "POSTED",
+    "EXPIRED",
+];
+
+interface ApprovalContext {
+    db: IDatabaseApprovalAdapter;
+    approval: ApprovalQueueItem;
+}
+
+/**
+ * Resolves the approval queue item addressed by the request, answering with
+ * an error and returning null if it can't be acted on.
+ */
+async function getApprovalContext(
+    agents: Map<string, AgentRuntime>,
+    req: express.Request<{ agentId: string; approvalId: string }>,
+    res: express.Response
+): Promise<ApprovalContext | null> {
+    const { agentId } = validateUUIDParams(req.params, res) ?? {
+        agentId: null,
+    };
+    if (!agentId) return null;
+
+    const approvalId = validateUuid(req.params.approvalId);
+    if (!approvalId) {
+        res.status(400).json({
+            error: "Invalid ApprovalId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+        });
+        return null;
+    }
+
+    const runtime = agents.get(agentId);
+    if (!runtime) {
+        res.status(404).json({ error: "Agent not found" });
+        return null;
+    }
+
+    const db = runtime.databaseAdapter;
+    if (!isDatabaseApprovalAdapter(db)) {
+        res.status(501).json({
+            error: "The agent's database adapter does not support an approval queue",
+        });
+        return null;
+    }
+
+    const approval = await db.getApprovalById(approvalId);
+    if (!approval || approval.agentId !== agentId) {
+        res.status(404).json({ error: "Approval not found" });
+        return null;
+    }
+
+    if (approval.status !== "PENDING") {
+        res.status(409).json({
+            error: `Approval is already ${approval.status.toLowerCase()}`,
+        });
+        return null;
+    }
+
+    return { db, approval };
+}
+
+/**
+ * Sets the status of the approval a request reviews, answering with 409 if
+ * it was reviewed since it was fetched.
+ *
+ * @returns Whether the status was set
+ */
+async function reviewApproval(
+    context: ApprovalContext,
+    status: ApprovalStatus,
+    reviewer: string | undefined,
+    res: express.Response
+): Promise<boolean> {
+    const updated = await context.db.updateApprovalStatus({
+        id: context.approval.id,
+        status,
+        reviewer,
+        expectedStatus: "PENDING",
+    });
+    if (!updated) {
+        const approval = await context.db.getApprovalById(context.approval.id);
+        res.status(409).json({
+            error: `Approval is already ${approval?.status.toLowerCase() ?? "reviewed"}`,
+        });
+    }
+    return updated;
+}
+
+interface TwitterQueueClient {
+    // One entry per Twitter account of the client
+    getRequestQueueMetrics():
+        | Record<string, unknown>
+        | Array<Record<string, unknown>>;
+}
+
+interface TwitterSpaceModerationClient {
+    // Events of all the client's accounts, most recent first
+    getSpaceModerationEvents(limit?: number): Array<Record<string, unknown>>;
+}
+
+/**
+ * Resolves the posting calendar of the agent addressed by the request,
+ * answering with an error and returning null if there is none.
+ */
+function getPostCalendar(
+    agents: Map<string, AgentRuntime>,
+    req: express.Request<{ agentId: string }>,
+    res: express.Response
+): PostCalendar | null {
+    const { agentId } = validateUUIDParams(req.params, res) ?? {
+        agentId: null,
+    };
+    if (!agentId) return null;
+
+    const runtime = agents.get(agentId);
+    if (!runtime) {
+        res.status(404).json({ error: "Agent not found" });
+        return null;
+    }
+
+    const source = String(req.query.source ?? req.body?.source ?? "twitter");
+    const postCalendar = PostCalendar.forRuntime(runtime, source);
+    if (!postCalendar) {
+        res.status(501).json({
+            error: "The agent's database adapter does not support a posting calendar",
+        });
+        return null;
+    }
+
+    return postCalendar;
+}
+
 export function createApiRouter(
     agents: Map<string, IAgentRuntime>,
     directClient: DirectClient
@@ -455,5 +621,389 @@ export function createApiRouter(
         }
     });
 
+    router.get("/agents/:agentId/approvals", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        const db = runtime.databaseAdapter;
+        if (!isDatabaseApprovalAdapter(db)) {
+            res.status(501).json({
+                error: "The agent's database adapter does not support an approval queue",
+            });
+            return;
+        }
+
+        const status = req.query.status
+            ? (String(req.query.status).toUpperCase().split(",") as ApprovalStatus[])
+            : undefined;
+        if (status?.some((value) => !APPROVAL_STATUSES.includes(value))) {
+            res.status(400).json({
+                error: `Invalid status. Expected one of: ${APPROVAL_STATUSES.join(", ")}`,
+            });
+            return;
+        }
+
+        const limit = parseIntegerQuery(req.query.limit, "limit", res);
+        if (limit === null) return;
+
+        try {
+            const approvals = await db.getApprovals({
+                agentId,
+                status,
+                limit,
+            });
+            const response = await Promise.all(
+                approvals.map(async (approval) => ({
+                    ...approval,
+                    edits: await db.getApprovalEdits(approval.id),
+                }))
+            );
+            res.json({ approvals: response });
+        } catch (error) {
+            elizaLogger.error("Error fetching approvals:", error);
+            res.status(500).json({ error: "Failed to fetch approvals" });
+        }
+    });
+
+    router.post(
+        "/agents/:agentId/approvals/:approvalId/approve",
+        async (req, res) => {
+            try {
+                const context = await getApprovalContext(agents, req, res);
+                if (!context) return;
+
+                const reviewed = await reviewApproval(
+                    context,
+                    "APPROVED",
+                    req.body?.reviewer,
+                    res
+                );
+                if (!reviewed) return;
+                res.json({
+                    approval: await context.db.getApprovalById(
+                        context.approval.id
+                    ),
+                });
+            } catch (error) {
+                elizaLogger.error("Error approving content:", error);
+                res.status(500).json({ error: "Failed to approve content" });
+            }
+        }
+    );
+
+    router.post(
+        "/agents/:agentId/approvals/:approvalId/reject",
+        async (req, res) => {
+            try {
+                const context = await getApprovalContext(agents, req, res);
+                if (!context) return;
+
+                const reviewed = await reviewApproval(
+                    context,
+                    "REJECTED",
+                    req.body?.reviewer,
+                    res
+                );
+                if (!reviewed) return;
+                res.json({
+                    approval: await context.db.getApprovalById(
+                        context.approval.id
+                    ),
+                });
+            } catch (error) {
+                elizaLogger.error("Error rejecting content:", error);
+                res.status(500).json({ error: "Failed to reject content" });
+            }
+        }
+    );
+
+    router.post(
+        "/agents/:agentId/approvals/:approvalId/edit",
+        async (req, res) => {
+            const text = req.body?.text;
+            if (typeof text !== "string" || !text.trim()) {
+                res.status(400).json({ error: "Text is required" });
+                return;
+            }
+
+            try {
+                const context = await getApprovalContext(agents, req, res);
+                if (!context) return;
+
+                const edit = await context.db.updateApprovalText({
+                    id: context.approval.id,
+                    text,
+                    editor: req.body?.editor,
+                });
+                res.json({
+                    approval: await context.db.getApprovalById(
+                        context.approval.id
+                    ),
+                    edit,
+                });
+            } catch (error) {
+                elizaLogger.error("Error editing content:", error);
+                res.status(500).json({ error: "Failed to edit content" });
+            }
+        }
+    );
+
+    router.get("/agents/:agentId/calendar", async (req, res) => {
+        const postCalendar = getPostCalendar(agents, req, res);
+        if (!postCalendar) return;
+
+        const limit = parseIntegerQuery(req.query.limit, "limit", res);
+        if (limit === null) return;
+
+        try {
+            const posts = await postCalendar.list({
+                includeResolved: req.query.includeResolved === "true",
+                limit,
+            });
+            res.json({ posts });
+        } catch (error) {
+            elizaLogger.error("Error fetching scheduled posts:", error);
+            res.status(500).json({ error: "Failed to fetch scheduled posts" });
+        }
+    });
+
+    router.post("/agents/:agentId/calendar", async (req, res) => {
+        const postCalendar = getPostCalendar(agents, req, res);
+        if (!postCalendar) return;
+
+        const { text, scheduledFor } = req.body ?? {};
+        const timestamp =
+            typeof scheduledFor === "number"
+                ? scheduledFor
+                : Date.parse(scheduledFor);
+        if (typeof text !== "string" || !text.trim()) {
+            res.status(400).json({ error: "Text is required" });
+            return;
+        }
+        if (Number.isNaN(timestamp) || timestamp <= Date.now()) {
+            res.status(400).json({
+                error: "scheduledFor must be a future timestamp or ISO date",
+            });
+            return;
+        }
+
+        try {
+            const post = await postCalendar.pin({
+                text,
+                scheduledFor: timestamp,
+            });
+            res.json({ post });
+        } catch (error) {
+            elizaLogger.error("Error pinning scheduled post:", error);
+            res.status(500).json({ error: "Failed to pin scheduled post" });
+        }
+    });
+
+    router.post("/agents/:agentId/calendar/reorder", async (req, res) => {
+        const postCalendar = getPostCalendar(agents, req, res);
+        if (!postCalendar) return;
+
+        const ids = req.body?.ids;
+        if (
+            !Array.isArray(ids) ||
+            ids.length === 0 ||
+            ids.some((id) => !validateUuid(id))
+        ) {
+            res.status(400).json({
+                error: "ids must be a non-empty array of scheduled post IDs",
+            });
+            return;
+        }
+
+        try {
+            const posts = await postCalendar.reorder(ids);
+            res.json({ posts });
+        } catch (error) {
+            res.status(400).json({ error: error.message });
+        }
+    });
+
+    router.post(
+        "/agents/:agentId/calendar/:postId/cancel",
+        async (req, res) => {
+            const postCalendar = getPostCalendar(agents, req, res);
+            if (!postCalendar) return;
+
+            const postId = validateUuid(req.params.postId);
+            if (!postId) {
+                res.status(400).json({
+                    error: "Invalid PostId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+                });
+                return;
+            }
+
+            try {
+                const post = await postCalendar.getPost(postId);
+                if (!post) {
+                    res.status(404).json({ error: "Scheduled post not found" });
+                    return;
+                }
+                if (post.status !== "SCHEDULED") {
+                    res.status(409).json({
+                        error: `Scheduled post is already ${post.status.toLowerCase()}`,
+                    });
+                    return;
+                }
+
+                await postCalendar.cancel(postId);
+                res.json({ success: true });
+            } catch (error) {
+                elizaLogger.error("Error cancelling scheduled post:", error);
+                res.status(500).json({
+                    error: "Failed to cancel scheduled post",
+                });
+            }
+        }
+    );
+
+    router.get("/agents/:agentId/twitter/queue", (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        // The Twitter client isn't a dependency, so look for its manager by shape
+        const queues = (runtime.clients ?? [])
+            .filter(
+                (client) =>
+                    typeof (client as Partial<TwitterQueueClient>)
+                        .getRequestQueueMetrics === "function"
+            )
+            .flatMap((client) =>
+                (client as TwitterQueueClient).getRequestQueueMetrics()
+            );
+        if (queues.length === 0) {
+            res.status(404).json({
+                error: "The agent has no Twitter client running",
+            });
+            return;
+        }
+
+        res.json({ queues });
+    });
+
+    router.get("/agents/:agentId/twitter/spaces/moderation", (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        const clients = (runtime.clients ?? []).filter(
+            (client) =>
+                typeof (client as Partial<TwitterSpaceModerationClient>)
+                    .getSpaceModerationEvents === "function"
+        ) as TwitterSpaceModerationClient[];
+        if (clients.length === 0) {
+            res.status(404).json({
+                error: "The agent has no Twitter client running",
+            });
+            return;
+        }
+
+        const limit = parseIntegerQuery(req.query.limit, "limit", res);
+        if (limit === null) return;
+
+        const events = clients
+            .flatMap((client) => client.getSpaceModerationEvents(limit))
+            .sort((a, b) => Number(b.at) - Number(a.at))
+            .slice(0, limit);
+        res.json({ events });
+    });
+
+    router.get("/agents/:agentId/twitter/decisions", async (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        const since = parseIntegerQuery(req.query.since, "since", res);
+        if (since === null) return;
+        const limit = parseIntegerQuery(req.query.limit, "limit", res);
+        if (limit === null) return;
+
+        try {
+            const decisions = await new TweetDecisionLog(runtime).getRecent({
+                account: req.query.account as string | undefined,
+                tweetId: req.query.tweetId as string | undefined,
+                since,
+                limit: limit ?? 100,
+            });
+            res.json({ decisions });
+        } catch (error) {
+            elizaLogger.error("Error reading tweet decisions:", error);
+            res.status(500).json({ error: "Failed to read tweet decisions" });
+        }
+    });
+
+    router.get("/agents/:agentId/twitter/sessions", (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        const sessions =
+            runtime.getCapability(TWITTER_SESSIONS)?.getStatuses() ?? [];
+        if (sessions.length === 0) {
+            res.status(404).json({
+                error: "The agent has no Twitter session",
+            });
+            return;
+        }
+
+        res.json({ sessions });
+    });
+
+    router.get("/agents/:agentId/knowledge/status", (req, res) => {
+        const { agentId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+        };
+        if (!agentId) return;
+
+        const runtime = agents.get(agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+
+        res.json({ files: runtime.ragKnowledgeManager.getIndexingStatus() });
+    });
+
     return router;
 }
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineCapability } from "../src/capabilities.ts";
+import { AgentRuntime } from "../src/runtime.ts";
+import {
+    type Character,
+    type IDatabaseAdapter,
+    ModelProviderName,
+    type Plugin,
+} from "../src/types.ts";
+
+interface Greeter {
+    greet(name: string): string;
+}
+
+const GREETER = defineCapability<Greeter>("greeter");
+
+const character: Character = {
+    name: "Test Agent",
+    modelProvider: ModelProviderName.OPENAI,
+    bio: [],
+    lore: [],
+    messageExamples: [],
+    postExamples: [],
+    topics: [],
+    adjectives: [],
+    plugins: [],
+    style: { all: [], chat: [], post: [] },
+};
+
+function createRuntime(plugins: Plugin[] = []): AgentRuntime {
+    return new AgentRuntime({
+        token: "test-token",
+        character,
+        modelProvider: ModelProviderName.OPENAI,
+        databaseAdapter: {
+            getRoom: vi.fn().mockResolvedValue("room"),
+            getAccountById: vi.fn().mockResolvedValue({ id: "agent" }),
+            getParticipantsForAccount: vi.fn().mockResolvedValue([]),
+            addParticipant: vi.fn().mockResolvedValue(true),
+        } as unknown as IDatabaseAdapter,
+        plugins,
+    });
+}
+
+describe("runtime capabilities", () => {
+    let runtime: AgentRuntime;
+
+    beforeEach(() => {
+        runtime = createRuntime();
+    });
+
+    it("should look up a registered capability by its key", () => {
+        runtime.registerCapability(GREETER, {
+            greet: (name) => `hello ${name}`,
+        });
+        const other = defineCapability<Greeter>("other");
+
+        expect(runtime.getCapability(GREETER)?.greet("bob")).toBe("hello bob");
+        expect(runtime.getCapability(other)).toBeNull();
+        expect(() => runtime.requireCapability(other)).toThrow(
+            "Capability other is not registered"
+        );
+    });
+
+    it("should keep the first implementation of a capability", () => {
+        const first = { greet: () => "first" };
+        runtime.registerCapability(GREETER, first);
+        runtime.registerCapability(GREETER, { greet: () => "second" });
+
+        expect(runtime.requireCapability(GREETER)).toBe(first);
+    });
+
+    it("should initialize capabilities in order and stop them in reverse", async () => {
+        const calls: string[] = [];
+        const lifecycle = (name: string) => ({
+            initialize: async () => {
+                calls.push(`initialize ${name}`);
+            },
+            stop: async () => {
+                calls.push(`stop ${name}`);
+            },
+        });
+        runtime.registerCapability(defineCapability("database"), lifecycle("database"));
+        runtime.registerCapability(defineCapability("search"), lifecycle("search"));
+
+        await runtime.initialize();
+        await runtime.stop();
+
+        expect(calls).toEqual([
+            "initialize database",
+            "initialize search",
+            "stop search",
+            "stop database",
+        ]);
+    });
+
+    it("should register plugin capabilities and check plugin requirements", async () => {
+        const pluginRuntime = createRuntime([
+            {
+                name: "greeter-plugin",
+                description: "Provides a greeter",
+                capabilities: [
+                    { key: GREETER, implementation: { greet: () => "hi" } },
+                ],
+            },
+            {
+                name: "consumer-plugin",
+                description: "Needs a greeter and a translator",
+                requiredCapabilities: [GREETER, defineCapability("translator")],
+            },
+        ]);
+
+        expect(pluginRuntime.getCapability(GREETER)?.greet("x")).toBe("hi");
+        await expect(pluginRuntime.initialize()).rejects.toThrow(
+            "Plugin consumer-plugin requires capabilities that are not registered: translator"
+        );
+    });
+});
@@ -4,6 +4,7 @@ import {
     getEmbeddingConfig,
     getEmbeddingType,
     getEmbeddingZeroVector,
+    truncateEmbedding,
 } from "../src/embedding.ts";
 import { type IAgentRuntime, ModelProviderName } from "../src/types.ts";
 import settings from "../src/settings.ts";
@@ -111,14 +112,44 @@ describe("Embedding Module", () => {
         });
     });
 
+    describe("getEmbeddingConfig truncation", () => {
+        beforeEach(() => {
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "false";
+            vi.mocked(settings).EMBEDDING_DIMENSIONS = undefined;
+        });
+
+        test("should truncate models that support it", () => {
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "true";
+            vi.mocked(settings).EMBEDDING_DIMENSIONS = "512";
+            expect(getEmbeddingConfig().dimensions).toBe(512);
+        });
+
+        test("should keep the native size of models that do not", () => {
+            vi.mocked(settings).EMBEDDING_DIMENSIONS = "256";
+            expect(getEmbeddingConfig().dimensions).toBe(384);
+        });
+    });
+
+    describe("truncateEmbedding", () => {
+        test("should keep the leading values and normalize them", () => {
+            expect(truncateEmbedding([3, 4, 12], 2)).toEqual([0.6, 0.8]);
+        });
+
+        test("should not grow an embedding", () => {
+            expect(() => truncateEmbedding([1, 0], 3)).toThrow();
+        });
+    });
+
     describe("embed function", () => {
         beforeEach(() => {
-            // Mock a successful remote response with an example 384-dim embedding
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "false";
+            vi.mocked(settings).EMBEDDING_DIMENSIONS = undefined;
+            // Mock a successful remote response with a 1536-dim OpenAI embedding
             mockFetch.mockResolvedValue({
                 ok: true,
                 json: () =>
                     Promise.resolve({
-                        data: [{ embedding: new Array(384).fill(0.1) }],
+                        data: [{ embedding: new Array(1536).fill(0.1) }],
                     }),
             });
         });
@@ -130,41 +161,66 @@ describe("Embedding Module", () => {
 
         test("should return cached embedding if it already exists", async () => {
             const cachedEmbedding = new Array(384).fill(0.5);
-            mockRuntime.messageManager.getCachedEmbeddings = vi
-                .fn()
-                .mockResolvedValue([{ embedding: cachedEmbedding }]);
+            (mockRuntime as any).cacheManager = {
+                get: vi.fn().mockResolvedValue(cachedEmbedding),
+                set: vi.fn(),
+            };
 
             const result = await embed(mockRuntime, "test input");
             expect(result).toBe(cachedEmbedding);
+            expect((mockRuntime as any).cacheManager.get).toHaveBeenCalledWith(
+                "embedding:BGE:BGE-small-en-v1.5:384:test input"
+            );
         });
 
-        test("should handle local embedding successfully (fastembed fallback)", async () => {
-            // By default, it tries local first if in Node.
-            // Then uses the mock fastembed response above.
+        test("should embed with the configured remote model", async () => {
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "true";
+
             const result = await embed(mockRuntime, "test input");
-            expect(result).toHaveLength(384);
-            expect(result.every((v) => typeof v === "number")).toBe(true);
+            expect(result).toHaveLength(1536);
+            expect(mockFetch).toHaveBeenCalled();
         });
 
-        test("should fallback to remote if local embedding fails", async () => {
-            // Force fastembed import to fail
-            vi.mock("fastembed", () => {
-                throw new Error("Module not found");
+        test("should have the API truncate OpenAI embeddings", async () => {
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "true";
+            vi.mocked(settings).EMBEDDING_DIMENSIONS = "512";
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: () =>
+                    Promise.resolve({
+                        data: [{ embedding: new Array(512).fill(0.1) }],
+                    }),
             });
 
-            // Mock a valid remote response
-            const mockResponse = {
+            const result = await embed(mockRuntime, "test input");
+            expect(result).toHaveLength(512);
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.dimensions).toBe(512);
+        });
+
+        test("should reject embeddings of the wrong size", async () => {
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "true";
+            mockFetch.mockResolvedValueOnce({
                 ok: true,
                 json: () =>
                     Promise.resolve({
                         data: [{ embedding: new Array(384).fill(0.1) }],
                     }),
-            };
-            mockFetch.mockResolvedValueOnce(mockResponse);
+            });
 
-            const result = await embed(mockRuntime, "test input");
-            expect(result).toHaveLength(384);
-            expect(mockFetch).toHaveBeenCalled();
+            await expect(embed(mockRuntime, "test input")).rejects.toThrow(
+                "returned 384 dimensions, expected 1536"
+            );
+        });
+
+        test("should not fall back to another model if local embedding fails", async () => {
+            // Force fastembed import to fail
+            vi.mock("fastembed", () => {
+                throw new Error("Module not found");
+            });
+
+            await expect(embed(mockRuntime, "test input")).rejects.toThrow();
+            expect(mockFetch).not.toHaveBeenCalled();
         });
 
         test("should throw on remote embedding if fetch fails", async () => {
@@ -192,6 +248,7 @@ describe("Embedding Module", () => {
         });
 
         test("should handle concurrent embedding requests", async () => {
+            vi.mocked(settings).USE_OPENAI_EMBEDDING = "true";
             const promises = Array(5)
                 .fill(null)
                 .map(() => embed(mockRuntime, "concurrent test"));
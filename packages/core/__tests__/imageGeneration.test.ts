@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    detectImageMimeType,
+    generateImageData,
+    getImageBackend,
+    loadImage,
+    registerImageBackend,
+} from "../src/imageGeneration.ts";
+import { generateImage } from "../src/generation.ts";
+import { ModelProviderName } from "../src/types.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+vi.mock("../src/generation.ts", () => ({
+    generateImage: vi.fn(),
+}));
+
+const PNG = Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+    "base64"
+);
+
+function createRuntime(imageSettings?: Record<string, unknown>) {
+    return createTestRuntime({
+        imageModelProvider: ModelProviderName.OPENAI,
+        character: { settings: { imageSettings } },
+    });
+}
+
+describe("detectImageMimeType", () => {
+    it("should detect images by their bytes", () => {
+        expect(detectImageMimeType(PNG)).toBe("image/png");
+        expect(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+            "image/jpeg"
+        );
+        expect(detectImageMimeType(Buffer.from("GIF89a..."))).toBe("image/gif");
+        expect(detectImageMimeType(Buffer.from("RIFF....WEBPVP8 "))).toBe(
+            "image/webp"
+        );
+        expect(detectImageMimeType(Buffer.from("<html>"))).toBeNull();
+    });
+});
+
+describe("loadImage", () => {
+    it("should decode data URLs regardless of the declared type", async () => {
+        const image = await loadImage(
+            `data:image/jpeg;base64,${PNG.toString("base64")}`
+        );
+
+        expect(image.mediaType).toBe("image/png");
+        expect(image.data.equals(PNG)).toBe(true);
+    });
+
+    it("should reject data that is not an image", async () => {
+        await expect(
+            loadImage(`data:image/png;base64,${Buffer.from("nope").toString("base64")}`)
+        ).rejects.toThrow("did not return a supported image");
+    });
+});
+
+describe("image backends", () => {
+    it("should use the character's backend", async () => {
+        const image = await generateImageData(createRuntime({ backend: "stub" }), {
+            prompt: "a lighthouse",
+            width: 512,
+            height: 512,
+        });
+
+        expect(image.mediaType).toBe("image/png");
+        expect(generateImage).not.toHaveBeenCalled();
+    });
+
+    it("should generate with the image model provider by default", async () => {
+        vi.mocked(generateImage).mockResolvedValueOnce({
+            success: true,
+            data: [`data:image/png;base64,${PNG.toString("base64")}`],
+        });
+
+        const image = await generateImageData(createRuntime({ width: 256 }), {
+            prompt: "a lighthouse",
+            width: 1024,
+            height: 768,
+        });
+
+        expect(image.mediaType).toBe("image/png");
+        expect(generateImage).toHaveBeenCalledWith(
+            expect.objectContaining({ prompt: "a lighthouse", width: 1024, height: 768 }),
+            expect.anything()
+        );
+    });
+
+    it("should report failed generations", async () => {
+        vi.mocked(generateImage).mockResolvedValueOnce({
+            success: false,
+            error: "No model settings available",
+        });
+
+        await expect(
+            generateImageData(createRuntime(), { prompt: "x", width: 1, height: 1 })
+        ).rejects.toThrow("No model settings available");
+    });
+
+    it("should find registered backends and reject unknown ones", () => {
+        const custom = { name: "custom", generate: vi.fn() };
+        registerImageBackend(custom);
+
+        expect(getImageBackend(createRuntime({ backend: "custom" }))).toBe(custom);
+        expect(() => getImageBackend(createRuntime({ backend: "missing" }))).toThrow(
+            'Unknown image backend "missing"'
+        );
+    });
+});
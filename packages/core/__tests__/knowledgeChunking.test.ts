@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import { embed } from "../src/embedding.ts";
+import {
+    chunkByParagraphs,
+    chunkByTokens,
+    chunkVerses,
+    describeChunking,
+} from "../src/knowledgeChunking.ts";
+import { RAGKnowledgeManager } from "../src/ragknowledge.ts";
+import type { RAGKnowledgeItem, ScriptureVerse } from "../src/types.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+vi.mock("../src/embedding.ts", () => ({
+    embed: vi.fn().mockResolvedValue([0.1, 0.2, 0.3]),
+}));
+
+const verse = (
+    chapter: number,
+    number: number,
+    text: string
+): ScriptureVerse => ({
+    translation: "eng-kjv",
+    language: "eng",
+    book: "John",
+    chapter,
+    verse: number,
+    text,
+});
+
+describe("Knowledge chunking", () => {
+    it("should split text into overlapping windows of tokens", () => {
+        const words = Array.from({ length: 40 }, (_, i) => `word${i}`);
+        const chunks = chunkByTokens(words.join(" "), 20, 5);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks[0].startsWith("word0")).toBe(true);
+        expect(chunks[chunks.length - 1].endsWith("word39")).toBe(true);
+        // Each window starts with the end of the one before
+        const lastWord = chunks[0].split(" ").pop() as string;
+        expect(chunks[1]).toContain(lastWord);
+    });
+
+    it("should pack paragraphs into chunks", () => {
+        const content = [
+            "First paragraph.",
+            "Second paragraph.",
+            "Third paragraph, a little longer than the others.",
+        ].join("\n\n");
+
+        expect(chunkByParagraphs(content, 12)).toEqual([
+            "First paragraph.\n\nSecond paragraph.",
+            "Third paragraph, a little longer than the others.",
+        ]);
+        expect(chunkByParagraphs(content, 100)).toEqual([content]);
+    });
+
+    it("should group consecutive verses of a chapter", () => {
+        const chunks = chunkVerses(
+            [
+                verse(3, 16, "For God so loved the world,"),
+                verse(3, 17, "For God sent not his Son"),
+                verse(3, 18, "He that believeth on him"),
+                verse(4, 1, "When therefore the Lord knew"),
+            ],
+            2
+        );
+
+        expect(chunks.map((chunk) => chunk.text)).toEqual([
+            "John 3:16-17 (eng-kjv) For God so loved the world, For God sent not his Son",
+            "John 3:18 (eng-kjv) He that believeth on him",
+            "John 4:1 (eng-kjv) When therefore the Lord knew",
+        ]);
+        expect(chunks[0].metadata).toEqual({
+            translation: "eng-kjv",
+            language: "eng",
+            book: "John",
+            chapter: 3,
+            verse: 16,
+            endVerse: 17,
+            reference: "John 3:16-17",
+        });
+    });
+
+    it("should only index the chunks of a file that changed", async () => {
+        let knowledge: RAGKnowledgeItem[] = [];
+        const runtime = createTestRuntime({
+            character: {
+                settings: { ragChunking: { strategy: "paragraphs" } },
+            },
+            databaseAdapter: {
+                getKnowledge: async ({ id }: { id: string }) =>
+                    knowledge.filter((item) => item.id === id),
+                createKnowledge: async (item: RAGKnowledgeItem) => {
+                    knowledge.push(item);
+                },
+                removeKnowledge: async (id: string) => {
+                    knowledge = knowledge.filter((item) => item.id !== id);
+                },
+            },
+        });
+        const manager = new RAGKnowledgeManager({
+            runtime: runtime as RAGKnowledgeManager["runtime"],
+            tableName: "knowledge",
+            knowledgeRoot: "",
+        });
+        const paragraphs = ["alpha", "beta", "gamma"].map((word) =>
+            `${word} `.repeat(300).trim()
+        );
+        const file = {
+            path: "notes.md",
+            content: paragraphs.join("\n\n"),
+            type: "md" as const,
+            isShared: false,
+        };
+
+        await manager.processFile(file);
+        expect(knowledge).toHaveLength(4);
+        expect(knowledge[1].content.metadata).toMatchObject({
+            isChunk: true,
+            originalId: knowledge[0].id,
+            source: "notes.md",
+            type: "md",
+        });
+
+        vi.mocked(embed).mockClear();
+        await manager.processFile(file);
+        expect(embed).not.toHaveBeenCalled();
+        expect(manager.getIndexingStatus()).toEqual([
+            expect.objectContaining({ path: "notes.md", state: "unchanged" }),
+        ]);
+
+        const delta = "delta ".repeat(300).trim();
+        await manager.processFile({
+            ...file,
+            content: [paragraphs[0], delta, paragraphs[2]].join("\n\n"),
+        });
+        expect(embed).toHaveBeenCalledTimes(1);
+        expect(knowledge).toHaveLength(4);
+        expect(knowledge[3].content.text).toBe(delta);
+        expect(manager.getIndexingStatus()[0]).toMatchObject({
+            state: "indexed",
+            chunks: 3,
+            embedded: 1,
+            removed: 1,
+        });
+
+        // Chunking the file differently indexes it again
+        runtime.character.settings.ragChunking.strategy = "tokens";
+        expect(describeChunking({ strategy: "tokens" })).toBe(
+            "tokens:512:64"
+        );
+        await manager.processFile(file);
+        expect(manager.getIndexingStatus()[0].state).toBe("indexed");
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+    detectLanguage,
+    formatReplyLanguage,
+    getLanguageName,
+    getReplyLanguage,
+    isSameLanguage,
+    normalizeLanguage,
+} from "../src/languages.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+const runtimeWith = (settings: Record<string, unknown>) =>
+    createTestRuntime({ character: { settings } });
+
+describe("Languages", () => {
+    it("should normalize language codes", () => {
+        expect(normalizeLanguage("es")).toBe("spa");
+        expect(normalizeLanguage("cze")).toBe("ces");
+        expect(normalizeLanguage("zh-Hant")).toBe("zho");
+        expect(normalizeLanguage("haw")).toBe("haw");
+        expect(isSameLanguage("chi", "zho")).toBe(true);
+        expect(getLanguageName("dut")).toBe("Dutch");
+    });
+
+    it("should detect the language of mentions", () => {
+        const detect = (text: string) => detectLanguage(text)?.language;
+
+        expect(detect("@agent what does the Bible say about love?")).toBe(
+            "eng"
+        );
+        expect(detect("a prayer for a friend")).toBe("eng");
+        expect(detect("@agent ¿Qué dice la Biblia sobre el amor?")).toBe(
+            "spa"
+        );
+        expect(detect("@agent O que a Bíblia diz sobre o perdão?")).toBe(
+            "por"
+        );
+        expect(detect("@agent Co říká Bible o lásce?")).toBe("ces");
+        expect(detect("@agent Wat zegt de bijbel over liefde?")).toBe("nld");
+        expect(detect("@agent Pater noster, qui es in caelis")).toBe("lat");
+        expect(detect("@agent 圣经怎么说爱?")).toBe("zho");
+        expect(detect("@agent ᎤᏁᎳᏅᎯ ᎤᎨᏳᎯ")).toBe("chr");
+        expect(detect("@agent 🙏 https://t.co/abc")).toBeUndefined();
+        expect(detect("@agent Amen")).toBeUndefined();
+    });
+
+    it("should reply in supported languages and fall back to the default", () => {
+        const runtime = runtimeWith({ replyLanguages: ["es", "eng"] });
+
+        expect(getReplyLanguage(runtime, "¿Qué dice la Biblia?")).toEqual({
+            language: "spa",
+            name: "Spanish",
+            detected: "spa",
+            isFallback: false,
+        });
+        const fallback = getReplyLanguage(
+            runtime,
+            "Wat zegt de bijbel over liefde?"
+        );
+        expect(fallback).toMatchObject({
+            language: "spa",
+            detected: "nld",
+            isFallback: true,
+        });
+        expect(formatReplyLanguage(fallback!)).toBe(
+            "The post is in Dutch, which you don't reply in: write the reply in Spanish."
+        );
+        expect(getReplyLanguage(runtime, "Amen")).toMatchObject({
+            language: "spa",
+            isFallback: false,
+        });
+
+        expect(
+            getReplyLanguage(
+                runtimeWith({
+                    replyLanguages: ["eng"],
+                    replyLanguageFallback: "ignore",
+                }),
+                "Wat zegt de bijbel over liefde?"
+            )
+        ).toBeNull();
+        expect(
+            getReplyLanguage(runtimeWith({}), "Co říká Bible o lásce?")
+        ).toMatchObject({ language: "ces", name: "Czech" });
+    });
+});
@@ -1,8 +1,13 @@
 import { MemoryManager } from "../src/memory";
 import { CacheManager, MemoryCacheAdapter } from "../src/cache";
+import { embed } from "../src/embedding";
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import type { IAgentRuntime, Memory, UUID } from "../src/types";
 
+vi.mock("../src/embedding", () => ({
+    embed: vi.fn(),
+}));
+
 describe("MemoryManager", () => {
     let memoryManager: MemoryManager;
     let mockDatabaseAdapter: any;
@@ -64,6 +69,34 @@ describe("MemoryManager", () => {
                 "Cannot generate embedding: Memory content is empty"
             );
         });
+
+        it("should embed a memory again once embedding works instead of storing zeros", async () => {
+            const memory: Memory = {
+                id: "test-id" as UUID,
+                userId: "user-id" as UUID,
+                agentId: "test-agent-id" as UUID,
+                roomId: "room-id" as UUID,
+                content: { text: "test content" },
+            };
+            vi.mocked(embed).mockRejectedValueOnce(new Error("Model offline"));
+
+            const result = await memoryManager.addEmbeddingToMemory(memory);
+            expect(result.embedding).toBeUndefined();
+
+            mockDatabaseAdapter.getMemoryById.mockResolvedValue(memory);
+            vi.mocked(embed).mockResolvedValue([0.1, 0.2, 0.3]);
+            await memoryManager.addEmbeddingToMemory({
+                ...memory,
+                id: "other-id" as UUID,
+            });
+            await vi.waitFor(() =>
+                expect(mockDatabaseAdapter.createMemory).toHaveBeenCalledWith(
+                    { ...memory, embedding: [0.1, 0.2, 0.3] },
+                    "test_memories",
+                    undefined
+                )
+            );
+        });
     });
 
     describe("searchMemoriesByEmbedding", () => {
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    ContentModerator,
+    createContentModerator,
+    TermModerationStep,
+} from "../src/moderation.ts";
+import { generateText } from "../src/generation.ts";
+import { elizaLogger } from "../src/logger.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+vi.mock("../src/generation.ts", () => ({
+    generateText: vi.fn(),
+}));
+
+const inbound = { direction: "inbound" as const, source: "test" };
+
+describe("TermModerationStep", () => {
+    const step = new TermModerationStep(["hell", "blasphem*", "porn"]);
+
+    it("should match whole words only", async () => {
+        expect(await step.check("hello, this helps")).toBeNull();
+        expect(await step.check("what the hell")).toMatchObject({
+            allowed: false,
+            rule: "blocklist:hell",
+        });
+    });
+
+    it("should match longer words for prefix terms", async () => {
+        expect(await step.check("that is blasphemous")).toMatchObject({
+            rule: "blocklist:blasphem*",
+        });
+    });
+
+    it("should see through leetspeak, accents and separators", async () => {
+        for (const text of ["P0RN", "p.o.r.n", "pööörn", "h3ll"]) {
+            expect(await step.check(text)).toMatchObject({ allowed: false });
+        }
+    });
+
+    it("should exempt allowlisted phrases", async () => {
+        const allowing = new TermModerationStep(["hell"], ["hell's kitchen"]);
+
+        expect(await allowing.check("Dinner at Hell's Kitchen")).toBeNull();
+        expect(await allowing.check("Hell's Kitchen was hell")).toMatchObject(
+            { rule: "blocklist:hell" }
+        );
+    });
+});
+
+describe("ContentModerator", () => {
+    it("should stop at the first step that blocks and log the rule", async () => {
+        const warn = vi.spyOn(elizaLogger, "warn").mockImplementation(() => {});
+        const later = { name: "later", check: vi.fn() };
+        const moderator = new ContentModerator([
+            {
+                name: "custom",
+                check: async () => ({ allowed: false, reason: "No" }),
+            },
+            later,
+        ]);
+
+        expect(await moderator.check("anything", inbound)).toEqual({
+            allowed: false,
+            rule: "custom",
+            reason: "No",
+        });
+        expect(later.check).not.toHaveBeenCalled();
+        expect(warn).toHaveBeenCalledWith(
+            expect.stringContaining("by rule custom")
+        );
+        warn.mockRestore();
+    });
+
+    it("should not flag words the old filter blocked by mistake", async () => {
+        const moderator = createContentModerator(createTestRuntime());
+
+        expect(
+            await moderator.check("Praise the Most High, hello and welcome", inbound)
+        ).toEqual({ allowed: true });
+        expect(await moderator.check("classic a$$hole", inbound)).toMatchObject({
+            allowed: false,
+            rule: "blocklist:asshole*",
+        });
+    });
+
+    it("should not flag Bible verses with the default list", async () => {
+        const moderator = createContentModerator(createTestRuntime());
+
+        expect(
+            await moderator.check(
+                "Behold, thy King cometh unto thee: he is just, and having salvation; lowly, and riding upon an ass (Zechariah 9:9)",
+                inbound
+            )
+        ).toEqual({ allowed: true });
+    });
+
+    it("should use only the character's terms without the default list", async () => {
+        const moderator = createContentModerator(
+            createTestRuntime({
+                character: {
+                    moderation: {
+                        useDefaultBlocklist: false,
+                        blocklist: ["spam"],
+                    },
+                },
+            })
+        );
+
+        expect(await moderator.check("nsfw", inbound)).toEqual({
+            allowed: true,
+        });
+        expect(await moderator.check("SPAM!", inbound)).toMatchObject({
+            rule: "blocklist:spam",
+        });
+    });
+
+    it("should ask the classifier when enabled", async () => {
+        vi.mocked(generateText).mockResolvedValueOnce(
+            "UNSAFE\nThreatens the reader"
+        );
+        const moderator = createContentModerator(
+            createTestRuntime({
+                character: { moderation: { classifier: { enabled: true } } },
+            })
+        );
+
+        expect(
+            await moderator.check("a friendly looking text", {
+                direction: "outbound",
+            })
+        ).toEqual({
+            allowed: false,
+            rule: "classifier",
+            reason: "Threatens the reader",
+        });
+        expect(vi.mocked(generateText).mock.calls[0][0].context).toContain(
+            "appropriate for Test Agent to post"
+        );
+    });
+});
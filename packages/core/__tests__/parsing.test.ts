@@ -4,6 +4,7 @@ import {
     parseBooleanFromText,
     parseJsonArrayFromText,
     parseJSONObjectFromText,
+    parseTweetActionDecisionsFromText,
 } from "../src/parsing";
 
 describe("Parsing Module", () => {
@@ -145,4 +146,41 @@ describe("Parsing Module", () => {
             );
         });
     });
+
+    describe("parseTweetActionDecisionsFromText", () => {
+        it("should parse decisions, keeping the first on each action", () => {
+            const input = `\`\`\`json
+{
+    "decisions": [
+        { "action": "[like]", "confidence": 0.9, "rationale": "On topic" },
+        { "action": "REPLY", "confidence": "0.4", "rationale": "Nothing to add" },
+        { "action": "LIKE", "confidence": 0.1, "rationale": "Changed my mind" }
+    ]
+}
+\`\`\``;
+            expect(parseTweetActionDecisionsFromText(input)).toEqual([
+                { action: "LIKE", confidence: 0.9, rationale: "On topic" },
+                { action: "REPLY", confidence: 0.4, rationale: "Nothing to add" },
+            ]);
+        });
+
+        it("should return null for decisions not matching the schema", () => {
+            expect(parseTweetActionDecisionsFromText("invalid")).toBe(null);
+            expect(
+                parseTweetActionDecisionsFromText(
+                    '{"decisions": [{"action": "FOLLOW", "confidence": 0.9, "rationale": "Why not"}]}'
+                )
+            ).toBe(null);
+            expect(
+                parseTweetActionDecisionsFromText(
+                    '{"decisions": [{"action": "LIKE", "confidence": 1.5, "rationale": "Sure"}]}'
+                )
+            ).toBe(null);
+            expect(
+                parseTweetActionDecisionsFromText(
+                    '{"decisions": [{"action": "LIKE", "confidence": 0.5}]}'
+                )
+            ).toBe(null);
+        });
+    });
 });
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    getNextCronOccurrence,
+    getUpcomingSlots,
+    MISSED_POST_GRACE_MS,
+    PostCalendar,
+} from "../src/postCalendar.ts";
+import type { ScheduledPost } from "../src/types.ts";
+import {
+    createMemoryDatabaseAdapter,
+    testAgentId,
+} from "./testRuntime.ts";
+
+describe("Posting calendar schedules", () => {
+    it("should find the next cron occurrence in a timezone", () => {
+        const after = Date.parse("2025-01-06T10:00:00Z"); // Monday
+        // 09:30 on weekdays in Berlin (UTC+1 in winter)
+        const next = getNextCronOccurrence("30 9 * * 1-5", after, "Europe/Berlin");
+        expect(new Date(next).toISOString()).toBe("2025-01-07T08:30:00.000Z");
+    });
+
+    it("should follow daylight saving changes", () => {
+        const after = Date.parse("2025-03-29T12:00:00Z");
+        const next = getNextCronOccurrence("0 9 * * *", after, "Europe/Berlin");
+        // Clocks moved forward on March 30th, so 09:00 is UTC+2
+        expect(new Date(next).toISOString()).toBe("2025-03-30T07:00:00.000Z");
+    });
+
+    it("should match either restricted day-of-month or day-of-week", () => {
+        const after = Date.parse("2025-01-01T00:00:00Z"); // Wednesday
+        const next = getNextCronOccurrence("0 12 15 * 5", after);
+        // Friday January 3rd comes before the 15th
+        expect(new Date(next).toISOString()).toBe("2025-01-03T12:00:00.000Z");
+    });
+
+    it("should reject malformed cron expressions", () => {
+        expect(() => getNextCronOccurrence("0 25 * * *", 0)).toThrow();
+        expect(() => getNextCronOccurrence("0 12 * *", 0)).toThrow();
+    });
+
+    it("should merge cron, daily and one-off slots in order", () => {
+        const after = Date.parse("2025-01-01T08:00:00Z");
+        const slots = getUpcomingSlots(
+            {
+                timezone: "America/New_York",
+                cron: ["0 12 * * *"],
+                slots: ["07:15", "2025-01-01T10:00", "2025-01-01T09:00:00Z"],
+            },
+            after,
+            4
+        );
+        expect(slots.map((slot) => new Date(slot).toISOString())).toEqual([
+            "2025-01-01T09:00:00.000Z",
+            "2025-01-01T12:15:00.000Z",
+            "2025-01-01T15:00:00.000Z",
+            "2025-01-01T17:00:00.000Z",
+        ]);
+    });
+});
+
+describe("PostCalendar", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    const config = { slots: ["09:00", "18:00"], draftsAhead: 2 };
+
+    it("should not recreate cancelled slots when syncing", async () => {
+        const db = createMemoryDatabaseAdapter();
+        const calendar = new PostCalendar(db, testAgentId, "twitter", config);
+
+        await calendar.sync(now);
+        const [first] = await calendar.list();
+        await calendar.cancel(first.id);
+        await calendar.sync(now);
+
+        const upcoming = await calendar.list();
+        expect(upcoming).toHaveLength(1);
+        expect(upcoming[0].scheduledFor).toBe(Date.parse("2025-01-01T18:00:00Z"));
+    });
+
+    it("should pin text to an existing slot", async () => {
+        const db = createMemoryDatabaseAdapter();
+        const calendar = new PostCalendar(db, testAgentId, "twitter", config);
+        await calendar.sync(now);
+
+        const pinned = await calendar.pin({
+            text: "Written by a human",
+            scheduledFor: Date.parse("2025-01-01T09:00:00Z"),
+        });
+
+        expect(pinned).toMatchObject({ text: "Written by a human", pinned: true });
+        expect(await calendar.list()).toHaveLength(2);
+    });
+
+    it("should swap slot times when reordering", async () => {
+        const db = createMemoryDatabaseAdapter();
+        const calendar = new PostCalendar(db, testAgentId, "twitter", config);
+        await calendar.sync(now);
+        const [morning, evening] = await calendar.list();
+
+        const reordered = await calendar.reorder([evening.id, morning.id]);
+
+        expect(reordered.map((post) => post.id)).toEqual([evening.id, morning.id]);
+        expect(reordered[0].scheduledFor).toBe(morning.scheduledFor);
+    });
+
+    it("should draft upcoming posts and publish due ones", async () => {
+        const db = createMemoryDatabaseAdapter();
+        const calendar = new PostCalendar(db, testAgentId, "twitter", config);
+        await calendar.sync(now);
+        const [morning, evening] = await calendar.list();
+
+        const handlers = {
+            generateDraft: vi.fn(async (post: ScheduledPost) => `draft ${post.id}`),
+            publish: vi.fn(async () => {}),
+        };
+
+        await calendar.tick(handlers, now);
+        expect(handlers.publish).not.toHaveBeenCalled();
+        expect(db.posts.get(morning.id).text).toBe(`draft ${morning.id}`);
+
+        await calendar.tick(handlers, morning.scheduledFor + 1000);
+        expect(handlers.publish).toHaveBeenCalledWith(
+            expect.objectContaining({ id: morning.id, text: `draft ${morning.id}` })
+        );
+        expect(db.posts.get(morning.id).status).toBe("POSTED");
+        expect(db.posts.get(evening.id).status).toBe("SCHEDULED");
+    });
+
+    it("should only mark posts posted once they are published", async () => {
+        const db = createMemoryDatabaseAdapter();
+        const calendar = new PostCalendar(db, testAgentId, "twitter", config);
+        await calendar.sync(now);
+        const [morning, evening] = await calendar.list();
+
+        const handlers = {
+            generateDraft: vi.fn(async () => "draft"),
+            publish: vi.fn(async () => {
+                throw new Error("Rate limit exceeded");
+            }),
+        };
+        await calendar.tick(handlers, morning.scheduledFor + 1000);
+        expect(db.posts.get(morning.id).status).toBe("FAILED");
+
+        handlers.publish.mockResolvedValueOnce("PENDING_APPROVAL");
+        await calendar.tick(handlers, evening.scheduledFor + 1000);
+        expect(db.posts.get(evening.id).status).toBe("PENDING_APPROVAL");
+    });
+
+    it("should skip slots missed while offline", async () => {
+        const db = createMemoryDatabaseAdapter();
+        const calendar = new PostCalendar(db, testAgentId, "twitter", config);
+        await calendar.sync(now);
+        const [morning] = await calendar.list();
+
+        const handlers = {
+            generateDraft: vi.fn(async () => "draft"),
+            publish: vi.fn(async () => {}),
+        };
+        await calendar.tick(
+            handlers,
+            morning.scheduledFor + MISSED_POST_GRACE_MS + 1
+        );
+
+        expect(handlers.publish).not.toHaveBeenCalledWith(
+            expect.objectContaining({ id: morning.id })
+        );
+        expect(db.posts.get(morning.id).status).toBe("MISSED");
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { ProcessedTweetStore } from "../src/processedTweets.ts";
+import {
+    createMemoryDatabaseAdapter,
+    createTestRuntime,
+} from "./testRuntime.ts";
+
+describe("ProcessedTweetStore", () => {
+    it.each([
+        [
+            "database adapter",
+            () =>
+                createTestRuntime({
+                    databaseAdapter: createMemoryDatabaseAdapter(),
+                }),
+        ],
+        ["runtime cache", () => createTestRuntime()],
+    ])("should record each action once with a %s", async (_, create) => {
+        const store = new ProcessedTweetStore(create());
+
+        expect(await store.mark("100", "REPLIED", "101")).toBe(true);
+        expect(await store.mark("100", "REPLIED", "102")).toBe(false);
+        expect(await store.mark("100", "LIKED")).toBe(true);
+
+        expect(await store.has("100")).toBe(true);
+        expect(await store.has("100", ["PROCESSED", "REPLIED"])).toBe(true);
+        expect(await store.has("100", "RETWEETED")).toBe(false);
+        expect(await store.has("200")).toBe(false);
+
+        await store.unmark("100", "REPLIED");
+        expect(await store.getActions("100")).toEqual(["LIKED"]);
+    });
+
+    it("should share records between stores of the same runtime", async () => {
+        const runtime = createTestRuntime({
+            databaseAdapter: createMemoryDatabaseAdapter(),
+        });
+        const first = new ProcessedTweetStore(runtime);
+        const second = new ProcessedTweetStore(runtime);
+
+        await first.mark("100", "REPLIED");
+
+        expect(await second.has("100", "REPLIED")).toBe(true);
+        expect(await second.mark("100", "REPLIED")).toBe(false);
+    });
+
+    it("should let only one of concurrent claims on a tweet through", async () => {
+        const runtime = createTestRuntime();
+        const first = new ProcessedTweetStore(runtime);
+        const second = new ProcessedTweetStore(runtime);
+
+        const claims = await Promise.all([
+            first.mark("100", "PROCESSED"),
+            second.mark("100", "PROCESSED"),
+        ]);
+        expect(claims.sort()).toEqual([false, true]);
+
+        await first.unmark("100", "PROCESSED");
+        expect(await second.mark("100", "PROCESSED")).toBe(true);
+    });
+
+    it("should list recent records only from the database", async () => {
+        const withDatabase = new ProcessedTweetStore(
+            createTestRuntime({
+                databaseAdapter: createMemoryDatabaseAdapter(),
+            })
+        );
+        await withDatabase.mark("100", "REPLIED");
+        await withDatabase.mark("200", "PROCESSED");
+        await withDatabase.mark("300", "LIKED");
+
+        const recent = await withDatabase.getRecent({
+            action: ["PROCESSED", "REPLIED"],
+            limit: 5,
+        });
+        expect(recent.map((record) => record.tweetId)).toEqual(["200", "100"]);
+
+        const withCache = new ProcessedTweetStore(createTestRuntime());
+        await withCache.mark("100", "REPLIED");
+        expect(await withCache.getRecent({ limit: 5 })).toEqual([]);
+    });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, it, vi } from "vitest";
+import { embed } from "../src/embedding.ts";
+import elizaLogger from "../src/logger.ts";
+import { RAGKnowledgeManager } from "../src/ragknowledge.ts";
+import {
+    detectScriptureFormat,
+    parseScripture,
+    ScriptureLibrary,
+} from "../src/scripture.ts";
+import { getScriptureBook } from "../src/scriptureBooks.ts";
+import type { RAGKnowledgeItem, ScriptureVerse, UUID } from "../src/types.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+vi.mock("../src/embedding.ts", () => ({
+    embed: vi.fn().mockResolvedValue([0.1, 0.2, 0.3]),
+}));
+
+const osis = `<?xml version="1.0" encoding="UTF-8"?>
+<osis xmlns="http://www.bibletechnologies.net/2003/OSIS/namespace">
+<osisText osisIDWork="ASV" xml:lang="en">
+<header><work osisWork="ASV"><title>American Standard Version</title></work></header>
+<div type="book" osisID="Gen">
+<chapter osisID="Gen.1">
+<title type="chapter">Chapter 1</title>
+<verse sID="Gen.1.1" osisID="Gen.1.1"/>In the beginning God created the heavens and the earth.<verse eID="Gen.1.1"/>
+<verse osisID="Gen.1.2">And the earth was waste<note type="x-footnote">Or, <hi>a waste</hi></note> and void;</verse>
+</chapter>
+</div>
+<div type="book" osisID="John"><chapter osisID="John.11">
+<verse osisID="John.11.35"><w lemma="strong:G3588">Jesus</w> wept &amp; mourned.</verse>
+</chapter></div>
+</osisText>
+</osis>`;
+
+const usfx = `<?xml version="1.0" encoding="utf-8"?>
+<usfx xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<languageCode>eng</languageCode>
+<book id="GEN"><id id="GEN">Bible in Basic English</id><h>Genesis</h>
+<c id="1"/><s>The making of the world</s>
+<p><v id="1"/>At the first God made the heaven and the earth.<ve/>
+<v id="2"/>And the earth was waste<f caller="+">Or, empty</f> and without form;
+</p><p>it was dark on the face of the deep.<ve/></p>
+<c id="2"/><p><v id="1"/>And the heaven and the earth were complete.</p>
+</book>
+</usfx>`;
+
+const zefania = `<?xml version="1.0" encoding="utf-8"?>
+<XMLBIBLE biblename="Bible Kralická" type="x-bible">
+<INFORMATION><title>Bible Kralická</title><language>CZE</language><identifier>CZBKR</identifier></INFORMATION>
+<BIBLEBOOK bnumber="1" bname="Genesis" bsname="Gen">
+<CHAPTER cnumber="1">
+<CAPTION vref="1">Stvoření</CAPTION>
+<VERS vnumber="1">Na počátku stvořil Bůh nebe a zemi.</VERS>
+<VERS vnumber="2">Země pak byla nesličná a pustá,<BR/>a tma byla nad propastí.<NOTE>poznámka</NOTE></VERS>
+</CHAPTER>
+</BIBLEBOOK>
+<BIBLEBOOK bnumber="46" bname="1 Korintským" bsname="1K">
+<CHAPTER cnumber="13"><VERS vnumber="4">Láska trpělivá jest.</VERS></CHAPTER>
+</BIBLEBOOK>
+</XMLBIBLE>`;
+
+const references = (verses: ScriptureVerse[]) =>
+    verses.map(({ book, chapter, verse, text }) => [
+        `${book}.${chapter}.${verse}`,
+        text,
+    ]);
+
+describe("Scripture", () => {
+    it("should find books by OSIS ID, USFM code, name and number", () => {
+        expect(getScriptureBook("1Cor")?.usfm).toBe("1CO");
+        expect(getScriptureBook("JHN")?.id).toBe("John");
+        expect(getScriptureBook("song of solomon")?.id).toBe("Song");
+        expect(getScriptureBook(66)?.id).toBe("Rev");
+        expect(getScriptureBook("SIR")?.testament).toBe("DC");
+        expect(getScriptureBook(67)).toBeUndefined();
+    });
+
+    it("should detect the format of a source", () => {
+        expect(detectScriptureFormat(osis)).toBe("osis");
+        expect(detectScriptureFormat(usfx)).toBe("usfx");
+        expect(detectScriptureFormat(zefania)).toBe("zefania");
+        expect(detectScriptureFormat("<html><body/></html>")).toBeNull();
+        expect(detectScriptureFormat("In the beginning")).toBeNull();
+    });
+
+    it("should parse OSIS milestone and container verses", () => {
+        const { translation, verses } = parseScripture(osis, {
+            path: "bibles/eng-asv.osis.xml",
+        });
+
+        expect(translation).toMatchObject({
+            id: "eng-asv",
+            name: "American Standard Version",
+            language: "eng",
+            format: "osis",
+            verseCount: 3,
+        });
+        expect(references(verses)).toEqual([
+            [
+                "Gen.1.1",
+                "In the beginning God created the heavens and the earth.",
+            ],
+            ["Gen.1.2", "And the earth was waste and void;"],
+            ["John.11.35", "Jesus wept & mourned."],
+        ]);
+    });
+
+    it("should parse USFX verses across paragraphs", () => {
+        const { translation, verses } = parseScripture(usfx);
+
+        expect(translation).toMatchObject({ id: "usfx", language: "eng" });
+        expect(references(verses)).toEqual([
+            ["Gen.1.1", "At the first God made the heaven and the earth."],
+            [
+                "Gen.1.2",
+                "And the earth was waste and without form; it was dark on the face of the deep.",
+            ],
+            ["Gen.2.1", "And the heaven and the earth were complete."],
+        ]);
+        expect(verses[0]).toMatchObject({ translation: "usfx" });
+    });
+
+    it("should parse Zefania verses", () => {
+        const { translation, verses } = parseScripture(zefania, {
+            path: "cze-bkr.zefania.xml",
+        });
+
+        expect(translation).toMatchObject({
+            id: "cze-bkr",
+            name: "Bible Kralická",
+            language: "cze",
+        });
+        expect(references(verses)).toEqual([
+            ["Gen.1.1", "Na počátku stvořil Bůh nebe a zemi."],
+            ["Gen.1.2", "Země pak byla nesličná a pustá, a tma byla nad propastí."],
+            ["1Cor.13.4", "Láska trpělivá jest."],
+        ]);
+    });
+
+    it("should import verses into the database and the RAG knowledge", async () => {
+        let knowledge: RAGKnowledgeItem[] = [];
+        const saveScriptureTranslation = vi.fn();
+        const runtime = createTestRuntime({
+            databaseAdapter: {
+                saveScriptureTranslation,
+                getScriptureVerses: vi.fn(),
+                getKnowledge: async ({ id }: { id: string }) =>
+                    knowledge.filter((item) => item.id === id),
+                createKnowledge: async (item: RAGKnowledgeItem) => {
+                    knowledge.push(item);
+                },
+                removeKnowledge: async (id: string) => {
+                    knowledge = knowledge.filter((item) => item.id !== id);
+                },
+            },
+        });
+        runtime.ragKnowledgeManager = new RAGKnowledgeManager({
+            runtime: runtime as RAGKnowledgeManager["runtime"],
+            tableName: "knowledge",
+            knowledgeRoot: "",
+        });
+        const documentId = runtime.ragKnowledgeManager.generateScopedId(
+            "eng-asv.osis.xml",
+            false
+        );
+        const library = new ScriptureLibrary(runtime);
+
+        const translation = await library.import({
+            path: "eng-asv.osis.xml",
+            content: osis,
+        });
+        expect(translation).toMatchObject({ id: "eng-asv", verseCount: 3 });
+        expect(saveScriptureTranslation).toHaveBeenCalledWith(
+            translation,
+            expect.arrayContaining([
+                expect.objectContaining({ book: "John", chapter: 11, verse: 35 }),
+            ])
+        );
+        expect(knowledge).toHaveLength(4);
+        expect(knowledge[3]).toMatchObject({
+            id: expect.stringContaining(`${documentId}-chunk-`),
+            content: {
+                text: "John 11:35 (eng-asv) Jesus wept & mourned.",
+                metadata: {
+                    originalId: documentId,
+                    reference: "John 11:35",
+                    translation: "eng-asv",
+                },
+            },
+        });
+
+        // Unchanged sources are not imported again
+        expect(
+            await library.import({ path: "eng-asv.osis.xml", content: osis })
+        ).toMatchObject({ id: "eng-asv" });
+        expect(saveScriptureTranslation).toHaveBeenCalledTimes(1);
+
+        // Only the verses that changed are embedded again
+        vi.mocked(embed).mockClear();
+        await library.import({
+            path: "eng-asv.osis.xml",
+            content: osis.replace("wept &amp; mourned", "wept"),
+        });
+        expect(embed).toHaveBeenCalledTimes(1);
+        expect(knowledge.map((item) => item.content.text)).toEqual([
+            "American Standard Version (eng)",
+            "Genesis 1:1 (eng-asv) In the beginning God created the heavens and the earth.",
+            "Genesis 1:2 (eng-asv) And the earth was waste and void;",
+            "John 11:35 (eng-asv) Jesus wept.",
+        ]);
+        expect(runtime.ragKnowledgeManager.getIndexingStatus()).toEqual([
+            expect.objectContaining({
+                path: "eng-asv.osis.xml",
+                state: "indexed",
+                chunks: 3,
+                embedded: 1,
+                removed: 1,
+            }),
+        ]);
+
+        expect(
+            await library.import({ path: "notes.xml", content: "<notes/>" })
+        ).toBeNull();
+    });
+
+    it("should warn once when no translations were imported", async () => {
+        const warn = vi.spyOn(elizaLogger, "warn").mockImplementation(() => {});
+        const library = new ScriptureLibrary(
+            createTestRuntime({
+                agentId: "00000000-0000-0000-0000-000000000002" as UUID,
+                databaseAdapter: {
+                    saveScriptureTranslation: vi.fn(),
+                    getScriptureTranslations: async () => [],
+                    getScriptureVerses: vi.fn(),
+                },
+            })
+        );
+
+        expect(await library.getTranslations()).toEqual([]);
+        expect(await library.getTranslations()).toEqual([]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain(
+            "No Bible translations imported"
+        );
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import { ScriptureLibrary } from "../src/scripture.ts";
+import { getScriptureBook } from "../src/scriptureBooks.ts";
+import {
+    formatScriptureReference,
+    parseScriptureReference,
+    parseScriptureReferences,
+    toOsisReference,
+} from "../src/scriptureReferences.ts";
+import type { ScriptureVerse } from "../src/types.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+const osisReferences = (text: string) =>
+    parseScriptureReferences(text).map(toOsisReference);
+
+describe("Scripture references", () => {
+    it("should find books by abbreviation, numeral and language", () => {
+        expect(getScriptureBook("Jn")?.id).toBe("John");
+        expect(getScriptureBook("II Kings")?.id).toBe("2Kgs");
+        expect(getScriptureBook("First Corinthians")?.id).toBe("1Cor");
+        expect(getScriptureBook("1 Jn")?.id).toBe("1John");
+        expect(getScriptureBook("Apocalipsis")?.id).toBe("Rev");
+        expect(getScriptureBook("Genesis")?.id).toBe("Gen");
+        expect(getScriptureBook("1 Mojžíšova")?.id).toBe("Gen");
+        expect(getScriptureBook("Zjeveni")?.id).toBe("Rev");
+        expect(getScriptureBook("约翰福音")?.id).toBe("John");
+        expect(getScriptureBook("Isa")?.id).toBe("Isa");
+        expect(getScriptureBook("Corinthians")).toBeUndefined();
+    });
+
+    it("should parse verses, ranges and lists", () => {
+        expect(parseScriptureReference("John 3:16")).toEqual({
+            book: "John",
+            chapter: 3,
+            verse: 16,
+        });
+        expect(osisReferences("Jn 3.16-18")).toEqual(["John.3.16-John.3.18"]);
+        expect(osisReferences("1 Cor 13:4–7; 14:1")).toEqual([
+            "1Cor.13.4-1Cor.13.7",
+            "1Cor.14.1",
+        ]);
+        expect(osisReferences("Rom 8:28, 31-39")).toEqual([
+            "Rom.8.28",
+            "Rom.8.31-Rom.8.39",
+        ]);
+        expect(osisReferences("John 3:16-4:2")).toEqual(["John.3.16-John.4.2"]);
+        expect(osisReferences("Genesis 1-2")).toEqual(["Gen.1-Gen.2"]);
+        expect(osisReferences("Jude 3")).toEqual(["Jude.1.3"]);
+    });
+
+    it("should parse Roman numerals and non-English book names", () => {
+        expect(osisReferences("II Kings 2:11")).toEqual(["2Kgs.2.11"]);
+        expect(osisReferences("I Jn 4:8")).toEqual(["1John.4.8"]);
+        expect(osisReferences("Juan 3,16")).toEqual(["John.3.16"]);
+        expect(osisReferences("Salmos 23")).toEqual(["Ps.23"]);
+        expect(osisReferences("1 Korintským 13:4")).toEqual(["1Cor.13.4"]);
+        expect(osisReferences("约翰福音3章16节")).toEqual(["John.3.16"]);
+    });
+
+    it("should find every reference in a text, and nothing else", () => {
+        const text =
+            "Read Romans 8:28, 1 Cor 13:4-7 and ps 23:1. " +
+            "I am 5:30 late, Mark 2 friends is all.";
+
+        expect(parseScriptureReferences(text)).toEqual([
+            expect.objectContaining({ text: "Romans 8:28", index: 5 }),
+            expect.objectContaining({ book: "1Cor", text: "1 Cor 13:4-7" }),
+            expect.objectContaining({ book: "Ps", chapter: 23, verse: 1 }),
+        ]);
+        expect(
+            parseScriptureReferences("See you at 10:30 on John 200")
+        ).toEqual([]);
+    });
+
+    it("should format references", () => {
+        expect(
+            formatScriptureReference({
+                book: "1Cor",
+                chapter: 13,
+                verse: 4,
+                endVerse: 7,
+            })
+        ).toBe("1 Corinthians 13:4-7");
+        expect(
+            formatScriptureReference({
+                book: "John",
+                chapter: 3,
+                verse: 16,
+                endChapter: 4,
+                endVerse: 2,
+            })
+        ).toBe("John 3:16-4:2");
+        expect(
+            formatScriptureReference({ book: "Gen", chapter: 1, endChapter: 2 })
+        ).toBe("Genesis 1-2");
+    });
+
+    it("should resolve references against the verses of a translation", async () => {
+        const verse = (translation: string, chapter: number, number: number) =>
+            ({
+                translation,
+                language: "eng",
+                book: "John",
+                chapter,
+                verse: number,
+                text: `${translation} ${chapter}:${number}`,
+            }) as ScriptureVerse;
+        const getScriptureVerses = vi.fn(async ({ chapter, verseStart }) =>
+            [
+                verse("eng-asv", chapter, verseStart ?? 1),
+                verse("eng-kjv", chapter, verseStart ?? 1),
+            ]
+        );
+        const runtime = createTestRuntime({
+            databaseAdapter: {
+                saveScriptureTranslation: vi.fn(),
+                getScriptureVerses,
+            },
+        });
+        const library = new ScriptureLibrary(runtime);
+
+        expect(
+            (await library.resolve("John 3:36-4:1")).map(({ text }) => text)
+        ).toEqual(["eng-asv 3:36", "eng-asv 4:1"]);
+        expect(getScriptureVerses).toHaveBeenNthCalledWith(1, {
+            book: "John",
+            chapter: 3,
+            verseStart: 36,
+            verseEnd: undefined,
+        });
+        expect(getScriptureVerses).toHaveBeenNthCalledWith(2, {
+            translation: "eng-asv",
+            book: "John",
+            chapter: 4,
+            verseStart: undefined,
+            verseEnd: 1,
+        });
+
+        await library.resolve(
+            { book: "John", chapter: 3, verse: 16 },
+            { translation: "eng-kjv" }
+        );
+        expect(getScriptureVerses).toHaveBeenLastCalledWith({
+            translation: "eng-kjv",
+            book: "John",
+            chapter: 3,
+            verseStart: 16,
+            verseEnd: 16,
+        });
+        expect(await library.resolve("nothing to see")).toEqual([]);
+    });
+});
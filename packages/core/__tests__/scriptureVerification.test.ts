@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ScriptureVerifier } from "../src/scriptureVerification.ts";
+import type {
+    IAgentRuntime,
+    IRAGKnowledgeManager,
+    RAGKnowledgeItem,
+    ScriptureVerse,
+} from "../src/types.ts";
+import {
+    createMemoryDatabaseAdapter,
+    createTestRuntime,
+} from "./testRuntime.ts";
+
+const verse = (
+    translation: string,
+    book: string,
+    chapter: number,
+    number: number,
+    text: string,
+    language = "eng"
+): ScriptureVerse => ({
+    translation,
+    language,
+    book,
+    chapter,
+    verse: number,
+    text,
+});
+
+const verses = [
+    verse(
+        "eng-asv",
+        "John",
+        3,
+        16,
+        "For God so loved the world, that he gave his only begotten Son, that whosoever believeth on him should not perish, but have eternal life."
+    ),
+    verse(
+        "eng-kjv",
+        "John",
+        3,
+        16,
+        "For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life."
+    ),
+    verse("eng-kjv", "John", 11, 35, "Jesus wept."),
+    verse(
+        "spa-rv1909",
+        "John",
+        3,
+        16,
+        "Porque de tal manera amó Dios al mundo, que ha dado á su Hijo unigénito, para que todo aquel que en él cree, no se pierda, mas tenga vida eterna.",
+        "spa"
+    ),
+    verse(
+        "eng-kjv",
+        "Phil",
+        4,
+        13,
+        "I can do all things through Christ which strengtheneth me."
+    ),
+];
+
+describe("ScriptureVerifier", () => {
+    let runtime: IAgentRuntime;
+    let settings: Record<string, string>;
+
+    beforeEach(() => {
+        settings = {};
+        runtime = createTestRuntime({
+            settings,
+            databaseAdapter: {
+                saveScriptureTranslation: vi.fn(),
+                getScriptureTranslations: async () =>
+                    [
+                        ...new Map(
+                            verses.map(({ translation, language }) => [
+                                translation,
+                                { id: translation, language },
+                            ])
+                        ).values(),
+                    ],
+                getScriptureVerses: async (params: {
+                    translation?: string;
+                    book: string;
+                    chapter: number;
+                    verseStart?: number;
+                    verseEnd?: number;
+                }) =>
+                    verses.filter(
+                        (verse) =>
+                            verse.book === params.book &&
+                            verse.chapter === params.chapter &&
+                            (!params.translation ||
+                                verse.translation === params.translation) &&
+                            verse.verse >= (params.verseStart ?? 0) &&
+                            verse.verse <= (params.verseEnd ?? 200)
+                    ),
+            },
+            ragKnowledgeManager: {
+                getKnowledge: async ({ query }: { query: string }) =>
+                    verses
+                        .filter(({ text }) =>
+                            text.startsWith(query.split(" ")[0])
+                        )
+                        .map(
+                            (verse) =>
+                                ({
+                                    content: {
+                                        text: verse.text,
+                                        metadata: {
+                                            type: "scripture",
+                                            isChunk: true,
+                                            ...verse,
+                                        },
+                                    },
+                                }) as unknown as RAGKnowledgeItem
+                        ),
+            } as IRAGKnowledgeManager,
+        });
+    });
+
+    it("should pass verbatim quotes in any translation", async () => {
+        const verification = await new ScriptureVerifier(runtime).verify(
+            'God is love: "For God so loved the world, that he gave his only begotten Son" (John 3:16)'
+        );
+
+        expect(verification.outcome).toBe("PASSED");
+        expect(verification.checks).toEqual([
+            expect.objectContaining({
+                status: "VERIFIED",
+                reference: "John 3:16",
+                osisRef: "John.3.16",
+            }),
+        ]);
+    });
+
+    it("should swap in the verbatim text of the chosen translation", async () => {
+        settings.SCRIPTURE_TRANSLATION = "eng-kjv";
+        const verification = await new ScriptureVerifier(runtime).verify(
+            '"For God so loved the world that he gave his one and only Son" — John 3:16'
+        );
+
+        expect(verification.outcome).toBe("CORRECTED");
+        expect(verification.text).toBe(`"${verses[1].text}" — John 3:16`);
+        expect(verification.checks[0]).toMatchObject({
+            status: "TEXT_REPLACED",
+            similarity: 12 / 14,
+        });
+    });
+
+    it("should swap in the text of a translation in the draft's language", async () => {
+        settings.SCRIPTURE_TRANSLATION = "eng-kjv";
+        const verification = await new ScriptureVerifier(runtime, {
+            language: "es",
+        }).verify(
+            '"Porque de tal manera amó Dios al mundo, que dio a su Hijo unigénito" (Juan 3:16)'
+        );
+
+        expect(verification.outcome).toBe("CORRECTED");
+        expect(verification.text).toBe(`"${verses[3].text}" (Juan 3:16)`);
+        expect(verification.checks[0]).toMatchObject({
+            status: "TEXT_REPLACED",
+            translation: "spa-rv1909",
+        });
+    });
+
+    it("should correct the reference of misattributed quotes", async () => {
+        const verification = await new ScriptureVerifier(runtime).verify(
+            'As John 3:16 says, "I can do all things through Christ which strengtheneth me."'
+        );
+
+        expect(verification.outcome).toBe("CORRECTED");
+        expect(verification.text).toBe(
+            'As Philippians 4:13 says, "I can do all things through Christ which strengtheneth me."'
+        );
+        expect(verification.checks[0]).toMatchObject({
+            status: "REFERENCE_CORRECTED",
+            osisRef: "Phil.4.13",
+            replacement: "Philippians 4:13",
+        });
+    });
+
+    it("should reject fabricated quotes and references", async () => {
+        const verifier = new ScriptureVerifier(runtime);
+        const misquoted = await verifier.verify(
+            'John 11:35: "The Lord helps those who help themselves"'
+        );
+        expect(misquoted.outcome).toBe("REJECTED");
+        expect(misquoted.checks[0].status).toBe("MISQUOTED");
+        expect(misquoted.feedback).toContain(
+            '"The Lord helps those who help themselves" is not what John 11:35 says.'
+        );
+
+        const unknown = await verifier.verify("Read Hezekiah 3:16 today");
+        expect(unknown.outcome).toBe("PASSED");
+        const invented = await verifier.verify("Read John 40:2 today");
+        expect(invented).toMatchObject({
+            outcome: "REJECTED",
+            checks: [{ status: "UNKNOWN_REFERENCE", reference: "John 40:2" }],
+        });
+
+        settings.SCRIPTURE_VERIFICATION = "strict";
+        const strict = await new ScriptureVerifier(runtime).verify(
+            '"For God so loved the world that he gave his one and only Son" — John 3:16'
+        );
+        expect(strict.outcome).toBe("REJECTED");
+        expect(strict.text).toBe(strict.draft);
+    });
+
+    it("should generate drafts again with feedback, and keep the verification", async () => {
+        const verifier = new ScriptureVerifier(runtime);
+        const generate = vi
+            .fn()
+            .mockResolvedValueOnce(
+                '"Cleanliness is next to godliness" (John 11:35)'
+            )
+            .mockResolvedValueOnce('"Jesus wept." John 11:35');
+
+        const verification = await verifier.generate(generate);
+        expect(verification).toMatchObject({ outcome: "PASSED", attempts: 2 });
+        expect(generate).toHaveBeenNthCalledWith(1, undefined);
+        expect(generate.mock.calls[1][0]).toContain(
+            "The previous draft was rejected"
+        );
+
+        await verifier.record("1234", verification!, "twitter:reply");
+        expect(await verifier.getRecord("1234")).toMatchObject({
+            tweetId: "1234",
+            source: "twitter:reply",
+            outcome: "PASSED",
+        });
+    });
+
+    it("should skip drafts without verses to check against", async () => {
+        settings.SCRIPTURE_VERIFICATION = "off";
+        const verifier = new ScriptureVerifier(runtime);
+        const verification = await verifier.verify("Read John 40:2 today");
+
+        expect(verification.outcome).toBe("SKIPPED");
+        await verifier.record("1234", verification, "twitter:post");
+        expect(await verifier.getRecord("1234")).toMatchObject({
+            outcome: "SKIPPED",
+            checks: [],
+        });
+    });
+
+    it("should keep verifications in the database when the adapter supports it", async () => {
+        const records = Object.assign(
+            runtime.databaseAdapter,
+            createMemoryDatabaseAdapter()
+        ).scriptureVerifications;
+        const verifier = new ScriptureVerifier(runtime);
+        const verification = await verifier.verify('"Jesus wept." John 11:35');
+
+        await verifier.record("1234", verification, "twitter:post");
+
+        expect(records.get("1234")).toMatchObject({
+            agentId: runtime.agentId,
+            source: "twitter:post",
+            outcome: "PASSED",
+        });
+        expect(await verifier.getRecord("1234")).toBe(records.get("1234"));
+        expect(await runtime.cacheManager.get("scripture/verifications/1234")).toBeUndefined();
+    });
+});
@@ -0,0 +1,158 @@
+import { CacheManager, MemoryCacheAdapter } from "../src/cache.ts";
+import type {
+    Character,
+    IAgentRuntime,
+    IDatabaseProcessedTweetAdapter,
+    IDatabaseScheduledPostAdapter,
+    IDatabaseScriptureVerificationAdapter,
+    IDatabaseTweetDecisionAdapter,
+    ProcessedTweet,
+    ScheduledPost,
+    ScriptureVerificationRecord,
+    TweetDecisionRecord,
+    UUID,
+} from "../src/types.ts";
+
+export const testAgentId = "00000000-0000-0000-0000-000000000001" as UUID;
+
+export type TestRuntimeOverrides = Omit<
+    Partial<IAgentRuntime>,
+    "character" | "databaseAdapter"
+> & {
+    character?: Partial<Character>;
+    /** Only the adapter methods the code under test calls */
+    databaseAdapter?: object;
+    /** Read by `getSetting` */
+    settings?: Record<string, string>;
+};
+
+/**
+ * Builds the part of a runtime most core modules use: the agent id, a named
+ * character, an in-memory cache, settings and an empty database adapter.
+ * Anything else the code under test reads is passed in `overrides`.
+ */
+export function createTestRuntime({
+    character,
+    settings = {},
+    ...overrides
+}: TestRuntimeOverrides = {}): IAgentRuntime {
+    return {
+        agentId: testAgentId,
+        character: { name: "Test Agent", ...character },
+        cacheManager: new CacheManager(new MemoryCacheAdapter()),
+        databaseAdapter: {},
+        getSetting: (key: string) => settings[key] ?? null,
+        ...overrides,
+    } as IAgentRuntime;
+}
+
+export type MemoryDatabaseAdapter = IDatabaseScheduledPostAdapter &
+    IDatabaseProcessedTweetAdapter &
+    IDatabaseTweetDecisionAdapter &
+    IDatabaseScriptureVerificationAdapter & {
+        posts: Map<string, ScheduledPost>;
+        processedTweets: ProcessedTweet[];
+        tweetDecisions: TweetDecisionRecord[];
+        scriptureVerifications: Map<string, ScriptureVerificationRecord>;
+    };
+
+/**
+ * An in-memory stand-in for the database tables of the Twitter features,
+ * keeping rows the way the SQL adapters return them. Rows are exposed so
+ * tests can look at what was written.
+ */
+export function createMemoryDatabaseAdapter(): MemoryDatabaseAdapter {
+    const posts = new Map<string, ScheduledPost>();
+    const processedTweets: ProcessedTweet[] = [];
+    const tweetDecisions: TweetDecisionRecord[] = [];
+    const scriptureVerifications = new Map<
+        string,
+        ScriptureVerificationRecord
+    >();
+    const toArray = <T>(value: T | T[] | undefined): T[] | null =>
+        value ? (Array.isArray(value) ? value : [value]) : null;
+
+    return {
+        posts,
+        processedTweets,
+        tweetDecisions,
+        scriptureVerifications,
+
+        createScheduledPost: async (post) => {
+            posts.set(post.id, { ...post });
+        },
+        getScheduledPostById: async (id) => posts.get(id) ?? null,
+        getScheduledPosts: async ({ status, from, to, limit }) => {
+            const statuses = toArray(status);
+            return Array.from(posts.values())
+                .filter(
+                    (post) =>
+                        (!statuses || statuses.includes(post.status)) &&
+                        (from === undefined || post.scheduledFor >= from) &&
+                        (to === undefined || post.scheduledFor <= to)
+                )
+                .sort((a, b) => a.scheduledFor - b.scheduledFor)
+                .slice(0, limit);
+        },
+        updateScheduledPost: async ({ id, ...changes }) => {
+            const post = posts.get(id);
+            const defined = Object.fromEntries(
+                Object.entries(changes).filter(
+                    ([, value]) => value !== undefined
+                )
+            );
+            posts.set(id, { ...post, ...defined });
+        },
+
+        addProcessedTweet: async (record) => {
+            if (
+                processedTweets.some(
+                    (existing) =>
+                        existing.tweetId === record.tweetId &&
+                        existing.action === record.action
+                )
+            ) {
+                return false;
+            }
+            processedTweets.unshift(record);
+            return true;
+        },
+        getProcessedTweets: async ({ tweetId, action, limit }) => {
+            const actions = toArray(action);
+            return processedTweets
+                .filter(
+                    (record) =>
+                        (!tweetId || record.tweetId === tweetId) &&
+                        (!actions || actions.includes(record.action))
+                )
+                .slice(0, limit);
+        },
+        removeProcessedTweet: async ({ tweetId, action }) => {
+            const index = processedTweets.findIndex(
+                (record) =>
+                    record.tweetId === tweetId && record.action === action
+            );
+            if (index >= 0) processedTweets.splice(index, 1);
+        },
+
+        addTweetDecision: async (record) => {
+            tweetDecisions.push(record);
+        },
+        getTweetDecisions: async ({ account, tweetId, since, limit }) =>
+            tweetDecisions
+                .filter(
+                    (record) =>
+                        (!account || record.account === account) &&
+                        (!tweetId || record.tweetId === tweetId) &&
+                        (!since || record.createdAt >= since)
+                )
+                .sort((a, b) => b.createdAt - a.createdAt)
+                .slice(0, limit),
+
+        addScriptureVerification: async (record) => {
+            scriptureVerifications.set(record.tweetId, record);
+        },
+        getScriptureVerification: async ({ tweetId }) =>
+            scriptureVerifications.get(tweetId) ?? null,
+    };
+}
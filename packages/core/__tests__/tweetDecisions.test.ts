@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { TweetDecisionLog } from "../src/tweetDecisions.ts";
+import type {
+    TweetActionDecision,
+    TweetDecisionRecord,
+    UUID,
+} from "../src/types.ts";
+import {
+    createMemoryDatabaseAdapter,
+    createTestRuntime,
+    testAgentId,
+} from "./testRuntime.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function decision(
+    tweetId: string,
+    createdAt: number,
+    decisions: TweetActionDecision[],
+    account = "agent"
+): TweetDecisionRecord {
+    return {
+        id: `00000000-0000-0000-0000-00000000000${tweetId}` as UUID,
+        agentId: testAgentId,
+        account,
+        tweetId,
+        decisions,
+        createdAt,
+    };
+}
+
+describe("TweetDecisionLog", () => {
+    it.each([
+        [
+            "database adapter",
+            () =>
+                createTestRuntime({
+                    databaseAdapter: createMemoryDatabaseAdapter(),
+                }),
+        ],
+        ["runtime cache", () => createTestRuntime()],
+    ])("should keep decisions newest first with a %s", async (_, create) => {
+        const log = new TweetDecisionLog(create());
+        const now = Date.now();
+
+        await log.record(decision("1", now - 30 * HOUR_MS, []));
+        await log.record(decision("2", now - 2 * HOUR_MS, []));
+        await log.record(decision("3", now - HOUR_MS, [], "other"));
+
+        expect((await log.getRecent()).map(({ tweetId }) => tweetId)).toEqual([
+            "3",
+            "2",
+            "1",
+        ]);
+        expect(
+            (await log.getRecent({ account: "agent", limit: 1 })).map(
+                ({ tweetId }) => tweetId
+            )
+        ).toEqual(["2"]);
+        expect(await log.getRecent({ tweetId: "1" })).toHaveLength(1);
+    });
+
+    it("should count the actions taken in the last day", async () => {
+        const log = new TweetDecisionLog(createTestRuntime());
+        const now = Date.now();
+        const like = (outcome: TweetActionDecision["outcome"]) => ({
+            action: "LIKE" as const,
+            confidence: 0.9,
+            rationale: "On topic",
+            outcome,
+        });
+
+        await log.record(decision("1", now - 25 * HOUR_MS, [like("TAKEN")]));
+        await log.record(
+            decision("2", now - HOUR_MS, [
+                like("TAKEN"),
+                {
+                    action: "REPLY",
+                    confidence: 0.95,
+                    rationale: "A question for the agent",
+                    outcome: "DRY_RUN",
+                },
+            ])
+        );
+        await log.record(decision("3", now, [like("BELOW_CONFIDENCE")]));
+        await log.record(decision("4", now, [like("TAKEN")], "other"));
+
+        expect(await log.countTaken("agent", now)).toEqual({
+            LIKE: 1,
+            RETWEET: 0,
+            QUOTE: 0,
+            REPLY: 1,
+        });
+    });
+});
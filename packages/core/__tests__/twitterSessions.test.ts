@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    registerTwitterSession,
+    TWITTER_SESSIONS,
+    TwitterSessionRegistry,
+    TwitterSessionVault,
+} from "../src/twitterSessions.ts";
+import type { CapabilityKey, TwitterSessionClient } from "../src/types.ts";
+import { createTestRuntime } from "./testRuntime.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A scraper whose session cookie expires `lifetimeMs` after logging in
+function createClient(lifetimeMs = 30 * DAY_MS) {
+    let cookies: { key: string; value: string; expires?: string }[] = [];
+    let valid = false;
+    let logins = 0;
+    const client = {
+        failLogins: false,
+        get logins() {
+            return logins;
+        },
+        invalidate() {
+            valid = false;
+        },
+        isLoggedIn: async () =>
+            valid && cookies.some((cookie) => cookie.key === "auth_token"),
+        login: async (username: string) => {
+            logins++;
+            if (client.failLogins) {
+                throw new Error("Wrong password");
+            }
+            valid = true;
+            cookies = [
+                {
+                    key: "auth_token",
+                    value: `token-${username}-${logins}`,
+                    expires: new Date(Date.now() + lifetimeMs).toISOString(),
+                },
+            ];
+        },
+        getCookies: async () => cookies,
+        setCookies: async (strings: string[]) => {
+            valid = true;
+            cookies = strings.map((string) => {
+                const [pair, ...attributes] = string.split("; ");
+                const [key, value] = pair.split("=");
+                const expires = attributes
+                    .find((attribute) => attribute.startsWith("Expires="))
+                    ?.slice("Expires=".length);
+                return {
+                    key,
+                    value,
+                    expires: expires && new Date(expires).toISOString(),
+                };
+            });
+        },
+    };
+    return client satisfies TwitterSessionClient;
+}
+
+function createRuntime(settings: Record<string, string> = {}) {
+    const capabilities = new Map<string, unknown>();
+    const runtime = createTestRuntime({
+        settings,
+        getCapability: <T>({ name }: CapabilityKey<T>) =>
+            (capabilities.get(name) as T) ?? null,
+        registerCapability: ({ name }, value) => {
+            capabilities.set(name, value);
+        },
+    });
+    return { runtime, cache: runtime.cacheManager };
+}
+
+const credentials = { username: "agent", password: "secret" };
+
+describe("TwitterSessionVault", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should store cookies encrypted and restore them without logging in", async () => {
+        const { runtime, cache } = createRuntime({
+            TWITTER_SESSION_SECRET: "vault-key",
+        });
+        const client = createClient();
+        const vault = new TwitterSessionVault(runtime, client, credentials);
+
+        await vault.ensureSession();
+        expect(client.logins).toBe(1);
+        expect(vault.getStatus()).toMatchObject({
+            state: "ACTIVE",
+            encrypted: true,
+            loginAttempts: 1,
+        });
+
+        const stored = await cache.get("twitter/agent/cookies");
+        expect(stored).toMatchObject({ version: 1 });
+        expect(JSON.stringify(stored)).not.toContain("token-agent-1");
+
+        const restarted = createClient();
+        await new TwitterSessionVault(
+            runtime,
+            restarted,
+            credentials
+        ).ensureSession();
+        expect(restarted.logins).toBe(0);
+        expect((await restarted.getCookies())[0].value).toBe("token-agent-1");
+    });
+
+    it("should not restore cookies encrypted with another secret", async () => {
+        const saved = createRuntime({ TWITTER_SESSION_SECRET: "vault-key" });
+        await new TwitterSessionVault(
+            saved.runtime,
+            createClient(),
+            credentials
+        ).ensureSession();
+
+        const { runtime, cache } = createRuntime({
+            TWITTER_SESSION_SECRET: "other-key",
+        });
+        await cache.set(
+            "twitter/agent/cookies",
+            await saved.cache.get("twitter/agent/cookies")
+        );
+        const vault = new TwitterSessionVault(
+            runtime,
+            createClient(),
+            credentials
+        );
+        expect(await vault.restore()).toBe(false);
+    });
+
+    it("should read cookies stored unencrypted", async () => {
+        const { runtime, cache } = createRuntime({
+            TWITTER_SESSION_SECRET: "vault-key",
+        });
+        await cache.set("twitter/agent/cookies", [
+            { key: "auth_token", value: "legacy" },
+        ]);
+        const client = createClient();
+
+        await new TwitterSessionVault(runtime, client, credentials).ensureSession();
+
+        expect(client.logins).toBe(0);
+        expect((await client.getCookies())[0].value).toBe("legacy");
+    });
+
+    it("should refresh sessions before they expire and once invalidated", async () => {
+        const { runtime } = createRuntime();
+        const client = createClient(4.5 * DAY_MS);
+        const vault = new TwitterSessionVault(runtime, client, credentials, {
+            checkIntervalMs: DAY_MS,
+            maxLoginAttempts: 10,
+        });
+        await vault.ensureSession();
+        vault.startMonitoring();
+
+        await vi.advanceTimersByTimeAsync(DAY_MS);
+        expect(client.logins).toBe(1);
+
+        // Within 3 days of expiring
+        await vi.advanceTimersByTimeAsync(DAY_MS);
+        expect(client.logins).toBe(2);
+
+        client.invalidate();
+        await vi.advanceTimersByTimeAsync(DAY_MS);
+        expect(client.logins).toBe(3);
+        expect(vault.getStatus().state).toBe("ACTIVE");
+
+        vault.stop();
+    });
+
+    it("should pause logging in after too many attempts", async () => {
+        const { runtime } = createRuntime();
+        const client = createClient();
+        client.failLogins = true;
+        const vault = new TwitterSessionVault(runtime, client, credentials);
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await expect(vault.ensureSession()).rejects.toThrow(
+                "Wrong password"
+            );
+        }
+        await expect(vault.ensureSession()).rejects.toThrow(
+            "Login attempts for @agent are paused"
+        );
+        expect(client.logins).toBe(3);
+        expect(vault.getStatus()).toMatchObject({
+            state: "THROTTLED",
+            loginAttempts: 3,
+            nextLoginAt: Date.now() + 60 * 60 * 1000,
+        });
+
+        // Attempts are counted across restarts
+        await expect(
+            new TwitterSessionVault(runtime, client, credentials).ensureSession()
+        ).rejects.toThrow("paused");
+
+        vi.advanceTimersByTime(60 * 60 * 1000);
+        client.failLogins = false;
+        await vault.ensureSession();
+        expect(vault.getStatus().state).toBe("ACTIVE");
+    });
+});
+
+describe("TwitterSessionRegistry", () => {
+    it("should report the session of each registered account", () => {
+        const { runtime } = createRuntime();
+        registerTwitterSession(
+            runtime,
+            new TwitterSessionVault(runtime, createClient(), credentials)
+        );
+        registerTwitterSession(
+            runtime,
+            new TwitterSessionVault(runtime, createClient(), {
+                username: "support",
+            })
+        );
+
+        const registry = runtime.getCapability(TWITTER_SESSIONS);
+        expect(registry).toBeInstanceOf(TwitterSessionRegistry);
+        expect(registry.getStatuses()).toEqual([
+            expect.objectContaining({ username: "agent", state: "UNKNOWN" }),
+            expect.objectContaining({ username: "support", state: "UNKNOWN" }),
+        ]);
+    });
+});
@@ -0,0 +1,27 @@
+import type { CapabilityKey, CapabilityLifecycle } from "./types.ts";
+
+/**
+ * Creates the key a capability is registered and looked up with. Define it
+ * once, next to the capability's interface, and import it on both sides:
+ *
+ * ```ts
+ * export const EMBEDDING = defineCapability<EmbeddingCapability>("embedding");
+ * runtime.registerCapability(EMBEDDING, new EmbeddingService());
+ * const embedding = runtime.requireCapability(EMBEDDING);
+ * ```
+ */
+export function defineCapability<T>(name: string): CapabilityKey<T> {
+    return Object.freeze({ name });
+}
+
+export function hasCapabilityLifecycle(
+    implementation: unknown
+): implementation is CapabilityLifecycle {
+    return (
+        typeof implementation === "object" &&
+        implementation !== null &&
+        (typeof (implementation as CapabilityLifecycle).initialize ===
+            "function" ||
+            typeof (implementation as CapabilityLifecycle).stop === "function")
+    );
+}
@@ -9,6 +9,12 @@ import type {
     RAGKnowledgeItem,
     Participant,
     IDatabaseAdapter,
+    IDatabaseApprovalAdapter,
+    IDatabaseProcessedTweetAdapter,
+    IDatabaseScheduledPostAdapter,
+    IDatabaseScriptureAdapter,
+    IDatabaseScriptureVerificationAdapter,
+    IDatabaseTweetDecisionAdapter,
 } from "./types.ts";
 import { CircuitBreaker } from "./database/CircuitBreaker.ts";
 import { elizaLogger } from "./logger.ts";
@@ -458,3 +464,99 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
         }
     }
 }
+
+/**
+ * Checks whether a database adapter implements the optional approval queue methods.
+ */
+export function isDatabaseApprovalAdapter(
+    adapter: unknown
+): adapter is IDatabaseApprovalAdapter {
+    return (
+        typeof adapter === "object" &&
+        adapter !== null &&
+        typeof (adapter as IDatabaseApprovalAdapter).createApproval ===
+            "function" &&
+        typeof (adapter as IDatabaseApprovalAdapter).getApprovals ===
+            "function"
+    );
+}
+
+/**
+ * Checks whether a database adapter implements the optional posting calendar methods.
+ */
+export function isDatabaseScheduledPostAdapter(
+    adapter: unknown
+): adapter is IDatabaseScheduledPostAdapter {
+    return (
+        typeof adapter === "object" &&
+        adapter !== null &&
+        typeof (adapter as IDatabaseScheduledPostAdapter)
+            .createScheduledPost === "function" &&
+        typeof (adapter as IDatabaseScheduledPostAdapter).getScheduledPosts ===
+            "function"
+    );
+}
+
+/**
+ * Checks whether a database adapter implements the optional processed tweet methods.
+ */
+export function isDatabaseProcessedTweetAdapter(
+    adapter: unknown
+): adapter is IDatabaseProcessedTweetAdapter {
+    return (
+        typeof adapter === "object" &&
+        adapter !== null &&
+        typeof (adapter as IDatabaseProcessedTweetAdapter)
+            .addProcessedTweet === "function" &&
+        typeof (adapter as IDatabaseProcessedTweetAdapter)
+            .getProcessedTweets === "function"
+    );
+}
+
+/**
+ * Checks whether a database adapter implements the optional tweet decision methods.
+ */
+export function isDatabaseTweetDecisionAdapter(
+    adapter: unknown
+): adapter is IDatabaseTweetDecisionAdapter {
+    return (
+        typeof adapter === "object" &&
+        adapter !== null &&
+        typeof (adapter as IDatabaseTweetDecisionAdapter).addTweetDecision ===
+            "function" &&
+        typeof (adapter as IDatabaseTweetDecisionAdapter).getTweetDecisions ===
+            "function"
+    );
+}
+
+/**
+ * Checks whether a database adapter implements the optional scripture methods.
+ */
+export function isDatabaseScriptureAdapter(
+    adapter: unknown
+): adapter is IDatabaseScriptureAdapter {
+    return (
+        typeof adapter === "object" &&
+        adapter !== null &&
+        typeof (adapter as IDatabaseScriptureAdapter)
+            .saveScriptureTranslation === "function" &&
+        typeof (adapter as IDatabaseScriptureAdapter).getScriptureVerses ===
+            "function"
+    );
+}
+
+/**
+ * Checks whether a database adapter implements the optional scripture verification methods.
+ */
+export function isDatabaseScriptureVerificationAdapter(
+    adapter: unknown
+): adapter is IDatabaseScriptureVerificationAdapter {
+    return (
+        typeof adapter === "object" &&
+        adapter !== null &&
+        typeof (adapter as IDatabaseScriptureVerificationAdapter)
+            .addScriptureVerification === "function" &&
+        typeof (adapter as IDatabaseScriptureVerificationAdapter)
+            .getScriptureVerification === "function"
+    );
+}
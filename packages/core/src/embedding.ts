@@ -2,7 +2,6 @@ import { getEmbeddingModelSettings, getEndpoint } from "./models.ts";
 import { type IAgentRuntime, ModelProviderName } from "./types.ts";
 import settings from "./settings.ts";
 import elizaLogger from "./logger.ts";
-import LocalEmbeddingModelManager from "./localembeddingManager.ts";
 import { IAgentRuntime as CoreIAgentRuntime } from '@elizaos/core';
 
 interface EmbeddingOptions {
@@ -32,40 +31,125 @@ export type EmbeddingConfig = {
     readonly provider: EmbeddingProviderType;
 };
 
-export const getEmbeddingConfig = (): EmbeddingConfig => ({
-    dimensions:
-        settings.USE_OPENAI_EMBEDDING?.toLowerCase() === "true"
-            ? getEmbeddingModelSettings(ModelProviderName.OPENAI).dimensions
-            : settings.USE_OLLAMA_EMBEDDING?.toLowerCase() === "true"
-              ? getEmbeddingModelSettings(ModelProviderName.OLLAMA).dimensions
-              : settings.USE_GAIANET_EMBEDDING?.toLowerCase() === "true"
-                ? getEmbeddingModelSettings(ModelProviderName.GAIANET)
-                      .dimensions
-                : settings.USE_HEURIST_EMBEDDING?.toLowerCase() === "true"
-                  ? getEmbeddingModelSettings(ModelProviderName.HEURIST)
-                        .dimensions
-                  : 384, // BGE
-    model:
-        settings.USE_OPENAI_EMBEDDING?.toLowerCase() === "true"
-            ? getEmbeddingModelSettings(ModelProviderName.OPENAI).name
-            : settings.USE_OLLAMA_EMBEDDING?.toLowerCase() === "true"
-              ? getEmbeddingModelSettings(ModelProviderName.OLLAMA).name
-              : settings.USE_GAIANET_EMBEDDING?.toLowerCase() === "true"
-                ? getEmbeddingModelSettings(ModelProviderName.GAIANET).name
-                : settings.USE_HEURIST_EMBEDDING?.toLowerCase() === "true"
-                  ? getEmbeddingModelSettings(ModelProviderName.HEURIST).name
-                  : "BGE-small-en-v1.5",
-    provider:
-        settings.USE_OPENAI_EMBEDDING?.toLowerCase() === "true"
-            ? "OpenAI"
-            : settings.USE_OLLAMA_EMBEDDING?.toLowerCase() === "true"
-              ? "Ollama"
-              : settings.USE_GAIANET_EMBEDDING?.toLowerCase() === "true"
-                ? "GaiaNet"
-                : settings.USE_HEURIST_EMBEDDING?.toLowerCase() === "true"
-                  ? "Heurist"
-                  : "BGE",
-});
+/**
+ * Native vector size of the embedding models we know, and for models trained
+ * with Matryoshka representation learning, the smaller sizes their vectors
+ * can be truncated to. Other models are stored at their native size only.
+ */
+export const EMBEDDING_MODELS: Record<
+    string,
+    { dimensions: number; truncatable?: readonly number[] }
+> = {
+    "BGE-small-en-v1.5": { dimensions: 384 },
+    "BAAI/bge-large-en-v1.5": { dimensions: 1024 },
+    "text-embedding-3-small": {
+        dimensions: 1536,
+        truncatable: [1024, 768, 512, 384, 256],
+    },
+    "text-embedding-3-large": {
+        dimensions: 3072,
+        truncatable: [1536, 1024, 768, 512, 384, 256],
+    },
+    "text-embedding-004": { dimensions: 768, truncatable: [512, 256] },
+    "mxbai-embed-large": { dimensions: 1024, truncatable: [512, 256] },
+    "nomic-embed": { dimensions: 768, truncatable: [512, 256, 128, 64] },
+    "nomic-embed-text": { dimensions: 768, truncatable: [512, 256, 128, 64] },
+};
+
+function getEmbeddingProvider(): EmbeddingProviderType {
+    if (settings.USE_OPENAI_EMBEDDING?.toLowerCase() === "true") {
+        return EmbeddingProvider.OpenAI;
+    }
+    if (settings.USE_OLLAMA_EMBEDDING?.toLowerCase() === "true") {
+        return EmbeddingProvider.Ollama;
+    }
+    if (settings.USE_GAIANET_EMBEDDING?.toLowerCase() === "true") {
+        return EmbeddingProvider.GaiaNet;
+    }
+    if (settings.USE_HEURIST_EMBEDDING?.toLowerCase() === "true") {
+        return EmbeddingProvider.Heurist;
+    }
+    return EmbeddingProvider.BGE;
+}
+
+const EMBEDDING_MODEL_PROVIDERS: Partial<
+    Record<EmbeddingProviderType, ModelProviderName>
+> = {
+    [EmbeddingProvider.OpenAI]: ModelProviderName.OPENAI,
+    [EmbeddingProvider.Ollama]: ModelProviderName.OLLAMA,
+    [EmbeddingProvider.GaiaNet]: ModelProviderName.GAIANET,
+    [EmbeddingProvider.Heurist]: ModelProviderName.HEURIST,
+};
+
+/**
+ * Size of the vectors the given model produces.
+ */
+export function getNativeEmbeddingDimensions(
+    provider: EmbeddingProviderType,
+    model: string
+): number {
+    const modelProvider = EMBEDDING_MODEL_PROVIDERS[provider];
+    return (
+        (modelProvider &&
+            getEmbeddingModelSettings(modelProvider)?.dimensions) ??
+        EMBEDDING_MODELS[model]?.dimensions ??
+        384
+    );
+}
+
+/**
+ * Whether vectors of the model can be truncated to `dimensions` and still be
+ * compared with each other.
+ */
+export function canTruncateEmbedding(model: string, dimensions: number): boolean {
+    return EMBEDDING_MODELS[model]?.truncatable?.includes(dimensions) ?? false;
+}
+
+/**
+ * Embedding model and vector size from the USE_*_EMBEDDING settings.
+ * EMBEDDING_DIMENSIONS truncates vectors to a smaller size, but only for models
+ * that support it; otherwise it is ignored and vectors keep their native size.
+ */
+export const getEmbeddingConfig = (): EmbeddingConfig => {
+    const provider = getEmbeddingProvider();
+    const modelProvider = EMBEDDING_MODEL_PROVIDERS[provider];
+    const model =
+        (modelProvider && getEmbeddingModelSettings(modelProvider)?.name) ??
+        "BGE-small-en-v1.5";
+    const nativeDimensions = getNativeEmbeddingDimensions(provider, model);
+
+    const requested = Number.parseInt(settings.EMBEDDING_DIMENSIONS ?? "", 10);
+    if (!Number.isNaN(requested) && requested !== nativeDimensions) {
+        if (canTruncateEmbedding(model, requested)) {
+            return { dimensions: requested, model, provider };
+        }
+        elizaLogger.warn(
+            `[Embed] ${model} cannot be truncated to ${requested} dimensions, using its native ${nativeDimensions}`
+        );
+    }
+
+    return { dimensions: nativeDimensions, model, provider };
+};
+
+/**
+ * Shortens a Matryoshka embedding to its first `dimensions` values and
+ * normalizes it again.
+ */
+export function truncateEmbedding(
+    embedding: number[],
+    dimensions: number
+): number[] {
+    if (embedding.length < dimensions) {
+        throw new Error(
+            `Cannot truncate an embedding of ${embedding.length} dimensions to ${dimensions}`
+        );
+    }
+    const truncated = embedding.slice(0, dimensions);
+    const magnitude = Math.sqrt(
+        truncated.reduce((sum, value) => sum + value * value, 0)
+    );
+    return magnitude > 0 ? truncated.map((value) => value / magnitude) : truncated;
+}
 
 async function getRemoteEmbedding(
     input: string,
@@ -92,10 +176,8 @@ async function getRemoteEmbedding(
         body: JSON.stringify({
             input,
             model: options.model,
-            dimensions:
-                options.dimensions ||
-                options.length ||
-                getEmbeddingConfig().dimensions,
+            // Only sent when the API should shorten the vectors itself
+            dimensions: options.dimensions,
         }),
     };
 
@@ -154,27 +236,7 @@ export function getEmbeddingType(runtime: IAgentRuntime): "local" | "remote" {
 }
 
 export function getEmbeddingZeroVector(): number[] {
-    let embeddingDimension = 384; // Default BGE dimension
-
-    if (settings.USE_OPENAI_EMBEDDING?.toLowerCase() === "true") {
-        embeddingDimension = getEmbeddingModelSettings(
-            ModelProviderName.OPENAI
-        ).dimensions; // OpenAI dimension
-    } else if (settings.USE_OLLAMA_EMBEDDING?.toLowerCase() === "true") {
-        embeddingDimension = getEmbeddingModelSettings(
-            ModelProviderName.OLLAMA
-        ).dimensions; // Ollama mxbai-embed-large dimension
-    } else if (settings.USE_GAIANET_EMBEDDING?.toLowerCase() === "true") {
-        embeddingDimension = getEmbeddingModelSettings(
-            ModelProviderName.GAIANET
-        ).dimensions; // GaiaNet dimension
-    } else if (settings.USE_HEURIST_EMBEDDING?.toLowerCase() === "true") {
-        embeddingDimension = getEmbeddingModelSettings(
-            ModelProviderName.HEURIST
-        ).dimensions; // Heurist dimension
-    }
-
-    return Array(embeddingDimension).fill(0);
+    return Array(getEmbeddingConfig().dimensions).fill(0);
 }
 
 export interface IAgentRuntimeWithEmbedding extends CoreIAgentRuntime {
@@ -185,10 +247,122 @@ export interface IAgentRuntimeWithEmbedding extends CoreIAgentRuntime {
     generateEmbedding(text: string): Promise<number[]>;
 }
 
-async function retrieveCachedEmbedding(runtime: IAgentRuntimeWithEmbedding, text: string): Promise<number[] | null> {
+/**
+ * Cosine similarity of two embeddings of the same size, 0 for zero vectors.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+        throw new Error(
+            `Cannot compare embeddings of ${a.length} and ${b.length} dimensions`
+        );
+    }
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Produces embeddings with one model, at the size `dimensions` declares.
+ */
+export interface EmbeddingAdapter {
+    readonly provider: EmbeddingProviderType;
+    readonly model: string;
+    /** Size of the vectors the model produces */
+    readonly nativeDimensions: number;
+    /** Size of the returned vectors, below native only for truncatable models */
+    readonly dimensions: number;
+    embed(text: string): Promise<number[]>;
+}
+
+const REMOTE_EMBEDDING_OPTIONS: Partial<
+    Record<EmbeddingProviderType, () => Omit<EmbeddingOptions, "model">>
+> = {
+    [EmbeddingProvider.OpenAI]: () => ({
+        endpoint: getEndpoint(ModelProviderName.OPENAI),
+        apiKey: settings.OPENAI_API_KEY,
+    }),
+    [EmbeddingProvider.Ollama]: () => ({
+        endpoint: getEndpoint(ModelProviderName.OLLAMA),
+        isOllama: true,
+    }),
+    [EmbeddingProvider.GaiaNet]: () => ({
+        endpoint: getEndpoint(ModelProviderName.GAIANET),
+        apiKey: settings.GAIANET_API_KEY,
+    }),
+    [EmbeddingProvider.Heurist]: () => ({
+        endpoint: getEndpoint(ModelProviderName.HEURIST),
+        apiKey: settings.HEURIST_API_KEY,
+    }),
+};
+
+/**
+ * Creates the adapter for the configured embedding model. Vectors are checked
+ * against the model's native size and only truncated when the model supports
+ * it; OpenAI truncates them server-side.
+ */
+export function getEmbeddingAdapter(
+    config: EmbeddingConfig = getEmbeddingConfig()
+): EmbeddingAdapter {
+    const { provider, model, dimensions } = config;
+    const nativeDimensions = getNativeEmbeddingDimensions(provider, model);
+    const remoteOptions = REMOTE_EMBEDDING_OPTIONS[provider]?.();
+    const serverTruncates =
+        provider === EmbeddingProvider.OpenAI && dimensions !== nativeDimensions;
+
+    const generate = remoteOptions
+        ? (text: string) =>
+              getRemoteEmbedding(text, {
+                  ...remoteOptions,
+                  model,
+                  dimensions: serverTruncates ? dimensions : undefined,
+                  provider,
+              })
+        : async (text: string) => {
+              // Loaded on first use, fastembed is only needed for local models
+              const { default: LocalEmbeddingModelManager } = await import(
+                  "./localembeddingManager.ts"
+              );
+              return LocalEmbeddingModelManager.getInstance().generateEmbedding(
+                  text
+              );
+          };
+
+    return {
+        provider,
+        model,
+        nativeDimensions,
+        dimensions,
+        async embed(text: string) {
+            const embedding = await generate(text);
+            const expected = serverTruncates ? dimensions : nativeDimensions;
+            if (embedding.length !== expected) {
+                throw new Error(
+                    `Embedding model ${model} returned ${embedding.length} dimensions, expected ${expected}`
+                );
+            }
+            return embedding.length === dimensions
+                ? embedding
+                : truncateEmbedding(embedding, dimensions);
+        },
+    };
+}
+
+/**
+ * Cache key of an embedding, so vectors of different models never mix.
+ */
+function getEmbeddingCacheKey(config: EmbeddingConfig, text: string): string {
+    return `embedding:${config.provider}:${config.model}:${config.dimensions}:${text}`;
+}
+
+async function retrieveCachedEmbedding(runtime: IAgentRuntime, cacheKey: string): Promise<number[] | null> {
     try {
-        const cacheKey = `embedding:${text}`;
-        const cached = await runtime.cache.get(cacheKey);
+        const cached = await runtime.cacheManager.get<number[]>(cacheKey);
         if (cached) {
             elizaLogger.info(`[Embed] Retrieved cached embedding of size ${cached.length}`);
             return cached;
@@ -200,10 +374,9 @@ async function retrieveCachedEmbedding(runtime: IAgentRuntimeWithEmbedding, text
     }
 }
 
-async function cacheEmbedding(runtime: IAgentRuntimeWithEmbedding, text: string, embedding: number[]): Promise<void> {
+async function cacheEmbedding(runtime: IAgentRuntime, cacheKey: string, embedding: number[]): Promise<void> {
     try {
-        const cacheKey = `embedding:${text}`;
-        await runtime.cache.set(cacheKey, embedding);
+        await runtime.cacheManager.set(cacheKey, embedding);
         elizaLogger.info(`[Embed] Cached embedding of size ${embedding.length}`);
     } catch (error) {
         elizaLogger.warn('[Embed] Cache storage failed:', error);
@@ -211,117 +384,36 @@ async function cacheEmbedding(runtime: IAgentRuntimeWithEmbedding, text: string,
 }
 
 /**
- * Gets embeddings from a remote API endpoint.  Falls back to local BGE/384
+ * Embeds text with the configured embedding model, see getEmbeddingAdapter.
+ * There is no fallback to another model, whose vectors could not be compared
+ * with the stored ones, and no zero vector: failures throw so callers can
+ * record the embedding as missing and retry.
  *
- * @param {string} input - The text to generate embeddings for
- * @param {EmbeddingOptions} options - Configuration options including:
- *   - model: The model name to use
- *   - endpoint: Base API endpoint URL
- *   - apiKey: Optional API key for authentication
- *   - isOllama: Whether this is an Ollama endpoint
- *   - dimensions: Desired embedding dimensions
- * @param {IAgentRuntime} runtime - The agent runtime context
- * @returns {Promise<number[]>} Array of embedding values
- * @throws {Error} If the API request fails
+ * @returns The embedding, or an empty array for empty text
+ * @throws {Error} If the model fails or returns vectors of the wrong size
  */
-
-export async function embed(runtime: IAgentRuntimeWithEmbedding, text: string): Promise<number[]> {
-    elizaLogger.info(`[Embed] Starting embedding generation for text length: ${text.length}`);
-    elizaLogger.info(`[Embed] Text preview: ${text.slice(0, 100)}...`);
-
-    // Input validation
+export async function embed(runtime: IAgentRuntime, text: string): Promise<number[]> {
     if (!text || text.trim().length === 0) {
-        elizaLogger.warn('[Embed] Empty input text, returning zero vector');
-        return new Array(384).fill(0);
+        elizaLogger.warn('[Embed] Empty input text, nothing to embed');
+        return [];
     }
 
-    try {
-        // Try to get from cache first
-        const cachedEmbedding = await retrieveCachedEmbedding(runtime, text);
-        if (cachedEmbedding) {
-            elizaLogger.info(`[Embed] Using cached embedding of size ${cachedEmbedding.length}`);
-            return cachedEmbedding;
-        }
-
-        // Try local embedding first
-        elizaLogger.info('[Embed] Attempting local embedding generation...');
-        try {
-            const localEmbedding = await getLocalEmbedding(runtime, text);
-            if (localEmbedding && localEmbedding.length > 0) {
-                elizaLogger.info(`[Embed] Successfully generated local embedding of size ${localEmbedding.length}`);
-                await cacheEmbedding(runtime, text, localEmbedding);
-                return localEmbedding;
-            }
-        } catch (error) {
-            elizaLogger.warn('[Embed] Local embedding generation failed:', {
-                error: error.message,
-                stack: error.stack,
-                code: error.code,
-                name: error.name
-            });
-        }
-
-        // Fallback to remote embedding
-        elizaLogger.info('[Embed] Attempting remote embedding generation...');
-        try {
-            const remoteEmbedding = await getRemoteEmbedding(text, {
-                model: 'text-embedding-3-small',
-                endpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1/embeddings',
-                apiKey: process.env.OPENAI_API_KEY,
-                dimensions: 384
-            });
-
-            if (!remoteEmbedding || !Array.isArray(remoteEmbedding)) {
-                throw new Error(`Invalid remote embedding response: ${typeof remoteEmbedding}`);
-            }
-
-            if (remoteEmbedding.length === 0) {
-                throw new Error('Empty remote embedding array');
-            }
-
-            elizaLogger.info(`[Embed] Successfully generated remote embedding of size ${remoteEmbedding.length}`);
-            await cacheEmbedding(runtime, text, remoteEmbedding);
-            return remoteEmbedding;
-        } catch (error) {
-            elizaLogger.error('[Embed] Remote embedding generation failed:', {
-                error: error.message,
-                stack: error.stack,
-                code: error.code,
-                name: error.name,
-                text: text.slice(0, 100)
-            });
-            throw error;
-        }
-    } catch (error) {
-        elizaLogger.error('[Embed] All embedding attempts failed:', {
-            error: error.message,
-            stack: error.stack,
-            code: error.code,
-            name: error.name,
-            text: text.slice(0, 100)
-        });
-        return new Array(384).fill(0);
+    const config = getEmbeddingConfig();
+    const cacheKey = getEmbeddingCacheKey(config, text);
+    const cachedEmbedding = await retrieveCachedEmbedding(runtime, cacheKey);
+    if (cachedEmbedding) {
+        return cachedEmbedding;
     }
-}
 
-async function getLocalEmbedding(runtime: IAgentRuntimeWithEmbedding, text: string): Promise<number[]> {
-    elizaLogger.info('[Embed] Starting local embedding generation...');
+    const adapter = getEmbeddingAdapter(config);
+    elizaLogger.debug(`[Embed] Embedding text of length ${text.length} with ${adapter.provider}/${adapter.model}`);
     try {
-        const embedding = await runtime.generateEmbedding(text);
-        if (!embedding || !Array.isArray(embedding)) {
-            throw new Error(`Invalid local embedding response: ${typeof embedding}`);
-        }
-        if (embedding.length === 0) {
-            throw new Error('Empty local embedding array');
-        }
-        elizaLogger.info(`[Embed] Local embedding generated successfully, size: ${embedding.length}`);
+        const embedding = await adapter.embed(text);
+        await cacheEmbedding(runtime, cacheKey, embedding);
         return embedding;
     } catch (error) {
-        elizaLogger.error('[Embed] Local embedding generation failed:', {
+        elizaLogger.error(`[Embed] ${adapter.provider}/${adapter.model} embedding failed:`, {
             error: error.message,
-            stack: error.stack,
-            code: error.code,
-            name: error.name,
             text: text.slice(0, 100)
         });
         throw error;
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { ModelProviderName } from "./types";
+import { ModelClass, ModelProviderName } from "./types";
 import elizaLogger from "./logger";
 
 // TODO: TO COMPLETE
@@ -151,6 +151,61 @@ export const CharacterSchema = z.object({
         })
         .optional(),
     extends: z.array(z.string()).optional(),
+    postingCalendar: z
+        .object({
+            timezone: z.string().optional(),
+            cron: z.array(z.string()).optional(),
+            slots: z.array(z.string()).optional(),
+            draftsAhead: z.number().int().min(0).optional(),
+        })
+        .optional(),
+    twitterAccounts: z
+        .array(
+            z.object({
+                username: z.string().min(1),
+                settings: z.record(z.string()).optional(),
+                routing: z
+                    .object({
+                        keywords: z.array(z.string()).optional(),
+                        fromUsers: z.array(z.string()).optional(),
+                        default: z.boolean().optional(),
+                    })
+                    .optional(),
+            })
+        )
+        .optional(),
+    twitterSearch: z
+        .object({
+            queries: z.array(z.string()).optional(),
+            minFollowers: z.number().int().min(0).optional(),
+            maxFollowers: z.number().int().min(0).optional(),
+            languages: z.array(z.string()).optional(),
+            maxAgeHours: z.number().positive().optional(),
+            authorCooldownHours: z.number().min(0).optional(),
+            maxCandidates: z.number().int().min(1).optional(),
+            weights: z
+                .object({
+                    recency: z.number().min(0).optional(),
+                    similarity: z.number().min(0).optional(),
+                    interactions: z.number().min(0).optional(),
+                })
+                .optional(),
+        })
+        .optional(),
+    moderation: z
+        .object({
+            blocklist: z.array(z.string()).optional(),
+            allowlist: z.array(z.string()).optional(),
+            useDefaultBlocklist: z.boolean().optional(),
+            classifier: z
+                .object({
+                    enabled: z.boolean().optional(),
+                    template: z.string().optional(),
+                    modelClass: z.nativeEnum(ModelClass).optional(),
+                })
+                .optional(),
+        })
+        .optional(),
 });
 
 // Type inference
@@ -31,6 +31,7 @@ import {
     parseJSONObjectFromText,
     parseShouldRespondFromText,
     parseActionResponseFromText,
+    parseTweetActionDecisionsFromText,
 } from "./parsing.ts";
 import settings from "./settings.ts";
 import {
@@ -42,6 +43,7 @@ import {
     ModelProviderName,
     ServiceType,
     type ActionResponse,
+    type TweetActionDecision,
     // type IVerifiableInferenceAdapter,
     // type VerifiableInferenceOptions,
     // type VerifiableInferenceResult,
@@ -2803,14 +2805,17 @@ export async function generateTweetActions({
     runtime,
     context,
     modelClass,
+    maxAttempts = 3,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: ModelClass;
+    maxAttempts?: number;
 }): Promise<ActionResponse | null> {
-    let retryDelay = 1000;
-    while (true) {
-        try {
+    return retryTweetActionGeneration(
+        "generateTweetActions",
+        maxAttempts,
+        async () => {
             const response = await generateText({
                 runtime,
                 context,
@@ -2823,23 +2828,76 @@ export async function generateTweetActions({
             const { actions } = parseActionResponseFromText(response.trim());
             if (actions) {
                 elizaLogger.debug("Parsed tweet actions:", actions);
-                return actions;
-            } else {
-                elizaLogger.debug("generateTweetActions no valid response");
             }
-        } catch (error) {
-            elizaLogger.error("Error in generateTweetActions:", error);
-            if (
-                error instanceof TypeError &&
-                error.message.includes("queueTextCompletion")
-            ) {
-                elizaLogger.error(
-                    "TypeError: Cannot read properties of null (reading 'queueTextCompletion')"
+            return actions;
+        }
+    );
+}
+
+/**
+ * Generates the model's decision on each timeline action for a tweet, with
+ * its confidence and rationale, for a context ending with
+ * `tweetActionDecisionsFooter`. Responses not matching the schema are retried
+ * up to `maxAttempts` times in all.
+ *
+ * @returns The decisions, or null when no valid response was generated
+ */
+export async function generateTweetActionDecisions({
+    runtime,
+    context,
+    modelClass,
+    maxAttempts = 3,
+}: {
+    runtime: IAgentRuntime;
+    context: string;
+    modelClass: ModelClass;
+    maxAttempts?: number;
+}): Promise<TweetActionDecision[] | null> {
+    return retryTweetActionGeneration(
+        "generateTweetActionDecisions",
+        maxAttempts,
+        async () => {
+            const response = await generateText({
+                runtime,
+                context,
+                modelClass,
+            });
+            const decisions = parseTweetActionDecisionsFromText(response);
+            if (decisions) {
+                elizaLogger.debug("Parsed tweet action decisions:", decisions);
+            } else {
+                elizaLogger.debug(
+                    "Tweet action decisions don't match the schema:",
+                    response
                 );
             }
+            return decisions;
+        }
+    );
+}
+
+async function retryTweetActionGeneration<T>(
+    name: string,
+    maxAttempts: number,
+    generate: () => Promise<T | null>
+): Promise<T | null> {
+    let retryDelay = 1000;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        try {
+            const result = await generate();
+            if (result) {
+                return result;
+            }
+            elizaLogger.debug(`${name} no valid response`);
+        } catch (error) {
+            elizaLogger.error(`Error in ${name}:`, error);
+        }
+        if (attempt < maxAttempts) {
+            elizaLogger.log(`Retrying in ${retryDelay}ms...`);
+            await new Promise((resolve) => setTimeout(resolve, retryDelay));
+            retryDelay *= 2;
         }
-        elizaLogger.log(`Retrying in ${retryDelay}ms...`);
-        await new Promise((resolve) => setTimeout(resolve, retryDelay));
-        retryDelay *= 2;
     }
+    elizaLogger.warn(`${name} gave up after ${maxAttempts} attempts`);
+    return null;
 }
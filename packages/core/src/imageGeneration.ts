@@ -0,0 +1,179 @@
+import { generateImage } from "./generation.ts";
+import { elizaLogger } from "./logger.ts";
+import type { IAgentRuntime } from "./types.ts";
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    width: number;
+    height: number;
+}
+
+export interface GeneratedImage {
+    data: Buffer;
+    /** Detected from the image bytes, e.g. "image/png" */
+    mediaType: string;
+}
+
+/**
+ * A source of generated images. Backends are selected per character with
+ * `settings.imageSettings.backend`.
+ */
+export interface ImageBackend {
+    name: string;
+    generate(
+        request: ImageGenerationRequest,
+        runtime: IAgentRuntime
+    ): Promise<GeneratedImage>;
+}
+
+export const DEFAULT_IMAGE_BACKEND = "model";
+
+/**
+ * Returns the MIME type of JPEG, PNG, GIF and WebP images, or null for
+ * anything else.
+ */
+export function detectImageMimeType(data: Buffer): string | null {
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return "image/jpeg";
+    }
+    if (
+        data.length >= 8 &&
+        data.subarray(0, 8).equals(
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+        )
+    ) {
+        return "image/png";
+    }
+    if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString("latin1", 0, 6))) {
+        return "image/gif";
+    }
+    if (
+        data.length >= 12 &&
+        data.toString("latin1", 0, 4) === "RIFF" &&
+        data.toString("latin1", 8, 12) === "WEBP"
+    ) {
+        return "image/webp";
+    }
+    return null;
+}
+
+function toGeneratedImage(data: Buffer, source: string): GeneratedImage {
+    const mediaType = detectImageMimeType(data);
+    if (!mediaType) {
+        throw new Error(`${source} did not return a supported image`);
+    }
+    return { data, mediaType };
+}
+
+/**
+ * Loads an image from a data URL or an http(s) URL.
+ */
+export async function loadImage(source: string): Promise<GeneratedImage> {
+    if (source.startsWith("data:")) {
+        const [, base64 = ""] = source.split(",", 2);
+        return toGeneratedImage(Buffer.from(base64, "base64"), "Data URL");
+    }
+
+    const response = await fetch(source);
+    if (!response.ok) {
+        throw new Error(
+            `Failed to fetch image: ${response.status} ${response.statusText}`
+        );
+    }
+    return toGeneratedImage(
+        Buffer.from(await response.arrayBuffer()),
+        new URL(source).host
+    );
+}
+
+/**
+ * Generates with the character's `imageModelProvider` through `generateImage`.
+ */
+export const modelImageBackend: ImageBackend = {
+    name: "model",
+    async generate(request, runtime) {
+        const imageSettings = runtime.character.settings?.imageSettings ?? {};
+        const result = await generateImage(
+            {
+                ...imageSettings,
+                ...request,
+                count: 1,
+            },
+            runtime
+        );
+        if (!result.success || !result.data?.length) {
+            throw new Error(
+                `Image generation with ${runtime.imageModelProvider} failed: ${result.error?.message ?? result.error ?? "no image returned"}`
+            );
+        }
+        return loadImage(result.data[0]);
+    },
+};
+
+/**
+ * Generates with the public pollinations.ai API, which needs no API key.
+ */
+export const pollinationsImageBackend: ImageBackend = {
+    name: "pollinations",
+    async generate({ prompt, width, height }) {
+        const url = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=${width}&height=${height}&nologo=true`;
+        return loadImage(url);
+    },
+};
+
+// 1x1 transparent PNG
+const STUB_IMAGE = Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+    "base64"
+);
+
+/**
+ * Returns the same tiny PNG for every prompt, for tests and offline runs.
+ */
+export const stubImageBackend: ImageBackend = {
+    name: "stub",
+    async generate() {
+        return { data: Buffer.from(STUB_IMAGE), mediaType: "image/png" };
+    },
+};
+
+const imageBackends = new Map<string, ImageBackend>(
+    [modelImageBackend, pollinationsImageBackend, stubImageBackend].map(
+        (backend) => [backend.name, backend]
+    )
+);
+
+/**
+ * Makes a backend available to characters under its name, replacing any
+ * backend of the same name.
+ */
+export function registerImageBackend(backend: ImageBackend): void {
+    imageBackends.set(backend.name, backend);
+}
+
+export function getImageBackend(runtime: IAgentRuntime): ImageBackend {
+    const name =
+        runtime.character.settings?.imageSettings?.backend ??
+        DEFAULT_IMAGE_BACKEND;
+    const backend = imageBackends.get(name);
+    if (!backend) {
+        throw new Error(
+            `Unknown image backend "${name}". Available: ${Array.from(imageBackends.keys()).join(", ")}`
+        );
+    }
+    return backend;
+}
+
+/**
+ * Generates an image with the character's backend.
+ */
+export async function generateImageData(
+    runtime: IAgentRuntime,
+    request: ImageGenerationRequest
+): Promise<GeneratedImage> {
+    const backend = getImageBackend(runtime);
+    elizaLogger.info(
+        `Generating ${request.width}x${request.height} image with the ${backend.name} backend`
+    );
+    return backend.generate(request, runtime);
+}
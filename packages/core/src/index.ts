@@ -1,16 +1,29 @@
 import "./config.ts"; // Add this line first
 
 export * from "./actions.ts";
+export * from "./capabilities.ts";
 export * from "./context.ts";
 export * from "./database.ts";
 export * from "./embedding.ts";
 export * from "./evaluators.ts";
 export * from "./generation.ts";
 export * from "./goals.ts";
+export * from "./imageGeneration.ts";
+export * from "./knowledgeChunking.ts";
+export * from "./languages.ts";
 export * from "./memory.ts";
 export * from "./messages.ts";
 export * from "./models.ts";
+export * from "./moderation.ts";
+export * from "./postCalendar.ts";
 export * from "./posts.ts";
+export * from "./processedTweets.ts";
+export * from "./tweetDecisions.ts";
+export * from "./scripture.ts";
+export * from "./scriptureBooks.ts";
+export * from "./scriptureReferences.ts";
+export * from "./scriptureVerification.ts";
+export * from "./twitterSessions.ts";
 export * from "./providers.ts";
 export * from "./relationships.ts";
 export * from "./runtime.ts";
@@ -0,0 +1,192 @@
+import { encodingForModel, type Tiktoken } from "js-tiktoken";
+import { formatScriptureReference } from "./scriptureReferences.ts";
+import type {
+    KnowledgeChunk,
+    KnowledgeChunkingOptions,
+    ScriptureVerse,
+} from "./types.ts";
+
+const DEFAULT_CHUNK_SIZE = 512;
+const DEFAULT_OVERLAP = 64;
+const DEFAULT_VERSES_PER_CHUNK = 1;
+
+let encoding: Tiktoken | undefined;
+
+// Created on first use, as loading the ranks takes a while
+function getEncoding(): Tiktoken {
+    encoding ??= encodingForModel("gpt-4o");
+    return encoding;
+}
+
+function countTokens(text: string): number {
+    return getEncoding().encode(text).length;
+}
+
+/**
+ * The chunking options with their defaults, the overlap kept smaller than
+ * the chunks.
+ */
+export function getChunkingOptions(
+    options: KnowledgeChunkingOptions = {}
+): Required<KnowledgeChunkingOptions> {
+    const chunkSize = Math.max(options.chunkSize ?? DEFAULT_CHUNK_SIZE, 1);
+    return {
+        strategy: options.strategy ?? "tokens",
+        chunkSize,
+        overlap: Math.min(
+            Math.max(options.overlap ?? DEFAULT_OVERLAP, 0),
+            Math.floor(chunkSize / 2)
+        ),
+        versesPerChunk: Math.max(
+            options.versesPerChunk ?? DEFAULT_VERSES_PER_CHUNK,
+            1
+        ),
+    };
+}
+
+/**
+ * Describes how text files are chunked, e.g. "tokens:512:64", to tell when
+ * they need chunking again.
+ */
+export function describeChunking(options?: KnowledgeChunkingOptions): string {
+    const { strategy, chunkSize, overlap } = getChunkingOptions(options);
+    return strategy === "tokens"
+        ? `tokens:${chunkSize}:${overlap}`
+        : `paragraphs:${chunkSize}`;
+}
+
+/**
+ * Splits text into windows of tokens, each starting with the last tokens of
+ * the one before.
+ */
+export function chunkByTokens(
+    content: string,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    overlap = DEFAULT_OVERLAP
+): string[] {
+    const tokens = getEncoding().encode(content);
+    const step = Math.max(chunkSize - overlap, 1);
+    const chunks: string[] = [];
+    for (let start = 0; start < tokens.length; start += step) {
+        const text = getEncoding()
+            .decode(tokens.slice(start, start + chunkSize))
+            .trim();
+        if (text) {
+            chunks.push(text);
+        }
+        if (start + chunkSize >= tokens.length) {
+            break;
+        }
+    }
+    return chunks;
+}
+
+/**
+ * Splits text at blank lines and packs consecutive paragraphs into chunks
+ * of up to `chunkSize` tokens. Longer paragraphs are split into windows.
+ */
+export function chunkByParagraphs(
+    content: string,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    overlap = DEFAULT_OVERLAP
+): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+    const flush = () => {
+        if (current.length > 0) {
+            chunks.push(current.join("\n\n"));
+        }
+        current = [];
+        currentTokens = 0;
+    };
+
+    for (const paragraph of content.split(/\n\s*\n/)) {
+        const text = paragraph.trim();
+        if (!text) continue;
+
+        const tokens = countTokens(text);
+        if (tokens > chunkSize) {
+            flush();
+            chunks.push(...chunkByTokens(text, chunkSize, overlap));
+            continue;
+        }
+        if (currentTokens + tokens > chunkSize) {
+            flush();
+        }
+        current.push(text);
+        currentTokens += tokens;
+    }
+    flush();
+    return chunks;
+}
+
+/**
+ * Splits the text of a knowledge file with the chosen strategy.
+ */
+export function chunkKnowledge(
+    content: string,
+    options?: KnowledgeChunkingOptions
+): KnowledgeChunk[] {
+    const { strategy, chunkSize, overlap } = getChunkingOptions(options);
+    const chunks =
+        strategy === "paragraphs"
+            ? chunkByParagraphs(content, chunkSize, overlap)
+            : chunkByTokens(content, chunkSize, overlap);
+    return chunks.map((text) => ({ text }));
+}
+
+/**
+ * Groups consecutive verses of a chapter into chunks, e.g.
+ * "John 3:16-17 (eng-kjv) For God so loved the world…", with the passage
+ * they cover in their metadata.
+ */
+export function chunkVerses(
+    verses: ScriptureVerse[],
+    versesPerChunk = DEFAULT_VERSES_PER_CHUNK
+): KnowledgeChunk[] {
+    const chunks: KnowledgeChunk[] = [];
+    let group: ScriptureVerse[] = [];
+    const flush = () => {
+        if (group.length === 0) return;
+
+        const first = group[0];
+        const last = group[group.length - 1];
+        const passage = {
+            book: first.book,
+            chapter: first.chapter,
+            verse: first.verse,
+            ...(last.verse !== first.verse && { endVerse: last.verse }),
+        };
+        const reference = formatScriptureReference(passage);
+        chunks.push({
+            text: `${reference} (${first.translation}) ${group
+                .map((verse) => verse.text)
+                .join(" ")}`,
+            metadata: {
+                translation: first.translation,
+                language: first.language,
+                ...passage,
+                reference,
+            },
+        });
+        group = [];
+    };
+
+    for (const verse of verses) {
+        const previous = group[group.length - 1];
+        if (
+            previous &&
+            (group.length >= versesPerChunk ||
+                previous.translation !== verse.translation ||
+                previous.book !== verse.book ||
+                previous.chapter !== verse.chapter ||
+                previous.verse + 1 !== verse.verse)
+        ) {
+            flush();
+        }
+        group.push(verse);
+    }
+    flush();
+    return chunks;
+}
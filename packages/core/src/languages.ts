@@ -0,0 +1,216 @@
+import type {
+    IAgentRuntime,
+    LanguageDetection,
+    ReplyLanguage,
+} from "./types.ts";
+
+interface Language {
+    code: string;
+    name: string;
+    /** ISO 639-1 and 639-2/B codes, as translations may be named with */
+    aliases: string[];
+    /** Writing system used by the language alone among those known */
+    script?: RegExp;
+    /** Common short words, space separated */
+    words?: string;
+    /** Letters hardly found in the other languages */
+    letters?: RegExp;
+}
+
+const LANGUAGES: Language[] = [
+    {
+        code: "eng",
+        name: "English",
+        aliases: ["en"],
+        words:
+            "the a and is are you that of to what for with this my your " +
+            "how why it not who does lord jesus bible",
+    },
+    {
+        code: "spa",
+        name: "Spanish",
+        aliases: ["es"],
+        words:
+            "el la los las que y es por para con una un del al mi su qué " +
+            "cómo porque dios señor pero muy está biblia",
+        letters: /[ñ¿¡]/,
+    },
+    {
+        code: "por",
+        name: "Portuguese",
+        aliases: ["pt"],
+        words:
+            "o os que e é não do da dos das em para com uma um deus você " +
+            "meu como senhor mas muito está bíblia",
+        letters: /[ãõç]/,
+    },
+    {
+        code: "ces",
+        name: "Czech",
+        aliases: ["cs", "cze"],
+        words:
+            "a je se na že to ve jak bůh boha co proč není jsem ale pro jsi " +
+            "mi pán bible",
+        letters: /[ěščřůťň]/,
+    },
+    {
+        code: "nld",
+        name: "Dutch",
+        aliases: ["nl", "dut"],
+        words:
+            "de het een en van is niet dat ik je wat hoe waarom met op voor " +
+            "zijn heer maar ook bijbel",
+    },
+    {
+        code: "lat",
+        name: "Latin",
+        aliases: ["la"],
+        words:
+            "et est in non ad cum quod sed deus dominus domine qui quae " +
+            "enim ut sunt nobis nos tibi pater",
+    },
+    {
+        code: "zho",
+        name: "Chinese",
+        aliases: ["zh", "chi", "cmn"],
+        script: /\p{Script=Han}/u,
+    },
+    {
+        code: "chr",
+        name: "Cherokee",
+        aliases: [],
+        script: /\p{Script=Cherokee}/u,
+    },
+];
+
+const languagesByCode = new Map(
+    LANGUAGES.flatMap((language) =>
+        [language.code, ...language.aliases].map((code) => [code, language])
+    )
+);
+const languageWords = LANGUAGES.map(
+    (language) => new Set(language.words?.split(" "))
+);
+
+const DEFAULT_LANGUAGE = "eng";
+
+// Below this share of a script's characters, a text isn't written in it
+const MIN_SCRIPT_SHARE = 0.3;
+
+/**
+ * The ISO 639-3 code of a language code, e.g. "spa" for "es" and "ces" for
+ * "cze", or the code itself when unknown.
+ */
+export function normalizeLanguage(code: string): string {
+    const key = code.toLowerCase().split(/[-_]/)[0];
+    return languagesByCode.get(key)?.code ?? key;
+}
+
+export function isSameLanguage(a: string, b: string): boolean {
+    return normalizeLanguage(a) === normalizeLanguage(b);
+}
+
+/**
+ * The English name of a language, e.g. "Czech" for "cze".
+ */
+export function getLanguageName(code: string): string {
+    return languagesByCode.get(normalizeLanguage(code))?.name ?? code;
+}
+
+/**
+ * Tells the language of a short text such as a tweet, among the languages
+ * of the Bible translations the agent knows, by its script or else by its
+ * common words. Returns null when the text doesn't tell.
+ */
+export function detectLanguage(text: string): LanguageDetection | null {
+    const clean = text
+        .replace(/https?:\/\/\S+/g, " ")
+        .replace(/[@#]\w+/g, " ");
+    const letters = clean.match(/\p{L}/gu) ?? [];
+    if (letters.length === 0) {
+        return null;
+    }
+
+    for (const language of LANGUAGES) {
+        if (!language.script) continue;
+
+        const share =
+            letters.filter((letter) => language.script?.test(letter)).length /
+            letters.length;
+        if (share >= MIN_SCRIPT_SHARE) {
+            return { language: language.code, confidence: share };
+        }
+    }
+
+    const words = clean.toLowerCase().match(/\p{L}+/gu) ?? [];
+    const scores = LANGUAGES.map((language, i) => {
+        if (!language.words) return 0;
+
+        const matches = words.filter((word) => languageWords[i].has(word));
+        const hasLetters = language.letters?.test(clean.toLowerCase());
+        return matches.length + (hasLetters ? 2 : 0);
+    });
+    const best = Math.max(...scores);
+    // Ties are as good as not knowing
+    if (best === 0 || scores.filter((score) => score === best).length > 1) {
+        return null;
+    }
+
+    return {
+        language: LANGUAGES[scores.indexOf(best)].code,
+        confidence: Math.min(best / words.length, 1),
+    };
+}
+
+/**
+ * The language to reply to a message in: the message's own when the
+ * character's `replyLanguages` has it, or else the first of them, unless
+ * `replyLanguageFallback` is "ignore", in which case it returns null.
+ */
+export function getReplyLanguage(
+    runtime: IAgentRuntime,
+    text: string
+): ReplyLanguage | null {
+    const settings = runtime.character?.settings;
+    const supported = (settings?.replyLanguages ?? []).map(normalizeLanguage);
+    const defaultLanguage = supported[0] ?? DEFAULT_LANGUAGE;
+    const detected = detectLanguage(text)?.language;
+
+    if (!detected) {
+        return {
+            language: defaultLanguage,
+            name: getLanguageName(defaultLanguage),
+            isFallback: false,
+        };
+    }
+    if (supported.length === 0 || supported.includes(detected)) {
+        return {
+            language: detected,
+            name: getLanguageName(detected),
+            detected,
+            isFallback: false,
+        };
+    }
+    if (settings?.replyLanguageFallback === "ignore") {
+        return null;
+    }
+    return {
+        language: defaultLanguage,
+        name: getLanguageName(defaultLanguage),
+        detected,
+        isFallback: true,
+    };
+}
+
+/**
+ * Directions for the model to write a reply in its language, e.g. to go in
+ * a template's {{replyLanguage}}.
+ */
+export function formatReplyLanguage(reply: ReplyLanguage): string {
+    if (reply.isFallback && reply.detected) {
+        return `The post is in ${getLanguageName(reply.detected)}, which you don't reply in: write the reply in ${reply.name}.`;
+    }
+    return reply.detected
+        ? `Write the reply in ${reply.name}, the language of the post.`
+        : `Write the reply in ${reply.name}.`;
+}
@@ -1,4 +1,4 @@
-import { embed, getEmbeddingZeroVector, type IAgentRuntimeWithEmbedding } from "./embedding.ts";
+import { embed, type IAgentRuntimeWithEmbedding } from "./embedding.ts";
 import elizaLogger from "./logger.ts";
 import type {
     IAgentRuntime,
@@ -9,6 +9,13 @@ import type {
 
 const defaultMatchThreshold = 0.1;
 const defaultMatchCount = 10;
+// How often a memory that could not be embedded is tried again before giving up
+const MAX_EMBEDDING_RETRIES = 20;
+
+interface MissingEmbedding {
+    id: UUID;
+    attempts: number;
+}
 
 /**
  * Manage memories in the database.
@@ -24,6 +31,11 @@ export class MemoryManager implements IMemoryManager {
      */
     tableName: string;
 
+    /**
+     * Whether memories with missing embeddings are being embedded again.
+     */
+    private isRetrying = false;
+
     /**
      * Constructs a new MemoryManager instance.
      * @param opts Options for the manager.
@@ -44,6 +56,8 @@ export class MemoryManager implements IMemoryManager {
      * Adds an embedding vector to a memory object if one doesn't already exist.
      * The embedding is generated from the memory's text content using the runtime's
      * embedding model. If the memory has no text content, an error is thrown.
+     * If embedding fails, the memory is left without an embedding and is
+     * embedded again once embedding succeeds.
      *
      * @param memory The memory object to add an embedding to
      * @returns The memory object with an embedding vector added
@@ -69,13 +83,110 @@ export class MemoryManager implements IMemoryManager {
             memory.embedding = await embed(this.runtime, memoryText);
         } catch (error) {
             elizaLogger.error("Failed to generate embedding:", error);
-            // Fallback to zero vector if embedding fails
-            memory.embedding = getEmbeddingZeroVector().slice();
+            if (memory.id) {
+                await this.recordMissingEmbedding(memory.id);
+            }
+            return memory;
         }
 
+        // Embedding works again, so the memories it failed on can be embedded
+        this.retryMissingEmbeddings().catch((error) =>
+            elizaLogger.error("Failed to retry missing embeddings:", error)
+        );
         return memory;
     }
 
+    private getMissingEmbeddingsKey(): string {
+        return `memory/${this.runtime.agentId}/${this.tableName}/missingEmbeddings`;
+    }
+
+    private async recordMissingEmbedding(id: UUID): Promise<void> {
+        const missing =
+            (await this.runtime.cacheManager.get<MissingEmbedding[]>(
+                this.getMissingEmbeddingsKey()
+            )) ?? [];
+        if (!missing.some((entry) => entry.id === id)) {
+            missing.push({ id, attempts: 0 });
+            await this.runtime.cacheManager.set(
+                this.getMissingEmbeddingsKey(),
+                missing
+            );
+        }
+    }
+
+    /**
+     * Embeds the stored memories that could not be embedded before and
+     * stores them again with their embedding. Memories that keep failing are
+     * given up after MAX_EMBEDDING_RETRIES.
+     */
+    async retryMissingEmbeddings(): Promise<void> {
+        if (this.isRetrying) return;
+        this.isRetrying = true;
+
+        try {
+            const missing =
+                (await this.runtime.cacheManager.get<MissingEmbedding[]>(
+                    this.getMissingEmbeddingsKey()
+                )) ?? [];
+            if (missing.length === 0) return;
+
+            elizaLogger.info(
+                `Retrying ${missing.length} memories with missing embeddings`
+            );
+            const remaining: MissingEmbedding[] = [];
+            for (const entry of missing) {
+                try {
+                    await this.embedStoredMemory(entry.id);
+                } catch (error) {
+                    if (entry.attempts + 1 < MAX_EMBEDDING_RETRIES) {
+                        remaining.push({
+                            ...entry,
+                            attempts: entry.attempts + 1,
+                        });
+                    } else {
+                        elizaLogger.warn(
+                            `Giving up embedding memory ${entry.id}:`,
+                            error
+                        );
+                    }
+                }
+            }
+
+            // Keep the memories that failed to embed in the meantime
+            const recorded =
+                (await this.runtime.cacheManager.get<MissingEmbedding[]>(
+                    this.getMissingEmbeddingsKey()
+                )) ?? [];
+            const added = recorded.filter(
+                (entry) => !missing.some((retried) => retried.id === entry.id)
+            );
+            await this.runtime.cacheManager.set(
+                this.getMissingEmbeddingsKey(),
+                [...remaining, ...added]
+            );
+        } finally {
+            this.isRetrying = false;
+        }
+    }
+
+    private async embedStoredMemory(id: UUID): Promise<void> {
+        const memory = await this.getMemoryById(id);
+        if (!memory) {
+            // Not stored yet, or removed since
+            throw new Error(`Memory ${id} not found`);
+        }
+        if (!memory.content.text) return;
+
+        await this.runtime.databaseAdapter.createMemory(
+            {
+                ...memory,
+                embedding: await embed(this.runtime, memory.content.text),
+            },
+            this.tableName,
+            memory.unique
+        );
+    }
+
     /**
      * Retrieves a list of memories by user IDs, with optional deduplication.
      * @param opts Options including user IDs, count, and uniqueness.
@@ -0,0 +1,273 @@
+import { generateText } from "./generation.ts";
+import { elizaLogger } from "./logger.ts";
+import {
+    type ContentModerationConfig,
+    type IAgentRuntime,
+    ModelClass,
+} from "./types.ts";
+
+/** Whether the text was received from someone or generated by the agent */
+export type ModerationDirection = "inbound" | "outbound";
+
+export interface ModerationContext {
+    direction: ModerationDirection;
+    /** Where the text comes from or goes to, e.g. "twitter:mention", used in logs */
+    source?: string;
+}
+
+export interface ModerationDecision {
+    allowed: boolean;
+    /** Rule that blocked the text, e.g. "blocklist:porn*" or "classifier" */
+    rule?: string;
+    reason?: string;
+}
+
+/**
+ * One step of the moderation pipeline. Returns a decision to block the text,
+ * or null to let the next step decide.
+ */
+export interface ModerationStep {
+    name: string;
+    check(
+        text: string,
+        context: ModerationContext
+    ): Promise<ModerationDecision | null>;
+}
+
+/**
+ * Used unless the character sets `moderation.useDefaultBlocklist` to false.
+ * Characters add their own terms with `moderation.blocklist`.
+ */
+export const DEFAULT_MODERATION_BLOCKLIST = [
+    "nsfw",
+    "porn*",
+    "nude*",
+    "sex",
+    "fuck*",
+    "shit",
+    "shitty",
+    "bitch*",
+    // Not "ass", which the King James Bible uses for the animal
+    "asshole*",
+];
+
+const LEETSPEAK: Record<string, string> = {
+    "0": "o",
+    "1": "i",
+    "3": "e",
+    "4": "a",
+    "5": "s",
+    "7": "t",
+    "@": "a",
+    $: "s",
+};
+
+// Characters used to break up a word, as in "f.u.c.k"
+const SEPARATOR = "[._*\\-]*";
+
+/**
+ * Lowercases text, strips accents and replaces leetspeak characters, so
+ * "Ph0rn" and "pörn" are matched like the plain spelling.
+ */
+export function normalizeModerationText(text: string): string {
+    return text
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .replace(/[013457@$]/g, (char) => LEETSPEAK[char] ?? char);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the pattern of a blocklist or allowlist term. Terms match whole
+ * words only; a trailing "*" also matches longer words ("blasphem*"). Letters
+ * may be repeated or split by separators ("fuuuck", "f.u.c.k").
+ */
+export function compileModerationTerm(term: string): RegExp {
+    const normalized = normalizeModerationText(term.trim());
+    const isPrefix = normalized.endsWith("*");
+    const words = (isPrefix ? normalized.slice(0, -1) : normalized)
+        .split(/\s+/)
+        .filter(Boolean);
+
+    const body = words
+        .map((word) =>
+            Array.from(word)
+                .map((char) => `${escapeRegExp(char)}+`)
+                .join(SEPARATOR)
+        )
+        .join("\\s+");
+
+    return new RegExp(
+        `(?<![\\p{L}\\p{N}])${body}${isPrefix ? "[\\p{L}\\p{N}]*" : ""}(?![\\p{L}\\p{N}])`,
+        "gu"
+    );
+}
+
+/**
+ * Blocks text containing a blocklisted term. Allowlisted terms are removed
+ * before matching, so an allowlist entry like "sex education" lets that
+ * phrase through while "sex" stays blocked elsewhere.
+ */
+export class TermModerationStep implements ModerationStep {
+    readonly name = "blocklist";
+    private blocklist: { term: string; pattern: RegExp }[];
+    private allowlist: RegExp[];
+
+    constructor(blocklist: string[], allowlist: string[] = []) {
+        this.blocklist = blocklist
+            .filter((term) => term.trim())
+            .map((term) => ({ term, pattern: compileModerationTerm(term) }));
+        this.allowlist = allowlist
+            .filter((term) => term.trim())
+            .map(compileModerationTerm);
+    }
+
+    async check(text: string): Promise<ModerationDecision | null> {
+        let normalized = normalizeModerationText(text);
+        for (const pattern of this.allowlist) {
+            normalized = normalized.replace(pattern, " ");
+        }
+
+        for (const { term, pattern } of this.blocklist) {
+            pattern.lastIndex = 0;
+            const match = pattern.exec(normalized);
+            if (match) {
+                return {
+                    allowed: false,
+                    rule: `blocklist:${term}`,
+                    reason: `Matched "${match[0]}"`,
+                };
+            }
+        }
+        return null;
+    }
+}
+
+export const moderationClassifierTemplate = `# Task: Decide whether the following text is appropriate for {{agentName}} to {{action}}.
+Flag sexual content, hate speech, harassment, threats, self-harm and graphic violence.
+
+Text:
+"""
+{{text}}
+"""
+
+Respond with SAFE or UNSAFE on the first line, followed by a short reason.`;
+
+/**
+ * Asks the model whether the text is appropriate. Errors let the text through,
+ * so an unavailable model doesn't silence the agent.
+ */
+export class ClassifierModerationStep implements ModerationStep {
+    readonly name = "classifier";
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private options: {
+            template?: string;
+            modelClass?: ModelClass;
+        } = {}
+    ) {}
+
+    async check(
+        text: string,
+        context: ModerationContext
+    ): Promise<ModerationDecision | null> {
+        const prompt = (this.options.template ?? moderationClassifierTemplate)
+            .replaceAll("{{agentName}}", this.runtime.character.name)
+            .replaceAll(
+                "{{action}}",
+                context.direction === "inbound" ? "respond to" : "post"
+            )
+            .replaceAll("{{text}}", text);
+
+        try {
+            const response = await generateText({
+                runtime: this.runtime,
+                context: prompt,
+                modelClass: this.options.modelClass ?? ModelClass.SMALL,
+            });
+            const [verdict, ...reason] = response.trim().split("\n");
+            if (/\bUNSAFE\b/i.test(verdict)) {
+                return {
+                    allowed: false,
+                    rule: this.name,
+                    reason: reason.join(" ").trim() || verdict.trim(),
+                };
+            }
+        } catch (error) {
+            elizaLogger.error("[Moderation] Classifier failed:", error);
+        }
+        return null;
+    }
+}
+
+/**
+ * Runs text through the moderation steps in order and stops at the first one
+ * that blocks it. Every block is logged with the rule that fired.
+ */
+export class ContentModerator {
+    private steps: ModerationStep[] = [];
+
+    constructor(steps: ModerationStep[] = []) {
+        this.steps = [...steps];
+    }
+
+    addStep(step: ModerationStep): this {
+        this.steps.push(step);
+        return this;
+    }
+
+    async check(
+        text: string,
+        context: ModerationContext
+    ): Promise<ModerationDecision> {
+        if (!text?.trim()) {
+            return { allowed: true };
+        }
+
+        for (const step of this.steps) {
+            const decision = await step.check(text, context);
+            if (decision && !decision.allowed) {
+                const rule = decision.rule ?? step.name;
+                elizaLogger.warn(
+                    `[Moderation] Blocked ${context.direction} text${context.source ? ` from ${context.source}` : ""} by rule ${rule}: ${decision.reason ?? ""}`.trim()
+                );
+                return { ...decision, rule };
+            }
+        }
+        return { allowed: true };
+    }
+}
+
+/**
+ * Builds the moderation pipeline from the character's `moderation` settings:
+ * the blocklist step, then the model classifier when enabled.
+ */
+export function createContentModerator(
+    runtime: IAgentRuntime,
+    config: ContentModerationConfig = runtime.character?.moderation ?? {}
+): ContentModerator {
+    const blocklist = [
+        ...(config.useDefaultBlocklist === false
+            ? []
+            : DEFAULT_MODERATION_BLOCKLIST),
+        ...(config.blocklist ?? []),
+    ];
+    const moderator = new ContentModerator([
+        new TermModerationStep(blocklist, config.allowlist),
+    ]);
+
+    if (config.classifier?.enabled) {
+        moderator.addStep(
+            new ClassifierModerationStep(runtime, {
+                template: config.classifier.template,
+                modelClass: config.classifier.modelClass,
+            })
+        );
+    }
+    return moderator;
+}
@@ -1,4 +1,5 @@
-import type { ActionResponse } from "./types.ts";
+import { z } from "zod";
+import type { ActionResponse, TweetActionDecision } from "./types.ts";
 const jsonBlockPattern = /```json\n([\s\S]*?)\n```/;
 
 export const messageCompletionFooter = `\nResponse format should be formatted in a valid JSON block like this:
@@ -311,6 +312,58 @@ export const parseActionResponseFromText = (
     return { actions };
 };
 
+export const tweetActionDecisionsFooter = `Decide on each of the actions LIKE, RETWEET, QUOTE and REPLY: how confident you are that it is appropriate, from 0 (not at all) to 1 (certain), and why in one sentence.
+Response format should be formatted in a valid JSON block like this:
+\`\`\`json
+{
+    "decisions": [
+        { "action": "LIKE", "confidence": 0.9, "rationale": "<string>" },
+        { "action": "RETWEET", "confidence": 0.2, "rationale": "<string>" },
+        { "action": "QUOTE", "confidence": 0.1, "rationale": "<string>" },
+        { "action": "REPLY", "confidence": 0.4, "rationale": "<string>" }
+    ]
+}
+\`\`\``;
+
+export const tweetActionDecisionsSchema = z.object({
+    decisions: z.array(
+        z.object({
+            action: z.preprocess(
+                (action) =>
+                    typeof action === "string"
+                        ? action.replace(/[[\]]/g, "").trim().toUpperCase()
+                        : action,
+                z.enum(["LIKE", "RETWEET", "QUOTE", "REPLY"])
+            ),
+            confidence: z.coerce.number().min(0).max(1),
+            rationale: z.string().trim().min(1),
+        })
+    ),
+});
+
+/**
+ * Parses the decisions of a response to `tweetActionDecisionsFooter`, or
+ * returns null when it doesn't match the schema. Only the first decision on
+ * an action is kept.
+ */
+export function parseTweetActionDecisionsFromText(
+    text: string
+): TweetActionDecision[] | null {
+    const result = tweetActionDecisionsSchema.safeParse(
+        parseJSONObjectFromText(text)
+    );
+    if (!result.success) {
+        return null;
+    }
+    const decisions: TweetActionDecision[] = [];
+    for (const decision of result.data.decisions) {
+        if (!decisions.some(({ action }) => action === decision.action)) {
+            decisions.push(decision as TweetActionDecision);
+        }
+    }
+    return decisions;
+}
+
 /**
  * Truncate text to fit within the character limit, ensuring it ends at a complete sentence.
  */
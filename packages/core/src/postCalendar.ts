@@ -0,0 +1,583 @@
+import { v4 as uuidv4 } from "uuid";
+import { isDatabaseScheduledPostAdapter } from "./database.ts";
+import { elizaLogger } from "./logger.ts";
+import type {
+    IAgentRuntime,
+    IDatabaseScheduledPostAdapter,
+    PostingCalendarConfig,
+    ScheduledPost,
+    UUID,
+} from "./types.ts";
+
+export const DEFAULT_DRAFTS_AHEAD = 3;
+
+// Slots that passed longer ago than this (e.g. while the agent was offline) are skipped
+export const MISSED_POST_GRACE_MS = 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+// Cron matches are searched day by day; four years covers "29 2 *" style expressions
+const MAX_CRON_SEARCH_DAYS = 4 * 366;
+
+interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+}
+
+interface CronSchedule {
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    restrictsDayOfMonth: boolean;
+    restrictsDayOfWeek: boolean;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(timestamp)) {
+        if (part.type !== "literal") {
+            parts[part.type] = Number(part.value);
+        }
+    }
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+    };
+}
+
+function getTimezoneOffset(timestamp: number, timeZone: string): number {
+    const parts = getZonedParts(timestamp, timeZone);
+    const asUtc = Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute
+    );
+    return asUtc - Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to a timestamp. Times skipped by a
+ * DST change resolve to the same wall-clock time after the change.
+ */
+export function zonedTimeToTimestamp(
+    parts: ZonedParts,
+    timeZone: string
+): number {
+    const utcGuess = Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute
+    );
+    const offset = getTimezoneOffset(utcGuess, timeZone);
+    const result = utcGuess - offset;
+    const correctedOffset = getTimezoneOffset(result, timeZone);
+    return correctedOffset === offset ? result : utcGuess - correctedOffset;
+}
+
+/**
+ * Returns the calendar date `days` after the given date, with its weekday (0 = Sunday).
+ */
+function addDays(
+    date: Pick<ZonedParts, "year" | "month" | "day">,
+    days: number
+): { year: number; month: number; day: number; weekday: number } {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return {
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth() + 1,
+        day: shifted.getUTCDate(),
+        weekday: shifted.getUTCDay(),
+    };
+}
+
+function parseCronField(field: string, min: number, max: number): number[] {
+    const values = new Set<number>();
+
+    for (const part of field.split(",")) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid cron field "${field}"`);
+        }
+
+        const [, range, start, end, step] = match;
+        let from = range === "*" ? min : Number(start);
+        let to = range === "*" ? max : Number(end ?? start);
+        const increment = step ? Number(step) : 1;
+
+        // "5/15" means "from 5 to the end of the range, every 15"
+        if (step && range !== "*" && end === undefined) {
+            to = max;
+        }
+        if (from < min || to > max || from > to || increment < 1) {
+            throw new Error(`Invalid cron field "${field}"`);
+        }
+
+        for (; from <= to; from += increment) {
+            values.add(from);
+        }
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parses a five-field cron expression (minute hour day-of-month month day-of-week).
+ */
+function parseCronExpression(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(
+            `Invalid cron expression "${expression}": expected 5 fields`
+        );
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    return {
+        minutes: parseCronField(minute, 0, 59),
+        hours: parseCronField(hour, 0, 23),
+        daysOfMonth: new Set(parseCronField(dayOfMonth, 1, 31)),
+        months: new Set(parseCronField(month, 1, 12)),
+        // Both 0 and 7 mean Sunday
+        daysOfWeek: new Set(
+            parseCronField(dayOfWeek, 0, 7).map((day) => day % 7)
+        ),
+        restrictsDayOfMonth: dayOfMonth !== "*",
+        restrictsDayOfWeek: dayOfWeek !== "*",
+    };
+}
+
+function matchesCronDay(
+    schedule: CronSchedule,
+    date: { month: number; day: number; weekday: number }
+): boolean {
+    if (!schedule.months.has(date.month)) {
+        return false;
+    }
+
+    const dayOfMonth = schedule.daysOfMonth.has(date.day);
+    const dayOfWeek = schedule.daysOfWeek.has(date.weekday);
+
+    // Like standard cron, a restricted day-of-month and day-of-week match either
+    if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time after `after` matched by a cron expression in
+ * `timeZone`, or null if there is none within four years.
+ */
+export function getNextCronOccurrence(
+    expression: string,
+    after: number,
+    timeZone = "UTC"
+): number | null {
+    const schedule = parseCronExpression(expression);
+    const start = getZonedParts(after, timeZone);
+
+    for (let offset = 0; offset <= MAX_CRON_SEARCH_DAYS; offset++) {
+        const date = addDays(start, offset);
+        if (!matchesCronDay(schedule, date)) {
+            continue;
+        }
+
+        for (const hour of schedule.hours) {
+            for (const minute of schedule.minutes) {
+                const timestamp = zonedTimeToTimestamp(
+                    { ...date, hour, minute },
+                    timeZone
+                );
+                if (timestamp > after) {
+                    return timestamp;
+                }
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Returns the upcoming occurrences of an explicit slot after `after`.
+ * Daily slots yield `count` occurrences, one-off slots at most one.
+ */
+function getSlotOccurrences(
+    slot: string,
+    after: number,
+    count: number,
+    timeZone: string
+): number[] {
+    const daily = slot.match(/^(\d{1,2}):(\d{2})$/);
+    if (daily) {
+        const hour = Number(daily[1]);
+        const minute = Number(daily[2]);
+        if (hour > 23 || minute > 59) {
+            throw new Error(`Invalid posting slot "${slot}"`);
+        }
+
+        const start = getZonedParts(after, timeZone);
+        const occurrences: number[] = [];
+        for (let offset = 0; occurrences.length < count; offset++) {
+            const timestamp = zonedTimeToTimestamp(
+                { ...addDays(start, offset), hour, minute },
+                timeZone
+            );
+            if (timestamp > after) {
+                occurrences.push(timestamp);
+            }
+        }
+        return occurrences;
+    }
+
+    const local = slot.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+    const timestamp = local
+        ? zonedTimeToTimestamp(
+              {
+                  year: Number(local[1]),
+                  month: Number(local[2]),
+                  day: Number(local[3]),
+                  hour: Number(local[4]),
+                  minute: Number(local[5]),
+              },
+              timeZone
+          )
+        : Date.parse(slot);
+
+    if (Number.isNaN(timestamp)) {
+        throw new Error(`Invalid posting slot "${slot}"`);
+    }
+    return timestamp > after ? [timestamp] : [];
+}
+
+/**
+ * Returns the next `count` slot times of a posting calendar after `after`.
+ */
+export function getUpcomingSlots(
+    config: PostingCalendarConfig,
+    after: number,
+    count: number
+): number[] {
+    const timeZone = config.timezone || "UTC";
+    const slots = new Set<number>();
+
+    for (const expression of config.cron ?? []) {
+        let cursor = after;
+        for (let i = 0; i < count; i++) {
+            const next = getNextCronOccurrence(expression, cursor, timeZone);
+            if (next === null) break;
+            slots.add(next);
+            cursor = next;
+        }
+    }
+
+    for (const slot of config.slots ?? []) {
+        for (const timestamp of getSlotOccurrences(
+            slot,
+            after,
+            count,
+            timeZone
+        )) {
+            slots.add(timestamp);
+        }
+    }
+
+    return Array.from(slots)
+        .sort((a, b) => a - b)
+        .slice(0, count);
+}
+
+/**
+ * Callbacks a client provides to fill and publish calendar slots.
+ */
+export interface PostCalendarHandlers {
+    /** Generates the draft for an upcoming post, or returns null to retry later */
+    generateDraft(post: ScheduledPost): Promise<string | null>;
+
+    /**
+     * Publishes a due post, resolving to "PENDING_APPROVAL" if it was only
+     * sent for approval. Throwing marks the post as failed
+     */
+    publish(post: ScheduledPost): Promise<"POSTED" | "PENDING_APPROVAL" | void>;
+}
+
+/**
+ * A character's posting calendar for one client. Upcoming slots are stored as
+ * scheduled posts so they can be drafted ahead of time, pinned to
+ * human-written text, reordered or cancelled before they are published.
+ */
+export class PostCalendar {
+    constructor(
+        private db: IDatabaseScheduledPostAdapter,
+        readonly agentId: UUID,
+        readonly source: string,
+        readonly config: PostingCalendarConfig = {}
+    ) {}
+
+    /**
+     * Builds the calendar for the runtime's character, or returns null if the
+     * database adapter can't store scheduled posts.
+     */
+    static forRuntime(
+        runtime: IAgentRuntime,
+        source: string
+    ): PostCalendar | null {
+        if (!isDatabaseScheduledPostAdapter(runtime.databaseAdapter)) {
+            return null;
+        }
+
+        return new PostCalendar(
+            runtime.databaseAdapter,
+            runtime.agentId,
+            source,
+            runtime.character.postingCalendar
+        );
+    }
+
+    /**
+     * Whether the character configured any recurring or explicit slots.
+     */
+    hasSlots(): boolean {
+        return Boolean(this.config.cron?.length || this.config.slots?.length);
+    }
+
+    get draftsAhead(): number {
+        return this.config.draftsAhead ?? DEFAULT_DRAFTS_AHEAD;
+    }
+
+    /**
+     * Lists scheduled posts, earliest first. Only upcoming posts are returned
+     * unless `includeResolved` is set.
+     */
+    async list(
+        options: { includeResolved?: boolean; limit?: number } = {}
+    ): Promise<ScheduledPost[]> {
+        return this.db.getScheduledPosts({
+            agentId: this.agentId,
+            source: this.source,
+            status: options.includeResolved ? undefined : "SCHEDULED",
+            limit: options.limit,
+        });
+    }
+
+    async getPost(id: UUID): Promise<ScheduledPost | null> {
+        const post = await this.db.getScheduledPostById(id);
+        return post?.agentId === this.agentId && post.source === this.source
+            ? post
+            : null;
+    }
+
+    /**
+     * Creates scheduled posts for the next `draftsAhead` slots (at least one).
+     * Slots that already have a post, including cancelled ones, are left alone.
+     */
+    async sync(now = Date.now()): Promise<void> {
+        if (!this.hasSlots()) return;
+
+        const slots = getUpcomingSlots(
+            this.config,
+            now,
+            Math.max(this.draftsAhead, 1)
+        );
+        if (slots.length === 0) return;
+
+        const existing = await this.db.getScheduledPosts({
+            agentId: this.agentId,
+            source: this.source,
+            from: slots[0],
+            to: slots[slots.length - 1],
+        });
+        const taken = new Set(existing.map((post) => post.scheduledFor));
+
+        for (const scheduledFor of slots) {
+            if (taken.has(scheduledFor)) continue;
+
+            await this.db.createScheduledPost({
+                id: uuidv4() as UUID,
+                agentId: this.agentId,
+                source: this.source,
+                scheduledFor,
+                pinned: false,
+                status: "SCHEDULED",
+                createdAt: now,
+                updatedAt: now,
+            });
+        }
+    }
+
+    /**
+     * Pins human-written text to a time. If a post is already scheduled at
+     * that time its draft is replaced, otherwise a new post is added.
+     */
+    async pin(params: {
+        text: string;
+        scheduledFor: number;
+    }): Promise<ScheduledPost> {
+        const [existing] = await this.db.getScheduledPosts({
+            agentId: this.agentId,
+            source: this.source,
+            status: "SCHEDULED",
+            from: params.scheduledFor,
+            to: params.scheduledFor,
+            limit: 1,
+        });
+
+        if (existing) {
+            await this.db.updateScheduledPost({
+                id: existing.id,
+                text: params.text,
+                pinned: true,
+            });
+            return { ...existing, text: params.text, pinned: true };
+        }
+
+        const now = Date.now();
+        const post: ScheduledPost = {
+            id: uuidv4() as UUID,
+            agentId: this.agentId,
+            source: this.source,
+            scheduledFor: params.scheduledFor,
+            text: params.text,
+            pinned: true,
+            status: "SCHEDULED",
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.db.createScheduledPost(post);
+        return post;
+    }
+
+    async cancel(id: UUID): Promise<void> {
+        await this.db.updateScheduledPost({ id, status: "CANCELLED" });
+    }
+
+    /**
+     * Reassigns the slot times of the given scheduled posts so they are
+     * published in the given order. The set of slot times doesn't change.
+     */
+    async reorder(ids: UUID[]): Promise<ScheduledPost[]> {
+        const posts: ScheduledPost[] = [];
+        for (const id of ids) {
+            const post = await this.getPost(id);
+            if (!post || post.status !== "SCHEDULED") {
+                throw new Error(`Scheduled post ${id} not found`);
+            }
+            posts.push(post);
+        }
+
+        const times = posts
+            .map((post) => post.scheduledFor)
+            .sort((a, b) => a - b);
+
+        for (const [index, post] of posts.entries()) {
+            if (post.scheduledFor !== times[index]) {
+                await this.db.updateScheduledPost({
+                    id: post.id,
+                    scheduledFor: times[index],
+                });
+            }
+        }
+
+        return this.list();
+    }
+
+    /**
+     * Runs one calendar pass: adds posts for new slots, drafts the upcoming
+     * ones and publishes the posts that are due.
+     */
+    async tick(handlers: PostCalendarHandlers, now = Date.now()): Promise<void> {
+        await this.sync(now);
+
+        const scheduled = await this.list();
+        const due = scheduled.filter((post) => post.scheduledFor <= now);
+        const upcoming = scheduled
+            .filter((post) => post.scheduledFor > now)
+            .slice(0, this.draftsAhead);
+
+        for (const post of due) {
+            if (now - post.scheduledFor > MISSED_POST_GRACE_MS) {
+                elizaLogger.warn(
+                    `Skipping scheduled post ${post.id}, its slot passed at ${new Date(post.scheduledFor).toISOString()}`
+                );
+                await this.db.updateScheduledPost({
+                    id: post.id,
+                    status: "MISSED",
+                });
+                continue;
+            }
+
+            try {
+                const text = post.text || (await handlers.generateDraft(post));
+                if (!text) {
+                    elizaLogger.warn(
+                        `No text for scheduled post ${post.id}, retrying on the next pass`
+                    );
+                    continue;
+                }
+
+                const status = await handlers.publish({ ...post, text });
+                await this.db.updateScheduledPost({
+                    id: post.id,
+                    text,
+                    status: status || "POSTED",
+                });
+            } catch (error) {
+                elizaLogger.error(
+                    `Error publishing scheduled post ${post.id}:`,
+                    error
+                );
+                await this.db.updateScheduledPost({
+                    id: post.id,
+                    status: "FAILED",
+                });
+            }
+        }
+
+        for (const post of upcoming) {
+            if (post.text) continue;
+
+            try {
+                const text = await handlers.generateDraft(post);
+                if (text) {
+                    await this.db.updateScheduledPost({ id: post.id, text });
+                }
+            } catch (error) {
+                elizaLogger.error(
+                    `Error drafting scheduled post ${post.id}:`,
+                    error
+                );
+            }
+        }
+    }
+}
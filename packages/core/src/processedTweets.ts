@@ -0,0 +1,168 @@
+import { isDatabaseProcessedTweetAdapter } from "./database.ts";
+import type {
+    IAgentRuntime,
+    ProcessedTweet,
+    ProcessedTweetAction,
+} from "./types.ts";
+
+function getProcessedTweetKey(tweetId: string): string {
+    return `twitter/processed/${tweetId}`;
+}
+
+// Cache updates in progress by key. The cache has no atomic insert, so the
+// updates of a tweet's records are chained for the stores of one process not
+// to claim the same action at once
+const cacheUpdates = new Map<string, Promise<unknown>>();
+
+function updateCache<T>(key: string, update: () => Promise<T>): Promise<T> {
+    const result = (cacheUpdates.get(key) ?? Promise.resolve()).then(update);
+    const settled = result.then(
+        () => {},
+        () => {}
+    );
+    cacheUpdates.set(key, settled);
+    settled.then(() => {
+        if (cacheUpdates.get(key) === settled) {
+            cacheUpdates.delete(key);
+        }
+    });
+    return result;
+}
+
+/**
+ * Records which tweets an agent already processed, replied to, liked,
+ * retweeted or quoted. Every Twitter client of an agent shares the records,
+ * so running several of them never acts on a tweet twice.
+ *
+ * Records are kept in the database when the adapter supports it
+ * ({@link IDatabaseProcessedTweetAdapter}), and in the runtime cache otherwise.
+ */
+export class ProcessedTweetStore {
+    constructor(private readonly runtime: IAgentRuntime) {}
+
+    /**
+     * Returns the actions recorded for a tweet, newest first.
+     */
+    async getActions(tweetId: string): Promise<ProcessedTweetAction[]> {
+        return (await this.getRecords(tweetId)).map((record) => record.action);
+    }
+
+    /**
+     * Whether any of the given actions, or any action at all, was recorded.
+     */
+    async has(
+        tweetId: string,
+        action?: ProcessedTweetAction | ProcessedTweetAction[]
+    ): Promise<boolean> {
+        const actions = await this.getActions(tweetId);
+        if (!action) {
+            return actions.length > 0;
+        }
+        const wanted = Array.isArray(action) ? action : [action];
+        return actions.some((recorded) => wanted.includes(recorded));
+    }
+
+    /**
+     * Records an action on a tweet.
+     *
+     * @param resultTweetId Tweet created by the action, e.g. the reply
+     * @returns Whether the action was newly recorded
+     */
+    async mark(
+        tweetId: string,
+        action: ProcessedTweetAction,
+        resultTweetId?: string
+    ): Promise<boolean> {
+        const record: ProcessedTweet = {
+            agentId: this.runtime.agentId,
+            tweetId,
+            action,
+            resultTweetId,
+            createdAt: Date.now(),
+        };
+
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseProcessedTweetAdapter(db)) {
+            return db.addProcessedTweet(record);
+        }
+
+        const key = `${this.runtime.agentId}/${getProcessedTweetKey(tweetId)}`;
+        return updateCache(key, async () => {
+            const records = await this.getRecords(tweetId);
+            if (records.some((existing) => existing.action === action)) {
+                return false;
+            }
+            await this.runtime.cacheManager.set(
+                getProcessedTweetKey(tweetId),
+                [record, ...records]
+            );
+            return true;
+        });
+    }
+
+    /**
+     * Removes a recorded action, e.g. to retry a reply that failed.
+     */
+    async unmark(tweetId: string, action: ProcessedTweetAction): Promise<void> {
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseProcessedTweetAdapter(db)) {
+            await db.removeProcessedTweet({
+                agentId: this.runtime.agentId,
+                tweetId,
+                action,
+            });
+            return;
+        }
+
+        const key = `${this.runtime.agentId}/${getProcessedTweetKey(tweetId)}`;
+        await updateCache(key, async () => {
+            const records = (await this.getRecords(tweetId)).filter(
+                (record) => record.action !== action
+            );
+            if (records.length === 0) {
+                await this.runtime.cacheManager.delete(
+                    getProcessedTweetKey(tweetId)
+                );
+            } else {
+                await this.runtime.cacheManager.set(
+                    getProcessedTweetKey(tweetId),
+                    records
+                );
+            }
+        });
+    }
+
+    /**
+     * Returns the most recent records across all tweets, newest first. Only
+     * available with a database adapter; the cache cannot be listed.
+     */
+    async getRecent(params: {
+        action?: ProcessedTweetAction | ProcessedTweetAction[];
+        limit?: number;
+    }): Promise<ProcessedTweet[]> {
+        const db = this.runtime.databaseAdapter;
+        if (!isDatabaseProcessedTweetAdapter(db)) {
+            return [];
+        }
+        return db.getProcessedTweets({
+            agentId: this.runtime.agentId,
+            action: params.action,
+            limit: params.limit,
+        });
+    }
+
+    private async getRecords(tweetId: string): Promise<ProcessedTweet[]> {
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseProcessedTweetAdapter(db)) {
+            return db.getProcessedTweets({
+                agentId: this.runtime.agentId,
+                tweetId,
+            });
+        }
+        return (
+            (await this.runtime.cacheManager.get<ProcessedTweet[]>(
+                getProcessedTweetKey(tweetId)
+            )) ?? []
+        );
+    }
+}
@@ -1,9 +1,14 @@
+import { sha1 } from "js-sha1";
 import { embed } from "./embedding.ts";
 import { splitChunks } from "./generation.ts";
+import { chunkKnowledge, describeChunking } from "./knowledgeChunking.ts";
 import elizaLogger from "./logger.ts";
 import {
     type IAgentRuntime,
     type IRAGKnowledgeManager,
+    type KnowledgeChunk,
+    type RAGIndexingStatus,
+    type RAGKnowledgeIndex,
     type RAGKnowledgeItem,
     type UUID,
     KnowledgeScope,
@@ -23,6 +28,17 @@ interface IAgentRuntimeWithEmbedding extends IAgentRuntime {
     generateEmbedding(text: string): Promise<number[]>;
 }
 
+// Chunks embedded at a time
+const EMBEDDING_BATCH_SIZE = 10;
+
+function getIndexKey(documentId: UUID): string {
+    return `ragknowledge/${documentId}/index`;
+}
+
+function getChunkId(documentId: UUID, checksum: string): UUID {
+    return `${documentId}-chunk-${checksum}` as UUID;
+}
+
 /**
  * Manage knowledge in the database.
  */
@@ -42,6 +58,11 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
      */
     knowledgeRoot: string;
 
+    /**
+     * Where indexing each knowledge file is at, by path
+     */
+    private readonly indexingStatus = new Map<string, RAGIndexingStatus>();
+
     /**
      * Constructs a new KnowledgeManager instance.
      * @param opts Options for the manager.
@@ -345,28 +366,229 @@ export class RAGKnowledgeManager implements IRAGKnowledgeManager {
         isShared: boolean;
     }): Promise<void> {
         const { path, content, type, isShared } = file;
-        const id = this.generateScopedId(path, isShared);
-        const embedding = await this.runtime.generateEmbedding(content);
-        const embeddingInfo = {
-            embedding_dim: embedding.length,
-            embedding_type: type,
-            embedding_version: '1.0',
-            embedding_provider: this.runtime.embeddingProvider || 'default',
-            embedding_model: this.runtime.embeddingModel || 'default',
-            embedding_checksum: await this.generateEmbeddingChecksum(embedding)
+        const options = this.runtime.character?.settings?.ragChunking;
+        const document = {
+            path,
+            isShared,
+            checksum: sha1(content),
+            chunking: describeChunking(options),
+        };
+        if (await this.getUnchangedIndex(document)) {
+            elizaLogger.info(
+                `${isShared ? "Shared knowledge" : "Knowledge"} ${path} unchanged, skipping`
+            );
+            return;
+        }
+
+        await this.indexDocument({
+            ...document,
+            text: path,
+            metadata: { type },
+            chunks: chunkKnowledge(content, options),
+        });
+    }
+
+    /**
+     * Returns the index of a document when it is already indexed with the
+     * same content and chunking, so there is nothing to do.
+     */
+    async getUnchangedIndex(document: {
+        path: string;
+        isShared: boolean;
+        checksum: string;
+        chunking: string;
+    }): Promise<RAGKnowledgeIndex | undefined> {
+        const index = await this.getIndex(
+            this.generateScopedId(document.path, document.isShared)
+        );
+        if (
+            index?.checksum !== document.checksum ||
+            index.chunking !== document.chunking
+        ) {
+            return undefined;
+        }
+
+        const now = Date.now();
+        this.indexingStatus.set(document.path, {
+            path: document.path,
+            state: "unchanged",
+            chunks: index.chunks.length,
+            embedded: 0,
+            toEmbed: 0,
+            removed: 0,
+            startedAt: now,
+            finishedAt: now,
+        });
+        return index;
+    }
+
+    /**
+     * Indexes the chunks of a document. Chunks are identified by the
+     * checksum of their text, so only those new to the document are
+     * embedded and only those gone from it are removed.
+     */
+    async indexDocument(document: {
+        path: string;
+        isShared: boolean;
+        checksum: string;
+        chunking: string;
+        text: string;
+        metadata: Record<string, unknown>;
+        chunks: KnowledgeChunk[];
+    }): Promise<RAGKnowledgeIndex> {
+        const { path, isShared } = document;
+        const documentId = this.generateScopedId(path, isShared);
+        const status: RAGIndexingStatus = {
+            path,
+            state: "indexing",
+            chunks: document.chunks.length,
+            embedded: 0,
+            toEmbed: 0,
+            removed: 0,
+            startedAt: Date.now(),
         };
+        this.indexingStatus.set(path, status);
+
+        try {
+            const [existing] = await this.runtime.databaseAdapter.getKnowledge(
+                { id: documentId, agentId: this.runtime.agentId }
+            );
+            const previous = existing
+                ? await this.runtime.cacheManager.get<RAGKnowledgeIndex>(
+                      getIndexKey(documentId)
+                  )
+                : undefined;
+            if (!previous) {
+                // Indexed before its chunks were tracked, start over
+                if (existing) {
+                    await this.removeKnowledge(documentId);
+                }
+                await this.createKnowledge({
+                    id: documentId,
+                    agentId: this.runtime.agentId,
+                    content: {
+                        text: document.text,
+                        metadata: {
+                            ...document.metadata,
+                            isMain: true,
+                            source: path,
+                            isShared,
+                        },
+                    },
+                });
+            }
+
+            const chunks = new Map(
+                document.chunks.map((chunk) => [sha1(chunk.text), chunk])
+            );
+            const indexed = new Set(previous?.chunks);
+            const added = Array.from(chunks).filter(
+                ([checksum]) => !indexed.has(checksum)
+            );
+            const removed = Array.from(indexed).filter(
+                (checksum) => !chunks.has(checksum)
+            );
+            status.toEmbed = added.length;
+
+            for (let i = 0; i < added.length; i += EMBEDDING_BATCH_SIZE) {
+                await Promise.all(
+                    added
+                        .slice(i, i + EMBEDDING_BATCH_SIZE)
+                        .map(([checksum, chunk]) =>
+                            this.embedChunk(documentId, checksum, chunk, document)
+                        )
+                );
+                status.embedded = Math.min(
+                    i + EMBEDDING_BATCH_SIZE,
+                    added.length
+                );
+                if (status.embedded % 1000 === 0) {
+                    elizaLogger.debug(
+                        `[RAG Index] Embedded ${status.embedded}/${added.length} chunks of ${path}`
+                    );
+                }
+            }
+            for (const checksum of removed) {
+                await this.removeKnowledge(getChunkId(documentId, checksum));
+                status.removed++;
+            }
+
+            const index: RAGKnowledgeIndex = {
+                checksum: document.checksum,
+                chunking: document.chunking,
+                chunks: Array.from(chunks.keys()),
+                metadata: document.metadata,
+                indexedAt: Date.now(),
+            };
+            await this.runtime.cacheManager.set(getIndexKey(documentId), index);
+
+            status.state = "indexed";
+            status.finishedAt = Date.now();
+            elizaLogger.info(
+                `[RAG Index] ${path}: ${added.length} chunks embedded, ${removed.length} removed, ${chunks.size - added.length} unchanged`
+            );
+            return index;
+        } catch (error) {
+            status.state = "failed";
+            status.error =
+                error instanceof Error ? error.message : String(error);
+            status.finishedAt = Date.now();
+            throw error;
+        }
+    }
+
+    /**
+     * Where indexing the knowledge files is at, for those processed since
+     * the agent started.
+     */
+    getIndexingStatus(): RAGIndexingStatus[] {
+        return Array.from(this.indexingStatus.values(), (status) => ({
+            ...status,
+        }));
+    }
 
-        await this.storeRAGEmbedding({
-            id,
-            content,
-            embedding,
-            metadata: {
-                path,
-                type,
-                isShared,
-                isMain: true
+    // An index is only good as long as its document, which its chunks go with
+    private async getIndex(
+        documentId: UUID
+    ): Promise<RAGKnowledgeIndex | undefined> {
+        const [document] = await this.runtime.databaseAdapter.getKnowledge({
+            id: documentId,
+            agentId: this.runtime.agentId,
+        });
+        if (!document) {
+            return undefined;
+        }
+        return this.runtime.cacheManager.get<RAGKnowledgeIndex>(
+            getIndexKey(documentId)
+        );
+    }
+
+    private async embedChunk(
+        documentId: UUID,
+        checksum: string,
+        chunk: KnowledgeChunk,
+        document: {
+            path: string;
+            isShared: boolean;
+            metadata: Record<string, unknown>;
+        }
+    ): Promise<void> {
+        const embedding = await embed(this.runtime, chunk.text);
+        await this.createKnowledge({
+            id: getChunkId(documentId, checksum),
+            agentId: this.runtime.agentId,
+            content: {
+                text: chunk.text,
+                metadata: {
+                    ...chunk.metadata,
+                    isChunk: true,
+                    originalId: documentId,
+                    type: document.metadata.type as string | undefined,
+                    source: document.path,
+                    isShared: document.isShared,
+                },
             },
-            embeddingInfo
+            embedding: new Float32Array(embedding),
         });
     }
 
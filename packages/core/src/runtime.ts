@@ -7,6 +7,7 @@ import {
     formatActionNames,
     formatActions,
 } from "./actions.ts";
+import { hasCapabilityLifecycle } from "./capabilities.ts";
 import { addHeader, composeContext } from "./context.ts";
 import {
     evaluationTemplate,
@@ -24,8 +25,10 @@ import { parseJsonArrayFromText } from "./parsing.ts";
 import { formatPosts } from "./posts.ts";
 import { getProviders } from "./providers.ts";
 import { RAGKnowledgeManager } from "./ragknowledge.ts";
+import { ScriptureLibrary } from "./scripture.ts";
 import settings from "./settings.ts";
 import {
+    type CapabilityKey,
     type Character,
     type Goal,
     type HandlerCallback,
@@ -174,6 +177,8 @@ export class AgentRuntime implements IAgentRuntime {
     private readonly knowledgeRoot: string;
 
     services: Map<ServiceType, Service> = new Map();
+    // Registration order is the initialization order
+    private capabilities: Map<string, unknown> = new Map();
     memoryManagers: Map<string, IMemoryManager> = new Map();
     cacheManager: ICacheManager;
     clients: ClientInstance[] = [];
@@ -238,6 +243,71 @@ export class AgentRuntime implements IAgentRuntime {
         elizaLogger.success(`${this.character.name}(${this.agentId}) - Service ${serviceType} registered successfully`);
     }
 
+    registerCapability<T>(key: CapabilityKey<T>, implementation: T): void {
+        if (this.capabilities.has(key.name)) {
+            elizaLogger.warn(
+                `${this.character.name}(${this.agentId}) - Capability ${key.name} is already registered. Skipping registration.`
+            );
+            return;
+        }
+        this.capabilities.set(key.name, implementation);
+        elizaLogger.log(
+            `${this.character.name}(${this.agentId}) - Registered capability ${key.name}`
+        );
+    }
+
+    getCapability<T>(key: CapabilityKey<T>): T | null {
+        return (this.capabilities.get(key.name) as T | undefined) ?? null;
+    }
+
+    requireCapability<T>(key: CapabilityKey<T>): T {
+        const implementation = this.getCapability(key);
+        if (implementation === null) {
+            throw new Error(
+                `${this.character.name}(${this.agentId}) - Capability ${key.name} is not registered`
+            );
+        }
+        return implementation;
+    }
+
+    /**
+     * Checks that every capability a plugin requires is registered, then
+     * initializes the capabilities in registration order.
+     */
+    private async initializeCapabilities() {
+        for (const plugin of this.plugins) {
+            const missing = (plugin.requiredCapabilities ?? []).filter(
+                (key) => !this.capabilities.has(key.name)
+            );
+            if (missing.length > 0) {
+                throw new Error(
+                    `Plugin ${plugin.name} requires capabilities that are not registered: ${missing.map((key) => key.name).join(", ")}`
+                );
+            }
+        }
+
+        for (const [name, implementation] of this.capabilities.entries()) {
+            if (
+                !hasCapabilityLifecycle(implementation) ||
+                !implementation.initialize
+            ) {
+                continue;
+            }
+            try {
+                await implementation.initialize(this);
+                elizaLogger.success(
+                    `${this.character.name}(${this.agentId}) - Capability ${name} initialized successfully`
+                );
+            } catch (error) {
+                elizaLogger.error(
+                    `${this.character.name}(${this.agentId}) - Failed to initialize capability ${name}:`,
+                    error
+                );
+                throw error;
+            }
+        }
+    }
+
     /**
      * Creates an instance of AgentRuntime.
      * @param opts - The options for configuring the AgentRuntime.
@@ -275,6 +345,7 @@ export class AgentRuntime implements IAgentRuntime {
         speechModelPath?: string;
         cacheManager?: ICacheManager;
         logging?: boolean;
+        knowledgeRoot?: string; // Directory knowledge file paths are relative to, defaults to agent/Knowledge
         // verifiableInferenceAdapter?: IVerifiableInferenceAdapter;
     }) {
         // use the character id if it exists, otherwise use the agentId if it is passed in, otherwise use the character name
@@ -299,11 +370,8 @@ export class AgentRuntime implements IAgentRuntime {
         );
 
         // Define the root path once
-        this.knowledgeRoot = join(
-            process.cwd(),
-            "agent",
-            "Knowledge"
-        );
+        this.knowledgeRoot =
+            opts.knowledgeRoot ?? join(process.cwd(), "agent", "Knowledge");
 
         elizaLogger.debug(
             `[AgentRuntime] Process knowledgeRoot: ${this.knowledgeRoot}`,
@@ -438,6 +506,10 @@ export class AgentRuntime implements IAgentRuntime {
             plugin.adapters?.forEach((adapter) => {
                 this.registerAdapter(adapter);
             });
+
+            plugin.capabilities?.forEach(({ key, implementation }) => {
+                this.registerCapability(key, implementation);
+            });
         });
 
         (opts.actions ?? []).forEach((action) => {
@@ -472,6 +544,8 @@ export class AgentRuntime implements IAgentRuntime {
     async initialize() {
         this.initializeDatabase();
 
+        await this.initializeCapabilities();
+
         for (const [serviceType, service] of this.services.entries()) {
             try {
                 await service.initialize(this);
@@ -609,6 +683,23 @@ export class AgentRuntime implements IAgentRuntime {
             );
             c.stop(this);
         }
+
+        // Capabilities stop after the clients that may still use them
+        for (const [name, implementation] of Array.from(
+            this.capabilities.entries()
+        ).reverse()) {
+            if (!hasCapabilityLifecycle(implementation) || !implementation.stop) {
+                continue;
+            }
+            try {
+                await implementation.stop(this);
+            } catch (error) {
+                elizaLogger.error(
+                    `${this.character.name}(${this.agentId}) - Failed to stop capability ${name}:`,
+                    error
+                );
+            }
+        }
         // we don't need to unregister with directClient
         // don't need to worry about knowledge
     }
@@ -684,49 +775,10 @@ export class AgentRuntime implements IAgentRuntime {
                 // Check if it's a file or direct knowledge
                 if (
                     fileExtension &&
-                    ["md", "txt", "pdf"].includes(fileExtension)
+                    ["md", "txt", "pdf", "xml"].includes(fileExtension)
                 ) {
                     try {
                         const filePath = join(this.knowledgeRoot, contentItem);
-                        // Get existing knowledge first with more detailed logging
-                        elizaLogger.debug("[RAG Query]", {
-                            knowledgeId,
-                            agentId: this.agentId,
-                            relativePath: contentItem,
-                            fullPath: filePath,
-                            isShared,
-                            knowledgeRoot: this.knowledgeRoot,
-                        });
-
-                        // Get existing knowledge first
-                        const existingKnowledge =
-                            await this.ragKnowledgeManager.getKnowledge({
-                                id: knowledgeId,
-                                agentId: this.agentId, // Keep agentId as it's used in OR query
-                            });
-
-                        elizaLogger.debug("[RAG Query Result]", {
-                            relativePath: contentItem,
-                            fullPath: filePath,
-                            knowledgeId,
-                            isShared,
-                            exists: existingKnowledge.length > 0,
-                            knowledgeCount: existingKnowledge.length,
-                            firstResult: existingKnowledge[0]
-                                ? {
-                                      id: existingKnowledge[0].id,
-                                      agentId: existingKnowledge[0].agentId,
-                                      contentLength:
-                                          existingKnowledge[0].content.text
-                                              .length,
-                                  }
-                                : null,
-                            results: existingKnowledge.map((k) => ({
-                                id: k.id,
-                                agentId: k.agentId,
-                                isBaseKnowledge: !k.id.includes("chunk"),
-                            })),
-                        });
 
                         // Read file content
                         const content: string = await readFile(
@@ -738,43 +790,25 @@ export class AgentRuntime implements IAgentRuntime {
                             continue;
                         }
 
-                        if (existingKnowledge.length > 0) {
-                            const existingContent =
-                                existingKnowledge[0].content.text;
-
-                            elizaLogger.debug("[RAG Compare]", {
+                        // XML knowledge is scripture, imported verse by verse
+                        if (fileExtension === "xml") {
+                            const translation = await new ScriptureLibrary(
+                                this
+                            ).import({
                                 path: contentItem,
-                                knowledgeId,
+                                content,
                                 isShared,
-                                existingContentLength: existingContent.length,
-                                newContentLength: content.length,
-                                contentSample: content.slice(0, 100),
-                                existingContentSample: existingContent.slice(
-                                    0,
-                                    100,
-                                ),
-                                matches: existingContent === content,
                             });
-
-                            if (existingContent === content) {
-                                elizaLogger.info(
-                                    `${isShared ? "Shared knowledge" : "Knowledge"} ${contentItem} unchanged, skipping`,
+                            if (!translation) {
+                                elizaLogger.warn(
+                                    `${contentItem} is not an OSIS, USFX or Zefania source, skipping`
                                 );
-                                continue;
                             }
-
-                            // Content changed, remove old knowledge before adding new
-                            elizaLogger.info(
-                                `${isShared ? "Shared knowledge" : "Knowledge"} ${contentItem} changed, updating...`,
-                            );
-                            await this.ragKnowledgeManager.removeKnowledge(
-                                knowledgeId,
-                            );
-                            await this.ragKnowledgeManager.removeKnowledge(
-                                `${knowledgeId}-chunk-*` as UUID,
-                            );
+                            continue;
                         }
 
+                        // Unchanged files are skipped, changed ones only
+                        // have their changed chunks indexed again
                         elizaLogger.info(
                             `Processing ${fileExtension.toUpperCase()} file content for`,
                             this.character.name,
@@ -875,7 +909,7 @@ export class AgentRuntime implements IAgentRuntime {
 
             elizaLogger.debug(`[RAG Directory] Searching in: ${dirPath}`);
             // Use glob to find all matching files in directory
-            const files = await glob("**/*.{md,txt,pdf}", {
+            const files = await glob("**/*.{md,txt,pdf,xml}", {
                 cwd: dirPath,
                 nodir: true,
                 absolute: false,
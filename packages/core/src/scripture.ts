@@ -0,0 +1,642 @@
+import { sha1 } from "js-sha1";
+import { basename } from "path";
+import { isDatabaseScriptureAdapter } from "./database.ts";
+import { chunkVerses, getChunkingOptions } from "./knowledgeChunking.ts";
+import { isSameLanguage } from "./languages.ts";
+import elizaLogger from "./logger.ts";
+import { getScriptureBook } from "./scriptureBooks.ts";
+import {
+    parseScriptureReference,
+    type ScriptureReference,
+} from "./scriptureReferences.ts";
+import type {
+    IAgentRuntime,
+    ScriptureFormat,
+    ScriptureTranslation,
+    ScriptureVerse,
+} from "./types.ts";
+
+type XmlToken =
+    | {
+          type: "open";
+          name: string;
+          attributes: Record<string, string>;
+          selfClosing: boolean;
+      }
+    | { type: "close"; name: string }
+    | { type: "text"; text: string };
+
+const XML_TOKEN_PATTERN =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const XML_ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+};
+
+function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+        if (code[0] === "#") {
+            const codePoint =
+                code[1] === "x" || code[1] === "X"
+                    ? Number.parseInt(code.slice(2), 16)
+                    : Number.parseInt(code.slice(1), 10);
+            return String.fromCodePoint(codePoint);
+        }
+        return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+// Element and attribute names are compared in lower case, without namespace
+function normalizeXmlName(name: string): string {
+    return name.replace(/^[^:]*:(?!lang)/, "").toLowerCase();
+}
+
+/**
+ * Reads the elements and text of an XML document, without building it. The
+ * sources are large, and their structure is simple enough.
+ */
+function* readXml(xml: string): Generator<XmlToken> {
+    let position = 0;
+    for (const match of xml.matchAll(XML_TOKEN_PATTERN)) {
+        if (match.index > position) {
+            yield {
+                type: "text",
+                text: decodeXmlEntities(xml.slice(position, match.index)),
+            };
+        }
+        position = match.index + match[0].length;
+
+        const [, cdata, closeName, openName, attributes, selfClosing] = match;
+        if (cdata !== undefined) {
+            yield { type: "text", text: cdata };
+        } else if (closeName) {
+            yield { type: "close", name: normalizeXmlName(closeName) };
+        } else if (openName) {
+            const parsed: Record<string, string> = {};
+            for (const [, name, double, single] of (
+                attributes ?? ""
+            ).matchAll(XML_ATTRIBUTE_PATTERN)) {
+                parsed[normalizeXmlName(name)] = decodeXmlEntities(
+                    double ?? single
+                );
+            }
+            yield {
+                type: "open",
+                name: normalizeXmlName(openName),
+                attributes: parsed,
+                selfClosing: selfClosing === "/",
+            };
+        }
+    }
+    if (position < xml.length) {
+        yield { type: "text", text: decodeXmlEntities(xml.slice(position)) };
+    }
+}
+
+/**
+ * Tells the format of a scripture source from its root element, or returns
+ * null when it isn't one.
+ */
+export function detectScriptureFormat(xml: string): ScriptureFormat | null {
+    for (const token of readXml(xml.slice(0, 4096))) {
+        if (token.type !== "open") continue;
+        switch (token.name) {
+            case "osis":
+                return "osis";
+            case "usfx":
+                return "usfx";
+            case "xmlbible":
+                return "zefania";
+            default:
+                return null;
+        }
+    }
+    return null;
+}
+
+type ParsedVerse = Pick<ScriptureVerse, "book" | "chapter" | "verse" | "text">;
+
+/**
+ * Collects the text of verses, leaving out notes, headings and the like.
+ */
+class VerseCollector {
+    verses: ParsedVerse[] = [];
+    private current: Omit<ParsedVerse, "text"> | null = null;
+    private text: string[] = [];
+    private skipped = 0;
+
+    constructor(
+        private readonly skippedElements: Set<string>,
+        private readonly blockElements: Set<string>
+    ) {}
+
+    get inVerse(): boolean {
+        return this.current !== null;
+    }
+
+    start(book: string, chapter: number, verse: number): void {
+        this.end();
+        if (Number.isNaN(chapter) || Number.isNaN(verse)) return;
+        this.current = { book, chapter, verse };
+    }
+
+    end(): void {
+        if (this.current) {
+            const text = this.text.join("").replace(/\s+/g, " ").trim();
+            if (text) {
+                this.verses.push({ ...this.current, text });
+            }
+        }
+        this.current = null;
+        this.text = [];
+    }
+
+    /**
+     * Follows the elements around verse text. Returns false for the
+     * elements of skipped content.
+     */
+    element(token: Exclude<XmlToken, { type: "text" }>): boolean {
+        if (this.skippedElements.has(token.name)) {
+            if (token.type === "close") {
+                this.skipped = Math.max(0, this.skipped - 1);
+            } else if (!token.selfClosing) {
+                this.skipped++;
+            }
+            return false;
+        }
+        if (this.current && this.blockElements.has(token.name)) {
+            this.text.push(" ");
+        }
+        return this.skipped === 0;
+    }
+
+    add(text: string): void {
+        if (this.current && this.skipped === 0) {
+            this.text.push(text);
+        }
+    }
+}
+
+interface ParsedScripture {
+    name?: string;
+    language?: string;
+    identifier?: string;
+    verses: ParsedVerse[];
+}
+
+function parseOsis(xml: string): ParsedScripture {
+    const result: ParsedScripture = { verses: [] };
+    const collector = new VerseCollector(
+        new Set(["note", "title", "header", "rdg"]),
+        new Set(["l", "lb", "lg", "p", "div", "chapter", "list", "item"])
+    );
+    let inWork = false;
+    let inWorkTitle = false;
+
+    for (const token of readXml(xml)) {
+        if (token.type === "text") {
+            if (inWorkTitle && !result.name) {
+                result.name = token.text.trim() || undefined;
+            }
+            collector.add(token.text);
+            continue;
+        }
+
+        if (token.name === "work") {
+            inWork = token.type === "open" && !token.selfClosing;
+        } else if (token.name === "title" && inWork) {
+            inWorkTitle = token.type === "open" && !token.selfClosing;
+        } else if (token.name === "osistext" && token.type === "open") {
+            result.identifier = token.attributes.osisidwork;
+            result.language = token.attributes["xml:lang"];
+        }
+        if (!collector.element(token) || token.name !== "verse") continue;
+
+        if (token.type === "close") {
+            collector.end();
+        } else if (token.attributes.eid) {
+            collector.end();
+        } else if (token.attributes.osisid) {
+            // The first of the verses a verse element covers
+            const [book, chapter, verse] = token.attributes.osisid
+                .split(/\s+/)[0]
+                .split(".");
+            collector.start(
+                getScriptureBook(book)?.id ?? book,
+                Number(chapter),
+                Number.parseInt(verse, 10)
+            );
+        }
+    }
+    collector.end();
+    result.verses = collector.verses;
+    return result;
+}
+
+function parseUsfx(xml: string): ParsedScripture {
+    const result: ParsedScripture = { verses: [] };
+    const collector = new VerseCollector(
+        new Set([
+            "f",
+            "x",
+            "fe",
+            "h",
+            "toc",
+            "s",
+            "id",
+            "ide",
+            "rem",
+            "d",
+            "fig",
+            "ms",
+            "mt",
+            "cl",
+            "cp",
+            "sts",
+        ]),
+        new Set(["p", "q", "b", "li", "br", "pi", "m", "nb", "qc", "qr"])
+    );
+    let inLanguageCode = false;
+    let book: string | null = null;
+    let chapter = 0;
+
+    for (const token of readXml(xml)) {
+        if (token.type === "text") {
+            if (inLanguageCode) {
+                result.language = token.text.trim() || undefined;
+            }
+            collector.add(token.text);
+            continue;
+        }
+        if (token.name === "languagecode") {
+            inLanguageCode = token.type === "open" && !token.selfClosing;
+            continue;
+        }
+        if (!collector.element(token)) continue;
+
+        if (token.type === "close") {
+            if (token.name === "book") {
+                collector.end();
+                book = null;
+            }
+            continue;
+        }
+        switch (token.name) {
+            case "book": {
+                const code = token.attributes.id;
+                book = code ? (getScriptureBook(code)?.id ?? code) : null;
+                chapter = 0;
+                break;
+            }
+            case "c":
+                collector.end();
+                chapter = Number.parseInt(token.attributes.id, 10);
+                break;
+            case "v":
+                if (book) {
+                    collector.start(
+                        book,
+                        chapter,
+                        Number.parseInt(token.attributes.id, 10)
+                    );
+                }
+                break;
+            case "ve":
+                collector.end();
+                break;
+        }
+    }
+    collector.end();
+    result.verses = collector.verses;
+    return result;
+}
+
+function parseZefania(xml: string): ParsedScripture {
+    const result: ParsedScripture = { verses: [] };
+    const collector = new VerseCollector(
+        new Set(["note", "xref", "caption", "remark", "information"]),
+        new Set(["br", "vers"])
+    );
+    let infoElement: string | null = null;
+    let book: string | null = null;
+    let chapter = 0;
+
+    for (const token of readXml(xml)) {
+        if (token.type === "text") {
+            const text = token.text.trim();
+            if (infoElement === "title" && text) {
+                result.name ??= text;
+            } else if (infoElement === "language" && text) {
+                result.language ??= text;
+            } else if (infoElement === "identifier" && text) {
+                result.identifier ??= text;
+            }
+            collector.add(token.text);
+            continue;
+        }
+        if (["title", "language", "identifier"].includes(token.name)) {
+            infoElement =
+                token.type === "open" && !token.selfClosing
+                    ? token.name
+                    : null;
+        }
+        if (token.name === "xmlbible" && token.type === "open") {
+            result.name = token.attributes.biblename || undefined;
+        }
+        if (!collector.element(token)) continue;
+
+        if (token.type === "close") {
+            if (token.name === "vers") {
+                collector.end();
+            }
+            continue;
+        }
+        switch (token.name) {
+            case "biblebook": {
+                const { bnumber, bsname, bname } = token.attributes;
+                book =
+                    getScriptureBook(Number(bnumber))?.id ??
+                    getScriptureBook(bsname ?? "")?.id ??
+                    getScriptureBook(bname ?? "")?.id ??
+                    bsname ??
+                    null;
+                break;
+            }
+            case "chapter":
+                chapter = Number.parseInt(token.attributes.cnumber, 10);
+                break;
+            case "vers":
+                if (book) {
+                    collector.start(
+                        book,
+                        chapter,
+                        Number.parseInt(token.attributes.vnumber, 10)
+                    );
+                }
+                break;
+        }
+    }
+    collector.end();
+    result.verses = collector.verses;
+    return result;
+}
+
+/**
+ * Parses an OSIS, USFX or Zefania source into its verses. The translation ID
+ * and language are taken from the source's name, e.g. "eng-asv.osis.xml",
+ * unless given; the language falls back to the one the source declares.
+ */
+export function parseScripture(
+    xml: string,
+    options: {
+        path?: string;
+        id?: string;
+        name?: string;
+        language?: string;
+        format?: ScriptureFormat;
+    } = {}
+): { translation: ScriptureTranslation; verses: ScriptureVerse[] } {
+    const format = options.format ?? detectScriptureFormat(xml);
+    if (!format) {
+        throw new Error("Not an OSIS, USFX or Zefania document");
+    }
+    const parsed =
+        format === "osis"
+            ? parseOsis(xml)
+            : format === "usfx"
+              ? parseUsfx(xml)
+              : parseZefania(xml);
+
+    const fileId = options.path
+        ? basename(options.path).split(".")[0]
+        : undefined;
+    const id =
+        options.id ?? fileId ?? parsed.identifier?.toLowerCase() ?? format;
+    const language = (
+        options.language ??
+        (fileId?.match(/^([a-z]{2,3})-/)?.[1] || parsed.language) ??
+        "und"
+    ).toLowerCase();
+
+    const translation: ScriptureTranslation = {
+        id,
+        name: options.name ?? parsed.name ?? id,
+        language,
+        format,
+        source: options.path,
+        checksum: sha1(xml),
+        verseCount: parsed.verses.length,
+        importedAt: Date.now(),
+    };
+    return {
+        translation,
+        verses: parsed.verses.map((verse) => ({
+            translation: id,
+            language,
+            ...verse,
+        })),
+    };
+}
+
+// Verses returned by a search
+const DEFAULT_SEARCH_LIMIT = 3;
+
+// Agents told that they have no translations, to tell them only once
+const agentsWithoutTranslations = new Set<string>();
+
+/**
+ * The Bible translations the agent knows, verse by verse. Translations are
+ * imported from their OSIS, USFX or Zefania sources into a verse table,
+ * kept by the database adapter when it supports it
+ * ({@link IDatabaseScriptureAdapter}), and the verses are embedded into the
+ * agent's RAG knowledge, alone or in groups (`versesPerChunk`), so that
+ * answers can cite them.
+ */
+export class ScriptureLibrary {
+    constructor(private readonly runtime: IAgentRuntime) {}
+
+    /**
+     * Imports a translation, unless it is unchanged since its last import.
+     * Returns null when the file isn't an OSIS, USFX or Zefania source.
+     */
+    async import(file: {
+        path: string;
+        content: string;
+        isShared?: boolean;
+    }): Promise<ScriptureTranslation | null> {
+        const format = detectScriptureFormat(file.content);
+        if (!format) {
+            return null;
+        }
+
+        const isShared = file.isShared ?? false;
+        const knowledge = this.runtime.ragKnowledgeManager;
+        const { versesPerChunk } = getChunkingOptions(
+            this.runtime.character?.settings?.ragChunking
+        );
+        const document = {
+            path: file.path,
+            isShared,
+            checksum: sha1(file.content),
+            chunking: `verses:${versesPerChunk}`,
+        };
+        const existing = await knowledge.getUnchangedIndex(document);
+        if (existing) {
+            const translation = existing.metadata
+                .translation as ScriptureTranslation;
+            elizaLogger.info(
+                `[Scripture] ${translation.name} unchanged, skipping`
+            );
+            return translation;
+        }
+
+        const { translation, verses } = parseScripture(file.content, {
+            path: file.path,
+            format,
+        });
+        if (verses.length === 0) {
+            throw new Error(`No verses found in ${file.path}`);
+        }
+        elizaLogger.info(
+            `[Scripture] Importing ${translation.name} (${translation.id}, ${translation.language}): ${verses.length} verses`
+        );
+
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseScriptureAdapter(db)) {
+            await db.saveScriptureTranslation(translation, verses);
+        } else {
+            elizaLogger.warn(
+                "[Scripture] The database adapter can't store verses, only embedding them"
+            );
+        }
+
+        // Only the verses whose text changed are embedded again
+        await knowledge.indexDocument({
+            ...document,
+            text: `${translation.name} (${translation.language})`,
+            metadata: { type: "scripture", translation },
+            chunks: chunkVerses(verses, versesPerChunk),
+        });
+
+        elizaLogger.success(`[Scripture] Imported ${translation.name}`);
+        return translation;
+    }
+
+    /**
+     * The imported translations. Warns once when there are none, as verses
+     * can't be looked up nor quotes verified without them.
+     */
+    async getTranslations(): Promise<ScriptureTranslation[]> {
+        const db = this.runtime.databaseAdapter;
+        const translations = isDatabaseScriptureAdapter(db)
+            ? await db.getScriptureTranslations()
+            : [];
+        if (
+            translations.length === 0 &&
+            !agentsWithoutTranslations.has(this.runtime.agentId)
+        ) {
+            agentsWithoutTranslations.add(this.runtime.agentId);
+            elizaLogger.warn(
+                "[Scripture] No Bible translations imported, so verses can't be looked up nor quotes verified: add OSIS, USFX or Zefania .xml files to the character's knowledge"
+            );
+        }
+        return translations;
+    }
+
+    /**
+     * Returns the verses closest to a text in the agent's knowledge, as they
+     * were embedded, e.g. "John 11:35 (eng-asv) Jesus wept.", only from
+     * translations in a language when given.
+     */
+    async search(
+        text: string,
+        options: { language?: string; limit?: number } = {}
+    ): Promise<string[]> {
+        const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+        const items = await this.runtime.ragKnowledgeManager.getKnowledge({
+            query: text,
+            // Leaves room for the verses of other languages
+            limit: options.language ? limit * 4 : limit,
+        });
+        return items
+            .filter(({ content: { metadata } }) => {
+                if (metadata?.type !== "scripture" || !metadata.isChunk) {
+                    return false;
+                }
+                return (
+                    !options.language ||
+                    isSameLanguage(metadata.language as string, options.language)
+                );
+            })
+            .slice(0, limit)
+            .map(({ content }) => content.text);
+    }
+
+    /**
+     * Returns verses of a chapter, or none without a database adapter
+     * keeping them.
+     */
+    async getVerses(params: {
+        translation?: string;
+        language?: string;
+        book: string;
+        chapter: number;
+        verseStart?: number;
+        verseEnd?: number;
+    }): Promise<ScriptureVerse[]> {
+        const db = this.runtime.databaseAdapter;
+        return isDatabaseScriptureAdapter(db)
+            ? db.getScriptureVerses(params)
+            : [];
+    }
+
+    /**
+     * Returns the verses of a reference, e.g. "Jn 3.16-18", in a translation.
+     * Without a translation, the verses come from the first one found, in
+     * the language when given.
+     */
+    async resolve(
+        reference: ScriptureReference | string,
+        options: { translation?: string; language?: string } = {}
+    ): Promise<ScriptureVerse[]> {
+        const passage =
+            typeof reference === "string"
+                ? parseScriptureReference(reference)
+                : reference;
+        if (!passage) {
+            return [];
+        }
+
+        const { book, chapter, verse } = passage;
+        const endChapter = passage.endChapter ?? chapter;
+        // A single verse, unless the passage runs to the end of a chapter
+        const endVerse =
+            passage.endVerse ??
+            (passage.endChapter === undefined ? verse : undefined);
+        let translation = options.translation;
+        const verses: ScriptureVerse[] = [];
+        for (let current = chapter; current <= endChapter; current++) {
+            const chapterVerses = await this.getVerses({
+                translation,
+                language: options.language,
+                book,
+                chapter: current,
+                verseStart: current === chapter ? verse : undefined,
+                verseEnd: current === endChapter ? endVerse : undefined,
+            });
+            translation ??= chapterVerses[0]?.translation;
+            verses.push(
+                ...chapterVerses.filter(
+                    (verse) => verse.translation === translation
+                )
+            );
+        }
+        return verses;
+    }
+}
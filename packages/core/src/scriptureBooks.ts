@@ -0,0 +1,271 @@
+export interface ScriptureBook {
+    /** OSIS book ID, e.g. "1Cor" */
+    id: string;
+    /** USFM book code, e.g. "1CO" */
+    usfm: string;
+    name: string;
+    testament: "OT" | "NT" | "DC";
+}
+
+// OSIS ID, USFM code and name of each book, in canonical order
+const BOOKS: [string, string, string][] = [
+    ["Gen", "GEN", "Genesis"],
+    ["Exod", "EXO", "Exodus"],
+    ["Lev", "LEV", "Leviticus"],
+    ["Num", "NUM", "Numbers"],
+    ["Deut", "DEU", "Deuteronomy"],
+    ["Josh", "JOS", "Joshua"],
+    ["Judg", "JDG", "Judges"],
+    ["Ruth", "RUT", "Ruth"],
+    ["1Sam", "1SA", "1 Samuel"],
+    ["2Sam", "2SA", "2 Samuel"],
+    ["1Kgs", "1KI", "1 Kings"],
+    ["2Kgs", "2KI", "2 Kings"],
+    ["1Chr", "1CH", "1 Chronicles"],
+    ["2Chr", "2CH", "2 Chronicles"],
+    ["Ezra", "EZR", "Ezra"],
+    ["Neh", "NEH", "Nehemiah"],
+    ["Esth", "EST", "Esther"],
+    ["Job", "JOB", "Job"],
+    ["Ps", "PSA", "Psalms"],
+    ["Prov", "PRO", "Proverbs"],
+    ["Eccl", "ECC", "Ecclesiastes"],
+    ["Song", "SNG", "Song of Solomon"],
+    ["Isa", "ISA", "Isaiah"],
+    ["Jer", "JER", "Jeremiah"],
+    ["Lam", "LAM", "Lamentations"],
+    ["Ezek", "EZK", "Ezekiel"],
+    ["Dan", "DAN", "Daniel"],
+    ["Hos", "HOS", "Hosea"],
+    ["Joel", "JOL", "Joel"],
+    ["Amos", "AMO", "Amos"],
+    ["Obad", "OBA", "Obadiah"],
+    ["Jonah", "JON", "Jonah"],
+    ["Mic", "MIC", "Micah"],
+    ["Nah", "NAM", "Nahum"],
+    ["Hab", "HAB", "Habakkuk"],
+    ["Zeph", "ZEP", "Zephaniah"],
+    ["Hag", "HAG", "Haggai"],
+    ["Zech", "ZEC", "Zechariah"],
+    ["Mal", "MAL", "Malachi"],
+    ["Matt", "MAT", "Matthew"],
+    ["Mark", "MRK", "Mark"],
+    ["Luke", "LUK", "Luke"],
+    ["John", "JHN", "John"],
+    ["Acts", "ACT", "Acts"],
+    ["Rom", "ROM", "Romans"],
+    ["1Cor", "1CO", "1 Corinthians"],
+    ["2Cor", "2CO", "2 Corinthians"],
+    ["Gal", "GAL", "Galatians"],
+    ["Eph", "EPH", "Ephesians"],
+    ["Phil", "PHP", "Philippians"],
+    ["Col", "COL", "Colossians"],
+    ["1Thess", "1TH", "1 Thessalonians"],
+    ["2Thess", "2TH", "2 Thessalonians"],
+    ["1Tim", "1TI", "1 Timothy"],
+    ["2Tim", "2TI", "2 Timothy"],
+    ["Titus", "TIT", "Titus"],
+    ["Phlm", "PHM", "Philemon"],
+    ["Heb", "HEB", "Hebrews"],
+    ["Jas", "JAS", "James"],
+    ["1Pet", "1PE", "1 Peter"],
+    ["2Pet", "2PE", "2 Peter"],
+    ["1John", "1JN", "1 John"],
+    ["2John", "2JN", "2 John"],
+    ["3John", "3JN", "3 John"],
+    ["Jude", "JUD", "Jude"],
+    ["Rev", "REV", "Revelation"],
+    ["Tob", "TOB", "Tobit"],
+    ["Jdt", "JDT", "Judith"],
+    ["AddEsth", "ESG", "Esther (Greek)"],
+    ["Wis", "WIS", "Wisdom of Solomon"],
+    ["Sir", "SIR", "Sirach"],
+    ["Bar", "BAR", "Baruch"],
+    ["EpJer", "LJE", "Letter of Jeremiah"],
+    ["PrAzar", "S3Y", "Prayer of Azariah"],
+    ["Sus", "SUS", "Susanna"],
+    ["Bel", "BEL", "Bel and the Dragon"],
+    ["AddDan", "DAG", "Daniel (Greek)"],
+    ["1Macc", "1MA", "1 Maccabees"],
+    ["2Macc", "2MA", "2 Maccabees"],
+    ["3Macc", "3MA", "3 Maccabees"],
+    ["4Macc", "4MA", "4 Maccabees"],
+    ["1Esd", "1ES", "1 Esdras"],
+    ["2Esd", "2ES", "2 Esdras"],
+    ["PrMan", "MAN", "Prayer of Manasseh"],
+    ["AddPs", "PS2", "Psalm 151"],
+];
+
+/**
+ * The books of the Bible in canonical order: the Old Testament, the New
+ * Testament, then the deuterocanonical books.
+ */
+export const SCRIPTURE_BOOKS: ScriptureBook[] = BOOKS.map(
+    ([id, usfm, name], index) => ({
+        id,
+        usfm,
+        name,
+        testament: index < 39 ? "OT" : index < 66 ? "NT" : "DC",
+    })
+);
+
+// Other names of the books: English abbreviations, then Spanish, Portuguese,
+// Latin, Czech and Chinese names and abbreviations
+const BOOK_ALIASES: Record<string, string> = {
+    Gen: "Gn, Ge, Génesis, Gênesis, 1 Mojžíšova, 1 Mojž, 创世记, 創世記",
+    Exod: "Ex, Exo, Éxodo, Êxodo, 2 Mojžíšova, 2 Mojž, 出埃及记, 出埃及記",
+    Lev: "Lv, Le, Levítico, Leviticus, 3 Mojžíšova, 3 Mojž, 利未记, 利未記",
+    Num: "Nm, Nu, Nb, Números, Numeri, 4 Mojžíšova, 4 Mojž, 民数记, 民數記",
+    Deut: "Dt, De, Deu, Deuteronomio, Deuteronômio, Deuteronomium, 5 Mojžíšova, 5 Mojž, 申命记, 申命記",
+    Josh: "Jos, Jsh, Josué, Josue, Jozue, 约书亚记, 約書亞記",
+    Judg: "Jdg, Jg, Jdgs, Jue, Jueces, Jz, Juízes, Judicum, Sd, Soudců, 士师记, 士師記",
+    Ruth: "Rth, Ru, Rt, Rut, Rute, Rút, 路得记, 路得記",
+    "1Sam": "1 Sa, 1 Sm, 1 Samuelova, 1 Samuelis, 撒母耳记上, 撒母耳記上",
+    "2Sam": "2 Sa, 2 Sm, 2 Samuelova, 2 Samuelis, 撒母耳记下, 撒母耳記下",
+    "1Kgs": "1 Kg, 1 Ki, 1 Kin, 1 Kings, 1 Reyes, 1 Re, 1 Reis, 1 Rs, 1 Královská, 1 Kr, 列王纪上, 列王紀上",
+    "2Kgs": "2 Kg, 2 Ki, 2 Kin, 2 Kings, 2 Reyes, 2 Re, 2 Reis, 2 Rs, 2 Královská, 2 Kr, 列王纪下, 列王紀下",
+    "1Chr": "1 Ch, 1 Chron, 1 Cr, 1 Crónicas, 1 Crônicas, 1 Paralipomenon, 1 Par, 历代志上, 歷代志上",
+    "2Chr": "2 Ch, 2 Chron, 2 Cr, 2 Crónicas, 2 Crônicas, 2 Paralipomenon, 2 Par, 历代志下, 歷代志下",
+    Ezra: "Ezr, Esd, Esdras, Esdrae, Ezdráš, 以斯拉记, 以斯拉記",
+    Neh: "Ne, Nehemías, Neemias, Nehemiae, Nehemiáš, 尼希米记, 尼希米記",
+    Esth: "Es, Est, Ester, 以斯帖记, 以斯帖記",
+    Job: "Jb, Jó, Jób, 约伯记, 約伯記",
+    Ps: "Pss, Psa, Psalm, Psm, Sal, Salmo, Salmos, Sl, Psalmi, Žalmy, Žalm, 诗篇, 詩篇",
+    Prov: "Pr, Prv, Pro, Proverbios, Provérbios, Pv, Proverbia, Přísloví, Př, 箴言",
+    Eccl: "Ecc, Ec, Qoh, Qoheleth, Eclesiastés, Eclesiastes, Kazatel, Kaz, 传道书, 傳道書",
+    Song: "Sg, Sng, Song of Songs, Canticles, SOS, Cnt, Cantares, Cantar de los Cantares, Cânticos, Ct, Canticum Canticorum, Píseň písní, Pís, 雅歌",
+    Isa: "Is, Isaías, Isaias, Iz, Izaiáš, 以赛亚书, 以賽亞書",
+    Jer: "Je, Jr, Jeremías, Jeremias, Jeremiáš, 耶利米书, 耶利米書",
+    Lam: "La, Lm, Lamentaciones, Lamentações, Lamentationes, Pláč, 耶利米哀歌",
+    Ezek: "Eze, Ezk, Ez, Ezequiel, Ezechiel, 以西结书, 以西結書",
+    Dan: "Da, Dn, 但以理书, 但以理書",
+    Hos: "Ho, Os, Oseas, Oséias, Oseias, Osee, Oz, Ozeáš, 何西阿书, 何西阿書",
+    Joel: "Jl, Jóel, 约珥书, 約珥書",
+    Amos: "Am, Amós, Ámos, 阿摩司书, 阿摩司書",
+    Obad: "Ob, Oba, Abd, Abdías, Obadias, Abdias, Abdiáš, 俄巴底亚书, 俄巴底亞書",
+    Jonah: "Jon, Jnh, Jonás, Jonas, Jonáš, 约拿书, 約拿書",
+    Mic: "Mi, Mq, Miqueas, Miquéias, Miqueias, Michaea, Micheáš, 弥迦书, 彌迦書",
+    Nah: "Na, Nahúm, Naum, 那鸿书, 那鴻書",
+    Hab: "Hb, Habacuc, Habacuque, Abakuk, 哈巴谷书, 哈巴谷書",
+    Zeph: "Zep, Zp, Sof, Sofonías, Sofonias, Sophonias, Sofoniáš, 西番雅书, 西番雅書",
+    Hag: "Hg, Hageo, Ag, Ageu, Aggaeus, Aggeus, 哈该书, 哈該書",
+    Zech: "Zec, Zc, Zac, Zacarías, Zacarias, Zacharias, Zachariáš, 撒迦利亚书, 撒迦利亞書",
+    Mal: "Ml, Malaquías, Malaquias, Malachias, Malachiáš, 玛拉基书, 瑪拉基書",
+    Matt: "Mt, Mat, Mateo, Mateus, Matthaeus, Matouš, 马太福音, 馬太福音",
+    Mark: "Mk, Mr, Mrk, Mc, Marcos, Marcus, Marek, 马可福音, 馬可福音",
+    Luke: "Lk, Lu, Luk, Lc, Lucas, Lukáš, 路加福音",
+    John: "Jn, Jhn, Joh, Juan, Jo, João, Joannes, Jan, 约翰福音, 約翰福音",
+    Acts: "Ac, Act, Hch, Hechos, Atos, Actus Apostolorum, Sk, Skutky, 使徒行传, 使徒行傳",
+    Rom: "Ro, Rm, Romanos, Římanům, 罗马书, 羅馬書",
+    "1Cor": "1 Co, 1 Corintios, 1 Coríntios, 1 Corinthios, 1 K, 1 Korintským, 哥林多前书, 哥林多前書",
+    "2Cor": "2 Co, 2 Corintios, 2 Coríntios, 2 Corinthios, 2 K, 2 Korintským, 哥林多后书, 哥林多後書",
+    Gal: "Ga, Gá, Gálatas, Galatas, Galatským, 加拉太书, 加拉太書",
+    Eph: "Ephes, Ef, Efesios, Efésios, Ephesios, Efezským, 以弗所书, 以弗所書",
+    Phil: "Php, Pp, Fil, Filipenses, Fp, Philippenses, Filipským, 腓立比书, 腓立比書",
+    Col: "Colosenses, Colossenses, Kol, Koloským, 歌罗西书, 歌羅西書",
+    "1Thess": "1 Th, 1 Thes, 1 Ts, 1 Tesalonicenses, 1 Tessalonicenses, 1 Thessalonicenses, 1 Te, 1 Tesalonickým, 帖撒罗尼迦前书, 帖撒羅尼迦前書",
+    "2Thess": "2 Th, 2 Thes, 2 Ts, 2 Tesalonicenses, 2 Tessalonicenses, 2 Thessalonicenses, 2 Te, 2 Tesalonickým, 帖撒罗尼迦后书, 帖撒羅尼迦後書",
+    "1Tim": "1 Ti, 1 Tm, 1 Timoteo, 1 Timóteo, 1 Timotheum, 1 Timoteovi, 提摩太前书, 提摩太前書",
+    "2Tim": "2 Ti, 2 Tm, 2 Timoteo, 2 Timóteo, 2 Timotheum, 2 Timoteovi, 提摩太后书, 提摩太後書",
+    Titus: "Tit, Tito, Titum, Tt, Titovi, 提多书, 提多書",
+    Phlm: "Phm, Philem, Pm, Flm, Filemón, Filemom, Philemonem, Fm, Filemonovi, 腓利门书, 腓利門書",
+    Heb: "He, Hebreos, Hebreus, Hebraeos, Žd, Židům, 希伯来书, 希伯來書",
+    Jas: "Jm, Jam, Stg, Santiago, Tg, Tiago, Jacobi, Jk, Jakubův, 雅各书, 雅各書",
+    "1Pet": "1 Pe, 1 Pt, 1 P, 1 Pedro, 1 Petri, 1 Petrův, 彼得前书, 彼得前書",
+    "2Pet": "2 Pe, 2 Pt, 2 P, 2 Pedro, 2 Petri, 2 Petrův, 彼得后书, 彼得後書",
+    "1John": "1 Jn, 1 Jhn, 1 Jo, 1 Juan, 1 João, 1 Joannis, 1 J, 1 Janův, 约翰一书, 約翰一書",
+    "2John": "2 Jn, 2 Jhn, 2 Jo, 2 Juan, 2 João, 2 Joannis, 2 J, 2 Janův, 约翰二书, 約翰二書",
+    "3John": "3 Jn, 3 Jhn, 3 Jo, 3 Juan, 3 João, 3 Joannis, 3 J, 3 Janův, 约翰三书, 約翰三書",
+    Jude: "Jud, Jd, Judas, Judae, Ju, Judův, 犹大书, 猶大書",
+    Rev: "Re, Rv, Revelations, Apocalypse, Ap, Apocalipsis, Apocalipse, Apocalypsis, Zj, Zjevení, 启示录, 啟示錄",
+};
+
+// Book numbers are also written in Roman numerals or as ordinals
+const BOOK_NUMBERS: Record<string, string> = {
+    i: "1",
+    ii: "2",
+    iii: "3",
+    "1st": "1",
+    "2nd": "2",
+    "3rd": "3",
+    first: "1",
+    second: "2",
+    third: "3",
+};
+
+const BOOK_NUMBER_PATTERN = /^(iii|ii|i|1st|2nd|3rd|first|second|third)(?=\S)/;
+
+function normalizeBookKey(key: string): string {
+    return key.normalize("NFC").toLowerCase().replace(/[\s.]/g, "");
+}
+
+function stripDiacritics(key: string): string {
+    return key.normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC");
+}
+
+function getBookNames(book: ScriptureBook): string[] {
+    const aliases = BOOK_ALIASES[book.id]?.split(", ") ?? [];
+    return [book.id, book.usfm, book.name, ...aliases];
+}
+
+const booksByKey = new Map<string, ScriptureBook>();
+// Names without their diacritics, for "Genesis" written "Genesís" or
+// "Zjeveni"; short ones are left out, being too easily confused
+const booksByPlainKey = new Map<string, ScriptureBook>();
+for (const book of SCRIPTURE_BOOKS) {
+    for (const name of getBookNames(book)) {
+        const key = normalizeBookKey(name);
+        if (!booksByKey.has(key)) {
+            booksByKey.set(key, book);
+        }
+    }
+}
+for (const [key, book] of booksByKey) {
+    const plainKey = stripDiacritics(key);
+    if (plainKey.length >= 4 && !booksByKey.has(plainKey)) {
+        booksByPlainKey.set(plainKey, book);
+    }
+}
+
+/**
+ * Finds a book by its OSIS ID, USFM code, name or abbreviation, in English,
+ * Spanish, Portuguese, Latin, Czech or Chinese ("1 Cor", "II Kings",
+ * "Jn", "Apocalipsis", "约翰福音"), or by its number in the 66 books of the
+ * Protestant canon.
+ */
+export function getScriptureBook(
+    key: string | number
+): ScriptureBook | undefined {
+    if (typeof key === "number") {
+        return key >= 1 && key <= 66 ? SCRIPTURE_BOOKS[key - 1] : undefined;
+    }
+
+    const normalized = normalizeBookKey(key);
+    const book = booksByKey.get(normalized);
+    if (book) return book;
+
+    const numbered = normalized.replace(
+        BOOK_NUMBER_PATTERN,
+        (number) => BOOK_NUMBERS[number]
+    );
+    return (
+        booksByKey.get(numbered) ??
+        booksByPlainKey.get(stripDiacritics(numbered))
+    );
+}
+
+/**
+ * Every name a book is known by, without the book numbers: "Corinthians",
+ * "Cor", "Juan", "约翰一书"... For matching book names in text.
+ */
+export function getScriptureBookNames(): string[] {
+    const names = new Set<string>();
+    for (const book of SCRIPTURE_BOOKS) {
+        for (const name of getBookNames(book)) {
+            const unnumbered = name.replace(/^\d\s*/, "");
+            names.add(unnumbered);
+            names.add(stripDiacritics(unnumbered));
+        }
+    }
+    return [...names];
+}
@@ -0,0 +1,403 @@
+import { getScriptureBook, getScriptureBookNames } from "./scriptureBooks.ts";
+import type { ScriptureVerse } from "./types.ts";
+
+/**
+ * A passage of a book: a chapter, a verse, or a range of either, possibly
+ * across chapters. The book is an OSIS book ID.
+ */
+export interface ScriptureReference {
+    book: string;
+    chapter: number;
+    verse?: number;
+    endChapter?: number;
+    endVerse?: number;
+}
+
+export interface ScriptureReferenceMatch extends ScriptureReference {
+    /** The text the reference was read from, e.g. "Jn 3.16-18" */
+    text: string;
+    /** Where it starts in the searched text */
+    index: number;
+}
+
+const MAX_CHAPTER = 150;
+const MAX_VERSE = 176;
+
+// Books with a single chapter, whose references only give the verse
+const SINGLE_CHAPTER_BOOKS = new Set([
+    "Obad",
+    "Phlm",
+    "2John",
+    "3John",
+    "Jude",
+]);
+
+// Abbreviations and names that are also common words or first names, only
+// taken for a book when capitalized and followed by a verse
+const AMBIGUOUS_NAMES = new Set([
+    "ac",
+    "act",
+    "acts",
+    "am",
+    "amos",
+    "ap",
+    "col",
+    "de",
+    "es",
+    "ex",
+    "he",
+    "is",
+    "jan",
+    "job",
+    "joel",
+    "jo",
+    "jude",
+    "mark",
+    "mal",
+    "na",
+    "ne",
+    "ruth",
+    "sal",
+]);
+
+const LATIN_LETTER = "A-Za-z\\u00C0-\\u024F";
+const BOOK_NUMBER = "[1-5]|iii|ii|i|1st|2nd|3rd|first|second|third";
+
+const NUMBER_PATTERN = new RegExp(
+    `^(\\d{1,3})[ab]?(?![${LATIN_LETTER}\\d])`
+);
+
+const bookPatterns = new Map<string, RegExp>();
+
+// A book name, with its number, followed by the start of a chapter number.
+// Names are tried longest first.
+function getBookPattern(flags: string): RegExp {
+    let pattern = bookPatterns.get(flags);
+    if (!pattern) {
+        const names = getScriptureBookNames()
+            .sort((a, b) => b.length - a.length)
+            .map((name) =>
+                name
+                    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+                    .replace(/ /g, "\\s+")
+            );
+        pattern = new RegExp(
+            `(?<![${LATIN_LETTER}\\d])(?:(${BOOK_NUMBER})\\.?\\s*)?(${names.join("|")})(?![${LATIN_LETTER}])\\.?\\s*(?=\\d)`,
+            flags
+        );
+        bookPatterns.set(flags, pattern);
+    }
+    pattern.lastIndex = 0;
+    return pattern;
+}
+
+/**
+ * Whether the text starts with a reference to another book, ending the
+ * passages of the current one.
+ */
+function startsWithBook(text: string): boolean {
+    const match = getBookPattern("iuy").exec(text);
+    return (
+        !!match &&
+        !!getScriptureBook(match[1] ? `${match[1]} ${match[2]}` : match[2])
+    );
+}
+
+/**
+ * Reads the passage following a book name: chapters and verses, ranges, and
+ * lists of them ("3:16-18", "13:4–7; 14:1", "5,1-3", "3章16节").
+ */
+class PassageReader {
+    position = 0;
+
+    constructor(private readonly text: string) {}
+
+    /** Reads a chapter or verse number, e.g. "16" or "16a" */
+    readNumber(): number | null {
+        const match = NUMBER_PATTERN.exec(this.text.slice(this.position));
+        if (!match) return null;
+        this.position += match[0].length;
+        return Number(match[1]);
+    }
+
+    /** Reads text matching the pattern, if any, moving past it */
+    accept(pattern: RegExp): boolean {
+        const match = pattern.exec(this.text.slice(this.position));
+        if (!match || match.index !== 0) return false;
+        this.position += match[0].length;
+        return true;
+    }
+
+    /** Whether the text at the position matches, without reading it */
+    peek(pattern: RegExp): boolean {
+        return pattern.test(this.text.slice(this.position));
+    }
+}
+
+const CHAPTER_SEPARATOR = /^\s*[:：]\s*|^[.章](?=\d)|^章\s*/;
+// "5,1" is chapter 5 verse 1 in most of Europe, but "5, 1" a list
+const EUROPEAN_SEPARATOR = /^,(?=\d)/;
+const RANGE_SEPARATOR = /^\s*[-–—~]\s*/;
+const VERSE_LIST_SEPARATOR = /^\s*,\s*(?=\d)/;
+const CHAPTER_LIST_SEPARATOR = /^\s*;\s*(?=\d)/;
+const VERSE_SUFFIX = /^\s*[节節]/;
+
+function isValidReference(reference: ScriptureReference): boolean {
+    const { chapter, verse, endChapter, endVerse } = reference;
+    const isValid = (number: number | undefined, max: number) =>
+        number === undefined || (number >= 1 && number <= max);
+    return (
+        isValid(chapter, MAX_CHAPTER) &&
+        isValid(endChapter, MAX_CHAPTER) &&
+        isValid(verse, MAX_VERSE) &&
+        isValid(endVerse, MAX_VERSE) &&
+        (endChapter ?? chapter) >= chapter &&
+        ((endChapter ?? chapter) > chapter ||
+            endVerse === undefined ||
+            endVerse >= (verse ?? 1))
+    );
+}
+
+/**
+ * Reads a chapter, with its verses if given: "3", "3:16", "3:16-18",
+ * "3:16-4:2" or "1-2".
+ */
+function readChapterPassage(
+    reader: PassageReader,
+    book: string,
+    allowEuropean: boolean
+): ScriptureReference | null {
+    const chapter = reader.readNumber();
+    if (chapter === null) return null;
+
+    const reference: ScriptureReference = { book, chapter };
+    const start = reader.position;
+    if (
+        reader.accept(CHAPTER_SEPARATOR) ||
+        (allowEuropean && reader.accept(EUROPEAN_SEPARATOR))
+    ) {
+        const verse = reader.readNumber();
+        if (verse === null) {
+            reader.position = start;
+        } else {
+            reference.verse = verse;
+        }
+    }
+    readRangeEnd(reader, reference);
+
+    if (SINGLE_CHAPTER_BOOKS.has(book) && reference.verse === undefined) {
+        return {
+            book,
+            chapter: 1,
+            verse: chapter,
+            endVerse: reference.endChapter,
+        };
+    }
+    return reference;
+}
+
+function readRangeEnd(
+    reader: PassageReader,
+    reference: ScriptureReference
+): void {
+    const start = reader.position;
+    if (!reader.accept(RANGE_SEPARATOR)) return;
+
+    const end = reader.readNumber();
+    if (end === null) {
+        reader.position = start;
+        return;
+    }
+    const verseStart = reader.position;
+    if (reader.accept(CHAPTER_SEPARATOR)) {
+        const endVerse = reader.readNumber();
+        if (endVerse !== null) {
+            // A range across chapters, "3:16-4:2" or "1-2:3"
+            reference.endChapter = end;
+            reference.endVerse = endVerse;
+            reference.verse ??= 1;
+            return;
+        }
+        reader.position = verseStart;
+    }
+    if (reference.verse === undefined) {
+        reference.endChapter = end;
+    } else {
+        reference.endVerse = end;
+    }
+}
+
+/**
+ * Reads the passages following a book name, e.g. "13:4–7; 14:1" or
+ * "3:16, 18".
+ */
+function readPassages(
+    text: string,
+    book: string
+): { references: ScriptureReference[]; length: number } {
+    const reader = new PassageReader(text);
+    const references: ScriptureReference[] = [];
+
+    const first = readChapterPassage(reader, book, true);
+    if (!first) return { references, length: 0 };
+    references.push(first);
+
+    let end = reader.position;
+    while (reader.position < text.length) {
+        const last = references[references.length - 1];
+        const rest = text.slice(reader.position).replace(/^\s*[;,]\s*/, "");
+        if (startsWithBook(rest)) break;
+
+        let next: ScriptureReference | null = null;
+        if (reader.accept(CHAPTER_LIST_SEPARATOR)) {
+            next = readChapterPassage(reader, book, true);
+        } else if (reader.accept(VERSE_LIST_SEPARATOR)) {
+            if (last.verse === undefined || reader.peek(/^\d+\s*[:：]\s*\d/)) {
+                next = readChapterPassage(reader, book, false);
+            } else {
+                const verse = reader.readNumber();
+                if (verse !== null) {
+                    next = {
+                        book,
+                        chapter: last.endChapter ?? last.chapter,
+                        verse,
+                    };
+                    readRangeEnd(reader, next);
+                }
+            }
+        }
+        if (!next || !isValidReference(next)) break;
+        references.push(next);
+        end = reader.position;
+    }
+    reader.position = end;
+    reader.accept(VERSE_SUFFIX);
+    return { references, length: reader.position };
+}
+
+/**
+ * Finds the scripture references in a text: "John 3:16", "Jn 3.16-18",
+ * "1 Cor 13:4–7; 14:1", "II Kings 2", "Juan 3,16", "约翰福音3章16节"...
+ * Lists of passages of a book give a reference each.
+ *
+ * Books are found by name or abbreviation in the languages known to
+ * {@link getScriptureBook}. To keep clear of times and everyday words, a
+ * book name in lowercase, or one that is also a common word ("Is", "Mark"),
+ * must be followed by a verse.
+ */
+export function parseScriptureReferences(
+    text: string
+): ScriptureReferenceMatch[] {
+    const matches: ScriptureReferenceMatch[] = [];
+    const pattern = getBookPattern("giu");
+
+    for (
+        let match = pattern.exec(text);
+        match;
+        match = pattern.exec(text)
+    ) {
+        const [, number, name] = match;
+        const book = getScriptureBook(number ? `${number} ${name}` : name);
+        if (!book) {
+            // "2 Genesis" is no book, but "Genesis" might still be
+            if (number) {
+                pattern.lastIndex = match.index + number.length;
+            }
+            continue;
+        }
+
+        const start = match.index + match[0].length;
+        const { references, length } = readPassages(text.slice(start), book.id);
+        if (!references.length || !isValidReference(references[0])) continue;
+
+        const key = name.toLowerCase().replace(/\./g, "");
+        const isCapitalized = name[0] !== name[0].toLowerCase();
+        const hasVerse = references[0].verse !== undefined;
+        if (
+            (!number &&
+                AMBIGUOUS_NAMES.has(key) &&
+                !(isCapitalized && hasVerse)) ||
+            (/^\p{Script=Latin}/u.test(name) && !isCapitalized && !hasVerse)
+        ) {
+            continue;
+        }
+
+        const referenceText = text.slice(match.index, start + length);
+        for (const reference of references) {
+            matches.push({
+                ...reference,
+                text: referenceText,
+                index: match.index,
+            });
+        }
+        pattern.lastIndex = start + length;
+    }
+    return matches;
+}
+
+/**
+ * Parses a single reference, e.g. "Jn 3.16-18". Returns null when the text
+ * holds none; when it holds several, returns the first.
+ */
+export function parseScriptureReference(
+    text: string
+): ScriptureReference | null {
+    const [match] = parseScriptureReferences(text);
+    if (!match) return null;
+    const { text: _text, index: _index, ...reference } = match;
+    return reference;
+}
+
+/**
+ * Formats a reference with the English book name, e.g.
+ * "1 Corinthians 13:4-7", "John 3:16-4:2" or "Genesis 1-2".
+ */
+export function formatScriptureReference(
+    reference: ScriptureReference
+): string {
+    const { chapter, verse, endChapter, endVerse } = reference;
+    const name = getScriptureBook(reference.book)?.name ?? reference.book;
+
+    let passage = `${chapter}`;
+    if (verse !== undefined) {
+        passage += `:${verse}`;
+    }
+    if (endChapter !== undefined && endChapter !== chapter) {
+        passage += `-${endChapter}`;
+        if (endVerse !== undefined) {
+            passage += `:${endVerse}`;
+        }
+    } else if (endVerse !== undefined && endVerse !== verse) {
+        passage += `-${endVerse}`;
+    }
+    return `${name} ${passage}`;
+}
+
+/**
+ * Formats a reference as an OSIS reference, e.g. "John.3.16" or
+ * "1Cor.13.4-1Cor.13.7".
+ */
+export function toOsisReference(reference: ScriptureReference): string {
+    const { book, chapter, verse, endChapter, endVerse } = reference;
+    const start =
+        verse === undefined
+            ? `${book}.${chapter}`
+            : `${book}.${chapter}.${verse}`;
+    if (endChapter === undefined && endVerse === undefined) {
+        return start;
+    }
+
+    const lastChapter = endChapter ?? chapter;
+    const end =
+        endVerse === undefined
+            ? `${book}.${lastChapter}`
+            : `${book}.${lastChapter}.${endVerse}`;
+    return end === start ? start : `${start}-${end}`;
+}
+
+/**
+ * Formats the reference of a verse, e.g. "John 11:35".
+ */
+export function formatVerseReference(verse: ScriptureVerse): string {
+    return formatScriptureReference(verse);
+}
@@ -0,0 +1,594 @@
+import { isDatabaseScriptureVerificationAdapter } from "./database.ts";
+import { isSameLanguage } from "./languages.ts";
+import elizaLogger from "./logger.ts";
+import { ScriptureLibrary } from "./scripture.ts";
+import {
+    formatScriptureReference,
+    parseScriptureReferences,
+    type ScriptureReference,
+    toOsisReference,
+} from "./scriptureReferences.ts";
+import type {
+    IAgentRuntime,
+    ScriptureQuoteCheck,
+    ScriptureTranslation,
+    ScriptureVerification,
+    ScriptureVerificationRecord,
+    ScriptureVerse,
+} from "./types.ts";
+
+// Share of a quote's words to find in the verses, in order, for a match
+const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+// Shorter quotes are too common to tell where they are from
+const MIN_QUOTE_WORDS = 4;
+
+// Verses looked up in the knowledge for a quote from unknown verses
+const QUOTE_SEARCH_LIMIT = 5;
+
+const QUOTE_PATTERN = /“([^”]+)”|"([^"]+)"|«([^»]+)»|„([^“”]+)[“”]|「([^」]+)」/g;
+
+// What may stand between a quote and its reference: `"…" (John 3:16)`,
+// `John 3:16: "…"` or `"…" — John 3:16`
+const QUOTE_REFERENCE_GAP =
+    /^[\s,.:;()[\]—–-]*(?:says|said|reads|dice|diz)?[\s,:;()[\]—–-]*$/i;
+
+export interface ScriptureVerifierOptions {
+    /**
+     * Translation of the verbatim text swapped into drafts. By default the
+     * SCRIPTURE_TRANSLATION setting, or else the translation the quote is
+     * closest to.
+     */
+    translation?: string;
+    /**
+     * Language of the drafts, whose verbatim text is then swapped in from a
+     * translation in that language: the chosen one when it is, or else the
+     * first one found.
+     */
+    language?: string;
+    /**
+     * Rejects drafts rather than correcting them. By default, when the
+     * SCRIPTURE_VERIFICATION setting is "strict"; it turns verification off
+     * when "off".
+     */
+    strict?: boolean;
+    threshold?: number;
+    /** Longest a corrected draft may be */
+    maxLength?: number;
+}
+
+interface Span {
+    text: string;
+    start: number;
+    end: number;
+}
+
+interface ReferenceSpan extends Span {
+    references: ScriptureReference[];
+}
+
+interface Passage {
+    reference: ScriptureReference;
+    verses: ScriptureVerse[];
+}
+
+interface PassageMatch {
+    reference: ScriptureReference;
+    translation: string;
+    text: string;
+    similarity: number;
+    isExact: boolean;
+}
+
+function getWords(text: string): string[] {
+    return (
+        text
+            .normalize("NFD")
+            .replace(/\p{M}/gu, "")
+            .toLowerCase()
+            .match(/\p{Script=Han}|(?:(?!\p{Script=Han})[\p{L}\p{N}])+/gu) ??
+        []
+    );
+}
+
+/**
+ * The share of the quote's words found in the verse, in order.
+ */
+function getSimilarity(quote: string[], verse: string[]): number {
+    if (quote.length === 0) return 0;
+    // Longest common subsequence, a row at a time
+    let previous = new Array<number>(verse.length + 1).fill(0);
+    for (const word of quote) {
+        const current = [0];
+        for (let j = 0; j < verse.length; j++) {
+            current.push(
+                word === verse[j]
+                    ? previous[j] + 1
+                    : Math.max(previous[j + 1], current[j])
+            );
+        }
+        previous = current;
+    }
+    return previous[verse.length] / quote.length;
+}
+
+function matchPassage(
+    quote: string[],
+    reference: ScriptureReference,
+    verses: ScriptureVerse[]
+): PassageMatch {
+    const text = verses.map((verse) => verse.text).join(" ");
+    const words = getWords(text);
+    return {
+        reference,
+        translation: verses[0].translation,
+        text,
+        similarity: getSimilarity(quote, words),
+        isExact: ` ${words.join(" ")} `.includes(` ${quote.join(" ")} `),
+    };
+}
+
+// Verbatim matches first, then the closest
+function getBestMatch(matches: PassageMatch[]): PassageMatch | undefined {
+    const score = (match: PassageMatch) =>
+        (match.isExact ? 1 : 0) + match.similarity;
+    return matches.reduce<PassageMatch | undefined>(
+        (best, match) => (!best || score(match) > score(best) ? match : best),
+        undefined
+    );
+}
+
+function getQuotes(text: string): Span[] {
+    const quotes: Span[] = [];
+    for (const match of text.matchAll(QUOTE_PATTERN)) {
+        const quote = match.slice(1).find((group) => group !== undefined);
+        if (!quote || getWords(quote).length < MIN_QUOTE_WORDS) continue;
+        const start = match.index + match[0].indexOf(quote);
+        quotes.push({ text: quote, start, end: start + quote.length });
+    }
+    return quotes;
+}
+
+// References are read together when written together, as "1 Cor 13:4–7; 14:1"
+function getReferences(text: string): ReferenceSpan[] {
+    const spans: ReferenceSpan[] = [];
+    for (const match of parseScriptureReferences(text)) {
+        const { text: reference, index, ...passage } = match;
+        const last = spans[spans.length - 1];
+        if (last?.start === index) {
+            last.references.push(passage);
+        } else {
+            spans.push({
+                text: reference,
+                start: index,
+                end: index + reference.length,
+                references: [passage],
+            });
+        }
+    }
+    return spans;
+}
+
+function isNextTo(text: string, quote: Span, reference: ReferenceSpan) {
+    // Leaving out the quotation marks
+    if (reference.start > quote.end) {
+        return QUOTE_REFERENCE_GAP.test(
+            text.slice(quote.end + 1, reference.start)
+        );
+    }
+    if (reference.end < quote.start) {
+        return QUOTE_REFERENCE_GAP.test(
+            text.slice(reference.end, quote.start - 1)
+        );
+    }
+    return false;
+}
+
+function getTranslationIn(
+    translations: ScriptureTranslation[],
+    language: string,
+    preferred?: string
+): string | undefined {
+    const inLanguage = translations.filter((translation) =>
+        isSameLanguage(translation.language, language)
+    );
+    return (
+        inLanguage.find((translation) => translation.id === preferred) ??
+        inLanguage[0]
+    )?.id;
+}
+
+function hasEveryReference(
+    span: ReferenceSpan,
+    passages: Passage[]
+): boolean {
+    return span.references.every((reference) =>
+        passages.some((passage) => passage.reference === reference)
+    );
+}
+
+function describeCheck(check: ScriptureQuoteCheck): string {
+    switch (check.status) {
+        case "UNKNOWN_REFERENCE":
+            return `${check.reference} is not a passage of the Bible.`;
+        case "MISQUOTED":
+            return `"${check.quote}" is not what ${check.reference} says.`;
+        case "TEXT_REPLACED":
+            return `"${check.quote}" misquotes ${check.reference ?? check.osisRef}, which reads "${check.replacement}".`;
+        case "REFERENCE_CORRECTED":
+            return `"${check.quote}" is from ${check.replacement}, not ${check.reference}.`;
+        default:
+            return "";
+    }
+}
+
+/**
+ * Checks the Bible quotes and references of generated posts against the
+ * verses of the {@link ScriptureLibrary}, as models are prone to misquote
+ * scripture, cite the wrong verse or make verses up.
+ *
+ * A quote next to a reference is checked against the verses referenced, and
+ * other quotes against the verses found in the agent's knowledge. A quote
+ * close to its verses has their verbatim text swapped in, one from other
+ * verses has its reference corrected, and a draft with quotes matching no
+ * verse or references to no verses is rejected, with feedback for
+ * generating it again.
+ */
+export class ScriptureVerifier {
+    private readonly library: ScriptureLibrary;
+    private readonly preferredTranslation?: string;
+    // The preferred translation, or the one in the drafts' language
+    private translation?: string;
+    private readonly strict: boolean;
+    private readonly enabled: boolean;
+    private readonly threshold: number;
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly options: ScriptureVerifierOptions = {}
+    ) {
+        const mode = runtime.getSetting("SCRIPTURE_VERIFICATION");
+        this.library = new ScriptureLibrary(runtime);
+        this.preferredTranslation =
+            options.translation ??
+            runtime.getSetting("SCRIPTURE_TRANSLATION") ??
+            undefined;
+        this.translation = this.preferredTranslation;
+        this.strict = options.strict ?? mode === "strict";
+        this.enabled = mode !== "off";
+        this.threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+    }
+
+    async verify(draft: string): Promise<ScriptureVerification> {
+        const verification: ScriptureVerification = {
+            outcome: "SKIPPED",
+            draft,
+            text: draft,
+            checks: [],
+        };
+        const translations = this.enabled
+            ? await this.library.getTranslations()
+            : [];
+        if (translations.length === 0) {
+            return verification;
+        }
+        if (this.options.language) {
+            this.translation = getTranslationIn(
+                translations,
+                this.options.language,
+                this.preferredTranslation
+            );
+        }
+
+        const references = getReferences(draft);
+        const edits: { start: number; end: number; text: string }[] = [];
+        const quoted = new Set<ReferenceSpan>();
+        for (const quote of getQuotes(draft)) {
+            const reference = references.find(
+                (span) => !quoted.has(span) && isNextTo(draft, quote, span)
+            );
+            if (reference) {
+                quoted.add(reference);
+            }
+            const check = await this.checkQuote(
+                quote,
+                reference,
+                translations,
+                edits
+            );
+            if (check) {
+                verification.checks.push(check);
+            }
+        }
+        for (const reference of references) {
+            if (quoted.has(reference)) continue;
+            const passages = await this.getPassages(
+                reference.references,
+                translations
+            );
+            verification.checks.push({
+                status: hasEveryReference(reference, passages)
+                    ? "VERIFIED"
+                    : "UNKNOWN_REFERENCE",
+                reference: reference.text,
+                osisRef: reference.references.map(toOsisReference).join(" "),
+            });
+        }
+
+        let text = draft;
+        for (const edit of edits.sort((a, b) => b.start - a.start)) {
+            text =
+                text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+        }
+
+        const problems = verification.checks
+            .filter(
+                ({ status }) =>
+                    status !== "VERIFIED" &&
+                    (this.strict ||
+                        status === "UNKNOWN_REFERENCE" ||
+                        status === "MISQUOTED")
+            )
+            .map(describeCheck);
+        const maxLength = this.options.maxLength;
+        if (problems.length === 0 && maxLength && text.length > maxLength) {
+            problems.push(
+                `Quoted word for word, the post is ${text.length} characters, over the limit of ${maxLength}.`
+            );
+        }
+
+        if (problems.length > 0) {
+            verification.outcome = "REJECTED";
+            verification.feedback = [
+                "The previous draft was rejected:",
+                ...problems.map((problem) => `- ${problem}`),
+                "Quote scripture word for word with its correct reference, or paraphrase it without quotation marks.",
+            ].join("\n");
+        } else if (edits.length > 0) {
+            verification.outcome = "CORRECTED";
+            verification.text = text;
+        } else {
+            verification.outcome = "PASSED";
+        }
+        return verification;
+    }
+
+    /**
+     * Generates drafts until one is verified, telling the model what was
+     * wrong with the last one. Returns null when no draft is generated, or
+     * none passes in `maxAttempts`.
+     */
+    async generate(
+        generate: (feedback?: string) => Promise<string | null | undefined>,
+        maxAttempts = 3
+    ): Promise<ScriptureVerification | null> {
+        let feedback: string | undefined;
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const draft = await generate(feedback);
+            if (!draft) return null;
+
+            const verification = await this.verify(draft);
+            verification.attempts = attempt;
+            if (verification.outcome !== "REJECTED") {
+                if (verification.outcome === "CORRECTED") {
+                    elizaLogger.info(
+                        `[Scripture] Corrected draft: ${verification.text}`
+                    );
+                }
+                return verification;
+            }
+            elizaLogger.warn(
+                `[Scripture] Draft ${attempt}/${maxAttempts} rejected: ${verification.feedback}`
+            );
+            feedback = verification.feedback;
+        }
+        return null;
+    }
+
+    /**
+     * Keeps the verification of a posted tweet for audit, in the database
+     * when the adapter supports it
+     * ({@link IDatabaseScriptureVerificationAdapter}), and in the runtime
+     * cache otherwise.
+     */
+    async record(
+        tweetId: string,
+        verification: ScriptureVerification,
+        source: string
+    ): Promise<void> {
+        const record: ScriptureVerificationRecord = {
+            ...verification,
+            agentId: this.runtime.agentId,
+            tweetId,
+            source,
+            createdAt: Date.now(),
+        };
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseScriptureVerificationAdapter(db)) {
+            await db.addScriptureVerification(record);
+            return;
+        }
+        await this.runtime.cacheManager.set(
+            getVerificationKey(tweetId),
+            record
+        );
+    }
+
+    async getRecord(
+        tweetId: string
+    ): Promise<ScriptureVerificationRecord | undefined> {
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseScriptureVerificationAdapter(db)) {
+            return (
+                (await db.getScriptureVerification({
+                    agentId: this.runtime.agentId,
+                    tweetId,
+                })) ?? undefined
+            );
+        }
+        return this.runtime.cacheManager.get<ScriptureVerificationRecord>(
+            getVerificationKey(tweetId)
+        );
+    }
+
+    private async checkQuote(
+        quote: Span,
+        reference: ReferenceSpan | undefined,
+        translations: ScriptureTranslation[],
+        edits: { start: number; end: number; text: string }[]
+    ): Promise<ScriptureQuoteCheck | null> {
+        const words = getWords(quote.text);
+        const check = { quote: quote.text, reference: reference?.text };
+
+        const passages = reference
+            ? await this.getPassages(reference.references, translations)
+            : [];
+        const referenced = getBestMatch(
+            passages.map(({ reference, verses }) =>
+                matchPassage(words, reference, verses)
+            )
+        );
+        if (referenced?.isExact) {
+            return this.toCheck("VERIFIED", check, referenced);
+        }
+        if (referenced && referenced.similarity >= this.threshold) {
+            const text = this.getPreferredText(referenced, passages);
+            edits.push({ ...quote, text });
+            return this.toCheck("TEXT_REPLACED", check, referenced, text);
+        }
+
+        const found = await this.findQuote(words, quote.text);
+        if (found && found.similarity >= this.threshold) {
+            if (!reference) {
+                if (found.isExact) {
+                    return this.toCheck("VERIFIED", check, found);
+                }
+                edits.push({ ...quote, text: found.text });
+                return this.toCheck("TEXT_REPLACED", check, found, found.text);
+            }
+
+            const corrected = formatScriptureReference(found.reference);
+            edits.push({ ...reference, text: corrected });
+            if (!found.isExact) {
+                edits.push({ ...quote, text: found.text });
+            }
+            return this.toCheck("REFERENCE_CORRECTED", check, found, corrected);
+        }
+
+        if (!reference) {
+            // Not scripture, as far as the verses tell
+            return null;
+        }
+        return {
+            ...check,
+            status: hasEveryReference(reference, passages)
+                ? "MISQUOTED"
+                : "UNKNOWN_REFERENCE",
+            osisRef: reference.references.map(toOsisReference).join(" "),
+        };
+    }
+
+    private toCheck(
+        status: ScriptureQuoteCheck["status"],
+        check: Pick<ScriptureQuoteCheck, "quote" | "reference">,
+        match: PassageMatch,
+        replacement?: string
+    ): ScriptureQuoteCheck {
+        return {
+            ...check,
+            status,
+            osisRef: toOsisReference(match.reference),
+            translation: match.translation,
+            similarity: match.similarity,
+            replacement,
+        };
+    }
+
+    /**
+     * The verses of the references in each translation that has them.
+     */
+    private async getPassages(
+        references: ScriptureReference[],
+        translations: ScriptureTranslation[]
+    ): Promise<Passage[]> {
+        const passages: Passage[] = [];
+        for (const reference of references) {
+            for (const { id } of translations) {
+                const verses = await this.library.resolve(reference, {
+                    translation: id,
+                });
+                if (verses.length > 0) {
+                    passages.push({ reference, verses });
+                }
+            }
+        }
+        return passages;
+    }
+
+    // The text of the matched verses in the chosen translation, when known
+    private getPreferredText(match: PassageMatch, passages: Passage[]): string {
+        const preferred = passages.find(
+            ({ reference, verses }) =>
+                reference === match.reference &&
+                verses[0].translation === this.translation
+        );
+        return preferred
+            ? preferred.verses.map((verse) => verse.text).join(" ")
+            : match.text;
+    }
+
+    /**
+     * Looks for the verses a quote is from among those closest to it in the
+     * agent's knowledge, trying each verse of the chunks found, and each with
+     * the verses around it for quotes running over two verses.
+     */
+    private async findQuote(
+        words: string[],
+        quote: string
+    ): Promise<PassageMatch | undefined> {
+        const items = await this.runtime.ragKnowledgeManager.getKnowledge({
+            query: quote,
+            limit: QUOTE_SEARCH_LIMIT,
+        });
+
+        const matches: PassageMatch[] = [];
+        for (const { content } of items) {
+            const metadata = content.metadata;
+            if (metadata?.type !== "scripture" || !metadata.isChunk) continue;
+
+            const { book, chapter, verse, endVerse = verse } = metadata as {
+                book: string;
+                chapter: number;
+                verse: number;
+                endVerse?: number;
+            };
+            const translations = new Set([
+                metadata.translation as string,
+                this.translation ?? (metadata.translation as string),
+            ]);
+            const windows = [[verse - 1, verse]];
+            for (let current = verse; current <= endVerse; current++) {
+                windows.push([current, current], [current, current + 1]);
+            }
+            for (const [start, end] of windows) {
+                const reference: ScriptureReference =
+                    start === end
+                        ? { book, chapter, verse: start }
+                        : { book, chapter, verse: start, endVerse: end };
+                for (const translation of translations) {
+                    const verses = await this.library.resolve(reference, {
+                        translation,
+                    });
+                    if (verses.length === end - start + 1) {
+                        matches.push(matchPassage(words, reference, verses));
+                    }
+                }
+            }
+        }
+        return getBestMatch(matches);
+    }
+}
+
+function getVerificationKey(tweetId: string): string {
+    return `scripture/verifications/${tweetId}`;
+}
@@ -0,0 +1,115 @@
+import { isDatabaseTweetDecisionAdapter } from "./database.ts";
+import type {
+    IAgentRuntime,
+    TweetActionType,
+    TweetDecisionRecord,
+} from "./types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long decisions are kept without a database adapter
+const CACHE_RETENTION_DAYS = 7;
+
+function getDecisionsKey(day: string): string {
+    return `twitter/decisions/${day}`;
+}
+
+function getDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Keeps the agent's timeline action decisions: what it decided for each
+ * action on a tweet, how confident it was and why, and what came of it. Also
+ * counts the actions taken, for daily caps.
+ *
+ * Records are kept in the database when the adapter supports it
+ * ({@link IDatabaseTweetDecisionAdapter}), and in the runtime cache for a
+ * week otherwise.
+ */
+export class TweetDecisionLog {
+    constructor(private readonly runtime: IAgentRuntime) {}
+
+    async record(record: TweetDecisionRecord): Promise<void> {
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseTweetDecisionAdapter(db)) {
+            await db.addTweetDecision(record);
+            return;
+        }
+
+        const key = getDecisionsKey(getDay(record.createdAt));
+        const records =
+            (await this.runtime.cacheManager.get<TweetDecisionRecord[]>(key)) ??
+            [];
+        await this.runtime.cacheManager.set(key, [record, ...records], {
+            expires: record.createdAt + CACHE_RETENTION_DAYS * DAY_MS,
+        });
+    }
+
+    /**
+     * Returns the decisions, newest first.
+     */
+    async getRecent(
+        params: {
+            account?: string;
+            tweetId?: string;
+            since?: number;
+            limit?: number;
+        } = {}
+    ): Promise<TweetDecisionRecord[]> {
+        const db = this.runtime.databaseAdapter;
+        if (isDatabaseTweetDecisionAdapter(db)) {
+            return db.getTweetDecisions({
+                agentId: this.runtime.agentId,
+                ...params,
+            });
+        }
+
+        const now = Date.now();
+        const since = Math.max(
+            params.since ?? 0,
+            now - CACHE_RETENTION_DAYS * DAY_MS
+        );
+        const records: TweetDecisionRecord[] = [];
+        for (let day = now; getDay(day) >= getDay(since); day -= DAY_MS) {
+            records.push(
+                ...((await this.runtime.cacheManager.get<
+                    TweetDecisionRecord[]
+                >(getDecisionsKey(getDay(day)))) ?? [])
+            );
+        }
+        return records
+            .filter(
+                (record) =>
+                    record.createdAt >= since &&
+                    (!params.account || record.account === params.account) &&
+                    (!params.tweetId || record.tweetId === params.tweetId)
+            )
+            .slice(0, params.limit);
+    }
+
+    /**
+     * Counts the actions an account took, dry runs included, over the last
+     * 24 hours.
+     */
+    async countTaken(
+        account: string,
+        now = Date.now()
+    ): Promise<Record<TweetActionType, number>> {
+        const counts: Record<TweetActionType, number> = {
+            LIKE: 0,
+            RETWEET: 0,
+            QUOTE: 0,
+            REPLY: 0,
+        };
+        const records = await this.getRecent({ account, since: now - DAY_MS });
+        for (const { decisions } of records) {
+            for (const { action, outcome } of decisions) {
+                if (outcome === "TAKEN" || outcome === "DRY_RUN") {
+                    counts[action]++;
+                }
+            }
+        }
+        return counts;
+    }
+}
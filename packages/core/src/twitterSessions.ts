@@ -0,0 +1,478 @@
+import {
+    createCipheriv,
+    createDecipheriv,
+    randomBytes,
+    scryptSync,
+} from "crypto";
+import { defineCapability } from "./capabilities.ts";
+import { elizaLogger } from "./logger.ts";
+import type {
+    CapabilityLifecycle,
+    IAgentRuntime,
+    TwitterCredentials,
+    TwitterSessionClient,
+    TwitterSessionState,
+    TwitterSessionStatus,
+} from "./types.ts";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// The cookie whose expiry ends the session
+const SESSION_COOKIE = "auth_token";
+const CIPHER = "aes-256-gcm";
+const KEY_SALT = "eliza-twitter-session-vault";
+
+export interface TwitterSessionVaultOptions {
+    /** Cookies expiring within this are refreshed by logging in again. Defaults to 3 days */
+    refreshBeforeExpiryMs?: number;
+    /** How often the monitor checks the session. Defaults to 30 minutes */
+    checkIntervalMs?: number;
+    /** Login attempts allowed per window, to avoid an account lockout. Defaults to 3 */
+    maxLoginAttempts?: number;
+    /** Defaults to 1 hour */
+    loginWindowMs?: number;
+    /** Cookies to start from when none are stored, e.g. from TWITTER_COOKIES_* */
+    initialCookies?: StoredCookie[];
+}
+
+/**
+ * A cookie as stored in the vault. Scrapers return tough-cookie objects, which
+ * serialize to this shape.
+ */
+export interface StoredCookie {
+    key: string;
+    value: string;
+    domain?: string;
+    path?: string;
+    expires?: string | Date | number;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: string;
+}
+
+interface EncryptedCookies {
+    version: 1;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+function isEncryptedCookies(value: unknown): value is EncryptedCookies {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        (value as EncryptedCookies).version === 1 &&
+        typeof (value as EncryptedCookies).data === "string"
+    );
+}
+
+function getCookiesKey(username: string): string {
+    return `twitter/${username}/cookies`;
+}
+
+function getLoginAttemptsKey(username: string): string {
+    return `twitter/${username}/login_attempts`;
+}
+
+function toCookieString(cookie: StoredCookie): string {
+    const expires = getCookieExpiry(cookie);
+    return [
+        `${cookie.key}=${cookie.value}`,
+        `Domain=${cookie.domain ?? ".twitter.com"}`,
+        `Path=${cookie.path ?? "/"}`,
+        expires ? `Expires=${new Date(expires).toUTCString()}` : "",
+        cookie.secure ? "Secure" : "",
+        cookie.httpOnly ? "HttpOnly" : "",
+        `SameSite=${cookie.sameSite || "Lax"}`,
+    ]
+        .filter(Boolean)
+        .join("; ");
+}
+
+function getCookieExpiry(cookie: StoredCookie): number | undefined {
+    if (cookie.expires === undefined || cookie.expires === "Infinity") {
+        return undefined;
+    }
+    const expires = new Date(cookie.expires).getTime();
+    return Number.isNaN(expires) ? undefined : expires;
+}
+
+/**
+ * Keeps a Twitter account logged in. Cookies are stored in the runtime cache,
+ * encrypted with a key derived from the TWITTER_SESSION_SECRET setting; the
+ * session is checked periodically and refreshed by logging in again before
+ * its cookies expire or once it was invalidated. Login attempts are counted
+ * in the cache, so even restarts cannot exceed `maxLoginAttempts` per window
+ * and get the account locked.
+ *
+ * Without TWITTER_SESSION_SECRET, cookies are stored unencrypted.
+ */
+export class TwitterSessionVault {
+    private status: TwitterSessionStatus;
+    private key: Buffer | null;
+    private monitor: NodeJS.Timeout | null = null;
+    private refreshing: Promise<void> | null = null;
+
+    private refreshBeforeExpiryMs: number;
+    private checkIntervalMs: number;
+    private maxLoginAttempts: number;
+    private loginWindowMs: number;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private client: TwitterSessionClient,
+        private credentials: TwitterCredentials,
+        private options: TwitterSessionVaultOptions = {}
+    ) {
+        this.refreshBeforeExpiryMs =
+            options.refreshBeforeExpiryMs ?? 3 * 24 * HOUR_MS;
+        this.checkIntervalMs = options.checkIntervalMs ?? 30 * MINUTE_MS;
+        this.maxLoginAttempts = options.maxLoginAttempts ?? 3;
+        this.loginWindowMs = options.loginWindowMs ?? HOUR_MS;
+
+        const secret = runtime.getSetting("TWITTER_SESSION_SECRET");
+        this.key = secret ? scryptSync(secret, KEY_SALT, 32) : null;
+        if (!this.key) {
+            elizaLogger.warn(
+                `[Session] TWITTER_SESSION_SECRET is not set, the cookies of @${credentials.username} are stored unencrypted`
+            );
+        }
+
+        this.status = {
+            username: credentials.username,
+            state: "UNKNOWN",
+            encrypted: !!this.key,
+            loginAttempts: 0,
+        };
+    }
+
+    get username(): string {
+        return this.credentials.username;
+    }
+
+    getStatus(): TwitterSessionStatus {
+        return { ...this.status };
+    }
+
+    /**
+     * Makes sure the client is logged in: restores the stored cookies, and
+     * logs in when they are missing, expiring or no longer valid.
+     *
+     * @throws When logging in fails or is throttled
+     */
+    async ensureSession(): Promise<void> {
+        if (this.status.state === "UNKNOWN") {
+            await this.restore();
+        }
+        const state = await this.check();
+        if (state === "EXPIRING") {
+            // Still logged in, so a failed refresh can wait for the next check
+            await this.refresh().catch((error) =>
+                elizaLogger.warn(
+                    `[Session] Could not refresh the expiring session of @${this.username}: ${error.message}`
+                )
+            );
+        } else if (state !== "ACTIVE") {
+            await this.refresh();
+        }
+    }
+
+    /**
+     * Checks whether the session is still valid and how soon it expires,
+     * without logging in.
+     */
+    async check(): Promise<TwitterSessionState> {
+        const now = Date.now();
+        let loggedIn = false;
+        try {
+            loggedIn = await this.client.isLoggedIn();
+        } catch (error) {
+            this.status.lastError =
+                error instanceof Error ? error.message : String(error);
+        }
+
+        const cookies = await this.getClientCookies();
+        const sessionCookie = cookies.find((c) => c.key === SESSION_COOKIE);
+        const expiresAt = sessionCookie
+            ? getCookieExpiry(sessionCookie)
+            : undefined;
+
+        let state: TwitterSessionState;
+        if (!loggedIn || (expiresAt !== undefined && expiresAt <= now)) {
+            state = (await this.getLoginDelay(now)) > 0 ? "THROTTLED" : "EXPIRED";
+        } else if (
+            expiresAt !== undefined &&
+            expiresAt - now < this.refreshBeforeExpiryMs
+        ) {
+            state = "EXPIRING";
+        } else {
+            state = "ACTIVE";
+        }
+
+        this.status = {
+            ...this.status,
+            state,
+            expiresAt,
+            lastCheckedAt: now,
+            loginAttempts: (await this.getRecentLoginAttempts(now)).length,
+        };
+        return state;
+    }
+
+    /**
+     * Logs in again and stores the new cookies. Concurrent calls share one
+     * login.
+     *
+     * @throws When logging in fails or is throttled
+     */
+    async refresh(): Promise<void> {
+        if (!this.refreshing) {
+            this.refreshing = this.login().finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    /**
+     * Checks the session every `checkIntervalMs`, refreshing it when it
+     * expires soon or was invalidated.
+     */
+    startMonitoring(): void {
+        if (this.monitor) return;
+        this.monitor = setInterval(async () => {
+            try {
+                const state = await this.check();
+                if (state === "EXPIRING" || state === "EXPIRED") {
+                    elizaLogger.info(
+                        `[Session] Session of @${this.username} is ${state.toLowerCase()}, logging in again`
+                    );
+                    await this.refresh();
+                }
+            } catch (error) {
+                elizaLogger.error(
+                    `[Session] Could not refresh the session of @${this.username}: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }, this.checkIntervalMs);
+    }
+
+    stop(): void {
+        if (this.monitor) {
+            clearInterval(this.monitor);
+            this.monitor = null;
+        }
+    }
+
+    /**
+     * Stores the client's current cookies.
+     */
+    async save(): Promise<void> {
+        const cookies = await this.getClientCookies();
+        await this.runtime.cacheManager.set(
+            getCookiesKey(this.username),
+            this.key ? this.encrypt(this.key, cookies) : cookies
+        );
+    }
+
+    /**
+     * Loads the stored cookies, or the initial ones, into the client.
+     *
+     * @returns Whether there were cookies to load
+     */
+    async restore(): Promise<boolean> {
+        const cookies =
+            (await this.load()) ?? this.options.initialCookies ?? null;
+        if (!cookies?.length) {
+            return false;
+        }
+        await this.client.setCookies(cookies.map(toCookieString));
+        return true;
+    }
+
+    private async login(): Promise<void> {
+        const now = Date.now();
+        const delay = await this.getLoginDelay(now);
+        if (delay > 0) {
+            const error = new Error(
+                `Login attempts for @${this.username} are paused until ${new Date(now + delay).toISOString()} to avoid a lockout`
+            );
+            this.status = {
+                ...this.status,
+                state: "THROTTLED",
+                nextLoginAt: now + delay,
+                lastError: error.message,
+            };
+            throw error;
+        }
+
+        const { username, password, email, twoFactorSecret } = this.credentials;
+        if (!password) {
+            throw new Error(`No password to log in @${username} with`);
+        }
+
+        await this.recordLoginAttempt(now);
+        try {
+            await this.client.login(username, password, email, twoFactorSecret);
+            if (!(await this.client.isLoggedIn())) {
+                throw new Error("Login verification failed");
+            }
+        } catch (error) {
+            this.status.lastError =
+                error instanceof Error ? error.message : String(error);
+            this.status.state = "EXPIRED";
+            throw error;
+        }
+
+        await this.save();
+        this.status.lastLoginAt = Date.now();
+        this.status.nextLoginAt = undefined;
+        this.status.lastError = undefined;
+        await this.check();
+        elizaLogger.info(`[Session] Logged in @${username}`);
+    }
+
+    private async load(): Promise<StoredCookie[] | null> {
+        const stored = await this.runtime.cacheManager.get<
+            StoredCookie[] | EncryptedCookies
+        >(getCookiesKey(this.username));
+        if (!stored) {
+            return null;
+        }
+        if (!isEncryptedCookies(stored)) {
+            // Stored before encryption was set up; encrypted on the next save
+            return stored;
+        }
+        if (!this.key) {
+            elizaLogger.warn(
+                `[Session] Stored cookies of @${this.username} are encrypted, but TWITTER_SESSION_SECRET is not set`
+            );
+            return null;
+        }
+        try {
+            return this.decrypt(this.key, stored);
+        } catch {
+            elizaLogger.warn(
+                `[Session] Could not decrypt the cookies of @${this.username}, was TWITTER_SESSION_SECRET changed?`
+            );
+            return null;
+        }
+    }
+
+    private async getClientCookies(): Promise<StoredCookie[]> {
+        try {
+            // Serializes tough-cookie objects into plain ones
+            return JSON.parse(JSON.stringify(await this.client.getCookies()));
+        } catch {
+            return [];
+        }
+    }
+
+    private encrypt(key: Buffer, cookies: StoredCookie[]): EncryptedCookies {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv(CIPHER, key, iv);
+        const data = Buffer.concat([
+            cipher.update(JSON.stringify(cookies), "utf8"),
+            cipher.final(),
+        ]);
+        return {
+            version: 1,
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+            data: data.toString("base64"),
+        };
+    }
+
+    private decrypt(key: Buffer, stored: EncryptedCookies): StoredCookie[] {
+        const decipher = createDecipheriv(
+            CIPHER,
+            key,
+            Buffer.from(stored.iv, "base64")
+        );
+        decipher.setAuthTag(Buffer.from(stored.tag, "base64"));
+        const data = Buffer.concat([
+            decipher.update(Buffer.from(stored.data, "base64")),
+            decipher.final(),
+        ]);
+        return JSON.parse(data.toString("utf8"));
+    }
+
+    private async getRecentLoginAttempts(now: number): Promise<number[]> {
+        const attempts =
+            (await this.runtime.cacheManager.get<number[]>(
+                getLoginAttemptsKey(this.username)
+            )) ?? [];
+        return attempts.filter((at) => now - at < this.loginWindowMs);
+    }
+
+    private async recordLoginAttempt(now: number): Promise<void> {
+        const attempts = [...(await this.getRecentLoginAttempts(now)), now];
+        this.status.loginAttempts = attempts.length;
+        await this.runtime.cacheManager.set(
+            getLoginAttemptsKey(this.username),
+            attempts,
+            { expires: now + this.loginWindowMs }
+        );
+    }
+
+    /**
+     * How long until the next login attempt is allowed, 0 if it is now.
+     */
+    private async getLoginDelay(now: number): Promise<number> {
+        const attempts = await this.getRecentLoginAttempts(now);
+        if (attempts.length < this.maxLoginAttempts) {
+            return 0;
+        }
+        return attempts[0] + this.loginWindowMs - now;
+    }
+}
+
+/**
+ * The session vaults of an agent's Twitter accounts, for reporting their
+ * health.
+ */
+export class TwitterSessionRegistry implements CapabilityLifecycle {
+    private vaults = new Map<string, TwitterSessionVault>();
+
+    register(vault: TwitterSessionVault): void {
+        this.vaults.get(vault.username.toLowerCase())?.stop();
+        this.vaults.set(vault.username.toLowerCase(), vault);
+    }
+
+    get(username: string): TwitterSessionVault | undefined {
+        return this.vaults.get(username.toLowerCase());
+    }
+
+    getStatuses(): TwitterSessionStatus[] {
+        return Array.from(this.vaults.values()).map((vault) =>
+            vault.getStatus()
+        );
+    }
+
+    async stop(): Promise<void> {
+        for (const vault of this.vaults.values()) {
+            vault.stop();
+        }
+    }
+}
+
+export const TWITTER_SESSIONS = defineCapability<TwitterSessionRegistry>(
+    "twitter:sessions"
+);
+
+/**
+ * Adds a vault to the agent's session registry, creating the registry on
+ * first use.
+ */
+export function registerTwitterSession(
+    runtime: IAgentRuntime,
+    vault: TwitterSessionVault
+): void {
+    let registry = runtime.getCapability(TWITTER_SESSIONS);
+    if (!registry) {
+        registry = new TwitterSessionRegistry();
+        runtime.registerCapability(TWITTER_SESSIONS, registry);
+    }
+    registry.register(vault);
+}
@@ -678,6 +678,12 @@ export type Plugin = {
     /** Optional adapters */
     adapters?: Adapter[];
 
+    /** Optional capabilities the plugin provides to the runtime */
+    capabilities?: CapabilityRegistration[];
+
+    /** Capabilities the plugin needs; the runtime fails to initialize without them */
+    requiredCapabilities?: CapabilityKey<unknown>[];
+
     /** Optional post charactor processor handler */
     handlePostCharacterLoaded?: (char: Character) => Promise<Character>;
 
@@ -765,11 +771,13 @@ export type Character = {
         continueMessageHandlerTemplate?: TemplateType;
         evaluationTemplate?: TemplateType;
         twitterSearchTemplate?: TemplateType;
+        twitterSearchSelectionTemplate?: TemplateType;
         twitterActionTemplate?: TemplateType;
         twitterPostTemplate?: TemplateType;
         twitterMessageHandlerTemplate?: TemplateType;
         twitterShouldRespondTemplate?: TemplateType;
         twitterVoiceHandlerTemplate?: TemplateType;
+        twitterSpaceSummaryTemplate?: TemplateType;
         instagramPostTemplate?: TemplateType;
         instagramMessageHandlerTemplate?: TemplateType;
         instagramShouldRespondTemplate?: TemplateType;
@@ -830,6 +838,8 @@ export type Character = {
         secrets?: { [key: string]: string };
         intiface?: boolean;
         imageSettings?: {
+            /** Image backend: "model" (default, uses imageModelProvider), "pollinations", "stub" or a registered one */
+            backend?: string;
             steps?: number;
             width?: number;
             height?: number;
@@ -868,6 +878,18 @@ export type Character = {
         };
         transcription?: TranscriptionProvider;
         ragKnowledge?: boolean;
+        ragChunking?: KnowledgeChunkingOptions;
+        /**
+         * Languages replies are written in, matching the mention's, e.g.
+         * ["eng", "spa"]. The first is the default, for mentions whose
+         * language can't be told. Any known language by default.
+         */
+        replyLanguages?: string[];
+        /**
+         * What to do with mentions in other languages: reply in the default
+         * language, or not at all. Default: "default"
+         */
+        replyLanguageFallback?: "default" | "ignore";
     };
 
     /** Optional client-specific config */
@@ -965,8 +987,64 @@ export type Character = {
     extends?: string[];
 
     twitterSpaces?: TwitterSpaceDecisionOptions;
+
+    /** Optional targeting of the tweets the Twitter search client replies to */
+    twitterSearch?: TwitterSearchEngagementConfig;
+
+    /** Optional Twitter accounts to run, instead of the one in TWITTER_USERNAME */
+    twitterAccounts?: TwitterAccountConfig[];
+
+    /** Optional fixed posting schedule, replacing the random post interval */
+    postingCalendar?: PostingCalendarConfig;
+
+    /** Optional content moderation of received and generated text */
+    moderation?: ContentModerationConfig;
 };
 
+/**
+ * Terms match whole words, ignoring case, accents and leetspeak. A trailing
+ * "*" also matches longer words, e.g. "blasphem*".
+ */
+export interface ContentModerationConfig {
+    /** Terms that block a text, added to the default blocklist */
+    blocklist?: string[];
+
+    /** Words or phrases exempt from the blocklist, e.g. "sex education" */
+    allowlist?: string[];
+
+    /** Set to false to only use the character's blocklist */
+    useDefaultBlocklist?: boolean;
+
+    /** Asks the model to classify text the blocklist lets through */
+    classifier?: {
+        enabled?: boolean;
+        /** Prompt with {{agentName}}, {{action}} and {{text}} placeholders */
+        template?: string;
+        modelClass?: ModelClass;
+    };
+}
+
+/**
+ * When a character publishes posts. Slots come from cron expressions and
+ * explicit times, both evaluated in the calendar's timezone.
+ */
+export interface PostingCalendarConfig {
+    /** IANA timezone, e.g. "Europe/Berlin". Defaults to UTC */
+    timezone?: string;
+
+    /** Five-field cron expressions (minute hour day-of-month month day-of-week) */
+    cron?: string[];
+
+    /**
+     * Explicit slots: "HH:mm" repeats daily, "YYYY-MM-DDTHH:mm" happens once.
+     * Values with a "Z" or UTC offset ignore the calendar's timezone.
+     */
+    slots?: string[];
+
+    /** How many upcoming slots get a pre-generated draft. Defaults to 3 */
+    draftsAhead?: number;
+}
+
 export interface TwitterSpaceDecisionOptions {
     maxSpeakers?: number;
     topics?: string[];
@@ -978,9 +1056,152 @@ export interface TwitterSpaceDecisionOptions {
     enableIdleMonitor?: boolean;
     enableSttTts?: boolean;
     enableRecording?: boolean;
+    /** Store a speaker-attributed transcript and a summary of each Space. Defaults to true */
+    enableTranscript?: boolean;
+    /** Post a thread recapping each Space once it ends. Defaults to false */
+    postRecap?: boolean;
+    /** Text-to-speech engine: "elevenlabs" (the default), or "piper" to run locally with PIPER_MODEL_PATH */
+    speechSynthesizer?: "elevenlabs" | "piper";
     voiceId?: string;
     sttLanguage?: string;
     speakerMaxDurationMs?: number;
+    /** When the agent answers, and when it lets itself be interrupted */
+    turnTaking?: TwitterSpaceTurnTakingOptions;
+    /** Who gets on stage, and what happens to speakers saying blocked content */
+    moderation?: TwitterSpaceModerationOptions;
+}
+
+/**
+ * Moderation of a Space's speakers. Speaker requests are checked against the
+ * handle lists, then vetted from the requester's history with the agent.
+ */
+export interface TwitterSpaceModerationOptions {
+    /** Handles, without the @, accepted as speakers without vetting */
+    allowlist?: string[];
+    /** Handles never accepted as speakers, and removed from the stage */
+    blocklist?: string[];
+    /** Only accept speakers on the allowlist. Defaults to false */
+    allowlistOnly?: boolean;
+    vetting?: {
+        /** Conversations a speaker must have had with the agent. Defaults to 0 */
+        minInteractions?: number;
+        /** Only accept speakers the agent has a relationship with. Defaults to false */
+        requireRelationship?: boolean;
+        /** Relationship statuses rejected as speakers. Defaults to ["BLOCKED"] */
+        blockedStatuses?: string[];
+    };
+    /**
+     * Run what speakers say through the character's content moderation,
+     * muting speakers saying blocked content. Defaults to true
+     */
+    autoMute?: boolean;
+    /** How long a speaker stays muted. Defaults to 2 minutes */
+    muteDurationMs?: number;
+    /** Blocked transcripts after which a speaker is removed for the rest of the Space. Defaults to 2 */
+    maxStrikes?: number;
+}
+
+/**
+ * Voice activity detection of a Space speaker.
+ */
+export interface TwitterSpaceVadOptions {
+    /** RMS level of a frame, from 0 to 1, above which it is speech. Defaults to 0.02 */
+    threshold?: number;
+    /** Shorter speech is noise rather than a turn. Defaults to 300ms */
+    minSpeechMs?: number;
+    /** Silence that ends a speaker's turn. Defaults to 1000ms */
+    silenceMs?: number;
+}
+
+export interface TwitterSpaceTurnTakingOptions {
+    vad?: TwitterSpaceVadOptions;
+    /** VAD overrides per speaker, by Twitter user ID, e.g. for a noisy microphone */
+    speakers?: Record<string, TwitterSpaceVadOptions>;
+    /** How long a speaker talks over the agent before it stops to listen. Defaults to 500ms */
+    bargeInMs?: number;
+    /** Longest the agent talks per turn. Defaults to 30 seconds */
+    maxAgentTalkMs?: number;
+    /**
+     * Turns the agent answers per speaker within `fairnessWindowMs`. Past
+     * that, other speakers are answered first, and the speaker can't
+     * interrupt the agent. Defaults to 3
+     */
+    maxTurnsPerSpeaker?: number;
+    /** Defaults to 5 minutes */
+    fairnessWindowMs?: number;
+}
+
+/**
+ * A Twitter account run by the agent, alongside its other accounts.
+ */
+export interface TwitterAccountConfig {
+    /** Username of the account, without the @ */
+    username: string;
+
+    /**
+     * Twitter settings of this account, e.g. TWITTER_SEARCH_ENABLE or
+     * POST_INTERVAL_MIN. Settings not given here are read from the agent's
+     * settings, first as `<SETTING>_<USERNAME>` (e.g. TWITTER_PASSWORD_SUPPORT),
+     * then as the shared setting. Credentials and cookies are never shared.
+     */
+    settings?: Record<string, string>;
+
+    /** Which mentions this account replies to */
+    routing?: TwitterAccountRouting;
+}
+
+/**
+ * Rules for routing mentions between the agent's Twitter accounts. A mention
+ * goes to the first account whose rules match it, else to the first of the
+ * agent's accounts it mentions, else to the default account.
+ */
+export interface TwitterAccountRouting {
+    /** Mentions containing any of these words, ignoring case */
+    keywords?: string[];
+
+    /** Mentions by these users */
+    fromUsers?: string[];
+
+    /** Replies to the mentions no rule matches and no account is mentioned in */
+    default?: boolean;
+}
+
+/**
+ * Which tweets the Twitter search client replies to. Tweets found by the
+ * queries are filtered, scored and the best ones offered to the model.
+ */
+export interface TwitterSearchEngagementConfig {
+    /**
+     * Saved searches, with Twitter search operators if needed, e.g.
+     * "grace -filter:links min_faves:5". Defaults to the character's topics
+     */
+    queries?: string[];
+
+    /** Follower range of authors to reply to */
+    minFollowers?: number;
+    maxFollowers?: number;
+
+    /** Languages to reply to, as ISO 639-1 or 639-3 codes. Defaults to ["en"] */
+    languages?: string[];
+
+    /** Tweets older than this are skipped. Defaults to 24 */
+    maxAgeHours?: number;
+
+    /** Hours before replying to the same author again. Defaults to 24 */
+    authorCooldownHours?: number;
+
+    /** How many of the best-scored tweets the model chooses from. Defaults to 5 */
+    maxCandidates?: number;
+
+    /** How much each score, between 0 and 1, counts in a tweet's total */
+    weights?: {
+        /** Newer tweets score higher. Defaults to 1 */
+        recency?: number;
+        /** Tweets closer to the character's topics score higher. Defaults to 2 */
+        similarity?: number;
+        /** Authors the agent talked with before score higher. Defaults to 0.5 */
+        interactions?: number;
+    };
 }
 
 /**
@@ -1175,6 +1396,486 @@ export interface IDatabaseCacheAdapter {
     deleteCache(params: { agentId: UUID; key: string }): Promise<boolean>;
 }
 
+/**
+ * Lifecycle of content held in the approval queue. PENDING, APPROVED and
+ * REJECTED are reviewer decisions; POSTED and EXPIRED are set by the client
+ * once it has acted on the item.
+ */
+export type ApprovalStatus =
+    | "PENDING"
+    | "APPROVED"
+    | "REJECTED"
+    | "POSTED"
+    | "EXPIRED";
+
+/**
+ * Generated content waiting for (or resolved by) a human or external review.
+ */
+export interface ApprovalQueueItem {
+    id: UUID;
+    agentId: UUID;
+    /** Client the content will be published through, e.g. "twitter" */
+    source: string;
+    /** Account the content will be published from */
+    account: string;
+    /** Approval provider the content was submitted to */
+    provider: string;
+    /** Task ID returned by the approval provider */
+    taskId: string;
+    roomId: UUID;
+    /** Text that will be published, including reviewer edits */
+    text: string;
+    /** Text as originally generated */
+    rawText: string;
+    status: ApprovalStatus;
+    reviewer?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * A reviewer edit to an approval queue item, kept for auditing.
+ */
+export interface ApprovalEdit {
+    id: UUID;
+    approvalId: UUID;
+    previousText: string;
+    text: string;
+    editor?: string;
+    createdAt: number;
+}
+
+export type ScheduledPostStatus =
+    | "SCHEDULED"
+    | "PENDING_APPROVAL"
+    | "POSTED"
+    | "CANCELLED"
+    | "MISSED"
+    | "FAILED";
+
+/**
+ * A post planned for a posting calendar slot.
+ */
+export interface ScheduledPost {
+    id: UUID;
+    agentId: UUID;
+    /** Client that publishes the post, e.g. "twitter" */
+    source: string;
+    scheduledFor: number;
+    /** Draft or human-written text; empty until a draft is generated */
+    text?: string;
+    /** Human-written posts are published as-is and never regenerated */
+    pinned: boolean;
+    status: ScheduledPostStatus;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Optional adapter capability for storing posting calendar entries.
+ */
+export interface IDatabaseScheduledPostAdapter {
+    createScheduledPost(post: ScheduledPost): Promise<void>;
+
+    getScheduledPostById(id: UUID): Promise<ScheduledPost | null>;
+
+    /**
+     * Returns posts ordered by scheduled time, earliest first.
+     */
+    getScheduledPosts(params: {
+        agentId: UUID;
+        source?: string;
+        status?: ScheduledPostStatus | ScheduledPostStatus[];
+        from?: number;
+        to?: number;
+        limit?: number;
+    }): Promise<ScheduledPost[]>;
+
+    updateScheduledPost(params: {
+        id: UUID;
+        scheduledFor?: number;
+        text?: string;
+        pinned?: boolean;
+        status?: ScheduledPostStatus;
+    }): Promise<void>;
+}
+
+/**
+ * Optional adapter capability for a durable approval queue.
+ */
+export interface IDatabaseApprovalAdapter {
+    createApproval(approval: ApprovalQueueItem): Promise<void>;
+
+    getApprovalById(id: UUID): Promise<ApprovalQueueItem | null>;
+
+    getApprovals(params: {
+        agentId: UUID;
+        source?: string;
+        account?: string;
+        status?: ApprovalStatus | ApprovalStatus[];
+        limit?: number;
+    }): Promise<ApprovalQueueItem[]>;
+
+    /**
+     * Sets the status of an item, unless it is no longer in `expectedStatus`.
+     *
+     * @returns Whether the item was updated
+     */
+    updateApprovalStatus(params: {
+        id: UUID;
+        status: ApprovalStatus;
+        reviewer?: string;
+        expectedStatus?: ApprovalStatus;
+    }): Promise<boolean>;
+
+    /**
+     * Replaces the text of an item and records the change in its edit history.
+     */
+    updateApprovalText(params: {
+        id: UUID;
+        text: string;
+        editor?: string;
+    }): Promise<ApprovalEdit>;
+
+    getApprovalEdits(approvalId: UUID): Promise<ApprovalEdit[]>;
+}
+
+/**
+ * What an agent did with a tweet. `PROCESSED` means the tweet was handled
+ * without a visible action, e.g. skipped or ignored.
+ */
+export type ProcessedTweetAction =
+    | "PROCESSED"
+    | "REPLIED"
+    | "LIKED"
+    | "RETWEETED"
+    | "QUOTED";
+
+/**
+ * A record of an agent acting on a tweet, shared by all Twitter clients.
+ */
+export interface ProcessedTweet {
+    agentId: UUID;
+    tweetId: string;
+    action: ProcessedTweetAction;
+    /** Tweet created by the action, e.g. the reply or quote */
+    resultTweetId?: string;
+    createdAt: number;
+}
+
+/**
+ * The part of a Twitter scraper a session vault manages, e.g. the `Scraper`
+ * of agent-twitter-client.
+ */
+export interface TwitterSessionClient {
+    isLoggedIn(): Promise<boolean>;
+    login(
+        username: string,
+        password: string,
+        email?: string,
+        twoFactorSecret?: string
+    ): Promise<void>;
+    getCookies(): Promise<unknown[]>;
+    setCookies(cookies: string[]): Promise<void>;
+}
+
+export interface TwitterCredentials {
+    username: string;
+    password?: string;
+    email?: string;
+    twoFactorSecret?: string;
+}
+
+/**
+ * State of a Twitter session:
+ * - `ACTIVE`: logged in
+ * - `EXPIRING`: logged in, but the cookies expire soon and are refreshed
+ * - `EXPIRED`: logged out, the session expired or was invalidated
+ * - `THROTTLED`: logged out, and login attempts are paused to avoid a lockout
+ * - `UNKNOWN`: not checked yet
+ */
+export type TwitterSessionState =
+    | "ACTIVE"
+    | "EXPIRING"
+    | "EXPIRED"
+    | "THROTTLED"
+    | "UNKNOWN";
+
+export interface TwitterSessionStatus {
+    username: string;
+    state: TwitterSessionState;
+    /** Whether the cookies are stored encrypted */
+    encrypted: boolean;
+    /** When the session cookie expires, if known */
+    expiresAt?: number;
+    lastCheckedAt?: number;
+    lastLoginAt?: number;
+    /** Login attempts in the current rate-limit window */
+    loginAttempts: number;
+    /** When logging in is allowed again, while throttled */
+    nextLoginAt?: number;
+    lastError?: string;
+}
+
+/**
+ * Optional adapter capability for recording which tweets were acted on.
+ */
+export interface IDatabaseProcessedTweetAdapter {
+    /**
+     * Records an action unless it was already recorded for the tweet.
+     *
+     * @returns Whether the action was newly recorded
+     */
+    addProcessedTweet(record: ProcessedTweet): Promise<boolean>;
+
+    /**
+     * Returns the recorded actions, newest first.
+     */
+    getProcessedTweets(params: {
+        agentId: UUID;
+        tweetId?: string;
+        action?: ProcessedTweetAction | ProcessedTweetAction[];
+        limit?: number;
+    }): Promise<ProcessedTweet[]>;
+
+    removeProcessedTweet(params: {
+        agentId: UUID;
+        tweetId: string;
+        action: ProcessedTweetAction;
+    }): Promise<void>;
+}
+
+/**
+ * An action the agent can take on a tweet of its timeline.
+ */
+export type TweetActionType = "LIKE" | "RETWEET" | "QUOTE" | "REPLY";
+
+/**
+ * What came of a decision: `TAKEN` and `DRY_RUN` for actions done (or that
+ * would have been), the others for actions not done and why.
+ */
+export type TweetActionOutcome =
+    | "TAKEN"
+    | "DRY_RUN"
+    | "BELOW_CONFIDENCE"
+    | "DAILY_CAP"
+    | "ALREADY_TAKEN"
+    | "DEFERRED"
+    | "BLOCKED"
+    | "FAILED";
+
+/**
+ * The model's decision on one action for a tweet.
+ */
+export interface TweetActionDecision {
+    action: TweetActionType;
+    /** From 0 to 1 */
+    confidence: number;
+    rationale: string;
+    outcome?: TweetActionOutcome;
+}
+
+/**
+ * The decisions made on a tweet of the timeline, kept for auditing why the
+ * agent acted on it or skipped it.
+ */
+export interface TweetDecisionRecord {
+    id: UUID;
+    agentId: UUID;
+    /** Twitter account of the agent that made the decision */
+    account: string;
+    tweetId: string;
+    authorUsername?: string;
+    text?: string;
+    /** Empty when no valid decision could be generated, see `error` */
+    decisions: TweetActionDecision[];
+    error?: string;
+    createdAt: number;
+}
+
+/**
+ * Optional adapter capability for keeping timeline action decisions.
+ */
+export interface IDatabaseTweetDecisionAdapter {
+    addTweetDecision(record: TweetDecisionRecord): Promise<void>;
+
+    /**
+     * Returns the decisions, newest first.
+     */
+    getTweetDecisions(params: {
+        agentId: UUID;
+        account?: string;
+        tweetId?: string;
+        /** Only decisions made since, in ms */
+        since?: number;
+        limit?: number;
+    }): Promise<TweetDecisionRecord[]>;
+}
+
+export type ScriptureFormat = "osis" | "usfx" | "zefania";
+
+export interface LanguageDetection {
+    /** ISO 639-3 code, e.g. "spa" */
+    language: string;
+    /** Share of the words or characters telling the language, from 0 to 1 */
+    confidence: number;
+}
+
+/**
+ * The language to reply to a message in.
+ */
+export interface ReplyLanguage {
+    /** ISO 639-3 code, e.g. "spa" */
+    language: string;
+    /** English name, e.g. "Spanish" */
+    name: string;
+    /** Language of the message, when told */
+    detected?: string;
+    /** The message's language isn't one the agent replies in */
+    isFallback: boolean;
+}
+
+/**
+ * A Bible translation imported from its OSIS, USFX or Zefania source.
+ */
+export interface ScriptureTranslation {
+    /** Identifier, e.g. "eng-asv" */
+    id: string;
+    name: string;
+    /** Language code, e.g. "eng" */
+    language: string;
+    format: ScriptureFormat;
+    /** Path of the source, relative to the knowledge root */
+    source?: string;
+    /** SHA-1 of the source */
+    checksum?: string;
+    verseCount: number;
+    importedAt: number;
+}
+
+export interface ScriptureVerse {
+    /** ID of the translation */
+    translation: string;
+    language: string;
+    /** OSIS book ID, e.g. "Gen" or "1Cor" */
+    book: string;
+    chapter: number;
+    verse: number;
+    text: string;
+}
+
+/**
+ * Optional adapter capability for keeping the verses of Bible translations.
+ */
+export interface IDatabaseScriptureAdapter {
+    /**
+     * Saves a translation, replacing the verses imported before.
+     */
+    saveScriptureTranslation(
+        translation: ScriptureTranslation,
+        verses: ScriptureVerse[]
+    ): Promise<void>;
+
+    getScriptureTranslations(): Promise<ScriptureTranslation[]>;
+
+    /**
+     * Returns verses of a chapter in canonical order, all or from
+     * `verseStart` to `verseEnd`.
+     */
+    getScriptureVerses(params: {
+        translation?: string;
+        language?: string;
+        book: string;
+        chapter: number;
+        verseStart?: number;
+        verseEnd?: number;
+    }): Promise<ScriptureVerse[]>;
+}
+
+/**
+ * What came of checking a quote or a reference of a draft against the
+ * verses:
+ * - VERIFIED: the quote is verbatim, or the reference exists
+ * - TEXT_REPLACED: the quote was close, and swapped for the verbatim text
+ * - REFERENCE_CORRECTED: the quote was from other verses, whose reference
+ *   was put in its place
+ * - UNKNOWN_REFERENCE: no such verses
+ * - MISQUOTED: the quote matches no verse
+ */
+export type ScriptureQuoteStatus =
+    | "VERIFIED"
+    | "TEXT_REPLACED"
+    | "REFERENCE_CORRECTED"
+    | "UNKNOWN_REFERENCE"
+    | "MISQUOTED";
+
+export interface ScriptureQuoteCheck {
+    status: ScriptureQuoteStatus;
+    /** The reference as written in the draft */
+    reference?: string;
+    /** The quote as written in the draft, without its quotation marks */
+    quote?: string;
+    /** The verses the quote is from, e.g. "John.3.16" */
+    osisRef?: string;
+    /** Translation the quote matched best */
+    translation?: string;
+    /** How much of the quote is found in the verses, from 0 to 1 */
+    similarity?: number;
+    /** What the quote or reference was replaced with */
+    replacement?: string;
+}
+
+/**
+ * The outcome of verifying a draft: PASSED unchanged, CORRECTED, REJECTED
+ * and to be generated again, or SKIPPED without verses to check against.
+ */
+export type ScriptureVerificationOutcome =
+    | "PASSED"
+    | "CORRECTED"
+    | "REJECTED"
+    | "SKIPPED";
+
+export interface ScriptureVerification {
+    outcome: ScriptureVerificationOutcome;
+    /** The draft as written by the model */
+    draft: string;
+    /** The draft with its corrections, to post unless rejected */
+    text: string;
+    checks: ScriptureQuoteCheck[];
+    /** For rejected drafts, what to fix when generating again */
+    feedback?: string;
+    /** Drafts generated, this one included */
+    attempts?: number;
+}
+
+/**
+ * The verification of a posted tweet, kept for audit.
+ */
+export interface ScriptureVerificationRecord extends ScriptureVerification {
+    agentId: UUID;
+    tweetId: string;
+    /** Where the tweet was generated, e.g. "twitter:reply" */
+    source: string;
+    createdAt: number;
+}
+
+/**
+ * Optional adapter capability for keeping the verifications of posted tweets.
+ */
+export interface IDatabaseScriptureVerificationAdapter {
+    /**
+     * Saves a verification, replacing the one kept before for the tweet.
+     */
+    addScriptureVerification(
+        record: ScriptureVerificationRecord
+    ): Promise<void>;
+
+    getScriptureVerification(params: {
+        agentId: UUID;
+        tweetId: string;
+    }): Promise<ScriptureVerificationRecord | null>;
+}
+
 export interface IMemoryManager {
     runtime: IAgentRuntime;
     tableName: string;
@@ -1245,6 +1946,22 @@ export interface IRAGKnowledgeManager {
         type: "pdf" | "md" | "txt";
         isShared: boolean;
     }): Promise<void>;
+    getUnchangedIndex(document: {
+        path: string;
+        isShared: boolean;
+        checksum: string;
+        chunking: string;
+    }): Promise<RAGKnowledgeIndex | undefined>;
+    indexDocument(document: {
+        path: string;
+        isShared: boolean;
+        checksum: string;
+        chunking: string;
+        text: string;
+        metadata: Record<string, unknown>;
+        chunks: KnowledgeChunk[];
+    }): Promise<RAGKnowledgeIndex>;
+    getIndexingStatus(): RAGIndexingStatus[];
     cleanupDeletedKnowledgeFiles(): Promise<void>;
     generateScopedId(path: string, isShared: boolean): UUID;
     storeRAGEmbedding(params: {
@@ -1313,6 +2030,31 @@ export abstract class Service {
     abstract initialize(runtime: IAgentRuntime): Promise<void>;
 }
 
+/**
+ * Typed name of a runtime capability, created with `defineCapability`. The
+ * type parameter is the interface implementations of the capability provide.
+ */
+export interface CapabilityKey<T> {
+    readonly name: string;
+    /** Never set, only carries the capability's type */
+    readonly __type?: T;
+}
+
+/**
+ * Optional lifecycle of a capability implementation. The runtime initializes
+ * capabilities in registration order before its services, and stops them in
+ * reverse order.
+ */
+export interface CapabilityLifecycle {
+    initialize?(runtime: IAgentRuntime): Promise<void>;
+    stop?(runtime: IAgentRuntime): Promise<void>;
+}
+
+export interface CapabilityRegistration<T = unknown> {
+    key: CapabilityKey<T>;
+    implementation: T;
+}
+
 export interface IAgentRuntime {
     // Properties
     agentId: UUID;
@@ -1354,6 +2096,14 @@ export interface IAgentRuntime {
 
     registerService(service: Service): void;
 
+    registerCapability<T>(key: CapabilityKey<T>, implementation: T): void;
+
+    /** Returns null when no implementation is registered */
+    getCapability<T>(key: CapabilityKey<T>): T | null;
+
+    /** Like `getCapability`, but throws when no implementation is registered */
+    requireCapability<T>(key: CapabilityKey<T>): T;
+
     getSetting(key: string): string | null;
 
     // Methods
@@ -1604,6 +2354,61 @@ export interface RAGKnowledgeItem {
     score?: number;
 }
 
+/**
+ * How knowledge files are split before being embedded, set with the
+ * character's `settings.ragChunking`.
+ */
+export interface KnowledgeChunkingOptions {
+    /**
+     * Windows of tokens overlapping each other, or paragraphs packed up to
+     * the chunk size. Default: "tokens"
+     */
+    strategy?: "tokens" | "paragraphs";
+    /** Tokens per chunk. Default: 512 */
+    chunkSize?: number;
+    /** Tokens repeated at the start of the next window. Default: 64 */
+    overlap?: number;
+    /** Verses per chunk of a Bible translation. Default: 1 */
+    versesPerChunk?: number;
+}
+
+export interface KnowledgeChunk {
+    text: string;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * What was embedded of a knowledge document, so that it is only indexed
+ * again when it changes, and then only its changed chunks.
+ */
+export interface RAGKnowledgeIndex {
+    /** Checksum of the document's content */
+    checksum: string;
+    /** The chunking the document was split with */
+    chunking: string;
+    /** Checksums of the chunks' text, which their IDs end with */
+    chunks: string[];
+    /** Metadata of the document when it was last indexed */
+    metadata: Record<string, unknown>;
+    indexedAt: number;
+}
+
+export interface RAGIndexingStatus {
+    path: string;
+    state: "indexing" | "indexed" | "unchanged" | "failed";
+    /** Chunks of the document */
+    chunks: number;
+    /** Chunks embedded so far, those already indexed aside */
+    embedded: number;
+    /** Chunks to embed */
+    toEmbed: number;
+    /** Chunks removed as they are gone from the document */
+    removed: number;
+    error?: string;
+    startedAt: number;
+    finishedAt?: number;
+}
+
 export interface ActionResponse {
     like: boolean;
     retweet: boolean;
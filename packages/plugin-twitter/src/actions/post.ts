@@ -10,6 +10,7 @@ import {
     truncateToCompleteSentence,
     type ClientInstance,
     ServiceType,
+    ScriptureVerifier,
 } from "@elizaos/core";
 import { Scraper } from "agent-twitter-client";
 import { tweetTemplate } from "../templates";
@@ -20,6 +21,12 @@ export const DEFAULT_MAX_TWEET_LENGTH = 280;
 const AUTO_POST_INTERVAL = 5 * 60 * 1000; // 5 minutes
 let lastAutoPostTime = 0;
 
+// MAX_TWEET_LENGTH when set to a positive number, else the default
+function getMaxTweetLength(runtime: IAgentRuntime): number {
+    const maxLength = Number(runtime.getSetting("MAX_TWEET_LENGTH"));
+    return maxLength > 0 ? maxLength : DEFAULT_MAX_TWEET_LENGTH;
+}
+
 async function checkAutoPost(runtime: IAgentRuntime): Promise<void> {
     const now = Date.now();
     if (now - lastAutoPostTime >= AUTO_POST_INTERVAL) {
@@ -93,20 +100,10 @@ export async function composeTweet(
             return "";
         }
 
-        let trimmedContent = tweetContentObject.object.text.trim();
-        const maxTweetLength = runtime.getSetting("MAX_TWEET_LENGTH");
-        if (maxTweetLength) {
-            const maxLength = Number(maxTweetLength);
-            if (!isNaN(maxLength) && maxLength > 0) {
-                trimmedContent = truncateToCompleteSentence(trimmedContent, maxLength);
-            } else {
-                // Fallback to default if MAX_TWEET_LENGTH setting is invalid
-                trimmedContent = truncateToCompleteSentence(trimmedContent, DEFAULT_MAX_TWEET_LENGTH);
-            }
-        } else {
-            // Apply default tweet length if no setting exists
-            trimmedContent = truncateToCompleteSentence(trimmedContent, DEFAULT_MAX_TWEET_LENGTH);
-        }
+        const trimmedContent = truncateToCompleteSentence(
+            tweetContentObject.object.text.trim(),
+            getMaxTweetLength(runtime)
+        );
 
         // Ensure structured action output
         const actionOutput = `HANDLE_MENTION: ${trimmedContent}`;
@@ -146,14 +143,18 @@ export async function composeTweet(
     }
 }
 
-async function sendTweet(twitterClient: Scraper, content: string): Promise<boolean> {
+/**
+ * Sends a tweet, returning the ID Twitter gave it, or null when it wasn't
+ * posted.
+ */
+async function sendTweet(twitterClient: Scraper, content: string): Promise<string | null> {
     try {
     const result = await twitterClient.sendTweet(content);
         
         // Handle cases where result might not be a proper Response object
         if (!result || typeof result.json !== 'function') {
             elizaLogger.error("Invalid response from sendTweet", result);
-            return false;
+            return null;
         }
 
     const body = await result.json();
@@ -165,19 +166,20 @@ async function sendTweet(twitterClient: Scraper, content: string): Promise<boole
         elizaLogger.error(
             `Twitter API error (${error.code}): ${error.message}`
         );
-        return false;
+        return null;
     }
 
         // Check for successful tweet creation with more robust validation
-    if (!body?.data?.create_tweet?.tweet_results?.result) {
+    const tweetResult = body?.data?.create_tweet?.tweet_results?.result;
+    if (!tweetResult) {
         elizaLogger.error("Failed to post tweet: No tweet result in response");
-        return false;
+        return null;
     }
 
-    return true;
+    return tweetResult.rest_id ?? tweetResult.legacy?.id_str ?? "";
     } catch (error) {
         elizaLogger.error("Error in sendTweet:", error);
-        return false;
+        return null;
     }
 }
 
@@ -263,11 +265,11 @@ async function postTweet(
                     // Note Tweet failed due to authorization. Falling back to standard Tweet.
                         elizaLogger.warn("Note Tweet failed, falling back to standard tweet (may be truncated)");
                         const truncatedContent = truncateToCompleteSentence(cleanContent, DEFAULT_MAX_TWEET_LENGTH);
-                        return await sendTweet(scraper, truncatedContent);
+                        return (await sendTweet(scraper, truncatedContent)) !== null;
                 }
                 return true;
             }
-                return await sendTweet(scraper, cleanContent);
+                return (await sendTweet(scraper, cleanContent)) !== null;
         } catch (error) {
                 elizaLogger.error(`Tweet posting failed: ${error.message}`);
                 if (retryCount < MAX_RETRIES - 1) {
@@ -338,6 +340,26 @@ export const postAction: Action = {
                 return false;
             }
 
+            // Check the Bible quotes against the verses, asking for another
+            // tweet when they can't be corrected
+            const scriptureVerifier = new ScriptureVerifier(runtime, {
+                maxLength: getMaxTweetLength(runtime),
+            });
+            const verification = await scriptureVerifier.verify(tweetContent.text);
+            if (verification.outcome === "REJECTED") {
+                elizaLogger.warn(`Tweet rejected by scripture verification:\n${verification.feedback}`);
+                if (state) {
+                    state.response = {
+                        user: runtime.getSetting("TWITTER_USERNAME") || "unknown",
+                        content: {
+                            text: verification.feedback,
+                            action: "POST_TWEET"
+                        }
+                    };
+                }
+                return false;
+            }
+
             // Get Twitter client
             const client = runtime.clients.find(c => ((c as unknown) as { name: string; client: { twitterClient?: any } }).name === 'twitter');
             if (!client) {
@@ -385,10 +407,31 @@ export const postAction: Action = {
                 }
             }
 
+            // Post the tweet with retry logic
+            let tweetId: string | null = null;
+            let retryCount = 0;
+            const MAX_RETRIES = 3;
+            
+            while (tweetId === null && retryCount < MAX_RETRIES) {
+                tweetId = await sendTweet(scraper, verification.text);
+                if (tweetId === null) {
+                    retryCount++;
+                    elizaLogger.error(`Failed to post tweet (attempt ${retryCount})`);
+                    if (retryCount < MAX_RETRIES) {
+                        await new Promise(resolve => setTimeout(resolve, 1000 * retryCount)); // Exponential backoff
+                    }
+                }
+            }
+
+            if (tweetId === null) {
+                elizaLogger.error(`Failed to post tweet after ${MAX_RETRIES} attempts`);
+                return false;
+            }
+
             // Create tweet object
                 const tweet: Tweet = {
-                id: message.id || Date.now().toString(),
-                    text: tweetContent.text,
+                id: tweetId,
+                    text: verification.text,
                     username: runtime.getSetting("TWITTER_USERNAME") || 'unknown',
                     mentions: [],
                     isReply: false,
@@ -400,30 +443,12 @@ export const postAction: Action = {
                     urls: [],
                     videos: []
                 };
+            elizaLogger.info(`Successfully posted tweet: ${tweet.text}`);
+            logTweetDetection(tweet);
 
-            // Post the tweet with retry logic
-            let success = false;
-            let retryCount = 0;
-            const MAX_RETRIES = 3;
-            
-            while (!success && retryCount < MAX_RETRIES) {
-                try {
-                await scraper.tweet(tweet.text);
-                    success = true;
-                    elizaLogger.info(`Successfully posted tweet: ${tweet.text}`);
-                logTweetDetection(tweet);
-                } catch (error) {
-                    retryCount++;
-                    elizaLogger.error(`Failed to post tweet (attempt ${retryCount}): ${error.message}`);
-                    if (retryCount < MAX_RETRIES) {
-                        await new Promise(resolve => setTimeout(resolve, 1000 * retryCount)); // Exponential backoff
-                    }
-                }
-            }
-
-            if (!success) {
-                elizaLogger.error(`Failed to post tweet after ${MAX_RETRIES} attempts`);
-                return false;
+            // Without an ID the verification can't be found by the tweet
+            if (tweet.id) {
+                await scriptureVerifier.record(tweet.id, verification, "twitter:action");
             }
 
             if (state) {